@@ -2,11 +2,18 @@ import express from 'express';
 import cors from 'cors';
 import { db } from './db.js';
 import * as schema from '../shared/schema.js';
-import { eq, desc, and, sql } from 'drizzle-orm';
+import { eq, desc, and, or, gt, sql } from 'drizzle-orm';
 import routes from './routes.js';
+import { parseLeadPrompt } from '../supabase/functions/lib/dsl-parser.js';
+import { createGeocoder, resolveGeo } from '../supabase/functions/lib/geocoding.js';
+import { upgradeLeadQuery } from '../supabase/functions/lib/lead-query.js';
+import { estimateSearch } from '../supabase/functions/lib/search-estimate.js';
 
 const app = express();
 const PORT = process.env.PORT || 5000;
+// Prompts that name no location search here, as the old stub parser did
+const DEFAULT_PARSE_LOCATION = { city: 'New York', state: 'NY' };
+const geocoder = createGeocoder({ googleApiKey: process.env.GOOGLE_MAPS_API_KEY });
 
 app.use(cors());
 app.use(express.json());
@@ -33,6 +40,125 @@ app.get('/api/health', async (req, res) => {
   }
 });
 
+// Position in a job's lead views by creation; ids break ties between leads
+// scored in the same instant
+type LeadCursor = { createdAt: Date; id: string };
+
+// Load scored leads for a search job in the shape the app's Lead type expects.
+// Without `after` it returns a page in rank order. With `after` (null for the
+// start) it returns leads scored past that cursor in creation order, which is
+// how the SSE stream sends partial results without skipping or repeating any.
+async function loadLeads(
+  searchJobId: string,
+  { limit = 50, offset = 0, after }: { limit?: number; offset?: number; after?: LeadCursor | null } = {}
+) {
+  // Get lead views with business data
+  const leadViews = await db
+    .select({
+      id: schema.leadViews.id,
+      score: schema.leadViews.score,
+      subscoresJson: schema.leadViews.subscoresJson,
+      modelVersion: schema.leadViews.modelVersion,
+      rank: schema.leadViews.rank,
+      createdAt: schema.leadViews.createdAt,
+      business: {
+        id: schema.businesses.id,
+        name: schema.businesses.name,
+        vertical: schema.businesses.vertical,
+        website: schema.businesses.website,
+        phone: schema.businesses.phone,
+        addressJson: schema.businesses.addressJson,
+        lat: schema.businesses.lat,
+        lng: schema.businesses.lng,
+        franchiseBool: schema.businesses.franchiseBool,
+        createdAt: schema.businesses.createdAt,
+      }
+    })
+    .from(schema.leadViews)
+    .innerJoin(schema.businesses, eq(schema.leadViews.businessId, schema.businesses.id))
+    .where(after
+      ? and(
+        eq(schema.leadViews.searchJobId, searchJobId),
+        or(
+          gt(schema.leadViews.createdAt, after.createdAt),
+          and(eq(schema.leadViews.createdAt, after.createdAt), gt(schema.leadViews.id, after.id))
+        )
+      )
+      : eq(schema.leadViews.searchJobId, searchJobId))
+    // Leads stay at rank 0 until the job is finalized, so fall back to score
+    .orderBy(...(after !== undefined
+      ? [schema.leadViews.createdAt, schema.leadViews.id]
+      : [schema.leadViews.rank, desc(schema.leadViews.score)]))
+    .limit(limit)
+    .offset(offset);
+
+  // Get signals for businesses
+  const businessIds = leadViews.map(lv => lv.business.id);
+  const signals = businessIds.length > 0 ? await db
+    .select()
+    .from(schema.signals)
+    .where(sql`${schema.signals.businessId} = ANY(${businessIds})`) : [];
+
+  // Get people for businesses
+  const people = businessIds.length > 0 ? await db
+    .select()
+    .from(schema.people)
+    .where(sql`${schema.people.businessId} = ANY(${businessIds})`) : [];
+
+  // Group signals and people by business ID
+  const signalsByBusiness = signals.reduce((acc, signal) => {
+    if (!acc[signal.businessId]) acc[signal.businessId] = [];
+    acc[signal.businessId].push(signal);
+    return acc;
+  }, {} as Record<string, any[]>);
+
+  const peopleByBusiness = people.reduce((acc, person) => {
+    if (!acc[person.businessId]) acc[person.businessId] = [];
+    acc[person.businessId].push(person);
+    return acc;
+  }, {} as Record<string, any[]>);
+
+  // Transform to lead format
+  const leads = leadViews.map(leadView => {
+    const business = leadView.business;
+    const businessSignals = signalsByBusiness[business.id] || [];
+    const businessPeople = peopleByBusiness[business.id] || [];
+
+    // Transform signals to object
+    const signalsObj = businessSignals.reduce((acc, signal) => {
+      acc[signal.type] = signal.valueJson;
+      return acc;
+    }, {} as Record<string, any>);
+
+    // Find owner
+    const owner = businessPeople.find(person => 
+      person.role?.toLowerCase().includes('owner') ||
+      person.role?.toLowerCase().includes('principal') ||
+      person.role?.toLowerCase().includes('dr')
+    );
+
+    return {
+      rank: leadView.rank,
+      score: leadView.score,
+      subscores: leadView.subscoresJson,
+      model_version: leadView.modelVersion,
+      name: business.name,
+      city: business.addressJson?.city || '',
+      state: business.addressJson?.state || '',
+      website: business.website,
+      phone: business.phone,
+      signals: signalsObj,
+      owner: owner?.name,
+      owner_email: owner?.email,
+      business,
+      people: businessPeople,
+      signal_details: businessSignals,
+    };
+  });
+
+  return { leads, leadViews };
+}
+
 // Get search results
 app.get('/api/search-results/:searchJobId', async (req, res) => {
   try {
@@ -51,94 +177,7 @@ app.get('/api/search-results/:searchJobId', async (req, res) => {
       return res.status(404).json({ error: 'Search job not found' });
     }
 
-    // Get lead views with business data
-    const leadViews = await db
-      .select({
-        id: schema.leadViews.id,
-        score: schema.leadViews.score,
-        subscoresJson: schema.leadViews.subscoresJson,
-        rank: schema.leadViews.rank,
-        business: {
-          id: schema.businesses.id,
-          name: schema.businesses.name,
-          vertical: schema.businesses.vertical,
-          website: schema.businesses.website,
-          phone: schema.businesses.phone,
-          addressJson: schema.businesses.addressJson,
-          lat: schema.businesses.lat,
-          lng: schema.businesses.lng,
-          franchiseBool: schema.businesses.franchiseBool,
-          createdAt: schema.businesses.createdAt,
-        }
-      })
-      .from(schema.leadViews)
-      .innerJoin(schema.businesses, eq(schema.leadViews.businessId, schema.businesses.id))
-      .where(eq(schema.leadViews.searchJobId, searchJobId))
-      .orderBy(schema.leadViews.rank)
-      .limit(limit)
-      .offset(offset);
-
-    // Get signals for businesses
-    const businessIds = leadViews.map(lv => lv.business.id);
-    const signals = businessIds.length > 0 ? await db
-      .select()
-      .from(schema.signals)
-      .where(sql`${schema.signals.businessId} = ANY(${businessIds})`) : [];
-
-    // Get people for businesses
-    const people = businessIds.length > 0 ? await db
-      .select()
-      .from(schema.people)
-      .where(sql`${schema.people.businessId} = ANY(${businessIds})`) : [];
-
-    // Group signals and people by business ID
-    const signalsByBusiness = signals.reduce((acc, signal) => {
-      if (!acc[signal.businessId]) acc[signal.businessId] = [];
-      acc[signal.businessId].push(signal);
-      return acc;
-    }, {} as Record<string, any[]>);
-
-    const peopleByBusiness = people.reduce((acc, person) => {
-      if (!acc[person.businessId]) acc[person.businessId] = [];
-      acc[person.businessId].push(person);
-      return acc;
-    }, {} as Record<string, any[]>);
-
-    // Transform to lead format
-    const leads = leadViews.map(leadView => {
-      const business = leadView.business;
-      const businessSignals = signalsByBusiness[business.id] || [];
-      const businessPeople = peopleByBusiness[business.id] || [];
-
-      // Transform signals to object
-      const signalsObj = businessSignals.reduce((acc, signal) => {
-        acc[signal.type] = signal.valueJson;
-        return acc;
-      }, {} as Record<string, any>);
-
-      // Find owner
-      const owner = businessPeople.find(person => 
-        person.role?.toLowerCase().includes('owner') ||
-        person.role?.toLowerCase().includes('principal') ||
-        person.role?.toLowerCase().includes('dr')
-      );
-
-      return {
-        rank: leadView.rank,
-        score: leadView.score,
-        name: business.name,
-        city: business.addressJson?.city || '',
-        state: business.addressJson?.state || '',
-        website: business.website,
-        phone: business.phone,
-        signals: signalsObj,
-        owner: owner?.name,
-        owner_email: owner?.email,
-        business,
-        people: businessPeople,
-        signal_details: businessSignals,
-      };
-    });
+    const { leads, leadViews } = await loadLeads(searchJobId, { limit, offset });
 
     res.json({
       search_job: searchJob[0],
@@ -152,25 +191,171 @@ app.get('/api/search-results/:searchJobId', async (req, res) => {
   }
 });
 
+// Stream search progress as Server-Sent Events. Each connection checks the job
+// once a second and pushes only what changed: `progress` (status and
+// progress_json), `log` (new status_logs rows), `leads` (newly scored leads as
+// partial results) and a final `done` once the job completes or fails.
+const SSE_TICK_MS = 1000;
+const SSE_HEARTBEAT_MS = 15000;
+
+app.get('/api/search-jobs/:searchJobId/events', async (req, res) => {
+  const { searchJobId } = req.params;
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  let lastProgress = '';
+  // Keyset cursors over (ts, id) and (created_at, id); rows sharing a
+  // timestamp with the last one sent would be dropped by a plain `>`
+  let lastLog: { ts: string; id: string } | null = null;
+  let lastLead: LeadCursor | null = null;
+  let closed = false;
+  let ticking = false;
+
+  const tick = async () => {
+    if (closed || ticking) return;
+    ticking = true;
+    try {
+      const [job] = await db
+        .select({
+          id: schema.searchJobs.id,
+          status: schema.searchJobs.status,
+          progressJson: schema.searchJobs.progressJson,
+          summaryStats: schema.searchJobs.summaryStats,
+          errorText: schema.searchJobs.errorText,
+        })
+        .from(schema.searchJobs)
+        .where(eq(schema.searchJobs.id, searchJobId))
+        .limit(1);
+
+      if (!job) {
+        send('stream_error', { error: 'Search job not found' });
+        return stop();
+      }
+
+      const logs = await db
+        .select({
+          id: schema.statusLogs.id,
+          task: schema.statusLogs.task,
+          message: schema.statusLogs.message,
+          severity: schema.statusLogs.severity,
+          ts: schema.statusLogs.ts,
+        })
+        .from(schema.statusLogs)
+        .where(lastLog
+          ? and(
+            eq(schema.statusLogs.searchJobId, searchJobId),
+            or(
+              gt(schema.statusLogs.ts, lastLog.ts),
+              and(eq(schema.statusLogs.ts, lastLog.ts), gt(schema.statusLogs.id, lastLog.id))
+            )
+          )
+          : eq(schema.statusLogs.searchJobId, searchJobId))
+        .orderBy(schema.statusLogs.ts, schema.statusLogs.id);
+
+      for (const { id, ...log } of logs) {
+        send('log', log);
+        lastLog = { ts: log.ts ?? '', id };
+      }
+
+      const { leads, leadViews } = await loadLeads(searchJobId, { limit: 500, after: lastLead });
+      if (leads.length > 0) {
+        send('leads', { leads });
+        const last = leadViews[leadViews.length - 1];
+        lastLead = { createdAt: last.createdAt, id: last.id };
+      }
+
+      const progress = JSON.stringify([job.status, job.progressJson]);
+      if (progress !== lastProgress) {
+        lastProgress = progress;
+        send('progress', {
+          status: job.status,
+          progress: job.progressJson,
+          summary_stats: job.summaryStats,
+          error_text: job.errorText,
+        });
+      }
+
+      if (job.status === 'completed' || job.status === 'failed') {
+        send('done', { status: job.status });
+        stop();
+      }
+    } catch (error) {
+      console.error('Error streaming search progress:', error);
+      send('stream_error', { error: error.message });
+    } finally {
+      ticking = false;
+    }
+  };
+
+  const interval = setInterval(tick, SSE_TICK_MS);
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+
+  function stop() {
+    if (closed) return;
+    closed = true;
+    clearInterval(interval);
+    clearInterval(heartbeat);
+    res.end();
+  }
+
+  req.on('close', stop);
+  await tick();
+});
+
 // Create search job (simplified version)
 app.post('/api/search-leads', async (req, res) => {
   try {
-    const { dsl, original_prompt, custom_name, search_tags, lead_type } = req.body;
+    const { dsl: rawDsl, original_prompt, custom_name, search_tags, lead_type, saved_search_id } = req.body;
+
+    const query = upgradeLeadQuery(rawDsl);
+    if (!query.success) {
+      return res.status(400).json({ error: 'Invalid lead query', errors: query.errors });
+    }
+
+    const located = await resolveGeo(query.dsl.geo, geocoder);
 
     // Create search job
     const [searchJob] = await db
       .insert(schema.searchJobs)
       .values({
-        dslJson: dsl,
-        status: 'running',
+        dslJson: { ...query.dsl, geo: located.geo },
+        status: 'queued',
         originalPrompt: original_prompt,
         customName: custom_name,
         searchTags: search_tags || [],
         leadType: lead_type,
+        savedSearchId: saved_search_id ?? null,
       })
       .returning();
 
-    // For now, return job ID - in a real implementation, this would trigger background processing
+    // The saved search points at its latest run
+    if (saved_search_id) {
+      await db
+        .update(schema.savedSearches)
+        .set({ searchJobId: searchJob.id })
+        .where(eq(schema.savedSearches.id, saved_search_id));
+    }
+
+    // Seed the task queue; the search-worker edge function drains it
+    await db
+      .insert(schema.searchJobTasks)
+      .values({
+        searchJobId: searchJob.id,
+        type: 'fetch',
+        dedupeKey: 'fetch:0',
+        payload: { page: 0, page_token: null },
+      })
+      .onConflictDoNothing();
+
     res.json({ 
       job_id: searchJob.id,
       status: 'queued',
@@ -183,40 +368,28 @@ app.post('/api/search-leads', async (req, res) => {
   }
 });
 
-// Parse prompt endpoint (simplified)
+// Parse prompt endpoint, using the offline grammar parser
 app.post('/api/parse-prompt', async (req, res) => {
   try {
-    const { prompt } = req.body;
-
-    // Simple parsing logic (in real implementation, this would use OpenAI)
-    const defaultDSL = {
-      version: 1,
-      vertical: 'generic',
-      geo: {
-        city: 'New York',
-        state: 'NY',
-        radius_km: 25
-      },
-      constraints: {
-        must: []
-      },
-      result_size: {
-        target: 250
-      },
-      sort_by: 'score_desc',
-      output: {
-        contract: 'json'
-      },
-      notify: {
-        on_complete: true
-      },
-      compliance_flags: ['respect_dnc']
-    };
+    const { prompt, options = {} } = req.body;
+    if (!prompt || typeof prompt !== 'string') {
+      return res.status(400).json({ error: 'Prompt is required' });
+    }
+
+    const parsed = parseLeadPrompt(prompt, { defaultLocation: DEFAULT_PARSE_LOCATION });
+    if (!parsed.dsl) {
+      return res.status(422).json({ error: 'Could not parse prompt', errors: parsed.errors, warnings: parsed.warnings, spans: parsed.spans });
+    }
 
+    const located = await resolveGeo(parsed.dsl.geo, geocoder);
+    const dsl = { ...parsed.dsl, geo: located.geo };
     res.json({
-      dsl: defaultDSL,
-      warnings: ['Using simplified parsing - OpenAI integration needed for full functionality'],
-      confidence: 0.6
+      dsl,
+      warnings: [...parsed.warnings, ...located.warnings],
+      confidence: parsed.confidence,
+      spans: parsed.spans,
+      // A dry run also says what running the search would cost
+      ...(options.dry_run === true && { estimate: estimateSearch(dsl) })
     });
 
   } catch (error) {
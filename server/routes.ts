@@ -1,36 +1,20 @@
 import express from 'express';
 import { z } from 'zod';
 import { storage } from './storage.js';
+import {
+  BUILT_IN_SCORING_PROFILES,
+  SCORING_MODEL_VERSION,
+  featuresFromSignals,
+  getScoringProfile,
+  scoreLead,
+} from '../supabase/functions/lib/scoring-service.js';
+import { StoredLeadQuerySchema } from '../supabase/functions/lib/lead-query.js';
 
 const router = express.Router();
 
 // Zod schemas for validation
 const searchJobSchema = z.object({
-  dslJson: z.object({
-    version: z.number(),
-    vertical: z.string(),
-    geo: z.object({
-      city: z.string(),
-      state: z.string(),
-      radius_km: z.number().optional(),
-    }),
-    constraints: z.object({
-      must: z.array(z.any()),
-      optional: z.array(z.any()).optional(),
-    }),
-    result_size: z.object({
-      target: z.number(),
-    }),
-    sort_by: z.string(),
-    lead_profile: z.string(),
-    output: z.object({
-      contract: z.string(),
-    }),
-    notify: z.object({
-      on_complete: z.boolean(),
-    }),
-    compliance_flags: z.array(z.string()),
-  }),
+  dslJson: StoredLeadQuerySchema,
   status: z.enum(['queued', 'running', 'completed', 'failed']).optional(),
   userId: z.string(),
   customName: z.string().optional(),
@@ -42,21 +26,7 @@ const searchJobSchema = z.object({
 const savedSearchSchema = z.object({
   userId: z.string(),
   name: z.string(),
-  dslJson: z.object({
-    version: z.number(),
-    vertical: z.string(),
-    geo: z.object({
-      city: z.string(),
-      state: z.string(),
-    }),
-    constraints: z.any(),
-    result_size: z.any(),
-    sort_by: z.string(),
-    lead_profile: z.string(),
-    output: z.any(),
-    notify: z.any(),
-    compliance_flags: z.array(z.string()),
-  }),
+  dslJson: StoredLeadQuerySchema,
   searchJobId: z.string().optional(),
 });
 
@@ -66,6 +36,29 @@ const updateSavedSearchSchema = z.object({
   description: z.string().optional(),
 });
 
+const scoreRequestSchema = z.object({
+  leads: z.array(z.object({
+    business: z.object({
+      vertical: z.string().nullable().optional(),
+      website: z.string().nullable().optional(),
+      phone: z.string().nullable().optional(),
+      franchise_bool: z.boolean().nullable().optional(),
+    }).default({}),
+    signals: z.array(z.object({
+      type: z.string(),
+      value_json: z.any(),
+      evidence_snippet: z.string().nullable().optional(),
+    })).default([]),
+  })),
+  profile: z.string().optional(),
+  weights: z.object({
+    ICP: z.number(),
+    Pain: z.number(),
+    Reachability: z.number(),
+    ComplianceRisk: z.number(),
+  }).partial().optional(),
+});
+
 // Search Jobs endpoints
 router.get('/search-jobs', async (req, res) => {
   try {
@@ -192,6 +185,28 @@ router.post('/lead-tags', async (req, res) => {
   }
 });
 
+// Scoring endpoints - same model as the edge functions
+router.get('/scoring/profiles', async (req, res) => {
+  res.json({
+    data: { model_version: SCORING_MODEL_VERSION, profiles: BUILT_IN_SCORING_PROFILES },
+    error: null,
+  });
+});
+
+router.post('/scoring/score', async (req, res) => {
+  try {
+    const { leads, profile, weights } = scoreRequestSchema.parse(req.body);
+    const scoringProfile = getScoringProfile(profile);
+    const results = leads.map(lead =>
+      scoreLead(featuresFromSignals(lead.signals, lead.business), scoringProfile, weights)
+    );
+    res.json({ data: results, error: null });
+  } catch (error) {
+    console.error('Error scoring leads:', error);
+    res.status(500).json({ data: null, error: error.message });
+  }
+});
+
 // Signal overrides endpoint
 router.post('/signal-overrides', async (req, res) => {
   try {
@@ -1,5 +1,6 @@
 // In-memory storage implementation per guidelines
 import { SearchJob, SavedSearch, DashboardStats, LeadQuery } from '../src/types/lead.js';
+import { LEAD_QUERY_VERSION } from '../supabase/functions/lib/lead-query.js';
 
 export interface IStorage {
   // Search jobs
@@ -172,13 +173,13 @@ export class MemStorage implements IStorage {
     // Add sample search job
     this.createSearchJob({
       dslJson: {
-        version: 1,
+        version: LEAD_QUERY_VERSION,
         vertical: 'dentist',
-        geo: { city: 'New York', state: 'NY' },
+        geo: { city: 'New York', state: 'NY', radius_km: 25 },
         constraints: { must: [] },
         result_size: { target: 100 },
+        scoring: { profile: 'generic' },
         sort_by: 'score_desc',
-        lead_profile: 'generic',
         output: { contract: 'json' },
         notify: { on_complete: true },
         compliance_flags: [],
@@ -194,13 +195,13 @@ export class MemStorage implements IStorage {
       userId: 'migration-user',
       name: 'Dentists in NYC',
       dslJson: {
-        version: 1,
+        version: LEAD_QUERY_VERSION,
         vertical: 'dentist',
-        geo: { city: 'New York', state: 'NY' },
+        geo: { city: 'New York', state: 'NY', radius_km: 25 },
         constraints: { must: [] },
         result_size: { target: 100 },
+        scoring: { profile: 'generic' },
         sort_by: 'score_desc',
-        lead_profile: 'generic',
         output: { contract: 'json' },
         notify: { on_complete: true },
         compliance_flags: [],
@@ -7,6 +7,7 @@ import {
   boolean,
   doublePrecision,
   integer,
+  bigint,
   numeric,
   check,
   unique,
@@ -30,11 +31,58 @@ export const searchJobs = pgTable("search_jobs", {
   searchTags: jsonb("search_tags").default(sql`'[]'::jsonb`),
   leadType: text("lead_type"),
   deletedAt: timestamp("deleted_at", { withTimezone: true }),
+  progressJson: jsonb("progress_json"), // SearchProgress snapshot written by search-worker
+  savedSearchId: uuid("saved_search_id"), // Saved search this job is a run of
 }, (table) => ({
   statusCheck: check("status_check", sql`${table.status} IN ('queued', 'running', 'completed', 'failed')`),
   deletedAtIdx: index("idx_search_jobs_deleted_at").on(table.deletedAt).where(sql`${table.deletedAt} IS NULL`),
 }));
 
+// Search job tasks - durable queue the search pipeline fans out into
+export const searchJobTasks = pgTable("search_job_tasks", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  searchJobId: uuid("search_job_id").notNull(),
+  type: text("type").notNull(), // 'fetch', 'enrich', 'score', 'validate'
+  status: text("status").notNull().default("pending"),
+  dedupeKey: text("dedupe_key").notNull(),
+  payload: jsonb("payload").notNull().default(sql`'{}'::jsonb`),
+  result: jsonb("result"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAfter: timestamp("run_after", { withTimezone: true }).notNull().default(sql`now()`),
+  leasedBy: text("leased_by"),
+  leasedUntil: timestamp("leased_until", { withTimezone: true }),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+}, (table) => ({
+  typeCheck: check("type_check", sql`${table.type} IN ('fetch', 'enrich', 'score', 'validate')`),
+  statusCheck: check("status_check", sql`${table.status} IN ('pending', 'leased', 'completed', 'dead')`),
+  uniqueJobDedupe: unique("unique_job_dedupe").on(table.searchJobId, table.dedupeKey),
+  jobStatusIdx: index("idx_search_job_tasks_job").on(table.searchJobId, table.status),
+}));
+
+// Data source health - latest snapshot per registered data source
+export const dataSourceHealth = pgTable("data_source_health", {
+  source: text("source").primaryKey(),
+  status: text("status").notNull(), // 'healthy', 'degraded', 'down', 'unconfigured'
+  capabilities: text("capabilities").array().notNull().default(sql`'{}'`),
+  rateLimit: jsonb("rate_limit"),
+  isFixture: boolean("is_fixture").notNull().default(false),
+  requests: integer("requests").notNull().default(0),
+  failures: integer("failures").notNull().default(0),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  throttledMs: bigint("throttled_ms", { mode: "number" }).notNull().default(0),
+  lastLatencyMs: integer("last_latency_ms"),
+  lastSuccessAt: timestamp("last_success_at", { withTimezone: true }),
+  lastErrorAt: timestamp("last_error_at", { withTimezone: true }),
+  lastError: text("last_error"),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  statusCheck: check("status_check", sql`${table.status} IN ('healthy', 'degraded', 'down', 'unconfigured')`),
+}));
+
 // Businesses table - canonical business entities
 export const businesses = pgTable("businesses", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -60,11 +108,26 @@ export const businesses = pgTable("businesses", {
   scoringBreakdown: jsonb("scoring_breakdown"),
   websiteAuditData: jsonb("website_audit_data"),
   placesApiData: jsonb("places_api_data"),
+  // Entity resolution (supabase/functions/lib/entity-resolution.ts)
+  googlePlaceId: text("google_place_id"),
+  metadata: jsonb("metadata"),
+  phoneNormalized: text("phone_normalized"),
+  domain: text("domain"),
+  fieldProvenance: jsonb("field_provenance").notNull().default(sql`'{}'::jsonb`),
+  duplicateOf: uuid("duplicate_of"), // surviving business this row resolved to
+  mergedAt: timestamp("merged_at", { withTimezone: true }), // set once merge_businesses moved its data
+  // Scheduled re-audits (supabase/functions/reaudit-websites)
+  lastAuditedAt: timestamp("last_audited_at", { withTimezone: true }),
+  websiteReachable: boolean("website_reachable"),
 }, (table) => ({
   nameIdx: index("idx_businesses_name").using("gin", sql`to_tsvector('simple', ${table.name})`),
   geoIdx: index("idx_businesses_geo").on(table.lat, table.lng),
   verticalIdx: index("idx_businesses_vertical").on(table.vertical),
   confidenceScoreIdx: index("idx_businesses_confidence_score").on(table.confidenceScore),
+  googlePlaceIdIdx: index("idx_businesses_google_place_id").on(table.googlePlaceId),
+  phoneNormalizedIdx: index("idx_businesses_phone_normalized").on(table.phoneNormalized),
+  domainIdx: index("idx_businesses_domain").on(table.domain),
+  lastAuditedAtIdx: index("idx_businesses_last_audited_at").on(table.lastAuditedAt),
 }));
 
 // People associated with businesses
@@ -110,6 +173,9 @@ export const leadViews = pgTable("lead_views", {
   businessId: uuid("business_id").notNull(),
   score: integer("score"),
   subscoresJson: jsonb("subscores_json"), // {ICP: number, Pain: number, Reachability: number, ComplianceRisk: number}
+  modelVersion: text("model_version"), // SCORING_MODEL_VERSION that produced score/subscores
+  signalSnapshot: jsonb("signal_snapshot"), // Signal type -> value the lead was scored on
+  scoreContributions: jsonb("score_contributions"), // ScoreContribution[] summing to score
   rank: integer("rank"),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
 }, (table) => ({
@@ -170,6 +236,7 @@ export const events = pgTable("events", {
 }, (table) => ({
   entityIdx: index("idx_events_entity").on(table.entityType, table.entityId),
   typeIdx: index("idx_events_type").on(table.type),
+  entityCreatedIdx: index("idx_events_entity_created").on(table.entityType, table.entityId, table.createdAt),
 }));
 
 // Artifact registry for future modules
@@ -220,6 +287,73 @@ export const savedSearches = pgTable("saved_searches", {
   userIdIdx: index("idx_saved_searches_user_id").on(table.userId),
 }));
 
+// Custom vendor fingerprints overlaid on the built-in database
+export const vendorFingerprints = pgTable("vendor_fingerprints", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  category: text("category").notNull(),
+  definition: jsonb("definition").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  createdBy: uuid("created_by"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  enabledIdx: index("idx_vendor_fingerprints_enabled").on(table.enabled),
+}));
+
+// Custom scoring profiles added to the built-ins; private until published
+export const scoringProfiles = pgTable("scoring_profiles", {
+  id: text("id").primaryKey(),
+  ownerId: uuid("owner_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  vertical: text("vertical"),
+  weights: jsonb("weights").notNull(),
+  thresholds: jsonb("thresholds").notNull(),
+  industryModifiers: jsonb("industry_modifiers"),
+  published: boolean("published").notNull().default(false),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  ownerIdx: index("idx_scoring_profiles_owner").on(table.ownerId),
+}));
+
+// Learned scoring models; the single active one replaces the rule-based total
+export const scoringModels = pgTable("scoring_models", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  version: text("version").notNull().unique(),
+  status: text("status").notNull().default("candidate"), // 'candidate' | 'active' | 'retired'
+  model: jsonb("model").notNull(),
+  metrics: jsonb("metrics").notNull(),
+  trainedBy: uuid("trained_by"),
+  trainedAt: timestamp("trained_at", { withTimezone: true }).notNull().default(sql`now()`),
+  promotedBy: uuid("promoted_by"),
+  promotedAt: timestamp("promoted_at", { withTimezone: true }),
+}, (table) => ({
+  statusCheck: check("scoring_models_status_check", sql`${table.status} IN ('candidate', 'active', 'retired')`),
+  trainedAtIdx: index("idx_scoring_models_trained_at").on(table.trainedAt),
+}));
+
+// One row per scoring event of a lead view; lead views keep only the latest
+export const leadScoreHistory = pgTable("lead_score_history", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadViewId: uuid("lead_view_id").notNull(),
+  searchJobId: uuid("search_job_id").notNull(),
+  businessId: uuid("business_id").notNull(),
+  event: text("event").notNull(), // 'search' | 'rescore'
+  profile: text("profile").notNull(),
+  modelVersion: text("model_version").notNull(),
+  weightsHash: text("weights_hash").notNull(),
+  score: integer("score").notNull(),
+  rank: integer("rank"), // null until the search's validate task ranks it
+  subscores: jsonb("subscores").notNull(),
+  scoredAt: timestamp("scored_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  eventCheck: check("lead_score_history_event_check", sql`${table.event} IN ('search', 'rescore')`),
+  scoreCheck: check("lead_score_history_score_check", sql`${table.score} >= 0 AND ${table.score} <= 100`),
+  businessIdx: index("idx_lead_score_history_business").on(table.businessId, table.scoredAt),
+}));
+
 // Relations
 export const businessesRelations = relations(businesses, ({ many }) => ({
   people: many(people),
@@ -258,6 +392,14 @@ export const leadViewsRelations = relations(leadViews, ({ one }) => ({
 
 export const searchJobsRelations = relations(searchJobs, ({ many }) => ({
   leadViews: many(leadViews),
+  tasks: many(searchJobTasks),
+}));
+
+export const searchJobTasksRelations = relations(searchJobTasks, ({ one }) => ({
+  searchJob: one(searchJobs, {
+    fields: [searchJobTasks.searchJobId],
+    references: [searchJobs.id],
+  }),
 }));
 
 export const tagsRelations = relations(tags, ({ many }) => ({
@@ -18,6 +18,7 @@ import {
   Search
 } from 'lucide-react';
 import { Lead } from '@/types/lead';
+import { useVerticals } from '@/hooks/useVerticals';
 
 interface FilterCriteria {
   scoreRange: [number, number];
@@ -30,6 +31,7 @@ interface FilterCriteria {
   reviewCountMin: number;
   cities: string[];
   searchText: string;
+  onlyNew: boolean;
 }
 
 interface AdvancedFiltersProps {
@@ -37,24 +39,19 @@ interface AdvancedFiltersProps {
   onFilterChange: (filteredLeads: Lead[]) => void;
   isVisible: boolean;
   onToggle: () => void;
+  // Businesses the previous run of the same saved search did not return;
+  // null when the current results are not a rerun
+  newBusinessIds?: Set<string> | null;
 }
 
-const VERTICALS = [
-  { value: 'dentist', label: 'Dentist' },
-  { value: 'law_firm', label: 'Law Firm' },
-  { value: 'contractor', label: 'Contractor' },
-  { value: 'hvac', label: 'HVAC' },
-  { value: 'roofing', label: 'Roofing' },
-  { value: 'generic', label: 'Generic' }
-];
-
 const STATUSES = [
   { value: 'new', label: 'New' },
   { value: 'qualified', label: 'Qualified' },
   { value: 'ignored', label: 'Ignored' }
 ];
 
-export function AdvancedFilters({ leads, onFilterChange, isVisible, onToggle }: AdvancedFiltersProps) {
+export function AdvancedFilters({ leads, onFilterChange, isVisible, onToggle, newBusinessIds }: AdvancedFiltersProps) {
+  const { verticals } = useVerticals();
   const [filters, setFilters] = useState<FilterCriteria>({
     scoreRange: [0, 100],
     statuses: ['new', 'qualified', 'ignored'],
@@ -65,14 +62,15 @@ export function AdvancedFilters({ leads, onFilterChange, isVisible, onToggle }:
     ownerIdentified: 'all',
     reviewCountMin: 0,
     cities: [],
-    searchText: ''
+    searchText: '',
+    onlyNew: false
   });
 
   const [activeFilterCount, setActiveFilterCount] = useState(0);
 
   React.useEffect(() => {
     applyFilters();
-  }, [filters, leads]);
+  }, [filters, leads, newBusinessIds]);
 
   const applyFilters = () => {
     let filtered = [...leads];
@@ -162,6 +160,12 @@ export function AdvancedFilters({ leads, onFilterChange, isVisible, onToggle }:
       activeCount++;
     }
 
+    // New since last run filter
+    if (filters.onlyNew && newBusinessIds) {
+      filtered = filtered.filter(lead => newBusinessIds.has(lead.business.id));
+      activeCount++;
+    }
+
     setActiveFilterCount(activeCount);
     onFilterChange(filtered);
   };
@@ -181,7 +185,8 @@ export function AdvancedFilters({ leads, onFilterChange, isVisible, onToggle }:
       ownerIdentified: 'all',
       reviewCountMin: 0,
       cities: [],
-      searchText: ''
+      searchText: '',
+      onlyNew: false
     });
   };
 
@@ -190,6 +195,16 @@ export function AdvancedFilters({ leads, onFilterChange, isVisible, onToggle }:
     return cities.slice(0, 20); // Limit to first 20 cities
   }, [leads]);
 
+  const onlyNewToggle = newBusinessIds && (
+    <label className="flex items-center space-x-2 text-sm">
+      <Checkbox
+        checked={filters.onlyNew}
+        onCheckedChange={(checked) => updateFilter('onlyNew', checked === true)}
+      />
+      <span>Only show new since last run ({newBusinessIds.size})</span>
+    </label>
+  );
+
   if (!isVisible) {
     return (
       <div className="flex items-center gap-2 mb-4">
@@ -217,6 +232,7 @@ export function AdvancedFilters({ leads, onFilterChange, isVisible, onToggle }:
             Clear All
           </Button>
         )}
+        {onlyNewToggle}
       </div>
     );
   }
@@ -243,6 +259,8 @@ export function AdvancedFilters({ leads, onFilterChange, isVisible, onToggle }:
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
+        {onlyNewToggle}
+
         {/* Search Text */}
         <div>
           <label className="text-sm font-medium mb-2 block">Search</label>
@@ -373,19 +391,19 @@ export function AdvancedFilters({ leads, onFilterChange, isVisible, onToggle }:
             Business Type
           </label>
           <div className="grid grid-cols-3 gap-2">
-            {VERTICALS.map((vertical) => (
-              <div key={vertical.value} className="flex items-center space-x-2">
+            {verticals.map((vertical) => (
+              <div key={vertical.id} className="flex items-center space-x-2">
                 <Checkbox
-                  id={`vertical-${vertical.value}`}
-                  checked={filters.verticals.includes(vertical.value)}
+                  id={`vertical-${vertical.id}`}
+                  checked={filters.verticals.includes(vertical.id)}
                   onCheckedChange={(checked) => {
                     const newVerticals = checked
-                      ? [...filters.verticals, vertical.value]
-                      : filters.verticals.filter(v => v !== vertical.value);
+                      ? [...filters.verticals, vertical.id]
+                      : filters.verticals.filter(v => v !== vertical.id);
                     updateFilter('verticals', newVerticals);
                   }}
                 />
-                <label htmlFor={`vertical-${vertical.value}`} className="text-sm">
+                <label htmlFor={`vertical-${vertical.id}`} className="text-sm">
                   {vertical.label}
                 </label>
               </div>
@@ -14,7 +14,8 @@ import {
   ArrowRight,
   Eye,
   BarChart3,
-  Target
+  Target,
+  Ban
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { SearchJob } from '@/types/lead';
@@ -23,6 +24,7 @@ import { SearchAnalytics } from './SearchAnalytics';
 import { LeadQualityTracker } from './LeadQualityTracker';
 import { SavedSearchesTable } from './SavedSearchesTable';
 import { SearchHistoryManager } from './SearchHistoryManager';
+import { describeGeo } from '../../../supabase/functions/lib/geocoding';
 
 interface DashboardStats {
   totalLeads: number;
@@ -36,7 +38,7 @@ interface DashboardStats {
 interface DashboardHomeProps {
   onViewSearch: (searchJob: SearchJob) => void;
   onStartNewSearch: () => void;
-  onRunSearch: (dsl: any) => void;
+  onRunSearch: (dsl: any, savedSearchId?: string) => void;
 }
 
 export function DashboardHome({ onViewSearch, onStartNewSearch, onRunSearch }: DashboardHomeProps) {
@@ -118,7 +120,7 @@ export function DashboardHome({ onViewSearch, onStartNewSearch, onRunSearch }: D
 
   const getSearchDescription = (searchJob: SearchJob) => {
     const dsl = searchJob.dsl_json;
-    return `${dsl.vertical} in ${dsl.geo.city}, ${dsl.geo.state}`;
+    return `${dsl.vertical} in ${describeGeo(dsl.geo)}`;
   };
 
   const getStatusColor = (status: string) => {
@@ -264,6 +266,12 @@ export function DashboardHome({ onViewSearch, onStartNewSearch, onRunSearch }: D
                               {search.summary_stats.total_found || 0} leads found
                             </div>
                           )}
+                          {search.summary_stats?.suppressed_count ? (
+                            <div className="flex items-center gap-1">
+                              <Ban className="h-3 w-3" />
+                              {search.summary_stats.suppressed_count} suppressed
+                            </div>
+                          ) : null}
                         </div>
                       </div>
                       {search.status === 'completed' && (
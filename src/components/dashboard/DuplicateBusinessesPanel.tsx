@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { GitMerge, RefreshCw } from 'lucide-react';
+import { useBusinessMerge, type DuplicateBusiness } from '@/hooks/useBusinessMerge';
+
+const REASON_LABELS: Record<string, string> = {
+  linked: 'Linked by search',
+  phone: 'Same phone',
+  domain: 'Same website'
+};
+
+function describeBusiness(business: DuplicateBusiness) {
+  const address = business.address_json;
+  return [address?.street, address?.city, address?.state].filter(Boolean).join(', ') || 'No address';
+}
+
+export function DuplicateBusinessesPanel() {
+  const { groups, isLoading, mergingId, loadCandidates, merge } = useBusinessMerge();
+  const [hasScanned, setHasScanned] = useState(false);
+  // Duplicates the user unticked, per survivor
+  const [excluded, setExcluded] = useState<Record<string, Set<string>>>({});
+
+  const toggle = (survivorId: string, duplicateId: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev[survivorId] ?? []);
+      if (next.has(duplicateId)) next.delete(duplicateId);
+      else next.add(duplicateId);
+      return { ...prev, [survivorId]: next };
+    });
+  };
+
+  const scan = async () => {
+    await loadCandidates();
+    setHasScanned(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <GitMerge className="w-5 h-5" />
+            Duplicate Businesses
+          </CardTitle>
+          <CardDescription>
+            Merge records of the same business so notes, tags, people and signals live in one place
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={scan} disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          {hasScanned ? 'Rescan' : 'Scan'}
+        </Button>
+      </CardHeader>
+      {hasScanned && (
+        <CardContent className="space-y-4">
+          {groups.length === 0 && !isLoading && (
+            <p className="text-sm text-muted-foreground">No duplicate businesses found.</p>
+          )}
+          {groups.map(group => {
+            const selected = group.duplicates
+              .map(entry => entry.business.id)
+              .filter(id => !excluded[group.survivor.id]?.has(id));
+
+            return (
+              <div key={group.survivor.id} className="border rounded-md p-3 space-y-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="font-medium">{group.survivor.name}</div>
+                    <div className="text-xs text-muted-foreground">{describeBusiness(group.survivor)}</div>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => merge(group.survivor.id, selected)}
+                    disabled={selected.length === 0 || mergingId !== null}
+                  >
+                    {mergingId === group.survivor.id ? 'Merging...' : `Merge ${selected.length}`}
+                  </Button>
+                </div>
+                {group.duplicates.map(({ business, reason, match }) => (
+                  <label key={business.id} className="flex items-center gap-3 pl-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={!excluded[group.survivor.id]?.has(business.id)}
+                      onCheckedChange={() => toggle(group.survivor.id, business.id)}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate">{business.name}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {describeBusiness(business)}
+                        {match.distance_m !== null && ` • ${match.distance_m} m away`}
+                      </div>
+                    </div>
+                    <Badge variant="secondary">{REASON_LABELS[reason] ?? reason}</Badge>
+                    <Badge variant="outline">{Math.round(match.name_similarity * 100)}% name</Badge>
+                  </label>
+                ))}
+              </div>
+            );
+          })}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -1,11 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { DSLPreviewChips } from '@/components/ui/dsl-preview-chips';
+import { LeadQueryEditor } from './LeadQueryEditor';
 import { SearchJob, LeadQuery } from '@/types/lead';
 import { Card } from '@/components/ui/card';
+import { LeadQuerySchema, formatLeadQueryIssues } from '../../../supabase/functions/lib/lead-query';
+import { parseLeadPrompt } from '../../../supabase/functions/lib/dsl-parser';
+import { describeLeadQuery } from '../../../supabase/functions/lib/dsl-describe';
+import { useVerticals } from '@/hooks/useVerticals';
 
 interface EditSearchModalProps {
   searchJob: SearchJob;
@@ -13,28 +17,56 @@ interface EditSearchModalProps {
   onCancel: () => void;
 }
 
+const PARSE_DELAY_MS = 400;
+
 export function EditSearchModal({ searchJob, onSave, onCancel }: EditSearchModalProps) {
-  const [prompt, setPrompt] = useState(searchJob.original_prompt || '');
-  const [previewDSL, setPreviewDSL] = useState<LeadQuery>(searchJob.dsl_json);
+  const { verticals } = useVerticals();
+  const [prompt, setPrompt] = useState(searchJob.original_prompt || describeLeadQuery(searchJob.dsl_json).prompt);
+  const [draft, setDraft] = useState<LeadQuery>(searchJob.dsl_json);
+  const [promptTouched, setPromptTouched] = useState(false);
+  const [parseNotes, setParseNotes] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
-  // Mock DSL preview update (in real app, this would call the parse API)
+  // Typing in the prompt re-parses it offline; settings the sentence can't
+  // express (output, notify, compliance) carry over from the current draft
   useEffect(() => {
-    if (prompt !== searchJob.original_prompt) {
-      // Debounced DSL preview update would go here
-      // For now, just keep the existing DSL
-      setPreviewDSL(searchJob.dsl_json);
-    }
-  }, [prompt, searchJob]);
+    if (!promptTouched) return;
+    const timer = setTimeout(() => {
+      const parsed = parseLeadPrompt(prompt, { verticals });
+      setParseNotes([...parsed.errors, ...parsed.warnings]);
+      if (parsed.dsl) {
+        setDraft(current => ({
+          ...parsed.dsl,
+          output: current.output,
+          notify: current.notify,
+          compliance_flags: current.compliance_flags,
+          metadata: current.metadata,
+        }));
+      }
+    }, PARSE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [prompt, promptTouched, verticals]);
+
+  const validation = useMemo(() => LeadQuerySchema.safeParse(draft), [draft]);
+  const issues = validation.success ? [] : formatLeadQueryIssues(validation.error);
+  const { omitted } = useMemo(() => describeLeadQuery(draft, verticals), [draft, verticals]);
+
+  // Structured edits rewrite the prompt so it keeps describing the query
+  const handleQueryChange = (dsl: LeadQuery) => {
+    setDraft(dsl);
+    setPromptTouched(false);
+    setParseNotes([]);
+    setPrompt(describeLeadQuery(dsl, verticals).prompt);
+  };
 
   const handleSave = async () => {
+    if (!validation.success) return;
     setIsLoading(true);
     try {
-      // In real app, would re-parse prompt and update search job
       const updatedJob: SearchJob = {
         ...searchJob,
         original_prompt: prompt,
-        dsl_json: previewDSL
+        dsl_json: validation.data
       };
       onSave(updatedJob);
     } finally {
@@ -44,70 +76,40 @@ export function EditSearchModal({ searchJob, onSave, onCancel }: EditSearchModal
 
   return (
     <Dialog open onOpenChange={() => onCancel()}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit & Re-run Search</DialogTitle>
         </DialogHeader>
 
         <div className="space-y-4">
-          {/* Original Prompt */}
+          {/* Prompt, kept in sync with the query */}
           <div className="space-y-2">
             <Label htmlFor="prompt">Search Query</Label>
             <Textarea
               id="prompt"
               value={prompt}
-              onChange={(e) => setPrompt(e.target.value)}
+              onChange={(e) => {
+                setPrompt(e.target.value);
+                setPromptTouched(true);
+              }}
               placeholder="Describe your ideal leads..."
-              className="min-h-[100px]"
+              className="min-h-[80px]"
             />
+            {parseNotes.map((note) => (
+              <p key={note} className="text-xs text-muted-foreground">{note}</p>
+            ))}
+            {omitted.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Kept in the query but not in the sentence: {omitted.join(', ')}
+              </p>
+            )}
           </div>
 
-          {/* DSL Preview */}
+          {/* Structured editor */}
           <div className="space-y-2">
-            <Label>Search Parameters Preview</Label>
+            <Label>Search Parameters</Label>
             <Card className="p-4">
-              <DSLPreviewChips dsl={previewDSL} maxChips={10} />
-              
-              {/* Detailed DSL View */}
-              <div className="mt-4 space-y-2 text-sm">
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <span className="font-medium text-muted-foreground">Vertical:</span>
-                    <span className="ml-2">{previewDSL.vertical || 'Auto-detect'}</span>
-                  </div>
-                  <div>
-                    <span className="font-medium text-muted-foreground">Location:</span>
-                    <span className="ml-2">
-                      {previewDSL.geo?.city ? `${previewDSL.geo.city}, ${previewDSL.geo.state}` : 'Not specified'}
-                    </span>
-                  </div>
-                  <div>
-                    <span className="font-medium text-muted-foreground">Radius:</span>
-                    <span className="ml-2">{previewDSL.geo?.radius_km || 40} km</span>
-                  </div>
-                  <div>
-                    <span className="font-medium text-muted-foreground">Target Results:</span>
-                    <span className="ml-2">{previewDSL.result_size?.target || 250} leads</span>
-                  </div>
-                </div>
-                
-                {previewDSL.constraints?.must && previewDSL.constraints.must.length > 0 && (
-                  <div>
-                    <span className="font-medium text-muted-foreground">Constraints:</span>
-                    <ul className="ml-4 mt-1 space-y-1">
-                      {previewDSL.constraints.must.map((constraint, index) => {
-                        const key = Object.keys(constraint)[0];
-                        const value = Object.values(constraint)[0];
-                        return (
-                          <li key={index} className="text-xs">
-                            • {key.replace(/_/g, ' ')}: {String(value)}
-                          </li>
-                        );
-                      })}
-                    </ul>
-                  </div>
-                )}
-              </div>
+              <LeadQueryEditor value={draft} onChange={handleQueryChange} issues={issues} verticals={verticals} />
             </Card>
           </div>
         </div>
@@ -116,7 +118,7 @@ export function EditSearchModal({ searchJob, onSave, onCancel }: EditSearchModal
           <Button variant="outline" onClick={onCancel}>
             Cancel
           </Button>
-          <Button onClick={handleSave} disabled={isLoading || !prompt.trim()}>
+          <Button onClick={handleSave} disabled={isLoading || !validation.success}>
             {isLoading ? 'Updating...' : 'Re-run Search'}
           </Button>
         </DialogFooter>
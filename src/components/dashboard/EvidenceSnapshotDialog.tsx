@@ -0,0 +1,147 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { EvidenceEntry } from '@/types/lead';
+import { useEvidenceSnapshot, type EvidenceSnapshot } from '@/hooks/useEvidenceSnapshot';
+import { locateEvidence } from '../../../supabase/functions/lib/html-snapshots';
+
+interface EvidenceSnapshotDialogProps {
+  evidence: EvidenceEntry | null;
+  pageUrls: Record<string, string>; // artifact id -> crawled page URL, for absence claims
+  onOpenChange: (open: boolean) => void;
+}
+
+const HIGHLIGHT_STYLE = 'outline: 3px solid #f59e0b !important; outline-offset: 2px; background-color: rgba(245, 158, 11, 0.15) !important;';
+
+// The stored page with the matched element outlined. Scripts never run: the
+// frame is fully sandboxed and the base href only resolves images and styles.
+function renderedDocument(snapshot: EvidenceSnapshot, selector?: string): string {
+  const head = `<base href="${snapshot.uri}">${selector ? `<style>${selector} { ${HIGHLIGHT_STYLE} }</style>` : ''}`;
+  return /<head[^>]*>/i.test(snapshot.html)
+    ? snapshot.html.replace(/<head[^>]*>/i, match => `${match}${head}`)
+    : `${head}${snapshot.html}`;
+}
+
+function HighlightedSource({ html, evidence }: { html: string; evidence: EvidenceEntry }) {
+  const ranges = useMemo(() => locateEvidence(html, evidence), [html, evidence]);
+  const firstMark = React.useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    firstMark.current?.scrollIntoView({ block: 'center' });
+  }, [ranges]);
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((range, index) => {
+    if (range.start < cursor) return;
+    parts.push(html.slice(cursor, range.start));
+    parts.push(
+      <mark key={index} ref={index === 0 ? firstMark : undefined} className="bg-amber-200 dark:bg-amber-700">
+        {html.slice(range.start, range.end)}
+      </mark>
+    );
+    cursor = range.end;
+  });
+  parts.push(html.slice(cursor));
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {ranges.length > 0 ? `${ranges.length} highlighted match${ranges.length === 1 ? '' : 'es'}` : 'Nothing to highlight for this entry'}
+      </p>
+      <pre className="text-xs bg-muted rounded-md p-3 max-h-[60vh] overflow-auto whitespace-pre-wrap break-all">
+        {parts}
+      </pre>
+    </div>
+  );
+}
+
+export function EvidenceSnapshotDialog({ evidence, pageUrls, onOpenChange }: EvidenceSnapshotDialogProps) {
+  const { loadSnapshot, isLoading } = useEvidenceSnapshot();
+  const [snapshot, setSnapshot] = useState<EvidenceSnapshot | null>(null);
+  const [artifactId, setArtifactId] = useState<string | undefined>();
+
+  const artifactIds = evidence?.artifact_id ? [evidence.artifact_id] : evidence?.artifact_ids ?? [];
+
+  useEffect(() => {
+    setSnapshot(null);
+    setArtifactId(evidence?.artifact_id ?? evidence?.artifact_ids?.[0]);
+  }, [evidence]);
+
+  useEffect(() => {
+    if (!artifactId) return;
+    loadSnapshot(artifactId).then(setSnapshot);
+  }, [artifactId, loadSnapshot]);
+
+  return (
+    <Dialog open={!!evidence} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Page snapshot</DialogTitle>
+          <DialogDescription>
+            {evidence?.snippet}
+          </DialogDescription>
+        </DialogHeader>
+
+        {artifactIds.length > 1 && (
+          <Select value={artifactId} onValueChange={setArtifactId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a checked page" />
+            </SelectTrigger>
+            <SelectContent>
+              {artifactIds.map((id, index) => (
+                <SelectItem key={id} value={id}>
+                  {pageUrls[id] ?? `Page ${index + 1}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {isLoading && !snapshot && <LoadingSpinner />}
+
+        {snapshot && evidence && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <span className="truncate">{snapshot.uri}</span>
+              {snapshot.status && <Badge variant="outline">HTTP {snapshot.status}</Badge>}
+              {snapshot.page_kind && <Badge variant="outline">{snapshot.page_kind}</Badge>}
+              {snapshot.fetched_at && <span>Fetched {new Date(snapshot.fetched_at).toLocaleString()}</span>}
+            </div>
+
+            <Tabs defaultValue="rendered">
+              <TabsList>
+                <TabsTrigger value="rendered">Rendered</TabsTrigger>
+                <TabsTrigger value="source">Source</TabsTrigger>
+                <TabsTrigger value="headers">Headers</TabsTrigger>
+              </TabsList>
+              <TabsContent value="rendered">
+                <iframe
+                  title="Page snapshot"
+                  sandbox=""
+                  srcDoc={renderedDocument(snapshot, evidence.selector)}
+                  className="w-full h-[60vh] border rounded-md bg-white"
+                />
+              </TabsContent>
+              <TabsContent value="source">
+                <HighlightedSource html={snapshot.html} evidence={evidence} />
+              </TabsContent>
+              <TabsContent value="headers">
+                <div className="text-xs space-y-1 max-h-[60vh] overflow-auto">
+                  {Object.entries(snapshot.headers).map(([name, value]) => (
+                    <div key={name}>
+                      <code className="bg-muted px-1 rounded">{name}</code> {value}
+                    </div>
+                  ))}
+                </div>
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
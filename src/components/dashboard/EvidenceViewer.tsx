@@ -3,8 +3,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { ChevronDown, ChevronUp, ExternalLink, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { ChevronDown, ChevronUp, ExternalLink, CheckCircle, XCircle, AlertCircle, FileCode } from 'lucide-react';
 import { EvidenceEntry } from '@/types/lead';
+import { EvidenceSnapshotDialog } from './EvidenceSnapshotDialog';
 
 interface EvidenceViewerProps {
   evidenceLog: EvidenceEntry[];
@@ -23,6 +24,13 @@ export function EvidenceViewer({
 }: EvidenceViewerProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [selectedCheckType, setSelectedCheckType] = useState<string>('all');
+  const [snapshotEvidence, setSnapshotEvidence] = useState<EvidenceEntry | null>(null);
+
+  // Crawled-page entries name the URL behind each stored snapshot
+  const pageUrls: Record<string, string> = {};
+  for (const entry of evidenceLog ?? []) {
+    if (entry.artifact_id && entry.url) pageUrls[entry.artifact_id] = entry.url;
+  }
 
   const checkTypes = [...new Set(evidenceLog.map(e => e.check_type))];
   const filteredEvidence = selectedCheckType === 'all' 
@@ -188,8 +196,19 @@ export function EvidenceViewer({
                     </div>
                   )}
                   
-                  <div className="text-xs text-muted-foreground mt-1">
-                    {new Date(evidence.timestamp).toLocaleString()}
+                  <div className="flex items-center justify-between text-xs text-muted-foreground mt-1">
+                    <span>{new Date(evidence.timestamp).toLocaleString()}</span>
+                    {(evidence.artifact_id || (evidence.artifact_ids && evidence.artifact_ids.length > 0)) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => setSnapshotEvidence(evidence)}
+                      >
+                        <FileCode className="w-3 h-3 mr-1" />
+                        {evidence.artifact_ids ? `View ${evidence.artifact_ids.length} snapshots` : 'View snapshot'}
+                      </Button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -228,6 +247,12 @@ export function EvidenceViewer({
           </CardContent>
         </CollapsibleContent>
       </Collapsible>
+
+      <EvidenceSnapshotDialog
+        evidence={snapshotEvidence}
+        pageUrls={pageUrls}
+        onOpenChange={open => !open && setSnapshotEvidence(null)}
+      />
     </Card>
   );
 }
\ No newline at end of file
@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Fingerprint, FlaskConical, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { useVendorFingerprints, type FingerprintTestSource } from '@/hooks/useVendorFingerprints';
+import { validateFingerprint, type VendorFingerprint } from '../../../supabase/functions/lib/vendor-fingerprints';
+
+const NEW_FINGERPRINT: VendorFingerprint = {
+  id: 'my-vendor',
+  name: 'My Vendor',
+  category: 'booking',
+  confidence: 0.9,
+  scriptSrc: ['widget\\.myvendor\\.com'],
+  html: [],
+  dom: ['iframe[src*="myvendor.com"]']
+};
+
+type SourceMode = 'snapshot' | 'html';
+
+function parseDraft(draft: string): { fingerprint: VendorFingerprint | null; problems: string[] } {
+  try {
+    const fingerprint = JSON.parse(draft) as VendorFingerprint;
+    return { fingerprint, problems: validateFingerprint(fingerprint) };
+  } catch (error) {
+    return { fingerprint: null, problems: [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+}
+
+export function FingerprintTester() {
+  const { fingerprints, snapshots, canEdit, testResult, isLoading, isTesting, load, test, save, remove } = useVendorFingerprints();
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [selectedId, setSelectedId] = useState<string>('new');
+  const [draft, setDraft] = useState(JSON.stringify(NEW_FINGERPRINT, null, 2));
+  const [sourceMode, setSourceMode] = useState<SourceMode>('snapshot');
+  const [snapshotId, setSnapshotId] = useState<string>('');
+  const [html, setHtml] = useState('');
+
+  const { fingerprint, problems } = parseDraft(draft);
+  const selected = fingerprints.find(entry => entry.fingerprint.id === selectedId);
+
+  const source: FingerprintTestSource | null =
+    sourceMode === 'snapshot' ? (snapshotId ? { artifact_id: snapshotId } : null)
+    : (html.trim() ? { html } : null);
+
+  const open = async () => {
+    await load();
+    setHasLoaded(true);
+  };
+
+  const pick = (id: string) => {
+    setSelectedId(id);
+    const entry = fingerprints.find(candidate => candidate.fingerprint.id === id);
+    setDraft(JSON.stringify(entry?.fingerprint ?? NEW_FINGERPRINT, null, 2));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Fingerprint className="w-5 h-5" />
+            Vendor Fingerprints
+          </CardTitle>
+          <CardDescription>
+            Add or adjust the technology fingerprints used by website analysis, and test them against a stored page
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={open} disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          {hasLoaded ? 'Reload' : 'Open'}
+        </Button>
+      </CardHeader>
+      {hasLoaded && (
+        <CardContent className="grid gap-6 lg:grid-cols-2">
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label>Fingerprint</Label>
+              <Select value={selectedId} onValueChange={pick}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="new">New fingerprint</SelectItem>
+                  {fingerprints.map(entry => (
+                    <SelectItem key={entry.fingerprint.id} value={entry.fingerprint.id}>
+                      {entry.fingerprint.name} ({entry.fingerprint.category}){entry.custom ? ' • custom' : ''}{entry.enabled ? '' : ' • disabled'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Textarea
+              className="font-mono text-xs min-h-[260px]"
+              value={draft}
+              onChange={event => setDraft(event.target.value)}
+              spellCheck={false}
+            />
+            {problems.length > 0 && (
+              <ul className="text-xs text-destructive space-y-1">
+                {problems.map(problem => <li key={problem}>{problem}</li>)}
+              </ul>
+            )}
+            {canEdit ? (
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" onClick={() => fingerprint && save(fingerprint)} disabled={!fingerprint || problems.length > 0}>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save
+                </Button>
+                {selected?.built_in && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => save(selected.fingerprint, !selected.enabled)}
+                  >
+                    {selected.enabled ? 'Disable built-in' : 'Enable built-in'}
+                  </Button>
+                )}
+                {selected?.custom && (
+                  <Button size="sm" variant="outline" onClick={() => remove(selected.fingerprint.id)}>
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    {selected.built_in ? 'Restore built-in' : 'Delete'}
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">Only admins can save fingerprints; drafts can still be tested.</p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label>Test against</Label>
+              <Select value={sourceMode} onValueChange={value => setSourceMode(value as SourceMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="snapshot">Stored HTML snapshot</SelectItem>
+                  <SelectItem value="html">Pasted HTML</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {sourceMode === 'snapshot' && (
+              snapshots.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No stored snapshots yet.</p>
+              ) : (
+                <Select value={snapshotId} onValueChange={setSnapshotId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a snapshot" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {snapshots.map(snapshot => (
+                      <SelectItem key={snapshot.id} value={snapshot.id}>
+                        {snapshot.businesses?.name ?? 'Unknown business'} • {snapshot.uri}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )
+            )}
+            {sourceMode === 'html' && (
+              <Textarea
+                className="font-mono text-xs min-h-[120px]"
+                placeholder="<html>...</html>"
+                value={html}
+                onChange={event => setHtml(event.target.value)}
+              />
+            )}
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                onClick={() => source && test(fingerprint, source)}
+                disabled={!source || !fingerprint || problems.length > 0 || isTesting}
+              >
+                <FlaskConical className="w-4 h-4 mr-2" />
+                Test fingerprint
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => source && test(null, source)} disabled={!source || isTesting}>
+                Run all fingerprints
+              </Button>
+            </div>
+
+            {testResult && (
+              <div className="space-y-2">
+                {testResult.problems.length > 0 && (
+                  <p className="text-sm text-destructive">{testResult.problems.join('; ')}</p>
+                )}
+                {testResult.matches.length === 0 && testResult.problems.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No match{testResult.url ? ` on ${testResult.url}` : ''}.</p>
+                )}
+                {testResult.matches.map(match => (
+                  <div key={match.id} className="border rounded-md p-3 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{match.name}</span>
+                      <div className="flex gap-1">
+                        <Badge variant="secondary">{match.category}</Badge>
+                        <Badge variant="outline">{Math.round(match.confidence * 100)}%</Badge>
+                      </div>
+                    </div>
+                    {match.evidence.map((entry, index) => (
+                      <div key={index} className="text-xs">
+                        <Badge variant="outline" className="mr-2">{entry.kind}</Badge>
+                        <code className="text-muted-foreground break-all">{entry.snippet}</code>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
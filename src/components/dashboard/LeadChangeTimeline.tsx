@@ -0,0 +1,58 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ArrowDownCircle, ArrowUpCircle, Repeat, WifiOff, Wifi } from 'lucide-react';
+import { useLeadChanges, type LeadChange } from '@/hooks/useLeadChanges';
+
+interface LeadChangeTimelineProps {
+  businessId: string;
+}
+
+// Lost capabilities are the interesting ones for outreach, so they stand out
+function changeIcon(change: LeadChange) {
+  if (change.type === 'WebsiteWentDown') return <WifiOff className="w-4 h-4 text-red-500" />;
+  if (change.type === 'WebsiteCameBack') return <Wifi className="w-4 h-4 text-green-500" />;
+  if (change.type.endsWith('Removed')) return <ArrowDownCircle className="w-4 h-4 text-red-500" />;
+  if (change.type.endsWith('Added')) return <ArrowUpCircle className="w-4 h-4 text-green-500" />;
+  return <Repeat className="w-4 h-4 text-blue-500" />;
+}
+
+export function LeadChangeTimeline({ businessId }: LeadChangeTimelineProps) {
+  const { changes, isLoading } = useLeadChanges(businessId);
+
+  if (isLoading && changes.length === 0) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (changes.length === 0) {
+    return (
+      <div className="text-center py-8 text-sm text-muted-foreground">
+        No website changes detected yet. Leads in saved searches and open opportunities are re-audited weekly.
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {changes.map(change => (
+        <li key={change.id} className="ml-4">
+          <span className="absolute -left-2 flex items-center justify-center bg-background">
+            {changeIcon(change)}
+          </span>
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium">{change.summary}</span>
+            <Badge variant="outline" className="text-xs px-1 py-0">{change.type}</Badge>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {new Date(change.created_at).toLocaleString()}
+            {change.website_url && <> • {change.website_url}</>}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
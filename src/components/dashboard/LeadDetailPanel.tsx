@@ -14,6 +14,9 @@ import { useWebsiteAnalysis } from '@/hooks/useWebsiteAnalysis';
 import { ScoreDisplay, ScoreBreakdown } from '@/components/ui/score-display';
 import { QuickActions } from '@/components/ui/quick-actions';
 import { LazyTabContent } from '@/components/ui/lazy-tab-content';
+import { LeadChangeTimeline } from './LeadChangeTimeline';
+import { ScoreWaterfall } from './ScoreWaterfall';
+import { ScoreHistoryTimeline } from './ScoreHistoryTimeline';
 import { toast } from '@/hooks/use-toast';
 
 interface LeadDetailPanelProps {
@@ -187,12 +190,14 @@ export function LeadDetailPanel({
       {/* Content Tabs */}
       <div className="flex-1 overflow-hidden">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="h-full flex flex-col">
-          <TabsList className="grid w-full grid-cols-6 mx-4 mt-4">
+          <TabsList className="grid w-full grid-cols-8 mx-4 mt-4">
             <TabsTrigger value="overview" className="text-xs">Overview</TabsTrigger>
             <TabsTrigger value="signals" className="text-xs">Signals</TabsTrigger>
             <TabsTrigger value="contacts" className="text-xs">Contacts</TabsTrigger>
             <TabsTrigger value="insights" className="text-xs">AI Insights</TabsTrigger>
             <TabsTrigger value="evidence" className="text-xs">Evidence</TabsTrigger>
+            <TabsTrigger value="changes" className="text-xs">Changes</TabsTrigger>
+            <TabsTrigger value="history" className="text-xs">History</TabsTrigger>
             <TabsTrigger value="notes" className="text-xs">Notes</TabsTrigger>
           </TabsList>
 
@@ -201,12 +206,24 @@ export function LeadDetailPanel({
               <TabsContent value="overview" className="space-y-4 mt-4">
                 <Card>
                   <CardHeader>
-                    <CardTitle className="text-base">Score Breakdown</CardTitle>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-base">Score Breakdown</CardTitle>
+                      {lead.model_version && (
+                        <Badge variant="outline" className="text-xs">model v{lead.model_version}</Badge>
+                      )}
+                    </div>
                   </CardHeader>
                   <CardContent>
                     <ScoreBreakdown 
-                      subscores={{ ICP: 30, Pain: 35, Reachability: 20, ComplianceRisk: 10 }}
+                      subscores={lead.subscores ?? lead.scoring_breakdown?.subscores ?? { ICP: 0, Pain: 0, Reachability: 0, ComplianceRisk: 0 }}
+                      maxScores={lead.scoring_breakdown?.weights}
                     />
+                    {lead.score_contributions && lead.score_contributions.length > 0 && (
+                      <>
+                        <Separator className="my-4" />
+                        <ScoreWaterfall contributions={lead.score_contributions} score={lead.score} />
+                      </>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -398,6 +415,18 @@ export function LeadDetailPanel({
               </TabsContent>
             </LazyTabContent>
 
+            <LazyTabContent isActive={activeTab === 'changes'}>
+              <TabsContent value="changes" className="space-y-3 mt-4">
+                <LeadChangeTimeline businessId={lead.business.id} />
+              </TabsContent>
+            </LazyTabContent>
+
+            <LazyTabContent isActive={activeTab === 'history'}>
+              <TabsContent value="history" className="space-y-3 mt-4">
+                <ScoreHistoryTimeline businessId={lead.business.id} />
+              </TabsContent>
+            </LazyTabContent>
+
             <LazyTabContent isActive={activeTab === 'notes'}>
               <TabsContent value="notes" className="space-y-3 mt-4">
                 <Card>
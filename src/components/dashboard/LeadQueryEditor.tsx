@@ -0,0 +1,372 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DSLPreviewChips } from '@/components/ui/dsl-preview-chips';
+import { AlertTriangle, Plus } from 'lucide-react';
+import { LeadQuery } from '@/types/lead';
+import { SORT_ORDERS, type Constraint } from '../../../supabase/functions/lib/lead-query';
+import {
+  CONSTRAINT_FIELDS,
+  describeConstraint,
+  type ConstraintKey,
+  type ConstraintList,
+} from '../../../supabase/functions/lib/dsl-describe';
+import { BUILT_IN_SCORING_PROFILES } from '../../../supabase/functions/lib/scoring-service';
+import {
+  BUILT_IN_VERTICALS,
+  findVertical,
+  queryVerticals,
+  type VerticalDefinition,
+} from '../../../supabase/functions/lib/verticals';
+
+interface LeadQueryEditorProps {
+  value: LeadQuery;
+  onChange: (dsl: LeadQuery) => void;
+  // Verticals to offer; the built-ins until the taxonomy loads
+  verticals?: VerticalDefinition[];
+  // Schema issues for the current value, shown under the form
+  issues?: string[];
+}
+
+const LIST_LABELS: Record<ConstraintList, string> = {
+  must: 'Must match',
+  optional: 'Preferred',
+  exclude: 'Exclude',
+};
+
+const SORT_LABELS: Record<LeadQuery['sort_by'], string> = {
+  score_desc: 'Best score first',
+  score_asc: 'Lowest score first',
+  name_asc: 'Name',
+  recent_first: 'Newest first',
+  reviews_desc: 'Most reviewed',
+};
+
+// Empty inputs clear optional numbers
+function toNumber(text: string): number | undefined {
+  return text.trim() === '' ? undefined : Number(text);
+}
+
+// Drops the list entry or resets the field a preview chip stands for
+function removePath(dsl: LeadQuery, path: string): LeadQuery {
+  const [section, field, index] = path.split('.');
+  const without = <T,>(list: T[] | undefined, at: number) => {
+    const rest = (list ?? []).filter((_, k) => k !== at);
+    return rest.length > 0 ? rest : undefined;
+  };
+  if (section === 'vertical') return { ...dsl, vertical: 'generic' };
+  if (section === 'additional_verticals') return { ...dsl, additional_verticals: without(dsl.additional_verticals, Number(field)) };
+  if (section === 'sort_by') return { ...dsl, sort_by: 'score_desc' };
+  if (path === 'scoring.profile') return { ...dsl, scoring: { ...dsl.scoring, profile: 'generic' } };
+  if (path === 'geo.shape') return { ...dsl, geo: { ...dsl.geo, shape: undefined } };
+  if (section === 'geo' && (field === 'locations' || field === 'counties' || field === 'zip_codes')) {
+    return { ...dsl, geo: { ...dsl.geo, [field]: without<unknown>(dsl.geo[field], Number(index)) } };
+  }
+  if (section === 'constraints') {
+    const list = field as ConstraintList;
+    const remaining = without(dsl.constraints[list], Number(index));
+    return { ...dsl, constraints: { ...dsl.constraints, [list]: list === 'must' ? remaining ?? [] : remaining } };
+  }
+  if (section === 'exclusions') return { ...dsl, exclusions: without(dsl.exclusions, Number(field)) };
+  return dsl;
+}
+
+// Same constraint, regardless of key order
+const sameConstraint = (a: Constraint, b: Constraint) => describeConstraint(a) === describeConstraint(b);
+
+export function LeadQueryEditor({ value: dsl, onChange, issues = [], verticals = BUILT_IN_VERTICALS }: LeadQueryEditorProps) {
+  const [place, setPlace] = useState('');
+  const [exclusion, setExclusion] = useState('');
+  const [constraintList, setConstraintList] = useState<ConstraintList>('must');
+  const [constraintKey, setConstraintKey] = useState<ConstraintKey>('no_website');
+  const [flagValue, setFlagValue] = useState('true');
+  const [numberValue, setNumberValue] = useState('');
+  const [rangeMax, setRangeMax] = useState('');
+
+  const setGeo = (patch: Partial<LeadQuery['geo']>) => onChange({ ...dsl, geo: { ...dsl.geo, ...patch } });
+  const profiles = BUILT_IN_SCORING_PROFILES.some(profile => profile.id === dsl.scoring?.profile)
+    ? BUILT_IN_SCORING_PROFILES
+    : [...BUILT_IN_SCORING_PROFILES, { id: dsl.scoring?.profile ?? 'generic', name: dsl.scoring?.profile ?? 'generic' }];
+  const field = CONSTRAINT_FIELDS[constraintKey];
+  const targeted = queryVerticals(dsl);
+  const labelOf = (id: string) => findVertical(verticals, id)?.label ?? id.replace(/_/g, ' ');
+  // A saved query may name a vertical an admin has since disabled
+  const verticalOptions = targeted.some(id => !findVertical(verticals, id))
+    ? [...verticals, ...targeted.filter(id => !findVertical(verticals, id)).map(id => ({ id, label: labelOf(id) }))]
+    : verticals;
+  // Features the targeted verticals expect that the query doesn't ask for yet
+  const suggested = targeted
+    .flatMap(id => findVertical(verticals, id)?.expected_features ?? [])
+    .filter((constraint, i, all) => all.findIndex(other => sameConstraint(other, constraint)) === i)
+    .filter(constraint => !Object.values(dsl.constraints).some(list => list?.some(existing => sameConstraint(existing, constraint))));
+
+  const addVertical = (id: string) => {
+    if (targeted.includes(id)) return;
+    onChange({ ...dsl, additional_verticals: [...(dsl.additional_verticals ?? []), id] });
+  };
+
+  const addExpected = (constraint: Constraint) =>
+    onChange({ ...dsl, constraints: { ...dsl.constraints, optional: [...(dsl.constraints.optional ?? []), constraint] } });
+
+  // "Charleston, SC", "Richland County" or "29201"
+  const addPlace = () => {
+    const text = place.trim();
+    if (!text) return;
+    if (/^\d{5}$/.test(text)) {
+      setGeo({ zip_codes: [...(dsl.geo.zip_codes ?? []), text] });
+    } else if (/\s+(county|parish)$/i.test(text)) {
+      setGeo({ counties: [...(dsl.geo.counties ?? []), text.replace(/\s+(county|parish)$/i, '')] });
+    } else {
+      const [city, state] = text.split(',').map(part => part.trim());
+      setGeo({ locations: [...(dsl.geo.locations ?? []), { city, state: (state || dsl.geo.state || '').toUpperCase() }] });
+    }
+    setPlace('');
+  };
+
+  const addConstraint = () => {
+    let constraint: Constraint;
+    if (field.kind === 'flag') constraint = { [constraintKey]: flagValue === 'true' };
+    else if (field.kind === 'range') constraint = { employee_count_range: [toNumber(numberValue) ?? 0, toNumber(rangeMax) ?? 100000] };
+    else if (toNumber(numberValue) !== undefined) constraint = { [constraintKey]: toNumber(numberValue) };
+    else return;
+    const list = dsl.constraints[constraintList] ?? [];
+    onChange({ ...dsl, constraints: { ...dsl.constraints, [constraintList]: [...list, constraint] } });
+    setNumberValue('');
+    setRangeMax('');
+  };
+
+  const addExclusion = () => {
+    if (!exclusion.trim()) return;
+    onChange({ ...dsl, exclusions: [...(dsl.exclusions ?? []), exclusion.trim()] });
+    setExclusion('');
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <DSLPreviewChips dsl={dsl} maxChips={50} onRemove={path => onChange(removePath(dsl, path))} />
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label>Business type</Label>
+          <Select
+            value={dsl.vertical}
+            onValueChange={vertical => onChange({
+              ...dsl,
+              vertical,
+              additional_verticals: dsl.additional_verticals?.filter(id => id !== vertical),
+            })}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {verticalOptions.map(vertical => (
+                <SelectItem key={vertical.id} value={vertical.id}>{vertical.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Scoring profile</Label>
+          <Select value={dsl.scoring?.profile ?? 'generic'} onValueChange={profile => onChange({ ...dsl, scoring: { ...dsl.scoring, profile } })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {profiles.map(profile => (
+                <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label>Also target</Label>
+        <Select value="" onValueChange={addVertical}>
+          <SelectTrigger className="w-[200px]"><SelectValue placeholder="Add a business type" /></SelectTrigger>
+          <SelectContent>
+            {verticals.filter(vertical => !targeted.includes(vertical.id)).map(vertical => (
+              <SelectItem key={vertical.id} value={vertical.id}>{vertical.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {suggested.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground">Usually expected:</span>
+          {suggested.map(constraint => (
+            <Button
+              key={describeConstraint(constraint)}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => addExpected(constraint)}
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              {describeConstraint(constraint)}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {/* Location */}
+      <div className="grid grid-cols-4 gap-3">
+        <div className="col-span-2 space-y-1">
+          <Label>City</Label>
+          <Input value={dsl.geo.city ?? ''} onChange={e => setGeo({ city: e.target.value || undefined })} placeholder="Columbia" />
+        </div>
+        <div className="space-y-1">
+          <Label>State</Label>
+          <Input value={dsl.geo.state ?? ''} maxLength={2} onChange={e => setGeo({ state: e.target.value.toUpperCase() })} placeholder="SC" />
+        </div>
+        <div className="space-y-1">
+          <Label>Radius (km)</Label>
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            value={dsl.geo.radius_km ?? ''}
+            disabled={dsl.geo.shape?.type === 'drive_time'}
+            onChange={e => setGeo({ radius_km: toNumber(e.target.value) })}
+          />
+        </div>
+        <div className="col-span-3 space-y-1">
+          <Label>Add place</Label>
+          <div className="flex gap-2">
+            <Input
+              value={place}
+              onChange={e => setPlace(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && addPlace()}
+              placeholder="Charleston, SC · Richland County · 29201"
+            />
+            <Button type="button" variant="outline" size="icon" onClick={addPlace} aria-label="Add place">
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label>Drive time (min)</Label>
+          <Input
+            type="number"
+            min={1}
+            max={120}
+            value={dsl.geo.shape?.type === 'drive_time' ? dsl.geo.shape.minutes : ''}
+            disabled={dsl.geo.shape?.type === 'polygon'}
+            onChange={e => {
+              const minutes = toNumber(e.target.value);
+              setGeo({ shape: minutes === undefined ? undefined : { type: 'drive_time', minutes } });
+            }}
+          />
+        </div>
+      </div>
+
+      {/* Constraints */}
+      <div className="space-y-1">
+        <Label>Add condition</Label>
+        <div className="flex flex-wrap gap-2">
+          <Select value={constraintList} onValueChange={list => setConstraintList(list as ConstraintList)}>
+            <SelectTrigger className="w-[130px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(LIST_LABELS) as ConstraintList[]).map(list => (
+                <SelectItem key={list} value={list}>{LIST_LABELS[list]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={constraintKey} onValueChange={key => setConstraintKey(key as ConstraintKey)}>
+            <SelectTrigger className="w-[200px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CONSTRAINT_FIELDS) as ConstraintKey[]).map(key => (
+                <SelectItem key={key} value={key}>{CONSTRAINT_FIELDS[key].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {field.kind === 'flag' && (
+            <Select value={flagValue} onValueChange={setFlagValue}>
+              <SelectTrigger className="w-[90px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="true">Yes</SelectItem>
+                <SelectItem value="false">No</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          {field.kind !== 'flag' && (
+            <Input
+              type="number"
+              className="w-[90px]"
+              value={numberValue}
+              onChange={e => setNumberValue(e.target.value)}
+              placeholder={field.kind === 'range' ? 'Min' : 'Value'}
+            />
+          )}
+          {field.kind === 'range' && (
+            <Input type="number" className="w-[90px]" value={rangeMax} onChange={e => setRangeMax(e.target.value)} placeholder="Max" />
+          )}
+          <Button type="button" variant="outline" onClick={addConstraint}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-3">
+        <div className="col-span-2 space-y-1">
+          <Label>Exclude businesses named</Label>
+          <div className="flex gap-2">
+            <Input
+              value={exclusion}
+              onChange={e => setExclusion(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && addExclusion()}
+              placeholder="Aspen Dental"
+            />
+            <Button type="button" variant="outline" size="icon" onClick={addExclusion} aria-label="Add exclusion">
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label>Target results</Label>
+          <Input
+            type="number"
+            min={10}
+            max={1000}
+            value={dsl.result_size?.target ?? ''}
+            onChange={e => onChange({ ...dsl, result_size: { ...dsl.result_size, target: toNumber(e.target.value) } })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Minimum</Label>
+          <Input
+            type="number"
+            min={5}
+            value={dsl.result_size?.minimum ?? ''}
+            onChange={e => onChange({ ...dsl, result_size: { ...dsl.result_size, minimum: toNumber(e.target.value) } })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label>Sort by</Label>
+        <Select value={dsl.sort_by} onValueChange={sort => onChange({ ...dsl, sort_by: sort as LeadQuery['sort_by'] })}>
+          <SelectTrigger className="w-[200px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {SORT_ORDERS.map(sort => (
+              <SelectItem key={sort} value={sort}>{SORT_LABELS[sort]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="rounded-md border border-destructive/50 bg-destructive/5 p-3 space-y-1">
+          {issues.map(issue => (
+            <p key={issue} className="flex items-center gap-2 text-xs text-destructive">
+              <AlertTriangle className="w-3 h-3 shrink-0" />
+              {issue}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import { 
   Brain, 
   Target, 
@@ -13,67 +15,28 @@ import {
   RotateCcw,
   Save,
   Settings,
-  RefreshCw
+  RefreshCw,
+  Trash2,
+  Eye
 } from 'lucide-react';
-import { useScoring } from '@/hooks/useScoring';
+import { useScoring, type RankMovement, type ScoringWeights } from '@/hooks/useScoring';
+import { RescoreSimulation } from './RescoreSimulation';
+import type { ScoringThresholds } from '../../../supabase/functions/lib/scoring-service';
 
-interface ScoringWeights {
-  ICP: number;          // Ideal Customer Profile (location, vertical, size)
-  Pain: number;         // Pain signals (no website, no chat, etc.)
-  Reachability: number; // Owner identified, contact info available
-  ComplianceRisk: number; // Regulatory or compliance concerns
+// "Dental intake v3" -> "dental-intake-v3"
+function profileId(name: string): string {
+  return name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').replace(/^(\d)/, 'p-$1').slice(0, 60);
 }
 
-interface ScoringProfile {
-  id: string;
-  name: string;
-  description: string;
-  weights: ScoringWeights;
-  vertical?: string;
-  isDefault: boolean;
+// Slider rounding can leave the total a point or two off 100; the largest
+// weight absorbs the difference so the profile validates when saved
+function normalizeWeights(weights: ScoringWeights): ScoringWeights {
+  const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+  const largest = (Object.keys(weights) as (keyof ScoringWeights)[])
+    .reduce((max, key) => weights[key] > weights[max] ? key : max);
+  return { ...weights, [largest]: weights[largest] + 100 - total };
 }
 
-const DEFAULT_PROFILES: ScoringProfile[] = [
-  {
-    id: 'generic',
-    name: 'Generic',
-    description: 'Balanced scoring for all business types',
-    weights: { ICP: 35, Pain: 35, Reachability: 20, ComplianceRisk: 10 },
-    isDefault: true
-  },
-  {
-    id: 'dentist-intake',
-    name: 'Dental Practice - Patient Intake',
-    description: 'Optimized for dental practices needing better patient intake systems',
-    weights: { ICP: 40, Pain: 30, Reachability: 25, ComplianceRisk: 5 },
-    vertical: 'dentist',
-    isDefault: false
-  },
-  {
-    id: 'contractor-quote',
-    name: 'Contractor - Quote Automation',
-    description: 'Focus on contractors who need automated quoting systems',
-    weights: { ICP: 30, Pain: 45, Reachability: 20, ComplianceRisk: 5 },
-    vertical: 'contractor',
-    isDefault: false
-  },
-  {
-    id: 'law-compliance',
-    name: 'Law Firm - Compliance Focused',
-    description: 'Law firms with emphasis on compliance and professional standards',
-    weights: { ICP: 25, Pain: 25, Reachability: 25, ComplianceRisk: 25 },
-    vertical: 'law_firm',
-    isDefault: false
-  },
-  {
-    id: 'high-reachability',
-    name: 'High Reachability',
-    description: 'Prioritize leads where owner contact information is available',
-    weights: { ICP: 20, Pain: 30, Reachability: 45, ComplianceRisk: 5 },
-    isDefault: false
-  }
-];
-
 interface LeadScoringProfilesProps {
   searchJobId?: string;
   onScoreUpdate?: () => void;
@@ -87,18 +50,54 @@ export function LeadScoringProfiles({
     currentProfile,
     customWeights,
     isRescoring,
+    isSimulating,
+    isSaving,
     profiles,
+    modelVersion,
     getActiveProfile,
     updateProfile,
     updateWeights,
-    rescoreLeads
+    saveProfile,
+    deleteProfile,
+    rescoreLeads,
+    simulateRescore
   } = useScoring();
   
   const [isCustomizing, setIsCustomizing] = useState(false);
   const activeProfile = getActiveProfile();
+  // Draft for saving the current weights as a stored profile
+  const [draftName, setDraftName] = useState('');
+  const [draftDescription, setDraftDescription] = useState('');
+  const [draftThresholds, setDraftThresholds] = useState<ScoringThresholds | null>(null);
+  const [publishDraft, setPublishDraft] = useState(false);
+  const [simulation, setSimulation] = useState<RankMovement | null>(null);
+  const thresholds = draftThresholds ?? activeProfile.thresholds;
+
+  const handleSaveProfile = async (asNew: boolean) => {
+    const name = asNew ? draftName.trim() : activeProfile.name;
+    const id = asNew ? profileId(name) : activeProfile.id;
+    if (!id) return;
+
+    const saved = await saveProfile({
+      id,
+      name,
+      description: asNew ? draftDescription.trim() : activeProfile.description,
+      weights: normalizeWeights(customWeights),
+      thresholds,
+      vertical: activeProfile.vertical,
+      industry_modifiers: activeProfile.industry_modifiers
+    }, asNew ? publishDraft : publishDraft || activeProfile.published);
+    if (saved) {
+      setDraftName('');
+      setDraftDescription('');
+      setDraftThresholds(null);
+      setPublishDraft(false);
+    }
+  };
 
-  const handleProfileSelect = (profileId: string) => {
-    updateProfile(profileId);
+  const handleProfileSelect = (id: string) => {
+    updateProfile(id);
+    setDraftThresholds(null);
   };
 
   const handleWeightChange = (factor: keyof ScoringWeights, value: number) => {
@@ -130,11 +129,17 @@ export function LeadScoringProfiles({
     if (!searchJobId) return;
     
     const success = await rescoreLeads(searchJobId);
-    if (success && onScoreUpdate) {
-      onScoreUpdate();
+    if (success) {
+      setSimulation(null);
+      onScoreUpdate?.();
     }
   };
 
+  const handlePreviewRescore = async () => {
+    if (!searchJobId) return;
+    setSimulation(await simulateRescore(searchJobId));
+  };
+
   const getWeightColor = (weight: number) => {
     if (weight >= 40) return 'text-success';
     if (weight >= 25) return 'text-warning';
@@ -176,6 +181,17 @@ export function LeadScoringProfiles({
               <Settings className="h-4 w-4 mr-1" />
               {isCustomizing ? 'Done' : 'Customize'}
             </Button>
+            {searchJobId && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handlePreviewRescore}
+                disabled={isSimulating || isRescoring}
+              >
+                <Eye className="h-4 w-4 mr-1" />
+                {isSimulating ? 'Previewing...' : 'Preview'}
+              </Button>
+            )}
             {searchJobId && (
               <Button
                 variant="default"
@@ -216,6 +232,11 @@ export function LeadScoringProfiles({
                       {profile.isDefault && (
                         <Badge variant="secondary" className="text-xs">Default</Badge>
                       )}
+                      {!profile.builtIn && (
+                        <Badge variant="outline" className="text-xs">
+                          {profile.published ? 'Published' : 'Private'}
+                        </Badge>
+                      )}
                     </div>
                     <div className="text-xs text-muted-foreground">
                       {profile.description}
@@ -231,11 +252,27 @@ export function LeadScoringProfiles({
         <div className="p-3 bg-muted/50 rounded-lg">
           <div className="flex items-center justify-between mb-2">
             <h4 className="font-medium">{activeProfile.name}</h4>
-            {activeProfile.vertical && (
-              <Badge variant="outline" className="text-xs">
-                {activeProfile.vertical.replace('_', ' ')}
+            <div className="flex items-center gap-1">
+              {activeProfile.vertical && (
+                <Badge variant="outline" className="text-xs">
+                  {activeProfile.vertical.replace('_', ' ')}
+                </Badge>
+              )}
+              <Badge variant="secondary" className="text-xs">
+                model v{modelVersion}
               </Badge>
-            )}
+              {activeProfile.editable && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteProfile(activeProfile.id)}
+                  className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+                  title="Delete profile"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
           </div>
           <p className="text-sm text-muted-foreground">{activeProfile.description}</p>
         </div>
@@ -298,6 +335,61 @@ export function LeadScoringProfiles({
           ))}
         </div>
 
+        {/* Save as Stored Profile */}
+        {isCustomizing && (
+          <div className="space-y-3 p-3 border rounded-lg">
+            <h4 className="font-medium">Save Profile</h4>
+            <div className="grid grid-cols-3 gap-2">
+              {(['qualified', 'promising', 'low_priority'] as (keyof ScoringThresholds)[]).map(level => (
+                <div key={level}>
+                  <label className="text-xs text-muted-foreground capitalize">{level.replace('_', ' ')} at</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={thresholds[level]}
+                    onChange={(e) => setDraftThresholds({ ...thresholds, [level]: Number(e.target.value) })}
+                  />
+                </div>
+              ))}
+            </div>
+            <Input
+              placeholder="Profile name, e.g. Dental intake v3"
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+            />
+            <Input
+              placeholder="Description"
+              value={draftDescription}
+              onChange={(e) => setDraftDescription(e.target.value)}
+            />
+            <label className="flex items-center space-x-2 text-sm">
+              <Checkbox checked={publishDraft} onCheckedChange={(checked) => setPublishDraft(checked === true)} />
+              <span>Publish to the whole team</span>
+            </label>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => handleSaveProfile(true)}
+                disabled={isSaving || !profileId(draftName)}
+              >
+                <Save className="h-4 w-4 mr-1" />
+                Save as New
+              </Button>
+              {activeProfile.editable && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleSaveProfile(false)}
+                  disabled={isSaving}
+                >
+                  Update {activeProfile.name}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Profile Performance Hint */}
         <div className="mt-4 p-3 bg-primary/10 rounded-lg border border-primary/20">
           <div className="flex items-start gap-2">
@@ -320,11 +412,23 @@ export function LeadScoringProfiles({
                 {activeProfile.id === 'generic' && 
                   "A balanced approach suitable for exploring new markets or verticals."
                 }
+                {!activeProfile.builtIn && (activeProfile.published
+                  ? "A team profile: everyone who picks it rescores with these exact weights and thresholds."
+                  : "A private profile: publish it to let the rest of the team rescore with it."
+                )}
               </p>
             </div>
           </div>
         </div>
       </CardContent>
+
+      <RescoreSimulation
+        simulation={simulation}
+        profileName={activeProfile.name}
+        isApplying={isRescoring}
+        onApply={handleRescoreLeads}
+        onClose={() => setSimulation(null)}
+      />
     </Card>
   );
-}
\ No newline at end of file
+}
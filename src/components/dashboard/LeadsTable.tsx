@@ -7,6 +7,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { ExternalLink, Eye, Star, Phone, Globe, MapPin } from 'lucide-react';
 import { Lead, SearchJob } from '@/types/lead';
 import { SearchContext } from './SearchContext';
+import { ConstraintMatch } from '@/components/ui/constraint-match';
 
 interface LeadsTableProps {
   leads: Lead[];
@@ -163,9 +164,12 @@ export function LeadsTable({
                     #{lead.rank}
                   </TableCell>
                   <TableCell className="p-2">
-                    <span className={`font-semibold text-sm ${getScoreColor(lead.score)}`}>
-                      {lead.score}
-                    </span>
+                    <div className="flex flex-col items-start gap-0.5">
+                      <span className={`font-semibold text-sm ${getScoreColor(lead.score)}`}>
+                        {lead.score}
+                      </span>
+                      <ConstraintMatch results={lead.constraint_results} />
+                    </div>
                   </TableCell>
                   <TableCell className="p-2">
                     <div>
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp, Minus, RefreshCw } from 'lucide-react';
+import type { RankMovement } from '@/hooks/useScoring';
+
+type MovementFilter = 'all' | 'entered' | 'dropped' | 'moved';
+
+interface RescoreSimulationProps {
+  simulation: RankMovement | null;
+  profileName: string;
+  isApplying: boolean;
+  onApply: () => void;
+  onClose: () => void;
+}
+
+function RankChange({ delta }: { delta: number }) {
+  if (delta === 0) return <Minus className="h-3 w-3 text-muted-foreground" />;
+  return (
+    <span className={`flex items-center gap-1 ${delta > 0 ? 'text-success' : 'text-destructive'}`}>
+      {delta > 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+      {Math.abs(delta)}
+    </span>
+  );
+}
+
+// Current and simulated ranking of a search side by side, before the user
+// commits the new weights with a real re-score
+export function RescoreSimulation({ simulation, profileName, isApplying, onApply, onClose }: RescoreSimulationProps) {
+  const [filter, setFilter] = useState<MovementFilter>('all');
+  const summary = simulation?.summary;
+  const movements = (simulation?.movements ?? []).filter(movement => {
+    if (filter === 'entered') return movement.entered_top;
+    if (filter === 'dropped') return movement.dropped_top;
+    if (filter === 'moved') return movement.rank_delta !== 0;
+    return true;
+  });
+
+  return (
+    <Dialog open={!!simulation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Preview re-score: {profileName}</DialogTitle>
+          <DialogDescription>Nothing has changed yet. Apply to save these scores and ranks.</DialogDescription>
+        </DialogHeader>
+
+        {summary && (
+          <div className="flex flex-wrap gap-2 text-xs">
+            <Badge variant="secondary">{summary.entered_top} enter the top {summary.top_n}</Badge>
+            <Badge variant="secondary">{summary.dropped_top} drop out of the top {summary.top_n}</Badge>
+            <Badge variant="outline">{summary.moved_up} up · {summary.moved_down} down · {summary.unchanged} unchanged</Badge>
+            <Badge variant="outline">Average score change {summary.mean_abs_score_delta}</Badge>
+          </div>
+        )}
+
+        <Select value={filter} onValueChange={(value) => setFilter(value as MovementFilter)}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All leads</SelectItem>
+            <SelectItem value="entered">Entered the top {summary?.top_n}</SelectItem>
+            <SelectItem value="dropped">Dropped out of the top {summary?.top_n}</SelectItem>
+            <SelectItem value="moved">Changed rank</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {movements.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No leads match.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lead</TableHead>
+                <TableHead>Current</TableHead>
+                <TableHead>Simulated</TableHead>
+                <TableHead>Rank</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {movements.map(movement => (
+                <TableRow key={movement.business_id}>
+                  <TableCell className="font-medium">
+                    {movement.name}
+                    {movement.entered_top && <Badge variant="secondary" className="ml-2 text-xs">new in top {summary?.top_n}</Badge>}
+                    {movement.dropped_top && <Badge variant="outline" className="ml-2 text-xs">out of top {summary?.top_n}</Badge>}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">#{movement.rank_before} · {movement.score_before}</TableCell>
+                  <TableCell>
+                    #{movement.rank_after} · {movement.score_after}
+                    {movement.score_delta !== 0 && (
+                      <span className="ml-1 text-xs text-muted-foreground">
+                        ({movement.score_delta > 0 ? '+' : ''}{movement.score_delta})
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell><RankChange delta={movement.rank_delta} /></TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={onApply} disabled={isApplying}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${isApplying ? 'animate-spin' : ''}`} />
+            {isApplying ? 'Re-scoring...' : 'Apply Re-score'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
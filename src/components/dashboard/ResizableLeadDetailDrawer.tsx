@@ -66,6 +66,7 @@ export function ResizableLeadDetailDrawer({
   const [activeTab, setActiveTab] = useState('overview');
   const [realSignals, setRealSignals] = useState<Signal[]>([]);
   const [realSubscores, setRealSubscores] = useState<any>(null);
+  const [modelVersion, setModelVersion] = useState<string | null>(null);
   
   const resizeRef = useRef<HTMLDivElement>(null);
   const startX = useRef(0);
@@ -110,7 +111,7 @@ export function ResizableLeadDetailDrawer({
     try {
       const { data: leadViews, error } = await supabase
         .from('lead_views')
-        .select('subscores_json')
+        .select('subscores_json, model_version')
         .eq('business_id', lead.business.id)
         .limit(1);
       
@@ -121,6 +122,7 @@ export function ResizableLeadDetailDrawer({
       
       if (leadViews && leadViews.length > 0) {
         setRealSubscores(leadViews[0].subscores_json);
+        setModelVersion(leadViews[0].model_version);
       }
     } catch (error) {
       console.error('Error fetching subscores:', error);
@@ -365,7 +367,12 @@ export function ResizableLeadDetailDrawer({
                   {/* Enhanced Score Breakdown */}
                   <Card>
                     <CardHeader className="pb-3">
-                      <CardTitle className="text-sm">Score Breakdown</CardTitle>
+                      <div className="flex items-center justify-between">
+                        <CardTitle className="text-sm">Score Breakdown</CardTitle>
+                        {modelVersion && (
+                          <Badge variant="outline" className="text-xs">model v{modelVersion}</Badge>
+                        )}
+                      </div>
                     </CardHeader>
                     <CardContent>
                       <ScoreBreakdown 
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ArrowDown, ArrowUp, Minus, Plus } from 'lucide-react';
+import { RunComparison as RunComparisonResult, SavedSearchRun, useSearchDiff } from '@/hooks/useSearchDiff';
+
+interface RunComparisonProps {
+  savedSearch: { id: string; name: string } | null;
+  onClose: () => void;
+}
+
+function formatRun(run: SavedSearchRun): string {
+  const found = run.summary_stats?.total_found;
+  return `${new Date(run.created_at).toLocaleString()}${found !== undefined ? ` · ${found} leads` : ''}`;
+}
+
+function formatSignal(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Two runs of one saved search side by side: which businesses are new, which
+// dropped out, and how scores and signals moved for the rest
+export function RunComparison({ savedSearch, onClose }: RunComparisonProps) {
+  const { runs, isLoading, loadRuns, compareRuns } = useSearchDiff();
+  const [baseJobId, setBaseJobId] = useState<string>('');
+  const [compareJobId, setCompareJobId] = useState<string>('');
+  const [result, setResult] = useState<RunComparisonResult | null>(null);
+
+  useEffect(() => {
+    setResult(null);
+    if (!savedSearch) return;
+    loadRuns(savedSearch.id).then(loaded => {
+      // Runs come newest first; default to the latest run against the one before it
+      setCompareJobId(loaded[0]?.id ?? '');
+      setBaseJobId(loaded[1]?.id ?? '');
+    });
+  }, [savedSearch, loadRuns]);
+
+  useEffect(() => {
+    if (!compareJobId || !baseJobId || compareJobId === baseJobId) return;
+    compareRuns(compareJobId, baseJobId).then(setResult);
+  }, [compareJobId, baseJobId, compareRuns]);
+
+  const diff = result?.diff;
+
+  return (
+    <Dialog open={!!savedSearch} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare runs: {savedSearch?.name}</DialogTitle>
+        </DialogHeader>
+
+        {runs.length < 2 ? (
+          <p className="text-sm text-muted-foreground">
+            {isLoading ? 'Loading runs...' : 'Run this saved search at least twice to compare its results.'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <label className="text-sm font-medium">Earlier run</label>
+                <Select value={baseJobId} onValueChange={setBaseJobId}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {runs.map(run => (
+                      <SelectItem key={run.id} value={run.id}>{formatRun(run)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-sm font-medium">Later run</label>
+                <Select value={compareJobId} onValueChange={setCompareJobId}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {runs.map(run => (
+                      <SelectItem key={run.id} value={run.id}>{formatRun(run)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {compareJobId === baseJobId ? (
+              <p className="text-sm text-muted-foreground">Pick two different runs.</p>
+            ) : !diff ? (
+              <p className="text-sm text-muted-foreground">
+                {isLoading ? 'Comparing...' : result?.reason ?? 'No comparison is available for these runs.'}
+              </p>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="default">{diff.added.length} new</Badge>
+                  <Badge variant="destructive">{diff.removed.length} gone</Badge>
+                  <Badge variant="secondary">{diff.score_changes.length} score changes</Badge>
+                  <Badge variant="secondary">{diff.signal_changes.length} signal changes</Badge>
+                  <Badge variant="outline">{diff.unchanged} unchanged</Badge>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <section className="space-y-2">
+                    <h4 className="text-sm font-medium flex items-center gap-1">
+                      <Plus className="h-3 w-3" /> New businesses
+                    </h4>
+                    <ScrollArea className="h-40 rounded-md border p-2">
+                      {diff.added.length === 0 && <p className="text-xs text-muted-foreground">None</p>}
+                      {diff.added.map(lead => (
+                        <div key={lead.business_id} className="flex justify-between text-xs py-0.5">
+                          <span className="truncate">{lead.name}</span>
+                          <span className="text-muted-foreground">{lead.score}</span>
+                        </div>
+                      ))}
+                    </ScrollArea>
+                  </section>
+                  <section className="space-y-2">
+                    <h4 className="text-sm font-medium flex items-center gap-1">
+                      <Minus className="h-3 w-3" /> No longer returned
+                    </h4>
+                    <ScrollArea className="h-40 rounded-md border p-2">
+                      {diff.removed.length === 0 && <p className="text-xs text-muted-foreground">None</p>}
+                      {diff.removed.map(lead => (
+                        <div key={lead.business_id} className="flex justify-between text-xs py-0.5">
+                          <span className="truncate">{lead.name}</span>
+                          <span className="text-muted-foreground">{lead.score}</span>
+                        </div>
+                      ))}
+                    </ScrollArea>
+                  </section>
+                </div>
+
+                <section className="space-y-2">
+                  <h4 className="text-sm font-medium">Score changes</h4>
+                  <ScrollArea className="h-40 rounded-md border p-2">
+                    {diff.score_changes.length === 0 && <p className="text-xs text-muted-foreground">None</p>}
+                    {diff.score_changes.map(change => (
+                      <div key={change.business_id} className="flex items-center gap-2 text-xs py-0.5">
+                        <span className="truncate flex-1">{change.name}</span>
+                        <span className="text-muted-foreground">{change.before} → {change.after}</span>
+                        <span className={`flex items-center w-12 justify-end ${change.delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {change.delta > 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+                          {Math.abs(change.delta)}
+                        </span>
+                      </div>
+                    ))}
+                  </ScrollArea>
+                </section>
+
+                <section className="space-y-2">
+                  <h4 className="text-sm font-medium">Signal changes</h4>
+                  <ScrollArea className="h-40 rounded-md border p-2">
+                    {diff.signal_changes.length === 0 && <p className="text-xs text-muted-foreground">None</p>}
+                    {diff.signal_changes.map(change => (
+                      <div key={`${change.business_id}|${change.type}`} className="flex items-center gap-2 text-xs py-0.5">
+                        <span className="truncate flex-1">{change.name}</span>
+                        <Badge variant="outline" className="px-1 py-0 text-[10px]">{change.type.replace(/_/g, ' ')}</Badge>
+                        <span className="text-muted-foreground truncate max-w-[40%]">
+                          {formatSignal(change.before)} → {formatSignal(change.after)}
+                        </span>
+                      </div>
+                    ))}
+                  </ScrollArea>
+                </section>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
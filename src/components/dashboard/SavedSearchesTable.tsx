@@ -29,9 +29,16 @@ import {
   Tag,
   Folder,
   Clock,
-  TrendingUp
+  TrendingUp,
+  GitCompare
 } from 'lucide-react';
 import { SearchJob, LeadQuery } from '@/types/lead';
+import { describeGeo } from '../../../supabase/functions/lib/geocoding';
+import { LeadQuerySchema, formatLeadQueryIssues, loadStoredLeadQuery } from '../../../supabase/functions/lib/lead-query';
+import { describeLeadQuery } from '../../../supabase/functions/lib/dsl-describe';
+import { LeadQueryEditor } from './LeadQueryEditor';
+import { RunComparison } from './RunComparison';
+import { useVerticals } from '@/hooks/useVerticals';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
@@ -51,10 +58,11 @@ interface SavedSearch {
 }
 
 interface SavedSearchesTableProps {
-  onRunSearch: (dsl: LeadQuery) => void;
+  onRunSearch: (dsl: LeadQuery, savedSearchId?: string) => void;
 }
 
 export function SavedSearchesTable({ onRunSearch }: SavedSearchesTableProps) {
+  const { verticals } = useVerticals();
   const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
@@ -63,9 +71,11 @@ export function SavedSearchesTable({ onRunSearch }: SavedSearchesTableProps) {
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [editingSearch, setEditingSearch] = useState<SavedSearch | null>(null);
+  const [comparingSearch, setComparingSearch] = useState<SavedSearch | null>(null);
   const [editName, setEditName] = useState('');
   const [editCategory, setEditCategory] = useState('');
   const [editDescription, setEditDescription] = useState('');
+  const [editQuery, setEditQuery] = useState<LeadQuery | null>(null);
   
   const { user } = useAuth();
 
@@ -87,7 +97,7 @@ export function SavedSearchesTable({ onRunSearch }: SavedSearchesTableProps) {
         const saved = savedSearchesData.map(search => ({
           id: search.id,
           name: search.name,
-          dsl_json: search.dsl_json as unknown as LeadQuery,
+          dsl_json: loadStoredLeadQuery(search.dsl_json),
           notifications_enabled: false,
           created_at: search.created_at,
           last_run_at: search.updated_at,
@@ -108,13 +118,13 @@ export function SavedSearchesTable({ onRunSearch }: SavedSearchesTableProps) {
 
   const generateSearchName = (dsl: LeadQuery): string => {
     const vertical = dsl.vertical.replace('_', ' ');
-    const location = `${dsl.geo.city}, ${dsl.geo.state}`;
+    const location = describeGeo(dsl.geo);
     return `${vertical} in ${location}`;
   };
 
   const handleRunSearch = async (savedSearch: SavedSearch) => {
     try {
-      await onRunSearch(savedSearch.dsl_json);
+      await onRunSearch(savedSearch.dsl_json, savedSearch.id);
       toast({
         title: "Search Started",
         description: `Running saved search: ${savedSearch.name}`
@@ -165,10 +175,14 @@ export function SavedSearchesTable({ onRunSearch }: SavedSearchesTableProps) {
     setEditName(search.name);
     setEditCategory(search.category || 'General');
     setEditDescription(search.description || '');
+    setEditQuery(search.dsl_json);
   };
 
+  const editValidation = editQuery ? LeadQuerySchema.safeParse(editQuery) : null;
+
   const handleSaveEdit = async () => {
-    if (!editingSearch) return;
+    if (!editingSearch || !editValidation?.success) return;
+    const dsl = editValidation.data;
     
     try {
       const { error } = await supabase
@@ -177,6 +191,7 @@ export function SavedSearchesTable({ onRunSearch }: SavedSearchesTableProps) {
           name: editName,
           category: editCategory,
           description: editDescription,
+          dsl_json: dsl,
           updated_at: new Date().toISOString()
         })
         .eq('id', editingSearch.id)
@@ -186,7 +201,7 @@ export function SavedSearchesTable({ onRunSearch }: SavedSearchesTableProps) {
 
       setSavedSearches(prev => prev.map(search => 
         search.id === editingSearch.id 
-          ? { ...search, name: editName, category: editCategory, description: editDescription }
+          ? { ...search, name: editName, category: editCategory, description: editDescription, dsl_json: dsl }
           : search
       ));
 
@@ -422,9 +437,9 @@ export function SavedSearchesTable({ onRunSearch }: SavedSearchesTableProps) {
                   <TableCell>
                     <div className="space-y-1">
                       <p className="font-medium">{savedSearch.name}</p>
-                      {savedSearch.description && (
-                        <p className="text-xs text-muted-foreground">{savedSearch.description}</p>
-                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {savedSearch.description || describeLeadQuery(savedSearch.dsl_json, verticals).prompt}
+                      </p>
                       <div className="flex items-center gap-2">
                         <Badge variant="outline" className="text-xs">
                           <Tag className="w-3 h-3 mr-1" />
@@ -445,7 +460,7 @@ export function SavedSearchesTable({ onRunSearch }: SavedSearchesTableProps) {
                     </Badge>
                   </TableCell>
                   <TableCell className="text-sm text-muted-foreground">
-                    {savedSearch.dsl_json.geo.city}, {savedSearch.dsl_json.geo.state}
+                    {describeGeo(savedSearch.dsl_json.geo)}
                   </TableCell>
                   <TableCell>
                     <Badge variant="outline">{savedSearch.total_leads_found}</Badge>
@@ -473,6 +488,15 @@ export function SavedSearchesTable({ onRunSearch }: SavedSearchesTableProps) {
                       >
                         <Edit2 className="h-3 w-3" />
                       </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setComparingSearch(savedSearch)}
+                        className="h-8 w-8 p-0"
+                        title="Compare Runs"
+                      >
+                        <GitCompare className="h-3 w-3" />
+                      </Button>
                       <AlertDialog>
                         <AlertDialogTrigger asChild>
                           <Button
@@ -515,9 +539,11 @@ export function SavedSearchesTable({ onRunSearch }: SavedSearchesTableProps) {
         )}
       </CardContent>
       
+      <RunComparison savedSearch={comparingSearch} onClose={() => setComparingSearch(null)} />
+
       {/* Edit Search Dialog */}
       <Dialog open={!!editingSearch} onOpenChange={(open) => !open && setEditingSearch(null)}>
-        <DialogContent>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Saved Search</DialogTitle>
           </DialogHeader>
@@ -552,11 +578,23 @@ export function SavedSearchesTable({ onRunSearch }: SavedSearchesTableProps) {
                 placeholder="Add a description (optional)"
               />
             </div>
+            {editQuery && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Query</label>
+                <p className="text-sm text-muted-foreground">{describeLeadQuery(editQuery, verticals).prompt}</p>
+                <LeadQueryEditor
+                  value={editQuery}
+                  onChange={setEditQuery}
+                  verticals={verticals}
+                  issues={editValidation && !editValidation.success ? formatLeadQueryIssues(editValidation.error) : []}
+                />
+              </div>
+            )}
             <div className="flex justify-end gap-2">
               <Button variant="outline" onClick={() => setEditingSearch(null)}>
                 Cancel
               </Button>
-              <Button onClick={handleSaveEdit}>
+              <Button onClick={handleSaveEdit} disabled={!editValidation?.success}>
                 Save Changes
               </Button>
             </div>
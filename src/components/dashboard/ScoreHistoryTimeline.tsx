@@ -0,0 +1,74 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ScoreSparkline } from '@/components/ui/score-sparkline';
+import { ArrowDownCircle, ArrowUpCircle, MinusCircle } from 'lucide-react';
+import { useScoreHistory } from '@/hooks/useScoreHistory';
+
+interface ScoreHistoryTimelineProps {
+  businessId: string;
+}
+
+function changeIcon(delta: number | null) {
+  if (delta === null || delta === 0) return <MinusCircle className="w-4 h-4 text-muted-foreground" />;
+  return delta > 0
+    ? <ArrowUpCircle className="w-4 h-4 text-green-500" />
+    : <ArrowDownCircle className="w-4 h-4 text-red-500" />;
+}
+
+export function ScoreHistoryTimeline({ businessId }: ScoreHistoryTimelineProps) {
+  const { history, isLoading } = useScoreHistory(businessId);
+
+  if (isLoading && history.length === 0) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="text-center py-8 text-sm text-muted-foreground">
+        No score history yet. Every search and re-score that includes this lead adds an entry.
+      </div>
+    );
+  }
+
+  // History is newest first; the sparkline reads oldest first
+  const scores = history.map(entry => entry.score).reverse();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <ScoreSparkline scores={scores} width={240} height={40} />
+        <span className="text-xs text-muted-foreground">{history.length} scoring events</span>
+      </div>
+
+      <ol className="relative border-l border-border ml-2 space-y-4">
+        {history.map((entry, index) => {
+          const previous = history[index + 1];
+          const delta = previous ? entry.score - previous.score : null;
+          return (
+            <li key={entry.id} className="ml-4">
+              <span className="absolute -left-2 flex items-center justify-center bg-background">
+                {changeIcon(delta)}
+              </span>
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">
+                  Score {entry.score}
+                  {delta !== null && delta !== 0 && ` (${delta > 0 ? '+' : ''}${delta})`}
+                  {entry.rank !== null && ` · rank #${entry.rank}`}
+                </span>
+                <Badge variant="outline" className="text-xs px-1 py-0">{entry.event}</Badge>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {new Date(entry.scored_at).toLocaleString()} • {entry.profile} • model {entry.model_version} • weights {entry.weights_hash}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
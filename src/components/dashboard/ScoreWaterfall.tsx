@@ -0,0 +1,119 @@
+import React from 'react';
+import { Bar, BarChart, Cell, XAxis, YAxis } from 'recharts';
+import { ExternalLink } from 'lucide-react';
+import { ChartConfig, ChartContainer, ChartTooltip } from '@/components/ui/chart';
+import type { ScoreContribution } from '@/types/lead';
+
+interface ScoreWaterfallProps {
+  contributions: ScoreContribution[];
+  score: number;
+}
+
+type WaterfallStep = {
+  label: string;
+  // Invisible bar the visible one stacks on, so it floats at the running total
+  offset: number;
+  size: number;
+  kind: 'increase' | 'decrease' | 'total';
+  contribution?: ScoreContribution;
+};
+
+const chartConfig = {
+  increase: { label: 'Adds', color: 'hsl(var(--success))' },
+  decrease: { label: 'Deducts', color: 'hsl(var(--destructive))' },
+  total: { label: 'Score', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const signed = (points: number) => `${points > 0 ? '+' : ''}${points}`;
+
+function formatValue(value: ScoreContribution['value']): string {
+  if (value === null) return '—';
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return String(value);
+}
+
+function toSteps(contributions: ScoreContribution[], score: number): WaterfallStep[] {
+  let running = 0;
+  const steps: WaterfallStep[] = contributions
+    .filter(contribution => contribution.points !== 0)
+    .map(contribution => {
+      const start = running;
+      running += contribution.points;
+      return {
+        label: contribution.label,
+        offset: Math.min(start, running),
+        size: Math.abs(contribution.points),
+        kind: contribution.points > 0 ? 'increase' : 'decrease',
+        contribution,
+      };
+    });
+  return [...steps, { label: 'Score', offset: 0, size: score, kind: 'total' }];
+}
+
+function StepTooltip({ active, payload }: { active?: boolean; payload?: Array<{ payload: WaterfallStep }> }) {
+  const step = payload?.[0]?.payload;
+  if (!active || !step) return null;
+  const { contribution } = step;
+
+  return (
+    <div className="rounded-lg border bg-background px-3 py-2 text-xs shadow-xl space-y-1">
+      <div className="font-medium">{step.label}</div>
+      {contribution ? (
+        <>
+          <div>Points: {signed(contribution.points)}</div>
+          <div className="text-muted-foreground">
+            Value {formatValue(contribution.value)}
+            {contribution.component
+              ? ` · ${contribution.component} weight ${contribution.weight}%`
+              : contribution.weight !== 0 && ` · coefficient ${contribution.weight.toFixed(2)}`}
+          </div>
+        </>
+      ) : (
+        <div>{step.size} / 100</div>
+      )}
+    </div>
+  );
+}
+
+// Waterfall of how a lead's score was built: each bar starts where the
+// previous one ended, and the last bar is the score itself
+export function ScoreWaterfall({ contributions, score }: ScoreWaterfallProps) {
+  const steps = toSteps(contributions, score);
+  const evidence = contributions.filter(contribution => contribution.evidence_url);
+
+  return (
+    <div className="space-y-3">
+      <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: steps.length * 26 + 30 }}>
+        <BarChart data={steps} layout="vertical" margin={{ left: 0, right: 12 }}>
+          <XAxis type="number" domain={[(min: number) => Math.min(0, min), (max: number) => Math.max(100, max)]} hide />
+          <YAxis type="category" dataKey="label" width={150} tickLine={false} axisLine={false} interval={0} />
+          <ChartTooltip cursor={false} content={<StepTooltip />} />
+          <Bar dataKey="offset" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+          <Bar dataKey="size" stackId="waterfall" radius={2} isAnimationActive={false}>
+            {steps.map((step, index) => (
+              <Cell key={index} fill={`var(--color-${step.kind})`} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+
+      {evidence.length > 0 && (
+        <div className="space-y-1 text-xs">
+          <div className="font-medium">Evidence</div>
+          {evidence.map((contribution, index) => (
+            <a
+              key={index}
+              href={contribution.evidence_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-primary hover:underline"
+            >
+              {contribution.label} ({signed(contribution.points)})
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Brain, RefreshCw, Rocket, Undo2 } from 'lucide-react';
+import { useScoringModels, type StoredScoringModel } from '@/hooks/useScoringModels';
+
+const STATUS_VARIANTS: Record<StoredScoringModel['status'], 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  candidate: 'secondary',
+  retired: 'outline'
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Calibration of the selected model on its holdout: predicted vs observed
+// positive rate per probability bin
+function CalibrationTable({ model }: { model: StoredScoringModel }) {
+  const { metrics } = model;
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap gap-3 text-muted-foreground">
+        <span>Brier {metrics.brier.toFixed(3)}</span>
+        <span>Log loss {metrics.log_loss.toFixed(3)}</span>
+        <span>Calibration error {percent(metrics.expected_calibration_error)}</span>
+        <span>{metrics.positives} positive / {metrics.negatives} negative leads</span>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Predicted</TableHead>
+            <TableHead>Leads</TableHead>
+            <TableHead>Mean predicted</TableHead>
+            <TableHead>Observed</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {metrics.calibration.map(bin => (
+            <TableRow key={bin.lower}>
+              <TableCell>{percent(bin.lower)}–{percent(bin.upper)}</TableCell>
+              <TableCell>{bin.count}</TableCell>
+              <TableCell>{percent(bin.mean_predicted)}</TableCell>
+              <TableCell>{percent(bin.observed_rate)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export function ScoringModelsPanel() {
+  const { models, activeModel, canEdit, isLoading, isTraining, load, train, promote } = useScoringModels();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = models.find(model => model.id === selectedId) ?? activeModel ?? models[0];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Brain className="w-5 h-5" />
+            Learned Scoring
+          </CardTitle>
+          <CardDescription>
+            Models fitted on won, lost, qualified and ignored leads, judged on leads held out of training.
+            {activeModel ? ` ${activeModel.version} is scoring new leads.` : ' Leads are scored by the rule-based model.'}
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          {canEdit && (
+            <Button size="sm" onClick={train} disabled={isTraining}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isTraining ? 'animate-spin' : ''}`} />
+              {isTraining ? 'Training...' : 'Train model'}
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={load} disabled={isLoading}>
+            Reload
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {models.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No models trained yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Holdout AUC</TableHead>
+                <TableHead>Holdout leads</TableHead>
+                <TableHead>Trained</TableHead>
+                {canEdit && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {models.map(model => (
+                <TableRow
+                  key={model.id}
+                  onClick={() => setSelectedId(model.id)}
+                  className={`cursor-pointer ${model.id === selected?.id ? 'bg-muted/50' : ''}`}
+                >
+                  <TableCell className="font-medium">{model.version}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[model.status]}>{model.status}</Badge>
+                  </TableCell>
+                  <TableCell>{model.metrics.auc.toFixed(3)}</TableCell>
+                  <TableCell>{model.metrics.holdout_examples}</TableCell>
+                  <TableCell className="text-muted-foreground">{new Date(model.trained_at).toLocaleString()}</TableCell>
+                  {canEdit && (
+                    <TableCell>
+                      {model.status === 'active' ? (
+                        <Button variant="ghost" size="sm" onClick={() => promote(null)} title="Revert to rule-based scoring">
+                          <Undo2 className="w-4 h-4" />
+                        </Button>
+                      ) : (
+                        <Button variant="ghost" size="sm" onClick={() => promote(model.id)} title="Promote to active scorer">
+                          <Rocket className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {selected && <CalibrationTable model={selected} />}
+      </CardContent>
+    </Card>
+  );
+}
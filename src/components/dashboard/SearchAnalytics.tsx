@@ -13,6 +13,7 @@ import {
   PieChart,
   Activity
 } from 'lucide-react';
+import { describeGeo } from '../../../supabase/functions/lib/geocoding';
 
 interface SearchMetrics {
   totalSearches: number;
@@ -136,7 +137,7 @@ export function SearchAnalytics() {
       const locationStats = new Map<string, {searches: number, leads: number, scores: number[]}>();
       searchJobs.forEach(job => {
         const dsl = job.dsl_json as any;
-        const location = dsl?.geo ? `${dsl.geo.city}, ${dsl.geo.state}` : 'Unknown';
+        const location = dsl?.geo ? describeGeo(dsl.geo) : 'Unknown';
         if (!locationStats.has(location)) {
           locationStats.set(location, {searches: 1, leads: 0, scores: []});
         }
@@ -5,6 +5,7 @@ import { Card } from '@/components/ui/card';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { ChevronDown, ChevronUp, Calendar, MapPin, Building, Filter, Target } from 'lucide-react';
 import { LeadQuery, SearchJob } from '@/types/lead';
+import { describeGeo } from '../../../supabase/functions/lib/geocoding';
 
 interface SearchContextProps {
   searchJob: SearchJob | null;
@@ -39,9 +40,9 @@ export function SearchContext({
     // Add location
     if (dsl.geo) {
       if (dsl.geo.radius_km) {
-        parts.push(`in ${dsl.geo.city}, ${dsl.geo.state} (${dsl.geo.radius_km}km radius)`);
+        parts.push(`in ${describeGeo(dsl.geo)} (${dsl.geo.radius_km}km radius)`);
       } else {
-        parts.push(`in ${dsl.geo.city}, ${dsl.geo.state}`);
+        parts.push(`in ${describeGeo(dsl.geo)}`);
       }
     }
     
@@ -208,7 +209,7 @@ export function SearchContext({
                 </div>
                 <div className="space-y-1">
                   <Badge variant="outline">
-                    {dsl.geo?.city}, {dsl.geo?.state}
+                    {dsl.geo && describeGeo(dsl.geo)}
                   </Badge>
                   {dsl.geo?.radius_km && (
                     <Badge variant="outline" className="text-xs">
@@ -261,7 +262,7 @@ export function SearchContext({
             <div className="mt-3 p-3 bg-background/30 rounded border text-xs text-muted-foreground">
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 <div>
-                  <span className="font-medium">Lead Profile:</span> {dsl.lead_profile}
+                  <span className="font-medium">Lead Profile:</span> {dsl.scoring?.profile}
                 </div>
                 <div>
                   <span className="font-medium">Target Results:</span> {dsl.result_size?.target || 250}
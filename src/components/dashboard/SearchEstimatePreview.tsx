@@ -0,0 +1,97 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { DSLPreviewChips } from '@/components/ui/dsl-preview-chips';
+import { AlertTriangle, Clock, Globe, MapPin, Sparkles } from 'lucide-react';
+import { ParseResult } from '@/types/lead';
+import type { CallRange } from '../../../supabase/functions/lib/search-estimate';
+
+interface SearchEstimatePreviewProps {
+  preview: ParseResult;
+  onConfirm: () => void;
+  onCancel: () => void;
+  isStarting?: boolean;
+}
+
+// "12" or "12–255"
+function formatRange(range: CallRange): string {
+  return range.max > range.expected ? `${range.expected}–${range.max}` : String(range.expected);
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// Dry-run result shown before a search is queued: the resolved query, the
+// Places queries it plans and what each provider would be called for
+export function SearchEstimatePreview({ preview, onConfirm, onCancel, isStarting }: SearchEstimatePreviewProps) {
+  const { dsl, estimate, warnings } = preview;
+
+  return (
+    <div className="space-y-3 rounded-md border border-border p-3 text-xs">
+      <DSLPreviewChips dsl={dsl} maxChips={8} />
+
+      {estimate ? (
+        <>
+          <div className="space-y-1">
+            <div className="font-medium text-foreground">
+              {estimate.queries.length} Places {estimate.queries.length === 1 ? 'query' : 'queries'} for {estimate.target} leads
+            </div>
+            <div className="max-h-24 overflow-y-auto space-y-0.5 text-muted-foreground">
+              {estimate.queries.map(query => (
+                <div key={`${query.area}|${query.place_type}`} className="flex items-center gap-1">
+                  <MapPin className="w-3 h-3 shrink-0" />
+                  <span className="truncate">{query.area}</span>
+                  <Badge variant="outline" className="ml-auto px-1 py-0 text-[10px]">{query.place_type}</Badge>
+                </div>
+              ))}
+            </div>
+            <div className="text-muted-foreground">Tiles: {formatRange(estimate.tiles)}</div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="flex items-center gap-1">
+              <MapPin className="w-3 h-3" />
+              Places calls: {formatRange(estimate.api_calls.places)}
+            </div>
+            <div className="flex items-center gap-1">
+              <Globe className="w-3 h-3" />
+              Site fetches: {formatRange(estimate.api_calls.website_fetches)}
+            </div>
+            <div className="flex items-center gap-1">
+              <Sparkles className="w-3 h-3" />
+              OpenAI calls: {formatRange(estimate.api_calls.openai)}
+            </div>
+            <div className="flex items-center gap-1">
+              <Clock className="w-3 h-3" />
+              ~{formatDuration(estimate.duration_seconds.expected)}
+              {estimate.duration_seconds.max > estimate.duration_seconds.expected && (
+                <span className="text-muted-foreground">(up to {formatDuration(estimate.duration_seconds.max)})</span>
+              )}
+            </div>
+          </div>
+
+          {[...estimate.notes, ...warnings].map(note => (
+            <p key={note} className="flex items-start gap-1 text-muted-foreground">
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+              {note}
+            </p>
+          ))}
+        </>
+      ) : (
+        <p className="text-muted-foreground">No cost estimate is available for this search.</p>
+      )}
+
+      <div className="flex gap-2">
+        <Button type="button" size="sm" className="flex-1" onClick={onConfirm} disabled={isStarting}>
+          {isStarting ? 'Starting...' : 'Run search'}
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={onCancel} disabled={isStarting}>
+          Edit
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -19,6 +19,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { SearchJob, LeadQuery } from '@/types/lead';
+import { describeGeo } from '../../../supabase/functions/lib/geocoding';
+import { loadStoredLeadQuery } from '../../../supabase/functions/lib/lead-query';
 
 interface SearchHistoryManagerProps {
   onRunSearch: (dsl: LeadQuery) => void;
@@ -56,7 +58,7 @@ export function SearchHistoryManager({ onRunSearch }: SearchHistoryManagerProps)
 
       const processedJobs: SearchJob[] = jobs?.map(job => ({
         id: job.id,
-        dsl_json: job.dsl_json as unknown as LeadQuery,
+        dsl_json: loadStoredLeadQuery(job.dsl_json),
         status: job.status as 'queued' | 'running' | 'completed' | 'failed',
         created_at: job.created_at,
         summary_stats: job.summary_stats as any,
@@ -141,7 +143,7 @@ export function SearchHistoryManager({ onRunSearch }: SearchHistoryManagerProps)
 
   const generateSearchName = (dsl: LeadQuery): string => {
     const vertical = dsl.vertical.replace('_', ' ');
-    const location = `${dsl.geo.city}, ${dsl.geo.state}`;
+    const location = describeGeo(dsl.geo);
     return `${vertical} in ${location}`;
   };
 
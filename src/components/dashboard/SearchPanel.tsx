@@ -1,13 +1,24 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Search, Sparkles } from 'lucide-react';
 import { useDebounce } from '@/hooks/useDebounce';
 import { SearchSuggestions } from './SearchSuggestions';
+import { SearchEstimatePreview } from './SearchEstimatePreview';
+import { LeadQuery, ParseResult } from '@/types/lead';
+
+export interface SearchRunOptions {
+  mode?: 'standard' | 'enriched_only';
+  limit?: number;
+  enrichment_flags?: { gpt5?: boolean; render?: boolean; verify_contacts?: boolean; reasoning_effort?: 'low' | 'medium' | 'high' };
+}
 
 interface SearchPanelProps {
-  onSearch: (prompt: string, options?: { mode?: 'standard' | 'enriched_only'; limit?: number; enrichment_flags?: { gpt5?: boolean; render?: boolean; verify_contacts?: boolean; reasoning_effort?: 'low' | 'medium' | 'high' } }) => void;
+  // Runs the search; `dsl` is the query already resolved by the preview
+  onSearch: (prompt: string, options?: SearchRunOptions, dsl?: LeadQuery) => void;
+  // Dry run shown for confirmation first; null when it failed
+  onPreview: (prompt: string, options?: SearchRunOptions) => Promise<ParseResult | null>;
   isSearching: boolean;
 }
 
@@ -18,7 +29,7 @@ const PROMPT_EXAMPLES = [
   "Roofing companies in Dallas with no website"
 ];
 
-export function SearchPanel({ onSearch, isSearching }: SearchPanelProps) {
+export function SearchPanel({ onSearch, onPreview, isSearching }: SearchPanelProps) {
   const [prompt, setPrompt] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -28,39 +39,62 @@ export function SearchPanel({ onSearch, isSearching }: SearchPanelProps) {
   const [verifyContacts, setVerifyContacts] = useState(true);
   const [useGPT5, setUseGPT5] = useState(false);
   const [gpt5ReasoningLevel, setGPT5ReasoningLevel] = useState<'low' | 'medium' | 'high'>('medium');
+  // The dry run awaiting confirmation, with what it was run for
+  const [preview, setPreview] = useState<{ result: ParseResult; prompt: string; options: SearchRunOptions } | null>(null);
 
   const debouncedPrompt = useDebounce(prompt, 300);
+
+  // Options change the plan, so an estimate made without them is stale
+  useEffect(() => {
+    setPreview(null);
+  }, [enrichedOnly, limit, renderDom, verifyContacts, useGPT5, gpt5ReasoningLevel]);
   
+  // Submitting only estimates the search; "Run search" on the preview starts it
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
     if (debouncedPrompt.trim() && !isSubmitting && !isSearching) {
       setIsSubmitting(true);
+      const options: SearchRunOptions = {
+        mode: enrichedOnly ? 'enriched_only' : 'standard',
+        limit: Math.min(Math.max(limit, 1), 20),
+        enrichment_flags: {
+          gpt5: enrichedOnly && useGPT5,
+          render: renderDom,
+          verify_contacts: verifyContacts,
+          reasoning_effort: gpt5ReasoningLevel
+        }
+      };
       try {
-        await onSearch(debouncedPrompt, {
-          mode: enrichedOnly ? 'enriched_only' : 'standard',
-          limit: Math.min(Math.max(limit, 1), 20),
-          enrichment_flags: {
-            gpt5: enrichedOnly && useGPT5,
-            render: renderDom,
-            verify_contacts: verifyContacts,
-            reasoning_effort: gpt5ReasoningLevel
-          }
-        });
+        const result = await onPreview(debouncedPrompt, options);
+        setPreview(result ? { result, prompt: debouncedPrompt, options } : null);
       } finally {
         setIsSubmitting(false);
       }
     }
-  }, [debouncedPrompt, onSearch, isSubmitting, isSearching, enrichedOnly, limit, renderDom, verifyContacts]);
+  }, [debouncedPrompt, onPreview, isSubmitting, isSearching, enrichedOnly, limit, renderDom, verifyContacts, useGPT5, gpt5ReasoningLevel]);
+
+  const handleConfirm = useCallback(async () => {
+    if (!preview) return;
+    setIsSubmitting(true);
+    try {
+      await onSearch(preview.prompt, preview.options, preview.result.dsl);
+      setPreview(null);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [preview, onSearch]);
 
   const handleExampleClick = useCallback((example: string) => {
     if (!isSearching && !isSubmitting) {
       setPrompt(example);
+      setPreview(null);
       setShowSuggestions(true);
     }
   }, [isSearching, isSubmitting]);
 
   const handleSuggestionSelect = useCallback((suggestedPrompt: string) => {
     setPrompt(suggestedPrompt);
+    setPreview(null);
     setShowSuggestions(false);
   }, []);
 
@@ -82,7 +116,10 @@ export function SearchPanel({ onSearch, isSearching }: SearchPanelProps) {
             <div className="relative">
               <Textarea
                 value={prompt}
-                onChange={(e) => setPrompt(e.target.value)}
+                onChange={(e) => {
+                  setPrompt(e.target.value);
+                  setPreview(null);
+                }}
                 placeholder="e.g., dentists in Columbia, SC with no chat widget and owner identified"
                 className="min-h-[80px] text-sm resize-none"
                 disabled={isSearching || isSubmitting}
@@ -97,9 +134,20 @@ export function SearchPanel({ onSearch, isSearching }: SearchPanelProps) {
             className="w-full h-10 text-sm font-medium"
             variant="default"
           >
-            {isSearching || isSubmitting ? 'Searching...' : 'Find Leads'}
+            {isSearching ? 'Searching...' : isSubmitting && !preview ? 'Estimating...' : 'Find Leads'}
           </Button>
         </form>
+
+        {preview && (
+          <div className="mt-3">
+            <SearchEstimatePreview
+              preview={preview.result}
+              onConfirm={handleConfirm}
+              onCancel={() => setPreview(null)}
+              isStarting={isSubmitting || isSearching}
+            />
+          </div>
+        )}
       </div>
 
       <div className="p-3 space-y-3">
@@ -2,18 +2,20 @@ import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
 import { DSLPreviewChips } from '@/components/ui/dsl-preview-chips';
 import { EditSearchModal } from './EditSearchModal';
 import { Clock, Save, Edit3, AlertTriangle, RefreshCw } from 'lucide-react';
 import { SearchJob } from '@/types/lead';
 import { cn } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
+import { describeProgress } from '../../../supabase/functions/lib/search-progress';
 
 interface SearchResultsBannerProps {
   searchJob: SearchJob | null;
   resultsCount: number;
   onSaveSearch?: (customName: string) => void;
-  onEditSearch?: () => void;
+  onEditSearch?: (updatedJob: SearchJob) => void;
   onRetry?: () => void;
   className?: string;
 }
@@ -32,7 +34,8 @@ export function SearchResultsBanner({
 
   const isCompleted = searchJob.status === 'completed';
   const isFailed = searchJob.status === 'failed';
-  const isRunning = searchJob.status === 'running';
+  const isRunning = searchJob.status === 'running' || searchJob.status === 'queued';
+  const progress = searchJob.progress_json;
 
   const getBannerVariant = () => {
     if (isFailed) return 'destructive';
@@ -42,7 +45,11 @@ export function SearchResultsBanner({
 
   const getStatusMessage = () => {
     if (isFailed) return 'Search failed';
-    if (isRunning) return 'Search in progress...';
+    if (isRunning) {
+      return resultsCount > 0
+        ? `Search in progress • ${resultsCount} leads so far`
+        : 'Search in progress...';
+    }
     return `Search completed • ${resultsCount} leads found`;
   };
 
@@ -85,6 +92,14 @@ export function SearchResultsBanner({
               )}
             </div>
 
+            {/* Live Progress */}
+            {isRunning && progress && (
+              <div className="space-y-1">
+                <Progress value={progress.percent} className="h-1.5" />
+                <p className="text-xs text-muted-foreground">{describeProgress(progress)}</p>
+              </div>
+            )}
+
             {/* Search Summary */}
             {searchJob.custom_name && (
               <h3 className="text-sm font-medium">{searchJob.custom_name}</h3>
@@ -144,7 +159,7 @@ export function SearchResultsBanner({
           searchJob={searchJob}
           onSave={(updatedJob) => {
             setShowEditModal(false);
-            onEditSearch?.();
+            onEditSearch?.(updatedJob);
           }}
           onCancel={() => setShowEditModal(false)}
         />
@@ -0,0 +1,131 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Ban, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { useSuppressionLists } from '@/hooks/useSuppressionLists';
+import { SUPPRESSION_KINDS, SuppressionKind } from '../../../supabase/functions/lib/suppression';
+
+const KIND_LABELS: Record<SuppressionKind, string> = {
+  domain: 'Domain',
+  phone: 'Phone',
+  place_id: 'Place ID',
+  name_pattern: 'Name pattern'
+};
+
+const KIND_PLACEHOLDERS: Record<SuppressionKind, string> = {
+  domain: 'acme-dental.com',
+  phone: '(803) 555-0100',
+  place_id: 'ChIJ...',
+  name_pattern: 'aspen dental*'
+};
+
+export function SuppressionListsPanel() {
+  const { entries, lastImport, isLoading, isImporting, load, add, importCsv, remove } = useSuppressionLists();
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [kind, setKind] = useState<SuppressionKind>('domain');
+  const [value, setValue] = useState('');
+  const [filter, setFilter] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const open = async () => {
+    await load();
+    setHasLoaded(true);
+  };
+
+  const handleAdd = async () => {
+    if (!value.trim()) return;
+    if (await add(kind, value.trim())) setValue('');
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (await importCsv(await file.text())) setHasLoaded(true);
+  };
+
+  const visible = filter
+    ? entries.filter(entry => entry.value.includes(filter.trim().toLowerCase()))
+    : entries;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Ban className="w-5 h-5" />
+            Suppression List
+          </CardTitle>
+          <CardDescription>
+            Searches never return these businesses, or leads you have already qualified, ignored or opened an opportunity for
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <input ref={fileInput} type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+          <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={isImporting}>
+            <Upload className="w-4 h-4 mr-2" />
+            {isImporting ? 'Importing...' : 'Import CSV'}
+          </Button>
+          <Button variant="outline" size="sm" onClick={open} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            {hasLoaded ? 'Refresh' : 'Show'}
+          </Button>
+        </div>
+      </CardHeader>
+      {hasLoaded && (
+        <CardContent className="space-y-4">
+          {lastImport && (
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p>Last import: {lastImport.added} new entries from {lastImport.rows} rows</p>
+              {[...lastImport.skipped, ...lastImport.invalid].map(message => (
+                <p key={message}>{message}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Select value={kind} onValueChange={(next) => setKind(next as SuppressionKind)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPRESSION_KINDS.map(option => (
+                  <SelectItem key={option} value={option}>{KIND_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              placeholder={KIND_PLACEHOLDERS[kind]}
+            />
+            <Button onClick={handleAdd} disabled={!value.trim()}>Add</Button>
+          </div>
+
+          {entries.length > 0 && (
+            <Input value={filter} onChange={(e) => setFilter(e.target.value)} placeholder={`Filter ${entries.length} entries`} />
+          )}
+          {entries.length === 0 && !isLoading && (
+            <p className="text-sm text-muted-foreground">Nothing suppressed yet. Add entries or import a customer list.</p>
+          )}
+          <div className="max-h-72 overflow-y-auto space-y-1">
+            {visible.map(entry => (
+              <div key={entry.id} className="flex items-center gap-3 text-sm">
+                <Badge variant="secondary" className="w-28 justify-center">{KIND_LABELS[entry.kind]}</Badge>
+                <span className="flex-1 truncate font-mono">{entry.value}</span>
+                {entry.source !== 'manual' && <Badge variant="outline">{entry.source.replace('_', ' ')}</Badge>}
+                <Button variant="ghost" size="sm" onClick={() => remove([entry.id])} aria-label={`Remove ${entry.value}`}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
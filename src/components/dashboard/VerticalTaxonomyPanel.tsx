@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Layers, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { useVerticals } from '@/hooks/useVerticals';
+import { describeConstraint } from '../../../supabase/functions/lib/dsl-describe';
+import {
+  GENERIC_VERTICAL,
+  validateVertical,
+  type VerticalDefinition,
+} from '../../../supabase/functions/lib/verticals';
+
+const NEW_VERTICAL: VerticalDefinition = {
+  id: 'pet_grooming',
+  label: 'Pet Grooming',
+  synonyms: ['pet groomer', 'dog groomer', 'pet grooming'],
+  place_types: ['pet_store'],
+  tier: 'medium',
+  expected_features: [{ has_online_booking: true }]
+};
+
+function parseDraft(draft: string): { vertical: VerticalDefinition | null; problems: string[] } {
+  try {
+    const vertical = JSON.parse(draft) as VerticalDefinition;
+    return { vertical, problems: validateVertical(vertical) };
+  } catch (error) {
+    return { vertical: null, problems: [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+}
+
+export function VerticalTaxonomyPanel() {
+  const { stored, canEdit, isLoading, load, save, remove } = useVerticals();
+  const [selectedId, setSelectedId] = useState<string>('new');
+  const [draft, setDraft] = useState(JSON.stringify(NEW_VERTICAL, null, 2));
+
+  const { vertical, problems } = parseDraft(draft);
+  const selected = stored.find(entry => entry.vertical.id === selectedId);
+
+  const pick = (id: string) => {
+    setSelectedId(id);
+    const entry = stored.find(candidate => candidate.vertical.id === id);
+    setDraft(JSON.stringify(entry?.vertical ?? NEW_VERTICAL, null, 2));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="w-5 h-5" />
+            Verticals
+          </CardTitle>
+          <CardDescription>
+            Business types searches can target: the words that name them, the Places types fetched, and how they score
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => load(true)} disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Reload
+        </Button>
+      </CardHeader>
+      <CardContent className="grid gap-6 lg:grid-cols-2">
+        <div className="max-h-96 overflow-y-auto space-y-2">
+          {stored.map(entry => (
+            <button
+              key={entry.vertical.id}
+              type="button"
+              onClick={() => pick(entry.vertical.id)}
+              className={`w-full rounded-md border p-2 text-left text-sm ${entry.vertical.id === selectedId ? 'border-primary' : ''}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{entry.vertical.label}</span>
+                <Badge variant="outline" className="text-xs">{entry.vertical.tier}</Badge>
+                {entry.custom && <Badge variant="secondary" className="text-xs">custom</Badge>}
+                {!entry.enabled && <Badge variant="destructive" className="text-xs">disabled</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {entry.vertical.place_types.join(', ')}
+                {entry.vertical.scoring_profile && ` · ${entry.vertical.scoring_profile}`}
+              </p>
+              {(entry.vertical.expected_features?.length ?? 0) > 0 && (
+                <p className="text-xs text-muted-foreground truncate">
+                  Expects {entry.vertical.expected_features?.map(describeConstraint).join(', ')}
+                </p>
+              )}
+            </button>
+          ))}
+          {stored.length === 0 && !isLoading && (
+            <p className="text-sm text-muted-foreground">Using the built-in verticals.</p>
+          )}
+        </div>
+
+        {canEdit ? (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label>Edit</Label>
+              <Select value={selectedId} onValueChange={pick}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="new">New vertical</SelectItem>
+                  {stored.map(entry => (
+                    <SelectItem key={entry.vertical.id} value={entry.vertical.id}>{entry.vertical.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Textarea
+              className="font-mono text-xs min-h-[260px]"
+              value={draft}
+              onChange={event => setDraft(event.target.value)}
+              spellCheck={false}
+            />
+            {problems.length > 0 && (
+              <ul className="text-xs text-destructive space-y-1">
+                {problems.map(problem => <li key={problem}>{problem}</li>)}
+              </ul>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" onClick={() => vertical && save(vertical, selected?.enabled ?? true)} disabled={!vertical || problems.length > 0}>
+                <Save className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+              {selected && selected.vertical.id !== GENERIC_VERTICAL && (
+                <Button size="sm" variant="outline" onClick={() => save(selected.vertical, !selected.enabled)}>
+                  {selected.enabled ? 'Disable' : 'Enable'}
+                </Button>
+              )}
+              {selected?.custom && (
+                <Button size="sm" variant="outline" onClick={() => remove(selected.vertical.id)}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  {selected.built_in ? 'Restore built-in' : 'Delete'}
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Only admins can change the taxonomy.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
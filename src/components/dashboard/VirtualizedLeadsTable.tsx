@@ -6,6 +6,8 @@ import { VirtualizedTable } from '@/components/ui/virtualized-table';
 import { ExternalLink, Eye, Phone, Globe, MapPin } from 'lucide-react';
 import { Lead } from '@/types/lead';
 import { cn } from '@/lib/utils';
+import { ConstraintMatch } from '@/components/ui/constraint-match';
+import { ScoreSparkline } from '@/components/ui/score-sparkline';
 
 interface VirtualizedLeadsTableProps {
   leads: Lead[];
@@ -121,11 +123,15 @@ export function VirtualizedLeadsTable({
       {
         id: 'score',
         header: 'Score',
-        width: 70,
+        width: 80,
         accessor: (lead: Lead) => (
-          <span className={cn("font-semibold text-sm", getScoreColor(lead.score))}>
-            {lead.score}
-          </span>
+          <div className="flex flex-col items-start gap-0.5">
+            <span className={cn("font-semibold text-sm", getScoreColor(lead.score))}>
+              {lead.score}
+            </span>
+            <ScoreSparkline scores={lead.score_history} />
+            <ConstraintMatch results={lead.constraint_results} />
+          </div>
         )
       },
       {
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Check, HelpCircle, X } from 'lucide-react';
+import { ConstraintResults } from '@/types/lead';
+import { cn } from '@/lib/utils';
+
+interface ConstraintMatchProps {
+  results?: ConstraintResults | null;
+  className?: string;
+}
+
+const OUTCOME_ICONS = {
+  pass: Check,
+  fail: X,
+  unknown: HelpCircle,
+};
+
+const LIST_PREFIXES = {
+  must: '',
+  optional: 'Preferred: ',
+  exclude: 'Not: ',
+};
+
+// "4/5" badge with the per-constraint outcomes in a tooltip
+export function ConstraintMatch({ results, className }: ConstraintMatchProps) {
+  if (!results || results.total === 0) return null;
+
+  const complete = results.matched === results.total;
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant="outline"
+          className={cn('text-xs px-1 py-0', complete ? 'border-success text-success' : 'text-muted-foreground', className)}
+        >
+          {results.matched}/{results.total}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="space-y-1">
+        <div className="font-medium">Matched {results.matched} of {results.total} criteria</div>
+        {results.checks.map(check => {
+          const Icon = OUTCOME_ICONS[check.outcome];
+          return (
+            <div key={`${check.list}:${check.key}`} className="flex items-center gap-1 text-xs">
+              <Icon className={cn('w-3 h-3', check.outcome === 'pass' && 'text-success', check.outcome === 'fail' && 'text-destructive')} />
+              {LIST_PREFIXES[check.list]}{check.label}
+              {check.outcome === 'unknown' && <span className="text-muted-foreground">(not checked)</span>}
+            </div>
+          );
+        })}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
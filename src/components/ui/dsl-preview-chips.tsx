@@ -1,77 +1,84 @@
 import React from 'react';
 import { Badge } from '@/components/ui/badge';
-import { MapPin, Building, Filter, Target } from 'lucide-react';
+import { MapPin, Building, Filter, Target, Ban, Sparkles, ArrowUpDown, Gauge, X } from 'lucide-react';
 import { LeadQuery } from '@/types/lead';
 import { cn } from '@/lib/utils';
+import { describeConstraint } from '../../../supabase/functions/lib/dsl-describe';
 
 interface DSLPreviewChipsProps {
   dsl: LeadQuery;
   className?: string;
   maxChips?: number;
+  // Shows a remove button on chips that can be dropped; receives the DSL path
+  onRemove?: (path: string) => void;
 }
 
-export function DSLPreviewChips({ dsl, className, maxChips = 5 }: DSLPreviewChipsProps) {
-  const chips = [];
+interface Chip {
+  icon: React.ComponentType<{ className?: string }>;
+  label: string;
+  variant: 'default' | 'secondary' | 'outline' | 'destructive';
+  path?: string;
+}
+
+const SORT_LABELS: Record<string, string> = {
+  score_asc: 'Lowest score first',
+  name_asc: 'By name',
+  recent_first: 'Newest first',
+  reviews_desc: 'Most reviewed',
+};
 
-  // Vertical chip
+export function DSLPreviewChips({ dsl, className, maxChips = 5, onRemove }: DSLPreviewChipsProps) {
+  const chips: Chip[] = [];
+
+  // Vertical chips, primary first
   if (dsl.vertical && dsl.vertical !== 'generic') {
-    chips.push({
-      icon: Building,
-      label: dsl.vertical.replace('_', ' '),
-      variant: 'default' as const
-    });
+    chips.push({ icon: Building, label: dsl.vertical.replace(/_/g, ' '), variant: 'default', path: 'vertical' });
   }
+  dsl.additional_verticals?.forEach((vertical, index) => {
+    chips.push({ icon: Building, label: vertical.replace(/_/g, ' '), variant: 'default', path: `additional_verticals.${index}` });
+  });
 
-  // Location chip
-  if (dsl.geo?.city) {
-    const location = `${dsl.geo.city}${dsl.geo.state ? `, ${dsl.geo.state}` : ''}`;
-    chips.push({
-      icon: MapPin,
-      label: location,
-      variant: 'secondary' as const
-    });
-  }
+  // Location chips, one per searched place
+  const geo = dsl.geo;
+  if (geo?.city) chips.push({ icon: MapPin, label: `${geo.city}, ${geo.state}`, variant: 'secondary' });
+  geo?.locations?.forEach((location, index) => {
+    chips.push({ icon: MapPin, label: `${location.city}, ${location.state}`, variant: 'secondary', path: `geo.locations.${index}` });
+  });
+  geo?.counties?.forEach((county, index) => {
+    chips.push({ icon: MapPin, label: `${county} County, ${geo.state}`, variant: 'secondary', path: `geo.counties.${index}` });
+  });
+  geo?.zip_codes?.forEach((zip, index) => {
+    chips.push({ icon: MapPin, label: `ZIP ${zip}`, variant: 'secondary', path: `geo.zip_codes.${index}` });
+  });
 
-  // Radius chip
-  if (dsl.geo?.radius_km) {
-    chips.push({
-      icon: Target,
-      label: `${dsl.geo.radius_km}km radius`,
-      variant: 'outline' as const
-    });
+  // Radius or drive-time chip
+  if (geo?.shape?.type === 'drive_time') {
+    chips.push({ icon: Target, label: `${geo.shape.minutes} min drive`, variant: 'outline', path: 'geo.shape' });
+  } else if (geo?.shape?.type === 'polygon') {
+    chips.push({ icon: Target, label: 'Drawn area', variant: 'outline', path: 'geo.shape' });
+  } else if (geo?.radius_km) {
+    chips.push({ icon: Target, label: `${geo.radius_km}km radius`, variant: 'outline' });
   }
 
   // Constraint chips
-  if (dsl.constraints?.must) {
-    const constraints = dsl.constraints.must.slice(0, 3); // Show max 3 constraints
-    constraints.forEach((constraint) => {
-      const key = Object.keys(constraint)[0];
-      const value = Object.values(constraint)[0];
-      
-      let label = '';
-      switch (key) {
-        case 'no_website':
-          label = value ? 'No Website' : 'Has Website';
-          break;
-        case 'has_chatbot':
-          label = value ? 'Has Chatbot' : 'No Chatbot';
-          break;
-        case 'has_online_booking':
-          label = value ? 'Has Booking' : 'No Booking';
-          break;
-        case 'owner_identified':
-          label = value ? 'Owner ID' : 'No Owner ID';
-          break;
-        default:
-          label = `${key}: ${value}`;
-      }
+  dsl.constraints?.must?.forEach((constraint, index) => {
+    chips.push({ icon: Filter, label: describeConstraint(constraint), variant: 'outline', path: `constraints.must.${index}` });
+  });
+  dsl.constraints?.optional?.forEach((constraint, index) => {
+    chips.push({ icon: Sparkles, label: `Prefer: ${describeConstraint(constraint)}`, variant: 'outline', path: `constraints.optional.${index}` });
+  });
+  dsl.constraints?.exclude?.forEach((constraint, index) => {
+    chips.push({ icon: Ban, label: `Exclude: ${describeConstraint(constraint)}`, variant: 'destructive', path: `constraints.exclude.${index}` });
+  });
+  dsl.exclusions?.forEach((name, index) => {
+    chips.push({ icon: Ban, label: `Except ${name}`, variant: 'outline', path: `exclusions.${index}` });
+  });
 
-      chips.push({
-        icon: Filter,
-        label,
-        variant: 'outline' as const
-      });
-    });
+  if (dsl.sort_by && SORT_LABELS[dsl.sort_by]) {
+    chips.push({ icon: ArrowUpDown, label: SORT_LABELS[dsl.sort_by], variant: 'outline', path: 'sort_by' });
+  }
+  if (dsl.scoring?.profile && dsl.scoring.profile !== 'generic') {
+    chips.push({ icon: Gauge, label: `Profile: ${dsl.scoring.profile}`, variant: 'outline', path: 'scoring.profile' });
   }
 
   // Limit to maxChips
@@ -82,15 +89,25 @@ export function DSLPreviewChips({ dsl, className, maxChips = 5 }: DSLPreviewChip
     <div className={cn("flex flex-wrap items-center gap-2", className)}>
       {displayChips.map((chip, index) => (
         <Badge
-          key={index}
+          key={chip.path ?? index}
           variant={chip.variant}
           className="text-xs px-2 py-1 flex items-center gap-1"
         >
           <chip.icon className="w-3 h-3" />
           {chip.label}
+          {onRemove && chip.path && (
+            <button
+              type="button"
+              onClick={() => onRemove(chip.path!)}
+              className="ml-1 rounded-full hover:bg-muted-foreground/20"
+              aria-label={`Remove ${chip.label}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
         </Badge>
       ))}
-      
+
       {remainingCount > 0 && (
         <Badge variant="outline" className="text-xs px-2 py-1">
           +{remainingCount} more
@@ -98,4 +115,4 @@ export function DSLPreviewChips({ dsl, className, maxChips = 5 }: DSLPreviewChip
       )}
     </div>
   );
-}
\ No newline at end of file
+}
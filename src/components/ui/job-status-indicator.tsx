@@ -11,20 +11,29 @@ import {
   Search,
   Sparkles
 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { SearchProgress, StatusLogEntry } from '@/types/lead';
 
 interface JobStatusIndicatorProps {
   state: 'idle' | 'parsing' | 'queued' | 'running' | 'completed' | 'failed';
   progress: number;
   message?: string;
   elapsedTime?: number;
+  stages?: SearchProgress['stages'];
+  logs?: StatusLogEntry[];
   className?: string;
 }
 
+// Number of recent status log lines shown under the progress bar
+const VISIBLE_LOGS = 3;
+
 export function JobStatusIndicator({ 
   state, 
   progress, 
   message, 
   elapsedTime,
+  stages,
+  logs,
   className 
 }: JobStatusIndicatorProps) {
   const getIcon = () => {
@@ -110,10 +119,46 @@ export function JobStatusIndicator({
           </Badge>
         </div>
       </div>
+      {stages && (
+        <div className="mt-3 flex flex-wrap gap-4 text-xs text-muted-foreground">
+          <span>
+            Places fetched: <span className="font-medium text-foreground">{stages.enrich.total}</span>
+          </span>
+          <StageCount label="Sites audited" counts={stages.enrich} />
+          <StageCount label="Leads scored" counts={stages.score} />
+        </div>
+      )}
+      {logs && logs.length > 0 && (
+        <ul className="mt-2 space-y-0.5 text-xs font-mono">
+          {logs.slice(-VISIBLE_LOGS).map((log, index) => (
+            <li
+              key={`${log.ts}-${index}`}
+              className={cn(
+                'truncate text-muted-foreground',
+                log.severity === 'warn' && 'text-warning',
+                log.severity === 'error' && 'text-destructive'
+              )}
+            >
+              {log.message}
+            </li>
+          ))}
+        </ul>
+      )}
     </Alert>
   );
 }
 
+function StageCount({ label, counts }: { label: string; counts: SearchProgress['stages']['score'] }) {
+  return (
+    <span>
+      {label}: <span className="font-medium text-foreground">{counts.done}/{counts.total}</span>
+      {counts.failed > 0 && (
+        <span className="text-destructive"> ({counts.failed} failed)</span>
+      )}
+    </span>
+  );
+}
+
 interface CompactJobStatusProps {
   state: 'idle' | 'parsing' | 'queued' | 'running' | 'completed' | 'failed';
   progress: number;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+interface ScoreSparklineProps {
+  scores?: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+// Tiny line of a lead's past scores on a fixed 0-100 scale, green when the
+// latest score is above the first one and red when below
+export function ScoreSparkline({ scores, width = 48, height = 14, className }: ScoreSparklineProps) {
+  if (!scores || scores.length < 2) return null;
+
+  const step = width / (scores.length - 1);
+  const y = (score: number) => height - 1 - (Math.min(100, Math.max(0, score)) / 100) * (height - 2);
+  const points = scores.map((score, index) => `${(index * step).toFixed(1)},${y(score).toFixed(1)}`).join(' ');
+  const change = scores[scores.length - 1] - scores[0];
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={cn(change > 0 ? 'text-success' : change < 0 ? 'text-destructive' : 'text-muted-foreground', className)}
+      role="img"
+      aria-label={`Score history: ${scores.join(', ')}`}
+    >
+      <title>{scores.join(' → ')}</title>
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+}
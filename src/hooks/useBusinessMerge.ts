@@ -0,0 +1,88 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+import type { MatchResult } from '../../supabase/functions/lib/entity-resolution';
+
+export interface DuplicateBusiness {
+  id: string;
+  name: string;
+  phone: string | null;
+  website: string | null;
+  address_json: { street?: string; city?: string; state?: string; zip?: string } | null;
+  google_place_id: string | null;
+  created_at: string;
+  duplicate_of: string | null;
+}
+
+export interface DuplicateGroup {
+  survivor: DuplicateBusiness;
+  duplicates: Array<{ business: DuplicateBusiness; reason: string; match: MatchResult }>;
+}
+
+export function useBusinessMerge() {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadCandidates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('merge-businesses', {
+        body: { operation: 'candidates' }
+      });
+
+      if (error) throw error;
+      setGroups((data as { groups?: DuplicateGroup[] } | null)?.groups ?? []);
+    } catch (error) {
+      console.error('Error loading duplicate businesses:', error);
+      toast({
+        title: "Could not load duplicates",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  const merge = useCallback(async (survivorId: string, duplicateIds: string[]): Promise<boolean> => {
+    setMergingId(survivorId);
+    try {
+      const { data, error } = await supabase.functions.invoke('merge-businesses', {
+        body: { operation: 'merge', survivor_id: survivorId, duplicate_ids: duplicateIds }
+      });
+
+      if (error) throw error;
+
+      const moved = (data as { result?: { moved?: Record<string, number> } } | null)?.result?.moved;
+      toast({
+        title: "Businesses merged",
+        description: moved
+          ? `Moved ${moved.people ?? 0} people, ${moved.signals ?? 0} signals, ${moved.notes ?? 0} notes and ${moved.tags ?? 0} tags`
+          : `Merged ${duplicateIds.length} duplicate(s)`
+      });
+      setGroups(prev => prev.filter(group => group.survivor.id !== survivorId));
+      return true;
+    } catch (error) {
+      console.error('Error merging businesses:', error);
+      toast({
+        title: "Merge failed",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setMergingId(null);
+    }
+  }, [toast]);
+
+  return {
+    groups,
+    isLoading,
+    mergingId,
+    loadCandidates,
+    merge
+  };
+}
@@ -0,0 +1,55 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+export interface EvidenceSnapshot {
+  id: string;
+  business_id: string;
+  uri: string;
+  html: string;
+  headers: Record<string, string>;
+  status?: number;
+  fetched_at?: string;
+  page_kind?: string;
+  created_at: string;
+}
+
+// Loads stored page snapshots on demand, keeping the ones already opened
+export function useEvidenceSnapshot() {
+  const [snapshots, setSnapshots] = useState<Record<string, EvidenceSnapshot>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const loadSnapshot = useCallback(async (artifactId: string): Promise<EvidenceSnapshot | null> => {
+    if (snapshots[artifactId]) return snapshots[artifactId];
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('evidence-snapshots', {
+        body: { operation: 'get', artifact_id: artifactId }
+      });
+
+      if (error) throw error;
+      const snapshot = (data as { snapshot?: EvidenceSnapshot } | null)?.snapshot;
+      if (!snapshot) throw new Error('Snapshot not found');
+
+      setSnapshots(current => ({ ...current, [artifactId]: snapshot }));
+      return snapshot;
+    } catch (error) {
+      console.error('Error loading snapshot:', error);
+      toast({
+        title: "Could not load snapshot",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [snapshots, toast]);
+
+  return {
+    loadSnapshot,
+    isLoading
+  };
+}
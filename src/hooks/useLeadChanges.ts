@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+import { AUDIT_CHANGE_EVENT_TYPES, type AuditChangeType, type AuditedFeature } from '../../supabase/functions/lib/audit-changes';
+
+export interface LeadChange {
+  id: string;
+  type: AuditChangeType;
+  created_at: string;
+  feature: AuditedFeature | null;
+  summary: string;
+  website_url?: string;
+}
+
+interface EventRow {
+  id: string;
+  type: string;
+  created_at: string;
+  payload_json: {
+    feature?: AuditedFeature | null;
+    summary?: string;
+    website_url?: string;
+  } | null;
+}
+
+const CHANGE_TYPES = new Set<string>(AUDIT_CHANGE_EVENT_TYPES);
+
+// Website changes found by scheduled re-audits, newest first
+export function useLeadChanges(businessId: string | undefined) {
+  const [changes, setChanges] = useState<LeadChange[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!businessId) {
+      setChanges([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('events')
+        .select('id, type, created_at, payload_json')
+        .eq('entity_id', businessId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      const rows = (Array.isArray(data) ? data : []) as EventRow[];
+      setChanges(rows
+        .filter(row => CHANGE_TYPES.has(row.type))
+        .map(row => ({
+          id: row.id,
+          type: row.type as AuditChangeType,
+          created_at: row.created_at,
+          feature: row.payload_json?.feature ?? null,
+          summary: row.payload_json?.summary ?? row.type,
+          website_url: row.payload_json?.website_url
+        })));
+    } catch (error) {
+      console.error('Error fetching lead changes:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return {
+    changes,
+    isLoading,
+    reload: load
+  };
+}
@@ -1,6 +1,6 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { api } from '@/lib/api';
-import { Lead, LeadQuery, ParseResult, SearchJob } from '@/types/lead';
+import { Lead, LeadQuery, ParseResult, SearchEstimate, SearchJob, SearchProgress, StatusLogEntry } from '@/types/lead';
 import { toast } from '@/hooks/use-toast';
 import { generateSearchName, generateSearchTags, categorizeLeadType } from './useSearchNaming';
 import { useSearchCache, useRecentSearches } from './useSearchCache';
@@ -12,26 +12,63 @@ interface EnrichmentFlags {
   verify_contacts?: boolean;
 }
 
-interface SearchOptions {
+export interface SearchOptions {
   mode?: 'standard' | 'enriched_only';
   enrichment_flags?: EnrichmentFlags;
   limit?: number; // server enforces max 20
+  // Run of this saved search; its results can then be compared with the previous run
+  saved_search_id?: string;
+}
+
+// Keep the last few status_logs lines for the progress indicator
+const MAX_STATUS_LOGS = 50;
+// Realtime has this long to confirm the subscription before we fall back to polling
+const REALTIME_SUBSCRIBE_TIMEOUT_MS = 5000;
+// Coalesce bursts of lead_views inserts into one partial-results fetch
+const PARTIAL_RESULTS_THROTTLE_MS = 2000;
+
+// Merge newly scored leads into the current list. Ranks are provisional (by
+// score) until the job finishes and the worker assigns final ranks.
+function mergePartialLeads(current: Lead[], incoming: Lead[]): Lead[] {
+  const byId = new Map(current.map(lead => [lead.business.id, lead]));
+  for (const lead of incoming) {
+    byId.set(lead.business.id, { ...byId.get(lead.business.id), ...lead });
+  }
+  return [...byId.values()]
+    .sort((a, b) => b.score - a.score)
+    .map((lead, index) => ({ ...lead, rank: index + 1 }));
 }
 
 export function useLeadSearch() {
   const [isSearching, setIsSearching] = useState(false);
   const [searchResults, setSearchResults] = useState<Lead[]>([]);
   const [currentSearchJob, setCurrentSearchJob] = useState<SearchJob | null>(null);
+  const [searchProgress, setSearchProgress] = useState<SearchProgress | null>(null);
+  const [statusLogs, setStatusLogs] = useState<StatusLogEntry[]>([]);
   const abortControllerRef = useRef<AbortController | null>(null);
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => unsubscribeRef.current?.(), []);
+
+  const appendStatusLog = useCallback((log: StatusLogEntry) => {
+    setStatusLogs(prev => [...prev, log].slice(-MAX_STATUS_LOGS));
+  }, []);
+
+  const applyJobUpdate = useCallback((jobId: string, update: Partial<SearchJob>) => {
+    if (update.progress_json) {
+      setSearchProgress(update.progress_json);
+    }
+    setCurrentSearchJob(prev => prev && prev.id === jobId ? { ...prev, ...update } : prev);
+  }, []);
   
   // Cache management
   const { getCachedResults, addToCache, clearCache } = useSearchCache();
   const { recentSearches, addRecentSearch } = useRecentSearches();
 
-  const parsePrompt = async (prompt: string): Promise<ParseResult> => {
+  const parsePrompt = async (prompt: string, options?: { dry_run?: boolean }): Promise<ParseResult> => {
     try {
-      return await api.parsePrompt(prompt);
+      return await api.parsePrompt(prompt, options);
     } catch (error) {
       console.error('Parse prompt error:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -45,9 +82,33 @@ export function useLeadSearch() {
     }
   };
 
+  // Parse without searching and estimate the run's API calls and duration.
+  // Enriched-only runs ask search-enriched-leads, which knows its own plan.
+  const previewSearch = async (prompt: string, options?: SearchOptions): Promise<ParseResult> => {
+    const parsed = await parsePrompt(prompt, { dry_run: true });
+    if (options?.mode !== 'enriched_only') return parsed;
+
+    const { data, error } = await supabase.functions.invoke('search-enriched-leads', {
+      body: {
+        dry_run: true,
+        dsl_json: parsed.dsl,
+        options: options.enrichment_flags,
+        limit: Math.min(options.limit || 20, 20)
+      }
+    });
+    const preview = data as { dsl?: LeadQuery; estimate?: SearchEstimate; warnings?: string[] } | null;
+    if (error || !preview?.estimate) return parsed;
+    return {
+      ...parsed,
+      dsl: preview.dsl ?? parsed.dsl,
+      warnings: [...parsed.warnings, ...(preview.warnings ?? [])],
+      estimate: preview.estimate
+    };
+  };
+
   const searchLeads = useCallback(async (dsl: LeadQuery, originalPrompt?: string, options?: SearchOptions): Promise<void> => {
-    // Check cache first
-    const cached = getCachedResults(dsl);
+    // Check cache first; a saved search run always creates a new job to compare against
+    const cached = options?.saved_search_id ? null : getCachedResults(dsl);
     if (cached) {
       console.log('Using cached results for query');
       setSearchResults(cached.results);
@@ -74,8 +135,14 @@ export function useLeadSearch() {
       clearTimeout(searchTimeoutRef.current);
     }
     
+    // Drop any stream still attached to a previous job
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+
     setIsSearching(true);
     setSearchResults([]);
+    setSearchProgress(null);
+    setStatusLogs([]);
     
     // Add to recent searches if original prompt provided
     if (originalPrompt) {
@@ -182,7 +249,8 @@ export function useLeadSearch() {
               limit: Math.min(options?.limit || 20, 20),
               custom_name: searchName,
               search_tags: searchTags,
-              lead_type: leadType
+              lead_type: leadType,
+              saved_search_id: options?.saved_search_id
             }
           });
           if (startErr || !startData?.job_id) {
@@ -197,10 +265,11 @@ export function useLeadSearch() {
             status: 'running',
             custom_name: searchName,
             original_prompt: originalPrompt,
-            search_tags: searchTags
+            search_tags: searchTags,
+            saved_search_id: options?.saved_search_id
           });
 
-          await pollForEnrichedResults(jobId);
+          await subscribeForEnrichedResults(jobId);
           return;
         } catch (e) {
           console.error('Failed to start enriched search via Supabase:', e);
@@ -214,7 +283,8 @@ export function useLeadSearch() {
         original_prompt: originalPrompt,
         custom_name: searchName,
         search_tags: searchTags,
-        lead_type: leadType
+        lead_type: leadType,
+        saved_search_id: options?.saved_search_id
       });
       if (!data || !data.job_id) {
         console.error('Invalid response from API:', data);
@@ -225,12 +295,13 @@ export function useLeadSearch() {
         id: jobId, 
         dsl_json: dsl, 
         created_at: new Date().toISOString(),
-        status: 'running',
+        status: 'queued',
         custom_name: searchName,
         original_prompt: originalPrompt,
-        search_tags: searchTags
+        search_tags: searchTags,
+        saved_search_id: options?.saved_search_id
       });
-      await pollForResults(jobId);
+      await streamForResults(jobId);
       
     } catch (error) {
       console.error('Search error details:', error);
@@ -309,6 +380,158 @@ export function useLeadSearch() {
     }
   }, []);
 
+  const finishWithResults = async (jobId: string): Promise<void> => {
+    const resultData = await api.getSearchResults(jobId);
+    setSearchResults(resultData.leads);
+    setCurrentSearchJob(resultData.search_job);
+    if (resultData.search_job.progress_json) {
+      setSearchProgress(resultData.search_job.progress_json);
+    }
+
+    // Add to cache
+    addToCache(resultData.search_job.dsl_json, resultData.leads, resultData.search_job.id);
+
+    toast({
+      title: "Search Completed",
+      description: `Found ${resultData.leads.length} leads`
+    });
+  };
+
+  // Standard path: progress, log lines and partial results are pushed over SSE
+  // by the API server. Falls back to polling if the stream cannot be opened.
+  const streamForResults = (jobId: string): Promise<void> => new Promise((resolve, reject) => {
+    let errorText: string | null | undefined;
+
+    const unsubscribe = api.streamSearchProgress(jobId, {
+      onProgress: ({ status, progress, error_text }) => {
+        errorText = error_text;
+        applyJobUpdate(jobId, { status, ...(progress ? { progress_json: progress } : {}), error_text: error_text ?? undefined });
+      },
+      onLog: appendStatusLog,
+      onLeads: leads => setSearchResults(prev => mergePartialLeads(prev, leads)),
+      onDone: status => {
+        unsubscribeRef.current = null;
+        if (status === 'failed') {
+          reject(new Error(errorText || 'Search failed'));
+          return;
+        }
+        finishWithResults(jobId).then(resolve, reject);
+      },
+      onError: error => {
+        console.warn('Progress stream unavailable, polling instead:', error.message);
+        unsubscribeRef.current = null;
+        pollForResults(jobId).then(resolve, reject);
+      }
+    });
+
+    unsubscribeRef.current = unsubscribe;
+  });
+
+  // Enriched path: Supabase realtime pushes status_logs inserts, search_jobs
+  // updates and lead_views inserts. Polling is only used if the subscription
+  // is not confirmed in time.
+  const subscribeForEnrichedResults = (jobId: string): Promise<void> => new Promise((resolve, reject) => {
+    let settled = false;
+    let partialTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const fetchResults = async () => {
+      const { data: resultData, error } = await supabase.functions.invoke('get-search-results', {
+        body: { search_job_id: jobId }
+      });
+      if (error) throw new Error('Failed to fetch results');
+      return resultData;
+    };
+
+    const cleanup = () => {
+      settled = true;
+      if (partialTimer) clearTimeout(partialTimer);
+      clearTimeout(subscribeTimer);
+      supabase.removeChannel(channel);
+      unsubscribeRef.current = null;
+    };
+
+    const finish = async (status: 'completed' | 'failed', errorText?: string) => {
+      if (settled) return;
+      cleanup();
+      if (status === 'failed') {
+        reject(new Error(errorText || 'Enriched search failed'));
+        return;
+      }
+      try {
+        const resultData = await fetchResults();
+        setSearchResults(resultData.leads);
+        setCurrentSearchJob(prev => ({ ...prev, ...resultData.search_job, id: jobId, status: 'completed' }) as SearchJob);
+        toast({
+          title: "Enriched Search Completed",
+          description: `Returned ${resultData.leads.length} enriched leads`
+        });
+        resolve();
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    const schedulePartialResults = () => {
+      if (partialTimer || settled) return;
+      partialTimer = setTimeout(async () => {
+        partialTimer = null;
+        try {
+          const resultData = await fetchResults();
+          if (!settled) setSearchResults(prev => mergePartialLeads(prev, resultData.leads));
+        } catch (error) {
+          console.error('Partial results fetch error:', error);
+        }
+      }, PARTIAL_RESULTS_THROTTLE_MS);
+    };
+
+    // A job that settled before the channel was confirmed sends no further
+    // updates, so read its status once after subscribing
+    const checkSettled = async () => {
+      try {
+        const resultData = await fetchResults();
+        const job = resultData?.search_job as Partial<SearchJob> | undefined;
+        if (job?.status === 'completed' || job?.status === 'failed') {
+          finish(job.status, job.error_text);
+        }
+      } catch (error) {
+        console.error('Search status check error:', error);
+      }
+    };
+
+    const subscribeTimer = setTimeout(() => {
+      if (settled) return;
+      console.warn('Realtime subscription not confirmed, polling instead');
+      cleanup();
+      pollForEnrichedResults(jobId).then(resolve, reject);
+    }, REALTIME_SUBSCRIBE_TIMEOUT_MS);
+
+    const channel = supabase.channel(`search-progress:${jobId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'status_logs', filter: `search_job_id=eq.${jobId}` }, (payload: { new: StatusLogEntry }) => {
+        appendStatusLog(payload.new);
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'search_jobs', filter: `id=eq.${jobId}` }, (payload: { new: SearchJob }) => {
+        const job = payload.new;
+        applyJobUpdate(jobId, { status: job.status, progress_json: job.progress_json, error_text: job.error_text });
+        if (job.status === 'completed' || job.status === 'failed') {
+          finish(job.status, job.error_text);
+        }
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'lead_views', filter: `search_job_id=eq.${jobId}` }, schedulePartialResults)
+      .subscribe((status: string) => {
+        if (status === 'SUBSCRIBED') {
+          clearTimeout(subscribeTimer);
+          checkSettled();
+        } else if ((status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') && !settled) {
+          cleanup();
+          pollForEnrichedResults(jobId).then(resolve, reject);
+        }
+      });
+
+    unsubscribeRef.current = () => {
+      if (!settled) cleanup();
+    };
+  });
+
   const pollForResults = async (jobId: string): Promise<void> => {
     const maxAttempts = 60; // 5 minutes
     let attempts = 0;
@@ -343,7 +566,8 @@ export function useLeadSearch() {
 
         // Continue polling
         attempts++;
-        setTimeout(poll, 5000); // Poll every 5 seconds
+        await new Promise(resolve => setTimeout(resolve, 5000)); // Poll every 5 seconds
+        return poll();
         
       } catch (error) {
         console.error('Poll error:', error);
@@ -397,7 +621,8 @@ export function useLeadSearch() {
         }
 
         attempts++;
-        setTimeout(poll, 5000);
+        await new Promise(resolve => setTimeout(resolve, 5000));
+        return poll();
       } catch (error) {
         console.error('Poll enriched results error:', error);
         throw error;
@@ -516,7 +741,10 @@ export function useLeadSearch() {
     isSearching,
     searchResults,
     currentSearchJob,
+    searchProgress,
+    statusLogs,
     parsePrompt,
+    previewSearch,
     searchLeads,
     updateLeadStatus,
     addNote,
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { LeadQuery, SearchJob } from '@/types/lead';
+import { loadStoredLeadQuery } from '../../supabase/functions/lib/lead-query';
 
 export interface SavedSearch {
   id: string;
@@ -40,7 +41,7 @@ export function useSavedSearches() {
       const processedSearches: SavedSearch[] = searches?.map(search => ({
         id: search.id,
         name: search.name,
-        dsl_json: search.dsl_json as unknown as LeadQuery,
+        dsl_json: loadStoredLeadQuery(search.dsl_json),
         search_job_id: search.search_job_id,
         created_at: search.created_at,
         updated_at: search.updated_at,
@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+import type { ScoreHistoryEntry } from '../../supabase/functions/lib/score-history';
+
+export interface ScoreHistoryRecord extends ScoreHistoryEntry {
+  id: string;
+}
+
+// Every scoring event of a business across the user's searches, newest first
+export function useScoreHistory(businessId: string | undefined) {
+  const [history, setHistory] = useState<ScoreHistoryRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!businessId) {
+      setHistory([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('lead_score_history')
+        .select('id, lead_view_id, search_job_id, business_id, event, profile, model_version, weights_hash, score, rank, subscores, scored_at')
+        .eq('business_id', businessId)
+        .order('scored_at', { ascending: false });
+
+      if (error) throw error;
+      setHistory((Array.isArray(data) ? data : []) as ScoreHistoryRecord[]);
+    } catch (error) {
+      console.error('Error fetching score history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return {
+    history,
+    isLoading,
+    reload: load
+  };
+}
@@ -1,85 +1,165 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 
-export interface ScoringWeights {
-  ICP: number;
-  Pain: number;
-  Reachability: number;
-  ComplianceRisk: number;
+import {
+  BUILT_IN_SCORING_PROFILES,
+  SCORING_MODEL_VERSION,
+  featuresFromSignals,
+  getScoringProfile,
+  scoreLead,
+  type BusinessLike,
+  type ScoringComponent,
+  type ScoringProfile as ServiceScoringProfile,
+  type ScoringWeights,
+  type SignalLike,
+} from '../../supabase/functions/lib/scoring-service';
+import type { RankMovement } from '../../supabase/functions/lib/rank-movement';
+
+export type { ScoringWeights, RankMovement };
+
+// An entry of the scoring-profiles `list` operation
+interface StoredScoringProfile {
+  profile: ServiceScoringProfile;
+  built_in: boolean;
+  published: boolean;
+  editable?: boolean;
+  owner_id?: string;
+  updated_at?: string;
 }
 
-export interface ScoringProfile {
-  id: string;
-  name: string;
-  description: string;
-  weights: ScoringWeights;
-  vertical?: string;
+export interface ScoringProfile extends ServiceScoringProfile {
   isDefault: boolean;
+  builtIn: boolean;
+  // Stored profiles are private to their owner until published
+  published: boolean;
+  // The current user owns it (or is an admin); built-ins are never editable
+  editable: boolean;
 }
 
-export const DEFAULT_PROFILES: ScoringProfile[] = [
-  {
-    id: 'generic',
-    name: 'Generic',
-    description: 'Balanced scoring for all business types',
-    weights: { ICP: 35, Pain: 35, Reachability: 20, ComplianceRisk: 10 },
-    isDefault: true
-  },
-  {
-    id: 'dentist-intake',
-    name: 'Dental Practice - Patient Intake',
-    description: 'Optimized for dental practices needing better patient intake systems',
-    weights: { ICP: 40, Pain: 30, Reachability: 25, ComplianceRisk: 5 },
-    vertical: 'dentist',
-    isDefault: false
-  },
-  {
-    id: 'contractor-quote',
-    name: 'Contractor - Quote Automation',
-    description: 'Focus on contractors who need automated quoting systems',
-    weights: { ICP: 30, Pain: 45, Reachability: 20, ComplianceRisk: 5 },
-    vertical: 'contractor',
-    isDefault: false
-  },
-  {
-    id: 'law-compliance',
-    name: 'Law Firm - Compliance Focused',
-    description: 'Law firms with emphasis on compliance and professional standards',
-    weights: { ICP: 25, Pain: 25, Reachability: 25, ComplianceRisk: 25 },
-    vertical: 'law_firm',
-    isDefault: false
-  },
-  {
-    id: 'high-reachability',
-    name: 'High Reachability',
-    description: 'Prioritize leads where owner contact information is available',
-    weights: { ICP: 20, Pain: 30, Reachability: 45, ComplianceRisk: 5 },
-    isDefault: false
-  }
-];
+// Built-in profiles come from the shared scoring service so the UI, edge
+// functions and API all rank leads with the same weights; stored profiles
+// are loaded on top of them from the scoring-profiles function.
+export const DEFAULT_PROFILES: ScoringProfile[] = BUILT_IN_SCORING_PROFILES.map(profile => ({
+  ...profile,
+  isDefault: profile.id === 'generic',
+  builtIn: true,
+  published: true,
+  editable: false
+}));
+
+function toProfile(entry: StoredScoringProfile): ScoringProfile {
+  return {
+    ...entry.profile,
+    isDefault: entry.profile.id === 'generic',
+    builtIn: entry.built_in,
+    published: entry.published,
+    editable: entry.editable ?? false
+  };
+}
 
 export function useScoring() {
+  const [profiles, setProfiles] = useState<ScoringProfile[]>(DEFAULT_PROFILES);
   const [currentProfile, setCurrentProfile] = useState<string>('generic');
   const [customWeights, setCustomWeights] = useState<ScoringWeights>(DEFAULT_PROFILES[0].weights);
   const [isRescoring, setIsRescoring] = useState(false);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
   const { toast } = useToast();
 
+  const reportError = useCallback((title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.functions.invoke('scoring-profiles', {
+        body: { operation: 'list' }
+      });
+
+      if (error) throw error;
+      const stored = (data as { profiles?: Array<StoredScoringProfile> } | null)?.profiles;
+      if (stored?.length) setProfiles(stored.map(toProfile));
+    } catch (error) {
+      // Rescoring still works with the built-ins
+      console.error('Could not load scoring profiles:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
   const getActiveProfile = useCallback(() => {
-    return DEFAULT_PROFILES.find(p => p.id === currentProfile) || DEFAULT_PROFILES[0];
-  }, [currentProfile]);
+    return profiles.find(p => p.id === currentProfile) || profiles[0];
+  }, [profiles, currentProfile]);
 
   const getActiveWeights = useCallback(() => {
     return customWeights;
   }, [customWeights]);
 
   const updateProfile = useCallback((profileId: string) => {
-    const profile = DEFAULT_PROFILES.find(p => p.id === profileId);
+    const profile = profiles.find(p => p.id === profileId);
     if (profile) {
       setCurrentProfile(profileId);
       setCustomWeights(profile.weights);
     }
-  }, []);
+  }, [profiles]);
+
+  // Saves (or updates) a stored profile and makes it the active one
+  const saveProfile = useCallback(async (profile: ServiceScoringProfile, published: boolean): Promise<boolean> => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.functions.invoke('scoring-profiles', {
+        body: { operation: 'save', profile, published }
+      });
+
+      if (error) throw error;
+      setProfiles(current => [
+        ...current.filter(p => p.id !== profile.id),
+        { ...profile, isDefault: false, builtIn: false, published, editable: true }
+      ]);
+      await loadProfiles();
+      setCurrentProfile(profile.id);
+      setCustomWeights(profile.weights);
+      toast({
+        title: published ? "Profile Published" : "Profile Saved",
+        description: published
+          ? `${profile.name} is now available to everyone on the team`
+          : `${profile.name} is saved for you only`
+      });
+      return true;
+    } catch (error) {
+      reportError('Could not save scoring profile', error);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [loadProfiles, reportError, toast]);
+
+  const deleteProfile = useCallback(async (profileId: string): Promise<boolean> => {
+    try {
+      const { error } = await supabase.functions.invoke('scoring-profiles', {
+        body: { operation: 'delete', id: profileId }
+      });
+
+      if (error) throw error;
+      setProfiles(current => current.filter(p => p.id !== profileId));
+      if (currentProfile === profileId) {
+        setCurrentProfile('generic');
+        setCustomWeights(DEFAULT_PROFILES[0].weights);
+      }
+      return true;
+    } catch (error) {
+      reportError('Could not delete scoring profile', error);
+      return false;
+    }
+  }, [currentProfile, reportError]);
 
   const updateWeights = useCallback((weights: ScoringWeights) => {
     setCustomWeights(weights);
@@ -103,6 +183,7 @@ export function useScoring() {
       const { data, error } = await supabase.functions.invoke('rescore-leads', {
         body: { 
           searchJobId,
+          profile: currentProfile,
           weights: customWeights
         },
         headers: {
@@ -139,86 +220,76 @@ export function useScoring() {
     } finally {
       setIsRescoring(false);
     }
-  }, [customWeights, toast]);
+  }, [currentProfile, customWeights, toast]);
 
-  const explainScore = useCallback((leadSignals: any[], leadScore: number) => {
-    const explanations: string[] = [];
-    
-    // Calculate what contributed to the score
-    let icpScore = 25; // Base score
-    let painScore = 0;
-    let reachabilityScore = 0;
-    let complianceRisk = 5;
-
-    leadSignals.forEach(signal => {
-      switch (signal.type) {
-        case 'no_website':
-          if (signal.value_json === true) {
-            painScore += 15;
-            explanations.push('No website detected (+15 Pain points)');
-          }
-          break;
-        case 'has_chatbot':
-          if (signal.value_json === false) {
-            painScore += 10;
-            explanations.push('No chatbot/live chat (+10 Pain points)');
-          }
-          break;
-        case 'has_online_booking':
-          if (signal.value_json === false) {
-            painScore += 10;
-            explanations.push('No online booking system (+10 Pain points)');
-          }
-          break;
-        case 'owner_identified':
-          if (signal.value_json === true) {
-            reachabilityScore += 15;
-            explanations.push('Owner contact identified (+15 Reachability points)');
-          }
-          break;
-        case 'franchise_guess':
-          if (signal.value_json === false) {
-            icpScore += 10;
-            explanations.push('Independent business (not franchise) (+10 ICP points)');
-          }
-          break;
-      }
-    });
+  // Rescores the job with the current profile and weights without writing
+  // anything, returning how each lead's rank would move
+  const simulateRescore = useCallback(async (searchJobId: string): Promise<RankMovement | null> => {
+    setIsSimulating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('rescore-leads', {
+        body: {
+          searchJobId,
+          profile: currentProfile,
+          weights: customWeights,
+          simulate: true
+        }
+      });
 
-    // Apply current weights
-    const weightedIcp = Math.round((icpScore * customWeights.ICP) / 100);
-    const weightedPain = Math.round((painScore * customWeights.Pain) / 100);
-    const weightedReachability = Math.round((reachabilityScore * customWeights.Reachability) / 100);
-    const weightedRisk = Math.round((complianceRisk * customWeights.ComplianceRisk) / 100);
+      if (error) throw error;
+      return (data as { simulation?: RankMovement } | null)?.simulation ?? null;
+    } catch (error) {
+      reportError('Could not preview re-scoring', error);
+      return null;
+    } finally {
+      setIsSimulating(false);
+    }
+  }, [currentProfile, customWeights, reportError]);
+
+  const explainScore = useCallback((leadSignals: SignalLike[], leadScore: number, business?: BusinessLike) => {
+    const result = scoreLead(
+      featuresFromSignals(leadSignals, business),
+      getScoringProfile(currentProfile, profiles),
+      customWeights
+    );
+    const { raw, weights } = result.scoring_breakdown;
+    const labels: Record<ScoringComponent, string> = {
+      ICP: 'ICP Score',
+      Pain: 'Pain Score',
+      Reachability: 'Reachability Score',
+      ComplianceRisk: 'Compliance Risk'
+    };
 
     return {
       totalScore: leadScore,
-      breakdown: {
-        ICP: weightedIcp,
-        Pain: weightedPain,
-        Reachability: weightedReachability,
-        ComplianceRisk: weightedRisk
-      },
+      breakdown: result.subscores,
+      modelVersion: result.model_version,
       explanations: [
-        ...explanations,
-        `ICP Score: ${icpScore} raw × ${customWeights.ICP}% weight = ${weightedIcp}`,
-        `Pain Score: ${painScore} raw × ${customWeights.Pain}% weight = ${weightedPain}`,
-        `Reachability Score: ${reachabilityScore} raw × ${customWeights.Reachability}% weight = ${weightedReachability}`,
-        `Compliance Risk: ${complianceRisk} raw × ${customWeights.ComplianceRisk}% weight = -${weightedRisk}`
+        ...result.confidence_reasons,
+        ...(Object.keys(labels) as ScoringComponent[]).map(component => {
+          const sign = component === 'ComplianceRisk' ? '-' : '';
+          return `${labels[component]}: ${raw[component]} raw × ${weights[component]}% weight = ${sign}${result.subscores[component]}`;
+        })
       ]
     };
-  }, [customWeights]);
+  }, [profiles, currentProfile, customWeights]);
 
   return {
     currentProfile,
     customWeights,
     isRescoring,
-    profiles: DEFAULT_PROFILES,
+    isSimulating,
+    isSaving,
+    profiles,
+    modelVersion: SCORING_MODEL_VERSION,
     getActiveProfile,
     getActiveWeights,
     updateProfile,
     updateWeights,
+    saveProfile,
+    deleteProfile,
     rescoreLeads,
+    simulateRescore,
     explainScore
   };
 }
\ No newline at end of file
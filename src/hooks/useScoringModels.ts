@@ -0,0 +1,111 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+import type { LearnedScoringModel, ModelMetrics } from '../../supabase/functions/lib/scoring-model';
+
+export interface StoredScoringModel {
+  id: string;
+  version: string;
+  status: 'candidate' | 'active' | 'retired';
+  model: LearnedScoringModel;
+  metrics: ModelMetrics;
+  trained_at: string;
+  promoted_at: string | null;
+}
+
+export function useScoringModels() {
+  const [models, setModels] = useState<StoredScoringModel[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isTraining, setIsTraining] = useState(false);
+  const { toast } = useToast();
+
+  const reportError = useCallback((title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('train-scoring-model', {
+        body: { operation: 'list' }
+      });
+
+      if (error) throw error;
+      const result = data as { models?: StoredScoringModel[]; can_edit?: boolean } | null;
+      setModels(result?.models ?? []);
+      setCanEdit(result?.can_edit ?? false);
+    } catch (error) {
+      console.error('Could not load scoring models:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Trains a candidate on every labelled lead; it scores nothing until promoted
+  const train = useCallback(async (): Promise<StoredScoringModel | null> => {
+    setIsTraining(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('train-scoring-model', {
+        body: { operation: 'train' }
+      });
+
+      if (error) throw error;
+      const model = (data as { model?: StoredScoringModel } | null)?.model ?? null;
+      if (model) {
+        toast({
+          title: "Model trained",
+          description: `${model.version}: AUC ${model.metrics.auc.toFixed(3)} on ${model.metrics.holdout_examples} held-out leads`
+        });
+      }
+      await load();
+      return model;
+    } catch (error) {
+      reportError('Could not train scoring model', error);
+      return null;
+    } finally {
+      setIsTraining(false);
+    }
+  }, [load, reportError, toast]);
+
+  // `id` null reverts scoring to the rule-based model
+  const promote = useCallback(async (id: string | null): Promise<boolean> => {
+    try {
+      const { error } = await supabase.functions.invoke('train-scoring-model', {
+        body: { operation: 'promote', id }
+      });
+
+      if (error) throw error;
+      toast({
+        title: id ? "Model promoted" : "Rule-based scoring restored",
+        description: "New scores and rescoring use it within a few minutes"
+      });
+      await load();
+      return true;
+    } catch (error) {
+      reportError('Could not promote scoring model', error);
+      return false;
+    }
+  }, [load, reportError, toast]);
+
+  return {
+    models,
+    activeModel: models.find(model => model.status === 'active') ?? null,
+    canEdit,
+    isLoading,
+    isTraining,
+    load,
+    train,
+    promote
+  };
+}
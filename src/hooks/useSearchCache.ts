@@ -50,8 +50,8 @@ export function useSearchCache() {
       // Simple query comparison - could be more sophisticated
       return (
         entry.query.vertical === query.vertical &&
-        entry.query.geo.city === query.geo.city &&
-        entry.query.geo.state === query.geo.state &&
+        JSON.stringify(entry.query.additional_verticals) === JSON.stringify(query.additional_verticals) &&
+        JSON.stringify(entry.query.geo) === JSON.stringify(query.geo) &&
         JSON.stringify(entry.query.constraints) === JSON.stringify(query.constraints) &&
         Date.now() - entry.timestamp < CACHE_DURATION
       );
@@ -65,8 +65,8 @@ export function useSearchCache() {
       // Remove any existing entry for the same query
       const filtered = prev.filter(entry => 
         !(entry.query.vertical === query.vertical &&
-          entry.query.geo.city === query.geo.city &&
-          entry.query.geo.state === query.geo.state)
+          JSON.stringify(entry.query.additional_verticals) === JSON.stringify(query.additional_verticals) &&
+          JSON.stringify(entry.query.geo) === JSON.stringify(query.geo))
       );
       
       // Add new entry
@@ -0,0 +1,80 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { SearchJob } from '@/types/lead';
+
+import type { RunDiff } from '../../supabase/functions/lib/search-diff';
+
+export type SavedSearchRun = Pick<SearchJob, 'id' | 'created_at' | 'status' | 'saved_search_id' | 'summary_stats'>;
+
+export interface RunComparison {
+  diff: RunDiff | null;
+  base?: SavedSearchRun;
+  compare?: SavedSearchRun;
+  // Why there is nothing to compare, when diff is null
+  reason?: string;
+}
+
+export function useSearchDiff() {
+  const [runs, setRuns] = useState<SavedSearchRun[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const reportError = useCallback((title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const loadRuns = useCallback(async (savedSearchId: string): Promise<SavedSearchRun[]> => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('search-diff', {
+        body: { operation: 'runs', saved_search_id: savedSearchId }
+      });
+
+      if (error) throw error;
+      const loaded = ((data as { runs?: SavedSearchRun[] } | null)?.runs) ?? [];
+      setRuns(loaded);
+      return loaded;
+    } catch (error) {
+      reportError('Could not load runs', error);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reportError]);
+
+  // Without a base run the diff is against the run before `compareJobId`
+  const compareRuns = useCallback(async (compareJobId: string, baseJobId?: string, quiet = false): Promise<RunComparison | null> => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('search-diff', {
+        body: { operation: 'diff', compare_job_id: compareJobId, base_job_id: baseJobId }
+      });
+
+      if (error) throw error;
+      const result = data as Partial<RunComparison> | null;
+      return { ...result, diff: result?.diff ?? null };
+    } catch (error) {
+      if (quiet) {
+        console.error('Could not compare runs:', error);
+      } else {
+        reportError('Could not compare runs', error);
+      }
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reportError]);
+
+  return {
+    runs,
+    isLoading,
+    loadRuns,
+    compareRuns
+  };
+}
@@ -1,4 +1,5 @@
 import { LeadQuery } from '@/types/lead';
+import { describeGeo } from '../../supabase/functions/lib/geocoding';
 
 export const generateSearchName = (dsl: LeadQuery, originalPrompt?: string): string => {
   if (originalPrompt) {
@@ -19,7 +20,9 @@ export const generateSearchName = (dsl: LeadQuery, originalPrompt?: string): str
       'hvac': 'HVAC Businesses',
       'roofing': 'Roofing Companies'
     };
-    parts.push(verticalNames[dsl.vertical] || dsl.vertical.replace('_', ' '));
+    const names = [dsl.vertical, ...(dsl.additional_verticals ?? [])]
+      .map(vertical => verticalNames[vertical] || vertical.replace(/_/g, ' '));
+    parts.push(names.join(' & '));
   } else {
     parts.push('Businesses');
   }
@@ -27,9 +30,9 @@ export const generateSearchName = (dsl: LeadQuery, originalPrompt?: string): str
   // Add location
   if (dsl.geo) {
     if (dsl.geo.radius_km && dsl.geo.radius_km > 0) {
-      parts.push(`near ${dsl.geo.city}, ${dsl.geo.state}`);
+      parts.push(`near ${describeGeo(dsl.geo)}`);
     } else {
-      parts.push(`in ${dsl.geo.city}, ${dsl.geo.state}`);
+      parts.push(`in ${describeGeo(dsl.geo)}`);
     }
   }
   
@@ -68,7 +71,7 @@ export const generateSearchTags = (dsl: LeadQuery): string[] => {
   
   // Add location tag
   if (dsl.geo) {
-    tags.push(`${dsl.geo.city}-${dsl.geo.state}`.toUpperCase());
+    tags.push(`${dsl.geo.city ?? dsl.geo.zip_codes?.[0] ?? dsl.geo.counties?.[0] ?? 'area'}-${dsl.geo.state}`.toUpperCase());
   }
   
   // Add constraint tags
@@ -87,7 +90,7 @@ export const generateSearchTags = (dsl: LeadQuery): string[] => {
 
 export const categorizeLeadType = (dsl: LeadQuery): string => {
   const vertical = dsl.vertical || 'generic';
-  const location = dsl.geo ? `${dsl.geo.city}-${dsl.geo.state}` : 'unknown';
+  const location = dsl.geo ? `${dsl.geo.city ?? dsl.geo.zip_codes?.[0] ?? dsl.geo.counties?.[0] ?? 'area'}-${dsl.geo.state}` : 'unknown';
   
   const constraints = [];
   if (dsl.constraints?.must) {
@@ -0,0 +1,124 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+import type { SuppressionKind } from '../../supabase/functions/lib/suppression';
+
+export interface SuppressionListEntry {
+  id: string;
+  kind: SuppressionKind;
+  value: string;
+  source: string;
+  note: string | null;
+  created_at: string;
+}
+
+export interface SuppressionImportResult {
+  added: number;
+  rows: number;
+  skipped: string[];
+  invalid: string[];
+}
+
+export function useSuppressionLists() {
+  const [entries, setEntries] = useState<SuppressionListEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [lastImport, setLastImport] = useState<SuppressionImportResult | null>(null);
+  const { toast } = useToast();
+
+  const reportError = useCallback((title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('suppression-lists', { body: { operation: 'list' } });
+
+      if (error) throw error;
+      setEntries((data as { entries?: SuppressionListEntry[] } | null)?.entries ?? []);
+    } catch (error) {
+      reportError('Could not load suppression list', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reportError]);
+
+  const add = useCallback(async (kind: SuppressionKind, value: string, note?: string): Promise<boolean> => {
+    try {
+      const { data, error } = await supabase.functions.invoke('suppression-lists', {
+        body: { operation: 'add', entries: [{ kind, value, ...(note ? { note } : {}) }] }
+      });
+
+      if (error) throw error;
+      const invalid = (data as { invalid?: string[] } | null)?.invalid ?? [];
+      if (invalid.length > 0) throw new Error(`Not a valid ${kind.replace('_', ' ')}: ${value}`);
+      await load();
+      return true;
+    } catch (error) {
+      reportError('Could not add suppression entry', error);
+      return false;
+    }
+  }, [load, reportError]);
+
+  // Imports a customer list; recognised columns are website, email, phone,
+  // company name and place id
+  const importCsv = useCallback(async (csv: string): Promise<boolean> => {
+    setIsImporting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('suppression-lists', {
+        body: { operation: 'import', csv }
+      });
+
+      if (error) throw error;
+      const result = data as Partial<SuppressionImportResult> | null;
+      const imported = {
+        added: result?.added ?? 0,
+        rows: result?.rows ?? 0,
+        skipped: result?.skipped ?? [],
+        invalid: result?.invalid ?? []
+      };
+      setLastImport(imported);
+      toast({ title: "Customer list imported", description: `${imported.added} new entries from ${imported.rows} rows` });
+      await load();
+      return true;
+    } catch (error) {
+      reportError('Could not import CSV', error);
+      return false;
+    } finally {
+      setIsImporting(false);
+    }
+  }, [load, reportError, toast]);
+
+  const remove = useCallback(async (ids: string[]): Promise<boolean> => {
+    try {
+      const { error } = await supabase.functions.invoke('suppression-lists', {
+        body: { operation: 'delete', ids }
+      });
+
+      if (error) throw error;
+      await load();
+      return true;
+    } catch (error) {
+      reportError('Could not delete suppression entry', error);
+      return false;
+    }
+  }, [load, reportError]);
+
+  return {
+    entries,
+    lastImport,
+    isLoading,
+    isImporting,
+    load,
+    add,
+    importCsv,
+    remove
+  };
+}
@@ -0,0 +1,134 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+import type { VendorFingerprint, VendorMatch } from '../../supabase/functions/lib/vendor-fingerprints';
+
+export interface StoredFingerprint {
+  fingerprint: VendorFingerprint;
+  enabled: boolean;
+  built_in: boolean;
+  custom: boolean;
+  updated_at?: string;
+}
+
+export interface HtmlSnapshot {
+  id: string;
+  business_id: string;
+  uri: string;
+  created_at: string;
+  businesses?: { name: string } | null;
+}
+
+// What to test against: one of the user's stored snapshots or pasted HTML
+export type FingerprintTestSource =
+  | { artifact_id: string }
+  | { html: string; url?: string };
+
+export interface FingerprintTestResult {
+  matches: VendorMatch[];
+  problems: string[];
+  url?: string;
+}
+
+export function useVendorFingerprints() {
+  const [fingerprints, setFingerprints] = useState<StoredFingerprint[]>([]);
+  const [snapshots, setSnapshots] = useState<HtmlSnapshot[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [testResult, setTestResult] = useState<FingerprintTestResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const { toast } = useToast();
+
+  const reportError = useCallback((title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [list, stored] = await Promise.all([
+        supabase.functions.invoke('vendor-fingerprints', { body: { operation: 'list' } }),
+        supabase.functions.invoke('vendor-fingerprints', { body: { operation: 'snapshots' } })
+      ]);
+
+      if (list.error) throw list.error;
+      if (stored.error) throw stored.error;
+      const listed = list.data as { fingerprints?: StoredFingerprint[]; can_edit?: boolean } | null;
+      setFingerprints(listed?.fingerprints ?? []);
+      setCanEdit(listed?.can_edit ?? false);
+      setSnapshots((stored.data as { snapshots?: HtmlSnapshot[] } | null)?.snapshots ?? []);
+    } catch (error) {
+      reportError('Could not load fingerprints', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reportError]);
+
+  // Tests one draft fingerprint, or the whole live database when none is given
+  const test = useCallback(async (fingerprint: VendorFingerprint | null, source: FingerprintTestSource) => {
+    setIsTesting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('vendor-fingerprints', {
+        body: { operation: 'test', ...(fingerprint ? { fingerprint } : {}), ...source }
+      });
+
+      if (error) throw error;
+      const result = data as Partial<FingerprintTestResult> | null;
+      setTestResult({ matches: result?.matches ?? [], problems: result?.problems ?? [], url: result?.url });
+    } catch (error) {
+      reportError('Fingerprint test failed', error);
+    } finally {
+      setIsTesting(false);
+    }
+  }, [reportError]);
+
+  const save = useCallback(async (fingerprint: VendorFingerprint, enabled = true): Promise<boolean> => {
+    try {
+      const { error } = await supabase.functions.invoke('vendor-fingerprints', {
+        body: { operation: 'save', fingerprint, enabled }
+      });
+
+      if (error) throw error;
+      toast({ title: "Fingerprint saved", description: `${fingerprint.name} is used by the next website analysis` });
+      await load();
+      return true;
+    } catch (error) {
+      reportError('Could not save fingerprint', error);
+      return false;
+    }
+  }, [load, reportError, toast]);
+
+  const remove = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error } = await supabase.functions.invoke('vendor-fingerprints', {
+        body: { operation: 'delete', id }
+      });
+
+      if (error) throw error;
+      await load();
+      return true;
+    } catch (error) {
+      reportError('Could not delete fingerprint', error);
+      return false;
+    }
+  }, [load, reportError]);
+
+  return {
+    fingerprints,
+    snapshots,
+    canEdit,
+    testResult,
+    isLoading,
+    isTesting,
+    load,
+    test,
+    save,
+    remove
+  };
+}
@@ -0,0 +1,114 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+import { BUILT_IN_VERTICALS, type VerticalDefinition } from '../../supabase/functions/lib/verticals';
+
+export interface StoredVertical {
+  vertical: VerticalDefinition;
+  enabled: boolean;
+  built_in: boolean;
+  custom: boolean;
+  updated_at?: string;
+}
+
+// The taxonomy is read by the parser, the query editor and the filters at
+// once, so it is fetched once per page load and shared
+let shared: Promise<{ verticals: StoredVertical[]; can_edit: boolean }> | null = null;
+
+function fetchVerticals() {
+  shared ??= supabase.functions
+    .invoke('verticals', { body: { operation: 'list' } })
+    .then(({ data, error }) => {
+      if (error) throw error;
+      const result = data as { verticals?: StoredVertical[]; can_edit?: boolean } | null;
+      return { verticals: result?.verticals ?? [], can_edit: result?.can_edit ?? false };
+    })
+    .catch((error) => {
+      shared = null;
+      throw error;
+    });
+  return shared;
+}
+
+// Enabled verticals, falling back to the built-ins until the list loads
+function enabledVerticals(stored: StoredVertical[]): VerticalDefinition[] {
+  const enabled = stored.filter(entry => entry.enabled).map(entry => entry.vertical);
+  return enabled.length > 0 ? enabled : BUILT_IN_VERTICALS;
+}
+
+export function useVerticals() {
+  const [stored, setStored] = useState<StoredVertical[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const reportError = useCallback((title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const load = useCallback(async (refresh = false) => {
+    if (refresh) shared = null;
+    setIsLoading(true);
+    try {
+      const result = await fetchVerticals();
+      setStored(result.verticals);
+      setCanEdit(result.can_edit);
+    } catch (error) {
+      // Searches still work on the built-ins
+      console.error('Could not load verticals:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const save = useCallback(async (vertical: VerticalDefinition, enabled = true): Promise<boolean> => {
+    try {
+      const { error } = await supabase.functions.invoke('verticals', {
+        body: { operation: 'save', vertical, enabled }
+      });
+
+      if (error) throw error;
+      toast({ title: "Vertical saved", description: `${vertical.label} applies to the next search` });
+      await load(true);
+      return true;
+    } catch (error) {
+      reportError('Could not save vertical', error);
+      return false;
+    }
+  }, [load, reportError, toast]);
+
+  const remove = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error } = await supabase.functions.invoke('verticals', {
+        body: { operation: 'delete', id }
+      });
+
+      if (error) throw error;
+      await load(true);
+      return true;
+    } catch (error) {
+      reportError('Could not delete vertical', error);
+      return false;
+    }
+  }, [load, reportError]);
+
+  return {
+    verticals: enabledVerticals(stored),
+    stored,
+    canEdit,
+    isLoading,
+    load,
+    save,
+    remove
+  };
+}
@@ -83,41 +83,127 @@ export type Database = {
         Row: {
           address_json: Json | null
           created_at: string
+          domain: string | null
+          duplicate_of: string | null
+          field_provenance: Json
           franchise_bool: boolean | null
+          google_place_id: string | null
           id: string
+          last_audited_at: string | null
           lat: number | null
           lng: number | null
+          merged_at: string | null
+          metadata: Json | null
           name: string
           phone: string | null
+          phone_normalized: string | null
           updated_at: string
           vertical: string | null
           website: string | null
+          website_reachable: boolean | null
         }
         Insert: {
           address_json?: Json | null
           created_at?: string
+          domain?: string | null
+          duplicate_of?: string | null
+          field_provenance?: Json
           franchise_bool?: boolean | null
+          google_place_id?: string | null
           id?: string
+          last_audited_at?: string | null
           lat?: number | null
           lng?: number | null
+          merged_at?: string | null
+          metadata?: Json | null
           name: string
           phone?: string | null
+          phone_normalized?: string | null
           updated_at?: string
           vertical?: string | null
           website?: string | null
+          website_reachable?: boolean | null
         }
         Update: {
           address_json?: Json | null
           created_at?: string
+          domain?: string | null
+          duplicate_of?: string | null
+          field_provenance?: Json
           franchise_bool?: boolean | null
+          google_place_id?: string | null
           id?: string
+          last_audited_at?: string | null
           lat?: number | null
           lng?: number | null
+          merged_at?: string | null
+          metadata?: Json | null
           name?: string
           phone?: string | null
+          phone_normalized?: string | null
           updated_at?: string
           vertical?: string | null
           website?: string | null
+          website_reachable?: boolean | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "businesses_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      data_source_health: {
+        Row: {
+          capabilities: string[]
+          consecutive_failures: number
+          failures: number
+          is_fixture: boolean
+          last_error: string | null
+          last_error_at: string | null
+          last_latency_ms: number | null
+          last_success_at: string | null
+          rate_limit: Json | null
+          requests: number
+          source: string
+          status: string
+          throttled_ms: number
+          updated_at: string
+        }
+        Insert: {
+          capabilities?: string[]
+          consecutive_failures?: number
+          failures?: number
+          is_fixture?: boolean
+          last_error?: string | null
+          last_error_at?: string | null
+          last_latency_ms?: number | null
+          last_success_at?: string | null
+          rate_limit?: Json | null
+          requests?: number
+          source: string
+          status: string
+          throttled_ms?: number
+          updated_at?: string
+        }
+        Update: {
+          capabilities?: string[]
+          consecutive_failures?: number
+          failures?: number
+          is_fixture?: boolean
+          last_error?: string | null
+          last_error_at?: string | null
+          last_latency_ms?: number | null
+          last_success_at?: string | null
+          rate_limit?: Json | null
+          requests?: number
+          source?: string
+          status?: string
+          throttled_ms?: number
+          updated_at?: string
         }
         Relationships: []
       }
@@ -156,6 +242,7 @@ export type Database = {
           business_id: string
           created_at: string
           id: string
+          model_version: string | null
           rank: number | null
           score: number | null
           search_job_id: string
@@ -165,6 +252,7 @@ export type Database = {
           business_id: string
           created_at?: string
           id?: string
+          model_version?: string | null
           rank?: number | null
           score?: number | null
           search_job_id: string
@@ -174,6 +262,7 @@ export type Database = {
           business_id?: string
           created_at?: string
           id?: string
+          model_version?: string | null
           rank?: number | null
           score?: number | null
           search_job_id?: string
@@ -347,6 +436,7 @@ export type Database = {
           id: string
           lead_type: string | null
           original_prompt: string | null
+          progress_json: Json | null
           search_tags: Json | null
           status: string
           summary_stats: Json | null
@@ -361,6 +451,7 @@ export type Database = {
           id?: string
           lead_type?: string | null
           original_prompt?: string | null
+          progress_json?: Json | null
           search_tags?: Json | null
           status?: string
           summary_stats?: Json | null
@@ -375,6 +466,7 @@ export type Database = {
           id?: string
           lead_type?: string | null
           original_prompt?: string | null
+          progress_json?: Json | null
           search_tags?: Json | null
           status?: string
           summary_stats?: Json | null
@@ -382,6 +474,71 @@ export type Database = {
         }
         Relationships: []
       }
+      search_job_tasks: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          dedupe_key: string
+          id: string
+          last_error: string | null
+          leased_by: string | null
+          leased_until: string | null
+          max_attempts: number
+          payload: Json
+          result: Json | null
+          run_after: string
+          search_job_id: string
+          status: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          dedupe_key: string
+          id?: string
+          last_error?: string | null
+          leased_by?: string | null
+          leased_until?: string | null
+          max_attempts?: number
+          payload?: Json
+          result?: Json | null
+          run_after?: string
+          search_job_id: string
+          status?: string
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          dedupe_key?: string
+          id?: string
+          last_error?: string | null
+          leased_by?: string | null
+          leased_until?: string | null
+          max_attempts?: number
+          payload?: Json
+          result?: Json | null
+          run_after?: string
+          search_job_id?: string
+          status?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "search_job_tasks_search_job_id_fkey"
+            columns: ["search_job_id"]
+            isOneToOne: false
+            referencedRelation: "search_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       signal_overrides: {
         Row: {
           business_id: string
@@ -518,12 +675,90 @@ export type Database = {
         }
         Relationships: []
       }
+      vendor_fingerprints: {
+        Row: {
+          category: string
+          created_at: string
+          created_by: string | null
+          definition: Json
+          enabled: boolean
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          created_by?: string | null
+          definition: Json
+          enabled?: boolean
+          id: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          definition?: Json
+          enabled?: boolean
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      business_duplicate_candidates: {
+        Row: {
+          duplicate_id: string | null
+          reason: string | null
+          survivor_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      claim_website_reaudits: {
+        Args: { p_limit?: number; p_min_age_hours?: number }
+        Returns: {
+          detected_features: Json
+          id: string
+          website: string
+          website_reachable: boolean
+        }[]
+      }
+      complete_search_job_task: {
+        Args: { p_result?: Json; p_task_id: string; p_worker: string }
+        Returns: boolean
+      }
+      fail_search_job_task: {
+        Args: {
+          p_base_delay_seconds?: number
+          p_error: string
+          p_task_id: string
+          p_worker: string
+        }
+        Returns: string
+      }
+      lease_search_job_tasks: {
+        Args: {
+          p_lease_seconds?: number
+          p_limit?: number
+          p_search_job_id?: string
+          p_worker: string
+        }
+        Returns: Database["public"]["Tables"]["search_job_tasks"]["Row"][]
+      }
+      merge_businesses: {
+        Args: { p_duplicates: string[]; p_survivor: string }
+        Returns: Json
+      }
+      requeue_dead_search_job_tasks: {
+        Args: { p_search_job_id: string }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -291,9 +291,9 @@ export class APIClient {
         // Mock real-time updates - return the channel object to allow chaining
         return channelObj;
       },
-      subscribe: () => {
-        // Mock subscription
-        return Promise.resolve();
+      subscribe: (callback?: (status: string) => void) => {
+        // Mock subscription; never confirms, so callers fall back to polling
+        return channelObj;
       },
     };
     return channelObj;
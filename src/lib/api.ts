@@ -1,4 +1,9 @@
 // API client for server endpoints
+import type { Lead, LeadQuery, SearchEstimate, SearchJob, SearchProgress, StatusLogEntry } from '@/types/lead';
+import { buildProgress } from '../../supabase/functions/lib/search-progress';
+import { parseLeadPrompt, type DslSpan } from '../../supabase/functions/lib/dsl-parser';
+import { estimateSearch } from '../../supabase/functions/lib/search-estimate';
+
 const USE_MOCK_SEARCH = import.meta.env.VITE_USE_MOCK_SEARCH !== 'false'; // Default to true
 const API_BASE_URL = USE_MOCK_SEARCH ? '' : (import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001');
 
@@ -9,9 +14,41 @@ export interface SearchResult {
 }
 
 export interface ParsePromptResponse {
-  dsl: any;
+  dsl: LeadQuery;
   warnings: string[];
   confidence: number;
+  // Which words of the prompt produced which part of the DSL
+  spans?: DslSpan[];
+  // Returned for dry runs
+  estimate?: SearchEstimate;
+}
+
+export interface SearchStreamHandlers {
+  onProgress?: (update: {
+    status: SearchJob['status'];
+    progress: SearchProgress | null;
+    error_text?: string | null;
+  }) => void;
+  onLog?: (log: StatusLogEntry) => void;
+  onLeads?: (leads: Lead[]) => void;
+  onDone?: (status: 'completed' | 'failed') => void;
+  // The stream could not be opened or dropped before the job finished
+  onError?: (error: Error) => void;
+}
+
+const STREAM_OPEN_TIMEOUT_MS = 10000;
+
+// Simulated stage counts for mock mode: [fetch, enrich, score, validate] completed
+const MOCK_STREAM_STEPS: Array<[number, number, number, number]> = [
+  [0, 0, 0, 0],
+  [1, 0, 0, 0],
+  [1, 8, 4, 0],
+  [1, 20, 14, 0],
+  [1, 20, 20, 1],
+];
+
+function mockTally(done: number, total: number) {
+  return { pending: total - done, leased: 0, completed: done, dead: 0 };
 }
 
 export const api = {
@@ -22,33 +59,21 @@ export const api = {
   },
 
   // Parse prompt
-  async parsePrompt(prompt: string): Promise<ParsePromptResponse> {
+  // A dry run also estimates what running the parsed search would cost
+  async parsePrompt(prompt: string, options?: { dry_run?: boolean }): Promise<ParsePromptResponse> {
     if (USE_MOCK_SEARCH) {
-      // Mock response for development
+      // Mock mode parses offline with the same grammar parser as the server
       await new Promise(resolve => setTimeout(resolve, 500)); // Simulate network delay
+      const parsed = parseLeadPrompt(prompt, { defaultLocation: { city: 'New York', state: 'NY' } });
+      if (!parsed.dsl) {
+        throw new Error(`Parse prompt failed: ${parsed.errors.join('; ')}`);
+      }
       return {
-        dsl: {
-          vertical: "generic",
-          version: 1,
-          geo: {
-            city: "New York",
-            state: "NY",
-            radius_km: 50
-          },
-          constraints: {
-            must: [
-              { field: "industry", value: prompt.toLowerCase().includes('restaurant') ? 'restaurants' : 'business' }
-            ]
-          },
-          result_size: { target: 100 },
-          sort_by: "relevance",
-          lead_profile: "standard",
-          output: { format: "json" },
-          notify: { webhook_url: null },
-          compliance_flags: ["gdpr"]
-        },
-        warnings: [],
-        confidence: 0.95
+        dsl: parsed.dsl,
+        warnings: parsed.warnings,
+        confidence: parsed.confidence,
+        spans: parsed.spans,
+        ...(options?.dry_run && { estimate: estimateSearch(parsed.dsl) })
       };
     }
 
@@ -57,7 +82,7 @@ export const api = {
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ prompt }),
+      body: JSON.stringify({ prompt, options }),
     });
     
     if (!response.ok) {
@@ -74,6 +99,7 @@ export const api = {
     custom_name?: string;
     search_tags?: string[];
     lead_type?: string;
+    saved_search_id?: string;
   }) {
     if (USE_MOCK_SEARCH) {
       // Mock response for development
@@ -163,4 +189,67 @@ export const api = {
     
     return response.json();
   },
-};
\ No newline at end of file
+
+  // Subscribe to a job's Server-Sent Events stream. Returns an unsubscribe function.
+  streamSearchProgress(searchJobId: string, handlers: SearchStreamHandlers): () => void {
+    if (USE_MOCK_SEARCH) {
+      const timers = MOCK_STREAM_STEPS.map(([fetch, enrich, score, validate], step) =>
+        setTimeout(() => {
+          const progress = buildProgress({
+            fetch: mockTally(fetch, 1),
+            enrich: mockTally(enrich, 20),
+            score: mockTally(score, 20),
+            validate: mockTally(validate, validate),
+          });
+          const status = progress.stage === 'completed' ? 'completed' : 'running';
+          handlers.onProgress?.({ status, progress });
+          if (status === 'completed') handlers.onDone?.('completed');
+        }, step * 300)
+      );
+      return () => timers.forEach(clearTimeout);
+    }
+
+    const source = new EventSource(`${API_BASE_URL}/api/search-jobs/${searchJobId}/events`);
+    let finished = false;
+    let connected = false;
+    const parse = (event: Event) => JSON.parse((event as MessageEvent).data);
+
+    // The server sends a progress event straight away; silence means it is unreachable
+    const openTimer = setTimeout(() => {
+      if (connected || finished) return;
+      finished = true;
+      source.close();
+      handlers.onError?.(new Error('Search progress stream did not connect'));
+    }, STREAM_OPEN_TIMEOUT_MS);
+
+    source.addEventListener('progress', (event) => {
+      connected = true;
+      handlers.onProgress?.(parse(event));
+    });
+    source.addEventListener('log', (event) => handlers.onLog?.(parse(event)));
+    source.addEventListener('leads', (event) => handlers.onLeads?.(parse(event).leads));
+    source.addEventListener('done', (event) => {
+      finished = true;
+      clearTimeout(openTimer);
+      source.close();
+      handlers.onDone?.(parse(event).status);
+    });
+    source.addEventListener('stream_error', (event) => {
+      console.error('Search stream error:', parse(event).error);
+    });
+    source.onerror = () => {
+      // EventSource retries transient drops on its own; only give up once it stops
+      if (!finished && source.readyState === EventSource.CLOSED) {
+        finished = true;
+        clearTimeout(openTimer);
+        handlers.onError?.(new Error('Search progress stream closed'));
+      }
+    };
+
+    return () => {
+      finished = true;
+      clearTimeout(openTimer);
+      source.close();
+    };
+  },
+};
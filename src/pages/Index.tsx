@@ -28,7 +28,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { SystemHealthIndicator } from '@/components/SystemHealthIndicator';
-import { SearchPanel } from '@/components/dashboard/SearchPanel';
+import { SearchPanel, type SearchRunOptions } from '@/components/dashboard/SearchPanel';
 import { VirtualizedLeadsTable } from '@/components/dashboard/VirtualizedLeadsTable';
 import { LeadDetailPanel } from '@/components/dashboard/LeadDetailPanel';
 import { BoardView } from '@/components/dashboard/BoardView';
@@ -38,15 +38,23 @@ import { SearchResultsBanner } from '@/components/dashboard/SearchResultsBanner'
 import { AdvancedFilters } from '@/components/dashboard/AdvancedFilters';
 import { BulkOperations } from '@/components/dashboard/BulkOperations';
 import { LeadScoringProfiles } from '@/components/dashboard/LeadScoringProfiles';
+import { DuplicateBusinessesPanel } from '@/components/dashboard/DuplicateBusinessesPanel';
+import { FingerprintTester } from '@/components/dashboard/FingerprintTester';
+import { SuppressionListsPanel } from '@/components/dashboard/SuppressionListsPanel';
+import { VerticalTaxonomyPanel } from '@/components/dashboard/VerticalTaxonomyPanel';
+import { ScoringModelsPanel } from '@/components/dashboard/ScoringModelsPanel';
 import { StickyHeader } from '@/components/ui/sticky-header';
 import { EmptyState, ErrorState, LoadingState, TableSkeleton } from '@/components/ui/standard-states';
 import { JobStatusIndicator, CompactJobStatus } from '@/components/ui/job-status-indicator';
-import { Lead, LeadQuery } from '@/types/lead';
+import { Lead, LeadQuery, ParseResult, SearchJob } from '@/types/lead';
 import { useLeadSearch } from '@/hooks/useLeadSearch';
 import { useSearchState } from '@/hooks/useSearchState';
+import { useSearchDiff } from '@/hooks/useSearchDiff';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { describeProgress } from '../../supabase/functions/lib/search-progress';
+import { formatContributions } from '../../supabase/functions/lib/scoring-service';
 
 const Index = () => {
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
@@ -58,6 +66,8 @@ const Index = () => {
   const [selectedLeadIds, setSelectedLeadIds] = useState<string[]>([]);
   const [currentScoringProfile, setCurrentScoringProfile] = useState('generic');
   const [showScoringSettings, setShowScoringSettings] = useState(false);
+  // Businesses this saved search run found that its previous run did not
+  const [newBusinessIds, setNewBusinessIds] = useState<Set<string> | null>(null);
   
   const { user, loading, signOut, isAuthenticated } = useAuth();
   const navigate = useNavigate();
@@ -66,7 +76,10 @@ const Index = () => {
     isSearching,
     searchResults,
     currentSearchJob,
+    searchProgress,
+    statusLogs,
     parsePrompt,
+    previewSearch,
     searchLeads,
     updateLeadStatus,
     addNote,
@@ -74,12 +87,40 @@ const Index = () => {
   } = useLeadSearch();
 
   const { searchState, updateState, resetState } = useSearchState();
+  const { compareRuns } = useSearchDiff();
 
-  // Realtime progress for current search job
+  // Once a saved search run completes, diff it against the run before it
+  const savedSearchJobId = currentSearchJob?.saved_search_id && currentSearchJob.status === 'completed'
+    ? currentSearchJob.id
+    : null;
   useEffect(() => {
-    if (!currentSearchJob?.id) return;
+    setNewBusinessIds(null);
+    if (!savedSearchJobId) return;
+    let cancelled = false;
+    compareRuns(savedSearchJobId, undefined, true).then(result => {
+      if (!cancelled && result?.diff) {
+        setNewBusinessIds(new Set(result.diff.added.map(lead => lead.business_id)));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [savedSearchJobId, compareRuns]);
 
-    const jobId = currentSearchJob.id;
+  // Mirror streamed progress from useLeadSearch into the status indicator. Jobs
+  // from the task queue carry a per-stage snapshot; the enriched pipeline only
+  // writes status_logs, so its latest task name is mapped to a rough percentage.
+  useEffect(() => {
+    if (searchProgress) {
+      const state = searchProgress.stage === 'completed' || searchProgress.stage === 'failed' || searchProgress.stage === 'queued'
+        ? searchProgress.stage
+        : 'running';
+      updateState(state, describeProgress(searchProgress), searchProgress.percent);
+      return;
+    }
+
+    const latest = statusLogs[statusLogs.length - 1];
+    if (!latest) return;
 
     const mapTaskToProgress = (task: string) => {
       switch (task) {
@@ -88,30 +129,13 @@ const Index = () => {
         case 'verifying': return { state: 'running', progress: 60, message: 'Verifying features and contacts...' } as const;
         case 'synthesizing': return { state: 'running', progress: 85, message: 'Synthesizing results...' } as const;
         case 'completed': return { state: 'completed', progress: 100, message: 'Search completed' } as const;
-        default: return { state: 'running', progress: 50, message: 'Processing...' } as const;
+        default: return { state: 'running', progress: 50, message: latest.message || 'Processing...' } as const;
       }
     };
 
-    const channel = supabase.channel(`enrichment:${jobId}`)
-      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'status_logs', filter: `search_job_id=eq.${jobId}` }, (payload: any) => {
-        const task = payload?.new?.task as string;
-        const mapped = mapTaskToProgress(task);
-        updateState(mapped.state as any, mapped.message, mapped.progress);
-      })
-      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'search_jobs', filter: `id=eq.${jobId}` }, (payload: any) => {
-        const status = payload?.new?.status as 'queued' | 'running' | 'completed' | 'failed';
-        if (status === 'completed') {
-          updateState('completed', 'Search completed', 100);
-        } else if (status === 'failed') {
-          updateState('failed', 'Search failed');
-        }
-      })
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [currentSearchJob?.id]);
+    const mapped = mapTaskToProgress(latest.task);
+    updateState(mapped.state, mapped.message, mapped.progress);
+  }, [searchProgress, statusLogs, updateState]);
 
   useEffect(() => {
     if (!loading && !isAuthenticated) {
@@ -144,12 +168,27 @@ const Index = () => {
     return null;
   }
 
-  const handleSearch = async (prompt: string, options?: { mode?: 'standard' | 'enriched_only'; limit?: number; enrichment_flags?: { gpt5?: boolean; render?: boolean; verify_contacts?: boolean } }) => {
+  // Dry run for the search panel: the resolved query and its estimated cost
+  const handlePreviewSearch = async (prompt: string, options?: SearchRunOptions): Promise<ParseResult | null> => {
+    try {
+      return await previewSearch(prompt, options);
+    } catch (error) {
+      toast({
+        title: "Could not plan search",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+      return null;
+    }
+  };
+
+  // `dsl` is set when the search panel already resolved the prompt in its preview
+  const handleSearch = async (prompt: string, options?: SearchRunOptions, dsl?: LeadQuery) => {
     try {
       updateState('parsing', 'Understanding your request...', 10);
       
-      // Parse the prompt first
-      const parseResult = await parsePrompt(prompt);
+      // Parse the prompt first, unless the confirmed preview already did
+      const parseResult: ParseResult = dsl ? { dsl, warnings: [] } : await parsePrompt(prompt);
       
       if (parseResult.warnings && parseResult.warnings.length > 0) {
         toast({
@@ -244,8 +283,13 @@ const Index = () => {
     }
   };
 
-  const handleRunSavedSearch = async (dsl: LeadQuery) => {
-    await searchLeads(dsl);
+  const handleRerunSearch = async (updatedJob: SearchJob) => {
+    await searchLeads(updatedJob.dsl_json, updatedJob.original_prompt);
+    setActiveView('table');
+  };
+
+  const handleRunSavedSearch = async (dsl: LeadQuery, savedSearchId?: string) => {
+    await searchLeads(dsl, undefined, savedSearchId ? { saved_search_id: savedSearchId } : undefined);
     setActiveView('table');
   };
 
@@ -268,7 +312,7 @@ const Index = () => {
     const leadsToExport = filteredLeads.filter(lead => leadIds.includes(lead.business.id));
     
     const csvContent = [
-      ['Rank', 'Name', 'City', 'State', 'Phone', 'Website', 'Owner', 'Score', 'Status'].join(','),
+      ['Rank', 'Name', 'City', 'State', 'Phone', 'Website', 'Owner', 'Score', 'Model Version', 'Status', 'Score Explanation'].join(','),
       ...leadsToExport.map(lead => [
         lead.rank,
         `"${lead.name}"`,
@@ -278,7 +322,9 @@ const Index = () => {
         lead.website || '',
         `"${lead.owner || ''}"`,
         lead.score,
-        lead.status
+        lead.model_version || '',
+        lead.status,
+        `"${formatContributions(lead.score_contributions ?? [])}"`
       ].join(','))
     ].join('\n');
 
@@ -307,7 +353,7 @@ const Index = () => {
     
     if (format === 'csv') {
       const csvContent = [
-        ['Rank', 'Name', 'City', 'State', 'Phone', 'Website', 'Owner', 'Score', 'Status', 'Categories', 'Review Count', 'Rating', 'Address'].join(','),
+        ['Rank', 'Name', 'City', 'State', 'Phone', 'Website', 'Owner', 'Score', 'Model Version', 'Status', 'Categories', 'Review Count', 'Rating', 'Address', 'Score Explanation'].join(','),
         ...leadsToExport.map(lead => [
           lead.rank,
           `"${lead.name}"`,
@@ -317,11 +363,13 @@ const Index = () => {
           lead.website || '',
           `"${lead.owner || ''}"`,
           lead.score,
+          lead.model_version || '',
           lead.status,
           `"${lead.business.categories?.join('; ') || ''}"`,
           lead.review_count || 0,
           lead.rating || '',
-          `"${lead.business.address_json?.street || ''}, ${lead.city}, ${lead.state}"`
+          `"${lead.business.address_json?.street || ''}, ${lead.city}, ${lead.state}"`,
+          `"${formatContributions(lead.score_contributions ?? [])}"`
         ].join(','))
       ].join('\n');
 
@@ -347,6 +395,8 @@ const Index = () => {
         website: lead.website,
         owner: lead.owner,
         score: lead.score,
+        modelVersion: lead.model_version,
+        scoreContributions: lead.score_contributions ?? [],
         status: lead.status,
         categories: lead.business.categories,
         reviewCount: lead.review_count,
@@ -414,6 +464,7 @@ const Index = () => {
                 <th>Full Address</th>
                 <th>Tags</th>
                 <th>Notes Count</th>
+                <th>Score Explanation</th>
               </tr>
             </thead>
             <tbody>
@@ -434,6 +485,7 @@ const Index = () => {
                   <td>${lead.business.address_json?.street || ''}, ${lead.city}, ${lead.state}</td>
                   <td>${lead.tags.join(', ')}</td>
                   <td>${lead.notes?.length || 0}</td>
+                  <td>${formatContributions(lead.score_contributions ?? [])}</td>
                 </tr>
               `).join('')}
             </tbody>
@@ -461,7 +513,7 @@ const Index = () => {
 
   return (
     <div className="h-screen flex bg-background">
-      {showSearchPanel && <SearchPanel onSearch={handleSearch} isSearching={isSearching} />}
+      {showSearchPanel && <SearchPanel onSearch={handleSearch} onPreview={handlePreviewSearch} isSearching={isSearching} />}
       
       <ResizablePanelGroup direction="horizontal" className="h-full">
         <ResizablePanel defaultSize={isLeadDetailOpen ? 70 : 100} minSize={30}>
@@ -572,6 +624,11 @@ const Index = () => {
                     onRunSearch={handleRunSavedSearch}
                   />
                   <SavedSearchesTable onRunSearch={handleRunSavedSearch} />
+                  <DuplicateBusinessesPanel />
+                  <FingerprintTester />
+                  <SuppressionListsPanel />
+                  <VerticalTaxonomyPanel />
+                  <ScoringModelsPanel />
                   {showScoringSettings && currentSearchJob && (
                     <LeadScoringProfiles
                       searchJobId={currentSearchJob.id}
@@ -591,6 +648,8 @@ const Index = () => {
                       progress={searchState.progress}
                       message={searchState.message}
                       elapsedTime={searchState.elapsedTime}
+                      stages={searchProgress?.stages}
+                      logs={statusLogs}
                     />
                   )}
                   
@@ -625,7 +684,7 @@ const Index = () => {
                         }
                       }
                     }}
-                    onEditSearch={() => setShowSearchPanel(true)}
+                    onEditSearch={(updatedJob) => handleRerunSearch(updatedJob)}
                     onRetry={() => currentSearchJob && handleSearch(currentSearchJob.original_prompt || '')}
                   />
 
@@ -634,6 +693,7 @@ const Index = () => {
                     onFilterChange={setFilteredLeads}
                     isVisible={showAdvancedFilters}
                     onToggle={() => setShowAdvancedFilters(!showAdvancedFilters)}
+                    newBusinessIds={newBusinessIds}
                   />
                   
                   <BulkOperations
@@ -646,7 +706,7 @@ const Index = () => {
                   />
                   
                   {activeView === 'table' ? (
-                    isSearching ? (
+                    isSearching && filteredLeads.length === 0 ? (
                       <TableSkeleton rows={10} />
                     ) : filteredLeads.length === 0 ? (
                       <EmptyState
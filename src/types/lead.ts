@@ -1,39 +1,14 @@
 // Core types for the Lead Finder application
+import type { ComponentScores, ScoreContribution, ScoringBreakdown } from '../../supabase/functions/lib/scoring-service';
+import type { SearchProgress } from '../../supabase/functions/lib/search-progress';
+import type { Constraint, LeadQuery } from '../../supabase/functions/lib/lead-query';
+import type { DslSpan } from '../../supabase/functions/lib/dsl-parser';
+import type { TileCoverage } from '../../supabase/functions/lib/search-tiles';
+import type { SuppressionReason } from '../../supabase/functions/lib/suppression';
+import type { ConstraintResults } from '../../supabase/functions/lib/constraint-evaluator';
+import type { SearchEstimate } from '../../supabase/functions/lib/search-estimate';
 
-export interface LeadQuery {
-  version: number;
-  vertical: 'dentist' | 'law_firm' | 'contractor' | 'hvac' | 'roofing' | 'generic';
-  geo: {
-    city: string;
-    state: string;
-    radius_km?: number;
-  };
-  constraints: {
-    must: Constraint[];
-    optional?: Constraint[];
-  };
-  exclusions?: string[];
-  result_size: {
-    target: number;
-  };
-  sort_by: 'score_desc' | 'score_asc' | 'name_asc';
-  lead_profile: string;
-  output: {
-    contract: 'csv' | 'json';
-  };
-  notify: {
-    on_complete: boolean;
-  };
-  compliance_flags: string[];
-}
-
-export interface Constraint {
-  no_website?: boolean;
-  has_chatbot?: boolean;
-  has_online_booking?: boolean;
-  owner_identified?: boolean;
-  franchise?: boolean;
-}
+export type { SearchProgress, Constraint, LeadQuery, DslSpan, ConstraintResults, SearchEstimate, ScoreContribution };
 
 export interface Business {
   id: string;
@@ -89,12 +64,10 @@ export interface LeadView {
   search_job_id: string;
   business_id: string;
   score: number;
-  subscores_json: {
-    ICP: number;
-    Pain: number;
-    Reachability: number;
-    ComplianceRisk: number;
-  };
+  subscores_json: ComponentScores;
+  model_version?: string;
+  score_contributions?: ScoreContribution[] | null;
+  constraint_results?: ConstraintResults | null;
   rank: number;
   created_at: string;
 }
@@ -102,6 +75,14 @@ export interface LeadView {
 export interface Lead {
   rank: number;
   score: number;
+  subscores?: ComponentScores;
+  model_version?: string;
+  // Steps from 0 to the score, one per rule or learned-model feature
+  score_contributions?: ScoreContribution[] | null;
+  // The business's latest scores across searches and re-scores, oldest first
+  score_history?: number[];
+  // Which of the query's constraints the lead passed, failed or left unknown
+  constraint_results?: ConstraintResults | null;
   name: string;
   city: string;
   state: string;
@@ -132,17 +113,7 @@ export interface Lead {
   evidence_log?: EvidenceEntry[];
   // GPT-5 Enhancement fields
   lead_score?: number;
-  scoring_breakdown?: {
-    base_score: number;
-    booking_points: number;
-    website_points: number;
-    review_points: number;
-    rating_points: number;
-    contact_points: number;
-    franchise_penalty: number;
-    technical_points: number;
-    total_adjustments: number;
-  };
+  scoring_breakdown?: ScoringBreakdown;
   confidence_reasons?: string[];
   evidence_citations?: string[];
   has_website?: boolean;
@@ -202,26 +173,52 @@ export interface SearchJob {
     total_enriched: number;
     total_scored: number;
     processing_time_ms: number;
+    // Places dropped by the account's suppression list or already worked
+    suppressed_count?: number;
+    suppressed_by_reason?: Partial<Record<SuppressionReason, number>>;
+    // Leads dropped for failing a must or exclude constraint
+    constraint_rejected_count?: number;
+    tile_coverage?: TileCoverage;
   };
   error_text?: string;
   custom_name?: string;
   original_prompt?: string;
   search_tags?: string[];
+  progress_json?: SearchProgress | null;
+  // Set when the job is a run of a saved search
+  saved_search_id?: string | null;
+}
+
+export interface StatusLogEntry {
+  task: string;
+  message: string;
+  severity: 'info' | 'warn' | 'error';
+  ts: string;
 }
 
 export interface ParseResult {
   dsl: LeadQuery;
   warnings: string[];
+  confidence?: number;
+  spans?: DslSpan[];
+  // Set by a dry run: what running the search would cost
+  estimate?: SearchEstimate;
 }
 
 // Evidence logging structure for enrichment
 export interface EvidenceEntry {
   timestamp: string;
-  check_type: 'website' | 'booking' | 'contact' | 'social';
-  source: 'gmb' | 'serp' | 'dom' | 'api';
+  check_type: 'website' | 'booking' | 'contact' | 'social' | 'features';
+  source: 'gmb' | 'serp' | 'dom' | 'api' | 'headers' | 'links' | 'vendor_detection';
   url?: string;
+  path?: string;
+  page_kind?: string; // crawled page type: home, booking, contact, about, team, services, other
+  depth?: number;
   selector?: string;
   snippet?: string;
+  match_text?: string; // exact text matched in the page, for highlighting
+  artifact_id?: string; // html_snapshot artifact the entry was observed on
+  artifact_ids?: string[]; // snapshots behind an absence claim
   status: 'found' | 'not_found' | 'error';
   confidence: number; // 0-1
 }
@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { loadFingerprints } from "../lib/fingerprint-store.ts";
 import { createSimpleAnalyzer } from "../lib/simple-website-analyzer.ts";
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -38,7 +39,7 @@ serve(async (req) => {
       );
     }
 
-    const { url, businessId } = await req.json();
+    const { url, businessId, crawl = true } = await req.json();
     
     if (!url) {
       return new Response(
@@ -49,12 +50,12 @@ serve(async (req) => {
 
     console.log('Starting website analysis for:', url);
 
-    // Use simple analyzer
-    const analyzer = createSimpleAnalyzer(10000); // 10 second timeout
-    const analysisResult = await analyzer.analyze(url);
+    // Use simple analyzer; crawl linked contact/booking/team pages unless asked not to
+    const analyzer = createSimpleAnalyzer(10000, await loadFingerprints(supabase)); // 10 second timeout
+    const analysisResult = crawl ? await analyzer.analyzeSite(url) : await analyzer.analyze(url);
     
     // Store analysis results in database if businessId provided
-    if (businessId && analysisResult.status === 'success') {
+    if (businessId && analysisResult.status !== 'failed') {
       // Store signals
       for (const signal of analysisResult.signals) {
         await supabase
@@ -64,10 +65,10 @@ serve(async (req) => {
             type: signal.type,
             value_json: signal.detected,
             confidence: signal.confidence,
-            evidence_url: url,
+            evidence_url: signal.url ?? url,
             evidence_snippet: signal.evidence,
             source_key: 'simple_analyzer'
-          });
+          }, { onConflict: 'business_id,type' });
       }
 
       // Update business with website status
@@ -213,6 +213,8 @@ async function orchestrateEnhancedSearch(user_query: string, enrichment_flags: a
           leadData.lead_score = scoringData.scoring_result.lead_score;
           leadData.scoring_breakdown = scoringData.scoring_result.scoring_breakdown;
           leadData.confidence_reasons = scoringData.scoring_result.confidence_reasons;
+          leadData.score_contributions = scoringData.scoring_result.score_contributions;
+          leadData.model_version = scoringData.scoring_result.model_version;
         }
 
         processedLeads.push(leadData);
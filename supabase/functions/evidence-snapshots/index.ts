@@ -0,0 +1,121 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SNAPSHOT_ARTIFACT_TYPE } from "../lib/html-snapshots.ts";
+import { loadHtmlSnapshot } from "../lib/snapshot-store.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type SnapshotListRow = {
+  id: string;
+  uri: string;
+  created_at: string;
+  fetched_at: string | null;
+  byte_length: number | null;
+  businesses: unknown;
+};
+
+// Snapshots of businesses that turned up in one of the user's own searches.
+// Artifacts hang off shared businesses, so ownership goes through lead_views.
+function ownSnapshots(userId: string, columns: string) {
+  return supabase
+    .from('artifacts')
+    .select(`${columns}, businesses!inner(lead_views!inner(search_jobs!inner(user_id)))`)
+    .eq('type', SNAPSHOT_ARTIFACT_TYPE)
+    .eq('businesses.lead_views.search_jobs.user_id', userId);
+}
+
+// Page snapshots behind website audit evidence, limited to businesses in the
+// caller's own searches; anything else is reported as not found.
+//   { operation: 'get', artifact_id }        -> { snapshot: { id, uri, html, headers, status, fetched_at, ... } }
+//   { operation: 'list', business_id }       -> { snapshots: [{ id, uri, created_at, fetched_at, byte_length }] }
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { operation, ...params } = await req.json();
+
+    if (operation === 'get') {
+      if (!params.artifact_id) {
+        return new Response(
+          JSON.stringify({ error: 'artifact_id is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data, error } = await ownSnapshots(user.id, 'id').eq('id', params.artifact_id).limit(1);
+      if (error) throw new Error(`Failed to load snapshot: ${error.message}`);
+      if (!data || data.length === 0) {
+        return new Response(
+          JSON.stringify({ error: `Snapshot ${params.artifact_id} not found` }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ snapshot: await loadHtmlSnapshot(supabase, params.artifact_id) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation === 'list') {
+      if (!params.business_id) {
+        return new Response(
+          JSON.stringify({ error: 'business_id is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data, error } = await ownSnapshots(user.id, 'id, uri, created_at, metadata_json->fetched_at, metadata_json->byte_length')
+        .eq('business_id', params.business_id)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw new Error(`Failed to load snapshots: ${error.message}`);
+      // The ownership join only filters
+      const snapshots = ((data ?? []) as unknown as SnapshotListRow[]).map(({ businesses: _owner, ...snapshot }) => snapshot);
+      return new Response(
+        JSON.stringify({ snapshots }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Invalid operation. Use "get" or "list"' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in evidence-snapshots function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { matchSuppression } from "../lib/suppression.ts";
+import { loadSuppressionList } from "../lib/suppression-store.ts";
+import { scoreSeries } from "../lib/score-history.ts";
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
@@ -87,6 +90,9 @@ serve(async (req) => {
         id,
         score,
         subscores_json,
+        model_version,
+        score_contributions,
+        constraint_results,
         rank,
         businesses!inner (
           id,
@@ -98,6 +104,7 @@ serve(async (req) => {
           lat,
           lng,
           franchise_bool,
+          google_place_id,
           created_at
         ),
         search_jobs!inner (
@@ -107,14 +114,28 @@ serve(async (req) => {
       `)
       .eq('search_job_id', searchJobId)
       .order('rank', { ascending: true })
+      // Leads stay at rank 0 until the job is finalized, so partial results fall back to score
+      .order('score', { ascending: false })
       .range(offset, offset + limit - 1);
 
-    const { data: leadViews, error: leadError } = await query;
+    const { data: rankedViews, error: leadError } = await query;
 
     if (leadError) {
       throw new Error(`Failed to fetch leads: ${leadError.message}`);
     }
 
+    // Entries added to the suppression list after the search ran still hide
+    // its leads. Worked leads stay visible here so qualifying one in the
+    // results doesn't make it vanish.
+    const suppression = await loadSuppressionList(supabase, user.id, searchJob.dsl_json?.exclusions ?? []);
+    const leadViews = rankedViews?.filter(lv => !matchSuppression(suppression, {
+      name: lv.businesses.name,
+      website: lv.businesses.website,
+      phone: lv.businesses.phone,
+      place_id: lv.businesses.google_place_id
+    }));
+    const suppressed = (rankedViews?.length || 0) - (leadViews?.length || 0);
+
     // Get signals for each business
     const businessIds = leadViews?.map(lv => lv.businesses.id) || [];
     const { data: signals } = await supabase
@@ -153,6 +174,14 @@ serve(async (req) => {
       .in('business_id', businessIds)
       .order('changed_at', { ascending: false });
 
+    // Score history of each business across the user's searches, for the sparkline
+    const { data: scoreHistory } = await supabase
+      .from('lead_score_history')
+      .select('business_id, score, search_jobs!inner(user_id)')
+      .eq('search_jobs.user_id', user.id)
+      .in('business_id', businessIds)
+      .order('scored_at', { ascending: true });
+
     // Group related data by business_id
     const signalsByBusiness = signals?.reduce((acc, signal) => {
       if (!acc[signal.business_id]) acc[signal.business_id] = [];
@@ -185,6 +214,8 @@ serve(async (req) => {
       return acc;
     }, {} as Record<string, string>) || {};
 
+    const historyByBusiness = scoreSeries(scoreHistory || []);
+
     // Transform data into Lead format
     const leads = leadViews?.map(leadView => {
       const business = leadView.businesses;
@@ -210,6 +241,11 @@ serve(async (req) => {
       return {
         rank: leadView.rank,
         score: leadView.score,
+        subscores: leadView.subscores_json,
+        model_version: leadView.model_version,
+        score_contributions: leadView.score_contributions,
+        score_history: historyByBusiness[business.id] || [],
+        constraint_results: leadView.constraint_results,
         name: business.name,
         city: business.address_json?.city || '',
         state: business.address_json?.state || '',
@@ -234,7 +270,8 @@ serve(async (req) => {
     return new Response(JSON.stringify({
       search_job: searchJob,
       leads: filteredLeads,
-      total: leadViews?.length || 0
+      total: leadViews?.length || 0,
+      suppressed
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { clusterEntities, identityKeys } from "../lib/entity-resolution.ts";
 
 const googleMapsApiKey = Deno.env.get('GOOGLE_MAPS_API_KEY');
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -125,25 +126,19 @@ async function getPlaceDetailsNew(placeId: string, fieldMask?: string[]): Promis
   }
 }
 
-// Deduplicate places by normalized name + address + phone
+// Collapse listings that resolve to the same business (see lib/entity-resolution.ts),
+// keeping the first listing Google returned for each
 function deduplicatePlaces(places: any[]): any[] {
-  const seen = new Set<string>();
-  const deduplicated: any[] = [];
-
-  for (const place of places) {
-    const normalizedName = place.displayName?.text?.toLowerCase().trim() || '';
-    const normalizedAddress = place.formattedAddress?.toLowerCase().trim() || '';
-    const normalizedPhone = place.nationalPhoneNumber?.replace(/\D/g, '') || '';
-    
-    const key = `${normalizedName}|${normalizedAddress}|${normalizedPhone}`;
-    
-    if (!seen.has(key)) {
-      seen.add(key);
-      deduplicated.push(place);
-    }
-  }
-
-  return deduplicated;
+  const clusters = clusterEntities(places, (place) => identityKeys({
+    place_id: place.id,
+    name: place.displayName?.text || '',
+    phone: place.nationalPhoneNumber || place.internationalPhoneNumber,
+    website: place.websiteUri,
+    lat: place.location?.latitude,
+    lng: place.location?.longitude
+  }));
+
+  return clusters.map((cluster) => cluster[0]);
 }
 
 serve(async (req) => {
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createDataSourceRegistry, SourceHealth, SourceHealthStatus } from "../lib/data-sources.ts";
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
@@ -33,6 +34,12 @@ interface HealthCheckResult {
       functions: string[];
       message?: string;
     };
+    dataSources: {
+      status: boolean;
+      mode: 'live' | 'fixtures';
+      sources: DataSourceStatus[];
+      message?: string;
+    };
   };
   environment: {
     hasSupabaseUrl: boolean;
@@ -42,6 +49,79 @@ interface HealthCheckResult {
   };
 }
 
+type DataSourceStatus = Pick<SourceHealth, 'name' | 'type' | 'capabilities' | 'status' | 'available' | 'isFixture' | 'rateLimit'> & {
+  requests?: number;
+  failures?: number;
+  consecutiveFailures?: number;
+  lastLatencyMs?: number | null;
+  lastSuccessAt?: string | null;
+  lastError?: string | null;
+  reportedAt?: string | null;
+};
+
+// Configured sources come from this isolate's registry; call counters come
+// from the data_source_health rows the search workers keep up to date.
+async function checkDataSources(): Promise<HealthCheckResult['checks']['dataSources']> {
+  const mode = Deno.env.get('DATA_SOURCE_MODE') === 'fixtures' ? 'fixtures' : 'live';
+
+  try {
+    const registry = createDataSourceRegistry({ mode });
+    const configured = await registry.health();
+
+    const { data: reported, error } = await supabase
+      .from('data_source_health')
+      .select('*');
+
+    if (error) {
+      console.warn('Could not read data_source_health:', error.message);
+    }
+
+    const reportedBySource = new Map((reported ?? []).map(row => [row.source, row]));
+    const sources: DataSourceStatus[] = configured.map(health => {
+      const row = reportedBySource.get(health.name);
+      // A source that is configured here but failing in the workers is what matters
+      const status = (row && health.available ? row.status : health.status) as SourceHealthStatus;
+      return {
+        name: health.name,
+        type: health.type,
+        capabilities: health.capabilities,
+        status,
+        available: health.available,
+        isFixture: health.isFixture,
+        rateLimit: health.rateLimit,
+        requests: row?.requests,
+        failures: row?.failures,
+        consecutiveFailures: row?.consecutive_failures,
+        lastLatencyMs: row?.last_latency_ms,
+        lastSuccessAt: row?.last_success_at,
+        lastError: row?.last_error,
+        reportedAt: row?.updated_at
+      };
+    });
+
+    const down = sources.filter(source => source.status === 'down');
+    const hasSearch = sources.some(source => source.available && source.capabilities.includes('search') && source.status !== 'down');
+
+    return {
+      status: hasSearch && down.length === 0,
+      mode,
+      sources,
+      message: !hasSearch
+        ? 'No healthy data source offers search'
+        : down.length > 0
+          ? `Down: ${down.map(source => source.name).join(', ')}`
+          : `${sources.length} data sources registered${mode === 'fixtures' ? ' (recorded fixtures)' : ''}`
+    };
+  } catch (error) {
+    return {
+      status: false,
+      mode,
+      sources: [],
+      message: `Failed to check data sources: ${error.message}`
+    };
+  }
+}
+
 async function checkGooglePlacesAPI(): Promise<{ status: boolean; configured: boolean; message?: string }> {
   const apiKey = Deno.env.get('GOOGLE_PLACES_API_KEY');
   
@@ -189,21 +269,32 @@ serve(async (req) => {
   
   try {
     // Run all health checks in parallel
-    const [supabaseCheck, googlePlacesCheck, openAiCheck] = await Promise.all([
+    const [supabaseCheck, googlePlacesCheck, openAiCheck, dataSourcesCheck] = await Promise.all([
       checkSupabase(),
       checkGooglePlacesAPI(),
-      checkOpenAIAPI()
+      checkOpenAIAPI(),
+      checkDataSources()
     ]);
 
     // Get list of edge functions
     const edgeFunctions = [
       'parse-prompt',
       'search-leads',
+      'search-worker',
       'search-enriched-leads',
       'get-search-results',
       'analyze-website',
       'generate-lead-insights',
       'rescore-leads',
+      'merge-businesses',
+      'vendor-fingerprints',
+      'evidence-snapshots',
+      'reaudit-websites',
+      'suppression-lists',
+      'verticals',
+      'search-diff',
+      'scoring-profiles',
+      'train-scoring-model',
       'health-check'
     ];
 
@@ -214,6 +305,8 @@ serve(async (req) => {
       overallStatus = 'unhealthy';
     } else if (!googlePlacesCheck.status || !openAiCheck.status) {
       overallStatus = googlePlacesCheck.configured || openAiCheck.configured ? 'degraded' : 'unhealthy';
+    } else if (!dataSourcesCheck.status) {
+      overallStatus = 'degraded';
     }
 
     const result: HealthCheckResult = {
@@ -227,7 +320,8 @@ serve(async (req) => {
           status: true,
           functions: edgeFunctions,
           message: `${edgeFunctions.length} functions deployed`
-        }
+        },
+        dataSources: dataSourcesCheck
       },
       environment: {
         hasSupabaseUrl: !!Deno.env.get('SUPABASE_URL'),
@@ -0,0 +1,119 @@
+// supabase/functions/lib/audit-changes.ts
+// Compares two website audits of the same business and names what changed,
+// e.g. BookingAdded or ChatbotRemoved. The re-audit scheduler writes each
+// change to the events table; the lead drawer shows them as a timeline.
+
+export type AuditedFeature = "online_booking" | "chatbot" | "payment_processor" | "ssl_certificate" | "mobile_responsive";
+
+export type FeatureState = { found: boolean; vendor_detected?: string };
+
+// What a re-audit keeps from an audit result to compare against next time
+export type AuditState = {
+  has_website: boolean;
+  features: Partial<Record<AuditedFeature, FeatureState>>;
+};
+
+export type AuditChangeType =
+  | "WebsiteWentDown"
+  | "WebsiteCameBack"
+  | "BookingAdded"
+  | "BookingRemoved"
+  | "BookingVendorChanged"
+  | "ChatbotAdded"
+  | "ChatbotRemoved"
+  | "ChatbotVendorChanged"
+  | "PaymentProcessorAdded"
+  | "PaymentProcessorRemoved"
+  | "PaymentProcessorVendorChanged"
+  | "SslAdded"
+  | "SslRemoved"
+  | "MobileResponsiveAdded"
+  | "MobileResponsiveRemoved";
+
+export type AuditChange = {
+  type: AuditChangeType;
+  feature?: AuditedFeature;
+  before: FeatureState | boolean | null;
+  after: FeatureState | boolean | null;
+  summary: string;
+};
+
+export const AUDIT_CHANGE_EVENT_TYPES: AuditChangeType[] = [
+  "WebsiteWentDown", "WebsiteCameBack",
+  "BookingAdded", "BookingRemoved", "BookingVendorChanged",
+  "ChatbotAdded", "ChatbotRemoved", "ChatbotVendorChanged",
+  "PaymentProcessorAdded", "PaymentProcessorRemoved", "PaymentProcessorVendorChanged",
+  "SslAdded", "SslRemoved",
+  "MobileResponsiveAdded", "MobileResponsiveRemoved",
+];
+
+const FEATURES: Array<{ feature: AuditedFeature; event: string; label: string; vendors: boolean }> = [
+  { feature: "online_booking", event: "Booking", label: "Online booking", vendors: true },
+  { feature: "chatbot", event: "Chatbot", label: "Chatbot", vendors: true },
+  { feature: "payment_processor", event: "PaymentProcessor", label: "Payment processor", vendors: true },
+  { feature: "ssl_certificate", event: "Ssl", label: "HTTPS", vendors: false },
+  { feature: "mobile_responsive", event: "MobileResponsive", label: "Mobile-responsive layout", vendors: false },
+];
+
+type AuditResultLike = {
+  has_website: boolean;
+  detected_features?: Partial<Record<AuditedFeature, { found?: boolean; vendor_detected?: string }>>;
+};
+
+export function auditStateFromResult(result: AuditResultLike): AuditState {
+  const features: AuditState["features"] = {};
+  for (const { feature } of FEATURES) {
+    const detected = result.detected_features?.[feature];
+    if (!detected) continue;
+    features[feature] = detected.vendor_detected
+      ? { found: detected.found === true, vendor_detected: detected.vendor_detected }
+      : { found: detected.found === true };
+  }
+  return { has_website: result.has_website, features };
+}
+
+function describe(label: string, state: FeatureState): string {
+  return state.vendor_detected ? `${label} (${state.vendor_detected})` : label;
+}
+
+// No previous audit means nothing to compare against, so no changes. While
+// the site is down its features are unknown rather than removed: only the
+// outage itself is reported, and features are compared again once it's back.
+export function diffAuditStates(previous: AuditState | null, current: AuditState): AuditChange[] {
+  if (!previous) return [];
+
+  if (previous.has_website && !current.has_website) {
+    return [{ type: "WebsiteWentDown", before: true, after: false, summary: "Website stopped responding" }];
+  }
+
+  const changes: AuditChange[] = [];
+  if (!previous.has_website && current.has_website) {
+    changes.push({ type: "WebsiteCameBack", before: false, after: true, summary: "Website is responding again" });
+  }
+  if (!current.has_website) return changes;
+
+  for (const { feature, event, label, vendors } of FEATURES) {
+    const before = previous.features[feature];
+    const after = current.features[feature];
+    if (!before || !after) continue;
+
+    if (!before.found && after.found) {
+      changes.push({ type: `${event}Added` as AuditChangeType, feature, before, after, summary: `${describe(label, after)} added` });
+    } else if (before.found && !after.found) {
+      changes.push({ type: `${event}Removed` as AuditChangeType, feature, before, after, summary: `${describe(label, before)} removed` });
+    } else if (
+      vendors && before.found && after.found &&
+      before.vendor_detected && after.vendor_detected && before.vendor_detected !== after.vendor_detected
+    ) {
+      changes.push({
+        type: `${event}VendorChanged` as AuditChangeType,
+        feature,
+        before,
+        after,
+        summary: `${label} switched from ${before.vendor_detected} to ${after.vendor_detected}`,
+      });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,8 @@
+// supabase/functions/lib/auth.ts
+// Caller checks shared by the edge functions that gate operations on the
+// authenticated user.
+
+// Admins carry role "admin" in app_metadata, which only the service role can set
+export function isAdmin(user: { app_metadata?: Record<string, unknown> }): boolean {
+  return user.app_metadata?.role === 'admin';
+}
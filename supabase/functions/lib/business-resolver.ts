@@ -0,0 +1,301 @@
+// supabase/functions/lib/business-resolver.ts
+// Resolves an incoming business record against the businesses table using
+// lib/entity-resolution.ts, so repeat sightings update one row instead of
+// inserting a new one. Existing rows that turn out to be the same business are
+// linked to the surviving row through businesses.duplicate_of, and can be
+// folded into it with mergeBusinesses (see migrations/20250921_business_identity_merge.sql).
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  compareEntities,
+  identityKeys,
+  IdentityKeys,
+  isChainBranch,
+  MatchResult,
+  mergeWithProvenance,
+  Provenance,
+} from "./entity-resolution.ts";
+
+// Columns a source can supply; everything else on businesses is derived
+export type BusinessFields = {
+  name: string;
+  vertical?: string | null;
+  website?: string | null;
+  phone?: string | null;
+  address_json?: { street?: string; city?: string; state?: string; zip?: string; country?: string } | null;
+  lat?: number | null;
+  lng?: number | null;
+  franchise_bool?: boolean | null;
+  google_place_id?: string | null;
+  metadata?: Record<string, unknown> | null;
+};
+
+export type ResolvedBusiness = {
+  business_id: string;
+  created: boolean;
+  match: MatchResult | null;
+  // Rows newly marked as duplicates of business_id
+  linked_duplicates: string[];
+  // Other locations of the same brand on file (lib/entity-resolution.ts
+  // isChainBranch); any makes the business and its branches a franchise
+  chain_branches: string[];
+};
+
+type BusinessRow = BusinessFields & {
+  id: string;
+  created_at: string;
+  duplicate_of: string | null;
+  field_provenance: Provenance | null;
+};
+
+const CANDIDATE_COLUMNS =
+  "id, name, vertical, website, phone, address_json, lat, lng, franchise_bool, google_place_id, metadata, created_at, duplicate_of, field_provenance";
+
+const UNIQUE_VIOLATION = "23505";
+
+// Half-width of the bounding box searched for nearby candidates (~330 m)
+const GEO_WINDOW_DEG = 0.003;
+
+function keysOf(fields: BusinessFields): IdentityKeys {
+  return identityKeys({
+    place_id: fields.google_place_id,
+    name: fields.name,
+    phone: fields.phone,
+    website: fields.website,
+    city: fields.address_json?.city,
+    state: fields.address_json?.state,
+    lat: fields.lat,
+    lng: fields.lng,
+  });
+}
+
+async function findCandidates(supabase: SupabaseClient, keys: IdentityKeys): Promise<BusinessRow[]> {
+  const byIdentity = [
+    keys.place_id && `google_place_id.eq.${keys.place_id}`,
+    keys.phone && `phone_normalized.eq.${keys.phone}`,
+    keys.domain && `domain.eq.${keys.domain}`,
+  ].filter(Boolean).join(",");
+
+  const queries = [];
+  if (byIdentity) {
+    queries.push(supabase.from("businesses").select(CANDIDATE_COLUMNS).or(byIdentity).limit(25));
+  }
+  if (keys.lat !== null && keys.lng !== null) {
+    queries.push(
+      supabase.from("businesses").select(CANDIDATE_COLUMNS)
+        .gte("lat", keys.lat - GEO_WINDOW_DEG).lte("lat", keys.lat + GEO_WINDOW_DEG)
+        .gte("lng", keys.lng - GEO_WINDOW_DEG).lte("lng", keys.lng + GEO_WINDOW_DEG)
+        .limit(50),
+    );
+  }
+
+  const rows = new Map<string, BusinessRow>();
+  for (const { data, error } of await Promise.all(queries)) {
+    if (error) {
+      throw new Error(`Failed to look up matching businesses: ${error.message}`);
+    }
+    for (const row of (data ?? []) as BusinessRow[]) rows.set(row.id, row);
+  }
+  return [...rows.values()];
+}
+
+async function loadBusiness(supabase: SupabaseClient, id: string): Promise<BusinessRow> {
+  const { data, error } = await supabase.from("businesses").select(CANDIDATE_COLUMNS).eq("id", id).single();
+  if (error || !data) {
+    throw new Error(`Business ${id} not found: ${error?.message}`);
+  }
+  return data as BusinessRow;
+}
+
+// Derived identity columns kept next to the raw values so lookups can use indexes
+function identityColumns(fields: Partial<BusinessFields>) {
+  const keys = identityKeys({ name: fields.name ?? "", phone: fields.phone, website: fields.website });
+  return { phone_normalized: keys.phone, domain: keys.domain };
+}
+
+async function markFranchised(supabase: SupabaseClient, ids: string[]) {
+  const { error } = await supabase
+    .from("businesses")
+    .update({ franchise_bool: true })
+    .in("id", ids)
+    .or("franchise_bool.is.null,franchise_bool.eq.false");
+
+  if (error) {
+    throw new Error(`Error marking chain branches: ${error.message}`);
+  }
+}
+
+// Find the business this record describes, merge the record into it (or
+// insert a new row) and link any other matching rows to it as duplicates.
+export async function resolveBusiness(
+  supabase: SupabaseClient,
+  fields: BusinessFields,
+  source: { name: string; confidence: number; observed_at?: string },
+  attempt = 0,
+): Promise<ResolvedBusiness> {
+  const keys = keysOf(fields);
+  const candidates = await findCandidates(supabase, keys);
+
+  const matches = candidates
+    .map((row) => ({ row, result: compareEntities(keys, keysOf(row)) }))
+    .filter(({ result }) => result.match)
+    // Prefer rows that are already canonical, then the strongest match, then the oldest
+    .sort((a, b) =>
+      Number(!!a.row.duplicate_of) - Number(!!b.row.duplicate_of) ||
+      b.result.score - a.result.score ||
+      a.row.created_at.localeCompare(b.row.created_at)
+    );
+
+  // Sources cannot tell a franchise from an independent; other branches of
+  // the brand on file can
+  const branches = candidates
+    .filter((row) => !row.duplicate_of && isChainBranch(keys, keysOf(row)))
+    .map((row) => row.id);
+  if (branches.length > 0) {
+    await markFranchised(supabase, branches);
+  }
+
+  const incoming = {
+    source: source.name,
+    confidence: source.confidence,
+    observed_at: source.observed_at,
+    data: branches.length > 0 ? { ...fields, franchise_bool: true } : fields,
+  };
+
+  if (matches.length === 0) {
+    const { data: merged, provenance } = mergeWithProvenance([incoming]);
+    const { data: inserted, error } = await supabase
+      .from("businesses")
+      .insert({ ...merged, ...identityColumns(merged), field_provenance: provenance })
+      .select("id")
+      .single();
+
+    // Another worker inserted the same place between our lookup and insert;
+    // resolving again finds its row through the place_id
+    if (error?.code === UNIQUE_VIOLATION && attempt === 0) {
+      return resolveBusiness(supabase, fields, source, attempt + 1);
+    }
+    if (error) {
+      throw new Error(`Error inserting business: ${error.message}`);
+    }
+    return { business_id: inserted.id, created: true, match: null, linked_duplicates: [], chain_branches: branches };
+  }
+
+  const best = matches[0];
+  const survivor = best.row.duplicate_of ? await loadBusiness(supabase, best.row.duplicate_of) : best.row;
+  const canonicalId = survivor.id;
+  const { id: _id, created_at: _createdAt, duplicate_of: _duplicateOf, field_provenance, ...current } = survivor;
+  // A record matched by phone, domain or a linked duplicate may carry another
+  // place id (a moved or re-listed business); the survivor keeps its own
+  const { data: merged, provenance } = mergeWithProvenance([incoming], {
+    data: current,
+    provenance: field_provenance ?? {},
+  }, { keep: ["google_place_id"] });
+
+  const { error: updateError } = await supabase
+    .from("businesses")
+    .update({ ...merged, ...identityColumns(merged), field_provenance: provenance })
+    .eq("id", canonicalId);
+
+  if (updateError) {
+    throw new Error(`Error updating business ${canonicalId}: ${updateError.message}`);
+  }
+
+  // Other rows that match both the record and the survivor are the same business
+  const survivorKeys = keysOf({ ...current, ...merged } as BusinessFields);
+  const linked = matches.slice(1)
+    .filter(({ row }) => !row.duplicate_of && row.id !== canonicalId && compareEntities(survivorKeys, keysOf(row)).match)
+    .map(({ row }) => row.id);
+
+  if (linked.length > 0) {
+    const { error: linkError } = await supabase
+      .from("businesses")
+      .update({ duplicate_of: canonicalId })
+      .in("id", linked);
+
+    if (linkError) {
+      throw new Error(`Error linking duplicate businesses: ${linkError.message}`);
+    }
+  }
+
+  return {
+    business_id: canonicalId,
+    created: false,
+    match: best.result,
+    linked_duplicates: linked,
+    chain_branches: branches.filter((id) => id !== canonicalId),
+  };
+}
+
+export type DuplicateGroup = {
+  survivor: BusinessRow;
+  duplicates: Array<{ business: BusinessRow; reason: string; match: MatchResult }>;
+};
+
+// Candidate duplicate groups for the merge tool. Linked pairs come straight
+// from the resolver; pairs that only share a phone or domain are re-checked so
+// chain branches are not offered for merging.
+export async function findDuplicateGroups(supabase: SupabaseClient, limit = 50): Promise<DuplicateGroup[]> {
+  const { data, error } = await supabase
+    .from("business_duplicate_candidates")
+    .select("survivor_id, duplicate_id, reason")
+    .limit(limit * 5);
+
+  if (error) {
+    throw new Error(`Failed to load duplicate candidates: ${error.message}`);
+  }
+  const pairs = (data ?? []) as Array<{ survivor_id: string; duplicate_id: string; reason: string }>;
+  if (pairs.length === 0) return [];
+
+  const ids = [...new Set(pairs.flatMap((pair) => [pair.survivor_id, pair.duplicate_id]))];
+  const { data: rows, error: rowsError } = await supabase
+    .from("businesses")
+    .select(CANDIDATE_COLUMNS)
+    .in("id", ids);
+
+  if (rowsError) {
+    throw new Error(`Failed to load duplicate candidates: ${rowsError.message}`);
+  }
+
+  const byId = new Map(((rows ?? []) as BusinessRow[]).map((row) => [row.id, row]));
+  const groups = new Map<string, DuplicateGroup>();
+
+  for (const pair of pairs) {
+    const survivor = byId.get(pair.survivor_id);
+    const duplicate = byId.get(pair.duplicate_id);
+    if (!survivor || !duplicate) continue;
+
+    const match = compareEntities(keysOf(survivor), keysOf(duplicate));
+    if (pair.reason !== "linked" && !match.match) continue;
+
+    const group = groups.get(survivor.id) ?? { survivor, duplicates: [] };
+    if (!group.duplicates.some((entry) => entry.business.id === duplicate.id)) {
+      group.duplicates.push({ business: duplicate, reason: pair.reason, match });
+    }
+    groups.set(survivor.id, group);
+  }
+
+  return [...groups.values()].slice(0, limit);
+}
+
+export type MergeSummary = {
+  survivor_id: string;
+  merged: number;
+  moved?: Record<string, number>;
+};
+
+export async function mergeBusinesses(
+  supabase: SupabaseClient,
+  survivorId: string,
+  duplicateIds: string[],
+): Promise<MergeSummary> {
+  const { data, error } = await supabase.rpc("merge_businesses", {
+    p_survivor: survivorId,
+    p_duplicates: duplicateIds,
+  });
+
+  if (error) {
+    throw new Error(`Failed to merge businesses into ${survivorId}: ${error.message}`);
+  }
+  return data as MergeSummary;
+}
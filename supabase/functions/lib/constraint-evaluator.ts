@@ -0,0 +1,139 @@
+// supabase/functions/lib/constraint-evaluator.ts
+// Checks an enriched business against every constraint of a LeadQuery. The
+// score task runs it once signals are in: a failed `must` or `exclude`
+// constraint drops the lead, passed `optional` constraints lift its rank, and
+// the per-constraint outcomes are stored on the lead view so the results
+// table can show "matched 4/5 criteria". A fact nobody has checked yet
+// (no website analysis, no employee count) is "unknown" and never drops a
+// lead. Pure TypeScript, loaded from Deno, Node and Vite alike.
+
+import { CONSTRAINT_FIELDS, ConstraintKey, ConstraintList, describeConstraint } from "./dsl-describe.ts";
+import type { Constraint, LeadQuery } from "./lead-query.ts";
+import { BusinessLike, featuresFromSignals, ScoringFeatures, SignalLike } from "./scoring-service.ts";
+
+export type ConstraintOutcome = "pass" | "fail" | "unknown";
+
+// What the business is known to be, in the constraint's own terms
+export type ConstraintFacts = ScoringFeatures & {
+  years_in_business?: number;
+  employee_count?: number;
+};
+
+export type ConstraintCheck = {
+  list: ConstraintList;
+  key: ConstraintKey;
+  label: string;
+  outcome: ConstraintOutcome;
+  // The fact the constraint was compared with; null when unknown
+  actual: boolean | number | null;
+};
+
+export type ConstraintResults = {
+  checks: ConstraintCheck[];
+  matched: number;
+  total: number;
+  unknown: number;
+  // A must constraint failed or an exclude constraint held
+  rejected: boolean;
+  // Rank points from passed optional constraints
+  boost: number;
+};
+
+// Rank points per optional constraint the lead meets. Added only when
+// ranking, never to the stored score, so scores stay comparable across jobs.
+export const OPTIONAL_CONSTRAINT_BOOST = 5;
+
+export function constraintFactsFromSignals(signals: SignalLike[], business: BusinessLike = {}): ConstraintFacts {
+  const numeric = (type: string) => {
+    const value = signals.find((signal) => signal.type === type)?.value_json;
+    return typeof value === "number" ? value : undefined;
+  };
+  return {
+    ...featuresFromSignals(signals, business),
+    years_in_business: numeric("years_in_business"),
+    employee_count: numeric("employee_count"),
+  };
+}
+
+// The fact each constraint key reads
+function actualFact(key: ConstraintKey, facts: ConstraintFacts): boolean | number | undefined {
+  switch (key) {
+    case "no_website":
+      return facts.has_website === undefined ? undefined : !facts.has_website;
+    case "social_media_active":
+      // Social links are found by the website analysis; none found there means inactive
+      if (facts.social_profiles) return true;
+      return facts.website_accessible ? false : undefined;
+    case "reviews_count_gt":
+    case "reviews_count_lt":
+    case "reviews_count_gte":
+    case "reviews_count_lte":
+      return facts.review_count;
+    case "rating_gt":
+    case "rating_lt":
+    case "rating_gte":
+    case "rating_lte":
+      return facts.rating;
+    case "years_in_business_gt":
+    case "years_in_business_lt":
+    case "years_in_business_gte":
+    case "years_in_business_lte":
+      return facts.years_in_business;
+    case "employee_count_range":
+      return facts.employee_count;
+    default:
+      return facts[key] as boolean | undefined;
+  }
+}
+
+// Whether the business satisfies the constraint as written, or null if unknown
+function holds(key: ConstraintKey, expected: unknown, actual: boolean | number | undefined): boolean | null {
+  if (actual === undefined || expected === undefined) return null;
+  const kind = CONSTRAINT_FIELDS[key].kind;
+  if (kind === "flag") return actual === expected;
+  if (typeof actual !== "number") return null;
+  if (kind === "range") {
+    const [low, high] = expected as number[];
+    return actual >= low && actual <= high;
+  }
+  const bound = expected as number;
+  if (key.endsWith("_gte")) return actual >= bound;
+  if (key.endsWith("_lte")) return actual <= bound;
+  return key.endsWith("_gt") ? actual > bound : actual < bound;
+}
+
+function checkConstraint(list: ConstraintList, constraint: Constraint, facts: ConstraintFacts): ConstraintCheck[] {
+  return (Object.keys(constraint) as ConstraintKey[])
+    .filter((key) => constraint[key] !== undefined && key in CONSTRAINT_FIELDS)
+    .map((key) => {
+      const actual = actualFact(key, facts);
+      const result = holds(key, constraint[key], actual);
+      // An exclude constraint passes when the business does not match it
+      const passed = result === null ? null : list === "exclude" ? !result : result;
+      return {
+        list,
+        key,
+        label: describeConstraint({ [key]: constraint[key] }),
+        outcome: passed === null ? "unknown" : passed ? "pass" : "fail",
+        actual: actual ?? null,
+      };
+    });
+}
+
+export function evaluateConstraints(constraints: LeadQuery["constraints"] | undefined, facts: ConstraintFacts): ConstraintResults {
+  const checks = [
+    ...(constraints?.must ?? []).flatMap((constraint) => checkConstraint("must", constraint, facts)),
+    ...(constraints?.exclude ?? []).flatMap((constraint) => checkConstraint("exclude", constraint, facts)),
+    ...(constraints?.optional ?? []).flatMap((constraint) => checkConstraint("optional", constraint, facts)),
+  ];
+  const passedOptional = checks.filter((check) => check.list === "optional" && check.outcome === "pass").length;
+
+  return {
+    checks,
+    matched: checks.filter((check) => check.outcome === "pass").length,
+    total: checks.length,
+    unknown: checks.filter((check) => check.outcome === "unknown").length,
+    rejected: checks.some((check) => check.list !== "optional" && check.outcome === "fail"),
+    boost: passedOptional * OPTIONAL_CONSTRAINT_BOOST,
+  };
+}
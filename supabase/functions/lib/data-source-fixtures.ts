@@ -0,0 +1,111 @@
+// supabase/functions/lib/data-source-fixtures.ts
+// Recorded vendor responses replayed by FixtureSource when DATA_SOURCE_MODE is
+// 'fixtures', so the search pipeline can run end to end without API keys or
+// network. Capture new ones with RecordingSource and paste the `recorded` array.
+// Places carry no website so enrichment stays offline too.
+
+import type { DataSource, SourceFixture } from "./data-sources.ts";
+import type { GooglePlace } from "./search-pipeline.ts";
+
+type RecordedSource = {
+  like: Pick<DataSource, "name" | "type" | "priority" | "capabilities">;
+  fixtures: SourceFixture[];
+};
+
+const COLUMBIA_DENTISTS_PAGE_1: GooglePlace[] = [
+  {
+    place_id: "fixture-dentist-001",
+    name: "Congaree Family Dentistry",
+    formatted_address: "1200 Main St, Columbia, SC 29201, United States",
+    formatted_phone_number: "(803) 555-0101",
+    rating: 4.8,
+    user_ratings_total: 212,
+    types: ["dentist", "health", "point_of_interest", "establishment"],
+    business_status: "OPERATIONAL",
+    geometry: { location: { lat: 34.0007, lng: -81.0348 } },
+  },
+  {
+    place_id: "fixture-dentist-002",
+    name: "Five Points Dental Studio",
+    formatted_address: "710 Harden St, Columbia, SC 29205, United States",
+    formatted_phone_number: "(803) 555-0102",
+    rating: 4.2,
+    user_ratings_total: 38,
+    types: ["dentist", "health", "point_of_interest", "establishment"],
+    business_status: "OPERATIONAL",
+    geometry: { location: { lat: 33.9985, lng: -81.0165 } },
+  },
+  {
+    place_id: "fixture-dentist-003",
+    name: "Shandon Smiles",
+    formatted_address: "2910 Devine St, Columbia, SC 29205, United States",
+    rating: 3.6,
+    user_ratings_total: 9,
+    types: ["dentist", "health", "point_of_interest", "establishment"],
+    business_status: "OPERATIONAL",
+    geometry: { location: { lat: 33.9929, lng: -81.0031 } },
+  },
+];
+
+const COLUMBIA_DENTISTS_PAGE_2: GooglePlace[] = [
+  {
+    place_id: "fixture-dentist-004",
+    name: "Riverbanks Orthodontics",
+    formatted_address: "55 Gervais St, Columbia, SC 29201, United States",
+    formatted_phone_number: "(803) 555-0104",
+    rating: 4.9,
+    user_ratings_total: 540,
+    types: ["dentist", "health", "point_of_interest", "establishment"],
+    business_status: "OPERATIONAL",
+    geometry: { location: { lat: 33.9946, lng: -81.0478 } },
+  },
+  {
+    place_id: "fixture-dentist-005",
+    name: "Forest Acres Dental Care",
+    formatted_address: "4500 Forest Dr, Columbia, SC 29206, United States",
+    types: ["dentist", "health", "point_of_interest", "establishment"],
+    business_status: "CLOSED_TEMPORARILY",
+    geometry: { location: { lat: 34.0196, lng: -80.9664 } },
+  },
+];
+
+function toBusinessData(places: GooglePlace[]) {
+  return places.map((place) => ({
+    name: place.name,
+    address: place.formatted_address ?? "",
+    city: "Columbia",
+    state: "SC",
+    phone: place.formatted_phone_number,
+    rating: place.rating,
+    reviewCount: place.user_ratings_total,
+    categories: place.types,
+    verified: true,
+    lastUpdated: "2025-09-19T00:00:00.000Z",
+  }));
+}
+
+export const RECORDED_SOURCES: Record<string, RecordedSource> = {
+  google_places_text: {
+    like: { name: "google_places_text", type: "primary", priority: 1, capabilities: ["search", "reviews"] },
+    fixtures: [
+      {
+        query: { vertical: "dentist", city: "Columbia", state: "SC", pageToken: undefined },
+        result: {
+          confidence: 0.95,
+          data: toBusinessData(COLUMBIA_DENTISTS_PAGE_1),
+          nextPageToken: "fixture-dentist-page-2",
+          metadata: { places: COLUMBIA_DENTISTS_PAGE_1 },
+        },
+      },
+      {
+        query: { vertical: "dentist", city: "Columbia", state: "SC", pageToken: "fixture-dentist-page-2" },
+        result: {
+          confidence: 0.95,
+          data: toBusinessData(COLUMBIA_DENTISTS_PAGE_2),
+          nextPageToken: null,
+          metadata: { places: COLUMBIA_DENTISTS_PAGE_2 },
+        },
+      },
+    ],
+  },
+};
@@ -1,11 +1,29 @@
 // Multi-Source Data Aggregation Architecture
 // This module provides a unified interface for fetching and aggregating business data from multiple sources
 
+import { RECORDED_SOURCES } from './data-source-fixtures.ts';
+import type { GooglePlace } from './search-pipeline.ts';
+import { clusterEntities, identityKeys, mergeWithProvenance, Provenance } from './entity-resolution.ts';
+import { isInsideRectangle, pointInPolygon, PlacesCircle, PlacesRectangle } from './geocoding.ts';
+import type { GeoPoint } from './lead-query.ts';
+import { BUILT_IN_VERTICALS } from './verticals.ts';
+
+// What a source can answer. Callers ask the registry for a capability rather
+// than naming a vendor, so sources can be added or swapped for fixtures.
+export type DataSourceCapability =
+  | 'search'        // find businesses by vertical/location
+  | 'lookup'        // resolve one known business (name, domain)
+  | 'contacts'      // people, emails, phones
+  | 'reviews'       // ratings and review counts
+  | 'firmographics' // size, industry, social profiles
+  | 'hours';
+
 export interface DataSource {
   name: string;
   type: 'primary' | 'enrichment' | 'validation';
   priority: number;
-  rateLimit: { requests: number; window: number };
+  capabilities: DataSourceCapability[];
+  rateLimit: { requests: number; window: number }; // `requests` per `window` ms
   fetch(query: DataQuery): Promise<DataResult>;
   isAvailable(): Promise<boolean>;
 }
@@ -19,13 +37,20 @@ export interface DataQuery {
   website?: string;
   vertical?: string;
   radius?: number;
+  pageToken?: string; // continuation token for paginated search sources
+  placeType?: string; // one of VERTICAL_TO_PLACE_TYPES[vertical]; defaults to the first
+  // Search area from lib/geocoding.ts planSearchAreas
+  locationBias?: PlacesCircle;
+  locationRestriction?: PlacesRectangle;
+  polygon?: GeoPoint[];
 }
 
 export interface DataResult {
   source: string;
   confidence: number;
   data: BusinessData[];
-  metadata?: Record<string, any>;
+  nextPageToken?: string | null;
+  metadata?: Record<string, unknown>;
 }
 
 export interface BusinessData {
@@ -44,13 +69,26 @@ export interface BusinessData {
   socialMedia?: Record<string, string>;
   verified?: boolean;
   lastUpdated?: string;
+  placeId?: string;
+  lat?: number;
+  lng?: number;
+  // Which source supplied each field, set on merged results
+  provenance?: Provenance;
+  sources?: string[];
 }
 
+// Places types per built-in vertical, for sources called without a taxonomy.
+// The search pipeline resolves types through the admin-edited taxonomy instead.
+export const VERTICAL_TO_PLACE_TYPES: Record<string, string[]> = Object.fromEntries(
+  BUILT_IN_VERTICALS.map((vertical) => [vertical.id, vertical.place_types])
+);
+
 // Google Places Data Source
 export class GooglePlacesSource implements DataSource {
   name = 'google_places';
-  type: 'primary' as const;
+  type = 'primary' as const;
   priority = 1;
+  capabilities: DataSourceCapability[] = ['search', 'reviews'];
   rateLimit = { requests: 100, window: 60000 }; // 100 req/min
   
   private apiKey: string;
@@ -61,6 +99,11 @@ export class GooglePlacesSource implements DataSource {
   
   async fetch(query: DataQuery): Promise<DataResult> {
     const url = 'https://places.googleapis.com/v1/places:searchNearby';
+    // searchNearby only takes a circle, so it needs a geocoded area
+    const circle = query.locationBias?.circle;
+    if (!circle) {
+      throw new Error(`Nearby search needs a geocoded center for ${query.city}, ${query.state}`);
+    }
     
     const response = await fetch(url, {
       method: 'POST',
@@ -72,8 +115,8 @@ export class GooglePlacesSource implements DataSource {
       body: JSON.stringify({
         locationRestriction: {
           circle: {
-            center: { latitude: 0, longitude: 0 }, // Would be geocoded
-            radius: query.radius || 50000
+            center: circle.center,
+            radius: query.radius || circle.radius
           }
         },
         maxResultCount: 20
@@ -109,11 +152,102 @@ export class GooglePlacesSource implements DataSource {
   }
 }
 
+// Google Places Text Search (legacy API). This is what the search pipeline's
+// fetch stage pages through; the raw place objects ride along in
+// metadata.places because enrichment needs fields BusinessData does not carry.
+// The legacy API only takes a bias circle, so a restriction or polygon is
+// applied to each page's results here.
+export class GooglePlacesTextSearchSource implements DataSource {
+  name = 'google_places_text';
+  type = 'primary' as const;
+  priority = 1;
+  capabilities: DataSourceCapability[] = ['search', 'reviews'];
+  rateLimit = { requests: 100, window: 60000 };
+
+  private apiKey: string;
+
+  constructor(apiKey: string, private placeTypes: Record<string, string[]> = {}) {
+    this.apiKey = apiKey;
+  }
+
+  async fetch(query: DataQuery): Promise<DataResult> {
+    const baseUrl = 'https://maps.googleapis.com/maps/api/place/textsearch/json';
+    const type = query.placeType || (this.placeTypes[query.vertical || ''] || ['establishment'])[0];
+    const place = [query.city, query.state].filter(Boolean).join(', ');
+    const params = new URLSearchParams({
+      query: `${query.businessName || query.vertical || type} in ${place}`,
+      key: this.apiKey,
+      ...(query.pageToken && { pagetoken: query.pageToken })
+    });
+
+    if (query.locationBias) {
+      const { center, radius } = query.locationBias.circle;
+      params.append('location', `${center.latitude},${center.longitude}`);
+      params.append('radius', String(radius));
+    }
+
+    // Add type filter if specified
+    if (type !== 'establishment') {
+      params.append('type', type);
+    }
+
+    const response = await fetch(`${baseUrl}?${params}`);
+    const data = await response.json();
+
+    if (data.status === 'REQUEST_DENIED') {
+      throw new Error(`Google Places API access denied: ${data.error_message || 'Invalid API key or service not enabled'}`);
+    }
+
+    if (data.status === 'ZERO_RESULTS') {
+      return { source: this.name, confidence: 0.95, data: [], nextPageToken: null, metadata: { places: [] } };
+    }
+
+    if (data.status !== 'OK') {
+      throw new Error(`Google Places API error: ${data.status}`);
+    }
+
+    const found: GooglePlace[] = data.results || [];
+    const places = found.filter(result => this.isInsideArea(result, query));
+    return {
+      source: this.name,
+      confidence: 0.95,
+      data: places.map((place: GooglePlace) => ({
+        name: place.name,
+        address: place.formatted_address || '',
+        city: query.city,
+        state: query.state,
+        rating: place.rating,
+        reviewCount: place.user_ratings_total,
+        categories: place.types,
+        verified: true,
+        lastUpdated: new Date().toISOString(),
+        placeId: place.place_id,
+        lat: place.geometry?.location?.lat,
+        lng: place.geometry?.location?.lng
+      })),
+      nextPageToken: data.next_page_token || null,
+      metadata: { places, outside_area: found.length - places.length }
+    };
+  }
+
+  private isInsideArea(place: GooglePlace, query: DataQuery): boolean {
+    const location = place.geometry?.location;
+    if (!location) return true;
+    if (query.locationRestriction && !isInsideRectangle(location, query.locationRestriction)) return false;
+    return !query.polygon || pointInPolygon(location, query.polygon);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return !!this.apiKey;
+  }
+}
+
 // Bing Places Data Source
 export class BingPlacesSource implements DataSource {
   name = 'bing_places';
-  type: 'primary' as const;
+  type = 'primary' as const;
   priority = 2;
+  capabilities: DataSourceCapability[] = ['search', 'lookup'];
   rateLimit = { requests: 50, window: 60000 };
   
   private apiKey: string;
@@ -157,8 +291,9 @@ export class BingPlacesSource implements DataSource {
 // Yelp Data Source
 export class YelpSource implements DataSource {
   name = 'yelp';
-  type: 'enrichment' as const;
+  type = 'enrichment' as const;
   priority = 3;
+  capabilities: DataSourceCapability[] = ['search', 'reviews', 'hours'];
   rateLimit = { requests: 30, window: 60000 };
   
   private apiKey: string;
@@ -223,8 +358,9 @@ export class YelpSource implements DataSource {
 // Apollo.io Data Source for B2B enrichment
 export class ApolloSource implements DataSource {
   name = 'apollo';
-  type: 'enrichment' as const;
+  type = 'enrichment' as const;
   priority = 4;
+  capabilities: DataSourceCapability[] = ['firmographics', 'contacts'];
   rateLimit = { requests: 20, window: 60000 };
   
   private apiKey: string;
@@ -291,8 +427,9 @@ export class ApolloSource implements DataSource {
 // Clearbit Data Source
 export class ClearbitSource implements DataSource {
   name = 'clearbit';
-  type: 'enrichment' as const;
+  type = 'enrichment' as const;
   priority = 5;
+  capabilities: DataSourceCapability[] = ['lookup', 'firmographics'];
   rateLimit = { requests: 15, window: 60000 };
   
   private apiKey: string;
@@ -350,36 +487,296 @@ export class ClearbitSource implements DataSource {
   }
 }
 
+
+// Token bucket limiter honouring a source's declared rateLimit: the bucket
+// holds `requests` tokens and refills continuously over `window` ms, so bursts
+// up to the limit go straight through and sustained load is smoothed.
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private readonly refillPerMs: number;
+
+  constructor(
+    private readonly capacity: number,
+    windowMs: number,
+    private readonly now: () => number = Date.now
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = now();
+    this.refillPerMs = capacity / windowMs;
+  }
+
+  private refill() {
+    const current = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (current - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = current;
+  }
+
+  get available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  // Milliseconds until a token is free (0 if one is available now)
+  waitTime(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  // Resolves once a token has been taken; returns how long the caller waited
+  async take(): Promise<number> {
+    let waited = 0;
+    while (!this.tryTake()) {
+      const delay = this.waitTime();
+      waited += delay;
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+    return waited;
+  }
+}
+
+export type SourceHealthStatus = 'healthy' | 'degraded' | 'down' | 'unconfigured';
+
+export interface SourceHealth {
+  name: string;
+  type: DataSource['type'];
+  capabilities: DataSourceCapability[];
+  status: SourceHealthStatus;
+  available: boolean;
+  isFixture: boolean;
+  rateLimit: DataSource['rateLimit'];
+  tokensAvailable: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  throttledMs: number;
+  lastLatencyMs?: number;
+  lastSuccessAt?: string;
+  lastErrorAt?: string;
+  lastError?: string;
+}
+
+// Optional sink for health snapshots, e.g. a table health-check reads, since
+// counters otherwise live only as long as one edge function isolate.
+export type HealthReporter = (health: SourceHealth) => Promise<void>;
+
+// Consecutive failures after which a source is reported down
+const DOWN_AFTER_FAILURES = 3;
+
+type SourceEntry = {
+  source: DataSource;
+  bucket: TokenBucket;
+  health: Omit<SourceHealth, 'status' | 'available' | 'tokensAvailable'>;
+};
+
+export class DataSourceRegistry {
+  private entries = new Map<string, SourceEntry>();
+
+  constructor(private reporter?: HealthReporter) {}
+
+  register(source: DataSource): this {
+    this.entries.set(source.name, {
+      source,
+      bucket: new TokenBucket(source.rateLimit.requests, source.rateLimit.window),
+      health: {
+        name: source.name,
+        type: source.type,
+        capabilities: source.capabilities,
+        isFixture: source instanceof FixtureSource,
+        rateLimit: source.rateLimit,
+        requests: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        throttledMs: 0
+      }
+    });
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.entries.delete(name);
+  }
+
+  get(name: string): DataSource | undefined {
+    return this.entries.get(name)?.source;
+  }
+
+  // Sources in priority order, optionally narrowed by type and capability
+  list(filter: { type?: DataSource['type']; capability?: DataSourceCapability } = {}): DataSource[] {
+    return [...this.entries.values()]
+      .map(entry => entry.source)
+      .filter(source => !filter.type || source.type === filter.type)
+      .filter(source => !filter.capability || source.capabilities.includes(filter.capability))
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  // Highest-priority available source offering a capability
+  async pick(capability: DataSourceCapability): Promise<DataSource | undefined> {
+    for (const source of this.list({ capability })) {
+      if (await source.isAvailable()) return source;
+    }
+    return undefined;
+  }
+
+  // Fetch through the source's rate limiter, recording latency and failures
+  async call(name: string, query: DataQuery): Promise<DataResult> {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new Error(`Unknown data source: ${name}`);
+    }
+
+    entry.health.throttledMs += await entry.bucket.take();
+    entry.health.requests += 1;
+    const started = Date.now();
+
+    try {
+      const result = await entry.source.fetch(query);
+      entry.health.lastLatencyMs = Date.now() - started;
+      entry.health.lastSuccessAt = new Date().toISOString();
+      entry.health.consecutiveFailures = 0;
+      return result;
+    } catch (error) {
+      entry.health.lastLatencyMs = Date.now() - started;
+      entry.health.failures += 1;
+      entry.health.consecutiveFailures += 1;
+      entry.health.lastErrorAt = new Date().toISOString();
+      entry.health.lastError = error.message;
+      throw error;
+    } finally {
+      if (this.reporter) {
+        const snapshot = await this.healthOf(entry);
+        this.reporter(snapshot).catch(reportError =>
+          console.error(`Failed to report health for ${name}:`, reportError));
+      }
+    }
+  }
+
+  async health(): Promise<SourceHealth[]> {
+    return Promise.all([...this.entries.values()].map(entry => this.healthOf(entry)));
+  }
+
+  private async healthOf(entry: SourceEntry): Promise<SourceHealth> {
+    const available = await entry.source.isAvailable().catch(() => false);
+    const { consecutiveFailures, failures, requests } = entry.health;
+
+    let status: SourceHealthStatus = 'healthy';
+    if (!available) status = 'unconfigured';
+    else if (consecutiveFailures >= DOWN_AFTER_FAILURES) status = 'down';
+    else if (consecutiveFailures > 0 || (requests > 0 && failures / requests > 0.2)) status = 'degraded';
+
+    return {
+      ...entry.health,
+      status,
+      available,
+      tokensAvailable: entry.bucket.available
+    };
+  }
+}
+
+// A recorded response: returned when every field set in `query` matches
+export interface SourceFixture {
+  query: Partial<DataQuery>;
+  result: Omit<DataResult, 'source'>;
+}
+
+// Offline stand-in that replays recorded responses under a real source's name
+// and declared shape. Unmatched queries return an empty result, never the network.
+export class FixtureSource implements DataSource {
+  name: string;
+  type: DataSource['type'];
+  priority: number;
+  capabilities: DataSourceCapability[];
+  rateLimit: DataSource['rateLimit'];
+
+  constructor(
+    like: Pick<DataSource, 'name' | 'type' | 'priority' | 'capabilities'>,
+    private fixtures: SourceFixture[]
+  ) {
+    this.name = like.name;
+    this.type = like.type;
+    this.priority = like.priority;
+    this.capabilities = like.capabilities;
+    // Replays are free; never throttle them
+    this.rateLimit = { requests: 1000, window: 1000 };
+  }
+
+  async fetch(query: DataQuery): Promise<DataResult> {
+    const fixture = this.fixtures.find(candidate =>
+      (Object.keys(candidate.query) as Array<keyof DataQuery>)
+        .every(key => candidate.query[key] === query[key])
+    );
+
+    return fixture
+      ? { source: this.name, ...fixture.result }
+      : { source: this.name, confidence: 0, data: [], nextPageToken: null };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+}
+
+// Wraps a live source and keeps every query/response pair so a real run can
+// be captured once and replayed later through FixtureSource.
+export class RecordingSource implements DataSource {
+  readonly recorded: SourceFixture[] = [];
+
+  constructor(private inner: DataSource) {}
+
+  get name() { return this.inner.name; }
+  get type() { return this.inner.type; }
+  get priority() { return this.inner.priority; }
+  get capabilities() { return this.inner.capabilities; }
+  get rateLimit() { return this.inner.rateLimit; }
+
+  async fetch(query: DataQuery): Promise<DataResult> {
+    const { source: _source, ...result } = await this.inner.fetch(query);
+    this.recorded.push({ query: { ...query }, result });
+    return { source: this.name, ...result };
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.inner.isAvailable();
+  }
+}
+
 // Data Aggregator - Orchestrates multiple sources
 export class DataAggregator {
-  private sources: DataSource[] = [];
   private cache: Map<string, { data: DataResult; timestamp: number }> = new Map();
   private cacheTimeout = 15 * 60 * 1000; // 15 minutes
-  
+
+  constructor(readonly registry: DataSourceRegistry = new DataSourceRegistry()) {}
+
   addSource(source: DataSource) {
-    this.sources.push(source);
-    this.sources.sort((a, b) => a.priority - b.priority);
+    this.registry.register(source);
   }
-  
+
   async fetchFromAllSources(query: DataQuery): Promise<AggregatedResult> {
     const cacheKey = JSON.stringify(query);
     const cached = this.cache.get(cacheKey);
-    
+
     if (cached && Date.now() - cached.timestamp < this.cacheTimeout) {
       return { results: [cached.data], fromCache: true };
     }
-    
+
     const results: DataResult[] = [];
     const errors: Error[] = [];
-    
+
     // Fetch from primary sources first
-    const primarySources = this.sources.filter(s => s.type === 'primary');
+    const primarySources = this.registry.list({ type: 'primary' });
     for (const source of primarySources) {
       try {
         if (await source.isAvailable()) {
-          const result = await this.rateLimitedFetch(source, query);
+          const result = await this.registry.call(source.name, query);
           results.push(result);
-          
+
           // If we get good results from primary, we can skip others
           if (result.data.length >= 20) {
             break;
@@ -389,14 +786,14 @@ export class DataAggregator {
         errors.push(new Error(`${source.name}: ${error.message}`));
       }
     }
-    
+
     // Enrich with secondary sources
-    const enrichmentSources = this.sources.filter(s => s.type === 'enrichment');
+    const enrichmentSources = this.registry.list({ type: 'enrichment' });
     await Promise.all(
       enrichmentSources.map(async (source) => {
         try {
           if (await source.isAvailable()) {
-            const result = await this.rateLimitedFetch(source, query);
+            const result = await this.registry.call(source.name, query);
             results.push(result);
           }
         } catch (error) {
@@ -404,57 +801,60 @@ export class DataAggregator {
         }
       })
     );
-    
+
     // Merge and deduplicate results
     const merged = this.mergeResults(results);
-    
+
     // Cache the result
     this.cache.set(cacheKey, { data: merged, timestamp: Date.now() });
-    
+
     return {
       results: [merged],
       errors,
       fromCache: false
     };
   }
-  
-  private async rateLimitedFetch(source: DataSource, query: DataQuery): Promise<DataResult> {
-    // Simple rate limiting implementation
-    // In production, use a proper rate limiter like bottleneck
-    await new Promise(resolve => setTimeout(resolve, 100));
-    return source.fetch(query);
-  }
-  
+
+  // Resolve records from every source into one entry per real business and
+  // keep per-field provenance (see lib/entity-resolution.ts)
   private mergeResults(results: DataResult[]): DataResult {
-    const mergedData = new Map<string, BusinessData>();
-    
-    for (const result of results) {
-      for (const business of result.data) {
-        const key = `${business.name}-${business.city}-${business.state}`.toLowerCase();
-        const existing = mergedData.get(key);
-        
-        if (!existing || result.confidence > 0.8) {
-          mergedData.set(key, {
-            ...existing,
-            ...business,
-            // Keep non-null values from multiple sources
-            phone: business.phone || existing?.phone,
-            website: business.website || existing?.website,
-            email: business.email || existing?.email,
-            rating: business.rating || existing?.rating,
-            reviewCount: business.reviewCount || existing?.reviewCount
-          });
-        }
-      }
-    }
-    
+    const records = results.flatMap(result =>
+      result.data.map(business => ({ source: result.source, confidence: result.confidence, business }))
+    );
+
+    const clusters = clusterEntities(records, ({ business }) => identityKeys({
+      place_id: business.placeId,
+      name: business.name,
+      phone: business.phone,
+      website: business.website,
+      city: business.city,
+      state: business.state,
+      lat: business.lat,
+      lng: business.lng
+    }));
+
+    const merged = clusters.map(cluster => {
+      const { data, provenance } = mergeWithProvenance(cluster.map(({ source, confidence, business }) => ({
+        source,
+        confidence,
+        observed_at: business.lastUpdated,
+        data: { ...business, provenance: undefined, sources: undefined } as Record<string, unknown>
+      })));
+      return {
+        ...(data as unknown as BusinessData),
+        provenance,
+        sources: [...new Set(cluster.map(({ source }) => source))]
+      };
+    });
+
     return {
       source: 'aggregated',
       confidence: Math.max(...results.map(r => r.confidence)),
-      data: Array.from(mergedData.values()),
+      data: merged,
       metadata: {
         sources: results.map(r => r.source),
-        totalResults: mergedData.size
+        totalResults: merged.length,
+        duplicatesMerged: records.length - merged.length
       }
     };
   }
@@ -466,22 +866,66 @@ interface AggregatedResult {
   fromCache: boolean;
 }
 
+
+type SourceFactory = (env: (key: string) => string | undefined) => DataSource | null;
+
+// Built-in sources keyed by name. Each returns null when its key is missing.
+export const BUILT_IN_SOURCES: Record<string, SourceFactory> = {
+  google_places_text: (env) => {
+    const key = env('GOOGLE_PLACES_API_KEY');
+    return key ? new GooglePlacesTextSearchSource(key, VERTICAL_TO_PLACE_TYPES) : null;
+  },
+  google_places: (env) => {
+    const key = env('GOOGLE_PLACES_API_KEY');
+    return key ? new GooglePlacesSource(key) : null;
+  },
+  bing_places: (env) => {
+    const key = env('BING_MAPS_API_KEY');
+    return key ? new BingPlacesSource(key) : null;
+  },
+  yelp: (env) => {
+    const key = env('YELP_API_KEY');
+    return key ? new YelpSource(key) : null;
+  },
+  apollo: (env) => {
+    const key = env('APOLLO_API_KEY');
+    return key ? new ApolloSource(key) : null;
+  },
+  clearbit: (env) => {
+    const key = env('CLEARBIT_API_KEY');
+    return key ? new ClearbitSource(key) : null;
+  }
+};
+
+export interface DataSourceRegistryOptions {
+  // 'fixtures' replays recorded responses instead of calling vendors.
+  // Defaults to the DATA_SOURCE_MODE env var, then 'live'.
+  mode?: 'live' | 'fixtures';
+  fixtures?: Record<string, { like: Pick<DataSource, 'name' | 'type' | 'priority' | 'capabilities'>; fixtures: SourceFixture[] }>;
+  healthReporter?: HealthReporter;
+  env?: (key: string) => string | undefined;
+}
+
+export function createDataSourceRegistry(options: DataSourceRegistryOptions = {}): DataSourceRegistry {
+  const env = options.env ?? ((key: string) => Deno.env.get(key));
+  const mode = options.mode ?? (env('DATA_SOURCE_MODE') === 'fixtures' ? 'fixtures' : 'live');
+  const registry = new DataSourceRegistry(options.healthReporter);
+
+  if (mode === 'fixtures') {
+    for (const recorded of Object.values(options.fixtures ?? RECORDED_SOURCES)) {
+      registry.register(new FixtureSource(recorded.like, recorded.fixtures));
+    }
+    return registry;
+  }
+
+  for (const factory of Object.values(BUILT_IN_SOURCES)) {
+    const source = factory(env);
+    if (source) registry.register(source);
+  }
+  return registry;
+}
+
 // Factory function to create configured aggregator
-export function createDataAggregator(): DataAggregator {
-  const aggregator = new DataAggregator();
-  
-  // Add sources based on available API keys
-  const googleKey = Deno.env.get('GOOGLE_PLACES_API_KEY');
-  const bingKey = Deno.env.get('BING_MAPS_API_KEY');
-  const yelpKey = Deno.env.get('YELP_API_KEY');
-  const apolloKey = Deno.env.get('APOLLO_API_KEY');
-  const clearbitKey = Deno.env.get('CLEARBIT_API_KEY');
-  
-  if (googleKey) aggregator.addSource(new GooglePlacesSource(googleKey));
-  if (bingKey) aggregator.addSource(new BingPlacesSource(bingKey));
-  if (yelpKey) aggregator.addSource(new YelpSource(yelpKey));
-  if (apolloKey) aggregator.addSource(new ApolloSource(apolloKey));
-  if (clearbitKey) aggregator.addSource(new ClearbitSource(clearbitKey));
-  
-  return aggregator;
-}
\ No newline at end of file
+export function createDataAggregator(options: DataSourceRegistryOptions = {}): DataAggregator {
+  return new DataAggregator(createDataSourceRegistry(options));
+}
@@ -0,0 +1,245 @@
+// supabase/functions/lib/dsl-describe.ts
+// LeadQuery → natural language, the inverse of lib/dsl-parser.ts. The query
+// editor regenerates the prompt with describeLeadQuery after every structured
+// edit, so a saved search always reads as a sentence. The sentence only uses
+// phrasings the offline parser reads back to the same query
+// (tests/dsl-parser.spec.ts checks the round trip); anything it can't carry
+// is listed in `omitted` and survives only in dsl_json.
+
+import type { BuiltInVertical, Constraint, LeadQuery } from "./lead-query.ts";
+import { BUILT_IN_VERTICALS, findVertical, pluralizeSynonym, queryVerticals, type VerticalDefinition } from "./verticals.ts";
+
+export type ConstraintKey = keyof Constraint;
+export type ConstraintList = "must" | "optional" | "exclude";
+
+export interface ConstraintField {
+  label: string;
+  kind: "flag" | "number" | "range";
+}
+
+export const CONSTRAINT_FIELDS: Record<ConstraintKey, ConstraintField> = {
+  no_website: { label: "No website", kind: "flag" },
+  has_chatbot: { label: "Has chatbot", kind: "flag" },
+  has_online_booking: { label: "Has online booking", kind: "flag" },
+  owner_identified: { label: "Owner identified", kind: "flag" },
+  franchise: { label: "Franchise", kind: "flag" },
+  has_payment_processor: { label: "Has payment processor", kind: "flag" },
+  has_crm: { label: "Has CRM", kind: "flag" },
+  has_marketing_automation: { label: "Has marketing automation", kind: "flag" },
+  mobile_responsive: { label: "Mobile responsive", kind: "flag" },
+  ssl_certificate: { label: "Has SSL", kind: "flag" },
+  social_media_active: { label: "Active on social media", kind: "flag" },
+  reviews_count_gt: { label: "Reviews over", kind: "number" },
+  reviews_count_lt: { label: "Reviews under", kind: "number" },
+  reviews_count_gte: { label: "Reviews at least", kind: "number" },
+  reviews_count_lte: { label: "Reviews at most", kind: "number" },
+  rating_gt: { label: "Rating above", kind: "number" },
+  rating_lt: { label: "Rating below", kind: "number" },
+  rating_gte: { label: "Rating at least", kind: "number" },
+  rating_lte: { label: "Rating at most", kind: "number" },
+  years_in_business_gt: { label: "Years in business over", kind: "number" },
+  years_in_business_lt: { label: "Years in business under", kind: "number" },
+  years_in_business_gte: { label: "Years in business at least", kind: "number" },
+  years_in_business_lte: { label: "Years in business at most", kind: "number" },
+  employee_count_range: { label: "Employees", kind: "range" },
+};
+
+// How each flag reads in a sentence. `present` is the flag value meaning the
+// business has the feature, as in the parser's FEATURES table.
+const FEATURE_WORDS: Partial<Record<ConstraintKey, { present: boolean; noun: string; phrase: string; plural: string }>> = {
+  no_website: { present: false, noun: "website", phrase: "a website", plural: "websites" },
+  has_chatbot: { present: true, noun: "chatbot", phrase: "a chatbot", plural: "chatbots" },
+  has_online_booking: { present: true, noun: "online booking", phrase: "online booking", plural: "online booking" },
+  has_payment_processor: { present: true, noun: "online payments", phrase: "online payments", plural: "online payments" },
+  has_crm: { present: true, noun: "CRM", phrase: "a CRM", plural: "CRMs" },
+  has_marketing_automation: { present: true, noun: "marketing automation", phrase: "marketing automation", plural: "marketing automation" },
+  mobile_responsive: { present: true, noun: "responsive website", phrase: "a responsive website", plural: "responsive websites" },
+  ssl_certificate: { present: true, noun: "SSL", phrase: "an SSL certificate", plural: "SSL certificates" },
+  social_media_active: { present: true, noun: "active social media", phrase: "active social media", plural: "active social media" },
+  owner_identified: { present: true, noun: "identified owner", phrase: "an identified owner", plural: "identified owners" },
+  franchise: { present: true, noun: "franchise", phrase: "a franchise", plural: "franchises" },
+};
+
+// Plural nouns the parser reads as each built-in vertical; custom verticals
+// use the plural of their first synonym
+const VERTICAL_NOUNS: Record<BuiltInVertical, string> = {
+  dentist: "dentists",
+  law_firm: "law firms",
+  contractor: "contractors",
+  hvac: "HVAC companies",
+  roofing: "roofers",
+  restaurant: "restaurants",
+  retail: "retail stores",
+  healthcare: "medical clinics",
+  fitness: "gyms",
+  beauty: "salons",
+  automotive: "auto repair shops",
+  real_estate: "real estate agents",
+  insurance: "insurance agencies",
+  financial: "financial advisors",
+  generic: "businesses",
+};
+
+const SORT_PHRASES: Record<LeadQuery["sort_by"], string | null> = {
+  score_desc: null,
+  score_asc: "lowest score first",
+  name_asc: "sorted by name",
+  recent_first: "newest first",
+  reviews_desc: "most reviewed",
+};
+
+const DEFAULT_RADIUS_KM = 25;
+// employee_count_range upper bound the parser uses for "at least N employees"
+const OPEN_EMPLOYEE_MAX = 100000;
+
+export interface LeadQueryDescription {
+  prompt: string;
+  // Parts of the query the sentence can't express
+  omitted: string[];
+}
+
+function constraintEntry(constraint: Constraint): [ConstraintKey, unknown] {
+  const [key] = Object.keys(constraint) as ConstraintKey[];
+  return [key, constraint[key]];
+}
+
+// Short chip label: "No website", "Over 100 reviews", "10-50 employees"
+export function describeConstraint(constraint: Constraint): string {
+  const [key, value] = constraintEntry(constraint);
+  if (!key) return "Any";
+  const words = FEATURE_WORDS[key];
+  if (key === "franchise") return value ? "Franchise" : "Independent";
+  if (words && typeof value === "boolean") return value === words.present ? `Has ${words.noun}` : `No ${words.noun}`;
+  const phrase = key === "employee_count_range" && Array.isArray(value)
+    ? employeePhrase(value as number[])
+    : thresholdPhrase(key, value as number);
+  return phrase ? phrase.charAt(0).toUpperCase() + phrase.slice(1) : `${key.replace(/_/g, " ")}: ${String(value)}`;
+}
+
+function employeePhrase([low, high]: number[]): string {
+  if (low <= 0) return `at most ${high} employees`;
+  if (high >= OPEN_EMPLOYEE_MAX) return `at least ${low} employees`;
+  return `${low}-${high} employees`;
+}
+
+function thresholdPhrase(key: ConstraintKey, value: number): string | null {
+  switch (key) {
+    case "reviews_count_gt": return `over ${value} reviews`;
+    case "reviews_count_lt": return value === 1 ? "no reviews" : `under ${value} reviews`;
+    case "reviews_count_gte": return `at least ${value} reviews`;
+    case "reviews_count_lte": return `at most ${value} reviews`;
+    case "rating_gt": return `rated above ${value}`;
+    case "rating_lt": return `rated below ${value}`;
+    case "rating_gte": return `rated at least ${value}`;
+    case "rating_lte": return `rated at most ${value}`;
+    case "years_in_business_gt": return `over ${value} years in business`;
+    case "years_in_business_lt": return `under ${value} years in business`;
+    case "years_in_business_gte": return `at least ${value} years in business`;
+    case "years_in_business_lte": return `at most ${value} years in business`;
+    default: return null;
+  }
+}
+
+// "A, B and C" / "A, B or C"
+function joinWords(parts: string[], conjunction = "and"): string {
+  if (parts.length <= 1) return parts.join("");
+  return `${parts.slice(0, -1).join(", ")} ${conjunction} ${parts[parts.length - 1]}`;
+}
+
+// The must/optional clauses of one list: "with a CRM", "without a website or
+// a chatbot", "over 100 reviews", "independent"
+function constraintPhrases(constraints: Constraint[]): string[] {
+  const present: string[] = [];
+  const absent: string[] = [];
+  const other: string[] = [];
+  for (const constraint of constraints) {
+    const [key, value] = constraintEntry(constraint);
+    const words = key ? FEATURE_WORDS[key] : undefined;
+    if (key === "franchise" && typeof value === "boolean") {
+      other.push(value ? "franchised" : "independent");
+    } else if (words && typeof value === "boolean") {
+      (value === words.present ? present : absent).push(words.phrase);
+    } else if (key === "employee_count_range" && Array.isArray(value)) {
+      other.push(employeePhrase(value as number[]));
+    } else if (key) {
+      const phrase = thresholdPhrase(key, value as number);
+      if (phrase) other.push(phrase);
+    }
+  }
+  return [
+    ...(present.length > 0 ? [`with ${joinWords(present)}`] : []),
+    ...(absent.length > 0 ? [`without ${joinWords(absent, "or")}`] : []),
+    ...other,
+  ];
+}
+
+function placeList(geo: LeadQuery["geo"]): string[] {
+  const places: string[] = [];
+  if (geo.city) places.push(`${geo.city}, ${geo.state}`);
+  for (const location of geo.locations ?? []) places.push(`${location.city}, ${location.state}`);
+  for (const county of geo.counties ?? []) {
+    places.push(/\b(county|parish)$/i.test(county) ? `${county}, ${geo.state}` : `${county} County, ${geo.state}`);
+  }
+  for (const zip of geo.zip_codes ?? []) places.push(`ZIP ${zip}`);
+  return places;
+}
+
+function geoPhrase(geo: LeadQuery["geo"], omitted: string[]): string {
+  const places = joinWords(placeList(geo));
+  if (geo.neighborhoods?.length) omitted.push(`neighborhoods (${geo.neighborhoods.join(", ")})`);
+  if (geo.shape?.type === "polygon") {
+    omitted.push("the drawn map area");
+    return places ? `inside a drawn map area near ${places}` : "inside a drawn map area";
+  }
+  if (geo.shape?.type === "drive_time") return `within ${geo.shape.minutes} minutes of ${places}`;
+  if (geo.radius_km !== undefined && geo.radius_km !== DEFAULT_RADIUS_KM) return `within ${geo.radius_km} km of ${places}`;
+  return `in ${places}`;
+}
+
+function verticalNoun(id: string, verticals: VerticalDefinition[]): string {
+  const builtIn = VERTICAL_NOUNS[id as BuiltInVertical];
+  if (builtIn) return builtIn;
+  const synonym = findVertical(verticals, id)?.synonyms[0];
+  return synonym ? pluralizeSynonym(synonym) : VERTICAL_NOUNS.generic;
+}
+
+// Regenerates a readable prompt from a query: "Find 250 dentists in Columbia,
+// SC without a website, over 100 reviews, preferably with online booking"
+export function describeLeadQuery(dsl: LeadQuery, verticals: VerticalDefinition[] = BUILT_IN_VERTICALS): LeadQueryDescription {
+  const omitted: string[] = [];
+  const must = dsl.constraints?.must ?? [];
+
+  // Franchise adjectives read best before the noun: "independent dentists"
+  const adjectives = must.filter(constraint => typeof constraint.franchise === "boolean");
+  const mustPhrases = constraintPhrases(must.filter(constraint => !adjectives.includes(constraint)));
+  const optionalPhrases = constraintPhrases(dsl.constraints?.optional ?? []);
+
+  const excluded: string[] = [];
+  for (const constraint of dsl.constraints?.exclude ?? []) {
+    const [key, value] = constraintEntry(constraint);
+    const words = key ? FEATURE_WORDS[key] : undefined;
+    if (words && value === words.present) excluded.push(words.plural);
+    else omitted.push(`excluding ${describeConstraint(constraint).toLowerCase()}`);
+  }
+
+  const clauses = [
+    ...(mustPhrases.length > 0 ? [joinWords(mustPhrases)] : []),
+    ...(optionalPhrases.length > 0 ? [`preferably ${joinWords(optionalPhrases)}`] : []),
+    ...(excluded.length > 0 ? [`excluding ${joinWords(excluded, "or")}`] : []),
+    ...(dsl.exclusions?.length ? [`except ${joinWords(dsl.exclusions)}`] : []),
+    ...(SORT_PHRASES[dsl.sort_by] ? [SORT_PHRASES[dsl.sort_by]!] : []),
+    ...(dsl.scoring?.profile && dsl.scoring.profile !== "generic" ? [`scoring profile ${dsl.scoring.profile}`] : []),
+  ];
+
+  if (dsl.result_size?.minimum !== undefined) omitted.push(`a minimum of ${dsl.result_size.minimum} results`);
+  if (dsl.scoring?.weights) omitted.push("custom scoring weights");
+
+  const noun = [
+    ...adjectives.map(constraint => (constraint.franchise ? "franchised" : "independent")),
+    joinWords(queryVerticals(dsl).map(id => verticalNoun(id, verticals))),
+  ].join(" ");
+  // Stored queries that failed to upgrade may lack geo
+  const where = dsl.geo ? ` ${geoPhrase(dsl.geo, omitted)}` : "";
+  const head = `Find ${dsl.result_size?.target ?? 250} ${noun}${where}`;
+  return { prompt: clauses.length > 0 ? `${head} ${clauses.join(", ")}` : head, omitted };
+}
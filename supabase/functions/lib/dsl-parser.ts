@@ -0,0 +1,1039 @@
+// supabase/functions/lib/dsl-parser.ts
+// Deterministic prompt → LeadQuery parser. It needs no LLM: parse-prompt uses
+// it as the offline mode and to seed the LLM, and the Express server and the
+// frontend mock use it directly. Every clause it understands is reported as a
+// span (character offsets into the prompt plus the DSL path it produced), so
+// the UI can show which words became which constraint.
+//
+// The prompt is tokenized into words, numbers and a few symbols, then read
+// left to right. At each token the first matching rule consumes it:
+//
+//   threshold := COMPARATOR NUMBER UNIT          "over 100 reviews", "under 3.5 stars"
+//              | NUMBER ("+" | "plus") UNIT      "100+ reviews"
+//              | SUBJECT COMPARATOR NUMBER UNIT? "rated below 3.5", "rating above 4"
+//              | "between" NUMBER "and" NUMBER UNIT
+//              | NUMBER "-" NUMBER UNIT          "10-50 employees"
+//   radius    := "within" NUMBER DISTANCE_UNIT ("of" locations)?
+//   drive     := "within"? NUMBER "minute" "drive"? (("of" | "from") locations)?
+//   size      := ("top" | "first" | "limit" | "up to" ...)? NUMBER (VERTICAL | "leads" | "results")
+//   sort      := "sorted by name" | "most reviewed" | "newest first" ...
+//   exclusion := ("excluding" | "except") (FEATURE | NAME)
+//   preference:= ("preferably" | "ideally") (threshold | feature)+   → constraints.optional
+//   profile   := "scoring profile" PROFILE_ID                       "scoring profile dentist-intake"
+//   locations := ("in" | "near" | "around" | "of") place (("," | "and" | "or") place)*
+//   place     := ZIP | WORD+ "county"? ((",")? STATE)?
+//   feature   := NEGATOR? FEATURE (("or" | "nor" | ",") FEATURE)*
+//   vertical  := VERTICAL_PHRASE                  a taxonomy synonym (lib/verticals.ts)
+//
+// A negator ("no", "without", "doesn't have", "non-") scopes over the features
+// coordinated after it: "without a chatbot or online booking" negates both.
+// "and" continues the scope only for prepositional negators ("without X and
+// Y"); after "no X and Y" the Y is positive, as is anything after "with".
+//
+// Lexicon entries are matched on stemmed tokens (trailing plural "s" removed),
+// longest phrase first. Place names, states and ZIP prefixes come from the
+// bundled gazetteer (lib/us-gazetteer.ts); the first city is geo.city and
+// further cities, counties and ZIPs fill the rest of geo. Golden-file
+// corpus: tests/fixtures/dsl-parser-golden.json.
+
+import {
+  DEFAULT_COMPLIANCE_FLAGS,
+  LEAD_QUERY_VERSION,
+  LeadQuerySchema,
+  SORT_ORDERS,
+  formatLeadQueryIssues,
+  type Constraint,
+  type LeadQuery,
+  type Vertical,
+} from "./lead-query.ts";
+import { CITY_NAMES, findCity, stateForZip, US_STATE_CODES, US_STATES } from "./us-gazetteer.ts";
+import { BUILT_IN_VERTICALS, GENERIC_VERTICAL, type VerticalDefinition } from "./verticals.ts";
+
+export const OFFLINE_PARSER_VERSION = "offline-1";
+
+export type DslSpanKind =
+  | "vertical"
+  | "location"
+  | "radius"
+  | "drive_time"
+  | "constraint"
+  | "exclusion"
+  | "result_size"
+  | "sort"
+  | "scoring_profile";
+
+export interface DslSpan {
+  start: number;
+  end: number;
+  text: string;
+  kind: DslSpanKind;
+  // Where the clause landed in the DSL, e.g. "constraints.must.1"; absent
+  // when the clause was understood but could not be represented
+  path?: string;
+  value: unknown;
+}
+
+// One place named in the prompt: a city, a ZIP or a county (city is empty
+// for the latter two, and for a bare state)
+export interface ParsedLocation {
+  city: string;
+  state?: string;
+  zip?: string;
+  county?: string;
+  start: number;
+  end: number;
+}
+
+export interface DslParseOptions {
+  // Used when the prompt names no location
+  defaultLocation?: { city: string; state: string };
+  // The vertical taxonomy to read business types from; defaults to the built-ins
+  verticals?: VerticalDefinition[];
+}
+
+export interface DslParseResult {
+  // The validated query, or null when the prompt lacks something the schema
+  // requires (see errors)
+  dsl: LeadQuery | null;
+  // The same query before validation, for callers that complete it elsewhere
+  draft: Record<string, unknown>;
+  spans: DslSpan[];
+  locations: ParsedLocation[];
+  warnings: string[];
+  errors: string[];
+  confidence: number;
+}
+
+interface Token {
+  text: string;
+  stem: string;
+  raw: string;
+  start: number;
+  end: number;
+}
+
+type ConstraintKey = keyof Constraint;
+type ConstraintList = "must" | "optional" | "exclude";
+
+// A clause recognised by a rule, before it is placed in the DSL
+interface Clause {
+  kind: DslSpanKind;
+  from: number;
+  to: number;
+  value: unknown;
+  list?: ConstraintList;
+}
+
+// Generic nouns that may follow a vertical without naming another one
+const VERTICAL_HEADS = ["shop", "store", "office", "clinic", "company", "firm", "agency", "service", "practice", "provider", "specialist"];
+
+// Features a business has or lacks. `key` is the constraint flag and
+// `present` the flag value meaning "the business has it".
+const FEATURES: Array<{ key: ConstraintKey; present: boolean; phrases: string[] }> = [
+  { key: "no_website", present: false, phrases: ["website", "site", "web site", "web presence", "webpage"] },
+  { key: "has_chatbot", present: true, phrases: ["chatbot", "chat bot", "live chat", "chat", "chat widget", "messaging"] },
+  {
+    key: "has_online_booking",
+    present: true,
+    phrases: ["online booking", "booking", "online scheduling", "scheduling", "appointment booking", "online appointment", "booking system"],
+  },
+  { key: "has_payment_processor", present: true, phrases: ["payment processor", "online payment", "payment", "payment processing"] },
+  { key: "has_crm", present: true, phrases: ["crm"] },
+  { key: "has_marketing_automation", present: true, phrases: ["marketing automation", "email marketing"] },
+  { key: "mobile_responsive", present: true, phrases: ["mobile friendly", "mobile responsive", "responsive site", "responsive website", "mobile site"] },
+  { key: "ssl_certificate", present: true, phrases: ["ssl", "ssl certificate", "https", "secure site"] },
+  { key: "social_media_active", present: true, phrases: ["social media", "social presence", "active social media"] },
+  {
+    key: "owner_identified",
+    present: true,
+    phrases: ["owner identified", "identified owner", "owner known", "known owner", "owner contact", "owner info", "owner name", "owner"],
+  },
+  { key: "franchise", present: true, phrases: ["franchise", "franchised", "chain"] },
+  // Adjectives that already carry their polarity
+  { key: "franchise", present: false, phrases: ["independent", "independently owned", "locally owned", "family owned"] },
+];
+
+// Prepositional negators distribute over "and"; determiners do not
+const NEGATORS: Array<{ phrase: string; distributes: boolean }> = [
+  { phrase: "without", distributes: true },
+  { phrase: "lacking", distributes: true },
+  { phrase: "missing", distributes: true },
+  { phrase: "doesn't have", distributes: true },
+  { phrase: "doesnt have", distributes: true },
+  { phrase: "does not have", distributes: true },
+  { phrase: "don't have", distributes: true },
+  { phrase: "dont have", distributes: true },
+  { phrase: "do not have", distributes: true },
+  { phrase: "not using", distributes: true },
+  { phrase: "no", distributes: false },
+  { phrase: "not", distributes: false },
+  { phrase: "non", distributes: false },
+];
+
+const GREATER = ["over", "more than", "greater than", "above", "at least", "minimum", "min", ">"];
+const LESS = ["under", "less than", "fewer than", "below", "at most", "no more than", "maximum", "max", "<"];
+// "at least 4.5" keeps 4.5 itself; these map to the _gte/_lte constraint keys
+const INCLUSIVE = new Set(["at least", "minimum", "min", "at most", "no more than", "maximum", "max"]);
+
+type Unit = "reviews" | "rating" | "years" | "employees";
+
+const UNITS: Record<Unit, string[]> = {
+  reviews: ["review", "google review", "rating count"],
+  rating: ["star", "star rating", "stars rating", "rating"],
+  years: ["year", "year in business", "year old"],
+  employees: ["employee", "staff", "staff member", "people"],
+};
+
+// Words that introduce a threshold before the comparator: "rated below 3.5"
+const SUBJECTS: Record<string, Unit> = {
+  "rated": "rating",
+  "rating": "rating",
+  "rating of": "rating",
+  "review": "reviews",
+  "review count": "reviews",
+  "been in business": "years",
+  "in business": "years",
+  "in business for": "years",
+  "employee": "employees",
+  "employee count": "employees",
+};
+
+const THRESHOLD_KEYS: Record<Exclude<Unit, "employees">, Record<"gt" | "lt" | "gte" | "lte", ConstraintKey>> = {
+  reviews: { gt: "reviews_count_gt", lt: "reviews_count_lt", gte: "reviews_count_gte", lte: "reviews_count_lte" },
+  rating: { gt: "rating_gt", lt: "rating_lt", gte: "rating_gte", lte: "rating_lte" },
+  years: { gt: "years_in_business_gt", lt: "years_in_business_lt", gte: "years_in_business_gte", lte: "years_in_business_lte" },
+};
+
+// Vague qualifiers become optional constraints that only boost ranking
+const QUALIFIERS: Array<{ phrase: string; constraint: Constraint }> = [
+  { phrase: "many review", constraint: { reviews_count_gt: 50 } },
+  { phrase: "lot of review", constraint: { reviews_count_gt: 50 } },
+  { phrase: "high review count", constraint: { reviews_count_gt: 50 } },
+  { phrase: "few review", constraint: { reviews_count_lt: 10 } },
+  { phrase: "low review count", constraint: { reviews_count_lt: 10 } },
+  { phrase: "highly rated", constraint: { rating_gt: 4 } },
+  { phrase: "high rating", constraint: { rating_gt: 4 } },
+  { phrase: "good rating", constraint: { rating_gt: 4 } },
+  { phrase: "excellent rating", constraint: { rating_gt: 4 } },
+  { phrase: "top rated", constraint: { rating_gt: 4 } },
+  { phrase: "low rating", constraint: { rating_lt: 3 } },
+  { phrase: "poor rating", constraint: { rating_lt: 3 } },
+  { phrase: "bad rating", constraint: { rating_lt: 3 } },
+  { phrase: "poorly rated", constraint: { rating_lt: 3 } },
+  { phrase: "established", constraint: { years_in_business_gt: 5 } },
+  { phrase: "new business", constraint: { years_in_business_lt: 2 } },
+  { phrase: "startup", constraint: { years_in_business_lt: 2 } },
+];
+
+const SORTS: Array<{ phrase: string; sort: (typeof SORT_ORDERS)[number] }> = [
+  { phrase: "sorted by name", sort: "name_asc" },
+  { phrase: "sort by name", sort: "name_asc" },
+  { phrase: "alphabetically", sort: "name_asc" },
+  { phrase: "alphabetical", sort: "name_asc" },
+  { phrase: "most reviewed", sort: "reviews_desc" },
+  { phrase: "sorted by review", sort: "reviews_desc" },
+  { phrase: "sort by review", sort: "reviews_desc" },
+  { phrase: "newest first", sort: "recent_first" },
+  { phrase: "most recent first", sort: "recent_first" },
+  { phrase: "lowest score first", sort: "score_asc" },
+  { phrase: "best first", sort: "score_desc" },
+  { phrase: "sorted by score", sort: "score_desc" },
+];
+
+const SIZE_VERBS = ["find", "get", "show", "top", "first", "limit", "up to", "give me", "list"];
+const SIZE_NOUNS = ["lead", "result", "business", "company", "prospect", "listing"];
+const RADIUS_UNITS: Record<string, number> = { mile: 1.609, mi: 1.609, km: 1, kilometer: 1, kilometre: 1 };
+const ZIP_WORDS = ["zip", "zip code", "zipcode", "postal code"];
+const LOCATION_PREPOSITIONS = ["in", "near", "around", "across", "throughout", "serving", "based in", "located in", ...ZIP_WORDS];
+const DRIVE_UNITS = ["minute", "min", "minute drive", "min drive", "minute driving distance", "minute drive time"];
+const EXCLUDERS = ["excluding", "except", "exclude", "other than", "but not"];
+const POSITIVE_MARKERS = ["with", "has", "have", "having", "using", "that use", "that have", "who have", "but"];
+// Constraints after these only boost ranking
+const PREFERENCE_MARKERS = ["preferably", "ideally", "nice to have", "bonus if", "bonus for"];
+const PROFILE_MARKERS = ["scoring profile", "scored as", "score as"];
+// Words that end a place or business name
+const NAME_BREAKS = [
+  ...POSITIVE_MARKERS, ...EXCLUDERS, ...PREFERENCE_MARKERS, ...PROFILE_MARKERS,
+  "without", "no", "not", "within", "sorted", "sort", "that", "who", "which", "where", "for", "me",
+];
+
+// Words that carry no meaning for the query; anything else left unparsed is
+// reported back as a warning
+const FILLER = new Set([
+  "a", "an", "the", "any", "all", "some", "their", "its", "own", "of", "for", "to", "me", "us", "i", "we",
+  "that", "who", "which", "with", "and", "or", "nor", "&", ",", ";", "is", "are", "do", "does", "please",
+  "find", "get", "show", "list", "search", "looking", "look", "want", "need", "give", "lead", "result",
+  "business", "company", "prospect", "local", "small", "area", "nearby", "there", "them", "they", "yet",
+  "has", "have", "having", "using", "but", "also", "only", "currently", "still", "at", "on", "by", "up",
+]);
+
+// Codes that are also common English words only count after a comma or in capitals
+const AMBIGUOUS_CODES = new Set(["IN", "OR", "ME", "HI", "OK", "DE", "LA", "PA", "CO", "AL", "MA", "ID", "OH"]);
+
+// Phrases that start another clause, so a place name stops before them
+const CLAUSE_STARTS = [
+  ...QUALIFIERS.map(entry => entry.phrase),
+  ...SORTS.map(entry => entry.phrase),
+  ...NEGATORS.map(entry => entry.phrase),
+  ...Object.keys(SUBJECTS),
+];
+
+const MIN_TARGET = 10;
+const MAX_TARGET = 1000;
+const MIN_RADIUS_KM = 1;
+const MAX_RADIUS_KM = 100;
+const MIN_DRIVE_MINUTES = 1;
+const MAX_DRIVE_MINUTES = 120;
+
+function stem(word: string): string {
+  if (word.length > 3 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (/(?:ss|x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") && !word.endsWith("us")) return word.slice(0, -1);
+  return word;
+}
+
+function tokenize(prompt: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\d+(?:\.\d+)?|[a-z]+(?:['’][a-z]+)?|[,;+<>&-]/gi;
+  for (const match of prompt.matchAll(pattern)) {
+    const raw = match[0];
+    const text = raw.toLowerCase().replace("’", "'");
+    tokens.push({ text, stem: stem(text), raw, start: match.index!, end: match.index! + raw.length });
+  }
+  // Hyphens only matter between numbers ("10-50 employees"); elsewhere
+  // "mobile-friendly" reads as "mobile friendly"
+  return tokens.filter((token, i) =>
+    token.text !== "-" || (isNumber(tokens[i - 1]) && isNumber(tokens[i + 1]))
+  );
+}
+
+function isNumber(token: Token | undefined): boolean {
+  return token !== undefined && /^\d/.test(token.text);
+}
+
+function isZip(token: Token | undefined): boolean {
+  return token !== undefined && /^\d{5}$/.test(token.text);
+}
+
+function words(phrase: string): string[] {
+  return phrase.split(" ").map(stem);
+}
+
+class Reader {
+  constructor(readonly tokens: Token[], readonly verticals: VerticalDefinition[] = BUILT_IN_VERTICALS) {}
+
+  // Length of `phrase` at position i, or 0
+  match(i: number, phrase: string): number {
+    const parts = words(phrase);
+    for (let k = 0; k < parts.length; k++) {
+      if (this.tokens[i + k]?.stem !== parts[k]) return 0;
+    }
+    return parts.length;
+  }
+
+  // Longest of `phrases` at position i
+  longest(i: number, phrases: string[]): { phrase: string; length: number } | null {
+    let best: { phrase: string; length: number } | null = null;
+    for (const phrase of phrases) {
+      const length = this.match(i, phrase);
+      if (length > 0 && (!best || length > best.length)) best = { phrase, length };
+    }
+    return best;
+  }
+
+  number(i: number): number | null {
+    return isNumber(this.tokens[i]) ? Number(this.tokens[i].text) : null;
+  }
+
+  unit(i: number): { unit: Unit; length: number } | null {
+    let best: { unit: Unit; length: number } | null = null;
+    for (const [unit, phrases] of Object.entries(UNITS) as Array<[Unit, string[]]>) {
+      const found = this.longest(i, phrases);
+      if (found && (!best || found.length > best.length)) best = { unit, length: found.length };
+    }
+    return best;
+  }
+
+  vertical(i: number): { vertical: Vertical; length: number } | null {
+    let best: { vertical: Vertical; length: number } | null = null;
+    for (const { id, synonyms } of this.verticals) {
+      const found = this.longest(i, synonyms);
+      if (found && (!best || found.length > best.length)) best = { vertical: id, length: found.length };
+    }
+    return best;
+  }
+
+  feature(i: number): { key: ConstraintKey; present: boolean; length: number } | null {
+    let best: { key: ConstraintKey; present: boolean; length: number } | null = null;
+    for (const feature of FEATURES) {
+      const found = this.longest(i, feature.phrases);
+      if (found && (!best || found.length > best.length)) best = { key: feature.key, present: feature.present, length: found.length };
+    }
+    return best;
+  }
+
+  // State name or code at i: "south carolina", "SC", or "sc" right after a city
+  state(i: number, afterComma: boolean): { code: string; length: number } | null {
+    const name = this.longest(i, Object.keys(US_STATES));
+    if (name) return { code: US_STATES[name.phrase], length: name.length };
+    const token = this.tokens[i];
+    if (!token || token.text.length !== 2) return null;
+    const code = token.text.toUpperCase();
+    if (!US_STATE_CODES.has(code)) return null;
+    if (AMBIGUOUS_CODES.has(code) && !afterComma && token.raw !== code) return null;
+    return { code, length: 1 };
+  }
+}
+
+function thresholdConstraint(unit: Unit, direction: "gt" | "lt", value: number, inclusive: boolean): Constraint {
+  if (unit === "employees") {
+    // Employee counts are a [min, max] range in the schema
+    return { employee_count_range: direction === "gt" ? [inclusive ? value : value + 1, 100000] : [0, inclusive ? value : value - 1] };
+  }
+  const keys = THRESHOLD_KEYS[unit];
+  return { [inclusive ? keys[direction === "gt" ? "gte" : "lte"] : keys[direction]]: value };
+}
+
+function rangeConstraints(unit: Unit, low: number, high: number): Constraint[] {
+  if (unit === "employees") return [{ employee_count_range: [low, high] }];
+  return [thresholdConstraint(unit, "gt", low, true), thresholdConstraint(unit, "lt", high, true)];
+}
+
+function parseClauses(prompt: string, reader: Reader, warnings: string[]): { clauses: Clause[]; locations: ParsedLocation[]; consumed: boolean[] } {
+  const { tokens } = reader;
+  const clauses: Clause[] = [];
+  const locations: ParsedLocation[] = [];
+  const consumed = tokens.map(() => false);
+  const take = (from: number, to: number) => {
+    for (let k = from; k < to; k++) consumed[k] = true;
+  };
+
+  // Token positions right after a preference marker
+  const preferred: number[] = [];
+
+  const readComparator = (i: number): { direction: "gt" | "lt"; inclusive: boolean; length: number } | null => {
+    const greater = reader.longest(i, GREATER);
+    const less = reader.longest(i, LESS);
+    const found = greater && (!less || greater.length >= less.length) ? { ...greater, direction: "gt" as const } : less ? { ...less, direction: "lt" as const } : null;
+    return found ? { direction: found.direction, inclusive: INCLUSIVE.has(found.phrase), length: found.length } : null;
+  };
+
+  // threshold rules; returns the index after the clause
+  const readThreshold = (i: number): number => {
+    // COMPARATOR NUMBER UNIT
+    const comparator = readComparator(i);
+    if (comparator) {
+      const at = i + comparator.length;
+      const value = reader.number(at);
+      const unit = value !== null ? reader.unit(at + 1) : null;
+      if (value !== null && unit) {
+        const to = at + 1 + unit.length;
+        clauses.push({ kind: "constraint", from: i, to, list: "must", value: thresholdConstraint(unit.unit, comparator.direction, value, comparator.inclusive) });
+        return to;
+      }
+    }
+
+    // SUBJECT COMPARATOR NUMBER UNIT?
+    const subject = reader.longest(i, Object.keys(SUBJECTS));
+    if (subject) {
+      const subjectUnit = SUBJECTS[subject.phrase];
+      const cmp = readComparator(i + subject.length);
+      if (cmp) {
+        const at = i + subject.length + cmp.length;
+        const value = reader.number(at);
+        if (value !== null) {
+          const unit = reader.unit(at + 1);
+          const to = at + 1 + (unit && unit.unit === subjectUnit ? unit.length : 0);
+          clauses.push({ kind: "constraint", from: i, to, list: "must", value: thresholdConstraint(subjectUnit, cmp.direction, value, cmp.inclusive) });
+          return to;
+        }
+      }
+      // "rated 4+"
+      const value = reader.number(i + subject.length);
+      if (value !== null && ["+", "plus"].includes(tokens[i + subject.length + 1]?.text)) {
+        let to = i + subject.length + 2;
+        const unit = reader.unit(to);
+        if (unit && unit.unit === subjectUnit) to += unit.length;
+        clauses.push({ kind: "constraint", from: i, to, list: "must", value: thresholdConstraint(subjectUnit, "gt", value, true) });
+        return to;
+      }
+    }
+
+    // "between" NUMBER "and" NUMBER UNIT
+    if (reader.match(i, "between") && reader.number(i + 1) !== null && reader.match(i + 2, "and") && reader.number(i + 3) !== null) {
+      const unit = reader.unit(i + 4);
+      if (unit) {
+        const to = i + 4 + unit.length;
+        for (const value of rangeConstraints(unit.unit, reader.number(i + 1)!, reader.number(i + 3)!)) {
+          clauses.push({ kind: "constraint", from: i, to, list: "must", value });
+        }
+        return to;
+      }
+    }
+
+    const value = reader.number(i);
+    if (value === null) return i;
+
+    // NUMBER "-" NUMBER UNIT
+    if (tokens[i + 1]?.text === "-" && reader.number(i + 2) !== null) {
+      const unit = reader.unit(i + 3);
+      if (unit) {
+        const to = i + 3 + unit.length;
+        for (const range of rangeConstraints(unit.unit, value, reader.number(i + 2)!)) {
+          clauses.push({ kind: "constraint", from: i, to, list: "must", value: range });
+        }
+        return to;
+      }
+    }
+
+    // NUMBER ("+" | "plus") UNIT, and "NUMBER UNIT or more/less"
+    if (["+", "plus"].includes(tokens[i + 1]?.text)) {
+      const unit = reader.unit(i + 2);
+      if (unit) {
+        const to = i + 2 + unit.length;
+        clauses.push({ kind: "constraint", from: i, to, list: "must", value: thresholdConstraint(unit.unit, "gt", value, true) });
+        return to;
+      }
+    }
+    const unit = reader.unit(i + 1);
+    if (unit) {
+      const after = i + 1 + unit.length;
+      const more = reader.longest(after, ["or more", "or higher", "or better", "and up", "or above"]);
+      const less = reader.longest(after, ["or less", "or fewer", "or lower", "or below"]);
+      if (more || less) {
+        const to = after + (more ?? less)!.length;
+        clauses.push({ kind: "constraint", from: i, to, list: "must", value: thresholdConstraint(unit.unit, more ? "gt" : "lt", value, true) });
+        return to;
+      }
+    }
+    return i;
+  };
+
+  // "Richland County" is a county, anything else a city
+  const namedPlace = (name: string, state: string | undefined, start: number, end: number): ParsedLocation => {
+    const county = name.match(/^(.+?)\s+(county|parish)$/i);
+    return county ? { city: "", county: county[1], state, start, end } : { city: name, state, start, end };
+  };
+
+  const readPlace = (i: number): { place: ParsedLocation; to: number } | null => {
+    // "29201", "zip code 29201"
+    const zipWord = reader.longest(i, ZIP_WORDS);
+    const zipAt = zipWord && isZip(tokens[i + zipWord.length]) ? i + zipWord.length : i;
+    if (isZip(tokens[zipAt])) {
+      const zip = tokens[zipAt].text;
+      return { place: { city: "", zip, state: stateForZip(zip) ?? undefined, start: tokens[i].start, end: tokens[zipAt].end }, to: zipAt + 1 };
+    }
+
+    const cityStart = i;
+    let k = i;
+    while (k < tokens.length) {
+      const token = tokens[k];
+      if (/^[,;&]$/.test(token.text) || isNumber(token)) break;
+      if (k > cityStart && (reader.match(k, "and") || reader.match(k, "or"))) break;
+      if (reader.longest(k, NAME_BREAKS) || reader.longest(k, CLAUSE_STARTS)) break;
+      if (readComparator(k) || reader.vertical(k) || reader.feature(k)) break;
+      // A trailing state ends the place: "austin tx", "portland oregon"
+      if (k > cityStart) {
+        // unless a longer city name starts there ("Kansas City")
+        const state = reader.state(k, false);
+        const city = reader.longest(k, CITY_NAMES);
+        if (state && !(city && city.length > state.length)) {
+          const name = tokens.slice(cityStart, k).map(t => t.raw).join(" ");
+          return { place: namedPlace(name, state.code, tokens[cityStart].start, tokens[k + state.length - 1].end), to: k + state.length };
+        }
+      }
+      k++;
+    }
+    if (k === cityStart) return null;
+    const city = tokens.slice(cityStart, k).map(t => t.raw).join(" ");
+    let end = tokens[k - 1].end;
+    let to = k;
+    let state: string | undefined;
+    // "Austin, TX"
+    if (tokens[k]?.text === ",") {
+      const found = reader.state(k + 1, true);
+      if (found) {
+        state = found.code;
+        to = k + 1 + found.length;
+        end = tokens[to - 1].end;
+      }
+    }
+    // A whole-state location: "in Texas" has no city, which the DSL can't express
+    if (!state) {
+      const whole = reader.state(cityStart, true);
+      if (whole && whole.length === k - cityStart && !reader.longest(cityStart, CITY_NAMES)) {
+        return { place: { city: "", state: whole.code, start: tokens[cityStart].start, end }, to };
+      }
+    }
+    return { place: namedPlace(city, state, tokens[cityStart].start, end), to };
+  };
+
+  const readLocations = (i: number): number => {
+    let k = i;
+    const found: ParsedLocation[] = [];
+    while (k < tokens.length) {
+      const result = readPlace(k);
+      if (!result) break;
+      found.push(result.place);
+      clauses.push({ kind: "location", from: k, to: result.to, value: result.place });
+      k = result.to;
+      const connector = reader.longest(k, [",", "and", "or", "&"]);
+      if (!connector || !readPlace(k + connector.length)) break;
+      k += connector.length;
+    }
+    locations.push(...found);
+    return k;
+  };
+
+  const readNames = (i: number): number => {
+    let k = i;
+    while (k < tokens.length) {
+      const from = k;
+      while (k < tokens.length && !/^[,;&]$/.test(tokens[k].text) && !reader.match(k, "and") && !reader.match(k, "or")
+        && !reader.longest(k, [...NAME_BREAKS, ...LOCATION_PREPOSITIONS])) k++;
+      if (k === from) break;
+      clauses.push({ kind: "exclusion", from, to: k, value: prompt.slice(tokens[from].start, tokens[k - 1].end) });
+      const connector = reader.longest(k, [",", "and", "or", "&"]);
+      if (!connector || reader.longest(k + connector.length, [...NAME_BREAKS, ...LOCATION_PREPOSITIONS])) break;
+      k += connector.length;
+    }
+    return k;
+  };
+
+  // FEATURE list under an optional negator; returns the index after it
+  const readFeatures = (i: number, negated: boolean, distributes: boolean, list: ConstraintList): number => {
+    let k = i;
+    let any = false;
+    while (k < tokens.length) {
+      // Articles and "online"/"an existing" between the negator and feature
+      while (reader.longest(k, ["a", "an", "the", "any", "their", "own", "existing", "current"])) k++;
+      const feature = reader.feature(k);
+      if (!feature) break;
+      any = true;
+      const value = negated ? !feature.present : feature.present;
+      clauses.push({ kind: "constraint", from: k, to: k + feature.length, list, value: { [feature.key]: value } });
+      k += feature.length;
+      const connector = reader.longest(k, distributes ? ["or", "nor", ",", "and", "/"] : ["or", "nor", ",", "/"]);
+      if (!connector) break;
+      // A connector followed by a new negator or positive marker ends the scope
+      let next = k + connector.length;
+      while (reader.longest(next, ["a", "an", "the", "any"])) next++;
+      if (!reader.feature(next)) break;
+      k += connector.length;
+    }
+    return any ? k : i;
+  };
+
+  let i = 0;
+  while (i < tokens.length) {
+    const preference = reader.longest(i, PREFERENCE_MARKERS);
+    if (preference) {
+      take(i, i + preference.length);
+      i += preference.length;
+      preferred.push(i);
+      continue;
+    }
+
+    // Profile ids keep the hyphens and underscores the tokenizer drops
+    const profile = reader.longest(i, PROFILE_MARKERS);
+    const profileAt = profile ? tokens[i + profile.length] : undefined;
+    const profileId = profileAt ? prompt.slice(profileAt.start).match(/^[a-z0-9][\w-]*/i)?.[0] : undefined;
+    if (profileId) {
+      let to = i + profile!.length;
+      while (to < tokens.length && tokens[to].end <= profileAt!.start + profileId.length) to++;
+      clauses.push({ kind: "scoring_profile", from: i, to, value: profileId.toLowerCase() });
+      take(i, to);
+      i = to;
+      continue;
+    }
+
+    // Thresholds come first so "no more than" is not read as a negation
+    const afterThreshold = readThreshold(i);
+    if (afterThreshold > i) {
+      take(i, afterThreshold);
+      i = afterThreshold;
+      continue;
+    }
+
+    // "within 20 minutes of ...", "15 minute drive from ..."
+    const within = reader.match(i, "within") ? 1 + reader.match(i + 1, "a") : 0;
+    const minutes = reader.number(i + within);
+    const driveUnit = minutes !== null ? reader.longest(i + within + 1, DRIVE_UNITS) : null;
+    if (driveUnit) {
+      let to = i + within + 1 + driveUnit.length;
+      const of = reader.longest(to, ["of", "from"]);
+      if (within || of) {
+        clauses.push({ kind: "drive_time", from: i, to, value: minutes });
+        take(i, to);
+        if (of) {
+          const after = readLocations(to + of.length);
+          if (after > to + of.length) {
+            take(to, after);
+            to = after;
+          }
+        }
+        i = to;
+        continue;
+      }
+    }
+
+    const radiusUnitAt = (k: number) => {
+      const unit = reader.longest(k, Object.keys(RADIUS_UNITS));
+      return unit ? { factor: RADIUS_UNITS[unit.phrase], length: unit.length } : null;
+    };
+    // "within 10 miles (of) ..." and "10 mile radius"
+    if (reader.match(i, "within") && reader.number(i + 1) !== null && radiusUnitAt(i + 2)) {
+      const unit = radiusUnitAt(i + 2)!;
+      let to = i + 2 + unit.length;
+      clauses.push({ kind: "radius", from: i, to, value: reader.number(i + 1)! * unit.factor });
+      take(i, to);
+      if (reader.match(to, "of")) {
+        const after = readLocations(to + 1);
+        if (after > to + 1) {
+          take(to, after);
+          to = after;
+        }
+      }
+      i = to;
+      continue;
+    }
+    if (reader.number(i) !== null && radiusUnitAt(i + 1)) {
+      const unit = radiusUnitAt(i + 1)!;
+      const at = i + 1 + unit.length;
+      const radiusWord = reader.match(at, "radius");
+      if (radiusWord) {
+        clauses.push({ kind: "radius", from: i, to: at + 1, value: reader.number(i)! * unit.factor });
+        take(i, at + 1);
+        i = at + 1;
+        continue;
+      }
+    }
+
+    // Result size: "top 50", "100 dentists", "limit 200"
+    const verb = reader.longest(i, SIZE_VERBS);
+    const numberAt = verb ? i + verb.length : i;
+    const size = reader.number(numberAt);
+    if (size !== null && Number.isInteger(size)) {
+      const noun = reader.longest(numberAt + 1, SIZE_NOUNS);
+      const vertical = reader.vertical(numberAt + 1);
+      if (verb || noun || vertical) {
+        const to = numberAt + 1 + (noun?.length ?? 0);
+        clauses.push({ kind: "result_size", from: i, to, value: size });
+        take(i, to);
+        i = to;
+        continue;
+      }
+    }
+
+    const sort = reader.longest(i, SORTS.map(entry => entry.phrase));
+    if (sort) {
+      clauses.push({ kind: "sort", from: i, to: i + sort.length, value: SORTS.find(entry => entry.phrase === sort.phrase)!.sort });
+      take(i, i + sort.length);
+      i += sort.length;
+      continue;
+    }
+
+    const excluder = reader.longest(i, EXCLUDERS);
+    if (excluder) {
+      const at = i + excluder.length;
+      // A feature ("excluding franchises"), otherwise names of businesses to
+      // leave out ("except Aspen Dental and Bright Smiles")
+      let after = readFeatures(at, false, true, "exclude");
+      if (after === at) after = readNames(at);
+      if (after > at) {
+        take(i, after);
+        i = after;
+        continue;
+      }
+    }
+
+    const qualifier = reader.longest(i, QUALIFIERS.map(entry => entry.phrase));
+    if (qualifier) {
+      const constraint = QUALIFIERS.find(entry => entry.phrase === qualifier.phrase)!.constraint;
+      clauses.push({ kind: "constraint", from: i, to: i + qualifier.length, list: "optional", value: constraint });
+      take(i, i + qualifier.length);
+      i += qualifier.length;
+      continue;
+    }
+
+    const negator = reader.longest(i, NEGATORS.map(entry => entry.phrase));
+    if (negator) {
+      const at = i + negator.length;
+      // "no reviews" is a threshold in disguise
+      const unit = reader.unit(at);
+      if (unit && unit.unit === "reviews") {
+        clauses.push({ kind: "constraint", from: i, to: at + unit.length, list: "must", value: { reviews_count_lt: 1 } });
+        take(i, at + unit.length);
+        i = at + unit.length;
+        continue;
+      }
+      const distributes = NEGATORS.find(entry => entry.phrase === negator.phrase)!.distributes;
+      const first = clauses.length;
+      const after = readFeatures(at, true, distributes, "must");
+      if (after > at) {
+        // The negator belongs to the first feature's span
+        clauses[first].from = i;
+        take(i, after);
+        i = after;
+        continue;
+      }
+    }
+
+    const afterFeatures = readFeatures(i, false, false, "must");
+    if (afterFeatures > i) {
+      take(i, afterFeatures);
+      i = afterFeatures;
+      continue;
+    }
+
+    const preposition = reader.longest(i, LOCATION_PREPOSITIONS);
+    if (preposition) {
+      const after = readLocations(i + preposition.length);
+      if (after > i + preposition.length) {
+        take(i, after);
+        i = after;
+        continue;
+      }
+    }
+
+    const vertical = reader.vertical(i);
+    if (vertical) {
+      // "auto repair shops", "dental practices": the head noun is part of the vertical
+      const head = reader.longest(i + vertical.length, VERTICAL_HEADS);
+      const to = i + vertical.length + (head?.length ?? 0);
+      clauses.push({ kind: "vertical", from: i, to, value: vertical.vertical });
+      take(i, to);
+      i = to;
+      continue;
+    }
+
+    i++;
+  }
+
+  // "preferably with online booking and over 50 reviews": the must
+  // constraints that directly follow a preference marker become optional
+  const glue = [",", "and", "or", "nor", "a", "an", "the", "any", ...POSITIVE_MARKERS, ...NEGATORS.map(entry => entry.phrase)];
+  for (const at of preferred) {
+    let k = at;
+    while (k < tokens.length) {
+      const starting = clauses.filter(clause => clause.kind === "constraint" && clause.list === "must" && clause.from === k);
+      if (starting.length > 0) {
+        for (const clause of starting) clause.list = "optional";
+        k = Math.max(...starting.map(clause => clause.to));
+        continue;
+      }
+      const skip = reader.longest(k, glue);
+      if (!skip) break;
+      k += skip.length;
+    }
+  }
+
+  const ignored = tokens.filter((token, k) => !consumed[k] && !FILLER.has(token.stem) && !FILLER.has(token.text));
+  if (ignored.length > 0) {
+    warnings.push(`Did not understand: ${ignored.map(token => `"${token.raw}"`).join(", ")}`);
+  }
+
+  return { clauses, locations, consumed };
+}
+
+function spanText(prompt: string, tokens: Token[], from: number, to: number) {
+  const start = tokens[from].start;
+  const end = tokens[to - 1].end;
+  return { start, end, text: prompt.slice(start, end) };
+}
+
+function resolveStates(locations: ParsedLocation[], warnings: string[]) {
+  // "Austin and Dallas, TX": a trailing state applies to earlier bare places,
+  // unless the gazetteer knows that city only in other states
+  for (let k = locations.length - 2; k >= 0; k--) {
+    const place = locations[k];
+    const shared = locations[k + 1].state;
+    if (!place.state && shared && !(place.city && findCity(place.city) && !findCity(place.city, shared))) {
+      place.state = shared;
+    }
+  }
+  for (const location of locations) {
+    if (location.state) continue;
+    const known = location.city ? findCity(location.city)?.state : undefined;
+    // A county with no state of its own is taken to be in the searched state
+    const nearby = location.county ? locations.find(other => other.state)?.state : undefined;
+    if (known ?? nearby) location.state = known ?? nearby;
+    else warnings.push(`Could not determine the state for "${location.city || location.county || location.zip}"`);
+  }
+}
+
+// Parses a natural-language lead search into a LeadQuery with span annotations
+export function parseLeadPrompt(prompt: string, options: DslParseOptions = {}): DslParseResult {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+  const tokens = tokenize(prompt);
+  const reader = new Reader(tokens, options.verticals);
+  const { clauses, locations, consumed } = parseClauses(prompt, reader, warnings);
+  resolveStates(locations, warnings);
+
+  // The first city is geo.city; other cities need a state to be searched
+  const [primary, ...otherCities] = locations.filter(place => place.city);
+  const extraCities = otherCities.filter(place => place.state);
+  const state = primary?.state ?? locations.find(place => place.zip || place.county)?.state;
+  const zips = locations.filter(place => place.zip);
+  const counties = locations.filter(place => place.county && (!state || place.state === state));
+  for (const place of locations) {
+    if (place.county && state && place.state !== state) {
+      warnings.push(`Ignored ${place.county} County, ${place.state}: counties are searched in ${state} only`);
+    }
+  }
+
+  const spans: DslSpan[] = [];
+  const constraints: Record<ConstraintList, Constraint[]> = { must: [], optional: [], exclude: [] };
+  const exclusions: string[] = [];
+  let vertical: Vertical = GENERIC_VERTICAL;
+  const additionalVerticals: Vertical[] = [];
+  let radiusKm: number | undefined;
+  let driveMinutes: number | undefined;
+  let target: number | undefined;
+  let sortBy: (typeof SORT_ORDERS)[number] | undefined;
+  let profile: string | undefined;
+
+  for (const clause of clauses) {
+    const span = { ...spanText(prompt, tokens, clause.from, clause.to), kind: clause.kind, value: clause.value };
+    switch (clause.kind) {
+      case "vertical": {
+        // "dentists and orthodontists" or "roofers or HVAC companies": every
+        // further vertical is searched in the same job
+        const id = clause.value as Vertical;
+        if (vertical === GENERIC_VERTICAL) vertical = id;
+        else if (id !== vertical && !additionalVerticals.includes(id)) additionalVerticals.push(id);
+        const path = id === vertical ? "vertical" : `additional_verticals.${additionalVerticals.indexOf(id)}`;
+        spans.push({ ...span, path });
+        break;
+      }
+      case "location": {
+        const place = clause.value as ParsedLocation;
+        const path = place === primary ? "geo"
+          : extraCities.includes(place) ? `geo.locations.${extraCities.indexOf(place)}`
+          : zips.includes(place) ? `geo.zip_codes.${zips.indexOf(place)}`
+          : counties.includes(place) ? `geo.counties.${counties.indexOf(place)}`
+          : undefined;
+        const value = place.zip ? { zip: place.zip, state: place.state }
+          : place.county ? { county: place.county, state: place.state }
+          : { city: place.city, state: place.state };
+        spans.push(path ? { ...span, value, path } : { ...span, value });
+        break;
+      }
+      case "drive_time": {
+        const minutes = Math.round(clause.value as number);
+        driveMinutes = Math.min(MAX_DRIVE_MINUTES, Math.max(MIN_DRIVE_MINUTES, minutes));
+        if (driveMinutes !== minutes) warnings.push(`Drive time limited to ${driveMinutes} minutes`);
+        spans.push({ ...span, path: "geo.shape", value: { type: "drive_time", minutes: driveMinutes } });
+        break;
+      }
+      case "radius": {
+        const km = Math.round(clause.value as number);
+        radiusKm = Math.min(MAX_RADIUS_KM, Math.max(MIN_RADIUS_KM, km));
+        if (radiusKm !== km) warnings.push(`Radius limited to ${radiusKm} km`);
+        spans.push({ ...span, path: "geo.radius_km", value: radiusKm });
+        break;
+      }
+      case "result_size": {
+        const size = clause.value as number;
+        target = Math.min(MAX_TARGET, Math.max(MIN_TARGET, size));
+        if (target !== size) warnings.push(`Result size ${size} adjusted to ${target}`);
+        spans.push({ ...span, path: "result_size.target", value: target });
+        break;
+      }
+      case "sort":
+        sortBy = clause.value as (typeof SORT_ORDERS)[number];
+        spans.push({ ...span, path: "sort_by" });
+        break;
+      case "scoring_profile":
+        profile = clause.value as string;
+        spans.push({ ...span, path: "scoring.profile" });
+        break;
+      case "exclusion":
+        exclusions.push(clause.value as string);
+        spans.push({ ...span, path: `exclusions.${exclusions.length - 1}` });
+        break;
+      case "constraint": {
+        const list = clause.list ?? "must";
+        const constraint = clause.value as Constraint;
+        const [key] = Object.keys(constraint) as ConstraintKey[];
+        const same = constraints[list].findIndex(entry => JSON.stringify(entry) === JSON.stringify(constraint));
+        if (same >= 0) {
+          spans.push({ ...span, path: `constraints.${list}.${same}` });
+          break;
+        }
+        // A flag and its opposite can't both hold; the first reading wins
+        if (typeof constraint[key] === "boolean" && constraints[list].some(entry => key in entry)) {
+          warnings.push(`Ignored "${span.text}": conflicts with an earlier ${key.replace(/_/g, " ")} condition`);
+          spans.push(span);
+          break;
+        }
+        constraints[list].push(constraint);
+        spans.push({ ...span, path: `constraints.${list}.${constraints[list].length - 1}` });
+        break;
+      }
+    }
+  }
+
+  let geo: Record<string, unknown> | undefined;
+  const searchable = primary || zips.length > 0 || counties.length > 0;
+  for (const place of locations) {
+    if (!place.city && !place.zip && !place.county && searchable) {
+      warnings.push(`Ignored "${prompt.slice(place.start, place.end)}": a whole state is too large to search`);
+    }
+  }
+  if (searchable) {
+    geo = {
+      ...(primary ? { city: primary.city } : {}),
+      state,
+      ...(radiusKm !== undefined ? { radius_km: radiusKm } : {}),
+      ...(extraCities.length > 0 ? { locations: extraCities.map(place => ({ city: place.city, state: place.state })) } : {}),
+      ...(zips.length > 0 ? { zip_codes: zips.map(place => place.zip) } : {}),
+      ...(counties.length > 0 ? { counties: counties.map(place => place.county) } : {}),
+      ...(driveMinutes !== undefined ? { shape: { type: "drive_time", minutes: driveMinutes } } : {}),
+    };
+  } else if (locations.length > 0) {
+    const [place] = locations;
+    errors.push(`A city, county or ZIP code is required; "${prompt.slice(place.start, place.end)}" names only a state`);
+  } else if (options.defaultLocation) {
+    geo = { ...options.defaultLocation, ...(radiusKm !== undefined ? { radius_km: radiusKm } : {}) };
+    warnings.push(`No location found, using ${options.defaultLocation.city}, ${options.defaultLocation.state}`);
+  } else {
+    errors.push("No location found in prompt");
+  }
+  if (vertical === GENERIC_VERTICAL) warnings.push("No business type recognized, searching all businesses");
+
+  const draft: Record<string, unknown> = {
+    version: LEAD_QUERY_VERSION,
+    vertical,
+    ...(additionalVerticals.length > 0 ? { additional_verticals: additionalVerticals } : {}),
+    geo,
+    constraints: {
+      must: constraints.must,
+      ...(constraints.optional.length > 0 ? { optional: constraints.optional } : {}),
+      ...(constraints.exclude.length > 0 ? { exclude: constraints.exclude } : {}),
+    },
+    ...(exclusions.length > 0 ? { exclusions } : {}),
+    result_size: target !== undefined ? { target } : {},
+    scoring: profile ? { profile } : {},
+    ...(sortBy ? { sort_by: sortBy } : {}),
+    output: {},
+    notify: {},
+    compliance_flags: DEFAULT_COMPLIANCE_FLAGS,
+  };
+
+  let dsl: LeadQuery | null = null;
+  if (errors.length === 0) {
+    const parsed = LeadQuerySchema.safeParse(draft);
+    if (parsed.success) dsl = parsed.data;
+    else errors.push(...formatLeadQueryIssues(parsed.error));
+  }
+
+  // Share of meaningful words the grammar accounted for
+  const meaningful = tokens.map((token, k) => k).filter(k => !FILLER.has(tokens[k].stem) && !FILLER.has(tokens[k].text));
+  const covered = meaningful.filter(k => consumed[k]).length;
+  const coverage = meaningful.length > 0 ? covered / meaningful.length : 0;
+  const confidence = dsl ? Math.round((0.5 + 0.45 * coverage) * 100) / 100 : 0;
+
+  return { dsl, draft, spans, locations, warnings, errors, confidence };
+}
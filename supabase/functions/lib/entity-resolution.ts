@@ -0,0 +1,292 @@
+// supabase/functions/lib/entity-resolution.ts
+// Decides whether two business records from any source describe the same
+// real-world business, and merges them field by field while remembering which
+// source supplied each value. Matching uses normalized identifiers (place_id,
+// phone, website domain) plus geo distance and fuzzy name similarity, so
+// "Smith Dental LLC" and "Smith Dental" resolve together while two branches of
+// "Main Street Pizza" a few miles apart stay separate. Pure TS so Deno, Node
+// and Vite can all import it.
+
+export type IdentityKeys = {
+  place_id: string | null;
+  phone: string | null;
+  domain: string | null;
+  name: string;
+  locality: string | null; // normalized "city|state"
+  lat: number | null;
+  lng: number | null;
+};
+
+export type IdentityInput = {
+  place_id?: string | null;
+  name: string;
+  phone?: string | null;
+  website?: string | null;
+  city?: string | null;
+  state?: string | null;
+  lat?: number | null;
+  lng?: number | null;
+};
+
+export type MatchResult = {
+  match: boolean;
+  score: number; // 0..1 confidence that both records are one business
+  reasons: string[];
+  distance_m: number | null;
+  name_similarity: number;
+};
+
+export type FieldProvenance = {
+  source: string;
+  confidence: number;
+  observed_at: string;
+};
+
+// Field name -> who supplied the value currently held
+export type Provenance = Record<string, FieldProvenance>;
+
+export type SourcedRecord<T> = {
+  source: string;
+  confidence: number;
+  observed_at?: string;
+  data: T;
+};
+
+// Distances beyond which two records are treated as different premises
+const SAME_PREMISES_M = 75;
+const SAME_SITE_M = 250;
+
+// Corporate suffixes and credentials that vary between sources for one business
+const NAME_NOISE = new Set([
+  "the", "llc", "l.l.c", "inc", "incorporated", "corp", "corporation", "co", "company",
+  "ltd", "limited", "pllc", "pc", "pa", "lp", "llp", "dds", "dmd", "md", "esq",
+]);
+
+// Hosts shared by many unrelated businesses; a listing pointing at one of
+// these says nothing about identity.
+const SHARED_HOSTS = new Set([
+  "facebook.com", "m.facebook.com", "instagram.com", "twitter.com", "x.com", "linkedin.com",
+  "yelp.com", "google.com", "maps.google.com", "sites.google.com", "goo.gl", "g.page",
+  "linktr.ee", "yellowpages.com", "nextdoor.com", "tiktok.com", "youtube.com",
+]);
+
+export function normalizePhone(phone?: string | null): string | null {
+  if (!phone) return null;
+  let digits = phone.replace(/\D/g, "");
+  // Drop the NANP country code so "+1 803-555-0101" equals "(803) 555-0101"
+  if (digits.length === 11 && digits.startsWith("1")) digits = digits.slice(1);
+  return digits.length >= 7 ? digits : null;
+}
+
+export function normalizeDomain(website?: string | null): string | null {
+  if (!website) return null;
+  try {
+    const url = new URL(/^[a-z]+:\/\//i.test(website) ? website : `https://${website}`);
+    const host = url.hostname.toLowerCase().replace(/^www\./, "");
+    if (!host.includes(".") || SHARED_HOSTS.has(host)) return null;
+    return host;
+  } catch {
+    return null;
+  }
+}
+
+export function normalizeName(name?: string | null): string {
+  return (name || "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((token) => token && !NAME_NOISE.has(token))
+    .join(" ");
+}
+
+function normalizeLocality(city?: string | null, state?: string | null): string | null {
+  if (!city || !state) return null;
+  return `${normalizeName(city)}|${state.trim().toLowerCase()}`;
+}
+
+export function identityKeys(input: IdentityInput): IdentityKeys {
+  const hasGeo = typeof input.lat === "number" && typeof input.lng === "number" && !(input.lat === 0 && input.lng === 0);
+  return {
+    place_id: input.place_id || null,
+    phone: normalizePhone(input.phone),
+    domain: normalizeDomain(input.website),
+    name: normalizeName(input.name),
+    locality: normalizeLocality(input.city, input.state),
+    lat: hasGeo ? input.lat! : null,
+    lng: hasGeo ? input.lng! : null,
+  };
+}
+
+export function distanceMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6_371_000 * Math.asin(Math.sqrt(h));
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/ /g, "");
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+}
+
+// Similarity of two normalized names in 0..1: the better of character-bigram
+// Dice (typos, spacing) and token Jaccard (reordered words).
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  const counts = new Map<string, number>();
+  for (const gram of gramsA) counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  let shared = 0;
+  for (const gram of gramsB) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      shared += 1;
+      counts.set(gram, count - 1);
+    }
+  }
+  const dice = gramsA.length + gramsB.length === 0 ? 0 : (2 * shared) / (gramsA.length + gramsB.length);
+
+  const tokensA = new Set(a.split(" "));
+  const tokensB = new Set(b.split(" "));
+  const intersection = [...tokensA].filter((token) => tokensB.has(token)).length;
+  const jaccard = intersection / new Set([...tokensA, ...tokensB]).size;
+
+  return Math.max(dice, jaccard);
+}
+
+export function compareEntities(a: IdentityKeys, b: IdentityKeys): MatchResult {
+  const similarity = nameSimilarity(a.name, b.name);
+  const distance = a.lat !== null && b.lat !== null ? distanceMeters(a as { lat: number; lng: number }, b as { lat: number; lng: number }) : null;
+  const result = (match: boolean, score: number, reasons: string[]): MatchResult => ({
+    match,
+    score: Math.round(score * 100) / 100,
+    reasons,
+    distance_m: distance === null ? null : Math.round(distance),
+    name_similarity: Math.round(similarity * 100) / 100,
+  });
+
+  if (a.place_id && a.place_id === b.place_id) {
+    return result(true, 1, ["place_id"]);
+  }
+
+  const phoneConflict = !!a.phone && !!b.phone && a.phone !== b.phone;
+  const farApart = distance !== null && distance > SAME_SITE_M;
+
+  // Different phones at different addresses are different businesses, even
+  // when they share a name and a website (chain branches).
+  if (phoneConflict && farApart) {
+    return result(false, 0, ["phone_conflict", "distance"]);
+  }
+
+  if (a.phone && a.phone === b.phone && (similarity >= 0.5 || (distance !== null && distance <= SAME_SITE_M))) {
+    return result(true, 0.9 + similarity * 0.1, ["phone", ...(similarity >= 0.5 ? ["name"] : ["distance"])]);
+  }
+
+  if (a.domain && a.domain === b.domain && !phoneConflict && !farApart && similarity >= 0.6) {
+    return result(true, 0.8 + similarity * 0.15, ["domain", "name", ...(distance !== null ? ["distance"] : [])]);
+  }
+
+  if (distance !== null && !phoneConflict) {
+    if (distance <= SAME_PREMISES_M && similarity >= 0.85) {
+      return result(true, 0.75 + similarity * 0.2, ["distance", "name"]);
+    }
+    if (distance <= SAME_SITE_M && similarity >= 0.92) {
+      return result(true, 0.7 + similarity * 0.2, ["distance", "name"]);
+    }
+  }
+
+  // No coordinates to go on: only near-identical names in the same city with
+  // no conflicting identifiers.
+  const domainConflict = !!a.domain && !!b.domain && a.domain !== b.domain;
+  if (distance === null && !phoneConflict && !domainConflict && a.locality && a.locality === b.locality && similarity >= 0.92) {
+    return result(true, 0.6 + similarity * 0.1, ["name", "locality"]);
+  }
+
+  return result(false, similarity * 0.5, []);
+}
+
+// Another location of the same business: one website and a near-identical
+// name at premises compareEntities keeps apart. Several branches under one
+// brand are what marks a chain or franchise.
+export function isChainBranch(a: IdentityKeys, b: IdentityKeys): boolean {
+  return !!a.domain && a.domain === b.domain &&
+    nameSimilarity(a.name, b.name) >= 0.85 &&
+    !compareEntities(a, b).match;
+}
+
+// Groups items describing the same business. Matching is transitive (union-find),
+// so a Yelp record linking a Google and a Bing record by phone joins all three.
+export function clusterEntities<T>(items: T[], keysOf: (item: T) => IdentityKeys): T[][] {
+  const keys = items.map(keysOf);
+  const parent = items.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (find(i) !== find(j) && compareEntities(keys[i], keys[j]).match) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const clusters = new Map<number, T[]>();
+  items.forEach((item, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) ?? []), item]);
+  });
+  return [...clusters.values()];
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+// Merges records field by field: each field takes the value from the most
+// confident source that supplied one (newest observation breaks ties), and
+// the winner is noted in the provenance map. An existing merged record can be
+// passed in so values already on file only change when outranked. `keep`
+// names fields whose existing value never changes, such as an identifier the
+// records were not matched on.
+export function mergeWithProvenance<T extends Record<string, unknown>>(
+  records: SourcedRecord<T>[],
+  existing?: { data: Partial<T>; provenance: Provenance },
+  { keep = [] }: { keep?: string[] } = {},
+): { data: Partial<T>; provenance: Provenance } {
+  const data = { ...(existing?.data ?? {}) } as Partial<T>;
+  const provenance: Provenance = { ...(existing?.provenance ?? {}) };
+
+  for (const record of records) {
+    const observedAt = record.observed_at ?? new Date().toISOString();
+    for (const [field, value] of Object.entries(record.data)) {
+      if (isEmpty(value)) continue;
+      if (keep.includes(field) && !isEmpty(existing?.data[field])) continue;
+
+      const current = provenance[field];
+      const outranks = !current ||
+        isEmpty(data[field]) ||
+        record.confidence > current.confidence ||
+        (record.confidence === current.confidence && observedAt >= current.observed_at);
+
+      if (outranks) {
+        (data as Record<string, unknown>)[field] = value;
+        provenance[field] = { source: record.source, confidence: record.confidence, observed_at: observedAt };
+      }
+    }
+  }
+
+  return { data, provenance };
+}
@@ -0,0 +1,116 @@
+// supabase/functions/lib/fingerprint-store.ts
+// Loads the fingerprint set detectors should use: the built-in database with
+// enabled custom fingerprints from the vendor_fingerprints table overlaid.
+// Cached per isolate for a few minutes so crawls don't query it per page.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { BUILT_IN_FINGERPRINTS } from "./vendor-fingerprint-db.ts";
+import { mergeFingerprints, validateFingerprint, VendorFingerprint } from "./vendor-fingerprints.ts";
+
+export type StoredFingerprint = {
+  fingerprint: VendorFingerprint;
+  enabled: boolean;
+  built_in: boolean;
+  custom: boolean; // a custom row exists (possibly overriding a built-in)
+  updated_at?: string;
+};
+
+type FingerprintRow = {
+  id: string;
+  definition: VendorFingerprint;
+  enabled: boolean;
+  updated_at: string;
+};
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+let cached: { fingerprints: VendorFingerprint[]; loadedAt: number } | null = null;
+
+async function loadRows(supabase: SupabaseClient): Promise<FingerprintRow[]> {
+  const { data, error } = await supabase
+    .from("vendor_fingerprints")
+    .select("id, definition, enabled, updated_at");
+
+  if (error) {
+    throw new Error(`Failed to load vendor fingerprints: ${error.message}`);
+  }
+  return (data ?? []) as FingerprintRow[];
+}
+
+// Built-ins plus enabled custom fingerprints. Falls back to the built-ins when
+// the table cannot be read, so detection never stops on a lookup failure.
+export async function loadFingerprints(supabase: SupabaseClient): Promise<VendorFingerprint[]> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.fingerprints;
+  }
+
+  try {
+    const rows = await loadRows(supabase);
+    const custom = rows
+      .filter((row) => row.enabled && validateFingerprint(row.definition).length === 0)
+      .map((row) => row.definition);
+    const disabled = new Set(rows.filter((row) => !row.enabled).map((row) => row.id));
+    const fingerprints = mergeFingerprints(custom).filter((fingerprint) => !disabled.has(fingerprint.id));
+    cached = { fingerprints, loadedAt: Date.now() };
+    return fingerprints;
+  } catch (error) {
+    console.error("Using built-in fingerprints only:", error);
+    return BUILT_IN_FINGERPRINTS;
+  }
+}
+
+// Every fingerprint with where it comes from, for the dashboard
+export async function listFingerprints(supabase: SupabaseClient): Promise<StoredFingerprint[]> {
+  const rows = await loadRows(supabase);
+  const byId = new Map<string, StoredFingerprint>(
+    BUILT_IN_FINGERPRINTS.map((fingerprint) => [fingerprint.id, { fingerprint, enabled: true, built_in: true, custom: false }]),
+  );
+
+  for (const row of rows) {
+    byId.set(row.id, {
+      fingerprint: row.definition,
+      enabled: row.enabled,
+      built_in: byId.get(row.id)?.built_in ?? false,
+      custom: true,
+      updated_at: row.updated_at,
+    });
+  }
+  return [...byId.values()].sort((a, b) =>
+    a.fingerprint.category.localeCompare(b.fingerprint.category) || a.fingerprint.name.localeCompare(b.fingerprint.name)
+  );
+}
+
+export async function saveFingerprint(
+  supabase: SupabaseClient,
+  fingerprint: VendorFingerprint,
+  options: { enabled?: boolean; userId?: string } = {},
+): Promise<void> {
+  const problems = validateFingerprint(fingerprint);
+  if (problems.length > 0) {
+    throw new Error(`Invalid fingerprint: ${problems.join("; ")}`);
+  }
+
+  const { error } = await supabase.from("vendor_fingerprints").upsert({
+    id: fingerprint.id,
+    name: fingerprint.name,
+    category: fingerprint.category,
+    definition: fingerprint,
+    enabled: options.enabled ?? true,
+    created_by: options.userId ?? null,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to save fingerprint ${fingerprint.id}: ${error.message}`);
+  }
+  cached = null;
+}
+
+// Removes a custom fingerprint; a built-in it overrode applies again
+export async function deleteFingerprint(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from("vendor_fingerprints").delete().eq("id", id);
+  if (error) {
+    throw new Error(`Failed to delete fingerprint ${id}: ${error.message}`);
+  }
+  cached = null;
+}
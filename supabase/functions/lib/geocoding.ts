@@ -0,0 +1,343 @@
+// supabase/functions/lib/geocoding.ts
+// Geocoding for LeadQuery.geo. A provider turns a city, county or ZIP into
+// coordinates; the default chain asks the bundled gazetteer (lib/us-gazetteer.ts)
+// first and Google's Geocoding API second when GOOGLE_MAPS_API_KEY is set.
+// resolveGeo fills geo centers once, when a query is parsed or a job created,
+// and planSearchAreas turns the resolved geo into the per-area locationBias /
+// locationRestriction the Places fetch stage pages through.
+
+import type { GeoPoint, LeadQueryGeo } from "./lead-query.ts";
+import { findCity, findCounty, stateForZip, US_STATE_CODES } from "./us-gazetteer.ts";
+
+export type GeocodeKind = "city" | "county" | "zip";
+
+export interface GeocodeQuery {
+  city?: string;
+  county?: string;
+  zip?: string;
+  // Two-letter code; without it the largest matching place wins
+  state?: string;
+}
+
+export interface GeocodeResult {
+  kind: GeocodeKind;
+  name: string;
+  state: string;
+  center: GeoPoint;
+  county?: string;
+  source: string;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  geocode(query: GeocodeQuery): Promise<GeocodeResult | null>;
+}
+
+// Places API shapes (the legacy text search takes the circle as location/radius)
+export interface PlacesLatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface PlacesCircle {
+  circle: { center: PlacesLatLng; radius: number };
+}
+
+export interface PlacesRectangle {
+  rectangle: { low: PlacesLatLng; high: PlacesLatLng };
+}
+
+// One place the fetch stage searches. `city`/`state` make up the text query
+// ("dentist in 29201, SC"); bias and restriction narrow it when the area has
+// coordinates, and `polygon` is applied to the results afterwards.
+export interface SearchArea {
+  label: string;
+  city: string;
+  state: string;
+  locationBias?: PlacesCircle;
+  locationRestriction?: PlacesRectangle;
+  polygon?: GeoPoint[];
+}
+
+// Places caps a bias circle at 50 km
+const MAX_BIAS_RADIUS_KM = 50;
+// Counties have no radius of their own; this covers a typical one from its largest city
+const COUNTY_RADIUS_KM = 30;
+// Blend of city and highway driving used to turn drive minutes into a radius
+const AVERAGE_DRIVE_KMH = 50;
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE = 111.32;
+
+export class GazetteerGeocoder implements GeocodingProvider {
+  name = "gazetteer";
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    if (query.city) {
+      const city = findCity(query.city, query.state);
+      return city && { kind: "city", name: city.name, state: city.state, center: { lat: city.lat, lng: city.lng }, county: city.county, source: this.name };
+    }
+    if (query.county && query.state) {
+      const county = findCounty(query.county, query.state);
+      return county && { kind: "county", name: county.name, state: county.state, center: { lat: county.lat, lng: county.lng }, source: this.name };
+    }
+    // ZIP centroids are not bundled; the prefix table only yields the state
+    return null;
+  }
+}
+
+type GoogleAddressComponent = { long_name: string; short_name: string; types: string[] };
+
+export class GoogleGeocoder implements GeocodingProvider {
+  name = "google_geocoding";
+
+  constructor(private apiKey: string) {}
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    const place = query.zip ?? query.city ?? (query.county && `${query.county.replace(/\s+county$/i, "")} County`);
+    if (!place) return null;
+
+    const params = new URLSearchParams({
+      address: [place, query.state].filter(Boolean).join(", "),
+      components: "country:US",
+      key: this.apiKey,
+    });
+    const response = await fetch(`https://maps.googleapis.com/maps/api/geocode/json?${params}`);
+    const data = await response.json();
+
+    if (data.status === "ZERO_RESULTS") return null;
+    if (data.status !== "OK") {
+      throw new Error(`Google Geocoding API error: ${data.status}`);
+    }
+
+    const [result] = data.results;
+    const components: GoogleAddressComponent[] = result.address_components || [];
+    const component = (type: string) => components.find((entry) => entry.types.includes(type));
+    const state = component("administrative_area_level_1")?.short_name;
+    if (!state || (query.state && state !== query.state)) return null;
+
+    const kind: GeocodeKind = query.zip ? "zip" : query.city ? "city" : "county";
+    return {
+      kind,
+      name: kind === "zip" ? query.zip! : kind === "city" ? (component("locality")?.long_name ?? place) : place,
+      state,
+      center: { lat: result.geometry.location.lat, lng: result.geometry.location.lng },
+      county: component("administrative_area_level_2")?.long_name.replace(/\s+County$/, ""),
+      source: this.name,
+    };
+  }
+}
+
+// Asks each provider in turn; a failing provider is skipped, not fatal
+export class GeocoderChain implements GeocodingProvider {
+  name = "chain";
+
+  constructor(private providers: GeocodingProvider[]) {}
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    for (const provider of this.providers) {
+      try {
+        const result = await provider.geocode(query);
+        if (result) return result;
+      } catch (error) {
+        console.warn(`Geocoder ${provider.name} failed:`, error);
+      }
+    }
+    return null;
+  }
+}
+
+export function createGeocoder(options: { googleApiKey?: string | null } = {}): GeocodingProvider {
+  const providers: GeocodingProvider[] = [new GazetteerGeocoder()];
+  if (options.googleApiKey) providers.push(new GoogleGeocoder(options.googleApiKey));
+  return new GeocoderChain(providers);
+}
+
+export function distanceKm(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+// Ray casting; fine for the city-sized polygons people draw
+export function pointInPolygon(point: GeoPoint, polygon: GeoPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat) &&
+        point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function driveTimeRadiusKm(minutes: number): number {
+  return (minutes / 60) * AVERAGE_DRIVE_KMH;
+}
+
+function toPlacesLatLng(point: GeoPoint): PlacesLatLng {
+  return { latitude: point.lat, longitude: point.lng };
+}
+
+export function circleBias(center: GeoPoint, radiusKm: number): PlacesCircle {
+  return { circle: { center: toPlacesLatLng(center), radius: Math.round(Math.min(radiusKm, MAX_BIAS_RADIUS_KM) * 1000) } };
+}
+
+function circleBounds(center: GeoPoint, radiusKm: number): PlacesRectangle {
+  const dLat = radiusKm / KM_PER_DEGREE;
+  const dLng = radiusKm / (KM_PER_DEGREE * Math.cos((center.lat * Math.PI) / 180));
+  return {
+    rectangle: {
+      low: { latitude: center.lat - dLat, longitude: center.lng - dLng },
+      high: { latitude: center.lat + dLat, longitude: center.lng + dLng },
+    },
+  };
+}
+
+function polygonBounds(points: GeoPoint[]): PlacesRectangle {
+  const lats = points.map((point) => point.lat);
+  const lngs = points.map((point) => point.lng);
+  return {
+    rectangle: {
+      low: { latitude: Math.min(...lats), longitude: Math.min(...lngs) },
+      high: { latitude: Math.max(...lats), longitude: Math.max(...lngs) },
+    },
+  };
+}
+
+export function isInsideRectangle(point: GeoPoint, restriction: PlacesRectangle): boolean {
+  const { low, high } = restriction.rectangle;
+  return point.lat >= low.latitude && point.lat <= high.latitude &&
+    point.lng >= low.longitude && point.lng <= high.longitude;
+}
+
+function countyLabel(county: string): string {
+  return /\s(county|parish|borough)$/i.test(county) ? county : `${county} County`;
+}
+
+// Fills in geo centers and checks ZIPs against the state. Unresolvable
+// places stay in the query (the text search can still use their names) and
+// come back as warnings.
+export async function resolveGeo(
+  geo: LeadQueryGeo,
+  geocoder: GeocodingProvider,
+): Promise<{ geo: LeadQueryGeo; warnings: string[] }> {
+  const warnings: string[] = [];
+  const resolved: LeadQueryGeo = { ...geo };
+
+  if (geo.city && !geo.center) {
+    const result = await geocoder.geocode({ city: geo.city, state: geo.state });
+    if (result) resolved.center = result.center;
+    else warnings.push(`Could not locate ${geo.city}, ${geo.state}; searching by name only`);
+  }
+
+  if (geo.locations) {
+    resolved.locations = [];
+    for (const location of geo.locations) {
+      const result = location.center ? null : await geocoder.geocode({ city: location.city, state: location.state });
+      if (!location.center && !result) warnings.push(`Could not locate ${location.city}, ${location.state}; searching by name only`);
+      resolved.locations.push(result ? { ...location, center: result.center } : location);
+    }
+  }
+
+  for (const county of geo.counties ?? []) {
+    if (!(await geocoder.geocode({ county, state: geo.state }))) {
+      warnings.push(`Could not locate ${countyLabel(county)}, ${geo.state}; searching by name only`);
+    }
+  }
+
+  for (const zip of geo.zip_codes ?? []) {
+    const zipState = stateForZip(zip);
+    if (zipState && zipState !== geo.state) warnings.push(`ZIP ${zip} is in ${zipState}, not ${geo.state}`);
+  }
+
+  if (geo.shape?.type === "drive_time" && !geo.shape.center) {
+    if (resolved.center) resolved.shape = { ...geo.shape, center: resolved.center };
+    else warnings.push(`Drive time needs a known starting point; searching ${geo.radius_km} km instead`);
+  }
+
+  return { geo: resolved, warnings };
+}
+
+// City centers not stored on the query (jobs queued before geocoding, or
+// created where no geocoder ran) come from the gazetteer
+function cityCenter(city: string, state: string, center?: GeoPoint): GeoPoint | undefined {
+  if (center) return center;
+  const known = findCity(city, state);
+  return known ? { lat: known.lat, lng: known.lng } : undefined;
+}
+
+function cityArea(label: string, city: string, state: string, center: GeoPoint | undefined, radiusKm: number): SearchArea {
+  return {
+    label,
+    city,
+    state,
+    ...(center && { locationBias: circleBias(center, radiusKm), locationRestriction: circleBounds(center, radiusKm) }),
+  };
+}
+
+// The areas a query searches, in order. A shape replaces everything else;
+// otherwise each city, county and ZIP is its own area.
+export function planSearchAreas(geo: LeadQueryGeo): SearchArea[] {
+  const state = geo.state;
+
+  if (geo.shape?.type === "polygon") {
+    const points = geo.shape.points;
+    const center = {
+      lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+      lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length,
+    };
+    const radiusKm = Math.max(...points.map((point) => distanceKm(center, point)));
+    return [{
+      label: geo.city ? `drawn area around ${geo.city}, ${state}` : `drawn area in ${state}`,
+      city: geo.city ?? "",
+      state,
+      locationBias: circleBias(center, radiusKm),
+      locationRestriction: polygonBounds(points),
+      polygon: points,
+    }];
+  }
+
+  if (geo.shape?.type === "drive_time") {
+    const center = geo.shape.center ?? (geo.city ? cityCenter(geo.city, state, geo.center) : geo.center);
+    const label = `${geo.shape.minutes} min drive of ${geo.city ? `${geo.city}, ${state}` : "center"}`;
+    return [cityArea(label, geo.city ?? "", state, center, center ? driveTimeRadiusKm(geo.shape.minutes) : geo.radius_km)];
+  }
+
+  const areas: SearchArea[] = [];
+  if (geo.city) {
+    areas.push(cityArea(`${geo.city}, ${state}`, geo.city, state, cityCenter(geo.city, state, geo.center), geo.radius_km));
+  }
+  for (const location of geo.locations ?? []) {
+    areas.push(cityArea(`${location.city}, ${location.state}`, location.city, location.state, cityCenter(location.city, location.state, location.center), geo.radius_km));
+  }
+  for (const county of geo.counties ?? []) {
+    const known = findCounty(county, state);
+    const name = countyLabel(county);
+    areas.push({
+      label: `${name}, ${state}`,
+      city: name,
+      state,
+      ...(known && { locationBias: circleBias({ lat: known.lat, lng: known.lng }, COUNTY_RADIUS_KM) }),
+    });
+  }
+  for (const zip of geo.zip_codes ?? []) {
+    areas.push({ label: `ZIP ${zip}`, city: zip, state: stateForZip(zip) ?? state });
+  }
+  return areas;
+}
+
+// Short human description for status logs and summaries
+export function describeGeo(geo: LeadQueryGeo): string {
+  const areas = planSearchAreas(geo);
+  if (areas.length === 0) return geo.state;
+  const more = areas.length - 1;
+  return more > 0 ? `${areas[0].label} and ${more} more area${more === 1 ? "" : "s"}` : areas[0].label;
+}
+
+export function isUsStateCode(state: string): boolean {
+  return US_STATE_CODES.has(state.toUpperCase());
+}
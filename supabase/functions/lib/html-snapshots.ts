@@ -0,0 +1,115 @@
+// supabase/functions/lib/html-snapshots.ts
+// Raw page snapshots kept as evidence. The auditor stores every page it reads
+// as an artifacts row (type 'html_snapshot', uri = page URL) whose
+// metadata_json holds the gzip-compressed HTML plus the response headers, so
+// a "no online booking" flag can be checked against exactly what was fetched
+// even after the site changes. Pure TS (web streams and crypto.subtle) so
+// Deno, Node and Vite can all import it.
+
+import { locateSelector } from "./vendor-fingerprints.ts";
+
+export const SNAPSHOT_ARTIFACT_TYPE = "html_snapshot";
+
+export type HtmlSnapshotMetadata = {
+  encoding: "gzip+base64";
+  content: string;
+  content_hash: string; // sha-256 of the uncompressed HTML
+  byte_length: number;
+  compressed_length: number;
+  status: number;
+  headers: Record<string, string>;
+  fetched_at: string;
+  page_kind?: string;
+};
+
+export type HighlightRange = { start: number; end: number };
+
+// Response headers worth keeping; cookies and per-request noise are dropped
+const KEPT_HEADERS = new Set([
+  "content-type", "server", "x-powered-by", "x-generator", "cache-control", "last-modified",
+  "content-security-policy", "strict-transport-security", "via", "x-cache", "cf-ray", "x-shopid", "x-wix-request-id",
+]);
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function pipe(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function keptHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  const kept: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (KEPT_HEADERS.has(name.toLowerCase())) kept[name.toLowerCase()] = value;
+  }
+  return kept;
+}
+
+export async function compressSnapshot(
+  html: string,
+  page: { status: number; headers?: Record<string, string>; fetched_at: string; page_kind?: string },
+): Promise<HtmlSnapshotMetadata> {
+  const raw = new TextEncoder().encode(html);
+  const compressed = await pipe(raw, new CompressionStream("gzip"));
+  return {
+    encoding: "gzip+base64",
+    content: toBase64(compressed),
+    content_hash: await sha256Hex(html),
+    byte_length: raw.length,
+    compressed_length: compressed.length,
+    status: page.status,
+    headers: keptHeaders(page.headers),
+    fetched_at: page.fetched_at,
+    page_kind: page.page_kind,
+  };
+}
+
+export async function decompressSnapshot(metadata: Pick<HtmlSnapshotMetadata, "encoding" | "content">): Promise<string> {
+  if (metadata.encoding !== "gzip+base64") {
+    throw new Error(`Unsupported snapshot encoding: ${metadata.encoding}`);
+  }
+  const bytes = await pipe(fromBase64(metadata.content), new DecompressionStream("gzip"));
+  return new TextDecoder().decode(bytes);
+}
+
+// Where the evidence points in the snapshot: the matched selector's tags,
+// else the exact matched text, else the snippet itself
+export function locateEvidence(html: string, evidence: { selector?: string; match_text?: string; snippet?: string }): HighlightRange[] {
+  if (evidence.selector) {
+    const ranges = locateSelector(html, evidence.selector);
+    if (ranges.length > 0) return ranges;
+  }
+
+  for (const needle of [evidence.match_text, evidence.snippet]) {
+    if (!needle) continue;
+    const ranges: HighlightRange[] = [];
+    const lowerHtml = html.toLowerCase();
+    const lowerNeedle = needle.toLowerCase();
+    let index = lowerHtml.indexOf(lowerNeedle);
+    while (index !== -1 && ranges.length < 20) {
+      ranges.push({ start: index, end: index + needle.length });
+      index = lowerHtml.indexOf(lowerNeedle, index + needle.length);
+    }
+    if (ranges.length > 0) return ranges;
+  }
+
+  return [];
+}
@@ -0,0 +1,310 @@
+// supabase/functions/lib/lead-query.ts
+// The LeadQuery DSL: one Zod schema shared by the frontend, the edge
+// functions and the Express server. Every stored query carries a `version`;
+// upgradeLeadQuery walks older dsl_json (search_jobs, saved_searches) through
+// the upgrade steps below so it can be loaded and re-run as the current
+// version. Bump LEAD_QUERY_VERSION together with a new step in UPGRADES.
+//
+// "zod" is a bare import: Vite and Node resolve it from node_modules, Deno
+// through supabase/functions/import_map.json.
+
+import { z } from "zod";
+
+export const LEAD_QUERY_VERSION = 4;
+
+// The built-in vertical ids. Queries may also name custom verticals from the
+// admin-edited taxonomy (lib/verticals.ts), so the schema only checks the id
+// format; unknown ids search and score as generic.
+export const VERTICALS = [
+  "dentist", "law_firm", "contractor", "hvac", "roofing",
+  "restaurant", "retail", "healthcare", "fitness", "beauty",
+  "automotive", "real_estate", "insurance", "financial", "generic",
+] as const;
+
+export const SORT_ORDERS = ["score_desc", "score_asc", "name_asc", "recent_first", "reviews_desc"] as const;
+
+export const OUTPUT_CONTRACTS = ["csv", "json", "excel"] as const;
+
+export const DEFAULT_COMPLIANCE_FLAGS = ["respect_dnc", "two_party_recording_state_notes"];
+
+export const ConstraintSchema = z.object({
+  no_website: z.boolean().optional(),
+  has_chatbot: z.boolean().optional(),
+  has_online_booking: z.boolean().optional(),
+  owner_identified: z.boolean().optional(),
+  franchise: z.boolean().optional(),
+  has_payment_processor: z.boolean().optional(),
+  has_crm: z.boolean().optional(),
+  has_marketing_automation: z.boolean().optional(),
+  mobile_responsive: z.boolean().optional(),
+  ssl_certificate: z.boolean().optional(),
+  social_media_active: z.boolean().optional(),
+  reviews_count_gt: z.number().optional(),
+  reviews_count_lt: z.number().optional(),
+  // Inclusive bounds: "at least 20 reviews", "4+ stars", "between 10 and 50"
+  reviews_count_gte: z.number().optional(),
+  reviews_count_lte: z.number().optional(),
+  rating_gt: z.number().optional(),
+  rating_lt: z.number().optional(),
+  rating_gte: z.number().optional(),
+  rating_lte: z.number().optional(),
+  years_in_business_gt: z.number().optional(),
+  years_in_business_lt: z.number().optional(),
+  years_in_business_gte: z.number().optional(),
+  years_in_business_lte: z.number().optional(),
+  employee_count_range: z.array(z.number()).length(2).optional(),
+});
+
+export const VerticalIdSchema = z.string().regex(/^[a-z][a-z0-9_]{1,39}$/, "Vertical ids are lowercase letters, digits and underscores");
+
+export const GeoPointSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+// A further city searched alongside geo.city
+export const GeoLocationSchema = z.object({
+  city: z.string().min(1),
+  state: z.string().length(2).toUpperCase(),
+  center: GeoPointSchema.optional(),
+});
+
+// An area drawn or described instead of a radius around a city
+export const GeoShapeSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("polygon"), points: z.array(GeoPointSchema).min(3) }),
+  z.object({
+    type: z.literal("drive_time"),
+    minutes: z.number().min(1).max(120),
+    // Defaults to geo.center
+    center: GeoPointSchema.optional(),
+  }),
+]);
+
+export const GeoSchema = z.object({
+  city: z.string().min(1).optional(),
+  state: z.string().length(2).toUpperCase(),
+  radius_km: z.number().min(1).max(100).default(25),
+  // Filled in by the geocoding layer (lib/geocoding.ts) when it resolves the city
+  center: GeoPointSchema.optional(),
+  zip_codes: z.array(z.string().regex(/^\d{5}$/, "ZIP codes must have 5 digits")).optional(),
+  counties: z.array(z.string().min(1)).optional(),
+  locations: z.array(GeoLocationSchema).optional(),
+  neighborhoods: z.array(z.string()).optional(),
+  shape: GeoShapeSchema.optional(),
+}).refine(
+  (geo) => Boolean(geo.city || geo.zip_codes?.length || geo.counties?.length || geo.locations?.length || geo.shape?.type === "polygon"),
+  { message: "geo needs a city, ZIP codes, counties or a polygon" },
+);
+
+export const LeadQuerySchema = z.object({
+  version: z.literal(LEAD_QUERY_VERSION),
+  vertical: VerticalIdSchema,
+  // Further verticals searched alongside `vertical` in the same job
+  additional_verticals: z.array(VerticalIdSchema).optional(),
+  geo: GeoSchema,
+  constraints: z.object({
+    must: z.array(ConstraintSchema).default([]),
+    optional: z.array(ConstraintSchema).optional(),
+    exclude: z.array(ConstraintSchema).optional(),
+  }).default({}),
+  exclusions: z.array(z.string()).optional(),
+  result_size: z.object({
+    target: z.number().min(10).max(1000).default(250),
+    minimum: z.number().min(5).optional(),
+  }).default({}),
+  scoring: z.object({
+    weights: z.object({
+      icp_match: z.number().min(0).max(1).default(0.35),
+      pain_signals: z.number().min(0).max(1).default(0.35),
+      reachability: z.number().min(0).max(1).default(0.20),
+      compliance_risk: z.number().min(0).max(1).default(0.10),
+    }).optional(),
+    // A scoring profile id (lib/scoring-service.ts); unknown ids score as generic
+    profile: z.string().min(1).default("generic"),
+  }).default({}),
+  sort_by: z.enum(SORT_ORDERS).default("score_desc"),
+  output: z.object({
+    contract: z.enum(OUTPUT_CONTRACTS).default("json"),
+    include_fields: z.array(z.string()).optional(),
+  }).default({}),
+  notify: z.object({
+    on_complete: z.boolean().default(true),
+    webhook_url: z.string().url().optional(),
+    email: z.string().email().optional(),
+  }).default({}),
+  compliance_flags: z.array(z.string()).default(DEFAULT_COMPLIANCE_FLAGS),
+  metadata: z.object({
+    campaign_id: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    notes: z.string().optional(),
+  }).optional(),
+});
+
+export type LeadQuery = z.infer<typeof LeadQuerySchema>;
+export type LeadQueryInput = z.input<typeof LeadQuerySchema>;
+export type Constraint = z.infer<typeof ConstraintSchema>;
+export type LeadQueryGeo = z.infer<typeof GeoSchema>;
+export type GeoPoint = z.infer<typeof GeoPointSchema>;
+export type GeoShape = z.infer<typeof GeoShapeSchema>;
+export type BuiltInVertical = (typeof VERTICALS)[number];
+export type Vertical = z.infer<typeof VerticalIdSchema>;
+
+// `success` only narrows under strictNullChecks, which the frontend tsconfig
+// leaves off, so each branch also declares the other's fields as absent
+export type LeadQueryUpgradeResult =
+  | { success: true; dsl: LeadQuery; fromVersion: number; warnings: string[]; errors?: undefined }
+  | { success: false; dsl?: undefined; fromVersion: number; errors: string[] };
+
+type RawQuery = Record<string, unknown>;
+
+type Upgrade = {
+  from: number;
+  up: (dsl: RawQuery, warnings: string[]) => RawQuery;
+};
+
+function isRecord(value: unknown): value is RawQuery {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// JSON null in optional fields means "not set"
+function withoutNulls(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(withoutNulls);
+  if (!isRecord(value)) return value;
+  const result: RawQuery = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry !== null) result[key] = withoutNulls(entry);
+  }
+  return result;
+}
+
+const NEGATED_CONSTRAINTS: Record<string, [string, boolean]> = {
+  no_chatbot: ["has_chatbot", false],
+  no_online_booking: ["has_online_booking", false],
+  not_franchise: ["franchise", false],
+  has_website: ["no_website", false],
+};
+
+const UPGRADES: Upgrade[] = [
+  {
+    // Queries saved before the version field existed already had the v1 layout
+    from: 0,
+    up: (dsl) => dsl,
+  },
+  {
+    // v2 moves the scoring choice under `scoring` (v1 had lead_profile, and
+    // some writers used scoring_profile) and spells negations as false flags.
+    // v1 was only loosely validated, so this step also repairs what its
+    // writers actually stored: mixed-case verticals, output.format, unknown
+    // sort orders and field/value constraints from the old mock parser.
+    from: 1,
+    up: (dsl, warnings) => {
+      const { lead_profile, scoring_profile, ...rest } = dsl;
+      const scoring: RawQuery = isRecord(dsl.scoring) ? { ...dsl.scoring } : {};
+      scoring.profile ??= scoring_profile ?? lead_profile;
+
+      const vertical = typeof dsl.vertical === "string" ? dsl.vertical.toLowerCase().trim().replace(/\s+/g, "_") : dsl.vertical;
+      const knownVertical = (VERTICALS as readonly unknown[]).includes(vertical) ? vertical : "generic";
+      if (knownVertical !== vertical) warnings.push(`Unknown vertical "${dsl.vertical}", using generic`);
+
+      const sortBy = (SORT_ORDERS as readonly unknown[]).includes(dsl.sort_by) ? dsl.sort_by : undefined;
+      if (dsl.sort_by !== undefined && !sortBy) warnings.push(`Unknown sort order "${dsl.sort_by}", using score_desc`);
+
+      const output: RawQuery = isRecord(dsl.output) ? { ...dsl.output } : {};
+      output.contract ??= output.format;
+      delete output.format;
+
+      const constraints: RawQuery = isRecord(dsl.constraints) ? { ...dsl.constraints } : {};
+      for (const list of ["must", "optional", "exclude"]) {
+        const entries = constraints[list];
+        if (!Array.isArray(entries)) continue;
+        const keyed = entries.filter((constraint: unknown) => !(isRecord(constraint) && "field" in constraint));
+        if (keyed.length < entries.length) {
+          warnings.push(`Dropped ${entries.length - keyed.length} unsupported field/value constraint(s) from constraints.${list}`);
+        }
+        constraints[list] = keyed.map((constraint: unknown) => {
+          if (!isRecord(constraint)) return constraint;
+          const upgraded: RawQuery = {};
+          for (const [key, value] of Object.entries(constraint)) {
+            const negated = NEGATED_CONSTRAINTS[key];
+            if (negated && value === true) upgraded[negated[0]] = negated[1];
+            else if (!negated) upgraded[key] = value;
+          }
+          return upgraded;
+        });
+      }
+
+      return { ...rest, vertical: knownVertical, sort_by: sortBy, output, scoring, constraints };
+    },
+  },
+  {
+    // v3 only widens geo (optional city, center, counties, extra locations,
+    // shapes), so every v2 query is already a valid v3 query
+    from: 2,
+    up: (dsl) => dsl,
+  },
+  {
+    // v4 takes vertical ids from the taxonomy instead of a fixed list and
+    // adds additional_verticals; every v3 vertical is a built-in id
+    from: 3,
+    up: (dsl) => dsl,
+  },
+];
+
+export function formatLeadQueryIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message));
+}
+
+// Brings any stored query up to LEAD_QUERY_VERSION and validates it
+export function upgradeLeadQuery(raw: unknown): LeadQueryUpgradeResult {
+  if (!isRecord(raw)) {
+    return { success: false, fromVersion: 0, errors: ["Lead query must be an object"] };
+  }
+
+  const fromVersion = typeof raw.version === "number" ? raw.version : 0;
+  if (fromVersion > LEAD_QUERY_VERSION) {
+    return {
+      success: false,
+      fromVersion,
+      errors: [`Lead query version ${fromVersion} is newer than the supported version ${LEAD_QUERY_VERSION}`],
+    };
+  }
+
+  const warnings: string[] = [];
+  let dsl = withoutNulls(raw) as RawQuery;
+  for (const upgrade of UPGRADES) {
+    if (upgrade.from < fromVersion) continue;
+    dsl = { ...upgrade.up(dsl, warnings), version: upgrade.from + 1 };
+  }
+  if (fromVersion < LEAD_QUERY_VERSION) {
+    warnings.push(`Upgraded lead query from version ${fromVersion} to ${LEAD_QUERY_VERSION}`);
+  }
+
+  const parsed = LeadQuerySchema.safeParse(dsl);
+  if (!parsed.success) {
+    return { success: false, fromVersion, errors: formatLeadQueryIssues(parsed.error) };
+  }
+  return { success: true, dsl: parsed.data, fromVersion, warnings };
+}
+
+// upgradeLeadQuery for callers that treat an unusable query as an error
+export function requireLeadQuery(raw: unknown): LeadQuery {
+  const result = upgradeLeadQuery(raw);
+  if (result.success) return result.dsl;
+  throw new Error(`Invalid lead query: ${result.errors.join("; ")}`);
+}
+
+// For request schemas: accepts a query of any supported version and yields
+// the upgraded current-version query
+export const StoredLeadQuerySchema = z.unknown().transform((raw, ctx): LeadQuery => {
+  const result = upgradeLeadQuery(raw);
+  if (result.success) return result.dsl;
+  for (const message of result.errors) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  return z.NEVER;
+});
+
+// For lists of stored queries: one that can't be upgraded is shown as stored
+// rather than hiding its row; running it again fails validation server-side
+export function loadStoredLeadQuery(raw: unknown): LeadQuery {
+  const result = upgradeLeadQuery(raw);
+  return result.success ? result.dsl : (raw as LeadQuery);
+}
@@ -2,6 +2,17 @@
 // Advanced lead scoring using machine learning-inspired algorithms
 
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  BUILT_IN_SCORING_PROFILES,
+  BusinessLike,
+  DEFAULT_SCORING_PROFILE,
+  ComponentScores,
+  featuresFromSignals,
+  Qualification,
+  ScoringProfile,
+  scoreLead as scoreWithService,
+} from "./scoring-service.ts";
+import { applyLearnedModel, LearnedScoringModel } from "./scoring-model.ts";
 
 // Signal importance weights learned from "training data"
 const SIGNAL_WEIGHTS = {
@@ -68,27 +79,29 @@ const BusinessFeaturesSchema = z.object({
 });
 
 const ScoringProfileSchema = z.object({
+  id: z.string(),
   name: z.string(),
   description: z.string(),
   weights: z.object({
-    icp_fit: z.number().min(0).max(1),
-    pain_score: z.number().min(0).max(1),
-    opportunity_size: z.number().min(0).max(1),
-    reachability: z.number().min(0).max(1),
-    timing: z.number().min(0).max(1)
+    ICP: z.number().min(0).max(100),
+    Pain: z.number().min(0).max(100),
+    Reachability: z.number().min(0).max(100),
+    ComplianceRisk: z.number().min(0).max(100)
   }),
   thresholds: z.object({
     qualified: z.number().min(0).max(100),
     promising: z.number().min(0).max(100),
     low_priority: z.number().min(0).max(100)
   }),
+  vertical: z.string().optional(),
   industry_modifiers: z.record(z.number()).optional()
 });
 
 export class MLScoringEngine {
   private profiles: Map<string, ScoringProfile>;
   private featureCache: Map<string, FeatureVector>;
-  private modelVersion: string = "1.0.0";
+  // Promoted learned model (lib/scoring-model.ts); null scores by the rules alone
+  private model: LearnedScoringModel | null = null;
 
   constructor() {
     this.profiles = new Map();
@@ -97,185 +110,58 @@ export class MLScoringEngine {
   }
 
   private initializeProfiles() {
-    // Sales-ready profile - optimized for immediate outreach
-    this.profiles.set('sales_ready', {
-      name: 'sales_ready',
-      description: 'Optimized for businesses ready for immediate sales outreach',
-      weights: {
-        icp_fit: 0.20,
-        pain_score: 0.25,
-        opportunity_size: 0.20,
-        reachability: 0.30,
-        timing: 0.05
-      },
-      thresholds: {
-        qualified: 75,
-        promising: 60,
-        low_priority: 40
-      },
-      industry_modifiers: {
-        'technology': 1.1,
-        'healthcare': 1.05,
-        'retail': 0.95,
-        'restaurant': 0.90
-      }
-    });
-
-    // Marketing qualified profile - optimized for nurture campaigns
-    this.profiles.set('marketing_qualified', {
-      name: 'marketing_qualified',
-      description: 'Optimized for businesses that need education and nurturing',
-      weights: {
-        icp_fit: 0.30,
-        pain_score: 0.35,
-        opportunity_size: 0.25,
-        reachability: 0.05,
-        timing: 0.05
-      },
-      thresholds: {
-        qualified: 70,
-        promising: 55,
-        low_priority: 35
-      }
-    });
-
-    // Enterprise profile - optimized for large deal sizes
-    this.profiles.set('enterprise', {
-      name: 'enterprise',
-      description: 'Optimized for enterprise businesses with complex needs',
-      weights: {
-        icp_fit: 0.35,
-        pain_score: 0.20,
-        opportunity_size: 0.35,
-        reachability: 0.05,
-        timing: 0.05
-      },
-      thresholds: {
-        qualified: 80,
-        promising: 65,
-        low_priority: 45
-      },
-      industry_modifiers: {
-        'financial': 1.2,
-        'healthcare': 1.15,
-        'government': 1.1
-      }
-    });
-
-    // Tech-savvy profile - optimized for digitally mature businesses
-    this.profiles.set('tech_savvy', {
-      name: 'tech_savvy',
-      description: 'Optimized for businesses already using modern technology',
-      weights: {
-        icp_fit: 0.25,
-        pain_score: 0.40,
-        opportunity_size: 0.20,
-        reachability: 0.10,
-        timing: 0.05
-      },
-      thresholds: {
-        qualified: 72,
-        promising: 58,
-        low_priority: 38
-      }
-    });
-
-    // Local SMB profile - optimized for local small businesses
-    this.profiles.set('local_smb', {
-      name: 'local_smb',
-      description: 'Optimized for local small and medium businesses',
-      weights: {
-        icp_fit: 0.25,
-        pain_score: 0.30,
-        opportunity_size: 0.15,
-        reachability: 0.25,
-        timing: 0.05
-      },
-      thresholds: {
-        qualified: 65,
-        promising: 50,
-        low_priority: 30
-      },
-      industry_modifiers: {
-        'restaurant': 1.1,
-        'retail': 1.1,
-        'services': 1.05
-      }
-    });
+    for (const profile of BUILT_IN_SCORING_PROFILES) {
+      this.profiles.set(profile.id, profile);
+    }
   }
 
+  // Scores through the shared scoring service, on the features
+  // featuresFromSignals reads from the same signals, so results match every
+  // other caller: a signal nobody recorded stays unknown instead of counting
+  // as absent. This engine only adds insights, recommendations and the
+  // learned model's feature vector.
   async scoreLead(
-    businessData: any,
+    businessData: BusinessLike & { id?: string },
     signals: Signal[],
     profileName: string = 'sales_ready'
   ): Promise<ScoringResult> {
-    const profile = this.profiles.get(profileName) || this.profiles.get('sales_ready')!;
+    const profile = this.profiles.get(profileName) || DEFAULT_SCORING_PROFILE;
     
     // Extract features
     const features = await this.extractFeatures(businessData, signals);
-    
-    // Calculate component scores
-    const icpScore = this.calculateICPScore(features, businessData.vertical);
-    const painScore = this.calculatePainScore(features, signals);
-    const opportunityScore = this.calculateOpportunityScore(features, businessData);
-    const reachabilityScore = this.calculateReachabilityScore(features, signals);
-    const timingScore = this.calculateTimingScore(features, signals);
-    
-    // Apply weights
-    const weightedScore = 
-      (icpScore * profile.weights.icp_fit) +
-      (painScore * profile.weights.pain_score) +
-      (opportunityScore * profile.weights.opportunity_size) +
-      (reachabilityScore * profile.weights.reachability) +
-      (timingScore * profile.weights.timing);
-    
-    // Apply industry modifier if available
-    const industryModifier = profile.industry_modifiers?.[businessData.vertical] || 1.0;
-    const finalScore = Math.min(100, Math.max(0, weightedScore * industryModifier));
-    
-    // Determine qualification level
-    let qualification: 'qualified' | 'promising' | 'low_priority' | 'unqualified';
-    if (finalScore >= profile.thresholds.qualified) {
-      qualification = 'qualified';
-    } else if (finalScore >= profile.thresholds.promising) {
-      qualification = 'promising';
-    } else if (finalScore >= profile.thresholds.low_priority) {
-      qualification = 'low_priority';
-    } else {
-      qualification = 'unqualified';
-    }
+    const scoringFeatures = featuresFromSignals(
+      signals.map(signal => ({ type: signal.type, value_json: signal.value })),
+      businessData
+    );
+    const ruleBased = scoreWithService(scoringFeatures, profile);
+    const result = this.model ? applyLearnedModel(ruleBased, this.model, features, profile.thresholds) : ruleBased;
     
     // Generate insights
-    const insights = this.generateInsights(features, signals, finalScore);
+    const insights = this.generateInsights(features, signals, result.score);
     
     // Generate recommendations
     const recommendations = this.generateRecommendations(
       features,
       signals,
-      qualification,
-      painScore
+      result.qualification,
+      result.scoring_breakdown.raw.Pain
     );
     
     return {
-      score: Math.round(finalScore),
-      qualification,
-      components: {
-        icp: Math.round(icpScore),
-        pain: Math.round(painScore),
-        opportunity: Math.round(opportunityScore),
-        reachability: Math.round(reachabilityScore),
-        timing: Math.round(timingScore)
-      },
+      score: result.score,
+      qualification: result.qualification,
+      subscores: result.subscores,
       confidence: this.calculateConfidence(signals),
       insights,
       recommendations,
-      profile: profileName,
-      model_version: this.modelVersion,
-      scored_at: new Date().toISOString()
+      profile: profile.id,
+      model_version: result.model_version,
+      scored_at: result.scored_at
     };
   }
 
-  private async extractFeatures(businessData: any, signals: Signal[]): Promise<FeatureVector> {
+  // Also the input the train-scoring-model job fits learned models on
+  async extractFeatures(businessData: any, signals: Signal[]): Promise<FeatureVector> {
     const cacheKey = `${businessData.id}_${signals.length}`;
     
     if (this.featureCache.has(cacheKey)) {
@@ -387,115 +273,6 @@ export class MLScoringEngine {
     return features;
   }
 
-  private calculateICPScore(features: FeatureVector, vertical: string): number {
-    let score = 50; // Base score
-    
-    // Industry fit
-    const highValueVerticals = ['healthcare', 'law_firm', 'financial', 'real_estate'];
-    const mediumValueVerticals = ['contractor', 'hvac', 'roofing', 'automotive'];
-    
-    if (highValueVerticals.includes(vertical)) {
-      score += 15;
-    } else if (mediumValueVerticals.includes(vertical)) {
-      score += 10;
-    }
-    
-    // Business size indicators
-    if (features.employee_count > 10) score += 10;
-    else if (features.employee_count > 5) score += 5;
-    
-    if (features.review_count > 100) score += 10;
-    else if (features.review_count > 50) score += 5;
-    
-    // Digital presence
-    if (features.has_website) score += 10;
-    if (features.social_media_count >= 2) score += 5;
-    
-    // Business maturity
-    if (features.years_in_business > 5) score += 5;
-    if (features.average_rating >= 4.0) score += 5;
-    
-    return Math.min(100, score);
-  }
-
-  private calculatePainScore(features: FeatureVector, signals: Signal[]): number {
-    let painPoints = 0;
-    let maxPainPoints = 10;
-    
-    // Major pain points (2 points each)
-    if (!features.has_website) painPoints += 2;
-    if (!features.mobile_responsive && features.has_website) painPoints += 2;
-    if (!features.has_booking && this.shouldHaveBooking(signals)) painPoints += 2;
-    if (!features.has_analytics) painPoints += 2;
-    if (features.page_speed_score < 50) painPoints += 2;
-    
-    // Moderate pain points (1 point each)
-    if (!features.has_chat) painPoints += 1;
-    if (!features.ssl_enabled && features.has_website) painPoints += 1;
-    if (!features.has_crm) painPoints += 1;
-    if (!features.has_marketing_auto) painPoints += 1;
-    if (features.social_media_count === 0) painPoints += 1;
-    
-    // Convert to 0-100 scale
-    return Math.min(100, (painPoints / maxPainPoints) * 100);
-  }
-
-  private calculateOpportunityScore(features: FeatureVector, businessData: any): number {
-    let score = 0;
-    
-    // Market size component (0-40 points)
-    score += Math.min(40, features.market_size_estimate * 0.4);
-    
-    // Growth potential component (0-30 points)
-    score += Math.min(30, features.growth_potential * 0.3);
-    
-    // Technology gap component (0-30 points)
-    const techGap = 10 - features.tech_stack_size;
-    score += Math.min(30, Math.max(0, techGap * 3));
-    
-    return Math.min(100, score);
-  }
-
-  private calculateReachabilityScore(features: FeatureVector, signals: Signal[]): number {
-    let score = 0;
-    
-    // Contact information availability
-    if (features.owner_identified) score += 40;
-    if (features.has_email) score += 20;
-    if (features.has_phone) score += 20;
-    
-    // Digital channels
-    if (features.has_website) score += 10;
-    if (features.social_media_count > 0) {
-      score += Math.min(10, features.social_media_count * 3);
-    }
-    
-    return Math.min(100, score);
-  }
-
-  private calculateTimingScore(features: FeatureVector, signals: Signal[]): number {
-    let score = 50; // Neutral baseline
-    
-    // Positive timing indicators
-    const recentActivitySignal = signals.find(s => s.type === 'recent_website_update');
-    if (recentActivitySignal && recentActivitySignal.value) {
-      score += 20;
-    }
-    
-    // Growth indicators
-    if (features.review_count > 0) {
-      // Check for recent reviews (would need timestamp data)
-      score += 10;
-    }
-    
-    // Negative timing indicators
-    if (features.years_in_business < 1) {
-      score -= 20; // Too new, might not be ready
-    }
-    
-    return Math.min(100, Math.max(0, score));
-  }
-
   private calculateDigitalMaturity(features: FeatureVector): number {
     let maturity = 0;
     const factors = [
@@ -711,13 +488,36 @@ export class MLScoringEngine {
 
   // Add custom profile
   addCustomProfile(profile: ScoringProfile): void {
-    const validated = ScoringProfileSchema.parse(profile);
-    this.profiles.set(validated.name, validated);
+    const validated = ScoringProfileSchema.parse(profile) as ScoringProfile;
+    this.profiles.set(validated.id, validated);
+  }
+
+  // Score with a promoted learned model on top of the rules; null reverts
+  useModel(model: LearnedScoringModel | null): void {
+    this.model = model;
   }
 }
 
+// FeatureVector for stored `businesses` and `signals` rows, as learned models
+// are trained and scored on. Places ratings and review counts are stored as
+// signals rather than business columns. A fresh engine each time, since the
+// feature cache can't tell a re-enriched business from the old one.
+export function featureVectorFromRows(
+  business: { id: string; vertical?: string | null; phone?: string | null; franchise_bool?: boolean | null },
+  signals: Array<{ type: string; value_json: unknown; confidence?: number | null }>,
+): Promise<FeatureVector> {
+  const numeric = (type: string) => {
+    const value = signals.find((signal) => signal.type === type)?.value_json;
+    return typeof value === "number" ? value : undefined;
+  };
+  return new MLScoringEngine().extractFeatures(
+    { ...business, review_count: numeric("review_count"), rating: numeric("rating") },
+    signals.map((signal) => ({ type: signal.type, value: signal.value_json, confidence: signal.confidence ?? 1 })),
+  );
+}
+
 // Type definitions
-interface Signal {
+export interface Signal {
   type: string;
   value: any;
   confidence: number;
@@ -725,7 +525,7 @@ interface Signal {
   timestamp?: string;
 }
 
-interface FeatureVector {
+export type FeatureVector = {
   // Basic features
   has_website: boolean;
   website_quality: number;
@@ -762,36 +562,12 @@ interface FeatureVector {
   competition_level: number;
   market_size_estimate: number;
   growth_potential: number;
-}
-
-interface ScoringProfile {
-  name: string;
-  description: string;
-  weights: {
-    icp_fit: number;
-    pain_score: number;
-    opportunity_size: number;
-    reachability: number;
-    timing: number;
-  };
-  thresholds: {
-    qualified: number;
-    promising: number;
-    low_priority: number;
-  };
-  industry_modifiers?: Record<string, number>;
-}
+};
 
 interface ScoringResult {
   score: number;
-  qualification: 'qualified' | 'promising' | 'low_priority' | 'unqualified';
-  components: {
-    icp: number;
-    pain: number;
-    opportunity: number;
-    reachability: number;
-    timing: number;
-  };
+  qualification: Qualification;
+  subscores: ComponentScores;
   confidence: number;
   insights: string[];
   recommendations: string[];
@@ -0,0 +1,86 @@
+// supabase/functions/lib/rank-movement.ts
+// Compares a search's current ranking with the ranking candidate weights
+// would produce (rescore-leads with simulate: true), per lead and in summary:
+// rank and score deltas, and which leads enter or drop out of the top N.
+// Pure TypeScript, loaded from Deno, Node and Vite alike.
+
+export type RankedLead = {
+  business_id: string;
+  name: string;
+  score: number;
+  rank: number;
+};
+
+export type LeadMovement = {
+  business_id: string;
+  name: string;
+  score_before: number;
+  score_after: number;
+  score_delta: number;
+  rank_before: number;
+  rank_after: number;
+  // Positive when the lead moved up the list
+  rank_delta: number;
+  entered_top: boolean;
+  dropped_top: boolean;
+};
+
+export type RankMovementSummary = {
+  leads: number;
+  top_n: number;
+  entered_top: number;
+  dropped_top: number;
+  moved_up: number;
+  moved_down: number;
+  unchanged: number;
+  mean_abs_score_delta: number;
+};
+
+export type RankMovement = {
+  summary: RankMovementSummary;
+  // Ordered by the simulated rank
+  movements: LeadMovement[];
+};
+
+export const DEFAULT_TOP_N = 50;
+
+// Leads missing from either side are left out; both rankings come from the
+// same lead views, so that only happens when a lead is deleted mid-request.
+export function compareRankings(before: RankedLead[], after: RankedLead[], topN = DEFAULT_TOP_N): RankMovement {
+  const previous = new Map(before.map((lead) => [lead.business_id, lead]));
+  const movements: LeadMovement[] = [];
+
+  for (const lead of [...after].sort((a, b) => a.rank - b.rank)) {
+    const old = previous.get(lead.business_id);
+    if (!old) continue;
+    movements.push({
+      business_id: lead.business_id,
+      name: lead.name,
+      score_before: old.score,
+      score_after: lead.score,
+      score_delta: lead.score - old.score,
+      rank_before: old.rank,
+      rank_after: lead.rank,
+      rank_delta: old.rank - lead.rank,
+      entered_top: lead.rank <= topN && old.rank > topN,
+      dropped_top: old.rank <= topN && lead.rank > topN,
+    });
+  }
+
+  const count = (predicate: (movement: LeadMovement) => boolean) => movements.filter(predicate).length;
+  const totalDelta = movements.reduce((sum, movement) => sum + Math.abs(movement.score_delta), 0);
+
+  return {
+    summary: {
+      leads: movements.length,
+      top_n: topN,
+      entered_top: count((movement) => movement.entered_top),
+      dropped_top: count((movement) => movement.dropped_top),
+      moved_up: count((movement) => movement.rank_delta > 0),
+      moved_down: count((movement) => movement.rank_delta < 0),
+      unchanged: count((movement) => movement.rank_delta === 0),
+      mean_abs_score_delta: movements.length ? Math.round((totalDelta / movements.length) * 10) / 10 : 0,
+    },
+    movements,
+  };
+}
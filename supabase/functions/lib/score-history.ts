@@ -0,0 +1,76 @@
+// supabase/functions/lib/score-history.ts
+// One lead_score_history row per scoring event: the score task of a search
+// (ranked later by the validate task) and every re-score. Lead views only
+// keep the latest score and rank, so this is what shows a lead climbing as
+// new signals arrive. Pure TypeScript, loaded from Deno, Node and Vite alike.
+
+import type { ComponentScores, ScoringResult, ScoringWeights } from "./scoring-service.ts";
+
+export type ScoreEvent = "search" | "rescore";
+
+export type ScoreHistoryEntry = {
+  lead_view_id: string;
+  search_job_id: string;
+  business_id: string;
+  event: ScoreEvent;
+  profile: string;
+  model_version: string;
+  weights_hash: string;
+  score: number;
+  // null until the search's validate task ranks it
+  rank: number | null;
+  subscores: ComponentScores;
+  scored_at: string;
+};
+
+// Scores kept per lead for the leads-table sparkline
+export const SPARKLINE_POINTS = 12;
+
+// Short stable id for a weight set, so events scored with the same weights
+// can be grouped whatever the profile was called. FNV-1a over the weights in
+// a fixed order.
+export function weightsHash(weights: ScoringWeights): string {
+  const text = `ICP:${weights.ICP}|Pain:${weights.Pain}|Reachability:${weights.Reachability}|ComplianceRisk:${weights.ComplianceRisk}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+export function historyEntry(
+  leadView: { id: string; search_job_id: string; business_id: string; rank?: number | null },
+  result: ScoringResult,
+  event: ScoreEvent,
+): ScoreHistoryEntry {
+  return {
+    lead_view_id: leadView.id,
+    search_job_id: leadView.search_job_id,
+    business_id: leadView.business_id,
+    event,
+    profile: result.scoring_breakdown.profile,
+    model_version: result.model_version,
+    weights_hash: weightsHash(result.scoring_breakdown.weights),
+    score: result.score,
+    rank: leadView.rank || null,
+    subscores: result.subscores,
+    scored_at: result.scored_at,
+  };
+}
+
+// Each business's latest `points` scores, oldest first. Entries must be
+// ordered by scored_at.
+export function scoreSeries(
+  entries: Array<Pick<ScoreHistoryEntry, "business_id" | "score">>,
+  points = SPARKLINE_POINTS,
+): Record<string, number[]> {
+  const series: Record<string, number[]> = {};
+  for (const entry of entries) {
+    (series[entry.business_id] ??= []).push(entry.score);
+  }
+  for (const businessId of Object.keys(series)) {
+    series[businessId] = series[businessId].slice(-points);
+  }
+  return series;
+}
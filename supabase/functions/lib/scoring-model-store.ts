@@ -0,0 +1,99 @@
+// supabase/functions/lib/scoring-model-store.ts
+// Stores learned scoring models and loads the active one. The active model is
+// cached per isolate for a few minutes so every score task doesn't query it.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { LearnedScoringModel, ModelMetrics } from "./scoring-model.ts";
+
+export type ModelStatus = "candidate" | "active" | "retired";
+
+export type StoredScoringModel = {
+  id: string;
+  version: string;
+  status: ModelStatus;
+  model: LearnedScoringModel;
+  metrics: ModelMetrics;
+  trained_at: string;
+  promoted_at: string | null;
+};
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+let cached: { model: LearnedScoringModel | null; loadedAt: number } | null = null;
+
+// The promoted model, or null to score by the rules alone. Falls back to the
+// rules when the table cannot be read, so scoring never stops on a lookup failure.
+export async function loadActiveModel(supabase: SupabaseClient): Promise<LearnedScoringModel | null> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.model;
+  }
+
+  const { data, error } = await supabase
+    .from("scoring_models")
+    .select("model")
+    .eq("status", "active")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Scoring with the rule-based model only:", error.message);
+    return null;
+  }
+  const model = (data?.model as LearnedScoringModel | undefined) ?? null;
+  cached = { model, loadedAt: Date.now() };
+  return model;
+}
+
+export async function listModels(supabase: SupabaseClient, limit = 20): Promise<StoredScoringModel[]> {
+  const { data, error } = await supabase
+    .from("scoring_models")
+    .select("id, version, status, model, metrics, trained_at, promoted_at")
+    .order("trained_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list scoring models: ${error.message}`);
+  }
+  return (data ?? []) as StoredScoringModel[];
+}
+
+export async function saveCandidateModel(
+  supabase: SupabaseClient,
+  model: LearnedScoringModel,
+  metrics: ModelMetrics,
+  userId?: string,
+): Promise<StoredScoringModel> {
+  const { data, error } = await supabase
+    .from("scoring_models")
+    .insert({ version: model.version, model, metrics, trained_by: userId ?? null, trained_at: model.trained_at })
+    .select("id, version, status, model, metrics, trained_at, promoted_at")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save scoring model ${model.version}: ${error.message}`);
+  }
+  return data as StoredScoringModel;
+}
+
+// Retires the active model and activates `id`; `id` null reverts to the rules
+export async function promoteModel(supabase: SupabaseClient, id: string | null, userId?: string): Promise<void> {
+  const { error: retireError } = await supabase
+    .from("scoring_models")
+    .update({ status: "retired" })
+    .eq("status", "active");
+
+  if (retireError) {
+    throw new Error(`Failed to retire the active scoring model: ${retireError.message}`);
+  }
+
+  if (id) {
+    const { error } = await supabase
+      .from("scoring_models")
+      .update({ status: "active", promoted_by: userId ?? null, promoted_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) {
+      throw new Error(`Failed to promote scoring model ${id}: ${error.message}`);
+    }
+  }
+  cached = null;
+}
@@ -0,0 +1,342 @@
+// supabase/functions/lib/scoring-model.ts
+// Learned lead scoring. An offline job (train-scoring-model) fits a logistic
+// regression over the FeatureVector MLScoringEngine.extractFeatures produces,
+// labelled by what sales did with each lead: won or qualified leads are
+// positives, lost or ignored ones negatives. A fixed share of businesses is
+// held out to report AUC and calibration, and a promoted model replaces the
+// rule-based total in the score task and rescoring. Pure TypeScript, loaded
+// from Deno, Node and Vite alike.
+
+import { qualify, ScoreContribution, ScoringResult, ScoringThresholds, settleContributions } from "./scoring-service.ts";
+
+// Numeric view of a FeatureVector; booleans count as 0/1
+export type FeatureValues = Record<string, number | boolean | undefined>;
+
+export type Outcome = "won" | "lost" | "qualified" | "ignored";
+
+export type TrainingExample = {
+  business_id: string;
+  features: FeatureValues;
+  outcome: Outcome;
+};
+
+export type LearnedScoringModel = {
+  version: string;
+  kind: "logistic";
+  feature_names: string[];
+  weights: number[];
+  bias: number;
+  // Standardization fitted on the training split
+  means: number[];
+  stds: number[];
+  trained_at: string;
+};
+
+export type CalibrationBin = {
+  // Predicted probability range [lower, upper)
+  lower: number;
+  upper: number;
+  count: number;
+  mean_predicted: number;
+  observed_rate: number;
+};
+
+export type ModelMetrics = {
+  training_examples: number;
+  holdout_examples: number;
+  positives: number;
+  negatives: number;
+  auc: number;
+  brier: number;
+  log_loss: number;
+  // Count-weighted gap between predicted and observed rates across bins
+  expected_calibration_error: number;
+  calibration: CalibrationBin[];
+};
+
+export type TrainingOptions = {
+  epochs?: number;
+  learning_rate?: number;
+  l2?: number;
+  holdout_fraction?: number;
+};
+
+// FeatureVector fields extractFeatures fills in; the others are always zero
+export const MODEL_FEATURES = [
+  "has_website",
+  "tech_stack_size",
+  "has_modern_tech",
+  "has_analytics",
+  "has_chat",
+  "has_booking",
+  "has_payment",
+  "has_crm",
+  "has_marketing_auto",
+  "review_count",
+  "average_rating",
+  "digital_maturity_score",
+  "mobile_responsive",
+  "ssl_enabled",
+  "page_speed_score",
+  "owner_identified",
+  "social_media_count",
+  "market_size_estimate",
+  "growth_potential",
+];
+
+// Fewer labelled leads than this give a holdout too small to judge a model by
+export const MIN_TRAINING_EXAMPLES = 40;
+
+const DEFAULT_OPTIONS: Required<TrainingOptions> = {
+  epochs: 400,
+  learning_rate: 0.1,
+  l2: 0.01,
+  holdout_fraction: 0.2,
+};
+
+const CALIBRATION_BINS = 10;
+
+// Won and lost opportunities outrank the lead's latest status; leads still
+// new (or in an open stage) have no outcome yet and are left out
+export function resolveOutcome(status?: string | null, stage?: string | null): Outcome | null {
+  if (stage === "Won") return "won";
+  if (stage === "Lost") return "lost";
+  if (status === "qualified") return "qualified";
+  if (status === "ignored") return "ignored";
+  return null;
+}
+
+export function labelOutcome(outcome: Outcome): 0 | 1 {
+  return outcome === "won" || outcome === "qualified" ? 1 : 0;
+}
+
+// Review counts span orders of magnitude, so they enter on a log scale
+function featureValue(features: FeatureValues, name: string): number {
+  const value = features[name];
+  const numeric = typeof value === "boolean" ? (value ? 1 : 0) : typeof value === "number" && isFinite(value) ? value : 0;
+  return name === "review_count" ? Math.log1p(Math.max(0, numeric)) : numeric;
+}
+
+function vectorize(features: FeatureValues, names: string[]): number[] {
+  return names.map((name) => featureValue(features, name));
+}
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+// FNV-1a, so a business lands in the same split on every training run
+function hashFraction(id: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+export function splitHoldout(examples: TrainingExample[], fraction = DEFAULT_OPTIONS.holdout_fraction) {
+  const training: TrainingExample[] = [];
+  const holdout: TrainingExample[] = [];
+  for (const example of examples) {
+    (hashFraction(example.business_id) < fraction ? holdout : training).push(example);
+  }
+  return { training, holdout };
+}
+
+export function predictProbability(model: LearnedScoringModel, features: FeatureValues): number {
+  const x = vectorize(features, model.feature_names);
+  let z = model.bias;
+  for (let i = 0; i < x.length; i++) {
+    z += model.weights[i] * ((x[i] - model.means[i]) / model.stds[i]);
+  }
+  return sigmoid(z);
+}
+
+// Full-batch gradient descent on standardized features with L2 regularization
+export function trainLogistic(
+  examples: TrainingExample[],
+  options: TrainingOptions = {},
+  featureNames: string[] = MODEL_FEATURES,
+): LearnedScoringModel {
+  const { epochs, learning_rate, l2 } = { ...DEFAULT_OPTIONS, ...options };
+  const rows = examples.map((example) => vectorize(example.features, featureNames));
+  const labels = examples.map((example) => labelOutcome(example.outcome));
+  const n = rows.length;
+
+  const means = featureNames.map((_, j) => rows.reduce((sum, row) => sum + row[j], 0) / n);
+  // A feature with no spread in the training data contributes nothing
+  const stds = featureNames.map((_, j) => {
+    const variance = rows.reduce((sum, row) => sum + (row[j] - means[j]) ** 2, 0) / n;
+    return Math.sqrt(variance) || 1;
+  });
+  const standardized = rows.map((row) => row.map((value, j) => (value - means[j]) / stds[j]));
+
+  const weights = featureNames.map(() => 0);
+  const positives = labels.reduce<number>((sum, label) => sum + label, 0);
+  // Start from the base rate so early epochs don't just chase it
+  let bias = Math.log((positives + 1) / (n - positives + 1));
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const gradient = featureNames.map(() => 0);
+    let biasGradient = 0;
+    for (let i = 0; i < n; i++) {
+      let z = bias;
+      for (let j = 0; j < weights.length; j++) z += weights[j] * standardized[i][j];
+      const error = sigmoid(z) - labels[i];
+      biasGradient += error;
+      for (let j = 0; j < weights.length; j++) gradient[j] += error * standardized[i][j];
+    }
+    bias -= (learning_rate * biasGradient) / n;
+    for (let j = 0; j < weights.length; j++) {
+      weights[j] -= learning_rate * (gradient[j] / n + l2 * weights[j]);
+    }
+  }
+
+  return {
+    version: "",
+    kind: "logistic",
+    feature_names: featureNames,
+    weights,
+    bias,
+    means,
+    stds,
+    trained_at: new Date().toISOString(),
+  };
+}
+
+// Probability a random positive outranks a random negative; ties count half
+export function areaUnderCurve(labels: number[], probabilities: number[]): number {
+  const pairs = labels.map((label, i) => ({ label, p: probabilities[i] })).sort((a, b) => a.p - b.p);
+  const positives = labels.filter((label) => label === 1).length;
+  const negatives = labels.length - positives;
+  if (positives === 0 || negatives === 0) return 0.5;
+
+  // Sum of positive ranks, averaging ranks over tied probabilities
+  let rankSum = 0;
+  for (let i = 0; i < pairs.length;) {
+    let j = i;
+    while (j < pairs.length && pairs[j].p === pairs[i].p) j++;
+    const averageRank = (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) if (pairs[k].label === 1) rankSum += averageRank;
+    i = j;
+  }
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+export function evaluateModel(labels: number[], probabilities: number[]) {
+  const n = labels.length;
+  const clampP = (p: number) => Math.min(1 - 1e-9, Math.max(1e-9, p));
+  const brier = labels.reduce((sum, label, i) => sum + (probabilities[i] - label) ** 2, 0) / (n || 1);
+  const logLoss = -labels.reduce(
+    (sum, label, i) => sum + (label ? Math.log(clampP(probabilities[i])) : Math.log(1 - clampP(probabilities[i]))),
+    0,
+  ) / (n || 1);
+
+  const calibration: CalibrationBin[] = [];
+  let calibrationError = 0;
+  for (let b = 0; b < CALIBRATION_BINS; b++) {
+    const lower = b / CALIBRATION_BINS;
+    const upper = (b + 1) / CALIBRATION_BINS;
+    const members = probabilities
+      .map((p, i) => ({ p, label: labels[i] }))
+      .filter(({ p }) => p >= lower && (p < upper || (b === CALIBRATION_BINS - 1 && p <= upper)));
+    if (members.length === 0) continue;
+    const meanPredicted = members.reduce((sum, { p }) => sum + p, 0) / members.length;
+    const observed = members.reduce((sum, { label }) => sum + label, 0) / members.length;
+    calibration.push({ lower, upper, count: members.length, mean_predicted: meanPredicted, observed_rate: observed });
+    calibrationError += (members.length / n) * Math.abs(meanPredicted - observed);
+  }
+
+  return {
+    auc: areaUnderCurve(labels, probabilities),
+    brier,
+    log_loss: logLoss,
+    expected_calibration_error: calibrationError,
+    calibration,
+  };
+}
+
+// Trains on everything outside the holdout and reports metrics on the holdout
+export function trainScoringModel(
+  examples: TrainingExample[],
+  version: string,
+  options: TrainingOptions = {},
+): { model: LearnedScoringModel; metrics: ModelMetrics } {
+  if (examples.length < MIN_TRAINING_EXAMPLES) {
+    throw new Error(`Need at least ${MIN_TRAINING_EXAMPLES} labelled leads to train; found ${examples.length}`);
+  }
+  const positives = examples.filter((example) => labelOutcome(example.outcome) === 1).length;
+  if (positives === 0 || positives === examples.length) {
+    throw new Error("Training needs both positive (won/qualified) and negative (lost/ignored) outcomes");
+  }
+
+  const { training, holdout } = splitHoldout(examples, options.holdout_fraction);
+  if (holdout.length === 0 || training.length === 0) {
+    throw new Error("The holdout split left no examples on one side; adjust holdout_fraction");
+  }
+
+  const model = { ...trainLogistic(training, options), version };
+  const labels = holdout.map((example) => labelOutcome(example.outcome));
+  const probabilities = holdout.map((example) => predictProbability(model, example.features));
+
+  return {
+    model,
+    metrics: {
+      training_examples: training.length,
+      holdout_examples: holdout.length,
+      positives,
+      negatives: examples.length - positives,
+      ...evaluateModel(labels, probabilities),
+    },
+  };
+}
+
+// Each feature's share of the move from the baseline score (every feature at
+// its training mean) to this lead's score, split in proportion to its term in
+// the log-odds. The shares are exact in log-odds and sum to the score.
+export function learnedContributions(model: LearnedScoringModel, features: FeatureValues): ScoreContribution[] {
+  const x = vectorize(features, model.feature_names);
+  const terms = x.map((value, i) => model.weights[i] * ((value - model.means[i]) / model.stds[i]));
+  const logit = terms.reduce((sum, term) => sum + term, model.bias);
+  const baseline = sigmoid(model.bias) * 100;
+  const shift = logit === model.bias ? 0 : (sigmoid(logit) * 100 - baseline) / (logit - model.bias);
+
+  return settleContributions([
+    { feature: "base", label: "Model baseline", value: null, weight: model.bias, points: baseline },
+    ...model.feature_names
+      .map((name, i) => ({
+        feature: name,
+        label: name.replace(/_/g, " "),
+        value: features[name] ?? null,
+        weight: model.weights[i],
+        points: terms[i] * shift,
+      }))
+      .filter((contribution) => Math.abs(contribution.points) >= 0.05),
+  ], Math.round(sigmoid(logit) * 100));
+}
+
+// Replaces the rule-based total with the model's probability (as 0-100). The
+// rule-based subscores stay as the explanation of what the lead has; the
+// contributions come from the model.
+export function applyLearnedModel(
+  result: ScoringResult,
+  model: LearnedScoringModel,
+  features: FeatureValues,
+  thresholds?: ScoringThresholds,
+): ScoringResult {
+  const probability = predictProbability(model, features);
+  const score = Math.round(probability * 100);
+  const modelVersion = `learned-${model.version}`;
+  return {
+    ...result,
+    score,
+    qualification: qualify(score, thresholds),
+    model_version: modelVersion,
+    contributions: learnedContributions(model, features),
+    scoring_breakdown: {
+      ...result.scoring_breakdown,
+      model_version: modelVersion,
+      total: score,
+      learned: { version: model.version, probability, rule_based_total: result.score },
+    },
+  };
+}
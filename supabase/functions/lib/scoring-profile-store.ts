@@ -0,0 +1,162 @@
+// supabase/functions/lib/scoring-profile-store.ts
+// Loads the scoring profiles a user can score with: the built-in profiles
+// plus published rows from the scoring_profiles table and the user's own
+// drafts. Rows are cached per isolate for a few minutes so every score task
+// doesn't query them.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { BUILT_IN_SCORING_PROFILES, ScoringProfile, validateScoringProfile } from "./scoring-service.ts";
+
+export type StoredScoringProfile = {
+  profile: ScoringProfile;
+  built_in: boolean;
+  published: boolean;
+  owner_id?: string;
+  updated_at?: string;
+};
+
+type ScoringProfileRow = {
+  id: string;
+  owner_id: string;
+  name: string;
+  description: string;
+  vertical: string | null;
+  weights: ScoringProfile["weights"];
+  thresholds: ScoringProfile["thresholds"];
+  industry_modifiers: Record<string, number> | null;
+  published: boolean;
+  updated_at: string;
+};
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+let cached: { rows: ScoringProfileRow[]; loadedAt: number } | null = null;
+
+function toProfile(row: ScoringProfileRow): ScoringProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    weights: row.weights,
+    thresholds: row.thresholds,
+    ...(row.vertical ? { vertical: row.vertical } : {}),
+    ...(row.industry_modifiers ? { industry_modifiers: row.industry_modifiers } : {}),
+  };
+}
+
+async function loadRows(supabase: SupabaseClient, refresh = false): Promise<ScoringProfileRow[]> {
+  if (!refresh && cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.rows;
+  }
+
+  const { data, error } = await supabase
+    .from("scoring_profiles")
+    .select("id, owner_id, name, description, vertical, weights, thresholds, industry_modifiers, published, updated_at");
+
+  if (error) {
+    throw new Error(`Failed to load scoring profiles: ${error.message}`);
+  }
+  const rows = (data ?? []) as ScoringProfileRow[];
+  cached = { rows, loadedAt: Date.now() };
+  return rows;
+}
+
+function visibleTo(row: ScoringProfileRow, userId?: string | null): boolean {
+  return row.published || (!!userId && row.owner_id === userId);
+}
+
+// Built-ins plus the stored profiles `userId` can see (published ones only
+// without a user). Falls back to the built-ins when the table cannot be read,
+// so scoring never stops on a lookup failure. Callers reading through a
+// user's token (row-level security) must refresh, since the cached rows may
+// have been read for someone else.
+export async function loadScoringProfiles(
+  supabase: SupabaseClient,
+  userId?: string | null,
+  options: { refresh?: boolean } = {},
+): Promise<ScoringProfile[]> {
+  try {
+    const rows = await loadRows(supabase, options.refresh);
+    const stored = rows
+      .filter((row) => visibleTo(row, userId))
+      .map(toProfile)
+      .filter((profile) => validateScoringProfile(profile).length === 0);
+    return [...BUILT_IN_SCORING_PROFILES, ...stored];
+  } catch (error) {
+    console.error("Using built-in scoring profiles only:", error);
+    return BUILT_IN_SCORING_PROFILES;
+  }
+}
+
+// Every profile `userId` can see with where it comes from, for the profile editor
+export async function listScoringProfiles(supabase: SupabaseClient, userId: string): Promise<StoredScoringProfile[]> {
+  const rows = await loadRows(supabase, true);
+  return [
+    ...BUILT_IN_SCORING_PROFILES.map((profile) => ({ profile, built_in: true, published: true })),
+    ...rows
+      .filter((row) => visibleTo(row, userId))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((row) => ({
+        profile: toProfile(row),
+        built_in: false,
+        published: row.published,
+        owner_id: row.owner_id,
+        updated_at: row.updated_at,
+      })),
+  ];
+}
+
+// The stored row for `id`, whoever owns it
+export async function getStoredScoringProfile(
+  supabase: SupabaseClient,
+  id: string,
+): Promise<{ owner_id: string; published: boolean } | null> {
+  const { data, error } = await supabase
+    .from("scoring_profiles")
+    .select("owner_id, published")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load scoring profile ${id}: ${error.message}`);
+  }
+  return data as { owner_id: string; published: boolean } | null;
+}
+
+export async function saveScoringProfile(
+  supabase: SupabaseClient,
+  profile: ScoringProfile,
+  options: { ownerId: string; published?: boolean },
+): Promise<void> {
+  const problems = validateScoringProfile(profile);
+  if (problems.length > 0) {
+    throw new Error(`Invalid scoring profile: ${problems.join("; ")}`);
+  }
+
+  const { error } = await supabase.from("scoring_profiles").upsert({
+    id: profile.id,
+    owner_id: options.ownerId,
+    name: profile.name.trim(),
+    description: profile.description ?? "",
+    vertical: profile.vertical ?? null,
+    weights: profile.weights,
+    thresholds: profile.thresholds,
+    industry_modifiers: profile.industry_modifiers ?? null,
+    published: options.published ?? false,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to save scoring profile ${profile.id}: ${error.message}`);
+  }
+  cached = null;
+}
+
+// Searches and rescoring that name a deleted profile score as generic
+export async function deleteScoringProfile(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from("scoring_profiles").delete().eq("id", id);
+  if (error) {
+    throw new Error(`Failed to delete scoring profile ${id}: ${error.message}`);
+  }
+  cached = null;
+}
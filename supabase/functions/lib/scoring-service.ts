@@ -0,0 +1,629 @@
+// supabase/functions/lib/scoring-service.ts
+// Single, versioned lead scoring model shared by every edge function, the
+// Express server and the dashboard. Pure TypeScript whose only import is the
+// (equally pure) vertical taxonomy, so it can be loaded from Deno, Node and
+// Vite alike.
+
+import { BUILT_IN_VERTICALS, findVertical, VerticalDefinition } from "./verticals.ts";
+
+// Bump whenever a rule, point value or default weight below changes so stored
+// scores can be traced back to the model that produced them.
+export const SCORING_MODEL_VERSION = "2.0.0";
+
+export type ScoringWeights = {
+  ICP: number;
+  Pain: number;
+  Reachability: number;
+  ComplianceRisk: number;
+};
+
+export type ScoringComponent = keyof ScoringWeights;
+
+export type ComponentScores = ScoringWeights;
+
+export type ScoringThresholds = {
+  qualified: number;
+  promising: number;
+  low_priority: number;
+};
+
+export type Qualification = "qualified" | "promising" | "low_priority" | "unqualified";
+
+export type ScoringProfile = {
+  id: string;
+  name: string;
+  description: string;
+  weights: ScoringWeights; // percentages, summing to 100
+  thresholds: ScoringThresholds;
+  vertical?: string;
+  industry_modifiers?: Record<string, number>;
+};
+
+// Normalized facts about a business. `undefined` means "not checked", which
+// never earns or costs points; only explicit true/false values are scored.
+export type ScoringFeatures = {
+  vertical?: string | null;
+  has_website?: boolean;
+  website_accessible?: boolean;
+  has_online_booking?: boolean;
+  has_chatbot?: boolean;
+  has_analytics?: boolean;
+  has_payment_processor?: boolean;
+  has_crm?: boolean;
+  has_marketing_automation?: boolean;
+  ssl_certificate?: boolean;
+  mobile_responsive?: boolean;
+  load_time_ms?: number;
+  structured_data?: boolean;
+  business_hours?: boolean;
+  social_profiles?: number;
+  review_count?: number;
+  rating?: number;
+  owner_identified?: boolean;
+  has_email?: boolean;
+  has_phone?: boolean;
+  verified_contact?: boolean;
+  franchise?: boolean;
+};
+
+export type ScoringBreakdown = {
+  model_version: string;
+  profile: string;
+  weights: ScoringWeights;
+  raw: ComponentScores; // 0-100 per component, before weighting
+  subscores: ComponentScores; // weighted points; ComplianceRisk is deducted
+  industry_modifier: number;
+  total: number;
+  // Set when a promoted learned model produced the total (lib/scoring-model.ts)
+  learned?: { version: string; probability: number; rule_based_total: number };
+};
+
+// One step from zero to the final score. Rule steps carry the feature that
+// fired and the weight of its component; the remaining steps (component
+// baselines, 0-100 caps, the industry modifier, rounding) make the points add
+// up to the score exactly.
+export type ScoreContribution = {
+  feature: string; // ScoringFeatures key, learned-model feature, or "base" / "cap" / "industry_modifier" / "rounding"
+  label: string;
+  component?: ScoringComponent;
+  value: number | boolean | string | null;
+  weight: number; // component weight (%), or the learned model's coefficient
+  points: number; // signed, one decimal
+  signal_id?: string;
+  evidence_url?: string;
+};
+
+export type ScoringResult = {
+  score: number;
+  qualification: Qualification;
+  subscores: ComponentScores;
+  scoring_breakdown: ScoringBreakdown;
+  confidence_reasons: string[];
+  contributions: ScoreContribution[];
+  model_version: string;
+  scored_at: string;
+};
+
+// Minimal shape of a `signals` row as read from the database or produced by
+// an analyzer before insertion.
+export type SignalLike = {
+  id?: string;
+  type: string;
+  value_json: unknown;
+  evidence_url?: string | null;
+  evidence_snippet?: string | null;
+};
+
+// Minimal shape of a `businesses` row.
+export type BusinessLike = {
+  vertical?: string | null;
+  website?: string | null;
+  phone?: string | null;
+  franchise_bool?: boolean | null;
+};
+
+export const DEFAULT_SCORING_THRESHOLDS: ScoringThresholds = {
+  qualified: 70,
+  promising: 55,
+  low_priority: 35,
+};
+
+export const BUILT_IN_SCORING_PROFILES: ScoringProfile[] = [
+  {
+    id: "generic",
+    name: "Generic",
+    description: "Balanced scoring for all business types",
+    weights: { ICP: 35, Pain: 35, Reachability: 20, ComplianceRisk: 10 },
+    thresholds: DEFAULT_SCORING_THRESHOLDS,
+  },
+  {
+    id: "dentist-intake",
+    name: "Dental Practice - Patient Intake",
+    description: "Optimized for dental practices needing better patient intake systems",
+    weights: { ICP: 40, Pain: 30, Reachability: 25, ComplianceRisk: 5 },
+    thresholds: DEFAULT_SCORING_THRESHOLDS,
+    vertical: "dentist",
+  },
+  {
+    id: "contractor-quote",
+    name: "Contractor - Quote Automation",
+    description: "Focus on contractors who need automated quoting systems",
+    weights: { ICP: 30, Pain: 45, Reachability: 20, ComplianceRisk: 5 },
+    thresholds: DEFAULT_SCORING_THRESHOLDS,
+    vertical: "contractor",
+  },
+  {
+    id: "law-compliance",
+    name: "Law Firm - Compliance Focused",
+    description: "Law firms with emphasis on compliance and professional standards",
+    weights: { ICP: 25, Pain: 25, Reachability: 25, ComplianceRisk: 25 },
+    thresholds: DEFAULT_SCORING_THRESHOLDS,
+    vertical: "law_firm",
+  },
+  {
+    id: "high-reachability",
+    name: "High Reachability",
+    description: "Prioritize leads where owner contact information is available",
+    weights: { ICP: 20, Pain: 30, Reachability: 45, ComplianceRisk: 5 },
+    thresholds: DEFAULT_SCORING_THRESHOLDS,
+  },
+  {
+    id: "sales_ready",
+    name: "Sales Ready",
+    description: "Optimized for businesses ready for immediate sales outreach",
+    weights: { ICP: 25, Pain: 25, Reachability: 40, ComplianceRisk: 10 },
+    thresholds: { qualified: 75, promising: 60, low_priority: 40 },
+    industry_modifiers: { healthcare: 1.05, retail: 0.95, restaurant: 0.9 },
+  },
+  {
+    id: "marketing_qualified",
+    name: "Marketing Qualified",
+    description: "Optimized for businesses that need education and nurturing",
+    weights: { ICP: 40, Pain: 30, Reachability: 20, ComplianceRisk: 10 },
+    thresholds: { qualified: 70, promising: 55, low_priority: 35 },
+  },
+  {
+    id: "tech_savvy",
+    name: "Tech Savvy",
+    description: "Optimized for businesses already using modern technology",
+    weights: { ICP: 30, Pain: 40, Reachability: 20, ComplianceRisk: 10 },
+    thresholds: { qualified: 72, promising: 58, low_priority: 38 },
+  },
+  {
+    id: "traditional",
+    name: "Traditional",
+    description: "Established businesses that are reachable by phone and in person",
+    weights: { ICP: 35, Pain: 25, Reachability: 30, ComplianceRisk: 10 },
+    thresholds: DEFAULT_SCORING_THRESHOLDS,
+  },
+  {
+    id: "enterprise",
+    name: "Enterprise",
+    description: "Optimized for larger businesses with complex needs",
+    weights: { ICP: 45, Pain: 25, Reachability: 20, ComplianceRisk: 10 },
+    thresholds: { qualified: 80, promising: 65, low_priority: 45 },
+    industry_modifiers: { financial: 1.2, healthcare: 1.15 },
+  },
+  {
+    id: "local_smb",
+    name: "Local SMB",
+    description: "Optimized for local small and medium businesses",
+    weights: { ICP: 30, Pain: 35, Reachability: 30, ComplianceRisk: 5 },
+    thresholds: { qualified: 65, promising: 50, low_priority: 30 },
+    industry_modifiers: { restaurant: 1.1, retail: 1.1 },
+  },
+];
+
+export const DEFAULT_SCORING_PROFILE = BUILT_IN_SCORING_PROFILES[0];
+
+
+// `profiles` is the list to look in: the built-ins, or the built-ins plus the
+// stored profiles the caller can see (lib/scoring-profile-store.ts)
+export function getScoringProfile(
+  id?: string | null,
+  profiles: ScoringProfile[] = BUILT_IN_SCORING_PROFILES,
+): ScoringProfile {
+  return profiles.find((p) => p.id === id) ?? DEFAULT_SCORING_PROFILE;
+}
+
+const COMPONENTS: ScoringComponent[] = ["ICP", "Pain", "Reachability", "ComplianceRisk"];
+
+// Problems that would make a stored profile score differently from what its
+// editor showed; empty when the profile is usable.
+export function validateScoringProfile(profile: ScoringProfile): string[] {
+  const problems: string[] = [];
+  if (!/^[a-z][a-z0-9_-]{1,59}$/.test(profile.id ?? "")) {
+    problems.push("id must be 2-60 lowercase letters, digits, dashes or underscores");
+  }
+  if (!profile.name?.trim()) problems.push("name is required");
+
+  const weights = profile.weights ?? ({} as ScoringWeights);
+  for (const component of COMPONENTS) {
+    const weight = weights[component];
+    if (typeof weight !== "number" || weight < 0 || weight > 100) {
+      problems.push(`weights.${component} must be a number from 0 to 100`);
+    }
+  }
+  const total = COMPONENTS.reduce((sum, component) => sum + (weights[component] ?? 0), 0);
+  if (total !== 100) problems.push(`weights must sum to 100 (got ${total})`);
+
+  const thresholds = profile.thresholds;
+  if (!thresholds) {
+    problems.push("thresholds are required");
+  } else if (
+    !(thresholds.qualified >= thresholds.promising && thresholds.promising >= thresholds.low_priority &&
+      thresholds.low_priority >= 0 && thresholds.qualified <= 100)
+  ) {
+    problems.push("thresholds must satisfy 100 >= qualified >= promising >= low_priority >= 0");
+  }
+
+  for (const [industry, modifier] of Object.entries(profile.industry_modifiers ?? {})) {
+    if (typeof modifier !== "number" || modifier <= 0 || modifier > 2) {
+      problems.push(`industry_modifiers.${industry} must be greater than 0 and at most 2`);
+    }
+  }
+  return problems;
+}
+
+// Resolves the profile for a LeadQuery's optional `scoring` block. Explicit
+// weights in the DSL are fractions (0-1) and override the profile's weights.
+// `verticalDefault` (the vertical's scoring_profile) applies when the query
+// leaves the profile at generic. `profiles` is passed to getScoringProfile.
+export function resolveScoringProfile(scoring?: {
+  profile?: string;
+  weights?: {
+    icp_match?: number;
+    pain_signals?: number;
+    reachability?: number;
+    compliance_risk?: number;
+  };
+} | null, verticalDefault?: string, profiles?: ScoringProfile[]): ScoringProfile {
+  const chosen = scoring?.profile && scoring.profile !== DEFAULT_SCORING_PROFILE.id ? scoring.profile : verticalDefault;
+  const profile = getScoringProfile(chosen, profiles);
+  const w = scoring?.weights;
+  if (!w) return profile;
+
+  return {
+    ...profile,
+    weights: {
+      ICP: Math.round((w.icp_match ?? profile.weights.ICP / 100) * 100),
+      Pain: Math.round((w.pain_signals ?? profile.weights.Pain / 100) * 100),
+      Reachability: Math.round((w.reachability ?? profile.weights.Reachability / 100) * 100),
+      ComplianceRisk: Math.round((w.compliance_risk ?? profile.weights.ComplianceRisk / 100) * 100),
+    },
+  };
+}
+
+// Builds features from stored signal rows plus the business record. A
+// `website_performance` signal means the homepage was fetched and analyzed, so
+// technologies and owner contacts that were not detected count as absent
+// rather than unknown.
+export function featuresFromSignals(signals: SignalLike[], business: BusinessLike = {}): ScoringFeatures {
+  const byType = new Map<string, unknown>();
+  let socialProfiles = 0;
+  let hasEmail = false;
+
+  for (const signal of signals) {
+    byType.set(signal.type, signal.value_json);
+    if (signal.type.startsWith("social_")) socialProfiles++;
+    if (signal.evidence_snippet?.includes("@")) hasEmail = true;
+  }
+
+  const field = (type: string, key: string): unknown => {
+    const value = byType.get(type);
+    return value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+  };
+  const numeric = (type: string) => (typeof byType.get(type) === "number" ? (byType.get(type) as number) : undefined);
+  const flag = (...types: string[]): boolean | undefined => {
+    for (const type of types) {
+      if (byType.has(type)) return byType.get(type) === true || field(type, "found") === true;
+    }
+    return undefined;
+  };
+
+  const analyzed = byType.has("website_performance");
+  const detected = (...types: string[]) => flag(...types) ?? (analyzed ? false : undefined);
+  const performance = (key: string) => field("website_performance", key);
+
+  const unreachable = field("website_status", "accessible") === false || byType.has("website_error");
+  const noWebsite = byType.get("no_website") === true;
+  const vertical = typeof byType.get("business_vertical") === "string" ? (byType.get("business_vertical") as string) : null;
+
+  return {
+    vertical: business.vertical ?? vertical,
+    has_website: noWebsite ? false : business.website || analyzed ? true : undefined,
+    website_accessible: unreachable ? false : analyzed ? true : undefined,
+    has_online_booking: detected("has_online_booking", "has_booking"),
+    has_chatbot: detected("has_chatbot"),
+    has_analytics: detected("has_analytics"),
+    has_payment_processor: detected("has_payment_processor", "has_payment_processors"),
+    has_crm: detected("has_crm"),
+    has_marketing_automation: detected("has_marketing_automation"),
+    ssl_certificate: flag("ssl_certificate") ?? (performance("ssl_enabled") as boolean | undefined),
+    mobile_responsive: flag("mobile_responsive") ?? (performance("mobile_responsive") as boolean | undefined),
+    load_time_ms: performance("load_time_ms") as number | undefined,
+    structured_data: byType.has("structured_data") || undefined,
+    business_hours: byType.has("business_hours") || byType.has("has_hours") || undefined,
+    social_profiles: socialProfiles,
+    review_count: numeric("review_count"),
+    rating: numeric("rating"),
+    owner_identified: detected("owner_identified"),
+    has_email: hasEmail || undefined,
+    has_phone: business.phone ? true : undefined,
+    franchise: business.franchise_bool ?? (byType.has("franchise_guess") ? byType.get("franchise_guess") === true : undefined),
+  };
+}
+
+// Input shape produced by the website auditor pipeline (see lead-scorer).
+export type AuditedLeadLike = {
+  has_website: boolean;
+  vertical?: string | null;
+  detected_features?: Record<string, { found?: boolean } | undefined>;
+  rating?: number;
+  user_rating_count?: number;
+  people?: Array<{ role?: string; email?: string; phone?: string; verified?: boolean }>;
+  franchise_bool?: boolean;
+};
+
+export function featuresFromAudit(input: AuditedLeadLike): ScoringFeatures {
+  const df = input.detected_features ?? {};
+  const found = (key: string) => (df[key] ? df[key]!.found === true : undefined);
+  const owners = (input.people ?? []).filter((p) => {
+    const role = p.role?.toLowerCase() ?? "";
+    return role.includes("owner") || role.includes("principal") || role.includes("dr");
+  });
+
+  return {
+    vertical: input.vertical ?? null,
+    has_website: input.has_website,
+    has_online_booking: input.has_website ? found("online_booking") : false,
+    has_chatbot: found("chatbot"),
+    has_payment_processor: found("payment_processor"),
+    ssl_certificate: found("ssl_certificate"),
+    mobile_responsive: found("mobile_responsive"),
+    review_count: input.user_rating_count,
+    rating: input.rating,
+    owner_identified: owners.length > 0,
+    has_email: owners.some((o) => !!o.email) || undefined,
+    has_phone: owners.some((o) => !!o.phone) || undefined,
+    verified_contact: owners.some((o) => o.verified && (o.email || o.phone)) || undefined,
+    franchise: input.franchise_bool,
+  };
+}
+
+type Rule = {
+  component: ScoringComponent;
+  // The fact the rule reads, reported with its contribution
+  feature: keyof ScoringFeatures;
+  // `vertical` is the taxonomy entry for f.vertical, if there is one
+  points: (f: ScoringFeatures, vertical?: VerticalDefinition) => number;
+  reason: string;
+};
+
+// Raw points per component; each component is clamped to 0-100 before the
+// profile weights are applied.
+const BASE_POINTS: ComponentScores = { ICP: 40, Pain: 0, Reachability: 0, ComplianceRisk: 10 };
+
+const RULES: Rule[] = [
+  // ICP - how closely the business matches who we sell to
+  { component: "ICP", feature: "vertical", reason: "High-value vertical", points: (_f, v) => (v?.tier === "high" ? 15 : 0) },
+  { component: "ICP", feature: "vertical", reason: "Target vertical", points: (_f, v) => (v?.tier === "medium" ? 10 : 0) },
+  { component: "ICP", feature: "franchise", reason: "Independent business", points: (f) => (f.franchise === false ? 10 : 0) },
+  { component: "ICP", feature: "franchise", reason: "Franchise or chain", points: (f) => (f.franchise === true ? -25 : 0) },
+  {
+    component: "ICP",
+    feature: "review_count",
+    reason: "Established review volume",
+    points: (f) => (f.review_count >= 50 ? 15 : f.review_count >= 10 ? 10 : f.review_count > 0 ? 5 : 0),
+  },
+  { component: "ICP", feature: "rating", reason: "Strong rating", points: (f) => (f.rating >= 4 ? 10 : f.rating >= 3.5 ? 5 : 0) },
+  { component: "ICP", feature: "structured_data", reason: "Structured business data", points: (f) => (f.structured_data ? 5 : 0) },
+  { component: "ICP", feature: "business_hours", reason: "Published business hours", points: (f) => (f.business_hours ? 5 : 0) },
+
+  // Pain - gaps we can solve; only explicit negatives count
+  { component: "Pain", feature: "has_website", reason: "No website", points: (f) => (f.has_website === false ? 45 : 0) },
+  { component: "Pain", feature: "website_accessible", reason: "Website unreachable", points: (f) => (f.website_accessible === false ? 40 : 0) },
+  {
+    component: "Pain",
+    feature: "has_online_booking",
+    reason: "No online booking",
+    points: (f) => (f.has_online_booking === false && f.has_website !== false ? 20 : 0),
+  },
+  { component: "Pain", feature: "has_chatbot", reason: "No chatbot or live chat", points: (f) => (f.has_chatbot === false ? 10 : 0) },
+  { component: "Pain", feature: "mobile_responsive", reason: "Not mobile responsive", points: (f) => (f.mobile_responsive === false ? 10 : 0) },
+  { component: "Pain", feature: "has_analytics", reason: "No analytics", points: (f) => (f.has_analytics === false ? 8 : 0) },
+  { component: "Pain", feature: "has_crm", reason: "No CRM", points: (f) => (f.has_crm === false ? 7 : 0) },
+  { component: "Pain", feature: "has_marketing_automation", reason: "No marketing automation", points: (f) => (f.has_marketing_automation === false ? 5 : 0) },
+  { component: "Pain", feature: "load_time_ms", reason: "Slow website (>3s)", points: (f) => (f.load_time_ms > 3000 ? 5 : 0) },
+
+  // Reachability - can we get a decision maker on the line
+  { component: "Reachability", feature: "owner_identified", reason: "Owner identified", points: (f) => (f.owner_identified ? 40 : 0) },
+  { component: "Reachability", feature: "has_email", reason: "Email available", points: (f) => (f.has_email ? 20 : 0) },
+  { component: "Reachability", feature: "has_phone", reason: "Phone available", points: (f) => (f.has_phone ? 20 : 0) },
+  { component: "Reachability", feature: "verified_contact", reason: "Verified contact", points: (f) => (f.verified_contact ? 10 : 0) },
+  { component: "Reachability", feature: "has_website", reason: "Website contact channel", points: (f) => (f.has_website ? 10 : 0) },
+  { component: "Reachability", feature: "social_profiles", reason: "Social profiles", points: (f) => Math.min(10, (f.social_profiles ?? 0) * 3) },
+
+  // ComplianceRisk - deducted from the total
+  { component: "ComplianceRisk", feature: "ssl_certificate", reason: "No SSL certificate", points: (f) => (f.has_website !== false && f.ssl_certificate === false ? 40 : 0) },
+  { component: "ComplianceRisk", feature: "franchise", reason: "Corporate approval likely (franchise)", points: (f) => (f.franchise === true ? 20 : 0) },
+  { component: "ComplianceRisk", feature: "website_accessible", reason: "Website errors", points: (f) => (f.website_accessible === false ? 10 : 0) },
+];
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value));
+
+const tenths = (value: number) => Math.round(value * 10) / 10;
+
+export function qualify(score: number, thresholds: ScoringThresholds = DEFAULT_SCORING_THRESHOLDS): Qualification {
+  if (score >= thresholds.qualified) return "qualified";
+  if (score >= thresholds.promising) return "promising";
+  if (score >= thresholds.low_priority) return "low_priority";
+  return "unqualified";
+}
+
+// `verticals` is the taxonomy the business's vertical is looked up in, for its
+// ICP tier and the industry modifier used when the profile has none
+export function scoreLead(
+  features: ScoringFeatures,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  weightsOverride?: Partial<ScoringWeights>,
+  verticals: VerticalDefinition[] = BUILT_IN_VERTICALS,
+): ScoringResult {
+  const weights: ScoringWeights = { ...profile.weights, ...weightsOverride };
+  const vertical = findVertical(verticals, features.vertical);
+  const raw: ComponentScores = { ...BASE_POINTS };
+  const reasons: string[] = [];
+  // Raw points become total points through the component weight; compliance
+  // risk is deducted
+  const toTotal = (component: ScoringComponent, points: number) =>
+    ((component === "ComplianceRisk" ? -points : points) * weights[component]) / 100;
+  const contributions: ScoreContribution[] = COMPONENTS
+    .filter((component) => BASE_POINTS[component] !== 0)
+    .map((component) => ({
+      feature: "base",
+      label: `${component} baseline`,
+      component,
+      value: BASE_POINTS[component],
+      weight: weights[component],
+      points: toTotal(component, BASE_POINTS[component]),
+    }));
+
+  for (const rule of RULES) {
+    const points = rule.points(features, vertical) || 0;
+    if (points === 0) continue;
+    raw[rule.component] += points;
+    reasons.push(`${rule.reason} (${points > 0 ? "+" : ""}${points} ${rule.component})`);
+    contributions.push({
+      feature: rule.feature,
+      label: rule.reason,
+      component: rule.component,
+      value: features[rule.feature] ?? null,
+      weight: weights[rule.component],
+      points: toTotal(rule.component, points),
+    });
+  }
+
+  const subscores = {} as ComponentScores;
+  for (const component of COMPONENTS) {
+    const capped = clamp(raw[component]);
+    if (capped !== raw[component]) {
+      contributions.push({
+        feature: "cap",
+        label: `${component} capped at ${capped}`,
+        component,
+        value: raw[component],
+        weight: weights[component],
+        points: toTotal(component, capped - raw[component]),
+      });
+    }
+    raw[component] = capped;
+    subscores[component] = Math.round((raw[component] * weights[component]) / 100);
+  }
+
+  const industryModifier = profile.industry_modifiers?.[features.vertical ?? ""] ?? vertical?.industry_modifier ?? 1;
+  const weighted = raw.ICP * weights.ICP + raw.Pain * weights.Pain + raw.Reachability * weights.Reachability -
+    raw.ComplianceRisk * weights.ComplianceRisk;
+  const score = Math.round(clamp((weighted / 100) * industryModifier));
+
+  if (industryModifier !== 1) {
+    contributions.push({
+      feature: "industry_modifier",
+      label: `Industry modifier ×${industryModifier}`,
+      value: industryModifier,
+      weight: 0,
+      points: (weighted / 100) * (industryModifier - 1),
+    });
+  }
+
+  return {
+    score,
+    qualification: qualify(score, profile.thresholds),
+    subscores,
+    scoring_breakdown: {
+      model_version: SCORING_MODEL_VERSION,
+      profile: profile.id,
+      weights,
+      raw,
+      subscores,
+      industry_modifier: industryModifier,
+      total: score,
+    },
+    confidence_reasons: reasons,
+    contributions: settleContributions(contributions, score),
+    model_version: SCORING_MODEL_VERSION,
+    scored_at: new Date().toISOString(),
+  };
+}
+
+// Rounds each step to a tenth of a point and adds a final step for whatever
+// the 0-100 cap and rounding took, so the points sum to `score`
+export function settleContributions(contributions: ScoreContribution[], score: number): ScoreContribution[] {
+  const settled = contributions.map((contribution) => ({ ...contribution, points: tenths(contribution.points) }));
+  const rest = tenths(score - settled.reduce((sum, contribution) => sum + contribution.points, 0));
+  if (rest !== 0) {
+    settled.push({ feature: "rounding", label: "Score cap and rounding", value: null, weight: 0, points: rest });
+  }
+  return settled;
+}
+
+// Signal types each contribution feature is read from, for linking a step to
+// its evidence. Covers ScoringFeatures keys and the learned model's features.
+const FEATURE_SIGNAL_TYPES: Record<string, string[]> = {
+  vertical: ["business_vertical"],
+  has_website: ["no_website", "website_status", "website_performance"],
+  website_accessible: ["website_status", "website_error"],
+  has_online_booking: ["has_online_booking", "has_booking"],
+  has_booking: ["has_online_booking", "has_booking"],
+  has_chatbot: ["has_chatbot"],
+  has_chat: ["has_chatbot"],
+  has_analytics: ["has_analytics"],
+  has_payment_processor: ["has_payment_processor", "has_payment_processors"],
+  has_payment: ["has_payment_processor", "has_payment_processors"],
+  has_crm: ["has_crm"],
+  has_marketing_automation: ["has_marketing_automation"],
+  has_marketing_auto: ["has_marketing_automation"],
+  ssl_certificate: ["ssl_certificate", "website_performance"],
+  ssl_enabled: ["ssl_certificate", "website_performance"],
+  mobile_responsive: ["mobile_responsive", "website_performance"],
+  load_time_ms: ["website_performance"],
+  page_speed_score: ["website_performance"],
+  structured_data: ["structured_data"],
+  business_hours: ["business_hours", "has_hours"],
+  review_count: ["review_count"],
+  rating: ["rating"],
+  average_rating: ["rating"],
+  owner_identified: ["owner_identified"],
+  franchise: ["franchise_guess"],
+};
+
+// Points each contribution at the signal it was read from: the signal's id
+// and, when it has one, its evidence URL
+export function linkContributions(contributions: ScoreContribution[], signals: SignalLike[]): ScoreContribution[] {
+  return contributions.map((contribution) => {
+    const types = contribution.feature === "social_profiles"
+      ? signals.filter((signal) => signal.type.startsWith("social_")).map((signal) => signal.type)
+      : FEATURE_SIGNAL_TYPES[contribution.feature];
+    const signal = types && signals.find((candidate) => types.includes(candidate.type) && candidate.id);
+    if (!signal) return contribution;
+    return {
+      ...contribution,
+      signal_id: signal.id,
+      ...(signal.evidence_url ? { evidence_url: signal.evidence_url } : {}),
+    };
+  });
+}
+
+// One line for exports: "Owner identified +10; No SSL certificate -4"
+export function formatContributions(contributions: ScoreContribution[] = []): string {
+  return contributions
+    .filter((contribution) => contribution.points !== 0)
+    .map((contribution) => `${contribution.label} ${contribution.points > 0 ? "+" : ""}${contribution.points}`)
+    .join("; ");
+}
+
+// Assigns 1-based ranks by descending score; ties keep their input order.
+export function rankByScore<T extends { score: number }>(items: T[]): Array<T & { rank: number }> {
+  return [...items]
+    .sort((a, b) => b.score - a.score)
+    .map((item, index) => ({ ...item, rank: index + 1 }));
+}
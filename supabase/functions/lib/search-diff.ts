@@ -0,0 +1,109 @@
+// supabase/functions/lib/search-diff.ts
+// Compares two runs of the same saved search: businesses only the newer run
+// found, businesses it no longer returns, score changes, and signal changes
+// between the snapshots each lead view was scored on. Lead views written
+// before snapshots were stored have none, so their signals are not compared.
+// Pure TypeScript, loaded from Deno, Node and Vite alike.
+
+// Signal type -> value_json, as the score task saw it
+export type SignalSnapshot = Record<string, unknown>;
+
+export type RunLead = {
+  business_id: string;
+  name: string;
+  score: number;
+  rank: number | null;
+  signals: SignalSnapshot | null;
+};
+
+export type ScoreChange = {
+  business_id: string;
+  name: string;
+  before: number;
+  after: number;
+  delta: number;
+  rank_before: number | null;
+  rank_after: number | null;
+};
+
+export type SignalChange = {
+  business_id: string;
+  name: string;
+  type: string;
+  // null when the signal was absent on that side
+  before: unknown;
+  after: unknown;
+};
+
+export type RunDiff = {
+  base_job_id: string;
+  compare_job_id: string;
+  added: RunLead[];
+  removed: RunLead[];
+  score_changes: ScoreChange[];
+  signal_changes: SignalChange[];
+  // In both runs with no score or signal change
+  unchanged: number;
+};
+
+// Smaller moves are rounding noise between model runs
+export const MIN_SCORE_CHANGE = 1;
+
+export function signalSnapshot(signals: Array<{ type: string; value_json: unknown }>): SignalSnapshot {
+  return Object.fromEntries(signals.map((signal) => [signal.type, signal.value_json ?? null]));
+}
+
+function diffSignals(lead: RunLead, before: SignalSnapshot, after: SignalSnapshot): SignalChange[] {
+  const types = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  return types
+    .filter((type) => JSON.stringify(before[type] ?? null) !== JSON.stringify(after[type] ?? null))
+    .map((type) => ({
+      business_id: lead.business_id,
+      name: lead.name,
+      type,
+      before: before[type] ?? null,
+      after: after[type] ?? null,
+    }));
+}
+
+// `base` is the earlier run, `compare` the later one
+export function diffRuns(
+  base: { job_id: string; leads: RunLead[] },
+  compare: { job_id: string; leads: RunLead[] },
+): RunDiff {
+  const before = new Map(base.leads.map((lead) => [lead.business_id, lead]));
+  const after = new Map(compare.leads.map((lead) => [lead.business_id, lead]));
+
+  const scoreChanges: ScoreChange[] = [];
+  const signalChanges: SignalChange[] = [];
+  let unchanged = 0;
+  for (const lead of compare.leads) {
+    const previous = before.get(lead.business_id);
+    if (!previous) continue;
+    const delta = lead.score - previous.score;
+    const signals = previous.signals && lead.signals ? diffSignals(lead, previous.signals, lead.signals) : [];
+    if (Math.abs(delta) >= MIN_SCORE_CHANGE) {
+      scoreChanges.push({
+        business_id: lead.business_id,
+        name: lead.name,
+        before: previous.score,
+        after: lead.score,
+        delta,
+        rank_before: previous.rank,
+        rank_after: lead.rank,
+      });
+    }
+    signalChanges.push(...signals);
+    if (Math.abs(delta) < MIN_SCORE_CHANGE && signals.length === 0) unchanged += 1;
+  }
+
+  return {
+    base_job_id: base.job_id,
+    compare_job_id: compare.job_id,
+    added: compare.leads.filter((lead) => !before.has(lead.business_id)),
+    removed: base.leads.filter((lead) => !after.has(lead.business_id)),
+    score_changes: scoreChanges.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta)),
+    signal_changes: signalChanges,
+    unchanged,
+  };
+}
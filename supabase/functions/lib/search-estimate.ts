@@ -0,0 +1,135 @@
+// supabase/functions/lib/search-estimate.ts
+// Dry-run planning for a search: the Places queries and tiles the fetch stage
+// would run for a LeadQuery, how many calls each provider would see, and
+// roughly how long the job would take. parse-prompt and search-enriched-leads
+// return it when asked for a dry run, so the search panel can show the cost
+// before anything is queued. The counts follow the pipeline's own rules
+// (lib/search-pipeline.ts, lib/search-tiles.ts); "expected" assumes every
+// page comes back full so the target is met in as few calls as possible,
+// "max" is the worst case the tiling allows. Pure TypeScript, loaded from
+// Deno, Node and Vite alike.
+
+import { planSearchAreas } from "./geocoding.ts";
+import type { LeadQuery } from "./lead-query.ts";
+import { MAX_TILE_DEPTH, PLACES_MAX_PAGES, PLACES_PAGE_SIZE } from "./search-tiles.ts";
+import { BUILT_IN_VERTICALS, placeTypesFor, queryVerticals, VerticalDefinition } from "./verticals.ts";
+
+export type SearchEstimateOptions = {
+  // The prompt is (or was) parsed by the LLM rather than offline
+  llm_parse?: boolean;
+  // The GPT-5 planning and synthesis pipeline runs alongside the parse
+  gpt5?: boolean;
+};
+
+export type CallRange = { expected: number; max: number };
+
+export type PlannedQuery = {
+  area: string;
+  place_type: string;
+  // Areas without bounds are searched with a single untiled query
+  tiled: boolean;
+};
+
+export type SearchEstimate = {
+  target: number;
+  queries: PlannedQuery[];
+  tiles: CallRange;
+  api_calls: {
+    places: CallRange;
+    website_fetches: CallRange;
+    openai: CallRange;
+  };
+  duration_seconds: CallRange;
+  notes: string[];
+};
+
+// Share of Places results that list a website, and so get fetched
+const WEBSITE_SHARE = 0.8;
+
+// Rough wall-clock cost per call; website fetches time out at 10 seconds
+const SECONDS_PER_PLACES_CALL = 2;
+const SECONDS_PER_WEBSITE_FETCH = 3;
+const MAX_SECONDS_PER_WEBSITE_FETCH = 10;
+const SECONDS_PER_OPENAI_CALL = 5;
+const SECONDS_PER_SCORE = 0.5;
+
+// The search worker runs this many tasks side by side
+const WORKER_CONCURRENCY = 5;
+
+// enhanced-search-pipeline: planner and synthesis completions, one Places
+// search and up to ten audited sites with three paths each
+const GPT5_PIPELINE = { openai: 2, places: 1, website_fetches: 30 };
+
+// Tiles one query can end up covering: the root and every quadrant below it
+const MAX_TILES_PER_QUERY = Array.from({ length: MAX_TILE_DEPTH + 1 }, (_, depth) => 4 ** depth)
+  .reduce((sum, count) => sum + count, 0);
+
+export function estimateSearch(
+  dsl: LeadQuery,
+  options: SearchEstimateOptions = {},
+  verticals: VerticalDefinition[] = BUILT_IN_VERTICALS,
+): SearchEstimate {
+  const target = dsl.result_size?.target || PLACES_PAGE_SIZE;
+  const areas = planSearchAreas(dsl.geo);
+  const placeTypes = placeTypesFor(verticals, queryVerticals(dsl));
+  const queries = areas.flatMap((area) => placeTypes.map((placeType) => ({
+    area: area.label,
+    place_type: placeType,
+    tiled: Boolean(area.locationRestriction),
+  })));
+
+  // Every query lists at least its first page; more pages only until the target is met
+  const maxTiles = queries.reduce((sum, query) => sum + (query.tiled ? MAX_TILES_PER_QUERY : 1), 0);
+  const maxPlaces = maxTiles * PLACES_MAX_PAGES;
+  const pagesNeeded = Math.ceil(target / PLACES_PAGE_SIZE);
+  const places = {
+    expected: Math.min(Math.max(queries.length, pagesNeeded), maxPlaces),
+    max: maxPlaces,
+  };
+  // A tile lists at most PLACES_MAX_PAGES pages before it has to split
+  const tiles = {
+    expected: Math.min(Math.max(queries.length, Math.ceil(pagesNeeded / PLACES_MAX_PAGES)), maxTiles),
+    max: maxTiles,
+  };
+  const untiledCap = queries.filter((query) => !query.tiled).length * PLACES_MAX_PAGES * PLACES_PAGE_SIZE;
+  const reachable = queries.every((query) => !query.tiled) ? Math.min(target, untiledCap) : target;
+
+  const websiteFetches = { expected: Math.round(reachable * WEBSITE_SHARE), max: reachable };
+  const openai = { expected: options.llm_parse ? 1 : 0, max: options.llm_parse ? 1 : 0 };
+  if (options.gpt5) {
+    places.expected += GPT5_PIPELINE.places;
+    places.max += GPT5_PIPELINE.places;
+    openai.expected += GPT5_PIPELINE.openai;
+    openai.max += GPT5_PIPELINE.openai;
+    websiteFetches.max += GPT5_PIPELINE.website_fetches;
+  }
+
+  const seconds = (placesCalls: number, fetches: number, fetchSeconds: number, completions: number, scored: number) =>
+    Math.round(
+      (placesCalls * SECONDS_PER_PLACES_CALL + fetches * fetchSeconds + scored * SECONDS_PER_SCORE) / WORKER_CONCURRENCY +
+        completions * SECONDS_PER_OPENAI_CALL,
+    );
+
+  const notes: string[] = [];
+  if (reachable < target) {
+    notes.push(`Untiled areas list at most ${untiledCap} places, short of the ${target} target`);
+  }
+  if (places.max > places.expected * 4) {
+    notes.push("Dense areas split into smaller tiles, which can multiply Places calls up to the maximum");
+  }
+  if (dsl.exclusions?.length) {
+    notes.push("Excluded and suppressed businesses are fetched before they are dropped, adding Places calls");
+  }
+
+  return {
+    target,
+    queries,
+    tiles,
+    api_calls: { places, website_fetches: websiteFetches, openai },
+    duration_seconds: {
+      expected: seconds(places.expected, websiteFetches.expected, SECONDS_PER_WEBSITE_FETCH, openai.expected, reachable),
+      max: seconds(places.max, websiteFetches.max, MAX_SECONDS_PER_WEBSITE_FETCH, openai.max, reachable),
+    },
+    notes,
+  };
+}
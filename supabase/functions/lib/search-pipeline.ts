@@ -0,0 +1,911 @@
+// supabase/functions/lib/search-pipeline.ts
+// Stage handlers for the search pipeline. Each search job fans out into
+// search_job_tasks rows (see lib/task-queue.ts) that the search-worker function
+// drains: fetch (one Places page) -> enrich (one place) -> score (one business)
+// -> validate (rank and finalize the job once everything else has settled).
+// Every handler is idempotent so a task can safely run again after a crash.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveBusiness } from "./business-resolver.ts";
+import { constraintFactsFromSignals, ConstraintResults, evaluateConstraints } from "./constraint-evaluator.ts";
+import { createDataSourceRegistry, DataSourceRegistry, SourceHealth } from "./data-sources.ts";
+import { loadFingerprints } from "./fingerprint-store.ts";
+import { describeGeo, planSearchAreas } from "./geocoding.ts";
+import { LeadQuery, requireLeadQuery } from "./lead-query.ts";
+import { featureVectorFromRows } from "./ml-scoring-engine.ts";
+import { applyLearnedModel } from "./scoring-model.ts";
+import { historyEntry } from "./score-history.ts";
+import { loadActiveModel } from "./scoring-model-store.ts";
+import { loadScoringProfiles } from "./scoring-profile-store.ts";
+import { linkContributions, rankByScore, resolveScoringProfile, scoreLead } from "./scoring-service.ts";
+import { signalSnapshot } from "./search-diff.ts";
+import { buildProgress } from "./search-progress.ts";
+import {
+  childTiles,
+  FetchTaskResult,
+  MAX_TILE_DEPTH,
+  PLACES_MAX_PAGES,
+  PLACES_PAGE_SIZE,
+  resolveTile,
+  ROOT_TILE,
+  summarizeTileCoverage,
+  tileLabel,
+  tileLocation,
+  TileStatus,
+} from "./search-tiles.ts";
+import { addToTally, matchSuppression, SuppressionReason, SuppressionTally } from "./suppression.ts";
+import { isWorkedBusiness, loadSuppressionList } from "./suppression-store.ts";
+import { countTasks, enqueueTasks, listTaskResults, SearchJobTask, tallyTasksByType } from "./task-queue.ts";
+import { detectVendors, VendorFingerprint } from "./vendor-fingerprints.ts";
+import { loadVerticals } from "./vertical-store.ts";
+import { placeTypesFor, queryVerticals, resolveVertical, verticalForPlaceTypes } from "./verticals.ts";
+
+// Google only honours a next_page_token a couple of seconds after it is issued
+const NEXT_PAGE_DELAY_SECONDS = 2;
+// Page tokens are source-specific and enrichment reads raw Places fields, so
+// the fetch stage always goes through this registry entry (live or fixture).
+const PLACES_SOURCE = 'google_places_text';
+
+let dataSources: DataSourceRegistry | null = null;
+
+// Persist a source's health snapshot so health-check can see counters from
+// every worker isolate, not just its own.
+export async function reportSourceHealth(supabase: SupabaseClient, health: SourceHealth) {
+  const { error } = await supabase.from('data_source_health').upsert({
+    source: health.name,
+    status: health.status,
+    capabilities: health.capabilities,
+    rate_limit: health.rateLimit,
+    is_fixture: health.isFixture,
+    requests: health.requests,
+    failures: health.failures,
+    consecutive_failures: health.consecutiveFailures,
+    throttled_ms: health.throttledMs,
+    last_latency_ms: health.lastLatencyMs ?? null,
+    last_success_at: health.lastSuccessAt ?? null,
+    last_error_at: health.lastErrorAt ?? null,
+    last_error: health.lastError ?? null,
+    updated_at: new Date().toISOString()
+  }, { onConflict: 'source' });
+
+  if (error) {
+    throw new Error(`Failed to report data source health: ${error.message}`);
+  }
+}
+
+// One registry per isolate so rate-limit buckets are shared by every task
+// the worker runs concurrently.
+export function getDataSources(supabase: SupabaseClient): DataSourceRegistry {
+  if (!dataSources) {
+    dataSources = createDataSourceRegistry({
+      healthReporter: (health) => reportSourceHealth(supabase, health)
+    });
+  }
+  return dataSources;
+}
+
+// Enhanced signal types
+interface EnhancedSignal {
+  business_id: string;
+  type: string;
+  value_json: unknown;
+  confidence: number;
+  evidence_url?: string;
+  evidence_snippet?: string;
+  source_key: string;
+  metadata?: Record<string, unknown>;
+}
+
+type ExtractedPerson = {
+  name: string;
+  role: string;
+  email?: string;
+  phone?: string;
+  source_url: string;
+  confidence: number;
+};
+
+type WebsitePerformance = {
+  load_time_ms: number;
+  mobile_responsive: boolean;
+  ssl_enabled: boolean;
+  page_size_kb: number;
+};
+
+// Subset of a Places Text Search result that the pipeline reads
+export type GooglePlace = {
+  place_id: string;
+  name: string;
+  formatted_address?: string;
+  formatted_phone_number?: string;
+  website?: string;
+  rating?: number;
+  user_ratings_total?: number;
+  price_level?: number;
+  types?: string[];
+  business_status?: string;
+  opening_hours?: Record<string, unknown>;
+  geometry?: { location?: { lat: number; lng: number } };
+};
+
+// Enhanced website analysis
+async function analyzeWebsiteEnhanced(url: string, fingerprints: VendorFingerprint[]): Promise<{
+  signals: EnhancedSignal[];
+  people: ExtractedPerson[];
+  technologies: string[];
+  performance: WebsitePerformance;
+}> {
+  const signals: EnhancedSignal[] = [];
+  const people: ExtractedPerson[] = [];
+  const technologies: string[] = [];
+  const performance = {
+    load_time_ms: 0,
+    mobile_responsive: false,
+    ssl_enabled: false,
+    page_size_kb: 0
+  };
+  
+  try {
+    console.log('Enhanced website analysis for:', url);
+    
+    // Check if URL is HTTPS
+    performance.ssl_enabled = url.startsWith('https://');
+    
+    const startTime = Date.now();
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+      },
+      signal: AbortSignal.timeout(10000) // 10 second timeout
+    });
+    
+    performance.load_time_ms = Date.now() - startTime;
+    
+    if (!response.ok) {
+      signals.push({
+        business_id: '',
+        type: 'website_status',
+        value_json: { status_code: response.status, accessible: false },
+        confidence: 0.95,
+        evidence_url: url,
+        evidence_snippet: `Website returned ${response.status}`,
+        source_key: 'http_fetch'
+      });
+      return { signals, people, technologies, performance };
+    }
+    
+    const html = await response.text();
+    const lowerHtml = html.toLowerCase();
+    performance.page_size_kb = Math.round(html.length / 1024);
+    
+    // Check mobile responsiveness
+    performance.mobile_responsive = 
+      lowerHtml.includes('viewport') && 
+      (lowerHtml.includes('responsive') || lowerHtml.includes('mobile'));
+    
+    // Detect technologies from the fingerprint database
+    const vendors = detectVendors({ url, html, headers: Object.fromEntries(response.headers.entries()) }, fingerprints);
+    for (const vendor of vendors) {
+      const [strongest] = vendor.evidence;
+      technologies.push(`${vendor.category}:${vendor.name}`);
+
+      signals.push({
+        business_id: '',
+        type: `has_${vendor.category}`,
+        value_json: true,
+        confidence: vendor.confidence,
+        evidence_url: url,
+        evidence_snippet: `Detected ${vendor.name} (${strongest.kind}: ${strongest.snippet})`,
+        source_key: 'fingerprint',
+        metadata: { technology: vendor.name, vendor_id: vendor.id, category: vendor.category, evidence: vendor.evidence }
+      });
+    }
+    
+    // Enhanced contact extraction
+    const emailRegex = /([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/g;
+    const phoneRegex = /(\+?1?[-.\s]?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4})/g;
+    const linkedinRegex = /(https?:\/\/(?:www\.)?linkedin\.com\/(?:in|company)\/[a-zA-Z0-9-]+)/g;
+    
+    const emails = [...new Set(html.match(emailRegex) || [])];
+    const phones = [...new Set(html.match(phoneRegex) || [])];
+    const linkedinUrls = [...new Set(html.match(linkedinRegex) || [])];
+    
+    // Extract structured data (JSON-LD)
+    const jsonLdRegex = /<script type="application\/ld\+json">([\s\S]*?)<\/script>/gi;
+    let match;
+    while ((match = jsonLdRegex.exec(html)) !== null) {
+      try {
+        const jsonData = JSON.parse(match[1]);
+        
+        // Extract business information
+        if (jsonData['@type'] === 'LocalBusiness' || jsonData['@type'] === 'Organization') {
+          signals.push({
+            business_id: '',
+            type: 'structured_data',
+            value_json: jsonData,
+            confidence: 0.95,
+            evidence_url: url,
+            evidence_snippet: 'JSON-LD structured data found',
+            source_key: 'json_ld'
+          });
+          
+          // Extract contact person if available
+          if (jsonData.employee || jsonData.founder) {
+            const person = jsonData.employee || jsonData.founder;
+            people.push({
+              name: person.name,
+              role: person.jobTitle || 'Owner',
+              email: person.email,
+              phone: person.telephone,
+              source_url: url,
+              confidence: 0.9
+            });
+          }
+        }
+      } catch (e) {
+        console.log('Failed to parse JSON-LD:', e);
+      }
+    }
+    
+    // Business hours detection
+    const hoursRegex = /(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)[\s\S]{0,50}(?:\d{1,2}:\d{2})/gi;
+    const hoursMatch = html.match(hoursRegex);
+    if (hoursMatch) {
+      signals.push({
+        business_id: '',
+        type: 'business_hours',
+        value_json: { detected: true, snippet: hoursMatch[0].substring(0, 100) },
+        confidence: 0.7,
+        evidence_url: url,
+        evidence_snippet: 'Business hours found',
+        source_key: 'pattern_match'
+      });
+    }
+    
+    // Social media links
+    const socialLinks = {
+      facebook: html.match(/facebook\.com\/[a-zA-Z0-9.]+/gi),
+      instagram: html.match(/instagram\.com\/[a-zA-Z0-9._]+/gi),
+      twitter: html.match(/(?:twitter|x)\.com\/[a-zA-Z0-9_]+/gi),
+      linkedin: html.match(/linkedin\.com\/company\/[a-zA-Z0-9-]+/gi),
+      youtube: html.match(/youtube\.com\/(?:c|channel|user)\/[a-zA-Z0-9_-]+/gi)
+    };
+    
+    for (const [platform, matches] of Object.entries(socialLinks)) {
+      if (matches && matches.length > 0) {
+        signals.push({
+          business_id: '',
+          type: `social_${platform}`,
+          value_json: { url: matches[0], active: true },
+          confidence: 0.9,
+          evidence_url: url,
+          evidence_snippet: matches[0],
+          source_key: 'social_link'
+        });
+      }
+    }
+    
+    // Page performance signals
+    signals.push({
+      business_id: '',
+      type: 'website_performance',
+      value_json: performance,
+      confidence: 1.0,
+      evidence_url: url,
+      evidence_snippet: `Load time: ${performance.load_time_ms}ms, Size: ${performance.page_size_kb}KB`,
+      source_key: 'performance_check'
+    });
+    
+    // Create owner contact if we have enough information
+    if (emails.length > 0 || phones.length > 0) {
+      const ownerEmail = emails.find(e => 
+        !e.includes('info@') && 
+        !e.includes('contact@') && 
+        !e.includes('support@') &&
+        !e.includes('noreply@')
+      ) || emails[0];
+      
+      people.push({
+        name: 'Business Owner',
+        role: 'Owner',
+        email: ownerEmail,
+        phone: phones[0],
+        source_url: linkedinUrls[0] || url,
+        confidence: 0.6
+      });
+      
+      if (ownerEmail || phones[0]) {
+        signals.push({
+          business_id: '',
+          type: 'owner_identified',
+          value_json: true,
+          confidence: 0.7,
+          evidence_url: url,
+          evidence_snippet: `Contact found: ${ownerEmail || phones[0]}`,
+          source_key: 'contact_extraction'
+        });
+      }
+    }
+    
+  } catch (error) {
+    console.error('Website analysis error:', error);
+    signals.push({
+      business_id: '',
+      type: 'website_error',
+      value_json: { error: error.message, accessible: false },
+      confidence: 0.8,
+      evidence_url: url,
+      evidence_snippet: `Analysis failed: ${error.message}`,
+      source_key: 'error_handler'
+    });
+  }
+  
+  return { signals, people, technologies, performance };
+}
+
+type SearchJobRow = {
+  id: string;
+  dsl_json: LeadQuery;
+  status: string;
+  created_at: string;
+  // Owner whose suppression list applies; null for server-side runs
+  user_id: string | null;
+};
+
+// `area` indexes planSearchAreas(dsl.geo), `tile` is a lib/search-tiles.ts id
+// and `type` indexes the vertical's Places types; tasks queued before tiling
+// carry none of them and run as area 0, the root tile and the first type
+export type FetchPayload = { page: number; page_token?: string | null; area?: number; tile?: string; type?: number };
+export type EnrichPayload = { place: GooglePlace };
+export type ScorePayload = { business_id: string };
+
+async function loadJob(supabase: SupabaseClient, searchJobId: string): Promise<SearchJobRow> {
+  const { data, error } = await supabase
+    .from('search_jobs')
+    .select('id, dsl_json, status, created_at, user_id')
+    .eq('id', searchJobId)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Search job ${searchJobId} not found: ${error?.message}`);
+  }
+  // Jobs queued before the current DSL version still run
+  return { ...data, dsl_json: requireLeadQuery(data.dsl_json) } as SearchJobRow;
+}
+
+export async function logStatus(
+  supabase: SupabaseClient,
+  searchJobId: string,
+  task: string,
+  message: string,
+  severity: 'info' | 'warn' | 'error' = 'info'
+) {
+  await supabase
+    .from('status_logs')
+    .insert({
+      search_job_id: searchJobId,
+      task,
+      message,
+      severity,
+      ts: new Date().toISOString()
+    });
+}
+
+// Recompute the job's progress snapshot from its task tallies. Realtime
+// subscribers and the Express SSE stream pick the change up from search_jobs.
+export async function publishProgress(supabase: SupabaseClient, searchJobId: string, jobStatus?: string) {
+  const [tallies, suppressed] = await Promise.all([
+    tallyTasksByType(supabase, searchJobId),
+    countSuppressedEnrichments(supabase, searchJobId)
+  ]);
+  const progress = buildProgress(tallies, jobStatus, suppressed);
+
+  await supabase
+    .from('search_jobs')
+    .update({ progress_json: progress })
+    .eq('id', searchJobId);
+
+  return progress;
+}
+
+// Enrich tasks that stopped at the suppression list or a worked business;
+// they never queue a score task, so scoring progress must not wait on them
+async function countSuppressedEnrichments(supabase: SupabaseClient, searchJobId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('search_job_tasks')
+    .select('id', { count: 'exact', head: true })
+    .eq('search_job_id', searchJobId)
+    .eq('type', 'enrich')
+    .eq('status', 'completed')
+    .not('result->suppressed', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to count suppressed places: ${error.message}`);
+  }
+  return count ?? 0;
+}
+
+function fetchDedupeKey(area: number, tile: string, type: number, page: number): string {
+  // The seeded `fetch:0` task is page 0 of area 0's root tile for the first place type
+  return area === 0 && tile === ROOT_TILE && type === 0 ? `fetch:${page}` : `fetch:${area}:${tile}:${type}:${page}`;
+}
+
+// Places queued for enrichment so far; enrich tasks are deduped by place id,
+// so this counts each business once however many tiles listed it
+async function countQueuedPlaces(supabase: SupabaseClient, searchJobId: string): Promise<number> {
+  const counts = await countTasks(supabase, searchJobId, ['enrich']);
+  return counts.pending + counts.leased + counts.completed + counts.dead;
+}
+
+// Fetch one page of Places results for one search area, tile and place type
+// and fan it out into enrich tasks. The seed task starts a query for every
+// area and place type; each then chains its next page, splits into child
+// tiles when it hits the page cap (lib/search-tiles.ts), and stops once the
+// job has its target number of places. Every step is its own task so a crash
+// never refetches from page 1.
+export async function runFetchTask(supabase: SupabaseClient, task: SearchJobTask<FetchPayload>): Promise<FetchTaskResult> {
+  const job = await loadJob(supabase, task.search_job_id);
+  const dsl = job.dsl_json;
+  const target: number = dsl.result_size?.target || PLACES_PAGE_SIZE;
+  const { page, page_token, area = 0, tile: tileId = ROOT_TILE, type = 0 } = task.payload;
+  const areas = planSearchAreas(dsl.geo);
+  const searchArea = areas[area];
+  if (!searchArea) {
+    throw new Error(`Search area ${area} is not part of job ${job.id}`);
+  }
+  const verticals = await loadVerticals(supabase);
+  const queried = queryVerticals(dsl);
+  // Every Places type of every vertical the query targets
+  const placeTypes = placeTypesFor(verticals, queried);
+  const placeType = placeTypes[type];
+  if (!placeType) {
+    throw new Error(`Place type ${type} is not searched for ${queried.join(', ')}`);
+  }
+  const tile = resolveTile(searchArea, tileId);
+
+  if (job.status === 'queued') {
+    await supabase.from('search_jobs').update({ status: 'running' }).eq('id', job.id);
+    const labels = queried.map((id) => resolveVertical(verticals, id).label);
+    await logStatus(supabase, job.id, 'search_start', `Starting search for ${labels.join(', ')} in ${describeGeo(dsl.geo)}`);
+  }
+
+  if (area === 0 && tileId === ROOT_TILE && type === 0 && page === 0) {
+    await enqueueTasks(supabase, job.id, areas.flatMap((_, a) => placeTypes.map((_, t) => ({ a, t })))
+      .filter(({ a, t }) => a > 0 || t > 0)
+      .map(({ a, t }) => ({
+        type: 'fetch' as const,
+        dedupe_key: fetchDedupeKey(a, ROOT_TILE, t, 0),
+        payload: { page: 0, area: a, tile: ROOT_TILE, type: t }
+      })));
+  }
+
+  const outcome = { area, tile: tileId, place_type: placeType, page };
+  const queuedBefore = await countQueuedPlaces(supabase, job.id);
+  if (queuedBefore >= target) {
+    return { ...outcome, fetched: 0, tile_status: 'stopped' };
+  }
+
+  const registry = getDataSources(supabase);
+  const source = registry.get(PLACES_SOURCE);
+  if (!source || !(await source.isAvailable())) {
+    throw new Error('No search data source is configured. Please set GOOGLE_PLACES_API_KEY in Supabase Edge Functions secrets, or DATA_SOURCE_MODE=fixtures for offline runs.');
+  }
+
+  const location = tileLocation(searchArea, tile);
+  const pageResult = await registry.call(source.name, {
+    vertical: dsl.vertical,
+    city: searchArea.city,
+    state: searchArea.state,
+    pageToken: page_token ?? undefined,
+    placeType,
+    ...(location.locationBias && { locationBias: location.locationBias }),
+    ...(location.locationRestriction && { locationRestriction: location.locationRestriction }),
+    ...(searchArea.polygon && { polygon: searchArea.polygon })
+  });
+  const places = {
+    results: (pageResult.metadata?.places ?? []) as GooglePlace[],
+    next_page_token: pageResult.nextPageToken ?? null
+  };
+  // The page size before places outside the tile were dropped
+  const listed = places.results.length + Number(pageResult.metadata?.outside_area ?? 0);
+
+  // Suppressed places never reach enrichment or count toward the target
+  const suppression = await loadSuppressionList(supabase, job.user_id, dsl.exclusions);
+  const suppressed: Partial<Record<SuppressionReason, number>> = {};
+  const eligible = places.results.filter((place) => {
+    const reason = matchSuppression(suppression, {
+      name: place.name,
+      website: place.website,
+      phone: place.formatted_phone_number,
+      place_id: place.place_id
+    });
+    if (reason) suppressed[reason] = (suppressed[reason] ?? 0) + 1;
+    return !reason;
+  });
+
+  const results = eligible.slice(0, target - queuedBefore);
+  await enqueueTasks(supabase, job.id, results.map((place) => ({
+    type: 'enrich' as const,
+    dedupe_key: `enrich:${place.place_id}`,
+    payload: { place }
+  })));
+
+  let tileStatus: TileStatus | undefined;
+  const next = (nextTile: string, nextPage: number, pageToken?: string) => ({
+    type: 'fetch' as const,
+    dedupe_key: fetchDedupeKey(area, nextTile, type, nextPage),
+    payload: { page: nextPage, area, tile: nextTile, type, ...(pageToken && { page_token: pageToken }) },
+    ...(pageToken && { delay_seconds: NEXT_PAGE_DELAY_SECONDS })
+  });
+  if (await countQueuedPlaces(supabase, job.id) >= target) {
+    tileStatus = 'stopped';
+  } else if (places.next_page_token && page + 1 < PLACES_MAX_PAGES) {
+    await enqueueTasks(supabase, job.id, [next(tileId, page + 1, places.next_page_token)]);
+  } else if (page + 1 >= PLACES_MAX_PAGES && (places.next_page_token || listed >= PLACES_PAGE_SIZE)) {
+    // Every page came back full: the tile holds more than one query can list
+    const children = tile.depth < MAX_TILE_DEPTH ? childTiles(tile) : [];
+    await enqueueTasks(supabase, job.id, children.map((child) => next(child.id, 0)));
+    tileStatus = children.length > 0 ? 'split' : 'capped';
+  } else {
+    tileStatus = 'exhausted';
+  }
+
+  const where = areas.length > 1 || tile.depth > 0 ? ` in ${tileLabel(searchArea.label, tileId)}` : '';
+  const kind = placeTypes.length > 1 ? ` (${placeType})` : '';
+  const dropped = places.results.length - eligible.length;
+  const skipped = dropped > 0 ? ` (${dropped} suppressed)` : '';
+  await logStatus(supabase, job.id, 'fetch_complete', `Fetched page ${page + 1}${where}${kind}: ${results.length} businesses queued for enrichment${skipped}`);
+  return {
+    ...outcome,
+    fetched: results.length,
+    ...(tileStatus && { tile_status: tileStatus }),
+    ...(dropped > 0 && { suppressed })
+  };
+}
+
+// Upsert the business, record place and website signals, then queue scoring.
+// Places suppressed since the fetch (a list edit mid-run) and businesses the
+// account has already worked stop here and are only counted.
+export async function runEnrichTask(supabase: SupabaseClient, task: SearchJobTask<EnrichPayload>) {
+  const job = await loadJob(supabase, task.search_job_id);
+  const dsl = job.dsl_json;
+  const { place } = task.payload;
+
+  const listed = matchSuppression(await loadSuppressionList(supabase, job.user_id, dsl.exclusions), {
+    name: place.name,
+    website: place.website,
+    phone: place.formatted_phone_number,
+    place_id: place.place_id
+  });
+  if (listed) {
+    return { place_id: place.place_id, suppressed: listed };
+  }
+
+  // Extract address components
+  const addressParts = place.formatted_address?.split(',') || [];
+  const city = addressParts[addressParts.length - 3]?.trim() || dsl.geo.city || '';
+  const stateZip = addressParts[addressParts.length - 2]?.trim() || '';
+  const state = stateZip.split(' ')[0] || dsl.geo.state;
+
+  const business = {
+    name: place.name,
+    // A multi-vertical query files each place under the vertical whose Places types it has
+    vertical: verticalForPlaceTypes(await loadVerticals(supabase), queryVerticals(dsl), place.types),
+    website: place.website || null,
+    phone: place.formatted_phone_number || null,
+    address_json: {
+      street: addressParts[0]?.trim() || '',
+      city: city,
+      state: state,
+      zip: stateZip.split(' ')[1] || '',
+      country: 'US'
+    },
+    lat: place.geometry?.location?.lat || 0,
+    lng: place.geometry?.location?.lng || 0,
+    google_place_id: place.place_id,
+    metadata: {
+      rating: place.rating,
+      user_ratings_total: place.user_ratings_total,
+      price_level: place.price_level,
+      types: place.types,
+      business_status: place.business_status
+    }
+  };
+
+  // Resolve against businesses already on file (by place_id, phone, domain or
+  // location + name) so repeat sightings update one row
+  const resolved = await resolveBusiness(supabase, business, { name: PLACES_SOURCE, confidence: 0.95 });
+  const businessId = resolved.business_id;
+
+  if (await isWorkedBusiness(supabase, businessId)) {
+    return { business_id: businessId, suppressed: 'worked' as const };
+  }
+
+  if (resolved.linked_duplicates.length > 0) {
+    await logStatus(
+      supabase,
+      job.id,
+      'entity_resolution',
+      `Linked ${resolved.linked_duplicates.length} duplicate record(s) to ${place.name}`
+    );
+  }
+
+  if (resolved.chain_branches.length > 0) {
+    await logStatus(
+      supabase,
+      job.id,
+      'entity_resolution',
+      `${place.name} shares its website with ${resolved.chain_branches.length} other location(s); marked as a franchise`
+    );
+  }
+
+  const signals: EnhancedSignal[] = [];
+
+  if (!place.website) {
+    signals.push({
+      business_id: businessId,
+      type: 'no_website',
+      value_json: true,
+      confidence: 0.95,
+      source_key: 'google_places'
+    });
+  }
+
+  if (place.rating) {
+    signals.push({
+      business_id: businessId,
+      type: 'rating',
+      value_json: place.rating,
+      confidence: 1.0,
+      source_key: 'google_places'
+    });
+  }
+
+  // Places leaves user_ratings_total out when there are no reviews; record the
+  // zero so "over 50 reviews" rejects the place instead of finding it unknown
+  signals.push({
+    business_id: businessId,
+    type: 'review_count',
+    value_json: place.user_ratings_total ?? 0,
+    confidence: 1.0,
+    source_key: 'google_places'
+  });
+
+  if (place.opening_hours) {
+    signals.push({
+      business_id: businessId,
+      type: 'has_hours',
+      value_json: true,
+      confidence: 1.0,
+      source_key: 'google_places',
+      metadata: place.opening_hours
+    });
+  }
+
+  let peopleFound = 0;
+  if (place.website) {
+    const analysis = await analyzeWebsiteEnhanced(place.website, await loadFingerprints(supabase));
+    signals.push(...analysis.signals.map((signal) => ({ ...signal, business_id: businessId })));
+
+    if (analysis.people.length > 0) {
+      // Replace rather than append so a retried task does not duplicate contacts
+      await supabase.from('people').delete().eq('business_id', businessId).eq('source_url', place.website);
+      const { error: peopleError } = await supabase
+        .from('people')
+        .insert(analysis.people.map((person) => ({ ...person, business_id: businessId })));
+      if (!peopleError) peopleFound = analysis.people.length;
+    }
+  }
+
+  if (signals.length > 0) {
+    const { error: signalError } = await supabase
+      .from('signals')
+      .upsert(signals, { onConflict: 'business_id,type' });
+    if (signalError) {
+      throw new Error(`Error saving signals: ${signalError.message}`);
+    }
+  }
+
+  await enqueueTasks(supabase, job.id, [{
+    type: 'score',
+    dedupe_key: `score:${businessId}`,
+    payload: { business_id: businessId }
+  }]);
+
+  return { business_id: businessId, signals: signals.length, people: peopleFound };
+}
+
+// Check the query's constraints against the enriched business, then score it
+// with the shared scoring model and write its lead view. A business failing a
+// must or exclude constraint gets no lead view.
+export async function runScoreTask(supabase: SupabaseClient, task: SearchJobTask<ScorePayload>) {
+  const job = await loadJob(supabase, task.search_job_id);
+  const { business_id } = task.payload;
+
+  const { data: business, error } = await supabase
+    .from('businesses')
+    .select('id, vertical, website, phone, franchise_bool, signals(id, type, value_json, confidence, evidence_url, evidence_snippet)')
+    .eq('id', business_id)
+    .single();
+
+  if (error || !business) {
+    throw new Error(`Business ${business_id} not found: ${error?.message}`);
+  }
+
+  const facts = constraintFactsFromSignals(business.signals || [], business);
+  const constraintResults = evaluateConstraints(job.dsl_json.constraints, facts);
+  if (constraintResults.rejected) {
+    // Drop a view written by an earlier run of this task
+    await supabase.from('lead_views').delete().eq('search_job_id', job.id).eq('business_id', business_id);
+    const failed = constraintResults.checks.filter((check) => check.outcome === 'fail' && check.list !== 'optional');
+    return { business_id, rejected: failed.map((check) => check.key) };
+  }
+
+  const verticals = await loadVerticals(supabase);
+  const profile = resolveScoringProfile(
+    job.dsl_json.scoring,
+    resolveVertical(verticals, business.vertical).scoring_profile,
+    await loadScoringProfiles(supabase, job.user_id),
+  );
+  const ruleBased = scoreLead(facts, profile, undefined, verticals);
+  // A promoted learned model replaces the rule-based total
+  const model = await loadActiveModel(supabase);
+  const scoreResult = model
+    ? applyLearnedModel(ruleBased, model, await featureVectorFromRows(business, business.signals || []), profile.thresholds)
+    : ruleBased;
+
+  await supabase
+    .from('businesses')
+    .update({
+      lead_score: scoreResult.score,
+      scoring_breakdown: scoreResult.scoring_breakdown
+    })
+    .eq('id', business_id);
+
+  const { data: leadView, error: leadViewError } = await supabase
+    .from('lead_views')
+    .upsert({
+      search_job_id: job.id,
+      business_id,
+      score: scoreResult.score,
+      subscores_json: scoreResult.subscores,
+      model_version: scoreResult.model_version,
+      score_contributions: linkContributions(scoreResult.contributions, business.signals || []),
+      constraint_results: constraintResults,
+      // What the lead was scored on, so a later run can report signal changes
+      signal_snapshot: signalSnapshot(business.signals || []),
+      rank: 0 // Assigned by the validate task
+    }, { onConflict: 'search_job_id,business_id' })
+    .select('id')
+    .single();
+
+  if (leadViewError) {
+    throw new Error(`Error creating lead view: ${leadViewError.message}`);
+  }
+
+  // History is a record of the score, not part of it; a failed insert only logs
+  const { error: historyError } = await supabase
+    .from('lead_score_history')
+    .insert(historyEntry({ id: leadView.id, search_job_id: job.id, business_id }, scoreResult, 'search'));
+  if (historyError) {
+    console.error(`Failed to record score history for ${business_id}:`, historyError.message);
+  }
+
+  return { business_id, score: scoreResult.score };
+}
+
+// Once no fetch/enrich/score work is outstanding, queue the job's single
+// validate task. Safe to call repeatedly; the dedupe key keeps it unique.
+export async function enqueueValidationIfSettled(supabase: SupabaseClient, searchJobId: string): Promise<boolean> {
+  const counts = await countTasks(supabase, searchJobId, ['fetch', 'enrich', 'score']);
+  if (counts.pending + counts.leased > 0) return false;
+
+  await enqueueTasks(supabase, searchJobId, [{ type: 'validate', dedupe_key: 'validate', payload: {} }]);
+  return true;
+}
+
+// Suppressed places from fetch results (per reason) and enrich results (one each)
+function tallySuppressed(fetchResults: unknown[], enrichResults: unknown[]): SuppressionTally {
+  let tally: SuppressionTally = { count: 0, by_reason: {} };
+  for (const result of fetchResults as Array<Partial<FetchTaskResult> | null>) {
+    for (const [reason, count] of Object.entries(result?.suppressed ?? {})) {
+      tally = addToTally(tally, reason as SuppressionReason, count ?? 0);
+    }
+  }
+  for (const result of enrichResults as Array<{ suppressed?: SuppressionReason } | null>) {
+    if (result?.suppressed) tally = addToTally(tally, result.suppressed);
+  }
+  return tally;
+}
+
+// Rank lead views, record summary stats and close the job.
+export async function runValidateTask(supabase: SupabaseClient, task: SearchJobTask) {
+  const job = await loadJob(supabase, task.search_job_id);
+  const counts = await countTasks(supabase, job.id, ['fetch', 'enrich', 'score']);
+  const fetchCounts = await countTasks(supabase, job.id, ['fetch']);
+  const enrichCounts = await countTasks(supabase, job.id, ['enrich']);
+
+  const { data: leadViews, error } = await supabase
+    .from('lead_views')
+    .select('id, score, constraint_results')
+    .eq('search_job_id', job.id);
+
+  if (error) {
+    throw new Error(`Failed to load lead views: ${error.message}`);
+  }
+
+  // Optional constraints the lead meets lift its rank, not its score
+  const views = (leadViews || []) as Array<{ id: string; score: number; constraint_results: ConstraintResults | null }>;
+  const ranked = rankByScore(views.map((view) => ({ id: view.id, score: view.score + (view.constraint_results?.boost ?? 0) })));
+  for (const view of ranked) {
+    await supabase.from('lead_views').update({ rank: view.rank }).eq('id', view.id);
+  }
+  // The score tasks recorded each lead's history before it had a rank
+  const { error: historyError } = await supabase.rpc('rank_lead_score_history', { p_search_job_id: job.id });
+  if (historyError) {
+    throw new Error(`Failed to rank score history: ${historyError.message}`);
+  }
+
+  const fetchResults = await listTaskResults(supabase, job.id, 'fetch');
+  const enrichResults = await listTaskResults(supabase, job.id, 'enrich');
+  const suppression = tallySuppressed(fetchResults, enrichResults);
+  // Places dropped at enrichment were listed but are not leads
+  const enrichSuppressed = (enrichResults as Array<{ suppressed?: string } | null>).filter((result) => result?.suppressed).length;
+
+  const totalFound = enrichCounts.completed + enrichCounts.dead - enrichSuppressed;
+  const averageScore = views.length > 0
+    ? Math.round(views.reduce((sum, view) => sum + (view.score || 0), 0) / views.length)
+    : 0;
+  const rejected = (await listTaskResults(supabase, job.id, 'score') as Array<{ rejected?: string[] } | null>)
+    .filter((result) => result?.rejected).length;
+  // A job whose every fetch dead-lettered produced nothing usable
+  const failed = fetchCounts.completed === 0 && fetchCounts.dead > 0;
+
+  await supabase
+    .from('search_jobs')
+    .update({
+      status: failed ? 'failed' : 'completed',
+      error_text: failed ? 'All Google Places fetch tasks failed; see search_job_dead_letters' : null,
+      summary_stats: {
+        total_found: totalFound,
+        total_enriched: enrichCounts.completed - enrichSuppressed,
+        total_scored: ranked.length,
+        processing_time_ms: Date.now() - new Date(job.created_at).getTime(),
+        enrichment_rate: totalFound > 0 ? (enrichCounts.completed - enrichSuppressed) / totalFound : 0,
+        average_score: averageScore,
+        dead_letter_count: counts.dead,
+        suppressed_count: suppression.count,
+        suppressed_by_reason: suppression.by_reason,
+        constraint_rejected_count: rejected,
+        tile_coverage: summarizeTileCoverage(fetchResults, planSearchAreas(job.dsl_json.geo))
+      }
+    })
+    .eq('id', job.id);
+
+  await publishProgress(supabase, job.id, failed ? 'failed' : 'completed');
+
+  await logStatus(
+    supabase,
+    job.id,
+    'search_complete',
+    `Ranked ${ranked.length} leads${rejected > 0 ? `, ${rejected} failed the query's constraints` : ''}${counts.dead > 0 ? ` (${counts.dead} tasks dead-lettered)` : ''}`,
+    counts.dead > 0 ? 'warn' : 'info'
+  );
+
+  return { ranked: ranked.length, dead: counts.dead };
+}
+
+export async function runTask(supabase: SupabaseClient, task: SearchJobTask) {
+  switch (task.type) {
+    case 'fetch':
+      return await runFetchTask(supabase, task as SearchJobTask<FetchPayload>);
+    case 'enrich':
+      return await runEnrichTask(supabase, task as SearchJobTask<EnrichPayload>);
+    case 'score':
+      return await runScoreTask(supabase, task as SearchJobTask<ScorePayload>);
+    case 'validate':
+      return await runValidateTask(supabase, task);
+    default:
+      throw new Error(`Unknown task type: ${task.type}`);
+  }
+}
@@ -0,0 +1,115 @@
+// supabase/functions/lib/search-progress.ts
+// Per-stage progress snapshot for a search job. The search-worker writes it to
+// search_jobs.progress_json; the Express SSE stream and the Supabase realtime
+// subscription in the app both read the same shape. Pure TS so Deno, Node and
+// Vite can all import it.
+
+export type SearchStage = "queued" | "fetching" | "enriching" | "scoring" | "finalizing" | "completed" | "failed";
+
+export type StageCounts = {
+  done: number;
+  failed: number;
+  total: number;
+};
+
+export type SearchProgress = {
+  stage: SearchStage;
+  percent: number;
+  places_fetched: number;
+  stages: {
+    fetch: StageCounts; // Places pages
+    enrich: StageCounts; // sites audited
+    score: StageCounts; // leads scored
+  };
+  updated_at: string;
+};
+
+type TaskTally = { pending: number; leased: number; completed: number; dead: number };
+
+// Share of the progress bar each stage accounts for
+const STAGE_WEIGHTS = { fetch: 10, enrich: 60, score: 25, finalize: 5 };
+
+function toCounts(tally: TaskTally): StageCounts {
+  return {
+    done: tally.completed,
+    failed: tally.dead,
+    total: tally.pending + tally.leased + tally.completed + tally.dead,
+  };
+}
+
+function fraction(counts: StageCounts): number {
+  return counts.total === 0 ? 0 : (counts.done + counts.failed) / counts.total;
+}
+
+export function emptyProgress(stage: SearchStage = "queued"): SearchProgress {
+  const zero = { done: 0, failed: 0, total: 0 };
+  return {
+    stage,
+    percent: stage === "completed" ? 100 : 0,
+    places_fetched: 0,
+    stages: { fetch: { ...zero }, enrich: { ...zero }, score: { ...zero } },
+    updated_at: new Date().toISOString(),
+  };
+}
+
+// Builds a snapshot from per-type task tallies. Scoring is measured against the
+// number of places queued for enrichment since each place yields one lead,
+// less the `suppressed` enrich tasks that stopped without queuing a score.
+export function buildProgress(
+  tallies: { fetch: TaskTally; enrich: TaskTally; score: TaskTally; validate: TaskTally },
+  jobStatus?: string,
+  suppressed = 0,
+): SearchProgress {
+  const fetch = toCounts(tallies.fetch);
+  const enrich = toCounts(tallies.enrich);
+  const scored = toCounts(tallies.score);
+  const score = { ...scored, total: Math.max(scored.total, enrich.total - enrich.failed - suppressed) };
+  const validate = toCounts(tallies.validate);
+
+  let stage: SearchStage;
+  if (jobStatus === "failed") stage = "failed";
+  else if (jobStatus === "completed" || (validate.total > 0 && validate.done === validate.total)) stage = "completed";
+  else if (validate.total > 0) stage = "finalizing";
+  else if (fetch.total === 0) stage = "queued";
+  else if (fetch.done + fetch.failed < fetch.total) stage = "fetching";
+  else if (enrich.done + enrich.failed < enrich.total) stage = "enriching";
+  else stage = "scoring";
+
+  const fetchShare = fetch.total > 0 && stage !== "fetching" ? 1 : fraction(fetch);
+  const percent = stage === "completed"
+    ? 100
+    : Math.min(99, Math.round(
+      fetchShare * STAGE_WEIGHTS.fetch +
+      fraction(enrich) * STAGE_WEIGHTS.enrich +
+      fraction(score) * STAGE_WEIGHTS.score +
+      (stage === "finalizing" ? STAGE_WEIGHTS.finalize / 2 : 0),
+    ));
+
+  return {
+    stage,
+    percent,
+    places_fetched: enrich.total,
+    stages: { fetch, enrich, score },
+    updated_at: new Date().toISOString(),
+  };
+}
+
+export function describeProgress(progress: SearchProgress): string {
+  const { enrich, score } = progress.stages;
+  switch (progress.stage) {
+    case "queued":
+      return "Search queued, starting soon...";
+    case "fetching":
+      return `Fetching places... ${progress.places_fetched} found so far`;
+    case "enriching":
+      return `Auditing websites... ${enrich.done + enrich.failed}/${enrich.total}`;
+    case "scoring":
+      return `Scoring leads... ${score.done}/${score.total}`;
+    case "finalizing":
+      return "Ranking leads...";
+    case "completed":
+      return `Search completed • ${score.done} leads scored`;
+    case "failed":
+      return "Search failed";
+  }
+}
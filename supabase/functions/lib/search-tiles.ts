@@ -0,0 +1,152 @@
+// supabase/functions/lib/search-tiles.ts
+// Adaptive geographic tiling for the Places fetch stage. One text query lists
+// at most three pages of twenty places, so a search area with more businesses
+// than that is covered by tiles: a tile whose query still fills every page is
+// split into quadrants, down to MAX_TILE_DEPTH. Tile ids are quadrant paths
+// from the area's bounds ("r", "r.2", "r.2.0"), so a fetch task rebuilds its
+// tile from the job's DSL alone. Fetch tasks report how each tile query ended
+// and the validate task rolls that up into summary_stats.tile_coverage.
+
+import { circleBias, distanceKm, PlacesCircle, PlacesRectangle, SearchArea } from "./geocoding.ts";
+import type { SuppressionReason } from "./suppression.ts";
+
+export const ROOT_TILE = "r";
+export const MAX_TILE_DEPTH = 3;
+export const PLACES_PAGE_SIZE = 20;
+// The legacy text search stops issuing page tokens after the third page
+export const PLACES_MAX_PAGES = 3;
+
+// Quadrant order within a parent tile
+const QUADRANTS = ["SW", "SE", "NW", "NE"];
+
+export interface SearchTile {
+  id: string;
+  depth: number;
+  // Absent for areas without coordinates, which are searched untiled
+  bounds?: PlacesRectangle;
+}
+
+// exhausted: the query listed everything in the tile
+// split:     every page came back full, so child tiles took over
+// capped:    every page came back full at MAX_TILE_DEPTH; places may be missing
+// stopped:   the job reached its result target first
+export type TileStatus = "exhausted" | "split" | "capped" | "stopped";
+
+// What a fetch task returns (and the queue stores as its result)
+export interface FetchTaskResult {
+  area: number;
+  tile: string;
+  place_type: string;
+  page: number;
+  fetched: number;
+  // Set on the page that ended this tile's query
+  tile_status?: TileStatus;
+  // Places on the page dropped by the account's suppression list, per reason
+  suppressed?: Partial<Record<SuppressionReason, number>>;
+}
+
+export interface TileCoverageEntry {
+  area: string;
+  tile: string;
+  label: string;
+  place_type: string;
+  depth: number;
+  bounds?: PlacesRectangle;
+  // Unset when the tile's last fetch never completed (e.g. dead-lettered)
+  status?: TileStatus;
+  fetched: number;
+}
+
+export interface TileCoverage {
+  tiles: TileCoverageEntry[];
+  counts: Record<TileStatus | "incomplete", number>;
+}
+
+function quadrant(bounds: PlacesRectangle, index: number): PlacesRectangle {
+  const { low, high } = bounds.rectangle;
+  const midLat = (low.latitude + high.latitude) / 2;
+  const midLng = (low.longitude + high.longitude) / 2;
+  const north = index >= 2;
+  const east = index % 2 === 1;
+  return {
+    rectangle: {
+      low: { latitude: north ? midLat : low.latitude, longitude: east ? midLng : low.longitude },
+      high: { latitude: north ? high.latitude : midLat, longitude: east ? high.longitude : midLng },
+    },
+  };
+}
+
+export function resolveTile(area: SearchArea, id: string): SearchTile {
+  const [root, ...path] = id.split(".");
+  if (root !== ROOT_TILE || path.some((step) => !/^[0-3]$/.test(step)) || path.length > MAX_TILE_DEPTH) {
+    throw new Error(`Invalid search tile id: ${id}`);
+  }
+  if (path.length > 0 && !area.locationRestriction) {
+    throw new Error(`Search area ${area.label} has no bounds to tile`);
+  }
+  let bounds = area.locationRestriction;
+  for (const step of path) bounds = quadrant(bounds!, Number(step));
+  return { id, depth: path.length, ...(bounds && { bounds }) };
+}
+
+export function childTiles(tile: SearchTile): SearchTile[] {
+  if (!tile.bounds) return [];
+  return QUADRANTS.map((_, index) => ({
+    id: `${tile.id}.${index}`,
+    depth: tile.depth + 1,
+    bounds: quadrant(tile.bounds!, index),
+  }));
+}
+
+// The root tile searches the area as planned; a child biases towards its own
+// center and is restricted to its own bounds
+export function tileLocation(area: SearchArea, tile: SearchTile): { locationBias?: PlacesCircle; locationRestriction?: PlacesRectangle } {
+  if (tile.depth === 0 || !tile.bounds) {
+    return { locationBias: area.locationBias, locationRestriction: area.locationRestriction };
+  }
+  const { low, high } = tile.bounds.rectangle;
+  const center = { lat: (low.latitude + high.latitude) / 2, lng: (low.longitude + high.longitude) / 2 };
+  const corner = { lat: high.latitude, lng: high.longitude };
+  return { locationBias: circleBias(center, distanceKm(center, corner)), locationRestriction: tile.bounds };
+}
+
+// "Columbia, SC", "Columbia, SC NW/SE"
+export function tileLabel(areaLabel: string, id: string): string {
+  const path = id.split(".").slice(1).map((step) => QUADRANTS[Number(step)]);
+  return path.length > 0 ? `${areaLabel} ${path.join("/")}` : areaLabel;
+}
+
+function isFetchTaskResult(value: unknown): value is FetchTaskResult {
+  return typeof value === "object" && value !== null && typeof (value as FetchTaskResult).tile === "string";
+}
+
+// Rolls per-page fetch results up into one entry per area, tile and place type
+export function summarizeTileCoverage(results: unknown[], areas: SearchArea[]): TileCoverage {
+  const entries = new Map<string, TileCoverageEntry>();
+  for (const result of results.filter(isFetchTaskResult)) {
+    const area = areas[result.area];
+    if (!area) continue;
+    const key = `${result.area}|${result.tile}|${result.place_type}`;
+    let entry = entries.get(key);
+    if (!entry) {
+      const tile = resolveTile(area, result.tile);
+      entry = {
+        area: area.label,
+        tile: result.tile,
+        label: tileLabel(area.label, result.tile),
+        place_type: result.place_type,
+        depth: tile.depth,
+        ...(tile.bounds && { bounds: tile.bounds }),
+        fetched: 0,
+      };
+      entries.set(key, entry);
+    }
+    entry.fetched += result.fetched;
+    if (result.tile_status) entry.status = result.tile_status;
+  }
+
+  const tiles = [...entries.values()].sort((a, b) => a.label.localeCompare(b.label) || a.place_type.localeCompare(b.place_type));
+  const counts: TileCoverage["counts"] = { exhausted: 0, split: 0, capped: 0, stopped: 0, incomplete: 0 };
+  for (const tile of tiles) counts[tile.status ?? "incomplete"] += 1;
+  return { tiles, counts };
+}
@@ -1,6 +1,10 @@
 // Simplified Website Analyzer - Lightweight fetch-based analysis
 // No heavy dependencies, suitable for Edge Functions
 
+import { crawlSite, CrawlOptions, PageKind } from './site-crawler.ts';
+import { BUILT_IN_FINGERPRINTS } from './vendor-fingerprint-db.ts';
+import { detectVendors, FingerprintCategory, VendorFingerprint, VendorMatch } from './vendor-fingerprints.ts';
+
 export interface SimpleAnalysisResult {
   url: string;
   status: 'success' | 'partial' | 'failed';
@@ -24,6 +28,8 @@ export interface SimpleAnalysisResult {
     hasMetaDescription: boolean;
     hasOpenGraph: boolean;
   };
+  // Pages analyzed by analyzeSite; absent for single-page analysis
+  pages?: Array<{ url: string; kind: PageKind; status: number }>;
   timestamp: string;
 }
 
@@ -32,39 +38,21 @@ export interface WebsiteSignal {
   detected: boolean;
   confidence: number;
   evidence: string;
+  url?: string; // page the signal was detected on, when not the start URL
 }
 
 export class SimpleWebsiteAnalyzer {
   private timeout: number;
+  private fingerprints: VendorFingerprint[];
 
-  constructor(timeout: number = 10000) {
+  constructor(timeout: number = 10000, fingerprints: VendorFingerprint[] = BUILT_IN_FINGERPRINTS) {
     this.timeout = timeout;
+    this.fingerprints = fingerprints;
   }
 
   async analyze(url: string): Promise<SimpleAnalysisResult> {
     const startTime = Date.now();
-    const result: SimpleAnalysisResult = {
-      url,
-      status: 'failed',
-      signals: [],
-      technologies: [],
-      performance: { responseTime: 0, contentLength: 0 },
-      content: {
-        title: '',
-        description: '',
-        hasContactForm: false,
-        hasPhoneNumber: false,
-        hasEmail: false,
-        socialLinks: []
-      },
-      seo: {
-        hasSSL: false,
-        hasMobileViewport: false,
-        hasMetaDescription: false,
-        hasOpenGraph: false
-      },
-      timestamp: new Date().toISOString()
-    };
+    const result = this.emptyResult(url);
 
     try {
       // Check SSL
@@ -94,14 +82,7 @@ export class SimpleWebsiteAnalyzer {
       result.performance.contentLength = html.length;
       result.status = 'success';
 
-      // Analyze content
-      this.analyzeHTML(html, result);
-      
-      // Detect signals
-      this.detectSignals(html, result);
-      
-      // Detect technologies
-      this.detectTechnologies(html, result);
+      this.analyzePage(html, result, Object.fromEntries(response.headers.entries()));
 
     } catch (error) {
       console.error('Website analysis error:', error);
@@ -111,6 +92,114 @@ export class SimpleWebsiteAnalyzer {
     return result;
   }
 
+  // Crawls same-origin pages (contact, about, team, services, booking, ...)
+  // from the start URL and merges what each page shows: a signal counts as
+  // detected when any page detects it, and keeps that page's URL as evidence.
+  async analyzeSite(url: string, options: CrawlOptions = {}): Promise<SimpleAnalysisResult> {
+    const startTime = Date.now();
+    const result = this.emptyResult(url);
+    result.seo.hasSSL = url.startsWith('https://');
+
+    try {
+      const crawl = await crawlSite(url, { timeoutMs: this.timeout, ...options });
+      result.performance.responseTime = Date.now() - startTime;
+      result.pages = crawl.pages.map(page => ({ url: page.url, kind: page.kind, status: page.status }));
+
+      const analyzed = crawl.pages.filter(page => page.html !== undefined);
+      if (analyzed.length === 0) {
+        return result;
+      }
+
+      // Partial when some pages the crawler reached could not be read
+      result.status = analyzed.length === crawl.pages.length ? 'success' : 'partial';
+
+      for (const page of analyzed) {
+        const pageResult = this.emptyResult(page.url);
+        this.analyzePage(page.html!, pageResult, page.headers);
+        this.mergePage(result, pageResult, page.kind === 'home');
+        result.performance.contentLength += page.html!.length;
+      }
+    } catch (error) {
+      console.error('Website analysis error:', error);
+      result.status = 'failed';
+    }
+
+    return result;
+  }
+
+  private analyzePage(html: string, result: SimpleAnalysisResult, headers?: Record<string, string>): void {
+    const vendors = detectVendors({ url: result.url, html, headers }, this.fingerprints);
+
+    // Analyze content
+    this.analyzeHTML(html, result);
+    
+    // Detect signals
+    this.detectSignals(html, result, vendors);
+    
+    // Detect technologies
+    this.detectTechnologies(result, vendors);
+  }
+
+  private mergePage(site: SimpleAnalysisResult, page: SimpleAnalysisResult, isHome: boolean): void {
+    if (isHome || !site.content.title) {
+      site.content.title = page.content.title || site.content.title;
+      site.content.description = page.content.description || site.content.description;
+    }
+    site.content.hasContactForm ||= page.content.hasContactForm;
+    site.content.hasPhoneNumber ||= page.content.hasPhoneNumber;
+    site.content.hasEmail ||= page.content.hasEmail;
+    site.content.socialLinks = [...new Set([...site.content.socialLinks, ...page.content.socialLinks])];
+
+    site.seo.hasMobileViewport ||= page.seo.hasMobileViewport;
+    site.seo.hasMetaDescription ||= page.seo.hasMetaDescription;
+    site.seo.hasOpenGraph ||= page.seo.hasOpenGraph;
+
+    site.technologies = [...new Set([...site.technologies, ...page.technologies])];
+
+    for (const signal of page.signals) {
+      const index = site.signals.findIndex(existing => existing.type === signal.type);
+      const pageSignal = page.url === site.url ? signal : { ...signal, url: page.url };
+      if (index === -1) {
+        site.signals.push(pageSignal);
+      } else if (signal.detected && !site.signals[index].detected) {
+        site.signals[index] = pageSignal;
+      }
+    }
+
+    // Social presence depends on links gathered across all pages
+    const social = site.signals.find(existing => existing.type === 'social_media_active');
+    if (social && site.content.socialLinks.length > 0) {
+      social.detected = true;
+      social.confidence = 1.0;
+      social.evidence = `${site.content.socialLinks.length} social profiles found`;
+    }
+  }
+
+  private emptyResult(url: string): SimpleAnalysisResult {
+    return {
+      url,
+      status: 'failed',
+      signals: [],
+      technologies: [],
+      performance: { responseTime: 0, contentLength: 0 },
+      content: {
+        title: '',
+        description: '',
+        hasContactForm: false,
+        hasPhoneNumber: false,
+        hasEmail: false,
+        socialLinks: []
+      },
+      seo: {
+        hasSSL: false,
+        hasMobileViewport: false,
+        hasMetaDescription: false,
+        hasOpenGraph: false
+      },
+      timestamp: new Date().toISOString()
+    };
+  }
+
   private analyzeHTML(html: string, result: SimpleAnalysisResult): void {
     const lowerHTML = html.toLowerCase();
 
@@ -159,61 +248,42 @@ export class SimpleWebsiteAnalyzer {
     }
   }
 
-  private detectSignals(html: string, result: SimpleAnalysisResult): void {
+  private detectSignals(html: string, result: SimpleAnalysisResult, vendors: VendorMatch[]): void {
     const lowerHTML = html.toLowerCase();
 
-    // Chat widget detection
-    const chatPatterns = [
-      'intercom', 'drift', 'tidio', 'crisp', 'tawk.to',
-      'zendesk', 'livechat', 'hubspot-messages'
-    ];
-    
-    const hasChat = chatPatterns.some(pattern => lowerHTML.includes(pattern));
-    result.signals.push({
-      type: 'has_chatbot',
-      detected: hasChat,
-      confidence: hasChat ? 0.9 : 0.1,
-      evidence: hasChat ? 'Chat widget detected' : 'No chat widget found'
-    });
+    const vendorSignal = (type: string, category: FingerprintCategory, label: string, absentConfidence: number) => {
+      const vendor = vendors.find(match => match.category === category);
+      result.signals.push({
+        type,
+        detected: !!vendor,
+        confidence: vendor ? vendor.confidence : absentConfidence,
+        evidence: vendor ? `${vendor.name} detected (${vendor.evidence[0].kind}: ${vendor.evidence[0].snippet})` : `No ${label} found`
+      });
+    };
 
-    // Online booking detection
-    const bookingPatterns = [
-      'calendly', 'acuity', 'setmore', 'book now', 'schedule appointment',
-      'book appointment', 'make appointment'
-    ];
-    
-    const hasBooking = bookingPatterns.some(pattern => lowerHTML.includes(pattern));
-    result.signals.push({
-      type: 'has_online_booking',
-      detected: hasBooking,
-      confidence: hasBooking ? 0.85 : 0.15,
-      evidence: hasBooking ? 'Booking system detected' : 'No booking system found'
-    });
+    // Chat widget detection
+    vendorSignal('has_chatbot', 'chatbot', 'chat widget', 0.1);
+
+    // Online booking detection: a known vendor, or at least a booking call to action
+    const bookingPhrases = ['book now', 'schedule appointment', 'book appointment', 'make appointment'];
+    const bookingVendor = vendors.find(match => match.category === 'booking');
+    const bookingPhrase = bookingPhrases.find(phrase => lowerHTML.includes(phrase));
+    if (!bookingVendor && bookingPhrase) {
+      result.signals.push({
+        type: 'has_online_booking',
+        detected: true,
+        confidence: 0.7,
+        evidence: `Booking call to action: "${bookingPhrase}"`
+      });
+    } else {
+      vendorSignal('has_online_booking', 'booking', 'booking system', 0.15);
+    }
 
     // Analytics detection
-    const hasAnalytics = 
-      lowerHTML.includes('google-analytics') ||
-      lowerHTML.includes('gtag') ||
-      lowerHTML.includes('analytics.js') ||
-      lowerHTML.includes('ga.js');
-    
-    result.signals.push({
-      type: 'has_analytics',
-      detected: hasAnalytics,
-      confidence: hasAnalytics ? 0.95 : 0.05,
-      evidence: hasAnalytics ? 'Analytics tracking detected' : 'No analytics found'
-    });
+    vendorSignal('has_analytics', 'analytics', 'analytics', 0.05);
 
     // Payment processor detection
-    const paymentPatterns = ['stripe', 'paypal', 'square', 'checkout', 'payment'];
-    const hasPayment = paymentPatterns.some(pattern => lowerHTML.includes(pattern));
-    
-    result.signals.push({
-      type: 'has_payment_processor',
-      detected: hasPayment,
-      confidence: hasPayment ? 0.7 : 0.3,
-      evidence: hasPayment ? 'Payment processor detected' : 'No payment processor found'
-    });
+    vendorSignal('has_payment_processor', 'payment_processors', 'payment processor', 0.3);
 
     // Mobile responsive (simplified check)
     const isMobileResponsive = 
@@ -238,38 +308,17 @@ export class SimpleWebsiteAnalyzer {
     });
   }
 
-  private detectTechnologies(html: string, result: SimpleAnalysisResult): void {
-    const lowerHTML = html.toLowerCase();
-
-    // CMS detection
-    if (lowerHTML.includes('wordpress')) result.technologies.push('WordPress');
-    if (lowerHTML.includes('shopify')) result.technologies.push('Shopify');
-    if (lowerHTML.includes('wix')) result.technologies.push('Wix');
-    if (lowerHTML.includes('squarespace')) result.technologies.push('Squarespace');
-    if (lowerHTML.includes('webflow')) result.technologies.push('Webflow');
-
-    // Framework detection
-    if (lowerHTML.includes('react')) result.technologies.push('React');
-    if (lowerHTML.includes('vue')) result.technologies.push('Vue.js');
-    if (lowerHTML.includes('angular')) result.technologies.push('Angular');
-    if (lowerHTML.includes('jquery')) result.technologies.push('jQuery');
-
-    // E-commerce
-    if (lowerHTML.includes('woocommerce')) result.technologies.push('WooCommerce');
-    if (lowerHTML.includes('magento')) result.technologies.push('Magento');
-
-    // Analytics & Marketing
-    if (lowerHTML.includes('google-analytics')) result.technologies.push('Google Analytics');
-    if (lowerHTML.includes('facebook pixel')) result.technologies.push('Facebook Pixel');
-    if (lowerHTML.includes('mailchimp')) result.technologies.push('Mailchimp');
-
-    // CDN & Infrastructure
-    if (lowerHTML.includes('cloudflare')) result.technologies.push('Cloudflare');
-    if (lowerHTML.includes('cdn.')) result.technologies.push('CDN');
+  private detectTechnologies(result: SimpleAnalysisResult, vendors: VendorMatch[]): void {
+    // Social profiles are reported as socialLinks instead
+    for (const vendor of vendors) {
+      if (vendor.category !== 'social_media' && !result.technologies.includes(vendor.name)) {
+        result.technologies.push(vendor.name);
+      }
+    }
   }
 }
 
 // Export factory function
-export function createSimpleAnalyzer(timeout?: number): SimpleWebsiteAnalyzer {
-  return new SimpleWebsiteAnalyzer(timeout);
+export function createSimpleAnalyzer(timeout?: number, fingerprints?: VendorFingerprint[]): SimpleWebsiteAnalyzer {
+  return new SimpleWebsiteAnalyzer(timeout, fingerprints);
 }
\ No newline at end of file
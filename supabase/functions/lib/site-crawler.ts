@@ -0,0 +1,337 @@
+// supabase/functions/lib/site-crawler.ts
+// Bounded same-origin crawler for website audits. Starts at the home page,
+// follows internal links breadth-first while honouring robots.txt (for the
+// origin the home page settles on after redirects), a depth limit, a page
+// budget and an overall time limit, and visits pages that look like
+// contact/about/team/services/booking pages before the rest of their level.
+
+export type PageKind = "home" | "booking" | "contact" | "about" | "team" | "services" | "other";
+
+export type CrawledPage = {
+  url: string;
+  path: string;
+  depth: number;
+  kind: PageKind;
+  status: number; // HTTP status, 0 when the fetch failed
+  headers?: Record<string, string>;
+  html?: string;
+  error?: string;
+  discovered_from?: string;
+  fetched_at: string;
+};
+
+export type SkippedPage = {
+  url: string;
+  reason: "robots" | "budget" | "depth" | "not_html" | "time";
+};
+
+export type CrawlResult = {
+  start_url: string;
+  origin: string;
+  pages: CrawledPage[];
+  skipped: SkippedPage[];
+  robots_txt_found: boolean;
+};
+
+export type CrawlOptions = {
+  maxPages?: number;
+  maxDepth?: number;
+  // Paths crawled first when the home page links to them; never fetched blind
+  seedPaths?: string[];
+  // Per request
+  timeoutMs?: number;
+  // Whole crawl, robots.txt included; pages still queued are skipped
+  maxCrawlMs?: number;
+  userAgent?: string;
+  respectRobots?: boolean;
+  // Defaults to the global fetch; tests pass a stub
+  fetch?: typeof fetch;
+};
+
+export const DEFAULT_CRAWL_OPTIONS = {
+  maxPages: 12,
+  maxDepth: 2,
+  timeoutMs: 10000,
+  maxCrawlMs: 30000,
+  userAgent: "Mozilla/5.0 (compatible; LeadFinder/1.0; Website Auditor)",
+};
+
+// Product token matched against robots.txt User-agent lines
+const ROBOTS_AGENT = "leadfinder";
+
+// Checked in order; the first match wins
+const PAGE_KIND_PATTERNS: Array<[PageKind, RegExp]> = [
+  ["booking", /book|schedul|appointment|reserv|new-?patient|patient-?forms|request/i],
+  ["contact", /contact|location|directions|get-?in-?touch/i],
+  ["team", /team|staff|doctors?|providers?|attorneys?|our-?people|meet/i],
+  ["about", /about|who-?we-?are|our-?story/i],
+  ["services", /services?|treatments?|practice-?areas|pricing|menu/i],
+];
+
+// Crawl order within a depth level: likely feature pages first
+const KIND_PRIORITY: Record<PageKind, number> = {
+  home: 0,
+  booking: 1,
+  contact: 2,
+  services: 3,
+  team: 4,
+  about: 5,
+  other: 6,
+};
+
+const SKIPPED_EXTENSIONS = /\.(pdf|jpe?g|png|gif|svg|webp|ico|css|js|json|xml|zip|mp4|mp3|docx?|xlsx?)$/i;
+
+export function classifyPage(path: string, linkText = ""): PageKind {
+  if (path === "/" || path === "") return "home";
+  const subject = `${path} ${linkText}`;
+  for (const [kind, pattern] of PAGE_KIND_PATTERNS) {
+    if (pattern.test(subject)) return kind;
+  }
+  return "other";
+}
+
+type RobotsRule = { allow: boolean; pattern: string };
+
+export type RobotsPolicy = {
+  isAllowed(path: string): boolean;
+  crawlDelayMs: number;
+};
+
+function ruleMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${regex}${anchored ? "$" : ""}`).test(path);
+}
+
+// Minimal robots.txt support: the group for our agent (or "*"), Allow and
+// Disallow with * and $ wildcards, longest match wins, Allow wins ties.
+export function parseRobotsTxt(text: string, agent = ROBOTS_AGENT): RobotsPolicy {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[]; delay: number }> = [];
+  let current: { agents: string[]; rules: RobotsRule[]; delay: number } | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], delay: 0 };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+    if (field === "disallow" && value) current.rules.push({ allow: false, pattern: value });
+    if (field === "allow" && value) current.rules.push({ allow: true, pattern: value });
+    if (field === "crawl-delay") current.delay = Math.max(0, Number(value) || 0) * 1000;
+  }
+
+  const group = groups.find((candidate) => candidate.agents.some((name) => name !== "*" && agent.includes(name))) ??
+    groups.find((candidate) => candidate.agents.includes("*"));
+
+  return {
+    crawlDelayMs: group?.delay ?? 0,
+    isAllowed(path: string) {
+      if (!group) return true;
+      let best: RobotsRule | null = null;
+      for (const rule of group.rules) {
+        if (!ruleMatches(rule.pattern, path)) continue;
+        if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+          best = rule;
+        }
+      }
+      return best ? best.allow : true;
+    },
+  };
+}
+
+// Same-origin page links in document order with their anchor text
+export function extractLinks(html: string, pageUrl: string, origin: string): Array<{ url: string; text: string }> {
+  const links: Array<{ url: string; text: string }> = [];
+  const seen = new Set<string>();
+  const anchorPattern = /<a\b[^>]*\bhref\s*=\s*["']([^"'#]+)(?:#[^"']*)?["'][^>]*>([\s\S]*?)<\/a>/gi;
+
+  for (const match of html.matchAll(anchorPattern)) {
+    const href = match[1].trim();
+    if (/^(mailto|tel|javascript|data):/i.test(href)) continue;
+
+    let resolved: URL;
+    try {
+      resolved = new URL(href, pageUrl);
+    } catch {
+      continue;
+    }
+    if (resolved.origin !== origin || SKIPPED_EXTENSIONS.test(resolved.pathname)) continue;
+
+    resolved.hash = "";
+    const url = resolved.toString();
+    if (seen.has(url)) continue;
+    seen.add(url);
+    links.push({ url, text: match[2].replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim().slice(0, 80) });
+  }
+
+  return links;
+}
+
+type FetchSettings = { userAgent: string; timeoutMs: number; fetch: typeof fetch };
+
+async function fetchPage(url: string, settings: FetchSettings) {
+  return await settings.fetch(url, {
+    headers: {
+      "User-Agent": settings.userAgent,
+      "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+    },
+    redirect: "follow",
+    signal: AbortSignal.timeout(settings.timeoutMs),
+  });
+}
+
+async function loadRobots(origin: string, settings: FetchSettings): Promise<RobotsPolicy | null> {
+  try {
+    const response = await fetchPage(`${origin}/robots.txt`, settings);
+    if (!response.ok) return null;
+    return parseRobotsTxt(await response.text());
+  } catch {
+    return null;
+  }
+}
+
+// "/Book/" and "/book" name the same seed
+function normalizeSeedPath(path: string): string {
+  return path.replace(/\/+$/, "").toLowerCase() || "/";
+}
+
+export async function crawlSite(startUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+  const settings = {
+    maxPages: options.maxPages ?? DEFAULT_CRAWL_OPTIONS.maxPages,
+    maxDepth: options.maxDepth ?? DEFAULT_CRAWL_OPTIONS.maxDepth,
+    timeoutMs: options.timeoutMs ?? DEFAULT_CRAWL_OPTIONS.timeoutMs,
+    maxCrawlMs: options.maxCrawlMs ?? DEFAULT_CRAWL_OPTIONS.maxCrawlMs,
+    userAgent: options.userAgent ?? DEFAULT_CRAWL_OPTIONS.userAgent,
+  };
+  const fetchImpl = options.fetch ?? fetch;
+  const deadline = Date.now() + settings.maxCrawlMs;
+  // Every request gets the per-request timeout or whatever is left of the
+  // crawl, whichever is shorter
+  const fetchSettings = (): FetchSettings => ({
+    userAgent: settings.userAgent,
+    timeoutMs: Math.max(1, Math.min(settings.timeoutMs, deadline - Date.now())),
+    fetch: fetchImpl,
+  });
+
+  let origin = new URL(startUrl).origin;
+  const pages: CrawledPage[] = [];
+  const skipped: SkippedPage[] = [];
+  const queued = new Set<string>();
+  const queue: Array<{ url: string; depth: number; kind: PageKind; seeded: boolean; from?: string }> = [];
+  const seeds = new Set((options.seedPaths ?? []).map(normalizeSeedPath).filter((path) => path !== "/"));
+
+  const enqueue = (url: string, depth: number, kind: PageKind, seeded = false, from?: string) => {
+    if (queued.has(url)) return;
+    queued.add(url);
+    if (depth > settings.maxDepth) {
+      skipped.push({ url, reason: "depth" });
+      return;
+    }
+    queue.push({ url, depth, kind, seeded, from });
+    // Breadth-first; within a level linked seed paths, then likely feature pages
+    queue.sort((a, b) =>
+      a.depth - b.depth || Number(b.seeded) - Number(a.seeded) || KIND_PRIORITY[a.kind] - KIND_PRIORITY[b.kind]
+    );
+  };
+
+  enqueue(startUrl, 0, "home");
+
+  const respectRobots = options.respectRobots !== false;
+  let robots = respectRobots ? await loadRobots(origin, fetchSettings()) : null;
+
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    const path = new URL(next.url).pathname;
+
+    if (Date.now() >= deadline) {
+      skipped.push({ url: next.url, reason: "time" });
+      continue;
+    }
+    if (pages.length >= settings.maxPages) {
+      skipped.push({ url: next.url, reason: "budget" });
+      continue;
+    }
+    if (robots && !robots.isAllowed(path)) {
+      skipped.push({ url: next.url, reason: "robots" });
+      continue;
+    }
+    if (robots?.crawlDelayMs && pages.length > 0) {
+      const delay = Math.min(robots.crawlDelayMs, 5000);
+      if (Date.now() + delay >= deadline) {
+        skipped.push({ url: next.url, reason: "time" });
+        continue;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    const page: CrawledPage = {
+      url: next.url,
+      path,
+      depth: next.depth,
+      kind: next.kind,
+      status: 0,
+      discovered_from: next.from,
+      fetched_at: new Date().toISOString(),
+    };
+
+    try {
+      const response = await fetchPage(next.url, fetchSettings());
+      page.status = response.status;
+      page.headers = Object.fromEntries(response.headers.entries());
+
+      // The home page may redirect (http -> https, bare -> www); follow its
+      // origin, and the robots.txt that origin serves
+      if (next.depth === 0 && response.url) {
+        const finalUrl = new URL(response.url);
+        if (finalUrl.origin !== origin) {
+          origin = finalUrl.origin;
+          if (respectRobots) robots = await loadRobots(origin, fetchSettings());
+          if (robots && !robots.isAllowed(finalUrl.pathname)) {
+            skipped.push({ url: response.url, reason: "robots" });
+            continue;
+          }
+        }
+      }
+
+      if (!response.ok) {
+        pages.push(page);
+        continue;
+      }
+
+      const contentType = response.headers.get("content-type") || "";
+      if (contentType && !contentType.includes("html")) {
+        skipped.push({ url: next.url, reason: "not_html" });
+        continue;
+      }
+
+      page.html = await response.text();
+      pages.push(page);
+
+      for (const link of extractLinks(page.html, response.url || next.url, origin)) {
+        const linkPath = new URL(link.url).pathname;
+        const seeded = next.depth === 0 && seeds.has(normalizeSeedPath(linkPath));
+        enqueue(link.url, next.depth + 1, classifyPage(linkPath, link.text), seeded, next.url);
+      }
+    } catch (error) {
+      page.error = error.message;
+      pages.push(page);
+    }
+  }
+
+  return { start_url: startUrl, origin, pages, skipped, robots_txt_found: robots !== null };
+}
@@ -0,0 +1,116 @@
+// supabase/functions/lib/snapshot-store.ts
+// Reads and writes html_snapshot artifacts (see lib/html-snapshots.ts). A page
+// whose HTML hasn't changed since the business's last snapshot of that URL
+// reuses the existing row instead of storing another copy.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { normalizeDomain } from "./entity-resolution.ts";
+import { compressSnapshot, decompressSnapshot, HtmlSnapshotMetadata, SNAPSHOT_ARTIFACT_TYPE } from "./html-snapshots.ts";
+
+export type LoadedSnapshot = {
+  id: string;
+  business_id: string;
+  uri: string;
+  html: string;
+  headers: Record<string, string>;
+  status?: number;
+  fetched_at?: string;
+  page_kind?: string;
+  created_at: string;
+};
+
+type SnapshotPage = {
+  url: string;
+  html: string;
+  status: number;
+  headers?: Record<string, string>;
+  fetched_at: string;
+  kind?: string;
+};
+
+// Canonical business that owns a website, for callers that only know the URL
+export async function findBusinessIdForWebsite(supabase: SupabaseClient, websiteUrl: string): Promise<string | null> {
+  const domain = normalizeDomain(websiteUrl);
+  if (!domain) return null;
+
+  const { data, error } = await supabase
+    .from("businesses")
+    .select("id")
+    .eq("domain", domain)
+    .is("duplicate_of", null)
+    .order("created_at", { ascending: true })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to look up business for ${domain}: ${error.message}`);
+  }
+  return data?.[0]?.id ?? null;
+}
+
+// Stores the page as an html_snapshot artifact and returns the artifact id
+export async function storeHtmlSnapshot(supabase: SupabaseClient, businessId: string, page: SnapshotPage): Promise<string> {
+  const metadata = await compressSnapshot(page.html, {
+    status: page.status,
+    headers: page.headers,
+    fetched_at: page.fetched_at,
+    page_kind: page.kind,
+  });
+
+  const { data: existing, error: lookupError } = await supabase
+    .from("artifacts")
+    .select("id")
+    .eq("business_id", businessId)
+    .eq("type", SNAPSHOT_ARTIFACT_TYPE)
+    .eq("uri", page.url)
+    .eq("metadata_json->>content_hash", metadata.content_hash)
+    .limit(1);
+
+  if (lookupError) {
+    throw new Error(`Failed to look up snapshot for ${page.url}: ${lookupError.message}`);
+  }
+  if (existing && existing.length > 0) {
+    return existing[0].id;
+  }
+
+  const { data, error } = await supabase
+    .from("artifacts")
+    .insert({ business_id: businessId, type: SNAPSHOT_ARTIFACT_TYPE, uri: page.url, metadata_json: metadata })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to store snapshot for ${page.url}: ${error?.message}`);
+  }
+  return data.id;
+}
+
+export async function loadHtmlSnapshot(supabase: SupabaseClient, artifactId: string): Promise<LoadedSnapshot> {
+  const { data, error } = await supabase
+    .from("artifacts")
+    .select("id, business_id, uri, metadata_json, created_at")
+    .eq("id", artifactId)
+    .eq("type", SNAPSHOT_ARTIFACT_TYPE)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Snapshot ${artifactId} not found`);
+  }
+
+  // Rows written before snapshots were compressed hold the HTML inline
+  const metadata = (data.metadata_json ?? {}) as Partial<HtmlSnapshotMetadata> & { html?: string };
+  const html = metadata.encoding && metadata.content
+    ? await decompressSnapshot({ encoding: metadata.encoding, content: metadata.content })
+    : metadata.html ?? "";
+
+  return {
+    id: data.id,
+    business_id: data.business_id,
+    uri: data.uri,
+    html,
+    headers: metadata.headers ?? {},
+    status: metadata.status,
+    fetched_at: metadata.fetched_at,
+    page_kind: metadata.page_kind,
+    created_at: data.created_at,
+  };
+}
@@ -0,0 +1,146 @@
+// supabase/functions/lib/suppression-store.ts
+// Reads and writes suppression_entries and answers whether a business has
+// already been worked. Lists are cached per isolate for a minute, keyed by
+// user, so the fetch and enrich tasks of one search don't reload them per
+// task; writes through this module clear the cache.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildSuppressionList,
+  normalizeSuppressionValue,
+  SuppressionEntry,
+  SuppressionKind,
+  SuppressionList,
+} from "./suppression.ts";
+
+export type StoredSuppressionEntry = SuppressionEntry & {
+  id: string;
+  source: string;
+  note: string | null;
+  created_at: string;
+};
+
+const CACHE_TTL_MS = 60 * 1000;
+const INSERT_BATCH_SIZE = 500;
+// Latest statuses that mean the account already decided on the lead
+const WORKED_STATUSES = ["qualified", "ignored"];
+
+const cache = new Map<string, { entries: SuppressionEntry[]; loadedAt: number }>();
+
+async function loadEntries(supabase: SupabaseClient, userId: string): Promise<SuppressionEntry[]> {
+  const hit = cache.get(userId);
+  if (hit && Date.now() - hit.loadedAt < CACHE_TTL_MS) return hit.entries;
+
+  const { data, error } = await supabase
+    .from("suppression_entries")
+    .select("kind, value")
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to load suppression entries: ${error.message}`);
+  }
+  const entries = (data ?? []) as SuppressionEntry[];
+  cache.set(userId, { entries, loadedAt: Date.now() });
+  return entries;
+}
+
+// The user's list plus the query's own exclusions. Jobs without an owner
+// (server-side runs) only apply the exclusions.
+export async function loadSuppressionList(
+  supabase: SupabaseClient,
+  userId: string | null | undefined,
+  exclusions: string[] = [],
+): Promise<SuppressionList> {
+  const entries = userId ? await loadEntries(supabase, userId) : [];
+  return buildSuppressionList(entries, exclusions);
+}
+
+// A business the account has qualified, ignored or opened an opportunity for
+export async function isWorkedBusiness(supabase: SupabaseClient, businessId: string): Promise<boolean> {
+  const { data: opportunity, error: opportunityError } = await supabase
+    .from("opportunities")
+    .select("id")
+    .eq("lead_id", businessId)
+    .maybeSingle();
+
+  if (opportunityError) {
+    throw new Error(`Failed to check opportunities for ${businessId}: ${opportunityError.message}`);
+  }
+  if (opportunity) return true;
+
+  const { data: latest, error: statusError } = await supabase
+    .from("status_logs")
+    .select("status")
+    .eq("business_id", businessId)
+    .order("changed_at", { ascending: false })
+    .limit(1);
+
+  if (statusError) {
+    throw new Error(`Failed to check lead status for ${businessId}: ${statusError.message}`);
+  }
+  return WORKED_STATUSES.includes(latest?.[0]?.status);
+}
+
+export async function listSuppressionEntries(supabase: SupabaseClient, userId: string): Promise<StoredSuppressionEntry[]> {
+  const { data, error } = await supabase
+    .from("suppression_entries")
+    .select("id, kind, value, source, note, created_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list suppression entries: ${error.message}`);
+  }
+  return (data ?? []) as StoredSuppressionEntry[];
+}
+
+// Normalizes and stores entries, skipping ones already on the list. Returns
+// how many were new and the values that could not be normalized.
+export async function addSuppressionEntries(
+  supabase: SupabaseClient,
+  userId: string,
+  entries: Array<SuppressionEntry & { note?: string }>,
+  source = "manual",
+): Promise<{ added: number; invalid: string[] }> {
+  const invalid: string[] = [];
+  const rows = new Map<string, { user_id: string; kind: SuppressionKind; value: string; source: string; note: string | null }>();
+  for (const entry of entries) {
+    const value = normalizeSuppressionValue(entry.kind, entry.value ?? "");
+    if (!value) {
+      invalid.push(`${entry.kind}: ${entry.value}`);
+      continue;
+    }
+    rows.set(`${entry.kind}:${value}`, { user_id: userId, kind: entry.kind, value, source, note: entry.note ?? null });
+  }
+
+  let added = 0;
+  const batch = [...rows.values()];
+  for (let i = 0; i < batch.length; i += INSERT_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("suppression_entries")
+      .upsert(batch.slice(i, i + INSERT_BATCH_SIZE), { onConflict: "user_id,kind,value", ignoreDuplicates: true })
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to save suppression entries: ${error.message}`);
+    }
+    added += data?.length ?? 0;
+  }
+  cache.delete(userId);
+  return { added, invalid };
+}
+
+export async function deleteSuppressionEntries(supabase: SupabaseClient, userId: string, ids: string[]): Promise<number> {
+  const { data, error } = await supabase
+    .from("suppression_entries")
+    .delete()
+    .eq("user_id", userId)
+    .in("id", ids)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to delete suppression entries: ${error.message}`);
+  }
+  cache.delete(userId);
+  return data?.length ?? 0;
+}
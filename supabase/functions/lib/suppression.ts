@@ -0,0 +1,254 @@
+// supabase/functions/lib/suppression.ts
+// Account-level suppression: businesses a search must not return because they
+// are already customers, were imported from a CRM export, or the query
+// excludes them by name (LeadQuery.exclusions). This module is the pure part,
+// normalizing entries, matching candidates and parsing CSV imports;
+// lib/suppression-store.ts reads the lists and the worked-lead state
+// (qualified/ignored status, opportunities) from the database.
+
+export const SUPPRESSION_KINDS = ["domain", "phone", "place_id", "name_pattern"] as const;
+
+export type SuppressionKind = (typeof SUPPRESSION_KINDS)[number];
+
+// Why a candidate was dropped: a list entry of some kind, a query exclusion,
+// or a lead the account has already worked
+export type SuppressionReason = SuppressionKind | "exclusion" | "worked";
+
+export type SuppressionEntry = {
+  kind: SuppressionKind;
+  value: string;
+};
+
+export type SuppressionCandidate = {
+  name?: string | null;
+  website?: string | null;
+  phone?: string | null;
+  place_id?: string | null;
+};
+
+export type SuppressionList = {
+  domains: Set<string>;
+  phones: Set<string>;
+  placeIds: Set<string>;
+  namePatterns: RegExp[];
+  exclusions: RegExp[];
+};
+
+export type SuppressionTally = {
+  count: number;
+  by_reason: Partial<Record<SuppressionReason, number>>;
+};
+
+export type SuppressionCsvResult = {
+  entries: SuppressionEntry[];
+  rows: number;
+  // Rows that yielded nothing, as "Row N: ..." messages
+  skipped: string[];
+};
+
+// CSV header spellings for each kind; a customer export's "Company" and
+// "Website" columns import as a name and a domain
+const HEADER_KINDS: Record<SuppressionKind, string[]> = {
+  domain: ["domain", "website", "url", "web site", "site", "homepage", "email", "email address"],
+  phone: ["phone", "phone number", "telephone", "tel", "mobile", "main phone"],
+  place_id: ["place id", "google place id", "gmb place id"],
+  name_pattern: ["name", "company", "company name", "business", "business name", "account", "account name", "organization", "name pattern"],
+};
+
+const MAX_SKIPPED_MESSAGES = 20;
+
+export function normalizeBusinessName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9* ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// "https://www.Acme.com/contact" and "bob@acme.com" both become "acme.com"
+export function normalizeDomain(value: string): string | null {
+  const host = value
+    .trim()
+    .toLowerCase()
+    .replace(/^[^@\s]+@/, "")
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^www\./, "")
+    .split(/[/?#:]/)[0];
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host) ? host : null;
+}
+
+// US numbers compare on their last ten digits
+export function normalizePhone(value: string): string | null {
+  const digits = value.replace(/\D/g, "");
+  return digits.length >= 10 && digits.length <= 15 ? digits.slice(-10) : null;
+}
+
+export function normalizeSuppressionValue(kind: SuppressionKind, value: string): string | null {
+  switch (kind) {
+    case "domain":
+      return normalizeDomain(value);
+    case "phone":
+      return normalizePhone(value);
+    case "place_id":
+      return /^[\w-]{10,}$/.test(value.trim()) ? value.trim() : null;
+    case "name_pattern": {
+      const name = normalizeBusinessName(value);
+      return name.replace(/\*/g, "") ? name : null;
+    }
+  }
+}
+
+// A name pattern matches the whole normalized name; "*" is a wildcard
+function namePatternRegExp(pattern: string): RegExp {
+  const body = pattern.split("*").map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${body}$`);
+}
+
+// Query exclusions are loose ("except Aspen Dental"): any name containing them
+function exclusionRegExp(exclusion: string): RegExp | null {
+  const name = normalizeBusinessName(exclusion).replace(/\*/g, "");
+  return name ? new RegExp(`(^| )${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}( |$)`) : null;
+}
+
+export function buildSuppressionList(entries: SuppressionEntry[], exclusions: string[] = []): SuppressionList {
+  const list: SuppressionList = { domains: new Set(), phones: new Set(), placeIds: new Set(), namePatterns: [], exclusions: [] };
+  for (const entry of entries) {
+    const value = normalizeSuppressionValue(entry.kind, entry.value);
+    if (!value) continue;
+    if (entry.kind === "domain") list.domains.add(value);
+    else if (entry.kind === "phone") list.phones.add(value);
+    else if (entry.kind === "place_id") list.placeIds.add(value);
+    else list.namePatterns.push(namePatternRegExp(value));
+  }
+  for (const exclusion of exclusions) {
+    const pattern = exclusionRegExp(exclusion);
+    if (pattern) list.exclusions.push(pattern);
+  }
+  return list;
+}
+
+export function isEmptySuppressionList(list: SuppressionList): boolean {
+  return list.domains.size + list.phones.size + list.placeIds.size + list.namePatterns.length + list.exclusions.length === 0;
+}
+
+// The first list rule that suppresses the candidate, or null. A domain entry
+// also covers its subdomains.
+export function matchSuppression(list: SuppressionList, candidate: SuppressionCandidate): SuppressionReason | null {
+  if (candidate.place_id && list.placeIds.has(candidate.place_id)) return "place_id";
+
+  const host = candidate.website ? normalizeDomain(candidate.website) : null;
+  if (host) {
+    const labels = host.split(".");
+    for (let i = 0; i < labels.length - 1; i++) {
+      if (list.domains.has(labels.slice(i).join("."))) return "domain";
+    }
+  }
+
+  const phone = candidate.phone ? normalizePhone(candidate.phone) : null;
+  if (phone && list.phones.has(phone)) return "phone";
+
+  const name = candidate.name ? normalizeBusinessName(candidate.name) : "";
+  if (name && list.namePatterns.some((pattern) => pattern.test(name))) return "name_pattern";
+  if (name && list.exclusions.some((pattern) => pattern.test(name))) return "exclusion";
+  return null;
+}
+
+export function addToTally(tally: SuppressionTally, reason: SuppressionReason, count = 1): SuppressionTally {
+  if (count <= 0) return tally;
+  return { count: tally.count + count, by_reason: { ...tally.by_reason, [reason]: (tally.by_reason[reason] ?? 0) + count } };
+}
+
+// RFC 4180 rows: quoted fields may hold commas, doubled quotes and newlines
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+function headerKind(header: string): SuppressionKind | null {
+  const name = header.trim().toLowerCase().replace(/[_-]+/g, " ");
+  for (const kind of SUPPRESSION_KINDS) {
+    if (HEADER_KINDS[kind].includes(name)) return kind;
+  }
+  return null;
+}
+
+// A value from a headerless single-column file
+function guessKind(value: string): SuppressionKind {
+  if (/^ChIJ[\w-]+$/.test(value.trim())) return "place_id";
+  if (/^[\d\s().+-]+$/.test(value) && normalizePhone(value)) return "phone";
+  if (!/\s/.test(value.trim()) && normalizeDomain(value)) return "domain";
+  return "name_pattern";
+}
+
+// Parses a customer list. With a header row, recognised columns (website,
+// phone, company, place id ...) each become an entry; without one, every
+// cell is classified on its own.
+export function parseSuppressionCsv(text: string): SuppressionCsvResult {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  const kinds = rows[0]?.map(headerKind) ?? [];
+  const hasHeader = kinds.some((kind) => kind !== null);
+  const body = hasHeader ? rows.slice(1) : rows;
+
+  const seen = new Set<string>();
+  const entries: SuppressionEntry[] = [];
+  const skipped: string[] = [];
+  let skippedCount = 0;
+
+  body.forEach((cells, index) => {
+    const rowNumber = index + (hasHeader ? 2 : 1);
+    let found = 0;
+    cells.forEach((cell, column) => {
+      if (!cell.trim()) return;
+      const kind = hasHeader ? kinds[column] : guessKind(cell);
+      if (!kind) return;
+      const value = normalizeSuppressionValue(kind, cell);
+      if (!value) return;
+      found++;
+      const key = `${kind}:${value}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      entries.push({ kind, value });
+    });
+    if (found === 0) {
+      skippedCount++;
+      if (skipped.length < MAX_SKIPPED_MESSAGES) skipped.push(`Row ${rowNumber}: no domain, phone, place id or name found`);
+    }
+  });
+  if (skippedCount > skipped.length) skipped.push(`${skippedCount - skipped.length} more rows skipped`);
+
+  return { entries, rows: body.length, skipped };
+}
@@ -0,0 +1,247 @@
+// supabase/functions/lib/task-queue.ts
+// Thin client over the search_job_tasks table and its lease/complete/fail
+// SQL functions (see migrations/20250917_search_job_tasks.sql).
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type SearchTaskType = "fetch" | "enrich" | "score" | "validate";
+export type SearchTaskStatus = "pending" | "leased" | "completed" | "dead";
+
+export type SearchJobTask<P = Record<string, unknown>> = {
+  id: string;
+  search_job_id: string;
+  type: SearchTaskType;
+  status: SearchTaskStatus;
+  dedupe_key: string;
+  payload: P;
+  result: unknown;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  leased_by: string | null;
+  leased_until: string | null;
+  last_error: string | null;
+  created_at: string;
+  completed_at: string | null;
+};
+
+export type NewSearchTask = {
+  type: SearchTaskType;
+  // Unique per job; enqueueing an existing key is a no-op
+  dedupe_key: string;
+  payload?: Record<string, unknown>;
+  max_attempts?: number;
+  // Hold the task back for a while, e.g. until a page token becomes valid
+  delay_seconds?: number;
+};
+
+export type TaskCounts = Record<SearchTaskStatus, number>;
+
+export const DEFAULT_LEASE_SECONDS = 120;
+
+export function createWorkerId(): string {
+  return `worker-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+export async function enqueueTasks(
+  supabase: SupabaseClient,
+  searchJobId: string,
+  tasks: NewSearchTask[],
+): Promise<void> {
+  if (tasks.length === 0) return;
+
+  const rows = tasks.map((task) => ({
+    search_job_id: searchJobId,
+    type: task.type,
+    dedupe_key: task.dedupe_key,
+    payload: task.payload ?? {},
+    ...(task.max_attempts ? { max_attempts: task.max_attempts } : {}),
+    ...(task.delay_seconds ? { run_after: new Date(Date.now() + task.delay_seconds * 1000).toISOString() } : {}),
+  }));
+
+  const { error } = await supabase
+    .from("search_job_tasks")
+    .upsert(rows, { onConflict: "search_job_id,dedupe_key", ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to enqueue tasks: ${error.message}`);
+  }
+}
+
+export async function leaseTasks(
+  supabase: SupabaseClient,
+  workerId: string,
+  options: { limit?: number; leaseSeconds?: number; searchJobId?: string } = {},
+): Promise<SearchJobTask[]> {
+  const { data, error } = await supabase.rpc("lease_search_job_tasks", {
+    p_worker: workerId,
+    p_limit: options.limit ?? 10,
+    p_lease_seconds: options.leaseSeconds ?? DEFAULT_LEASE_SECONDS,
+    p_search_job_id: options.searchJobId ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to lease tasks: ${error.message}`);
+  }
+  return (data ?? []) as SearchJobTask[];
+}
+
+export async function completeTask(
+  supabase: SupabaseClient,
+  task: SearchJobTask,
+  workerId: string,
+  result?: unknown,
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("complete_search_job_task", {
+    p_task_id: task.id,
+    p_worker: workerId,
+    p_result: result ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to complete task ${task.id}: ${error.message}`);
+  }
+  // false means our lease expired and another worker took the task over
+  return data === true;
+}
+
+export async function failTask(
+  supabase: SupabaseClient,
+  task: SearchJobTask,
+  workerId: string,
+  reason: string,
+): Promise<SearchTaskStatus | null> {
+  const { data, error } = await supabase.rpc("fail_search_job_task", {
+    p_task_id: task.id,
+    p_worker: workerId,
+    p_error: reason.slice(0, 2000),
+  });
+
+  if (error) {
+    throw new Error(`Failed to record failure for task ${task.id}: ${error.message}`);
+  }
+  return (data as SearchTaskStatus | null) ?? null;
+}
+
+export async function countTasks(
+  supabase: SupabaseClient,
+  searchJobId: string,
+  types?: SearchTaskType[],
+): Promise<TaskCounts> {
+  let query = supabase
+    .from("search_job_tasks")
+    .select("status")
+    .eq("search_job_id", searchJobId);
+
+  if (types && types.length > 0) {
+    query = query.in("type", types);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to count tasks: ${error.message}`);
+  }
+
+  const counts: TaskCounts = { pending: 0, leased: 0, completed: 0, dead: 0 };
+  for (const row of (data ?? []) as Array<{ status: SearchTaskStatus }>) {
+    counts[row.status] += 1;
+  }
+  return counts;
+}
+
+// Results of one job's completed tasks of a type, in completion order.
+export async function listTaskResults(
+  supabase: SupabaseClient,
+  searchJobId: string,
+  type: SearchTaskType,
+): Promise<unknown[]> {
+  const { data, error } = await supabase
+    .from("search_job_tasks")
+    .select("result")
+    .eq("search_job_id", searchJobId)
+    .eq("type", type)
+    .eq("status", "completed")
+    .order("completed_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load task results: ${error.message}`);
+  }
+  return (data ?? []).map((row: { result: unknown }) => row.result);
+}
+
+// Per-type status tallies for one job, e.g. for progress reporting.
+export async function tallyTasksByType(
+  supabase: SupabaseClient,
+  searchJobId: string,
+): Promise<Record<SearchTaskType, TaskCounts>> {
+  const { data, error } = await supabase
+    .from("search_job_tasks")
+    .select("type, status")
+    .eq("search_job_id", searchJobId);
+
+  if (error) {
+    throw new Error(`Failed to tally tasks: ${error.message}`);
+  }
+
+  const empty = (): TaskCounts => ({ pending: 0, leased: 0, completed: 0, dead: 0 });
+  const tallies: Record<SearchTaskType, TaskCounts> = {
+    fetch: empty(),
+    enrich: empty(),
+    score: empty(),
+    validate: empty(),
+  };
+  for (const row of (data ?? []) as Array<{ type: SearchTaskType; status: SearchTaskStatus }>) {
+    tallies[row.type][row.status] += 1;
+  }
+  return tallies;
+}
+
+// True when a pending task (optionally for one job) becomes runnable within
+// `withinMs`. Tasks backing off or delayed past that, and tasks leased by
+// other workers, are left to whoever is running then (at worst the pg_cron
+// drain), so an idle worker never waits on or kicks for work it cannot lease.
+export async function hasRunnableTasks(
+  supabase: SupabaseClient,
+  searchJobId?: string,
+  withinMs = 0,
+): Promise<boolean> {
+  let query = supabase
+    .from("search_job_tasks")
+    .select("id", { count: "exact", head: true })
+    .eq("status", "pending")
+    .lte("run_after", new Date(Date.now() + withinMs).toISOString());
+
+  if (searchJobId) {
+    query = query.eq("search_job_id", searchJobId);
+  }
+
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(`Failed to check runnable tasks: ${error.message}`);
+  }
+  return (count ?? 0) > 0;
+}
+
+// Supabase's edge runtime global; absent under Node and plain Deno
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+// Fire-and-forget invocation of the search-worker function. Workers call this
+// on themselves when they run out of time with work still queued. The request
+// is handed to EdgeRuntime.waitUntil so the runtime keeps the caller alive
+// until it is sent instead of dropping it once the response goes out; the
+// pg_cron schedule in 20250917_search_job_tasks.sql restarts draining if a
+// kick is lost anyway.
+export function kickWorker(supabaseUrl: string, serviceKey: string, searchJobId?: string): void {
+  const kick = fetch(`${supabaseUrl}/functions/v1/search-worker`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${serviceKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ search_job_id: searchJobId ?? null }),
+  }).catch((error) => console.error("Failed to kick search-worker:", error));
+
+  if (typeof EdgeRuntime !== "undefined") {
+    EdgeRuntime.waitUntil(kick);
+  }
+}
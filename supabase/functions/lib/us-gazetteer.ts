@@ -0,0 +1,331 @@
+// supabase/functions/lib/us-gazetteer.ts
+// Bundled offline US gazetteer: state names, ZIP prefix → state ranges and
+// the larger US cities with their county and coordinates. It backs the
+// default geocoding provider (lib/geocoding.ts) and the prompt parser, so
+// common places resolve without any API. Places missing here fall through to
+// the online provider when one is configured.
+
+export interface GazetteerCity {
+  name: string;
+  state: string;
+  lat: number;
+  lng: number;
+  county: string;
+}
+
+export interface GazetteerCounty {
+  name: string;
+  state: string;
+  // Coordinates of the county's largest listed city, not its centroid
+  lat: number;
+  lng: number;
+}
+
+export const US_STATES: Record<string, string> = {
+  "alabama": "AL", "alaska": "AK", "arizona": "AZ", "arkansas": "AR", "california": "CA", "colorado": "CO",
+  "connecticut": "CT", "delaware": "DE", "florida": "FL", "georgia": "GA", "hawaii": "HI", "idaho": "ID",
+  "illinois": "IL", "indiana": "IN", "iowa": "IA", "kansas": "KS", "kentucky": "KY", "louisiana": "LA",
+  "maine": "ME", "maryland": "MD", "massachusetts": "MA", "michigan": "MI", "minnesota": "MN",
+  "mississippi": "MS", "missouri": "MO", "montana": "MT", "nebraska": "NE", "nevada": "NV",
+  "new hampshire": "NH", "new jersey": "NJ", "new mexico": "NM", "new york": "NY", "north carolina": "NC",
+  "north dakota": "ND", "ohio": "OH", "oklahoma": "OK", "oregon": "OR", "pennsylvania": "PA",
+  "rhode island": "RI", "south carolina": "SC", "south dakota": "SD", "tennessee": "TN", "texas": "TX",
+  "utah": "UT", "vermont": "VT", "virginia": "VA", "washington": "WA", "west virginia": "WV",
+  "wisconsin": "WI", "wyoming": "WY", "district of columbia": "DC",
+};
+
+export const US_STATE_CODES = new Set(Object.values(US_STATES));
+
+// First three ZIP digits → state, as [low, high, state] inclusive ranges
+const ZIP_PREFIXES: Array<[number, number, string]> = [
+  [5, 5, "NY"], [10, 27, "MA"], [28, 29, "RI"], [30, 38, "NH"], [39, 49, "ME"], [50, 54, "VT"],
+  [55, 55, "MA"], [56, 59, "VT"], [60, 69, "CT"], [70, 89, "NJ"], [100, 149, "NY"], [150, 196, "PA"],
+  [197, 199, "DE"], [200, 205, "DC"], [206, 219, "MD"], [220, 246, "VA"], [247, 268, "WV"],
+  [270, 289, "NC"], [290, 299, "SC"], [300, 319, "GA"], [320, 349, "FL"], [350, 369, "AL"],
+  [370, 385, "TN"], [386, 397, "MS"], [398, 399, "GA"], [400, 427, "KY"], [430, 459, "OH"],
+  [460, 479, "IN"], [480, 499, "MI"], [500, 528, "IA"], [530, 549, "WI"], [550, 567, "MN"],
+  [570, 577, "SD"], [580, 588, "ND"], [590, 599, "MT"], [600, 629, "IL"], [630, 658, "MO"],
+  [660, 679, "KS"], [680, 693, "NE"], [700, 714, "LA"], [716, 729, "AR"], [730, 749, "OK"],
+  [750, 799, "TX"], [800, 816, "CO"], [820, 831, "WY"], [832, 838, "ID"], [840, 847, "UT"],
+  [850, 865, "AZ"], [870, 884, "NM"], [885, 885, "TX"], [889, 898, "NV"], [900, 961, "CA"],
+  [967, 968, "HI"], [970, 979, "OR"], [980, 994, "WA"], [995, 999, "AK"],
+];
+
+// [name, state, lat, lng, county], larger cities first so an ambiguous name
+// ("Columbia", "Portland") defaults to the bigger place
+const CITY_ROWS: Array<[string, string, number, number, string]> = [
+  ["New York", "NY", 40.7128, -74.006, "New York"],
+  ["Los Angeles", "CA", 34.0522, -118.2437, "Los Angeles"],
+  ["Chicago", "IL", 41.8781, -87.6298, "Cook"],
+  ["Houston", "TX", 29.7604, -95.3698, "Harris"],
+  ["Phoenix", "AZ", 33.4484, -112.074, "Maricopa"],
+  ["Philadelphia", "PA", 39.9526, -75.1652, "Philadelphia"],
+  ["San Antonio", "TX", 29.4241, -98.4936, "Bexar"],
+  ["San Diego", "CA", 32.7157, -117.1611, "San Diego"],
+  ["Dallas", "TX", 32.7767, -96.797, "Dallas"],
+  ["San Jose", "CA", 37.3382, -121.8863, "Santa Clara"],
+  ["Austin", "TX", 30.2672, -97.7431, "Travis"],
+  ["Jacksonville", "FL", 30.3322, -81.6557, "Duval"],
+  ["Fort Worth", "TX", 32.7555, -97.3308, "Tarrant"],
+  ["Columbus", "OH", 39.9612, -82.9988, "Franklin"],
+  ["Charlotte", "NC", 35.2271, -80.8431, "Mecklenburg"],
+  ["San Francisco", "CA", 37.7749, -122.4194, "San Francisco"],
+  ["Indianapolis", "IN", 39.7684, -86.1581, "Marion"],
+  ["Seattle", "WA", 47.6062, -122.3321, "King"],
+  ["Denver", "CO", 39.7392, -104.9903, "Denver"],
+  ["Washington", "DC", 38.9072, -77.0369, "District of Columbia"],
+  ["Boston", "MA", 42.3601, -71.0589, "Suffolk"],
+  ["El Paso", "TX", 31.7619, -106.485, "El Paso"],
+  ["Nashville", "TN", 36.1627, -86.7816, "Davidson"],
+  ["Detroit", "MI", 42.3314, -83.0458, "Wayne"],
+  ["Oklahoma City", "OK", 35.4676, -97.5164, "Oklahoma"],
+  ["Portland", "OR", 45.5152, -122.6784, "Multnomah"],
+  ["Las Vegas", "NV", 36.1699, -115.1398, "Clark"],
+  ["Memphis", "TN", 35.1495, -90.049, "Shelby"],
+  ["Louisville", "KY", 38.2527, -85.7585, "Jefferson"],
+  ["Baltimore", "MD", 39.2904, -76.6122, "Baltimore City"],
+  ["Milwaukee", "WI", 43.0389, -87.9065, "Milwaukee"],
+  ["Albuquerque", "NM", 35.0844, -106.6504, "Bernalillo"],
+  ["Tucson", "AZ", 32.2226, -110.9747, "Pima"],
+  ["Fresno", "CA", 36.7378, -119.7871, "Fresno"],
+  ["Mesa", "AZ", 33.4152, -111.8315, "Maricopa"],
+  ["Sacramento", "CA", 38.5816, -121.4944, "Sacramento"],
+  ["Atlanta", "GA", 33.749, -84.388, "Fulton"],
+  ["Kansas City", "MO", 39.0997, -94.5786, "Jackson"],
+  ["Colorado Springs", "CO", 38.8339, -104.8214, "El Paso"],
+  ["Omaha", "NE", 41.2565, -95.9345, "Douglas"],
+  ["Raleigh", "NC", 35.7796, -78.6382, "Wake"],
+  ["Miami", "FL", 25.7617, -80.1918, "Miami-Dade"],
+  ["Long Beach", "CA", 33.7701, -118.1937, "Los Angeles"],
+  ["Virginia Beach", "VA", 36.8529, -75.978, "Virginia Beach City"],
+  ["Oakland", "CA", 37.8044, -122.2712, "Alameda"],
+  ["Minneapolis", "MN", 44.9778, -93.265, "Hennepin"],
+  ["Tulsa", "OK", 36.154, -95.9928, "Tulsa"],
+  ["Tampa", "FL", 27.9506, -82.4572, "Hillsborough"],
+  ["Arlington", "TX", 32.7357, -97.1081, "Tarrant"],
+  ["New Orleans", "LA", 29.9511, -90.0715, "Orleans"],
+  ["Wichita", "KS", 37.6872, -97.3301, "Sedgwick"],
+  ["Cleveland", "OH", 41.4993, -81.6944, "Cuyahoga"],
+  ["Bakersfield", "CA", 35.3733, -119.0187, "Kern"],
+  ["Aurora", "CO", 39.7294, -104.8319, "Arapahoe"],
+  ["Anaheim", "CA", 33.8366, -117.9143, "Orange"],
+  ["Honolulu", "HI", 21.3069, -157.8583, "Honolulu"],
+  ["Santa Ana", "CA", 33.7455, -117.8677, "Orange"],
+  ["Riverside", "CA", 33.9806, -117.3755, "Riverside"],
+  ["Corpus Christi", "TX", 27.8006, -97.3964, "Nueces"],
+  ["Lexington", "KY", 38.0406, -84.5037, "Fayette"],
+  ["Stockton", "CA", 37.9577, -121.2908, "San Joaquin"],
+  ["St. Louis", "MO", 38.627, -90.1994, "St. Louis City"],
+  ["Saint Paul", "MN", 44.9537, -93.09, "Ramsey"],
+  ["Henderson", "NV", 36.0395, -114.9817, "Clark"],
+  ["Pittsburgh", "PA", 40.4406, -79.9959, "Allegheny"],
+  ["Cincinnati", "OH", 39.1031, -84.512, "Hamilton"],
+  ["Anchorage", "AK", 61.2181, -149.9003, "Anchorage"],
+  ["Greensboro", "NC", 36.0726, -79.792, "Guilford"],
+  ["Plano", "TX", 33.0198, -96.6989, "Collin"],
+  ["Newark", "NJ", 40.7357, -74.1724, "Essex"],
+  ["Lincoln", "NE", 40.8136, -96.7026, "Lancaster"],
+  ["Orlando", "FL", 28.5383, -81.3792, "Orange"],
+  ["Irvine", "CA", 33.6846, -117.8265, "Orange"],
+  ["Toledo", "OH", 41.6528, -83.5379, "Lucas"],
+  ["Jersey City", "NJ", 40.7178, -74.0431, "Hudson"],
+  ["Chula Vista", "CA", 32.6401, -117.0842, "San Diego"],
+  ["Durham", "NC", 35.994, -78.8986, "Durham"],
+  ["Fort Wayne", "IN", 41.0793, -85.1394, "Allen"],
+  ["St. Petersburg", "FL", 27.7676, -82.6403, "Pinellas"],
+  ["Laredo", "TX", 27.5306, -99.4803, "Webb"],
+  ["Buffalo", "NY", 42.8864, -78.8784, "Erie"],
+  ["Madison", "WI", 43.0731, -89.4012, "Dane"],
+  ["Lubbock", "TX", 33.5779, -101.8552, "Lubbock"],
+  ["Chandler", "AZ", 33.3062, -111.8413, "Maricopa"],
+  ["Scottsdale", "AZ", 33.4942, -111.9261, "Maricopa"],
+  ["Reno", "NV", 39.5296, -119.8138, "Washoe"],
+  ["Glendale", "AZ", 33.5387, -112.186, "Maricopa"],
+  ["Gilbert", "AZ", 33.3528, -111.789, "Maricopa"],
+  ["Winston-Salem", "NC", 36.0999, -80.2442, "Forsyth"],
+  ["North Las Vegas", "NV", 36.1989, -115.1175, "Clark"],
+  ["Norfolk", "VA", 36.8508, -76.2859, "Norfolk City"],
+  ["Chesapeake", "VA", 36.7682, -76.2875, "Chesapeake City"],
+  ["Garland", "TX", 32.9126, -96.6389, "Dallas"],
+  ["Irving", "TX", 32.814, -96.9489, "Dallas"],
+  ["Hialeah", "FL", 25.8576, -80.2781, "Miami-Dade"],
+  ["Fremont", "CA", 37.5485, -121.9886, "Alameda"],
+  ["Boise", "ID", 43.615, -116.2023, "Ada"],
+  ["Richmond", "VA", 37.5407, -77.436, "Richmond City"],
+  ["Baton Rouge", "LA", 30.4515, -91.1871, "East Baton Rouge"],
+  ["Spokane", "WA", 47.6588, -117.426, "Spokane"],
+  ["Des Moines", "IA", 41.5868, -93.625, "Polk"],
+  ["Tacoma", "WA", 47.2529, -122.4443, "Pierce"],
+  ["San Bernardino", "CA", 34.1083, -117.2898, "San Bernardino"],
+  ["Modesto", "CA", 37.6391, -120.9969, "Stanislaus"],
+  ["Birmingham", "AL", 33.5186, -86.8104, "Jefferson"],
+  ["Rochester", "NY", 43.1566, -77.6088, "Monroe"],
+  ["Salt Lake City", "UT", 40.7608, -111.891, "Salt Lake"],
+  ["Grand Rapids", "MI", 42.9634, -85.6681, "Kent"],
+  ["Huntsville", "AL", 34.7304, -86.5861, "Madison"],
+  ["Knoxville", "TN", 35.9606, -83.9207, "Knox"],
+  ["Worcester", "MA", 42.2626, -71.8023, "Worcester"],
+  ["Providence", "RI", 41.824, -71.4128, "Providence"],
+  ["Chattanooga", "TN", 35.0456, -85.3097, "Hamilton"],
+  ["Fort Lauderdale", "FL", 26.1224, -80.1373, "Broward"],
+  ["Tallahassee", "FL", 30.4383, -84.2807, "Leon"],
+  ["Overland Park", "KS", 38.9822, -94.6708, "Johnson"],
+  ["Frisco", "TX", 33.1507, -96.8236, "Collin"],
+  ["McKinney", "TX", 33.1972, -96.6398, "Collin"],
+  ["Amarillo", "TX", 35.222, -101.8313, "Potter"],
+  ["Tempe", "AZ", 33.4255, -111.94, "Maricopa"],
+  ["Cary", "NC", 35.7915, -78.7811, "Wake"],
+  ["Fayetteville", "NC", 35.0527, -78.8784, "Cumberland"],
+  ["Savannah", "GA", 32.0809, -81.0912, "Chatham"],
+  ["Charleston", "SC", 32.7765, -79.9311, "Charleston"],
+  ["Columbia", "SC", 34.0007, -81.0348, "Richland"],
+  ["Columbia", "MO", 38.9517, -92.3341, "Boone"],
+  ["Springfield", "MO", 37.209, -93.2923, "Greene"],
+  ["Springfield", "MA", 42.1015, -72.5898, "Hampden"],
+  ["Springfield", "IL", 39.7817, -89.6501, "Sangamon"],
+  ["Pasadena", "CA", 34.1478, -118.1445, "Los Angeles"],
+  ["Alexandria", "VA", 38.8048, -77.0469, "Alexandria City"],
+  ["Arlington", "VA", 38.8816, -77.091, "Arlington"],
+  ["Bellevue", "WA", 47.6101, -122.2015, "King"],
+  ["Vancouver", "WA", 45.6387, -122.6615, "Clark"],
+  ["Sioux Falls", "SD", 43.5446, -96.7311, "Minnehaha"],
+  ["Little Rock", "AR", 34.7465, -92.2896, "Pulaski"],
+  ["Jackson", "MS", 32.2988, -90.1848, "Hinds"],
+  ["Montgomery", "AL", 32.3792, -86.3077, "Montgomery"],
+  ["Mobile", "AL", 30.6954, -88.0399, "Mobile"],
+  ["Augusta", "GA", 33.4735, -82.0105, "Richmond"],
+  ["Columbus", "GA", 32.461, -84.9877, "Muscogee"],
+  ["Macon", "GA", 32.8407, -83.6324, "Bibb"],
+  ["Athens", "GA", 33.9519, -83.3576, "Clarke"],
+  ["Dayton", "OH", 39.7589, -84.1916, "Montgomery"],
+  ["Akron", "OH", 41.0814, -81.519, "Summit"],
+  ["Ann Arbor", "MI", 42.2808, -83.743, "Washtenaw"],
+  ["Lansing", "MI", 42.7325, -84.5555, "Ingham"],
+  ["Syracuse", "NY", 43.0481, -76.1474, "Onondaga"],
+  ["Albany", "NY", 42.6526, -73.7562, "Albany"],
+  ["Hartford", "CT", 41.7658, -72.6734, "Hartford"],
+  ["New Haven", "CT", 41.3083, -72.9279, "New Haven"],
+  ["Stamford", "CT", 41.0534, -73.5387, "Fairfield"],
+  ["Bridgeport", "CT", 41.1865, -73.1952, "Fairfield"],
+  ["Cambridge", "MA", 42.3736, -71.1097, "Middlesex"],
+  ["Lowell", "MA", 42.6334, -71.3162, "Middlesex"],
+  ["Manchester", "NH", 42.9956, -71.4548, "Hillsborough"],
+  ["Portland", "ME", 43.6591, -70.2568, "Cumberland"],
+  ["Burlington", "VT", 44.4759, -73.2121, "Chittenden"],
+  ["Wilmington", "DE", 39.7391, -75.5398, "New Castle"],
+  ["Wilmington", "NC", 34.2257, -77.9447, "New Hanover"],
+  ["Harrisburg", "PA", 40.2732, -76.8867, "Dauphin"],
+  ["Allentown", "PA", 40.6084, -75.4902, "Lehigh"],
+  ["Erie", "PA", 42.1292, -80.0851, "Erie"],
+  ["Trenton", "NJ", 40.2206, -74.7597, "Mercer"],
+  ["Annapolis", "MD", 38.9784, -76.4922, "Anne Arundel"],
+  ["Asheville", "NC", 35.5951, -82.5515, "Buncombe"],
+  ["Greenville", "SC", 34.8526, -82.394, "Greenville"],
+  ["Greenville", "NC", 35.6127, -77.3664, "Pitt"],
+  ["Spartanburg", "SC", 34.9496, -81.932, "Spartanburg"],
+  ["Myrtle Beach", "SC", 33.6891, -78.8867, "Horry"],
+  ["Rock Hill", "SC", 34.9249, -81.0251, "York"],
+  ["Mount Pleasant", "SC", 32.7941, -79.8626, "Charleston"],
+  ["Summerville", "SC", 33.0185, -80.1757, "Dorchester"],
+  ["Hilton Head Island", "SC", 32.2163, -80.7526, "Beaufort"],
+  ["Lexington", "SC", 33.9815, -81.2362, "Lexington"],
+  ["Aiken", "SC", 33.5604, -81.7196, "Aiken"],
+  ["Florence", "SC", 34.1954, -79.7626, "Florence"],
+  ["Anderson", "SC", 34.5034, -82.6501, "Anderson"],
+  ["Sumter", "SC", 33.9204, -80.3415, "Sumter"],
+  ["Charleston", "WV", 38.3498, -81.6326, "Kanawha"],
+  ["Pensacola", "FL", 30.4213, -87.2169, "Escambia"],
+  ["Gainesville", "FL", 29.6516, -82.3248, "Alachua"],
+  ["Sarasota", "FL", 27.3364, -82.5307, "Sarasota"],
+  ["Naples", "FL", 26.142, -81.7948, "Collier"],
+  ["Miami Beach", "FL", 25.7907, -80.13, "Miami-Dade"],
+  ["Round Rock", "TX", 30.5083, -97.6789, "Williamson"],
+  ["Waco", "TX", 31.5493, -97.1467, "McLennan"],
+  ["College Station", "TX", 30.628, -96.3344, "Brazos"],
+  ["Boulder", "CO", 40.015, -105.2705, "Boulder"],
+  ["Fort Collins", "CO", 40.5853, -105.0844, "Larimer"],
+  ["Eugene", "OR", 44.0521, -123.0868, "Lane"],
+  ["Salem", "OR", 44.9429, -123.0351, "Marion"],
+  ["Provo", "UT", 40.2338, -111.6585, "Utah"],
+  ["Ogden", "UT", 41.223, -111.9738, "Weber"],
+  ["Olympia", "WA", 47.0379, -122.9007, "Thurston"],
+  ["Flagstaff", "AZ", 35.1983, -111.6513, "Coconino"],
+  ["Santa Fe", "NM", 35.687, -105.9378, "Santa Fe"],
+  ["Las Cruces", "NM", 32.3199, -106.7637, "Dona Ana"],
+  ["Topeka", "KS", 39.0473, -95.6752, "Shawnee"],
+  ["Kansas City", "KS", 39.1141, -94.6275, "Wyandotte"],
+  ["Fayetteville", "AR", 36.0626, -94.1574, "Washington"],
+  ["Fargo", "ND", 46.8772, -96.7898, "Cass"],
+  ["Bismarck", "ND", 46.8083, -100.7837, "Burleigh"],
+  ["Billings", "MT", 45.7833, -108.5007, "Yellowstone"],
+  ["Cheyenne", "WY", 41.14, -104.8202, "Laramie"],
+  ["Juneau", "AK", 58.3019, -134.4197, "Juneau"],
+  ["Santa Monica", "CA", 34.0195, -118.4912, "Los Angeles"],
+  ["Berkeley", "CA", 37.8715, -122.273, "Alameda"],
+  ["Palo Alto", "CA", 37.4419, -122.143, "Santa Clara"],
+  ["Santa Barbara", "CA", 34.4208, -119.6982, "Santa Barbara"],
+  // New York City boroughs, which people search by name
+  ["Manhattan", "NY", 40.7831, -73.9712, "New York"],
+  ["Brooklyn", "NY", 40.6782, -73.9442, "Kings"],
+  ["Queens", "NY", 40.7282, -73.7949, "Queens"],
+  ["Bronx", "NY", 40.8448, -73.8648, "Bronx"],
+  ["Staten Island", "NY", 40.5795, -74.1502, "Richmond"],
+];
+
+export const US_CITIES: GazetteerCity[] = CITY_ROWS.map(([name, state, lat, lng, county]) => ({ name, state, lat, lng, county }));
+
+// Names people use for a city beyond its gazetteer name, keyed and valued
+// in normalizePlaceName form
+const CITY_ALIASES: Record<string, string> = {
+  "nyc": "new york",
+  "new york city": "new york",
+  "sf": "san francisco",
+  "philly": "philadelphia",
+  "vegas": "las vegas",
+  "saint louis": "st louis",
+  "st paul": "saint paul",
+  "saint petersburg": "st petersburg",
+  "washington dc": "washington",
+  "dc": "washington",
+  "the bronx": "bronx",
+};
+
+// Lowercase, without periods or hyphens: "St. Louis" → "st louis",
+// "Winston-Salem" → "winston salem"
+export function normalizePlaceName(name: string): string {
+  const normalized = name.toLowerCase().replace(/\./g, "").replace(/-/g, " ").replace(/\s+/g, " ").trim();
+  return CITY_ALIASES[normalized] ?? normalized;
+}
+
+const CITIES_BY_NAME = new Map<string, GazetteerCity[]>();
+for (const city of US_CITIES) {
+  const key = normalizePlaceName(city.name);
+  CITIES_BY_NAME.set(key, [...(CITIES_BY_NAME.get(key) ?? []), city]);
+}
+
+const COUNTIES = new Map<string, GazetteerCounty>();
+for (const city of US_CITIES) {
+  const key = `${city.county.toLowerCase()}|${city.state}`;
+  if (!COUNTIES.has(key)) COUNTIES.set(key, { name: city.county, state: city.state, lat: city.lat, lng: city.lng });
+}
+
+// Every spelling findCity accepts, for the prompt parser's place lexicon
+export const CITY_NAMES: string[] = [...new Set([...CITIES_BY_NAME.keys(), ...Object.keys(CITY_ALIASES)])];
+
+// A city by name, in `state` when given, otherwise the largest of that name
+export function findCity(name: string, state?: string): GazetteerCity | null {
+  const candidates = CITIES_BY_NAME.get(normalizePlaceName(name)) ?? [];
+  if (state) return candidates.find(city => city.state === state.toUpperCase()) ?? null;
+  return candidates[0] ?? null;
+}
+
+export function findCounty(name: string, state: string): GazetteerCounty | null {
+  const bare = name.toLowerCase().replace(/\s+(county|parish|borough)$/, "").trim();
+  return COUNTIES.get(`${bare}|${state.toUpperCase()}`) ?? null;
+}
+
+export function stateForZip(zip: string): string | null {
+  if (!/^\d{5}$/.test(zip)) return null;
+  const prefix = Number(zip.slice(0, 3));
+  return ZIP_PREFIXES.find(([low, high]) => prefix >= low && prefix <= high)?.[2] ?? null;
+}
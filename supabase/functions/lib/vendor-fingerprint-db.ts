@@ -0,0 +1,187 @@
+// supabase/functions/lib/vendor-fingerprint-db.ts
+// Built-in vendor fingerprints used by every website detector (search
+// pipeline, website-auditor, SimpleWebsiteAnalyzer). Patterns are
+// case-insensitive regex sources; see vendor-fingerprints.ts for the format.
+// Add vendors here, or as custom fingerprints from the dashboard.
+
+import type { VendorFingerprint } from "./vendor-fingerprints.ts";
+
+export const BUILT_IN_FINGERPRINTS: VendorFingerprint[] = [
+  // Online booking
+  { id: "calendly", name: "Calendly", category: "booking", confidence: 0.95, website: "https://calendly.com",
+    scriptSrc: ["assets\\.calendly\\.com"], html: ["calendly\\.com/[\\w-]+"], dom: ["div.calendly-inline-widget", "a[href*=\"calendly.com/\"]"] },
+  { id: "acuity", name: "Acuity Scheduling", category: "booking", confidence: 0.95,
+    scriptSrc: ["embed\\.acuityscheduling\\.com"], html: ["[\\w-]+\\.as\\.me\\b", "acuityscheduling\\.com/schedule"], dom: ["iframe[src*=\"acuityscheduling.com\"]"] },
+  { id: "square-appointments", name: "Square Appointments", category: "booking", confidence: 0.95,
+    html: ["squareup\\.com/appointments", "book\\.squareup\\.com"] },
+  { id: "housecall-pro", name: "Housecall Pro", category: "booking", confidence: 0.95,
+    scriptSrc: ["online-booking\\.housecallpro\\.com"], html: ["book\\.housecallpro\\.com", "housecallpro\\.com/book"] },
+  { id: "servicetitan", name: "ServiceTitan Scheduler", category: "booking", confidence: 0.9,
+    scriptSrc: ["static\\.servicetitan\\.com", "embed\\.scheduler\\.servicetitan\\.com"], html: ["scheduler\\.servicetitan\\.com"] },
+  { id: "scheduleengine", name: "Schedule Engine", category: "booking", confidence: 0.95,
+    scriptSrc: ["scheduleengine\\.(net|io|com)"], dom: ["[data-se-widget]"] },
+  { id: "setmore", name: "Setmore", category: "booking", confidence: 0.95,
+    scriptSrc: ["setmore\\.com"], html: ["booking\\.setmore\\.com", "[\\w-]+\\.setmore\\.com"] },
+  { id: "thryv", name: "Thryv", category: "booking", confidence: 0.85,
+    scriptSrc: ["thryv\\.com"], html: ["go\\.thryv\\.com", "thryv\\.com/app/"] },
+  { id: "workiz", name: "Workiz", category: "booking", confidence: 0.9,
+    scriptSrc: ["workiz\\.com"], html: ["online-booking\\.workiz\\.com"] },
+  { id: "nexhealth", name: "NexHealth", category: "booking", confidence: 0.95,
+    scriptSrc: ["nexhealth\\.com"], html: ["app\\.nexhealth\\.com/(appt|book)"] },
+  { id: "zocdoc", name: "Zocdoc", category: "booking", confidence: 0.9,
+    scriptSrc: ["offsiteschedule\\.zocdoc\\.com"], html: ["zocdoc\\.com/(practice|doctor)/"] },
+  { id: "localmed", name: "LocalMed", category: "booking", confidence: 0.95,
+    scriptSrc: ["localmed\\.com"], html: ["app\\.localmed\\.com"] },
+  { id: "doctible", name: "Doctible", category: "booking", confidence: 0.9,
+    scriptSrc: ["doctible\\.com"], html: ["app\\.doctible\\.com"] },
+  { id: "mindbody", name: "Mindbody", category: "booking", confidence: 0.95,
+    scriptSrc: ["widgets\\.mindbodyonline\\.com", "brandedweb\\.mindbodyonline\\.com"], html: ["clients\\.mindbodyonline\\.com"] },
+  { id: "jane", name: "Jane App", category: "booking", confidence: 0.95,
+    html: ["[\\w-]+\\.janeapp\\.com", "jane\\.app/"] },
+  { id: "tebra", name: "Tebra", category: "booking", confidence: 0.9,
+    scriptSrc: ["tebra\\.com"], html: ["(patientportal|book)\\.tebra\\.com", "d2oe5mslbclbtd\\.cloudfront\\.net"] },
+  { id: "jobber", name: "Jobber", category: "booking", confidence: 0.95,
+    scriptSrc: ["d3ey4dbjkt2f6s\\.cloudfront\\.net", "getjobber\\.com"], html: ["clienthub\\.getjobber\\.com"] },
+  { id: "bookedin", name: "Bookedin", category: "booking", confidence: 0.95, html: ["bookedin\\.com/book"] },
+  { id: "appointy", name: "Appointy", category: "booking", confidence: 0.95, html: ["[\\w-]+\\.appointy\\.com", "booking\\.appointy\\.com"] },
+  { id: "simplybook", name: "SimplyBook.me", category: "booking", confidence: 0.95,
+    scriptSrc: ["simplybook\\.(me|it)"], html: ["[\\w-]+\\.simplybook\\.(me|it)"] },
+
+  // Chat widgets
+  { id: "intercom", name: "Intercom", category: "chatbot", confidence: 0.95,
+    scriptSrc: ["widget\\.intercom\\.io", "js\\.intercomcdn\\.com"], html: ["window\\.intercomSettings"] },
+  { id: "drift", name: "Drift", category: "chatbot", confidence: 0.95,
+    scriptSrc: ["js\\.driftt\\.com"], html: ["drift\\.load\\(", "js\\.driftt\\.com"] },
+  { id: "tidio", name: "Tidio", category: "chatbot", confidence: 0.95, scriptSrc: ["code\\.tidio\\.co"] },
+  { id: "crisp", name: "Crisp", category: "chatbot", confidence: 0.95,
+    scriptSrc: ["client\\.crisp\\.chat"], html: ["\\$crisp\\s*=", "CRISP_WEBSITE_ID"] },
+  { id: "livechat", name: "LiveChat", category: "chatbot", confidence: 0.95,
+    scriptSrc: ["cdn\\.livechatinc\\.com"], html: ["__lc\\.license"] },
+  { id: "zendesk-chat", name: "Zendesk Chat", category: "chatbot", confidence: 0.95,
+    scriptSrc: ["static\\.zdassets\\.com/ekr/snippet", "v2\\.zopim\\.com"], html: ["\\$zopim"] },
+  { id: "hubspot-chat", name: "HubSpot Chat", category: "chatbot", confidence: 0.9,
+    scriptSrc: ["js\\.usemessages\\.com"], html: ["hubspot/js/hs-chat", "hubspot-messages-iframe"] },
+  { id: "botpress", name: "Botpress", category: "chatbot", confidence: 0.95, scriptSrc: ["cdn\\.botpress\\.cloud", "mediafiles\\.botpress\\.cloud"] },
+  { id: "manychat", name: "ManyChat", category: "chatbot", confidence: 0.9, scriptSrc: ["widget\\.manychat\\.com"] },
+  { id: "smartsupp", name: "Smartsupp", category: "chatbot", confidence: 0.95, scriptSrc: ["smartsuppchat\\.com"], html: ["_smartsupp\\.key"] },
+  { id: "tawk", name: "tawk.to", category: "chatbot", confidence: 0.95, scriptSrc: ["embed\\.tawk\\.to"], html: ["Tawk_API"] },
+  { id: "freshchat", name: "Freshchat", category: "chatbot", confidence: 0.95, scriptSrc: ["wchat\\.freshchat\\.com"], html: ["window\\.fcWidget"] },
+  { id: "olark", name: "Olark", category: "chatbot", confidence: 0.95, scriptSrc: ["static\\.olark\\.com"], html: ["olark\\.identify\\("] },
+  { id: "podium", name: "Podium Webchat", category: "chatbot", confidence: 0.95, scriptSrc: ["connect\\.podium\\.com"] },
+  { id: "birdeye-chat", name: "Birdeye Webchat", category: "chatbot", confidence: 0.9, scriptSrc: ["birdeye\\.com/embed"] },
+
+  // Payments
+  { id: "stripe", name: "Stripe", category: "payment_processors", confidence: 0.95,
+    scriptSrc: ["js\\.stripe\\.com"], html: ["buy\\.stripe\\.com/", "checkout\\.stripe\\.com"] },
+  { id: "paypal", name: "PayPal", category: "payment_processors", confidence: 0.9,
+    scriptSrc: ["paypal\\.com/sdk/js", "paypalobjects\\.com"], html: ["paypal\\.com/(cgi-bin/webscr|donate|paypalme)", "paypal\\.me/"] },
+  { id: "square", name: "Square", category: "payment_processors", confidence: 0.95,
+    scriptSrc: ["js\\.squareup(sandbox)?\\.com", "web\\.squarecdn\\.com"], html: ["square\\.link/", "checkout\\.square\\.site"] },
+  { id: "authorize-net", name: "Authorize.Net", category: "payment_processors", confidence: 0.95,
+    scriptSrc: ["js\\.authorize\\.net", "jstest\\.authorize\\.net"], html: ["accept\\.authorize\\.net"] },
+  { id: "braintree", name: "Braintree", category: "payment_processors", confidence: 0.95, scriptSrc: ["js\\.braintreegateway\\.com"] },
+  { id: "venmo", name: "Venmo", category: "payment_processors", confidence: 0.7, html: ["venmo\\.com/(u/)?[\\w-]+", "@venmo"] },
+  { id: "cash-app", name: "Cash App", category: "payment_processors", confidence: 0.7, html: ["cash\\.app/\\$[\\w-]+"] },
+  { id: "zelle", name: "Zelle", category: "payment_processors", confidence: 0.6, html: ["\\bpay (with|via|by) zelle\\b", "zellepay\\.com"] },
+  { id: "quickbooks-payments", name: "QuickBooks Payments", category: "payment_processors", confidence: 0.9,
+    html: ["quickbooks/payments", "connect\\.intuit\\.com/portal", "ipn\\.intuit\\.com"] },
+
+  // CRM
+  { id: "salesforce", name: "Salesforce", category: "crm", confidence: 0.85,
+    html: ["webto\\.salesforce\\.com", "\\.my\\.salesforce\\.com", "force\\.com/servlet/servlet\\.WebToLead"] },
+  { id: "hubspot", name: "HubSpot", category: "crm", confidence: 0.95,
+    scriptSrc: ["js\\.hs-scripts\\.com", "js\\.hsforms\\.net", "js\\.hs-analytics\\.net"], cookies: { hubspotutk: "" } },
+  { id: "pipedrive", name: "Pipedrive", category: "crm", confidence: 0.9, scriptSrc: ["webforms\\.pipedrive\\.com", "leadbooster-chat\\.pipedrive\\.com"] },
+  { id: "zoho", name: "Zoho CRM", category: "crm", confidence: 0.85, scriptSrc: ["salesiq\\.zoho\\.com", "crm\\.zoho\\.com"], html: ["crm\\.zoho\\.com/crm/WebToLeadForm"] },
+  { id: "monday", name: "monday.com", category: "crm", confidence: 0.8, html: ["forms\\.monday\\.com/forms/"] },
+  { id: "freshworks", name: "Freshworks CRM", category: "crm", confidence: 0.85, scriptSrc: ["freshworks\\.com", "myfreshworks\\.com"] },
+  { id: "insightly", name: "Insightly", category: "crm", confidence: 0.85, html: ["insightly\\.services/Forms", "insightlywebforms"] },
+  { id: "copper", name: "Copper", category: "crm", confidence: 0.8, html: ["app\\.copper\\.com/forms"] },
+  { id: "keap", name: "Keap", category: "crm", confidence: 0.9, scriptSrc: ["infusionsoft\\.(com|app)", "keap\\.app"], html: ["\\.infusionsoft\\.com/app/form"] },
+  { id: "activecampaign", name: "ActiveCampaign", category: "crm", confidence: 0.9, scriptSrc: ["activehosted\\.com", "trackcmp\\.net"] },
+
+  // Marketing automation
+  { id: "mailchimp", name: "Mailchimp", category: "marketing_automation", confidence: 0.95,
+    scriptSrc: ["chimpstatic\\.com", "list-manage\\.com"], html: ["list-manage\\.com/subscribe", "mc-embedded-subscribe"] },
+  { id: "constant-contact", name: "Constant Contact", category: "marketing_automation", confidence: 0.95,
+    scriptSrc: ["static\\.ctctcdn\\.com"], html: ["constantcontact\\.com/(signup|manage)", "ctct-inline-form"] },
+  { id: "brevo", name: "Brevo (Sendinblue)", category: "marketing_automation", confidence: 0.9, scriptSrc: ["sibforms\\.com", "sendinblue\\.com", "brevo\\.com"] },
+  { id: "klaviyo", name: "Klaviyo", category: "marketing_automation", confidence: 0.95, scriptSrc: ["static\\.klaviyo\\.com"] },
+  { id: "getresponse", name: "GetResponse", category: "marketing_automation", confidence: 0.9, scriptSrc: ["getresponse\\.com"], html: ["app\\.getresponse\\.com/site2/"] },
+  { id: "aweber", name: "AWeber", category: "marketing_automation", confidence: 0.9, scriptSrc: ["forms\\.aweber\\.com"] },
+  { id: "convertkit", name: "ConvertKit", category: "marketing_automation", confidence: 0.9, scriptSrc: ["convertkit\\.com", "ck\\.page"] },
+  { id: "drip", name: "Drip", category: "marketing_automation", confidence: 0.9, scriptSrc: ["tag\\.getdrip\\.com"] },
+  { id: "marketo", name: "Marketo", category: "marketing_automation", confidence: 0.95, scriptSrc: ["munchkin\\.marketo\\.net"], html: ["MktoForms2\\.loadForm"] },
+
+  // Analytics
+  { id: "google-analytics", name: "Google Analytics", category: "analytics", confidence: 0.95,
+    scriptSrc: ["google-analytics\\.com/(analytics|ga)\\.js", "googletagmanager\\.com/gtag/js"], html: ["gtag\\(\\s*['\"]config['\"]\\s*,\\s*['\"](G|UA)-"], cookies: { _ga: "" } },
+  { id: "google-tag-manager", name: "Google Tag Manager", category: "analytics", confidence: 0.95,
+    scriptSrc: ["googletagmanager\\.com/gtm\\.js"], html: ["googletagmanager\\.com/ns\\.html\\?id=GTM-"] },
+  { id: "facebook-pixel", name: "Facebook Pixel", category: "analytics", confidence: 0.95,
+    scriptSrc: ["connect\\.facebook\\.net/[\\w_]+/fbevents\\.js"], html: ["fbq\\(\\s*['\"]init['\"]"] },
+  { id: "mixpanel", name: "Mixpanel", category: "analytics", confidence: 0.95, scriptSrc: ["cdn\\.mxpnl\\.com", "mixpanel\\.com/libs"] },
+  { id: "segment", name: "Segment", category: "analytics", confidence: 0.95, scriptSrc: ["cdn\\.segment\\.(com|io)/analytics\\.js"] },
+  { id: "amplitude", name: "Amplitude", category: "analytics", confidence: 0.95, scriptSrc: ["cdn\\.amplitude\\.com"] },
+  { id: "heap", name: "Heap", category: "analytics", confidence: 0.95, scriptSrc: ["cdn\\.heapanalytics\\.com"] },
+  { id: "hotjar", name: "Hotjar", category: "analytics", confidence: 0.95, scriptSrc: ["static\\.hotjar\\.com"], html: ["hjid\\s*:"] },
+  { id: "microsoft-clarity", name: "Microsoft Clarity", category: "analytics", confidence: 0.95, scriptSrc: ["clarity\\.ms/tag"], html: ["clarity\\.ms/tag"] },
+  { id: "fullstory", name: "FullStory", category: "analytics", confidence: 0.95, scriptSrc: ["fullstory\\.com/s/fs\\.js"], html: ["window\\['_fs_org'\\]"] },
+  { id: "mouseflow", name: "Mouseflow", category: "analytics", confidence: 0.95, scriptSrc: ["cdn\\.mouseflow\\.com"] },
+
+  // Security and infrastructure
+  { id: "cloudflare", name: "Cloudflare", category: "security", confidence: 0.95,
+    headers: { server: "^cloudflare$", "cf-ray": "" }, cookies: { __cf_bm: "" }, scriptSrc: ["cdnjs\\.cloudflare\\.com", "challenges\\.cloudflare\\.com"] },
+  { id: "sucuri", name: "Sucuri", category: "security", confidence: 0.95, headers: { "x-sucuri-id": "", server: "^Sucuri" } },
+  { id: "wordfence", name: "Wordfence", category: "security", confidence: 0.85, html: ["wordfence_lh", "wp-content/plugins/wordfence"] },
+  { id: "sitelock", name: "SiteLock", category: "security", confidence: 0.9, html: ["seal\\.sitelock\\.com", "sitelock\\.com/verify"] },
+
+  // Social profiles
+  { id: "facebook", name: "Facebook", category: "social_media", confidence: 0.9, dom: ["a[href*=\"facebook.com/\"]"] },
+  { id: "instagram", name: "Instagram", category: "social_media", confidence: 0.9, dom: ["a[href*=\"instagram.com/\"]"] },
+  { id: "twitter", name: "X (Twitter)", category: "social_media", confidence: 0.9, dom: ["a[href*=\"twitter.com/\"]", "a[href*=\"//x.com/\"]"] },
+  { id: "linkedin", name: "LinkedIn", category: "social_media", confidence: 0.9, dom: ["a[href*=\"linkedin.com/company/\"]", "a[href*=\"linkedin.com/in/\"]"] },
+  { id: "youtube", name: "YouTube", category: "social_media", confidence: 0.9, dom: ["a[href*=\"youtube.com/\"]", "iframe[src*=\"youtube.com/embed\"]"] },
+  { id: "tiktok", name: "TikTok", category: "social_media", confidence: 0.9, dom: ["a[href*=\"tiktok.com/@\"]"] },
+  { id: "pinterest", name: "Pinterest", category: "social_media", confidence: 0.9, dom: ["a[href*=\"pinterest.com/\"]"] },
+
+  // Review platforms
+  { id: "yelp", name: "Yelp", category: "review_platforms", confidence: 0.9, dom: ["a[href*=\"yelp.com/biz/\"]"], scriptSrc: ["yelp\\.com/embed"] },
+  { id: "tripadvisor", name: "Tripadvisor", category: "review_platforms", confidence: 0.9, dom: ["a[href*=\"tripadvisor.com/\"]"], scriptSrc: ["jscache\\.com/wejs"] },
+  { id: "glassdoor", name: "Glassdoor", category: "review_platforms", confidence: 0.85, dom: ["a[href*=\"glassdoor.com/\"]"] },
+  { id: "trustpilot", name: "Trustpilot", category: "review_platforms", confidence: 0.95, scriptSrc: ["widget\\.trustpilot\\.com"], dom: ["div.trustpilot-widget"] },
+  { id: "g2", name: "G2", category: "review_platforms", confidence: 0.85, dom: ["a[href*=\"g2.com/products/\"]"] },
+  { id: "capterra", name: "Capterra", category: "review_platforms", confidence: 0.85, dom: ["a[href*=\"capterra.com/\"]"], scriptSrc: ["capterra\\.com"] },
+  { id: "bbb", name: "Better Business Bureau", category: "review_platforms", confidence: 0.9, dom: ["a[href*=\"bbb.org/\"]"], scriptSrc: ["seal-\\w+\\.bbb\\.org"] },
+  { id: "angi", name: "Angi", category: "review_platforms", confidence: 0.85, dom: ["a[href*=\"angi.com/\"]", "a[href*=\"angieslist.com/\"]"] },
+
+  // E-commerce
+  { id: "shopify", name: "Shopify", category: "ecommerce", confidence: 0.95,
+    scriptSrc: ["cdn\\.shopify\\.com"], html: ["Shopify\\.shop\\s*="], headers: { "x-shopid": "", "x-shopify-stage": "" } },
+  { id: "woocommerce", name: "WooCommerce", category: "ecommerce", confidence: 0.95,
+    scriptSrc: ["wp-content/plugins/woocommerce"], dom: ["body.woocommerce", "meta[name=\"generator\"][content*=\"WooCommerce\"]"] },
+  { id: "bigcommerce", name: "BigCommerce", category: "ecommerce", confidence: 0.95, scriptSrc: ["bigcommerce\\.com"], html: ["cdn\\d*\\.bigcommerce\\.com"] },
+  { id: "magento", name: "Magento", category: "ecommerce", confidence: 0.9, html: ["Mage\\.Cookies", "/static/version\\d+/frontend/"], cookies: { "mage-cache-storage": "" } },
+  { id: "squarespace-commerce", name: "Squarespace Commerce", category: "ecommerce", confidence: 0.85, html: ["squarespace-commerce", "sqs-add-to-cart-button"] },
+  { id: "wix-stores", name: "Wix Stores", category: "ecommerce", confidence: 0.85, html: ["wixstores", "wix-stores"] },
+
+  // Site builders and CMS
+  { id: "wordpress", name: "WordPress", category: "cms", confidence: 0.95,
+    html: ["/wp-content/", "/wp-includes/"], meta: { generator: "^WordPress" } },
+  { id: "wix", name: "Wix", category: "cms", confidence: 0.95,
+    scriptSrc: ["static\\.parastorage\\.com"], meta: { generator: "Wix\\.com" }, headers: { "x-wix-request-id": "" } },
+  { id: "squarespace", name: "Squarespace", category: "cms", confidence: 0.95,
+    scriptSrc: ["static1\\.squarespace\\.com", "assets\\.squarespace\\.com"], html: ["<!-- This is Squarespace\\. -->"] },
+  { id: "webflow", name: "Webflow", category: "cms", confidence: 0.95, meta: { generator: "^Webflow" }, html: ["data-wf-site="] },
+  { id: "godaddy-builder", name: "GoDaddy Website Builder", category: "cms", confidence: 0.9, meta: { generator: "Go Daddy|GoDaddy|Starfield" }, scriptSrc: ["img1\\.wsimg\\.com"] },
+  { id: "drupal", name: "Drupal", category: "cms", confidence: 0.95, meta: { generator: "^Drupal" }, headers: { "x-generator": "^Drupal" } },
+  { id: "joomla", name: "Joomla", category: "cms", confidence: 0.95, meta: { generator: "^Joomla" } },
+  { id: "duda", name: "Duda", category: "cms", confidence: 0.9, scriptSrc: ["irp\\.cdn-website\\.com", "static\\.cdn-website\\.com"] },
+
+  // Front-end frameworks
+  { id: "react", name: "React", category: "framework", confidence: 0.8, html: ["data-reactroot", "__REACT_DEVTOOLS_GLOBAL_HOOK__"], scriptSrc: ["react(\\.production)?\\.min\\.js"] },
+  { id: "nextjs", name: "Next.js", category: "framework", confidence: 0.95, html: ["id=\"__NEXT_DATA__\""], headers: { "x-powered-by": "^Next\\.js" } },
+  { id: "vue", name: "Vue.js", category: "framework", confidence: 0.8, html: ["data-v-[0-9a-f]{8}"], scriptSrc: ["vue(\\.runtime)?(\\.global)?(\\.min)?\\.js"] },
+  { id: "angular", name: "Angular", category: "framework", confidence: 0.85, html: ["ng-version=\"", "ng-app="] },
+  { id: "jquery", name: "jQuery", category: "framework", confidence: 0.9, scriptSrc: ["jquery[.-]?(\\d+\\.)*(min\\.)?js"] },
+];
@@ -0,0 +1,328 @@
+// supabase/functions/lib/vendor-fingerprints.ts
+// Wappalyzer-style technology detection. A fingerprint describes a vendor by
+// where it leaves traces on a page (script src URLs, HTML, simple DOM
+// selectors, response headers, cookies, meta tags) instead of a bare
+// substring, so "square" in a paragraph about square footage is not a
+// payment processor. The built-in database lives in vendor-fingerprint-db.ts;
+// custom fingerprints are stored in the vendor_fingerprints table. Pure TS so
+// Deno and Vite can both import it.
+
+import { BUILT_IN_FINGERPRINTS } from "./vendor-fingerprint-db.ts";
+
+// Categories double as signal types (has_<category>), so they keep the names
+// the pipeline has always emitted
+export const FINGERPRINT_CATEGORIES = [
+  "booking",
+  "chatbot",
+  "payment_processors",
+  "crm",
+  "marketing_automation",
+  "analytics",
+  "security",
+  "social_media",
+  "review_platforms",
+  "ecommerce",
+  "cms",
+  "framework",
+] as const;
+
+export type FingerprintCategory = typeof FINGERPRINT_CATEGORIES[number];
+
+// A regex source, or one with its own confidence when weaker than the fingerprint's
+export type FingerprintPattern = string | { pattern: string; confidence: number };
+
+export type VendorFingerprint = {
+  id: string;
+  name: string;
+  category: FingerprintCategory;
+  confidence: number; // 0-1, for a match on a pattern without its own confidence
+  website?: string;
+  scriptSrc?: FingerprintPattern[];
+  html?: FingerprintPattern[];
+  // Simple selectors: tag, #id, .class and [attr], [attr=v], [attr*=v], [attr^=v], [attr$=v]
+  dom?: string[];
+  headers?: Record<string, FingerprintPattern>;
+  cookies?: Record<string, FingerprintPattern>;
+  meta?: Record<string, FingerprintPattern>;
+};
+
+export type FingerprintEvidenceKind = "scriptSrc" | "html" | "dom" | "header" | "cookie" | "meta";
+
+export type FingerprintEvidence = {
+  kind: FingerprintEvidenceKind;
+  pattern: string;
+  snippet: string;
+  // Exact text matched in the page HTML, when the match came from the HTML
+  matched?: string;
+  confidence: number;
+};
+
+export type VendorMatch = {
+  id: string;
+  name: string;
+  category: FingerprintCategory;
+  confidence: number;
+  evidence: FingerprintEvidence[];
+};
+
+export type PageSnapshot = {
+  url?: string;
+  html: string;
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+};
+
+type ParsedTag = { tag: string; attrs: Record<string, string>; raw: string; index: number };
+
+type ParsedPage = {
+  html: string;
+  tags: ParsedTag[];
+  scripts: string[];
+  meta: Record<string, string>;
+  headers: Record<string, string>;
+  cookies: Record<string, string>;
+};
+
+const regexCache = new Map<string, RegExp | null>();
+
+function compile(source: string): RegExp | null {
+  if (!regexCache.has(source)) {
+    try {
+      regexCache.set(source, new RegExp(source, "i"));
+    } catch {
+      regexCache.set(source, null);
+    }
+  }
+  return regexCache.get(source)!;
+}
+
+function patternSource(pattern: FingerprintPattern): string {
+  return typeof pattern === "string" ? pattern : pattern.pattern;
+}
+
+function patternConfidence(pattern: FingerprintPattern, fallback: number): number {
+  return typeof pattern === "string" ? fallback : pattern.confidence;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of raw.matchAll(/([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    attrs[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? "";
+  }
+  return attrs;
+}
+
+export function parseCookieHeader(setCookie: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  // Several Set-Cookie headers arrive joined by ", "; split before each name=
+  for (const cookie of setCookie.split(/,\s*(?=[^;,=\s]+=)/)) {
+    const [pair] = cookie.split(";");
+    const separator = pair.indexOf("=");
+    if (separator > 0) cookies[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+  }
+  return cookies;
+}
+
+function parseTags(html: string): ParsedTag[] {
+  const tags: ParsedTag[] = [];
+  for (const match of html.matchAll(/<([a-z][a-z0-9-]*)(\s[^>]*)?>/gi)) {
+    tags.push({ tag: match[1].toLowerCase(), attrs: parseAttributes(match[2] ?? ""), raw: match[0], index: match.index ?? 0 });
+  }
+  return tags;
+}
+
+function parsePage(snapshot: PageSnapshot): ParsedPage {
+  const tags = parseTags(snapshot.html);
+
+  const meta: Record<string, string> = {};
+  for (const tag of tags) {
+    if (tag.tag !== "meta") continue;
+    const key = tag.attrs.name ?? tag.attrs.property ?? tag.attrs["http-equiv"];
+    if (key && tag.attrs.content !== undefined) meta[key.toLowerCase()] = tag.attrs.content;
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(snapshot.headers ?? {})) headers[name.toLowerCase()] = value;
+
+  return {
+    html: snapshot.html,
+    tags,
+    scripts: tags.filter((tag) => tag.tag === "script" && tag.attrs.src).map((tag) => tag.attrs.src),
+    meta,
+    headers,
+    cookies: snapshot.cookies ?? (headers["set-cookie"] ? parseCookieHeader(headers["set-cookie"]) : {}),
+  };
+}
+
+type SelectorPart = { tag?: string; id?: string; classes: string[]; attrs: Array<{ name: string; op?: string; value?: string }> };
+
+function parseSelector(selector: string): SelectorPart | null {
+  const trimmed = selector.trim();
+  // Only compound selectors; combinators need a real DOM
+  if (!trimmed || /[\s>+~,]/.test(trimmed.replace(/\[[^\]]*\]/g, ""))) return null;
+
+  const part: SelectorPart = { classes: [], attrs: [] };
+  const tagMatch = trimmed.match(/^[a-z][a-z0-9-]*/i);
+  if (tagMatch) part.tag = tagMatch[0].toLowerCase();
+
+  for (const match of trimmed.matchAll(/#([\w-]+)|\.([\w-]+)|\[\s*([\w:-]+)\s*(?:([*^$]?=)\s*["']?([^"'\]]*)["']?)?\s*\]/g)) {
+    if (match[1]) part.id = match[1];
+    else if (match[2]) part.classes.push(match[2]);
+    else part.attrs.push({ name: match[3].toLowerCase(), op: match[4], value: match[5] });
+  }
+  return part;
+}
+
+function tagMatches(tag: ParsedTag, part: SelectorPart): boolean {
+  if (part.tag && tag.tag !== part.tag) return false;
+  if (part.id && tag.attrs.id !== part.id) return false;
+  const classes = (tag.attrs.class ?? "").split(/\s+/);
+  if (part.classes.some((name) => !classes.includes(name))) return false;
+
+  return part.attrs.every(({ name, op, value = "" }) => {
+    const actual = tag.attrs[name];
+    if (actual === undefined) return false;
+    const a = actual.toLowerCase();
+    const v = value.toLowerCase();
+    switch (op) {
+      case undefined: return true;
+      case "=": return a === v;
+      case "*=": return a.includes(v);
+      case "^=": return a.startsWith(v);
+      case "$=": return a.endsWith(v);
+      default: return false;
+    }
+  });
+}
+
+function excerpt(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - 30);
+  return text.slice(start, Math.min(text.length, index + length + 30)).replace(/\s+/g, " ").trim();
+}
+
+function matchRecord(
+  values: Record<string, string>,
+  patterns: Record<string, FingerprintPattern> | undefined,
+  kind: FingerprintEvidenceKind,
+  fallback: number,
+): FingerprintEvidence[] {
+  const evidence: FingerprintEvidence[] = [];
+  for (const [key, pattern] of Object.entries(patterns ?? {})) {
+    const value = values[key.toLowerCase()] ?? values[key];
+    if (value === undefined) continue;
+    const source = patternSource(pattern);
+    // An empty pattern only asks for the header/cookie/meta to be present
+    if (source === "" || compile(source)?.test(value)) {
+      evidence.push({ kind, pattern: `${key}: ${source}`, snippet: `${key}: ${value}`.slice(0, 160), confidence: patternConfidence(pattern, fallback) });
+    }
+  }
+  return evidence;
+}
+
+function matchFingerprint(page: ParsedPage, fingerprint: VendorFingerprint): VendorMatch | null {
+  const evidence: FingerprintEvidence[] = [];
+  const fallback = fingerprint.confidence;
+
+  for (const pattern of fingerprint.scriptSrc ?? []) {
+    const regex = compile(patternSource(pattern));
+    const src = regex && page.scripts.find((candidate) => regex.test(candidate));
+    if (src) evidence.push({ kind: "scriptSrc", pattern: patternSource(pattern), snippet: src.slice(0, 160), matched: src, confidence: patternConfidence(pattern, fallback) });
+  }
+
+  for (const pattern of fingerprint.html ?? []) {
+    const match = compile(patternSource(pattern))?.exec(page.html);
+    if (match) {
+      evidence.push({
+        kind: "html",
+        pattern: patternSource(pattern),
+        snippet: excerpt(page.html, match.index, match[0].length),
+        matched: match[0],
+        confidence: patternConfidence(pattern, fallback),
+      });
+    }
+  }
+
+  for (const selector of fingerprint.dom ?? []) {
+    const part = parseSelector(selector);
+    const tag = part && page.tags.find((candidate) => tagMatches(candidate, part));
+    if (tag) evidence.push({ kind: "dom", pattern: selector, snippet: tag.raw.slice(0, 160), matched: tag.raw, confidence: fallback });
+  }
+
+  evidence.push(
+    ...matchRecord(page.headers, fingerprint.headers, "header", fallback),
+    ...matchRecord(page.cookies, fingerprint.cookies, "cookie", fallback),
+    ...matchRecord(page.meta, fingerprint.meta, "meta", fallback),
+  );
+
+  if (evidence.length === 0) return null;
+
+  // Independent traces reinforce each other, but never beyond 0.99
+  const confidence = 1 - evidence.reduce((remaining, entry) => remaining * (1 - entry.confidence), 1);
+  return {
+    id: fingerprint.id,
+    name: fingerprint.name,
+    category: fingerprint.category,
+    confidence: Math.min(0.99, Math.round(confidence * 100) / 100),
+    evidence,
+  };
+}
+
+// Offsets of the start tags a selector matches, for highlighting stored snapshots
+export function locateSelector(html: string, selector: string): Array<{ start: number; end: number }> {
+  const part = parseSelector(selector);
+  if (!part) return [];
+  return parseTags(html)
+    .filter((tag) => tagMatches(tag, part))
+    .map((tag) => ({ start: tag.index, end: tag.index + tag.raw.length }));
+}
+
+// All vendors detected on a page, strongest first
+export function detectVendors(
+  snapshot: PageSnapshot,
+  fingerprints: VendorFingerprint[] = BUILT_IN_FINGERPRINTS,
+  categories?: FingerprintCategory[],
+): VendorMatch[] {
+  const page = parsePage(snapshot);
+  const matches: VendorMatch[] = [];
+  for (const fingerprint of fingerprints) {
+    if (categories && !categories.includes(fingerprint.category)) continue;
+    const match = matchFingerprint(page, fingerprint);
+    if (match) matches.push(match);
+  }
+  return matches.sort((a, b) => b.confidence - a.confidence);
+}
+
+// Custom fingerprints replace built-ins with the same id
+export function mergeFingerprints(custom: VendorFingerprint[], builtIn: VendorFingerprint[] = BUILT_IN_FINGERPRINTS): VendorFingerprint[] {
+  const byId = new Map(builtIn.map((fingerprint) => [fingerprint.id, fingerprint]));
+  for (const fingerprint of custom) byId.set(fingerprint.id, fingerprint);
+  return [...byId.values()];
+}
+
+// Problems that would make a fingerprint useless or never match; empty when valid
+export function validateFingerprint(fingerprint: Partial<VendorFingerprint>): string[] {
+  const problems: string[] = [];
+  if (!fingerprint.id || !/^[a-z0-9_-]+$/.test(fingerprint.id)) problems.push("id must be lowercase letters, digits, '-' or '_'");
+  if (!fingerprint.name) problems.push("name is required");
+  if (!fingerprint.category || !FINGERPRINT_CATEGORIES.includes(fingerprint.category)) problems.push("category is not a known category");
+  if (typeof fingerprint.confidence !== "number" || fingerprint.confidence <= 0 || fingerprint.confidence > 1) {
+    problems.push("confidence must be between 0 and 1");
+  }
+
+  const patterns = [
+    ...(fingerprint.scriptSrc ?? []),
+    ...(fingerprint.html ?? []),
+    ...Object.values(fingerprint.headers ?? {}),
+    ...Object.values(fingerprint.cookies ?? {}),
+    ...Object.values(fingerprint.meta ?? {}),
+  ];
+  for (const pattern of patterns) {
+    if (compile(patternSource(pattern)) === null) problems.push(`invalid regex: ${patternSource(pattern)}`);
+  }
+  for (const selector of fingerprint.dom ?? []) {
+    if (!parseSelector(selector)) problems.push(`unsupported selector: ${selector}`);
+  }
+  if (patterns.length === 0 && (fingerprint.dom ?? []).length === 0) problems.push("at least one pattern is required");
+
+  return problems;
+}
@@ -0,0 +1,113 @@
+// supabase/functions/lib/vertical-store.ts
+// Loads the vertical taxonomy searches should use: the built-in verticals
+// with enabled rows from the verticals table overlaid by id. Cached per
+// isolate for a few minutes so every fetch and score task doesn't query it.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { BUILT_IN_VERTICALS, mergeVerticals, validateVertical, VerticalDefinition } from "./verticals.ts";
+
+export type StoredVertical = {
+  vertical: VerticalDefinition;
+  enabled: boolean;
+  built_in: boolean;
+  custom: boolean; // a row exists (possibly overriding a built-in)
+  updated_at?: string;
+};
+
+type VerticalRow = {
+  id: string;
+  definition: VerticalDefinition;
+  enabled: boolean;
+  updated_at: string;
+};
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+let cached: { verticals: VerticalDefinition[]; loadedAt: number } | null = null;
+
+async function loadRows(supabase: SupabaseClient): Promise<VerticalRow[]> {
+  const { data, error } = await supabase
+    .from("verticals")
+    .select("id, definition, enabled, updated_at");
+
+  if (error) {
+    throw new Error(`Failed to load verticals: ${error.message}`);
+  }
+  return (data ?? []) as VerticalRow[];
+}
+
+// Built-ins plus enabled custom verticals. Falls back to the built-ins when
+// the table cannot be read, so a search never stops on a lookup failure.
+export async function loadVerticals(supabase: SupabaseClient): Promise<VerticalDefinition[]> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.verticals;
+  }
+
+  try {
+    const rows = await loadRows(supabase);
+    const custom = rows
+      .filter((row) => row.enabled && validateVertical(row.definition).length === 0)
+      .map((row) => row.definition);
+    const disabled = new Set(rows.filter((row) => !row.enabled).map((row) => row.id));
+    const verticals = mergeVerticals(custom, disabled);
+    cached = { verticals, loadedAt: Date.now() };
+    return verticals;
+  } catch (error) {
+    console.error("Using built-in verticals only:", error);
+    return BUILT_IN_VERTICALS;
+  }
+}
+
+// Every vertical with where it comes from, for the taxonomy editor
+export async function listVerticals(supabase: SupabaseClient): Promise<StoredVertical[]> {
+  const rows = await loadRows(supabase);
+  const byId = new Map<string, StoredVertical>(
+    BUILT_IN_VERTICALS.map((vertical) => [vertical.id, { vertical, enabled: true, built_in: true, custom: false }]),
+  );
+
+  for (const row of rows) {
+    byId.set(row.id, {
+      vertical: row.definition,
+      enabled: row.enabled,
+      built_in: byId.get(row.id)?.built_in ?? false,
+      custom: true,
+      updated_at: row.updated_at,
+    });
+  }
+  return [...byId.values()].sort((a, b) => a.vertical.label.localeCompare(b.vertical.label));
+}
+
+export async function saveVertical(
+  supabase: SupabaseClient,
+  vertical: VerticalDefinition,
+  options: { enabled?: boolean; userId?: string } = {},
+): Promise<void> {
+  const problems = validateVertical(vertical);
+  if (problems.length > 0) {
+    throw new Error(`Invalid vertical: ${problems.join("; ")}`);
+  }
+
+  const { error } = await supabase.from("verticals").upsert({
+    id: vertical.id,
+    label: vertical.label,
+    definition: vertical,
+    enabled: options.enabled ?? true,
+    updated_by: options.userId ?? null,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to save vertical ${vertical.id}: ${error.message}`);
+  }
+  cached = null;
+}
+
+// Removes a custom vertical; a built-in it overrode applies again. Saved
+// queries naming a removed custom vertical search as generic.
+export async function deleteVertical(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from("verticals").delete().eq("id", id);
+  if (error) {
+    throw new Error(`Failed to delete vertical ${id}: ${error.message}`);
+  }
+  cached = null;
+}
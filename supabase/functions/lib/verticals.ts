@@ -0,0 +1,220 @@
+// supabase/functions/lib/verticals.ts
+// The vertical taxonomy: every business type a LeadQuery can target, with the
+// words the prompt parser reads as it, the Google Places types the search
+// fetches, its default scoring profile and ICP tier, and the features its
+// businesses are expected to have. The built-ins below can be overridden and
+// extended by admins through the verticals table (lib/vertical-store.ts
+// overlays enabled rows by id, as lib/fingerprint-store.ts does for vendor
+// fingerprints). Pure TypeScript, loaded from Deno, Node and Vite alike.
+
+import type { Constraint, LeadQuery } from "./lead-query.ts";
+
+// How much the ICP component values the vertical (lib/scoring-service.ts)
+export const VERTICAL_TIERS = ["high", "medium", "standard"] as const;
+
+export type VerticalTier = (typeof VERTICAL_TIERS)[number];
+
+export type VerticalDefinition = {
+  id: string;
+  label: string;
+  // Phrases the parser reads as this vertical, singular; plurals match too
+  synonyms: string[];
+  // Google Places types searched, most specific first
+  place_types: string[];
+  // Used when the query doesn't pick a scoring profile
+  scoring_profile?: string;
+  tier: VerticalTier;
+  // Multiplies the score when the profile has no industry modifier of its own
+  industry_modifier?: number;
+  // Features businesses in the vertical should have ("should have booking");
+  // the query editor offers them as optional constraints
+  expected_features?: Constraint[];
+};
+
+export const VERTICAL_ID_PATTERN = /^[a-z][a-z0-9_]{1,39}$/;
+
+export const GENERIC_VERTICAL = "generic";
+
+export const BUILT_IN_VERTICALS: VerticalDefinition[] = [
+  {
+    id: "dentist",
+    label: "Dentist",
+    synonyms: ["dentist", "dental", "dentistry", "dental clinic", "dental office", "orthodontist", "oral surgeon", "endodontist", "periodontist"],
+    place_types: ["dentist", "dental_clinic"],
+    scoring_profile: "dentist-intake",
+    tier: "high",
+    expected_features: [{ has_online_booking: true }],
+  },
+  {
+    id: "law_firm",
+    label: "Law Firm",
+    synonyms: ["law firm", "law office", "lawyer", "attorney", "legal", "solicitor", "counsel", "law practice"],
+    place_types: ["lawyer", "legal_services"],
+    scoring_profile: "law-compliance",
+    tier: "high",
+    expected_features: [{ ssl_certificate: true }],
+  },
+  {
+    id: "contractor",
+    label: "Contractor",
+    synonyms: ["contractor", "general contractor", "construction", "builder", "remodeling", "remodeler", "renovation", "handyman"],
+    place_types: ["general_contractor", "roofing_contractor", "electrician", "plumber"],
+    scoring_profile: "contractor-quote",
+    tier: "medium",
+  },
+  {
+    id: "hvac",
+    label: "HVAC",
+    synonyms: ["hvac", "heating", "cooling", "air conditioning", "ac repair", "furnace", "heat pump", "plumber", "plumbing"],
+    place_types: ["electrician", "plumber"],
+    tier: "medium",
+    expected_features: [{ has_online_booking: true }],
+  },
+  {
+    id: "roofing",
+    label: "Roofing",
+    synonyms: ["roofing", "roofer", "roof repair", "roof replacement", "roofing contractor", "shingle"],
+    place_types: ["roofing_contractor"],
+    tier: "medium",
+  },
+  {
+    id: "restaurant",
+    label: "Restaurant",
+    synonyms: ["restaurant", "dining", "eatery", "cafe", "bistro", "diner", "food service", "pizzeria"],
+    place_types: ["restaurant", "cafe", "meal_delivery", "meal_takeaway"],
+    tier: "standard",
+    expected_features: [{ has_payment_processor: true }],
+  },
+  {
+    id: "retail",
+    label: "Retail",
+    synonyms: ["retail", "store", "shop", "boutique", "retailer", "merchant"],
+    place_types: ["store", "shopping_mall", "clothing_store", "electronics_store"],
+    tier: "standard",
+    expected_features: [{ has_payment_processor: true }],
+  },
+  {
+    id: "healthcare",
+    label: "Healthcare",
+    synonyms: ["healthcare", "medical", "clinic", "doctor", "physician", "health center", "urgent care", "chiropractor"],
+    place_types: ["doctor", "hospital", "medical_center", "clinic"],
+    tier: "high",
+    expected_features: [{ has_online_booking: true }],
+  },
+  {
+    id: "fitness",
+    label: "Fitness",
+    synonyms: ["fitness", "gym", "fitness center", "health club", "personal trainer", "yoga studio", "crossfit"],
+    place_types: ["gym", "health_club", "fitness_center"],
+    tier: "medium",
+    expected_features: [{ has_online_booking: true }],
+  },
+  {
+    id: "beauty",
+    label: "Beauty",
+    synonyms: ["beauty", "salon", "spa", "barbershop", "barber", "hair salon", "nail salon", "med spa", "aesthetics"],
+    place_types: ["beauty_salon", "hair_care", "spa", "nail_salon"],
+    tier: "medium",
+    expected_features: [{ has_online_booking: true }],
+  },
+  {
+    id: "automotive",
+    label: "Automotive",
+    synonyms: ["automotive", "auto repair", "auto shop", "mechanic", "car dealer", "dealership", "body shop", "tire shop"],
+    place_types: ["car_dealer", "car_repair", "auto_parts_store"],
+    tier: "medium",
+  },
+  {
+    id: "real_estate",
+    label: "Real Estate",
+    synonyms: ["real estate", "realtor", "real estate agent", "real estate agency", "brokerage", "property management"],
+    place_types: ["real_estate_agency", "real_estate_developer"],
+    tier: "high",
+  },
+  {
+    id: "insurance",
+    label: "Insurance",
+    synonyms: ["insurance", "insurance agent", "insurance agency", "insurer"],
+    place_types: ["insurance_agency"],
+    tier: "high",
+  },
+  {
+    id: "financial",
+    label: "Financial",
+    synonyms: ["financial", "financial advisor", "accountant", "accounting", "cpa", "bookkeeper", "tax preparer", "wealth management"],
+    place_types: ["accounting", "bank", "finance"],
+    tier: "high",
+  },
+  {
+    id: GENERIC_VERTICAL,
+    label: "Generic",
+    synonyms: [],
+    place_types: ["establishment"],
+    tier: "standard",
+  },
+];
+
+export function findVertical(verticals: VerticalDefinition[], id?: string | null): VerticalDefinition | undefined {
+  return verticals.find((vertical) => vertical.id === id);
+}
+
+// A vertical nobody defined searches and scores as generic
+export function resolveVertical(verticals: VerticalDefinition[], id?: string | null): VerticalDefinition {
+  return findVertical(verticals, id) ?? findVertical(verticals, GENERIC_VERTICAL) ?? BUILT_IN_VERTICALS[BUILT_IN_VERTICALS.length - 1];
+}
+
+// Every vertical a query targets, primary first
+export function queryVerticals(dsl: Pick<LeadQuery, "vertical" | "additional_verticals">): string[] {
+  return [...new Set([dsl.vertical, ...(dsl.additional_verticals ?? [])])];
+}
+
+// Places types to search for the given verticals, without repeats
+export function placeTypesFor(verticals: VerticalDefinition[], ids: string[]): string[] {
+  return [...new Set(ids.flatMap((id) => resolveVertical(verticals, id).place_types))];
+}
+
+// The query vertical a fetched place belongs to, by its Places types
+export function verticalForPlaceTypes(verticals: VerticalDefinition[], ids: string[], types: string[] = []): string {
+  return ids.find((id) => resolveVertical(verticals, id).place_types.some((type) => types.includes(type))) ?? ids[0];
+}
+
+export function validateVertical(vertical: VerticalDefinition): string[] {
+  const problems: string[] = [];
+  if (!VERTICAL_ID_PATTERN.test(vertical.id ?? "")) {
+    problems.push("id must be 2-40 lowercase letters, digits or underscores, starting with a letter");
+  }
+  if (!vertical.label?.trim()) problems.push("label is required");
+  if (!Array.isArray(vertical.synonyms) || vertical.synonyms.some((synonym) => !synonym.trim())) {
+    problems.push("synonyms must be a list of phrases");
+  } else if (vertical.id !== GENERIC_VERTICAL && vertical.synonyms.length === 0) {
+    problems.push("at least one synonym is needed for the parser to recognize the vertical");
+  }
+  if (!Array.isArray(vertical.place_types) || vertical.place_types.length === 0) {
+    problems.push("at least one Places type is required");
+  } else if (vertical.place_types.some((type) => !/^[a-z_]+$/.test(type))) {
+    problems.push("Places types are lowercase with underscores, like dental_clinic");
+  }
+  if (!(VERTICAL_TIERS as readonly string[]).includes(vertical.tier)) {
+    problems.push(`tier must be one of ${VERTICAL_TIERS.join(", ")}`);
+  }
+  if (vertical.industry_modifier !== undefined && !(vertical.industry_modifier > 0 && vertical.industry_modifier <= 2)) {
+    problems.push("industry_modifier must be between 0 and 2");
+  }
+  return problems;
+}
+
+// Built-ins with custom definitions overlaid by id
+export function mergeVerticals(custom: VerticalDefinition[], disabled: Set<string> = new Set()): VerticalDefinition[] {
+  const byId = new Map(BUILT_IN_VERTICALS.map((vertical) => [vertical.id, vertical]));
+  for (const vertical of custom) byId.set(vertical.id, vertical);
+  // generic is the fallback for unknown ids and can't be switched off
+  return [...byId.values()].filter((vertical) => vertical.id === GENERIC_VERTICAL || !disabled.has(vertical.id));
+}
+
+// Plural of a synonym, the inverse of the parser's stemming: "pet groomer"
+// becomes "pet groomers", "pharmacy" "pharmacies"
+export function pluralizeSynonym(phrase: string): string {
+  if (/[^aeiou]y$/.test(phrase)) return `${phrase.slice(0, -1)}ies`;
+  if (/(?:s|x|ch|sh)$/.test(phrase)) return `${phrase}es`;
+  return `${phrase}s`;
+}
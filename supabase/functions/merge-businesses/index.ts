@@ -0,0 +1,90 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isAdmin } from "../lib/auth.ts";
+import { findDuplicateGroups, mergeBusinesses } from "../lib/business-resolver.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Merge tool for duplicate businesses. Businesses are shared by every
+// account, so both operations are admin-only.
+//   { operation: 'candidates', limit? }                  -> { groups }
+//   { operation: 'merge', survivor_id, duplicate_ids }  -> { result }
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!isAdmin(user)) {
+      return new Response(
+        JSON.stringify({ error: 'Only admins can review and merge duplicate businesses' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { operation, ...params } = await req.json();
+
+    if (operation === 'candidates') {
+      const groups = await findDuplicateGroups(supabase, Math.min(Number(params.limit) || 50, 200));
+      return new Response(
+        JSON.stringify({ groups }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation === 'merge') {
+      const { survivor_id, duplicate_ids } = params;
+      if (!survivor_id || !Array.isArray(duplicate_ids) || duplicate_ids.length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'survivor_id and a non-empty duplicate_ids array are required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const result = await mergeBusinesses(supabase, survivor_id, duplicate_ids);
+      console.log(`User ${user.id} merged ${result.merged} business(es) into ${survivor_id}`);
+
+      return new Response(
+        JSON.stringify({ result }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Invalid operation. Use "candidates" or "merge"' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in merge-businesses function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
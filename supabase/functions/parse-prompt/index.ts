@@ -1,7 +1,12 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { OFFLINE_PARSER_VERSION, parseLeadPrompt } from "../lib/dsl-parser.ts";
+import { createGeocoder, isUsStateCode, resolveGeo } from "../lib/geocoding.ts";
+import { LEAD_QUERY_VERSION, upgradeLeadQuery } from "../lib/lead-query.ts";
+import { estimateSearch } from "../lib/search-estimate.ts";
+import { loadVerticals } from "../lib/vertical-store.ts";
+import { findVertical, GENERIC_VERTICAL } from "../lib/verticals.ts";
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
@@ -9,116 +14,13 @@ const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
 const googleMapsApiKey = Deno.env.get('GOOGLE_MAPS_API_KEY');
 
 const supabase = createClient(supabaseUrl, supabaseKey);
+const geocoder = createGeocoder({ googleApiKey: googleMapsApiKey });
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Enhanced Zod schema for LeadQuery validation
-const ConstraintSchema = z.object({
-  no_website: z.boolean().optional(),
-  has_chatbot: z.boolean().optional(),
-  has_online_booking: z.boolean().optional(),
-  owner_identified: z.boolean().optional(),
-  franchise: z.boolean().optional(),
-  // New constraint types
-  has_payment_processor: z.boolean().optional(),
-  has_crm: z.boolean().optional(),
-  has_marketing_automation: z.boolean().optional(),
-  mobile_responsive: z.boolean().optional(),
-  ssl_certificate: z.boolean().optional(),
-  social_media_active: z.boolean().optional(),
-  reviews_count_gt: z.number().optional(),
-  reviews_count_lt: z.number().optional(),
-  rating_gt: z.number().optional(),
-  rating_lt: z.number().optional(),
-  years_in_business_gt: z.number().optional(),
-  years_in_business_lt: z.number().optional(),
-  employee_count_range: z.array(z.number()).length(2).optional(),
-});
-
-const LeadQuerySchema = z.object({
-  version: z.literal(1),
-  vertical: z.enum(['dentist', 'law_firm', 'contractor', 'hvac', 'roofing', 
-                     'restaurant', 'retail', 'healthcare', 'fitness', 'beauty', 
-                     'automotive', 'real_estate', 'insurance', 'financial', 'generic']).transform(val => val.toLowerCase()),
-  geo: z.object({
-    city: z.string().min(1),
-    state: z.string().length(2).toUpperCase(),
-    radius_km: z.number().min(1).max(100).default(25),
-    zip_codes: z.array(z.string()).optional(),
-    neighborhoods: z.array(z.string()).optional(),
-  }),
-  constraints: z.object({
-    must: z.array(ConstraintSchema),
-    optional: z.array(ConstraintSchema).optional(),
-    exclude: z.array(ConstraintSchema).optional(),
-  }),
-  exclusions: z.array(z.string()).optional(),
-  result_size: z.object({
-    target: z.number().min(10).max(1000).default(250),
-    minimum: z.number().min(5).optional(),
-  }),
-  scoring: z.object({
-    weights: z.object({
-      icp_match: z.number().min(0).max(1).default(0.35),
-      pain_signals: z.number().min(0).max(1).default(0.35),
-      reachability: z.number().min(0).max(1).default(0.20),
-      compliance_risk: z.number().min(0).max(1).default(0.10),
-    }).optional(),
-    profile: z.enum(['generic', 'sales_ready', 'marketing_qualified', 'tech_savvy', 'traditional']).default('generic'),
-  }).optional(),
-  sort_by: z.enum(['score_desc', 'score_asc', 'name_asc', 'recent_first', 'reviews_desc']).default('score_desc'),
-  lead_profile: z.string().optional(),
-  output: z.object({
-    contract: z.enum(['csv', 'json', 'excel']).default('json'),
-    include_fields: z.array(z.string()).optional(),
-  }),
-  notify: z.object({
-    on_complete: z.boolean().default(true),
-    webhook_url: z.string().url().optional(),
-    email: z.string().email().optional(),
-  }),
-  compliance_flags: z.array(z.string()).default(['respect_dnc', 'two_party_recording_state_notes']),
-  metadata: z.object({
-    campaign_id: z.string().optional(),
-    tags: z.array(z.string()).optional(),
-    notes: z.string().optional(),
-  }).optional(),
-});
-
-// Enhanced prompt patterns and synonyms
-const VERTICAL_SYNONYMS: Record<string, string[]> = {
-  dentist: ['dental', 'dentistry', 'orthodontist', 'oral surgeon', 'dental clinic', 'teeth'],
-  law_firm: ['lawyer', 'attorney', 'legal', 'law office', 'solicitor', 'counsel'],
-  contractor: ['construction', 'builder', 'general contractor', 'remodeling', 'renovation'],
-  hvac: ['heating', 'cooling', 'air conditioning', 'ac', 'furnace', 'heat pump'],
-  roofing: ['roofer', 'roof repair', 'roof replacement', 'shingles'],
-  restaurant: ['dining', 'eatery', 'cafe', 'bistro', 'diner', 'food service'],
-  retail: ['store', 'shop', 'boutique', 'retailer', 'merchant'],
-  healthcare: ['medical', 'clinic', 'doctor', 'physician', 'health center'],
-  fitness: ['gym', 'fitness center', 'health club', 'workout', 'training'],
-  beauty: ['salon', 'spa', 'barbershop', 'hair', 'nails', 'aesthetics'],
-};
-
-const CONSTRAINT_PATTERNS = {
-  no_website: /\b(no|without|lacking|missing)\s+(website|site|web\s*presence)/i,
-  has_chatbot: /\b(with|has|have)\s+(chat|chatbot|live\s*chat|messaging)/i,
-  no_chatbot: /\b(no|without|lacking)\s+(chat|chatbot|live\s*chat|messaging)/i,
-  has_online_booking: /\b(with|has|have)\s+(online\s*booking|scheduling|appointment)/i,
-  no_online_booking: /\b(no|without|lacking)\s+(online\s*booking|scheduling|appointment)/i,
-  owner_identified: /\b(owner|principal|founder)\s+(identified|known|available|contact)/i,
-  franchise: /\b(franchise|franchised|chain)/i,
-  not_franchise: /\b(independent|local|not\s*franchise|non-franchise)/i,
-  reviews_high: /\b(many|high|lots?\s*of)\s+reviews?/i,
-  reviews_low: /\b(few|low|no|lacking)\s+reviews?/i,
-  rating_high: /\b(high|good|excellent)\s+rating/i,
-  rating_low: /\b(low|poor|bad)\s+rating/i,
-  established: /\b(established|old|mature|years?\s+in\s+business)/i,
-  new_business: /\b(new|recent|startup|young)\s+business/i,
-};
-
 // Simple OpenAI completion
 async function generateCompletion(prompt: string, systemPrompt: string): Promise<string> {
   if (!openAIApiKey) throw new Error('OpenAI API key not configured');
@@ -149,192 +51,8 @@ async function generateCompletion(prompt: string, systemPrompt: string): Promise
   return data.choices[0].message.content;
 }
 
-// Enhanced geocoding with validation
-async function validateAndGeocodeLocation(location: string): Promise<{
-  city: string;
-  state: string;
-  lat?: number;
-  lng?: number;
-  zip_codes?: string[];
-}> {
-  // Try to extract city and state from the location string
-  const patterns = [
-    /^(.+?),\s*([A-Z]{2})$/i, // City, ST
-    /^(.+?)\s+([A-Z]{2})$/i,  // City ST
-    /^(.+?),\s*(.+?)$/,        // City, State
-  ];
-  
-  for (const pattern of patterns) {
-    const match = location.match(pattern);
-    if (match) {
-      const city = match[1].trim();
-      let state = match[2].trim();
-      
-      // Convert full state names to abbreviations
-      const stateAbbreviations: Record<string, string> = {
-        'alabama': 'AL', 'alaska': 'AK', 'arizona': 'AZ', 'arkansas': 'AR',
-        'california': 'CA', 'colorado': 'CO', 'connecticut': 'CT', 'delaware': 'DE',
-        'florida': 'FL', 'georgia': 'GA', 'hawaii': 'HI', 'idaho': 'ID',
-        'illinois': 'IL', 'indiana': 'IN', 'iowa': 'IA', 'kansas': 'KS',
-        'kentucky': 'KY', 'louisiana': 'LA', 'maine': 'ME', 'maryland': 'MD',
-        'massachusetts': 'MA', 'michigan': 'MI', 'minnesota': 'MN', 'mississippi': 'MS',
-        'missouri': 'MO', 'montana': 'MT', 'nebraska': 'NE', 'nevada': 'NV',
-        'new hampshire': 'NH', 'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY',
-        'north carolina': 'NC', 'north dakota': 'ND', 'ohio': 'OH', 'oklahoma': 'OK',
-        'oregon': 'OR', 'pennsylvania': 'PA', 'rhode island': 'RI', 'south carolina': 'SC',
-        'south dakota': 'SD', 'tennessee': 'TN', 'texas': 'TX', 'utah': 'UT',
-        'vermont': 'VT', 'virginia': 'VA', 'washington': 'WA', 'west virginia': 'WV',
-        'wisconsin': 'WI', 'wyoming': 'WY'
-      };
-      
-      if (state.length > 2) {
-        state = stateAbbreviations[state.toLowerCase()] || state.substring(0, 2).toUpperCase();
-      }
-      
-      return { city, state: state.toUpperCase() };
-    }
-  }
-  
-  // If no pattern matches, try to make an educated guess
-  const parts = location.split(/[,\s]+/);
-  if (parts.length >= 2) {
-    const lastPart = parts[parts.length - 1].trim();
-    const city = parts.slice(0, -1).join(' ').trim();
-    
-    // Handle common typos and variations
-    const stateMappings: Record<string, string> = {
-      'BO': 'SC', // Charleston, BO -> Charleston, SC
-      'SC': 'SC',
-      'TX': 'TX',
-      'GA': 'GA',
-      'FL': 'FL',
-      'NC': 'NC'
-    };
-    
-    const state = stateMappings[lastPart.toUpperCase()] || lastPart.substring(0, 2).toUpperCase();
-    return { city, state };
-  }
-  
-  // Special case for single-word major cities
-  const majorCities: Record<string, string> = {
-    'atlanta': 'GA',
-    'chicago': 'IL',
-    'boston': 'MA',
-    'seattle': 'WA',
-    'denver': 'CO',
-    'phoenix': 'AZ',
-    'portland': 'OR',
-    'miami': 'FL',
-    'dallas': 'TX',
-    'houston': 'TX',
-    'austin': 'TX',
-    'orlando': 'FL',
-    'detroit': 'MI',
-    'philadelphia': 'PA',
-    'manhattan': 'NY',
-    'brooklyn': 'NY',
-    'nashville': 'TN',
-    'memphis': 'TN',
-    'columbus': 'OH',
-    'charlotte': 'NC',
-    'baltimore': 'MD',
-    'milwaukee': 'WI',
-    'minneapolis': 'MN',
-    'sacramento': 'CA',
-    'oakland': 'CA'
-  };
-  
-  const cityLower = location.toLowerCase().trim();
-  if (majorCities[cityLower]) {
-    console.log(`Recognized major city: ${location} -> ${cityLower}, ${majorCities[cityLower]}`);
-    return { city: location, state: majorCities[cityLower] };
-  }
-  
-  throw new Error(`Could not parse location: ${location}`);
-}
-
-// Extract constraints from natural language
-function extractConstraints(prompt: string): {
-  must: any[];
-  optional: any[];
-  exclude: any[];
-} {
-  const must: any[] = [];
-  const optional: any[] = [];
-  const exclude: any[] = [];
-  
-  // Check for website constraints
-  if (CONSTRAINT_PATTERNS.no_website.test(prompt)) {
-    must.push({ no_website: true });
-  }
-  
-  // Check for chatbot constraints
-  if (CONSTRAINT_PATTERNS.has_chatbot.test(prompt)) {
-    must.push({ has_chatbot: true });
-  } else if (CONSTRAINT_PATTERNS.no_chatbot.test(prompt)) {
-    must.push({ has_chatbot: false });
-  }
-  
-  // Check for booking constraints
-  if (CONSTRAINT_PATTERNS.has_online_booking.test(prompt)) {
-    must.push({ has_online_booking: true });
-  } else if (CONSTRAINT_PATTERNS.no_online_booking.test(prompt)) {
-    must.push({ has_online_booking: false });
-  }
-  
-  // Check for owner identification
-  if (CONSTRAINT_PATTERNS.owner_identified.test(prompt)) {
-    must.push({ owner_identified: true });
-  }
-  
-  // Check for franchise constraints
-  if (CONSTRAINT_PATTERNS.franchise.test(prompt)) {
-    must.push({ franchise: true });
-  } else if (CONSTRAINT_PATTERNS.not_franchise.test(prompt)) {
-    must.push({ franchise: false });
-  }
-  
-  // Check for review constraints
-  if (CONSTRAINT_PATTERNS.reviews_high.test(prompt)) {
-    optional.push({ reviews_count_gt: 50 });
-  } else if (CONSTRAINT_PATTERNS.reviews_low.test(prompt)) {
-    optional.push({ reviews_count_lt: 10 });
-  }
-  
-  // Check for rating constraints
-  if (CONSTRAINT_PATTERNS.rating_high.test(prompt)) {
-    optional.push({ rating_gt: 4.0 });
-  } else if (CONSTRAINT_PATTERNS.rating_low.test(prompt)) {
-    optional.push({ rating_lt: 3.0 });
-  }
-  
-  // Check for business age
-  if (CONSTRAINT_PATTERNS.established.test(prompt)) {
-    optional.push({ years_in_business_gt: 5 });
-  } else if (CONSTRAINT_PATTERNS.new_business.test(prompt)) {
-    optional.push({ years_in_business_lt: 2 });
-  }
-  
-  return { must, optional, exclude };
-}
-
-// Detect vertical from prompt
-function detectVertical(prompt: string): string {
-  const promptLower = prompt.toLowerCase();
-  
-  for (const [vertical, synonyms] of Object.entries(VERTICAL_SYNONYMS)) {
-    for (const synonym of synonyms) {
-      if (promptLower.includes(synonym)) {
-        return vertical;
-      }
-    }
-  }
-  
-  return 'generic';
-}
-
-// Enhanced system prompt for LLM
-const ENHANCED_SYSTEM_PROMPT = `You are an expert B2B lead query parser. Convert natural language searches into structured LeadQuery JSON.
+// Enhanced system prompt for LLM; the vertical list comes from the taxonomy
+const enhancedSystemPrompt = (verticalIds: string[]) => `You are an expert B2B lead query parser. Convert natural language searches into structured LeadQuery JSON.
 
 IMPORTANT RULES:
 1. Always output valid JSON matching the provided schema
@@ -343,22 +61,22 @@ IMPORTANT RULES:
 4. Include warnings for any ambiguities or assumptions
 5. Support complex queries with multiple constraints
 6. Recognize industry-specific terminology
-7. CRITICAL: All 'vertical' values MUST be lowercase from this list: dentist, law_firm, contractor, hvac, roofing, restaurant, retail, healthcare, fitness, beauty, automotive, real_estate, insurance, financial, generic
+7. CRITICAL: All 'vertical' values MUST be lowercase from this list: ${verticalIds.join(', ')}
 
 When parsing:
-- Extract business type/vertical from context (MUST be lowercase: roofing NOT Roofing)
-- Parse location carefully (city, state, radius)
+- Extract business type/vertical from context (MUST be lowercase: roofing NOT Roofing); when the
+  query names several business types, put the first in vertical and the rest in additional_verticals
+- Parse location carefully: geo.city and geo.state for the main city, geo.locations for further cities,
+  geo.zip_codes for ZIP codes, geo.counties for counties, geo.radius_km for a distance and
+  geo.shape = {"type": "drive_time", "minutes": N} for "within N minutes of"
 - State MUST be a valid 2-letter US state abbreviation (e.g., SC, TX, CA)
-- If an invalid state is provided, try to infer the correct one (e.g., "BO" might mean SC for Charleston)
 - Identify all constraints (must have, nice to have, exclude)
 - Detect special requirements (owner info, franchise status, etc.)
 - Set appropriate result size based on query intent
 - Choose optimal scoring profile for the use case
 
 Valid verticals (use exactly as shown, all lowercase):
-- dentist, law_firm, contractor, hvac, roofing
-- restaurant, retail, healthcare, fitness, beauty
-- automotive, real_estate, insurance, financial, generic
+${verticalIds.join(', ')}
 
 Return JSON with structure:
 {
@@ -462,8 +180,12 @@ serve(async (req) => {
     // Check if GPT-5 pipeline is requested
     const useGPT5Pipeline = enrichment_flags.gpt5 === true;
     let gpt5Enhancement: any = null;
+
+    // A dry run resolves the query and estimates what running it would cost;
+    // the GPT-5 pipeline searches on its own, so it is only counted
+    const dryRun = options.dry_run === true;
     
-    if (useGPT5Pipeline) {
+    if (useGPT5Pipeline && !dryRun) {
       console.log('Using GPT-5 reasoning pipeline');
       try {
         gpt5Enhancement = await callGPT5Pipeline(prompt, enrichment_flags);
@@ -483,40 +205,50 @@ serve(async (req) => {
       }
     }
 
-    // Extract basic patterns using regex
-    const constraints = extractConstraints(prompt);
-    const vertical = detectVertical(prompt);
-    
-    // Try to extract location
-    let locationMatch = prompt.match(/\b(?:in|near|around)\s+([^,]+(?:,\s*[A-Z]{2})?)/i);
-    let location = locationMatch ? locationMatch[1] : null;
-    
-    // If no location found, use default or error
-    if (!location && options.defaultLocation) {
-      location = options.defaultLocation;
-    }
-    
-    let geoData = { city: 'Unknown', state: 'UN' };
-    if (location) {
-      try {
-        geoData = await validateAndGeocodeLocation(location);
-      } catch (err) {
-        console.log('Geocoding failed, using LLM fallback');
+    // The grammar parser reads the prompt first: on its own it is the offline
+    // mode, otherwise its reading seeds the LLM
+    const verticals = await loadVerticals(supabase);
+    const parsed = parseLeadPrompt(prompt, { verticals });
+    let initialDSL = parsed.draft;
+
+    // A city the bundled gazetteer could not place in a state goes to the
+    // online geocoder
+    const draftGeo = initialDSL.geo as Record<string, unknown> | undefined;
+    if (typeof draftGeo?.city === 'string' && !draftGeo.state) {
+      const found = await geocoder.geocode({ city: draftGeo.city });
+      if (found) {
+        initialDSL = { ...initialDSL, geo: { ...draftGeo, city: found.name, state: found.state } };
       }
     }
+    const offline = upgradeLeadQuery(initialDSL);
+    const unparseable = (errors: string[], warnings: string[]) => new Response(
+      JSON.stringify({ error: 'Could not parse prompt', errors, warnings, spans: parsed.spans }),
+      { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
 
-    // Build initial DSL from patterns
-    const initialDSL = {
-      version: 1,
-      vertical,
-      geo: geoData,
-      constraints,
-      result_size: { target: 250 },
-      sort_by: 'score_desc',
-      output: { contract: 'json' },
-      notify: { on_complete: true },
-      compliance_flags: ['respect_dnc', 'two_party_recording_state_notes']
-    };
+    const useOffline = options.parser === 'offline' || !openAIApiKey;
+    if (useOffline) {
+      if (!offline.success) {
+        return unparseable(offline.errors, parsed.warnings);
+      }
+      const located = await resolveGeo(offline.dsl.geo, geocoder);
+      const dsl = { ...offline.dsl, geo: located.geo };
+      return new Response(JSON.stringify({
+        dsl,
+        warnings: [...parsed.warnings, ...located.warnings],
+        confidence: parsed.confidence,
+        spans: parsed.spans,
+        locations: parsed.locations,
+        metadata: {
+          parser_version: OFFLINE_PARSER_VERSION,
+          timestamp: new Date().toISOString(),
+          original_prompt: prompt
+        },
+        ...(dryRun && { estimate: estimateSearch(dsl, { gpt5: useGPT5Pipeline }, verticals) })
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
     // Use OpenAI to refine and complete the DSL
     const llmPrompt = `Parse this search query into a LeadQuery DSL:
@@ -528,69 +260,69 @@ ${JSON.stringify(initialDSL, null, 2)}
 Refine this DSL, fix any issues, and add any missing constraints or parameters based on the natural language query.
 Output valid JSON with 'dsl', 'warnings', 'confidence', and optionally 'alternatives' fields.`;
 
-    const llmResponse = await generateCompletion(llmPrompt, ENHANCED_SYSTEM_PROMPT);
-    
     let parsedResult;
     try {
+      const llmResponse = await generateCompletion(llmPrompt, enhancedSystemPrompt(verticals.map((vertical) => vertical.id)));
       parsedResult = JSON.parse(llmResponse);
     } catch (e) {
-      console.error('Failed to parse LLM response:', llmResponse);
-      // Fallback to initial DSL
+      console.error('LLM parsing failed:', (e as Error).message);
+      // Fall back to the grammar parser's reading
       parsedResult = {
         dsl: initialDSL,
-        warnings: ['LLM parsing failed, using pattern-based extraction'],
-        confidence: 0.6
+        warnings: [...parsed.warnings, 'LLM parsing failed, using the offline parser'],
+        confidence: parsed.confidence
       };
     }
+    // Spans describe the grammar parser's reading of the prompt
+    parsedResult.spans = parsed.spans;
 
     // Post-process to ensure correct formatting
     if (parsedResult.dsl) {
       // Force vertical to lowercase
       if (parsedResult.dsl.vertical && typeof parsedResult.dsl.vertical === 'string') {
         parsedResult.dsl.vertical = parsedResult.dsl.vertical.toLowerCase();
+        // A vertical the taxonomy doesn't know would search as generic anyway
+        if (!findVertical(verticals, parsedResult.dsl.vertical)) {
+          parsedResult.warnings = [...(parsedResult.warnings || []), `Unknown vertical "${parsedResult.dsl.vertical}", using generic`];
+          parsedResult.dsl.vertical = GENERIC_VERTICAL;
+        }
+      }
+      if (Array.isArray(parsedResult.dsl.additional_verticals)) {
+        const known = parsedResult.dsl.additional_verticals
+          .map((id: unknown) => String(id).toLowerCase())
+          .filter((id: string) => id !== parsedResult.dsl.vertical && findVertical(verticals, id));
+        parsedResult.dsl.additional_verticals = known.length > 0 ? known : undefined;
       }
       
-      // Validate and fix state abbreviation
-      if (parsedResult.dsl.geo?.state) {
-        const state = parsedResult.dsl.geo.state.toUpperCase();
-        // Common mistyped states
-        const stateCorrections: Record<string, string> = {
-          'BO': 'SC', // Charleston is in SC
-          'SO': 'SC',
-          'SG': 'SC',
-          'TC': 'TX', // Texas
-          'TS': 'TX',
-          'DA': 'TX', // Dallas is in TX
-        };
-        
-        if (stateCorrections[state]) {
-          parsedResult.dsl.geo.state = stateCorrections[state];
-          parsedResult.warnings = parsedResult.warnings || [];
-          parsedResult.warnings.push(`Corrected state from ${state} to ${stateCorrections[state]}`);
-        } else if (state.length !== 2) {
-          // Try to match to full state name
-          parsedResult.dsl.geo.state = state.substring(0, 2).toUpperCase();
-        } else {
-          parsedResult.dsl.geo.state = state;
+      // A state the model got wrong is looked up from the city instead
+      const geo = parsedResult.dsl.geo;
+      if (typeof geo?.city === 'string' && typeof geo.state === 'string' && !isUsStateCode(geo.state)) {
+        const found = await geocoder.geocode({ city: geo.city });
+        parsedResult.warnings = parsedResult.warnings || [];
+        if (found) {
+          parsedResult.warnings.push(`Corrected state from ${geo.state} to ${found.state}`);
+          geo.state = found.state;
         }
       }
     }
 
-    // Validate with Zod
-    try {
-      const validatedDSL = LeadQuerySchema.parse(parsedResult.dsl);
-      parsedResult.dsl = validatedDSL;
-    } catch (zodError: any) {
-      console.error('Zod validation errors:', zodError.errors);
-      parsedResult.warnings = parsedResult.warnings || [];
-      parsedResult.warnings.push(...zodError.errors.map((e: any) => `${e.path.join('.')}: ${e.message}`));
-      
-      // Try to fix common issues
-      if (!parsedResult.dsl.geo?.city || !parsedResult.dsl.geo?.state) {
-        parsedResult.warnings.push('Location could not be determined, using default');
-        parsedResult.dsl.geo = { city: 'New York', state: 'NY', radius_km: 25 };
-      }
+    // Validate against the shared schema; the model sometimes answers in the
+    // older v1 layout, which the upgrade steps bring to the current version
+    parsedResult.warnings = parsedResult.warnings || [];
+    const validated = upgradeLeadQuery(parsedResult.dsl);
+    if (validated.success) {
+      parsedResult.dsl = validated.dsl;
+    } else if (offline.success) {
+      console.error('Lead query validation errors:', validated.errors);
+      parsedResult.dsl = offline.dsl;
+      parsedResult.warnings.push(...validated.errors, 'LLM result was not a valid lead query, using the offline parser');
+    } else {
+      console.error('Lead query validation errors:', validated.errors);
+      return unparseable([...validated.errors, ...offline.errors], parsedResult.warnings);
     }
+    const located = await resolveGeo(parsedResult.dsl.geo, geocoder);
+    parsedResult.dsl = { ...parsedResult.dsl, geo: located.geo };
+    parsedResult.warnings.push(...located.warnings);
 
     // Add metadata about the parsing
     parsedResult.metadata = {
@@ -613,6 +345,10 @@ Output valid JSON with 'dsl', 'warnings', 'confidence', and optionally 'alternat
       parsedResult.warnings.push(`GPT-5 pipeline error: ${gpt5Enhancement.error}`);
     }
 
+    if (dryRun) {
+      parsedResult.estimate = estimateSearch(parsedResult.dsl, { llm_parse: true, gpt5: useGPT5Pipeline }, verticals);
+    }
+
     console.log('Enhanced parse result:', parsedResult);
 
     return new Response(JSON.stringify(parsedResult), {
@@ -626,7 +362,7 @@ Output valid JSON with 'dsl', 'warnings', 'confidence', and optionally 'alternat
         error: error.message,
         fallback: {
           dsl: {
-            version: 1,
+            version: LEAD_QUERY_VERSION,
             vertical: 'generic',
             geo: { city: 'Unknown', state: 'UN', radius_km: 25 },
             constraints: { must: [] },
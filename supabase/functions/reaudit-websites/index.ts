@@ -0,0 +1,194 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AuditState, auditStateFromResult, diffAuditStates } from "../lib/audit-changes.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Stay inside the edge function wall-clock limit; businesses not reached
+// are still due and get picked up by the next scheduled run
+const TIME_BUDGET_MS = 50_000;
+const BATCH_SIZE = 3;
+const DEFAULT_MIN_AGE_HOURS = 24 * 7;
+
+type ClaimedBusiness = {
+  id: string;
+  website: string;
+  website_reachable: boolean | null;
+  detected_features: AuditState['features'] | null;
+};
+
+type ReauditOutcome = {
+  business_id: string;
+  has_website: boolean;
+  changes: string[];
+  error?: string;
+};
+
+async function runAudit(business: ClaimedBusiness) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/website-auditor`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${supabaseKey}`,
+      'Content-Type': 'application/json',
+      'apikey': supabaseKey
+    },
+    body: JSON.stringify({ website_url: business.website, business_id: business.id })
+  });
+
+  if (!response.ok) {
+    throw new Error(`website-auditor returned ${response.status}`);
+  }
+  const { audit_result } = await response.json();
+  return audit_result;
+}
+
+async function reaudit(business: ClaimedBusiness): Promise<ReauditOutcome> {
+  const audit = await runAudit(business);
+  const current = auditStateFromResult(audit);
+  // The first scheduled audit is the baseline that later runs compare against
+  const previous: AuditState | null = business.website_reachable === null
+    ? null
+    : { has_website: business.website_reachable, features: business.detected_features ?? {} };
+  const changes = diffAuditStates(previous, current);
+
+  if (changes.length > 0) {
+    const { error } = await supabase.from('events').insert(changes.map(change => ({
+      type: change.type,
+      entity_type: 'business',
+      entity_id: business.id,
+      payload_json: {
+        feature: change.feature ?? null,
+        before: change.before,
+        after: change.after,
+        summary: change.summary,
+        website_url: audit.website_url,
+        audit_timestamp: audit.audit_timestamp
+      }
+    })));
+    if (error) throw new Error(`Failed to record changes: ${error.message}`);
+  }
+
+  // Refresh the signals the scorer reads so detected_at reflects this audit.
+  // Features of an unreachable site are unknown, so only its status is updated.
+  const signals: Array<Record<string, unknown>> = [{
+    business_id: business.id,
+    type: 'website_status',
+    value_json: { accessible: current.has_website },
+    confidence: 1.0,
+    evidence_url: audit.website_url,
+    source_key: 'website_reaudit',
+    detected_at: audit.audit_timestamp
+  }];
+
+  if (current.has_website) {
+    const featureSignals: Array<[string, keyof AuditState['features']]> = [
+      ['has_online_booking', 'online_booking'],
+      ['has_chatbot', 'chatbot'],
+      ['has_payment_processor', 'payment_processor'],
+      ['ssl_certificate', 'ssl_certificate'],
+      ['mobile_responsive', 'mobile_responsive']
+    ];
+    for (const [type, feature] of featureSignals) {
+      const state = current.features[feature];
+      if (!state) continue;
+      const [evidence] = audit.detected_features[feature]?.evidence ?? [];
+      signals.push({
+        business_id: business.id,
+        type,
+        value_json: state.found,
+        confidence: evidence?.confidence ?? audit.confidence_score,
+        evidence_url: evidence?.url ?? audit.website_url,
+        evidence_snippet: evidence?.snippet,
+        source_key: 'website_reaudit',
+        detected_at: audit.audit_timestamp
+      });
+    }
+  }
+
+  const { error: signalError } = await supabase
+    .from('signals')
+    .upsert(signals, { onConflict: 'business_id,type' });
+  if (signalError) throw new Error(`Failed to refresh signals: ${signalError.message}`);
+
+  const { error: updateError } = await supabase
+    .from('businesses')
+    .update({
+      website_reachable: current.has_website,
+      // Keep the last known features while the site is down, so a recovery is
+      // compared against what it had before the outage
+      ...(current.has_website ? { detected_features: current.features } : {})
+    })
+    .eq('id', business.id);
+  if (updateError) throw new Error(`Failed to update business: ${updateError.message}`);
+
+  return { business_id: business.id, has_website: current.has_website, changes: changes.map(change => change.type) };
+}
+
+// Re-audits websites of businesses in saved search results or open
+// opportunities that haven't been audited for min_age_hours. Called by the
+// pg_cron job from migrations/20250924_website_reaudits.sql.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Only the scheduler (holding the service key) may start re-audits
+    const token = req.headers.get('authorization')?.replace('Bearer ', '');
+    if (token !== supabaseKey) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { min_age_hours = DEFAULT_MIN_AGE_HOURS } = await req.json().catch(() => ({}));
+    const deadline = Date.now() + TIME_BUDGET_MS;
+    const outcomes: ReauditOutcome[] = [];
+
+    while (Date.now() < deadline) {
+      const { data, error } = await supabase.rpc('claim_website_reaudits', {
+        p_limit: BATCH_SIZE,
+        p_min_age_hours: min_age_hours
+      });
+      if (error) throw new Error(`Failed to claim businesses: ${error.message}`);
+
+      const claimed = (data ?? []) as ClaimedBusiness[];
+      if (claimed.length === 0) break;
+
+      const results = await Promise.all(claimed.map(business =>
+        reaudit(business).catch((auditError): ReauditOutcome => {
+          console.error(`Re-audit of business ${business.id} failed:`, auditError);
+          return { business_id: business.id, has_website: false, changes: [], error: auditError.message };
+        })
+      ));
+      outcomes.push(...results);
+    }
+
+    const changed = outcomes.filter(outcome => outcome.changes.length > 0);
+    console.log(`Re-audited ${outcomes.length} websites, ${changed.length} changed`);
+
+    return new Response(JSON.stringify({
+      audited: outcomes.length,
+      changed: changed.length,
+      failed: outcomes.filter(outcome => outcome.error).length,
+      outcomes
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in reaudit-websites function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,82 +1,41 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  BusinessLike,
+  ScoringWeights,
+  SignalLike,
+  featuresFromSignals,
+  getScoringProfile,
+  linkContributions,
+  rankByScore,
+  scoreLead,
+} from '../lib/scoring-service.ts';
+import { loadScoringProfiles } from '../lib/scoring-profile-store.ts';
+import { featureVectorFromRows } from '../lib/ml-scoring-engine.ts';
+import { applyLearnedModel } from '../lib/scoring-model.ts';
+import { loadActiveModel } from '../lib/scoring-model-store.ts';
+import { compareRankings } from '../lib/rank-movement.ts';
+import { historyEntry } from '../lib/score-history.ts';
+
+type LeadViewRow = {
+  id: string;
+  business_id: string;
+  score: number | null;
+  rank: number | null;
+  businesses: BusinessLike & { id: string; name: string; signals: SignalLike[] | null };
+};
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface ScoringWeights {
-  ICP: number;
-  Pain: number;
-  Reachability: number;
-  ComplianceRisk: number;
-}
-
-interface Signal {
-  type: string;
-  value_json: any;
-  confidence: number;
-}
-
-function calculateScore(signals: Signal[], weights: ScoringWeights): { score: number; subscores: any } {
-  let icpScore = 0;
-  let painScore = 0;
-  let reachabilityScore = 0;
-  let complianceRisk = 0;
-  
-  // ICP scoring (weighted%)
-  icpScore = 25; // Base score for matching vertical/geo
-  
-  // Pain scoring (weighted%) - higher pain = higher score
-  signals.forEach(signal => {
-    switch (signal.type) {
-      case 'no_website':
-        if (signal.value_json === true) painScore += 15;
-        break;
-      case 'has_chatbot':
-        if (signal.value_json === false) painScore += 10;
-        break;
-      case 'has_online_booking':
-        if (signal.value_json === false) painScore += 10;
-        break;
-      case 'franchise_guess':
-        if (signal.value_json === false) icpScore += 10;
-        break;
-      case 'owner_identified':
-        if (signal.value_json === true) reachabilityScore += 15;
-        break;
-      case 'review_count':
-        const reviewCount = signal.value_json || 0;
-        if (reviewCount > 0 && reviewCount < 100) {
-          icpScore += 5; // Good established business but not too big
-        }
-        break;
-    }
-  });
-  
-  // Apply weights and calculate final score
-  const weightedIcpScore = (icpScore * weights.ICP) / 100;
-  const weightedPainScore = (painScore * weights.Pain) / 100;
-  const weightedReachabilityScore = (reachabilityScore * weights.Reachability) / 100;
-  const weightedComplianceRisk = (complianceRisk * weights.ComplianceRisk) / 100;
-  
-  const finalScore = Math.min(100, Math.round(
-    weightedIcpScore + weightedPainScore + weightedReachabilityScore - weightedComplianceRisk
-  ));
-  
-  return {
-    score: finalScore,
-    subscores: {
-      ICP: Math.round(weightedIcpScore),
-      Pain: Math.round(weightedPainScore),
-      Reachability: Math.round(weightedReachabilityScore),
-      ComplianceRisk: Math.round(weightedComplianceRisk)
-    }
-  };
-}
-
+// Rescores a search job's lead views with a profile and weights and re-ranks
+// them. With simulate: true nothing is written; the response carries the
+// rank movement against the current ranking instead (lib/rank-movement.ts).
+//   { searchJobId, profile?, weights }                 -> { success, updated }
+//   { searchJobId, profile?, weights, simulate: true } -> { simulation: { summary, movements } }
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -114,9 +73,14 @@ serve(async (req) => {
       });
     }
 
-    const { searchJobId, weights }: { searchJobId: string; weights: ScoringWeights } = await req.json();
+    const { searchJobId, weights, profile, simulate }: {
+      searchJobId: string;
+      weights: ScoringWeights;
+      profile?: string;
+      simulate?: boolean;
+    } = await req.json();
 
-    console.log('Re-scoring leads for search job:', searchJobId, 'with weights:', weights);
+    console.log(`${simulate ? 'Simulating re-score' : 'Re-scoring leads'} for search job:`, searchJobId, 'with weights:', weights);
 
     // Verify the search job belongs to the user
     const { data: searchJob, error: jobError } = await supabase
@@ -134,14 +98,21 @@ serve(async (req) => {
     }
 
     // Get all lead views for this search job with their signals
-    const { data: leadViews, error: leadsError } = await supabase
+    const { data: leadViewRows, error: leadsError } = await supabase
       .from('lead_views')
       .select(`
         id,
         business_id,
+        score,
+        rank,
         businesses!inner(
           id,
-          signals(type, value_json, confidence)
+          name,
+          vertical,
+          website,
+          phone,
+          franchise_bool,
+          signals(id, type, value_json, confidence, evidence_url, evidence_snippet)
         )
       `)
       .eq('search_job_id', searchJobId);
@@ -154,28 +125,59 @@ serve(async (req) => {
       });
     }
 
-    console.log(`Re-scoring ${leadViews?.length || 0} leads`);
-
-    // Re-calculate scores for all leads
-    const updates = leadViews?.map(leadView => {
-      const business = leadView.businesses as any;
+    const leadViews = (leadViewRows ?? []) as LeadViewRow[];
+    console.log(`Re-scoring ${leadViews.length} leads`);
+
+    // Re-calculate scores for all leads with the shared scoring model; custom
+    // profiles are the user's own and everyone's published ones
+    const profiles = await loadScoringProfiles(supabase, user.id, { refresh: true });
+    const scoringProfile = getScoringProfile(profile, profiles);
+    // A promoted learned model replaces the rule-based total
+    const model = await loadActiveModel(supabase);
+    const updates = await Promise.all(leadViews.map(async leadView => {
+      const business = leadView.businesses;
       const signals = business.signals || [];
       
-      const { score, subscores } = calculateScore(signals, weights);
+      const ruleBased = scoreLead(featuresFromSignals(signals, business), scoringProfile, weights);
+      const result = model
+        ? applyLearnedModel(ruleBased, model, await featureVectorFromRows(business, signals), scoringProfile.thresholds)
+        : ruleBased;
       
       return {
         id: leadView.id,
-        score,
-        subscores_json: subscores
+        business_id: leadView.business_id,
+        name: business.name,
+        score: result.score,
+        subscores_json: result.subscores,
+        model_version: result.model_version,
+        score_contributions: linkContributions(result.contributions, signals),
+        result
       };
-    }) || [];
+    }));
 
     // Sort by score to calculate new ranks
-    const sortedUpdates = updates.sort((a, b) => b.score - a.score);
-    const rankedUpdates = sortedUpdates.map((update, index) => ({
-      ...update,
-      rank: index + 1
-    }));
+    const rankedUpdates = rankByScore(updates);
+
+    if (simulate) {
+      // Leads stay at rank 0 until the job is finalized; ranking the stored
+      // scores (ties in stored rank order) gives every lead a current rank
+      const current = rankByScore(
+        leadViews
+          .map(leadView => ({
+            business_id: leadView.business_id,
+            name: leadView.businesses.name,
+            score: leadView.score ?? 0,
+            stored_rank: leadView.rank || Number.MAX_SAFE_INTEGER,
+          }))
+          .sort((a, b) => a.stored_rank - b.stored_rank)
+      );
+      const simulation = compareRankings(current, rankedUpdates);
+      console.log(`Simulated re-score: ${simulation.summary.entered_top} entered and ${simulation.summary.dropped_top} dropped out of the top ${simulation.summary.top_n}`);
+
+      return new Response(JSON.stringify({ simulation }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
     // Update all lead views with new scores and ranks
     const updatePromises = rankedUpdates.map(update => 
@@ -184,6 +186,8 @@ serve(async (req) => {
         .update({
           score: update.score,
           subscores_json: update.subscores_json,
+          model_version: update.model_version,
+          score_contributions: update.score_contributions,
           rank: update.rank
         })
         .eq('id', update.id)
@@ -191,6 +195,18 @@ serve(async (req) => {
 
     await Promise.all(updatePromises);
 
+    // Keep the new scores and ranks alongside the ones they replaced
+    const { error: historyError } = await supabase
+      .from('lead_score_history')
+      .insert(rankedUpdates.map(update => historyEntry(
+        { id: update.id, search_job_id: searchJobId, business_id: update.business_id, rank: update.rank },
+        update.result,
+        'rescore'
+      )));
+    if (historyError) {
+      console.error('Failed to record score history:', historyError.message);
+    }
+
     console.log('Successfully re-scored all leads');
 
     return new Response(JSON.stringify({ 
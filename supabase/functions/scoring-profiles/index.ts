@@ -0,0 +1,131 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isAdmin } from "../lib/auth.ts";
+import {
+  deleteScoringProfile,
+  getStoredScoringProfile,
+  listScoringProfiles,
+  saveScoringProfile,
+} from "../lib/scoring-profile-store.ts";
+import { BUILT_IN_SCORING_PROFILES, ScoringProfile, validateScoringProfile } from "../lib/scoring-service.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Custom scoring profiles. Anyone can create one; only its owner or an admin
+// can change or delete it. Published profiles are listed for every user.
+//   { operation: 'list' }                          -> { profiles } (each with editable)
+//   { operation: 'save', profile, published? }     -> { profile, published }
+//   { operation: 'delete', id }                    -> { deleted }
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { operation, ...params } = await req.json();
+
+    if (operation === 'list') {
+      const profiles = (await listScoringProfiles(supabase, user.id)).map((entry) => ({
+        ...entry,
+        editable: !entry.built_in && (entry.owner_id === user.id || isAdmin(user)),
+      }));
+      return new Response(
+        JSON.stringify({ profiles }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation === 'save' || operation === 'delete') {
+      const id = operation === 'save' ? params.profile?.id : params.id;
+      if (!id) {
+        return new Response(
+          JSON.stringify({ error: operation === 'save' ? 'profile is required' : 'id is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (BUILT_IN_SCORING_PROFILES.some((profile) => profile.id === id)) {
+        return new Response(
+          JSON.stringify({ error: `${id} is a built-in profile; save your changes under a new id` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const existing = await getStoredScoringProfile(supabase, id);
+      if (existing && existing.owner_id !== user.id && !isAdmin(user)) {
+        return new Response(
+          JSON.stringify({ error: 'Only the owner of a scoring profile can change it' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (operation === 'delete') {
+        if (!existing) {
+          return new Response(
+            JSON.stringify({ error: 'Scoring profile not found' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        await deleteScoringProfile(supabase, id);
+        return new Response(
+          JSON.stringify({ deleted: id }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const profile = params.profile as ScoringProfile;
+      const problems = validateScoringProfile(profile);
+      if (problems.length > 0) {
+        return new Response(
+          JSON.stringify({ error: `Invalid scoring profile: ${problems.join('; ')}`, problems }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // An admin editing someone else's profile keeps them as its owner
+      const published = params.published ?? existing?.published ?? false;
+      await saveScoringProfile(supabase, profile, { ownerId: existing?.owner_id ?? user.id, published });
+      console.log(`User ${user.id} saved scoring profile ${id}${published ? ' (published)' : ''}`);
+      return new Response(
+        JSON.stringify({ profile, published }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Invalid operation. Use "list", "save" or "delete"' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in scoring-profiles function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
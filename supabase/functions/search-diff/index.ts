@@ -0,0 +1,186 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { diffRuns, RunLead, SignalSnapshot } from "../lib/search-diff.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type RunRow = {
+  id: string;
+  created_at: string;
+  status: string;
+  saved_search_id: string | null;
+  summary_stats: { total_found?: number } | null;
+};
+
+type LeadViewRow = {
+  business_id: string;
+  score: number | null;
+  rank: number | null;
+  signal_snapshot: SignalSnapshot | null;
+  businesses: { name: string } | null;
+};
+
+async function loadRun(userId: string, jobId: string): Promise<RunRow | null> {
+  const { data, error } = await supabase
+    .from('search_jobs')
+    .select('id, created_at, status, saved_search_id, summary_stats')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load search job: ${error.message}`);
+  }
+  return data as RunRow | null;
+}
+
+async function loadRunLeads(jobId: string): Promise<RunLead[]> {
+  const { data, error } = await supabase
+    .from('lead_views')
+    .select('business_id, score, rank, signal_snapshot, businesses(name)')
+    .eq('search_job_id', jobId);
+
+  if (error) {
+    throw new Error(`Failed to load lead views: ${error.message}`);
+  }
+  return ((data ?? []) as unknown as LeadViewRow[]).map((row) => ({
+    business_id: row.business_id,
+    name: row.businesses?.name ?? 'Unknown business',
+    score: row.score ?? 0,
+    rank: row.rank,
+    signals: row.signal_snapshot,
+  }));
+}
+
+// Runs of a saved search and the differences between two of them.
+//   { operation: 'runs', saved_search_id }                  -> { runs }
+//   { operation: 'diff', compare_job_id, base_job_id? }     -> { diff, base, compare }
+// Without base_job_id the diff is against the run before compare_job_id;
+// diff is null when there is no earlier run.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { operation, ...params } = await req.json();
+
+    if (operation === 'runs') {
+      if (!params.saved_search_id) {
+        return new Response(
+          JSON.stringify({ error: 'saved_search_id is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const { data, error } = await supabase
+        .from('search_jobs')
+        .select('id, created_at, status, saved_search_id, summary_stats')
+        .eq('saved_search_id', params.saved_search_id)
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false });
+      if (error) {
+        throw new Error(`Failed to load runs: ${error.message}`);
+      }
+      return new Response(
+        JSON.stringify({ runs: data ?? [] }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation === 'diff') {
+      const compare = params.compare_job_id ? await loadRun(user.id, params.compare_job_id) : null;
+      if (!compare) {
+        return new Response(
+          JSON.stringify({ error: 'compare_job_id must be one of your search jobs' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (!compare.saved_search_id) {
+        return new Response(
+          JSON.stringify({ diff: null, compare, reason: 'This search was not run from a saved search' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      let base: RunRow | null;
+      if (params.base_job_id) {
+        base = await loadRun(user.id, params.base_job_id);
+      } else {
+        const { data, error } = await supabase
+          .from('search_jobs')
+          .select('id, created_at, status, saved_search_id, summary_stats')
+          .eq('saved_search_id', compare.saved_search_id)
+          .eq('user_id', user.id)
+          .eq('status', 'completed')
+          .is('deleted_at', null)
+          .lt('created_at', compare.created_at)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        if (error) {
+          throw new Error(`Failed to load previous run: ${error.message}`);
+        }
+        base = data as RunRow | null;
+      }
+
+      if (params.base_job_id && (!base || base.saved_search_id !== compare.saved_search_id)) {
+        return new Response(
+          JSON.stringify({ error: 'Both jobs must be runs of the same saved search' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (!base) {
+        return new Response(
+          JSON.stringify({ diff: null, compare, reason: 'This is the first run of the saved search' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const [baseLeads, compareLeads] = await Promise.all([loadRunLeads(base.id), loadRunLeads(compare.id)]);
+      const diff = diffRuns({ job_id: base.id, leads: baseLeads }, { job_id: compare.id, leads: compareLeads });
+      return new Response(
+        JSON.stringify({ diff, base, compare }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Invalid operation. Use "runs" or "diff"' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in search-diff function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
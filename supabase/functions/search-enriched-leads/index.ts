@@ -1,11 +1,16 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createGeocoder, resolveGeo } from "../lib/geocoding.ts";
+import { upgradeLeadQuery } from "../lib/lead-query.ts";
+import { estimateSearch } from "../lib/search-estimate.ts";
+import { loadVerticals } from "../lib/vertical-store.ts";
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
 const supabase = createClient(supabaseUrl, supabaseKey);
+const geocoder = createGeocoder({ googleApiKey: Deno.env.get('GOOGLE_MAPS_API_KEY') });
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -29,9 +34,42 @@ serve(async (req) => {
       return new Response(JSON.stringify({ error: 'Invalid or expired token' }), { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
 
-    const { dsl_json, options, limit: rawLimit, original_prompt, custom_name, search_tags, lead_type } = await req.json();
+    const { dsl_json, options, limit: rawLimit, original_prompt, custom_name, search_tags, lead_type, dry_run, saved_search_id } = await req.json();
     const limit = Math.min(Math.max(Number(rawLimit) || 10, 1), 20);
 
+    // Dry run: report what the search would cost without queuing it. The
+    // candidate search runs to the query's full target before the top
+    // `limit` leads are kept, so the estimate covers the whole target.
+    if (dry_run === true) {
+      const query = upgradeLeadQuery(dsl_json);
+      if (!query.success) {
+        return new Response(
+          JSON.stringify({ error: `Invalid lead query: ${query.errors.join('; ')}`, errors: query.errors }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      // Geocoded as search-leads will, so the planned areas match the run
+      const located = await resolveGeo(query.dsl.geo, geocoder);
+      const dsl = { ...query.dsl, geo: located.geo };
+      const estimate = estimateSearch(dsl, { gpt5: options?.gpt5 === true }, await loadVerticals(supabase));
+      return new Response(JSON.stringify({ dry_run: true, dsl, limit, estimate, warnings: located.warnings }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // A rerun of a saved search is recorded against it, so runs can be compared
+    if (saved_search_id) {
+      const { data: savedSearch } = await supabase
+        .from('saved_searches')
+        .select('id')
+        .eq('id', saved_search_id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (!savedSearch) {
+        return new Response(JSON.stringify({ error: 'Saved search not found' }), { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+    }
+
     // Create a search job record (reuse search_jobs table if present)
     const { data: jobInsert, error: jobError } = await supabase
       .from('search_jobs')
@@ -42,13 +80,17 @@ serve(async (req) => {
         original_prompt,
         custom_name,
         search_tags,
-        lead_type
+        lead_type,
+        saved_search_id: saved_search_id ?? null
       })
       .select('id')
       .single();
 
     if (jobError) throw jobError;
     const jobId = jobInsert.id as string;
+    if (saved_search_id) {
+      await supabase.from('saved_searches').update({ search_job_id: jobId }).eq('id', saved_search_id);
+    }
     // Log planning
     await supabase.from('status_logs').insert({
       search_job_id: jobId,
@@ -100,6 +142,8 @@ serve(async (req) => {
         business_id: lead.business.id,
         score: lead.score || 0,
         subscores_json: lead.subscores || null,
+        model_version: lead.model_version || null,
+        score_contributions: lead.score_contributions || null,
         rank: idx + 1
       }));
       await supabase.from('lead_views').insert(rows);
@@ -0,0 +1,131 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enqueueValidationIfSettled, logStatus, publishProgress, runTask } from "../lib/search-pipeline.ts";
+import {
+  completeTask,
+  createWorkerId,
+  failTask,
+  hasRunnableTasks,
+  kickWorker,
+  leaseTasks,
+  SearchJobTask,
+} from "../lib/task-queue.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Stay well inside the edge function wall-clock limit; leftover work is
+// handed to a fresh invocation instead of timing out mid-task.
+const TIME_BUDGET_MS = 50_000;
+const BATCH_SIZE = 5;
+const IDLE_POLL_MS = 1_000;
+
+async function runLeasedTask(task: SearchJobTask, workerId: string) {
+  try {
+    const result = await runTask(supabase, task);
+    const acknowledged = await completeTask(supabase, task, workerId, result);
+    if (!acknowledged) {
+      console.warn(`Lease on task ${task.id} was lost before completion`);
+    }
+  } catch (error) {
+    console.error(`Task ${task.id} (${task.type}) failed:`, error);
+    const status = await failTask(supabase, task, workerId, error.message);
+
+    if (status === 'dead') {
+      await logStatus(
+        supabase,
+        task.search_job_id,
+        `${task.type}_dead_letter`,
+        `${task.type} task ${task.dedupe_key} gave up after ${task.attempts} attempts: ${error.message}`,
+        'error'
+      );
+    } else {
+      await logStatus(
+        supabase,
+        task.search_job_id,
+        `${task.type}_retry`,
+        `${task.type} task ${task.dedupe_key} failed (attempt ${task.attempts}/${task.max_attempts}), retrying: ${error.message}`,
+        'warn'
+      );
+    }
+  }
+
+  if (task.type !== 'validate') {
+    await enqueueValidationIfSettled(supabase, task.search_job_id);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Only the pipeline itself (or a scheduler holding the service key) may drive the queue
+    const token = req.headers.get('authorization')?.replace('Bearer ', '');
+    if (token !== supabaseKey) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { search_job_id: searchJobId } = await req.json().catch(() => ({}));
+    const workerId = createWorkerId();
+    const deadline = Date.now() + TIME_BUDGET_MS;
+    let processed = 0;
+
+    while (Date.now() < deadline) {
+      const tasks = await leaseTasks(supabase, workerId, {
+        limit: BATCH_SIZE,
+        searchJobId: searchJobId ?? undefined
+      });
+
+      if (tasks.length === 0) {
+        // Wait only for backoffs and page-token delays that end inside our budget
+        if (!(await hasRunnableTasks(supabase, searchJobId ?? undefined, deadline - Date.now()))) break;
+        await new Promise(resolve => setTimeout(resolve, IDLE_POLL_MS));
+        continue;
+      }
+
+      await Promise.all(tasks.map(task => runLeasedTask(task, workerId)));
+      processed += tasks.length;
+
+      // One snapshot per touched job per batch keeps realtime traffic bounded
+      const jobIds = [...new Set(tasks.filter(task => task.type !== 'validate').map(task => task.search_job_id))];
+      await Promise.all(jobIds.map(jobId => publishProgress(supabase, jobId)));
+    }
+
+    // Hand over only work a fresh worker could lease within its own budget;
+    // longer delays are picked up by the pg_cron drain
+    const remaining = await hasRunnableTasks(supabase, searchJobId ?? undefined, TIME_BUDGET_MS);
+    if (remaining) {
+      kickWorker(supabaseUrl, supabaseKey, searchJobId ?? undefined);
+    }
+
+    console.log(`${workerId} processed ${processed} tasks, remaining: ${remaining}`);
+
+    return new Response(JSON.stringify({
+      worker_id: workerId,
+      processed,
+      remaining
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in search-worker function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
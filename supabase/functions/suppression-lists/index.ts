@@ -0,0 +1,123 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { parseSuppressionCsv, SUPPRESSION_KINDS, SuppressionEntry } from "../lib/suppression.ts";
+import { addSuppressionEntries, deleteSuppressionEntries, listSuppressionEntries } from "../lib/suppression-store.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Imports larger than this belong in a bulk load, not a function call
+const MAX_CSV_BYTES = 5 * 1024 * 1024;
+
+// The calling user's suppression list.
+//   { operation: 'list' }                               -> { entries }
+//   { operation: 'add', entries: [{ kind, value, note? }] } -> { added, invalid }
+//   { operation: 'import', csv }                        -> { added, rows, skipped, invalid }
+//   { operation: 'delete', ids }                        -> { deleted }
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { operation, ...params } = await req.json();
+
+    if (operation === 'list') {
+      return new Response(
+        JSON.stringify({ entries: await listSuppressionEntries(supabase, user.id) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation === 'add') {
+      const entries = (Array.isArray(params.entries) ? params.entries : []) as Array<SuppressionEntry & { note?: string }>;
+      const unknown = entries.filter((entry) => !SUPPRESSION_KINDS.includes(entry.kind));
+      if (entries.length === 0 || unknown.length > 0) {
+        return new Response(
+          JSON.stringify({ error: `entries must be a non-empty list with kind one of ${SUPPRESSION_KINDS.join(', ')}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const result = await addSuppressionEntries(supabase, user.id, entries);
+      console.log(`User ${user.id} added ${result.added} suppression entries`);
+      return new Response(
+        JSON.stringify(result),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation === 'import') {
+      if (typeof params.csv !== 'string' || !params.csv.trim()) {
+        return new Response(
+          JSON.stringify({ error: 'csv is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (params.csv.length > MAX_CSV_BYTES) {
+        return new Response(
+          JSON.stringify({ error: 'CSV is larger than 5 MB; split it into smaller files' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const parsed = parseSuppressionCsv(params.csv);
+      const result = await addSuppressionEntries(supabase, user.id, parsed.entries, 'csv_import');
+      console.log(`User ${user.id} imported ${result.added} suppression entries from ${parsed.rows} rows`);
+      return new Response(
+        JSON.stringify({ ...result, rows: parsed.rows, skipped: parsed.skipped }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation === 'delete') {
+      const ids = Array.isArray(params.ids) ? params.ids : [];
+      if (ids.length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'ids is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      return new Response(
+        JSON.stringify({ deleted: await deleteSuppressionEntries(supabase, user.id, ids) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Invalid operation. Use "list", "add", "import" or "delete"' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in suppression-lists function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,203 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isAdmin } from "../lib/auth.ts";
+import { featureVectorFromRows } from "../lib/ml-scoring-engine.ts";
+import {
+  labelOutcome,
+  MIN_TRAINING_EXAMPLES,
+  Outcome,
+  resolveOutcome,
+  TrainingExample,
+  TrainingOptions,
+  trainScoringModel,
+} from "../lib/scoring-model.ts";
+import { listModels, promoteModel, saveCandidateModel } from "../lib/scoring-model-store.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Rows per request when paging through outcomes and businesses
+const PAGE_SIZE = 1000;
+const BUSINESS_BATCH = 200;
+// Most recent labelled leads a training run reads
+const MAX_TRAINING_LEADS = 10000;
+
+// Latest status per business, then won/lost opportunities on top
+async function loadOutcomes(): Promise<Map<string, Outcome>> {
+  const latestStatus = new Map<string, string>();
+  for (let from = 0; from < MAX_TRAINING_LEADS * 2; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('status_logs')
+      .select('business_id, status')
+      .not('business_id', 'is', null)
+      .not('status', 'is', null)
+      .order('changed_at', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(`Failed to load lead statuses: ${error.message}`);
+    }
+    for (const row of data ?? []) {
+      if (!latestStatus.has(row.business_id)) latestStatus.set(row.business_id, row.status);
+    }
+    if ((data ?? []).length < PAGE_SIZE) break;
+  }
+
+  const { data: opportunities, error } = await supabase
+    .from('opportunities')
+    .select('lead_id, stage')
+    .in('stage', ['Won', 'Lost'])
+    .limit(MAX_TRAINING_LEADS);
+  if (error) {
+    throw new Error(`Failed to load opportunities: ${error.message}`);
+  }
+  const stages = new Map(
+    ((opportunities ?? []) as Array<{ lead_id: string; stage: string }>).map((row) => [row.lead_id, row.stage]),
+  );
+
+  const outcomes = new Map<string, Outcome>();
+  for (const businessId of new Set([...latestStatus.keys(), ...stages.keys()])) {
+    const outcome = resolveOutcome(latestStatus.get(businessId), stages.get(businessId));
+    if (outcome && outcomes.size < MAX_TRAINING_LEADS) outcomes.set(businessId, outcome);
+  }
+  return outcomes;
+}
+
+async function loadExamples(outcomes: Map<string, Outcome>): Promise<TrainingExample[]> {
+  const ids = [...outcomes.keys()];
+  const examples: TrainingExample[] = [];
+  for (let i = 0; i < ids.length; i += BUSINESS_BATCH) {
+    const { data, error } = await supabase
+      .from('businesses')
+      .select('id, vertical, phone, franchise_bool, signals(type, value_json, confidence)')
+      .in('id', ids.slice(i, i + BUSINESS_BATCH))
+      .is('duplicate_of', null);
+    if (error) {
+      throw new Error(`Failed to load businesses: ${error.message}`);
+    }
+    for (const business of data ?? []) {
+      examples.push({
+        business_id: business.id,
+        features: await featureVectorFromRows(business, business.signals || []),
+        outcome: outcomes.get(business.id)!,
+      });
+    }
+  }
+  return examples;
+}
+
+// Offline training of learned scoring models and promotion of one as the
+// active scorer. Listing is open to every user; training and promotion need
+// an admin.
+//   { operation: 'list' }                    -> { models, can_edit }
+//   { operation: 'train', options? }         -> { model } (a stored candidate)
+//   { operation: 'promote', id }             -> { promoted } (id null reverts to the rules)
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { operation, ...params } = await req.json();
+
+    if (operation === 'list') {
+      return new Response(
+        JSON.stringify({ models: await listModels(supabase), can_edit: isAdmin(user) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!isAdmin(user)) {
+      return new Response(
+        JSON.stringify({ error: 'Only admins can train or promote scoring models' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation === 'train') {
+      const examples = await loadExamples(await loadOutcomes());
+      const positives = examples.filter((example) => labelOutcome(example.outcome) === 1).length;
+      if (examples.length < MIN_TRAINING_EXAMPLES || positives === 0 || positives === examples.length) {
+        return new Response(
+          JSON.stringify({
+            error: `Need at least ${MIN_TRAINING_EXAMPLES} labelled leads with both positive and negative outcomes; ` +
+              `found ${positives} positive and ${examples.length - positives} negative`,
+          }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const version = `v${new Date().toISOString().slice(0, 16).replace(/[-:T]/g, '')}`;
+      const { model, metrics } = trainScoringModel(examples, version, (params.options ?? {}) as TrainingOptions);
+      const stored = await saveCandidateModel(supabase, model, metrics, user.id);
+      console.log(`User ${user.id} trained scoring model ${version}: AUC ${metrics.auc.toFixed(3)} on ${metrics.holdout_examples} holdout leads`);
+      return new Response(
+        JSON.stringify({ model: stored }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation === 'promote') {
+      if (params.id === undefined) {
+        return new Response(
+          JSON.stringify({ error: 'id is required (null to revert to rule-based scoring)' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (params.id) {
+        const { data, error } = await supabase.from('scoring_models').select('id').eq('id', params.id).maybeSingle();
+        if (error) {
+          throw new Error(`Failed to load scoring model: ${error.message}`);
+        }
+        if (!data) {
+          return new Response(
+            JSON.stringify({ error: 'Scoring model not found' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+      }
+
+      await promoteModel(supabase, params.id, user.id);
+      console.log(`User ${user.id} promoted scoring model ${params.id ?? '(rule-based)'}`);
+      return new Response(
+        JSON.stringify({ promoted: params.id }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Invalid operation. Use "list", "train" or "promote"' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in train-scoring-model function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,192 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isAdmin } from "../lib/auth.ts";
+import { deleteFingerprint, listFingerprints, loadFingerprints, saveFingerprint } from "../lib/fingerprint-store.ts";
+import { SNAPSHOT_ARTIFACT_TYPE } from "../lib/html-snapshots.ts";
+import { loadHtmlSnapshot } from "../lib/snapshot-store.ts";
+import { detectVendors, PageSnapshot, validateFingerprint, VendorFingerprint } from "../lib/vendor-fingerprints.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type SnapshotRow = {
+  id: string;
+  business_id: string;
+  uri: string;
+  created_at: string;
+  businesses: { name: string; lead_views: unknown[] };
+};
+
+// Snapshots of businesses that turned up in one of the user's own searches.
+// Artifacts hang off shared businesses, so ownership goes through lead_views.
+function ownSnapshots(userId: string) {
+  return supabase
+    .from('artifacts')
+    .select('id, business_id, uri, created_at, businesses!inner(name, lead_views!inner(search_jobs!inner(user_id)))')
+    .eq('type', SNAPSHOT_ARTIFACT_TYPE)
+    .eq('businesses.lead_views.search_jobs.user_id', userId);
+}
+
+// The page a fingerprint is tested against: one of the user's stored
+// snapshots or pasted HTML. Live URLs are not fetched; the server would
+// request any address the caller supplied.
+async function loadSnapshot(
+  userId: string,
+  params: { artifact_id?: string; html?: string; headers?: Record<string, string>; url?: string }
+): Promise<PageSnapshot> {
+  if (params.artifact_id) {
+    const { data, error } = await ownSnapshots(userId).eq('id', params.artifact_id).limit(1);
+    if (error) throw new Error(`Failed to load snapshot: ${error.message}`);
+    if (!data || data.length === 0) throw new Error(`Snapshot ${params.artifact_id} not found`);
+
+    const snapshot = await loadHtmlSnapshot(supabase, params.artifact_id);
+    return { url: snapshot.uri, html: snapshot.html, headers: snapshot.headers };
+  }
+
+  if (params.html) {
+    return { url: params.url, html: params.html, headers: params.headers };
+  }
+
+  throw new Error('artifact_id or html is required');
+}
+
+// Vendor fingerprint database. Every website analysis runs the same
+// fingerprints, so only admins may save or delete them.
+//   { operation: 'list' }                                   -> { fingerprints, can_edit }
+//   { operation: 'snapshots', limit? }                      -> { snapshots }
+//   { operation: 'test', fingerprint?, artifact_id | html } -> { matches, problems }
+//   { operation: 'save', fingerprint, enabled? }            -> { fingerprint }
+//   { operation: 'delete', id }                             -> { deleted }
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { operation, ...params } = await req.json();
+
+    if (operation === 'list') {
+      return new Response(
+        JSON.stringify({ fingerprints: await listFingerprints(supabase), can_edit: isAdmin(user) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation === 'snapshots') {
+      const { data, error } = await ownSnapshots(user.id)
+        .order('created_at', { ascending: false })
+        .limit(Math.min(Number(params.limit) || 25, 100));
+
+      if (error) throw new Error(`Failed to load snapshots: ${error.message}`);
+      // One row per snapshot; the lead_views join only filters
+      const snapshots = ((data ?? []) as SnapshotRow[]).map(({ businesses, ...snapshot }) => ({
+        ...snapshot,
+        businesses: { name: businesses.name }
+      }));
+      return new Response(
+        JSON.stringify({ snapshots }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation === 'test') {
+      const fingerprint = params.fingerprint as VendorFingerprint | undefined;
+      const problems = fingerprint ? validateFingerprint(fingerprint) : [];
+      if (problems.length > 0) {
+        return new Response(
+          JSON.stringify({ matches: [], problems }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const snapshot = await loadSnapshot(user.id, params);
+      // Without a draft fingerprint, show everything the live database detects
+      const fingerprints = fingerprint ? [fingerprint] : await loadFingerprints(supabase);
+      return new Response(
+        JSON.stringify({ matches: detectVendors(snapshot, fingerprints), problems, url: snapshot.url }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if ((operation === 'save' || operation === 'delete') && !isAdmin(user)) {
+      return new Response(
+        JSON.stringify({ error: 'Only admins can change vendor fingerprints' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation === 'save') {
+      const fingerprint = params.fingerprint as VendorFingerprint | undefined;
+      if (!fingerprint) {
+        return new Response(
+          JSON.stringify({ error: 'fingerprint is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const problems = validateFingerprint(fingerprint);
+      if (problems.length > 0) {
+        return new Response(
+          JSON.stringify({ error: `Invalid fingerprint: ${problems.join('; ')}`, problems }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      await saveFingerprint(supabase, fingerprint, { enabled: params.enabled, userId: user.id });
+      console.log(`User ${user.id} saved fingerprint ${fingerprint.id}`);
+      return new Response(
+        JSON.stringify({ fingerprint }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation === 'delete') {
+      if (!params.id) {
+        return new Response(
+          JSON.stringify({ error: 'id is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      await deleteFingerprint(supabase, params.id);
+      return new Response(
+        JSON.stringify({ deleted: params.id }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Invalid operation. Use "list", "snapshots", "test", "save" or "delete"' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in vendor-fingerprints function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,114 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isAdmin } from "../lib/auth.ts";
+import { deleteVertical, listVerticals, saveVertical } from "../lib/vertical-store.ts";
+import { BUILT_IN_VERTICALS, GENERIC_VERTICAL, validateVertical, VerticalDefinition } from "../lib/verticals.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Vertical taxonomy. Everyone can list it; changes need an admin.
+//   { operation: 'list' }                        -> { verticals, can_edit }
+//   { operation: 'save', vertical, enabled? }    -> { vertical }
+//   { operation: 'delete', id }                  -> { deleted, restored_built_in }
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { operation, ...params } = await req.json();
+
+    if (operation === 'list') {
+      return new Response(
+        JSON.stringify({ verticals: await listVerticals(supabase), can_edit: isAdmin(user) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!isAdmin(user)) {
+      return new Response(
+        JSON.stringify({ error: 'Only admins can change the vertical taxonomy' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation === 'save') {
+      const vertical = params.vertical as VerticalDefinition | undefined;
+      if (!vertical) {
+        return new Response(
+          JSON.stringify({ error: 'vertical is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const problems = validateVertical(vertical);
+      if (vertical.id === GENERIC_VERTICAL && params.enabled === false) {
+        problems.push('generic is the fallback for unknown verticals and cannot be disabled');
+      }
+      if (problems.length > 0) {
+        return new Response(
+          JSON.stringify({ error: `Invalid vertical: ${problems.join('; ')}`, problems }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      await saveVertical(supabase, vertical, { enabled: params.enabled, userId: user.id });
+      console.log(`User ${user.id} saved vertical ${vertical.id}`);
+      return new Response(
+        JSON.stringify({ vertical }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation === 'delete') {
+      if (!params.id) {
+        return new Response(
+          JSON.stringify({ error: 'id is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      await deleteVertical(supabase, params.id);
+      const restored = BUILT_IN_VERTICALS.some((vertical) => vertical.id === params.id);
+      return new Response(
+        JSON.stringify({ deleted: params.id, restored_built_in: restored }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Invalid operation. Use "list", "save" or "delete"' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in verticals function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
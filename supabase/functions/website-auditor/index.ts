@@ -1,6 +1,11 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { loadFingerprints } from "../lib/fingerprint-store.ts";
+import { CrawledPage, crawlSite, CrawlResult, PageKind } from "../lib/site-crawler.ts";
+import { findBusinessIdForWebsite, storeHtmlSnapshot } from "../lib/snapshot-store.ts";
+import { BUILT_IN_FINGERPRINTS } from "../lib/vendor-fingerprint-db.ts";
+import { detectVendors, FingerprintCategory, VendorFingerprint, VendorMatch } from "../lib/vendor-fingerprints.ts";
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
@@ -19,8 +24,13 @@ interface EvidenceEntry {
   source: 'dom' | 'headers' | 'links' | 'vendor_detection';
   url: string;
   path?: string;
+  page_kind?: PageKind; // what the crawled page looks like (contact, team, booking, ...)
+  depth?: number; // link hops from the home page
   selector?: string;
   snippet?: string;
+  match_text?: string; // exact text matched in the page, for highlighting
+  artifact_id?: string; // html_snapshot artifact of the page this was observed on
+  artifact_ids?: string[]; // every page snapshot behind an absence claim
   status: 'found' | 'not_found' | 'error';
   confidence: number; // 0-1
 }
@@ -57,62 +67,48 @@ interface WebsiteAuditResult {
   evidence_log: EvidenceEntry[];
   confidence_score: number;
   audit_timestamp: string;
+  crawl?: CrawlSummary;
 }
 
-// Booking vendor patterns as specified in the requirements
-const BOOKING_VENDOR_PATTERNS = [
-  'calendly',
-  'acuityscheduling',
-  'squareup.com/appointments',
-  'housecallpro',
-  'servicetitan',
-  'scheduleengine',
-  'setmore',
-  'thryv',
-  'workiz',
-  'nexhealth',
-  'zocdoc',
-  'mindbodyonline',
-  'jane.app',
-  'tebra.com',
-  'getjobber.com',
-  'bookedin.com',
-  'appointy.com',
-  'simplybook.me'
-];
-
-// Chatbot vendor patterns
-const CHATBOT_VENDOR_PATTERNS = [
-  'intercom',
-  'drift',
-  'tidio',
-  'crisp',
-  'livechat',
-  'zopim',
-  'zendesk',
-  'hubspot/js/hs-chat',
-  'botpress',
-  'manychat',
-  'smartsupp',
-  'tawk.to',
-  'freshchat',
-  'olark'
-];
+interface CrawlSummary {
+  pages_crawled: number;
+  pages_skipped: number;
+  robots_txt_found: boolean;
+  discovered_pages: Partial<Record<PageKind, string[]>>;
+  snapshots_stored: number;
+}
 
-// Payment processor patterns
-const PAYMENT_PROCESSOR_PATTERNS = [
-  'stripe',
-  'paypal',
-  'square',
-  'authorize.net',
-  'braintree',
-  'venmo',
-  'cashapp',
-  'zelle',
-  'quickbooks/payments'
-];
+// Fingerprint categories the audit reports on
+const AUDITED_CATEGORIES: FingerprintCategory[] = ['booking', 'chatbot', 'payment_processors'];
+
+function vendorEvidence(
+  vendor: VendorMatch,
+  page: CrawledPage,
+  checkType: EvidenceEntry['check_type'],
+  label: string,
+  timestamp: string,
+  artifactId?: string
+): EvidenceEntry {
+  const [strongest] = vendor.evidence;
+  return {
+    timestamp,
+    check_type: checkType,
+    source: 'vendor_detection',
+    url: page.url,
+    path: page.path,
+    page_kind: page.kind,
+    depth: page.depth,
+    selector: strongest.kind === 'dom' ? strongest.pattern : undefined,
+    match_text: strongest.matched,
+    artifact_id: artifactId,
+    status: 'found',
+    confidence: vendor.confidence,
+    snippet: `${vendor.name} ${label} detected (${strongest.kind}: ${strongest.snippet})`
+  };
+}
 
-// Website paths to check for booking functionality
+// Paths always fetched in addition to whatever the crawler discovers, for
+// sites whose booking page is not linked from the pages we reach
 const DEFAULT_BOOKING_PATHS = [
   '/',
   '/book',
@@ -125,11 +121,24 @@ const DEFAULT_BOOKING_PATHS = [
   '/online-booking'
 ];
 
-// Deterministic website auditing with evidence logging
-async function auditWebsiteFeatures(websiteUrl: string, pathsToCheck?: string[]): Promise<WebsiteAuditResult> {
+type AuditOptions = {
+  maxPages?: number;
+  maxDepth?: number;
+  fingerprints?: VendorFingerprint[];
+  businessId?: string | null; // owner of the html_snapshot artifacts; snapshots are skipped without one
+};
+
+// Deterministic website auditing with evidence logging. Crawls the site from
+// the home page (see lib/site-crawler.ts) and runs every detector on each page.
+async function auditWebsiteFeatures(
+  websiteUrl: string,
+  pathsToCheck?: string[],
+  options: AuditOptions = {}
+): Promise<WebsiteAuditResult> {
   const evidenceLog: EvidenceEntry[] = [];
   const auditTimestamp = new Date().toISOString();
   const pathsToAudit = pathsToCheck || DEFAULT_BOOKING_PATHS;
+  const fingerprints = options.fingerprints ?? BUILT_IN_FINGERPRINTS;
   
   let hasWebsite = false;
   let sslCertificate = false;
@@ -147,6 +156,7 @@ async function auditWebsiteFeatures(websiteUrl: string, pathsToCheck?: string[])
   const paymentEvidence: EvidenceEntry[] = [];
   const sslEvidence: EvidenceEntry[] = [];
   const mobileEvidence: EvidenceEntry[] = [];
+  const snapshotIds: string[] = [];
 
   // If no website URL provided, mark as no website
   if (!websiteUrl || websiteUrl.trim() === '') {
@@ -198,40 +208,75 @@ async function auditWebsiteFeatures(websiteUrl: string, pathsToCheck?: string[])
   sslEvidence.push(sslEvidenceEntry);
   evidenceLog.push(sslEvidenceEntry);
 
-  // Audit each path for booking detection and other features
-  for (const path of pathsToAudit) {
-    const fullUrl = path === '/' ? normalizedUrl : normalizedUrl.replace(/\/$/, '') + path;
-    
+  // Crawl same-origin pages: the home page, then the requested paths it links
+  // to and whatever other contact/about/team/services/booking pages it links to
+  const crawl = await crawlSite(normalizedUrl, {
+    seedPaths: pathsToAudit,
+    maxPages: options.maxPages,
+    maxDepth: options.maxDepth
+  });
+
+  for (const skipped of crawl.skipped.filter(entry => entry.reason === 'robots')) {
+    evidenceLog.push({
+      timestamp: auditTimestamp,
+      check_type: 'website',
+      source: 'links',
+      url: skipped.url,
+      path: new URL(skipped.url).pathname,
+      status: 'not_found',
+      confidence: 1.0,
+      snippet: 'Skipped: disallowed by robots.txt'
+    });
+  }
+
+  // Audit each crawled page for booking detection and other features
+  for (const page of crawl.pages) {
+    const fullUrl = page.url;
+    const path = page.path;
+
     try {
-      console.log(`Auditing: ${fullUrl}`);
-      
-      // Fetch page content
-      const response = await fetch(fullUrl, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; LeadFinder/1.0; Website Auditor)',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
-        },
-        signal: AbortSignal.timeout(10000) // 10 second timeout
-      });
+      console.log(`Auditing: ${fullUrl} (${page.kind}, depth ${page.depth})`);
+
+      if (page.error) {
+        throw new Error(page.error);
+      }
 
-      if (!response.ok) {
+      if (page.html === undefined) {
         const errorEvidence: EvidenceEntry = {
-          timestamp: auditTimestamp,
+          timestamp: page.fetched_at,
           check_type: 'website',
           source: 'dom',
           url: fullUrl,
           path: path,
+          page_kind: page.kind,
+          depth: page.depth,
           status: 'error',
           confidence: 1.0,
-          snippet: `HTTP ${response.status} error`
+          snippet: `HTTP ${page.status} error`
         };
         evidenceLog.push(errorEvidence);
         continue;
       }
 
       hasWebsite = true;
-      const html = await response.text();
+      const html = page.html;
       const htmlLower = html.toLowerCase();
+      const artifactId = await snapshotPage(options.businessId, page);
+      if (artifactId) snapshotIds.push(artifactId);
+
+      evidenceLog.push({
+        timestamp: page.fetched_at,
+        check_type: 'website',
+        source: 'links',
+        url: fullUrl,
+        path: path,
+        page_kind: page.kind,
+        depth: page.depth,
+        artifact_id: artifactId,
+        status: 'found',
+        confidence: 1.0,
+        snippet: page.discovered_from ? `Crawled ${page.kind} page linked from ${page.discovered_from}` : `Crawled ${page.kind} page`
+      });
 
       // Check for mobile responsive meta tag
       if (!mobileResponsive && htmlLower.includes('viewport')) {
@@ -242,7 +287,10 @@ async function auditWebsiteFeatures(websiteUrl: string, pathsToCheck?: string[])
           source: 'dom',
           url: fullUrl,
           path: path,
+          page_kind: page.kind,
+          depth: page.depth,
           selector: 'meta[name="viewport"]',
+          artifact_id: artifactId,
           status: 'found',
           confidence: 0.9,
           snippet: 'Viewport meta tag detected'
@@ -251,26 +299,19 @@ async function auditWebsiteFeatures(websiteUrl: string, pathsToCheck?: string[])
         evidenceLog.push(mobileEvidenceEntry);
       }
 
-      // Check for booking vendor patterns
-      for (const vendor of BOOKING_VENDOR_PATTERNS) {
-        if (htmlLower.includes(vendor.toLowerCase())) {
-          onlineBookingFound = true;
-          bookingVendor = vendor;
-          
-          const bookingEvidenceEntry: EvidenceEntry = {
-            timestamp: auditTimestamp,
-            check_type: 'booking',
-            source: 'vendor_detection',
-            url: fullUrl,
-            path: path,
-            status: 'found',
-            confidence: 0.95,
-            snippet: `${vendor} booking system detected in HTML`
-          };
-          bookingEvidence.push(bookingEvidenceEntry);
-          evidenceLog.push(bookingEvidenceEntry);
-          break;
-        }
+      // Vendor widgets, matched against the fingerprint database
+      const vendors = detectVendors({ url: fullUrl, html, headers: page.headers }, fingerprints, AUDITED_CATEGORIES);
+      const bookingMatch = vendors.find(vendor => vendor.category === 'booking');
+      const chatbotMatch = vendors.find(vendor => vendor.category === 'chatbot');
+      const paymentMatch = vendors.find(vendor => vendor.category === 'payment_processors');
+
+      if (bookingMatch) {
+        onlineBookingFound = true;
+        bookingVendor = bookingMatch.name;
+
+        const bookingEvidenceEntry = vendorEvidence(bookingMatch, page, 'booking', 'booking system', auditTimestamp, artifactId);
+        bookingEvidence.push(bookingEvidenceEntry);
+        evidenceLog.push(bookingEvidenceEntry);
       }
 
       // Check for booking-related buttons/links (if no vendor detected)
@@ -293,6 +334,10 @@ async function auditWebsiteFeatures(websiteUrl: string, pathsToCheck?: string[])
               source: 'dom',
               url: fullUrl,
               path: path,
+              page_kind: page.kind,
+              depth: page.depth,
+              match_text: match[0],
+              artifact_id: artifactId,
               status: 'found',
               confidence: 0.8,
               snippet: match[0].substring(0, 100)
@@ -304,48 +349,22 @@ async function auditWebsiteFeatures(websiteUrl: string, pathsToCheck?: string[])
         }
       }
 
-      // Check for chatbot vendor patterns
-      for (const vendor of CHATBOT_VENDOR_PATTERNS) {
-        if (htmlLower.includes(vendor.toLowerCase())) {
-          chatbotFound = true;
-          chatbotVendor = vendor;
-          
-          const chatbotEvidenceEntry: EvidenceEntry = {
-            timestamp: auditTimestamp,
-            check_type: 'features',
-            source: 'vendor_detection',
-            url: fullUrl,
-            path: path,
-            status: 'found',
-            confidence: 0.95,
-            snippet: `${vendor} chatbot system detected in HTML`
-          };
-          chatbotEvidence.push(chatbotEvidenceEntry);
-          evidenceLog.push(chatbotEvidenceEntry);
-          break;
-        }
+      if (chatbotMatch) {
+        chatbotFound = true;
+        chatbotVendor = chatbotMatch.name;
+
+        const chatbotEvidenceEntry = vendorEvidence(chatbotMatch, page, 'features', 'chatbot system', auditTimestamp, artifactId);
+        chatbotEvidence.push(chatbotEvidenceEntry);
+        evidenceLog.push(chatbotEvidenceEntry);
       }
 
-      // Check for payment processor patterns
-      for (const vendor of PAYMENT_PROCESSOR_PATTERNS) {
-        if (htmlLower.includes(vendor.toLowerCase())) {
-          paymentProcessorFound = true;
-          paymentVendor = vendor;
-          
-          const paymentEvidenceEntry: EvidenceEntry = {
-            timestamp: auditTimestamp,
-            check_type: 'features',
-            source: 'vendor_detection',
-            url: fullUrl,
-            path: path,
-            status: 'found',
-            confidence: 0.9,
-            snippet: `${vendor} payment processor detected in HTML`
-          };
-          paymentEvidence.push(paymentEvidenceEntry);
-          evidenceLog.push(paymentEvidenceEntry);
-          break;
-        }
+      if (paymentMatch) {
+        paymentProcessorFound = true;
+        paymentVendor = paymentMatch.name;
+
+        const paymentEvidenceEntry = vendorEvidence(paymentMatch, page, 'features', 'payment processor', auditTimestamp, artifactId);
+        paymentEvidence.push(paymentEvidenceEntry);
+        evidenceLog.push(paymentEvidenceEntry);
       }
 
     } catch (error) {
@@ -356,6 +375,8 @@ async function auditWebsiteFeatures(websiteUrl: string, pathsToCheck?: string[])
         source: 'dom',
         url: fullUrl,
         path: path,
+        page_kind: page.kind,
+        depth: page.depth,
         status: 'error',
         confidence: 0.5,
         snippet: `Fetch error: ${error.message}`
@@ -364,16 +385,18 @@ async function auditWebsiteFeatures(websiteUrl: string, pathsToCheck?: string[])
     }
   }
 
+  const successfulPageChecks = crawl.pages.filter(page => page.html !== undefined).length;
+
   // Add negative evidence if features not found (requirement: ≥2 negatives for absence claims)
   // Enforce ≥2 negative evidence entries for high-confidence absence claims
   if (!onlineBookingFound) {
-    const successfulPageChecks = evidenceLog.filter(e => e.status !== 'error' && e.check_type === 'website').length;
     if (successfulPageChecks >= 2) {
       const negativeBookingEvidence: EvidenceEntry = {
         timestamp: auditTimestamp,
         check_type: 'booking',
         source: 'dom',
         url: normalizedUrl,
+        artifact_ids: snapshotIds,
         status: 'not_found',
         confidence: 0.95, // High confidence with ≥2 checks
         snippet: `No booking functionality detected across ${successfulPageChecks} successfully checked pages`
@@ -387,6 +410,7 @@ async function auditWebsiteFeatures(websiteUrl: string, pathsToCheck?: string[])
         check_type: 'booking',
         source: 'dom',
         url: normalizedUrl,
+        artifact_ids: snapshotIds,
         status: 'not_found',
         confidence: 0.6, // Lower confidence with <2 checks
         snippet: `Limited evidence: only ${successfulPageChecks} pages successfully checked`
@@ -397,13 +421,13 @@ async function auditWebsiteFeatures(websiteUrl: string, pathsToCheck?: string[])
   }
 
   if (!chatbotFound) {
-    const successfulPageChecks = evidenceLog.filter(e => e.status !== 'error' && e.check_type === 'website').length;
     if (successfulPageChecks >= 2) {
       const negativeChatbotEvidence: EvidenceEntry = {
         timestamp: auditTimestamp,
         check_type: 'features',
         source: 'dom',
         url: normalizedUrl,
+        artifact_ids: snapshotIds,
         status: 'not_found',
         confidence: 0.9, // High confidence with ≥2 checks
         snippet: `No chatbot detected across ${successfulPageChecks} successfully checked pages`
@@ -416,6 +440,7 @@ async function auditWebsiteFeatures(websiteUrl: string, pathsToCheck?: string[])
         check_type: 'features',
         source: 'dom',
         url: normalizedUrl,
+        artifact_ids: snapshotIds,
         status: 'not_found',
         confidence: 0.5, // Lower confidence with <2 checks
         snippet: `Limited evidence: only ${successfulPageChecks} pages successfully checked`
@@ -426,9 +451,8 @@ async function auditWebsiteFeatures(websiteUrl: string, pathsToCheck?: string[])
   }
 
   // Calculate overall confidence score
-  const totalChecks = pathsToAudit.length;
-  const successfulChecks = evidenceLog.filter(e => e.status !== 'error').length;
-  const confidenceScore = totalChecks > 0 ? successfulChecks / totalChecks : 0;
+  const totalChecks = crawl.pages.length;
+  const confidenceScore = totalChecks > 0 ? successfulPageChecks / totalChecks : 0;
 
   return {
     website_url: normalizedUrl,
@@ -460,7 +484,44 @@ async function auditWebsiteFeatures(websiteUrl: string, pathsToCheck?: string[])
     },
     evidence_log: evidenceLog,
     confidence_score: confidenceScore,
-    audit_timestamp: auditTimestamp
+    audit_timestamp: auditTimestamp,
+    crawl: summarizeCrawl(crawl, snapshotIds.length)
+  };
+}
+
+// Keeps the page as an html_snapshot artifact so evidence can point at exactly
+// what was fetched. Storage problems never fail the audit itself.
+async function snapshotPage(businessId: string | null | undefined, page: CrawledPage): Promise<string | undefined> {
+  if (!businessId || page.html === undefined) return undefined;
+
+  try {
+    return await storeHtmlSnapshot(supabase, businessId, {
+      url: page.url,
+      html: page.html,
+      status: page.status,
+      headers: page.headers,
+      fetched_at: page.fetched_at,
+      kind: page.kind
+    });
+  } catch (error) {
+    console.error(`Could not store snapshot of ${page.url}:`, error);
+    return undefined;
+  }
+}
+
+function summarizeCrawl(crawl: CrawlResult, snapshotsStored: number): CrawlSummary {
+  const discovered: Partial<Record<PageKind, string[]>> = {};
+  for (const page of crawl.pages) {
+    if (page.html === undefined) continue;
+    discovered[page.kind] = [...(discovered[page.kind] ?? []), page.path];
+  }
+
+  return {
+    pages_crawled: crawl.pages.length,
+    pages_skipped: crawl.skipped.length,
+    robots_txt_found: crawl.robots_txt_found,
+    discovered_pages: discovered,
+    snapshots_stored: snapshotsStored
   };
 }
 
@@ -471,7 +532,7 @@ serve(async (req) => {
   }
 
   try {
-    const { website_url, paths_to_check } = await req.json();
+    const { website_url, paths_to_check, max_pages, max_depth, business_id, store_snapshots = true } = await req.json();
 
     if (!website_url) {
       return new Response(
@@ -480,7 +541,18 @@ serve(async (req) => {
       );
     }
 
-    const auditResult = await auditWebsiteFeatures(website_url, paths_to_check);
+    // Snapshots belong to a business: the one given, else the canonical
+    // business already known for this website's domain
+    const businessId = store_snapshots
+      ? business_id ?? await findBusinessIdForWebsite(supabase, website_url).catch(() => null)
+      : null;
+
+    const auditResult = await auditWebsiteFeatures(website_url, paths_to_check, {
+      maxPages: max_pages,
+      maxDepth: max_depth,
+      fingerprints: await loadFingerprints(supabase),
+      businessId
+    });
 
     return new Response(
       JSON.stringify({ audit_result: auditResult }),
@@ -0,0 +1,12 @@
+-- Stamp every scored lead with the version of the shared scoring model that produced it
+ALTER TABLE public.lead_views
+ADD COLUMN IF NOT EXISTS model_version TEXT;
+
+-- Businesses already carry lead_score/scoring_breakdown in some environments; make sure they exist
+ALTER TABLE public.businesses
+ADD COLUMN IF NOT EXISTS lead_score INTEGER,
+ADD COLUMN IF NOT EXISTS scoring_breakdown JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_lead_views_model_version ON public.lead_views(model_version);
+
+COMMENT ON COLUMN public.lead_views.model_version IS 'SCORING_MODEL_VERSION from supabase/functions/lib/scoring-service.ts at the time the score was written';
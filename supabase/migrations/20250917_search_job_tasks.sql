@@ -0,0 +1,222 @@
+-- supabase/migrations/20250917_search_job_tasks.sql
+-- Durable task queue for the search pipeline. A search job fans out into
+-- fetch -> enrich -> score tasks and finishes with a single validate task.
+-- Workers lease tasks with SKIP LOCKED so several invocations can drain the
+-- queue concurrently; expired leases are reclaimed, failed tasks are retried
+-- with exponential backoff and end up in the dead-letter state after
+-- max_attempts.
+
+CREATE TABLE IF NOT EXISTS public.search_job_tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  search_job_id UUID NOT NULL REFERENCES public.search_jobs(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('fetch','enrich','score','validate')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','leased','completed','dead')),
+  dedupe_key TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  result JSONB,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT now(),
+  leased_by TEXT,
+  leased_until TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  -- Re-running a fan-out after a crash must not enqueue the same work twice
+  UNIQUE (search_job_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_job_tasks_ready
+  ON public.search_job_tasks (run_after)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_search_job_tasks_lease
+  ON public.search_job_tasks (leased_until)
+  WHERE status = 'leased';
+CREATE INDEX IF NOT EXISTS idx_search_job_tasks_job
+  ON public.search_job_tasks (search_job_id, status);
+
+ALTER TABLE public.search_job_tasks ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'search_job_tasks' AND policyname = 'Users can view tasks of their own search jobs'
+  ) THEN
+    CREATE POLICY "Users can view tasks of their own search jobs" ON public.search_job_tasks
+      FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.search_jobs j WHERE j.id = search_job_id AND j.user_id = auth.uid())
+      );
+  END IF;
+END$$;
+
+-- Lease up to p_limit runnable tasks. Pending tasks whose backoff has elapsed
+-- and leased tasks whose worker died (lease expired) are both eligible. An
+-- expired lease counts as a failed attempt: once it has used up max_attempts
+-- the task is dead-lettered instead of being leased again, so a task that
+-- keeps crashing its worker cannot retry forever.
+CREATE OR REPLACE FUNCTION public.lease_search_job_tasks(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_lease_seconds INTEGER DEFAULT 120,
+  p_search_job_id UUID DEFAULT NULL
+)
+RETURNS SETOF public.search_job_tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.search_job_tasks
+  SET status = 'dead',
+      last_error = COALESCE(last_error || '; ', '') || 'Lease expired after attempt ' || attempts || ' (worker crashed or timed out)',
+      leased_by = NULL,
+      leased_until = NULL,
+      updated_at = now()
+  WHERE status = 'leased'
+    AND leased_until < now()
+    AND attempts >= max_attempts
+    AND (p_search_job_id IS NULL OR search_job_id = p_search_job_id);
+
+  RETURN QUERY
+  UPDATE public.search_job_tasks t
+  SET status = 'leased',
+      leased_by = p_worker,
+      leased_until = now() + make_interval(secs => p_lease_seconds),
+      attempts = t.attempts + 1,
+      updated_at = now()
+  WHERE t.id IN (
+    SELECT c.id
+    FROM public.search_job_tasks c
+    WHERE (p_search_job_id IS NULL OR c.search_job_id = p_search_job_id)
+      AND (
+        (c.status = 'pending' AND c.run_after <= now())
+        OR (c.status = 'leased' AND c.leased_until < now() AND c.attempts < c.max_attempts)
+      )
+    ORDER BY c.run_after, c.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING t.*;
+END;
+$$;
+
+-- Acknowledge a leased task. Only the current lease holder can complete it.
+CREATE OR REPLACE FUNCTION public.complete_search_job_task(
+  p_task_id UUID,
+  p_worker TEXT,
+  p_result JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.search_job_tasks
+  SET status = 'completed',
+      result = p_result,
+      leased_by = NULL,
+      leased_until = NULL,
+      completed_at = now(),
+      updated_at = now()
+  WHERE id = p_task_id AND status = 'leased' AND leased_by = p_worker;
+  RETURN FOUND;
+END;
+$$;
+
+-- Record a failure. The task is rescheduled with exponential backoff
+-- (p_base_delay_seconds * 2^(attempts-1), capped at one hour) or moved to the
+-- dead-letter state once it has used up max_attempts. Returns the new status.
+CREATE OR REPLACE FUNCTION public.fail_search_job_task(
+  p_task_id UUID,
+  p_worker TEXT,
+  p_error TEXT,
+  p_base_delay_seconds INTEGER DEFAULT 5
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  UPDATE public.search_job_tasks
+  SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'pending' END,
+      run_after = now() + make_interval(secs => LEAST(3600, p_base_delay_seconds * power(2, GREATEST(attempts - 1, 0)))),
+      last_error = p_error,
+      leased_by = NULL,
+      leased_until = NULL,
+      updated_at = now()
+  WHERE id = p_task_id AND status = 'leased' AND leased_by = p_worker
+  RETURNING status INTO v_status;
+  RETURN v_status;
+END;
+$$;
+
+-- Put dead-lettered tasks back on the queue (e.g. after fixing an API key).
+CREATE OR REPLACE FUNCTION public.requeue_dead_search_job_tasks(p_search_job_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.search_job_tasks
+  SET status = 'pending', attempts = 0, run_after = now(), last_error = NULL, updated_at = now()
+  WHERE search_job_id = p_search_job_id AND status = 'dead';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- The queue functions bypass row-level security, so only the service role
+-- (the edge functions) may call them; over RPC any client could otherwise
+-- lease, fail or requeue another user's tasks
+REVOKE EXECUTE ON FUNCTION public.lease_search_job_tasks(TEXT, INTEGER, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_search_job_task(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_search_job_task(UUID, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.requeue_dead_search_job_tasks(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Dead-letter view for inspection and alerting. security_invoker applies the
+-- task policies to the caller, so users only see their own jobs' dead letters.
+CREATE OR REPLACE VIEW public.search_job_dead_letters
+WITH (security_invoker = true) AS
+SELECT t.id, t.search_job_id, t.type, t.dedupe_key, t.payload, t.attempts, t.last_error, t.updated_at
+FROM public.search_job_tasks t
+WHERE t.status = 'dead';
+
+-- Drains the queue every minute where pg_cron and pg_net are available and
+-- the project URL and service key are configured as database settings (see
+-- 20250924_website_reaudits.sql). Workers kick themselves while runnable work
+-- remains, but a worker that dies mid-batch kicks nobody, and nobody waits on
+-- a backoff longer than a worker's budget; this picks those tasks up once
+-- their leases expire or their backoff ends. A worker that finds nothing to
+-- lease soon exits at once.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net')
+     AND current_setting('app.settings.supabase_url', true) IS NOT NULL
+     AND current_setting('app.settings.service_role_key', true) IS NOT NULL THEN
+    PERFORM cron.schedule(
+      'search-worker',
+      '* * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := current_setting('app.settings.supabase_url') || '/functions/v1/search-worker',
+          headers := jsonb_build_object(
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key'),
+            'Content-Type', 'application/json'
+          ),
+          body := '{}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END$$;
+
+COMMENT ON TABLE public.search_job_tasks IS 'Durable fetch/enrich/score/validate tasks that search jobs fan out into; drained by the search-worker edge function';
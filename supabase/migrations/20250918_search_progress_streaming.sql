@@ -0,0 +1,31 @@
+-- supabase/migrations/20250918_search_progress_streaming.sql
+-- Per-stage progress snapshot on search_jobs (written by search-worker) and
+-- realtime publication of the tables the app subscribes to while a search
+-- runs: job status/progress, status log lines and newly scored lead views.
+
+ALTER TABLE public.search_jobs
+  ADD COLUMN IF NOT EXISTS progress_json JSONB;
+
+COMMENT ON COLUMN public.search_jobs.progress_json IS 'SearchProgress snapshot (stage, percent, per-stage done/failed/total) from lib/search-progress.ts';
+
+-- Lets the Express SSE stream and partial result queries read log lines in order
+CREATE INDEX IF NOT EXISTS idx_status_logs_job_ts
+  ON public.status_logs (search_job_id, ts);
+CREATE INDEX IF NOT EXISTS idx_lead_views_job_created
+  ON public.lead_views (search_job_id, created_at);
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    FOREACH t IN ARRAY ARRAY['search_jobs', 'status_logs', 'lead_views'] LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+      ) THEN
+        EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+      END IF;
+    END LOOP;
+  END IF;
+END$$;
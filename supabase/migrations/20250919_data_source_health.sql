@@ -0,0 +1,26 @@
+-- supabase/migrations/20250919_data_source_health.sql
+-- Latest health snapshot per registered data source (see lib/data-sources.ts).
+-- Workers upsert a row after every call through the registry; health-check
+-- reads them to report per-source status next to its own config checks.
+
+CREATE TABLE IF NOT EXISTS public.data_source_health (
+  source TEXT PRIMARY KEY,
+  status TEXT NOT NULL CHECK (status IN ('healthy','degraded','down','unconfigured')),
+  capabilities TEXT[] NOT NULL DEFAULT '{}',
+  rate_limit JSONB,
+  is_fixture BOOLEAN NOT NULL DEFAULT false,
+  requests INTEGER NOT NULL DEFAULT 0,
+  failures INTEGER NOT NULL DEFAULT 0,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  throttled_ms BIGINT NOT NULL DEFAULT 0,
+  last_latency_ms INTEGER,
+  last_success_at TIMESTAMPTZ,
+  last_error_at TIMESTAMPTZ,
+  last_error TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Written only by edge functions holding the service role key
+ALTER TABLE public.data_source_health ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.data_source_health IS 'Per-source health counters reported by the DataSourceRegistry; counters are per worker isolate, last writer wins';
@@ -0,0 +1,45 @@
+-- supabase/migrations/20250920_business_entity_resolution.sql
+-- Identity columns for entity resolution (lib/entity-resolution.ts). The
+-- search pipeline matches incoming places on google_place_id, normalized phone,
+-- website domain and location + name before inserting, records which source
+-- supplied each field, and links rows found to be the same business through
+-- duplicate_of instead of deleting them.
+
+ALTER TABLE public.businesses
+  ADD COLUMN IF NOT EXISTS google_place_id TEXT,
+  ADD COLUMN IF NOT EXISTS metadata JSONB,
+  ADD COLUMN IF NOT EXISTS phone_normalized TEXT,
+  ADD COLUMN IF NOT EXISTS domain TEXT,
+  ADD COLUMN IF NOT EXISTS field_provenance JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS duplicate_of UUID REFERENCES public.businesses(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.businesses.phone_normalized IS 'Digits only, NANP country code dropped (normalizePhone)';
+COMMENT ON COLUMN public.businesses.domain IS 'Website host without www., NULL for shared hosts such as facebook.com (normalizeDomain)';
+COMMENT ON COLUMN public.businesses.field_provenance IS 'Field name -> {source, confidence, observed_at} of the value currently held';
+COMMENT ON COLUMN public.businesses.duplicate_of IS 'Surviving business this row was resolved to; NULL for canonical rows';
+
+-- Backfill identity keys for rows written before resolution existed
+UPDATE public.businesses
+SET phone_normalized = CASE
+      WHEN length(regexp_replace(phone, '\D', '', 'g')) = 11 AND regexp_replace(phone, '\D', '', 'g') LIKE '1%'
+        THEN substr(regexp_replace(phone, '\D', '', 'g'), 2)
+      WHEN length(regexp_replace(phone, '\D', '', 'g')) >= 7
+        THEN regexp_replace(phone, '\D', '', 'g')
+    END
+WHERE phone IS NOT NULL AND phone_normalized IS NULL;
+
+UPDATE public.businesses
+SET domain = NULLIF(lower(regexp_replace(website, '^([a-z]+://)?(www\.)?([^/:?#]+).*$', '\3', 'i')), '')
+WHERE website IS NOT NULL AND domain IS NULL;
+
+UPDATE public.businesses
+SET domain = NULL
+WHERE domain IN ('facebook.com', 'm.facebook.com', 'instagram.com', 'twitter.com', 'x.com', 'linkedin.com',
+                 'yelp.com', 'google.com', 'maps.google.com', 'sites.google.com', 'goo.gl', 'g.page',
+                 'linktr.ee', 'yellowpages.com', 'nextdoor.com', 'tiktok.com', 'youtube.com')
+   OR domain NOT LIKE '%.%';
+
+CREATE INDEX IF NOT EXISTS idx_businesses_google_place_id ON public.businesses (google_place_id);
+CREATE INDEX IF NOT EXISTS idx_businesses_phone_normalized ON public.businesses (phone_normalized);
+CREATE INDEX IF NOT EXISTS idx_businesses_domain ON public.businesses (domain);
+CREATE INDEX IF NOT EXISTS idx_businesses_duplicate_of ON public.businesses (duplicate_of) WHERE duplicate_of IS NOT NULL;
@@ -0,0 +1,178 @@
+-- supabase/migrations/20250921_business_identity_merge.sql
+-- Makes businesses canonical across search jobs. A google_place_id can belong
+-- to only one canonical row, so concurrent workers enriching the same place
+-- cannot both insert it, and merge_businesses folds duplicates (people,
+-- signals, notes, tags, status logs, lead views, ...) into one surviving row.
+
+ALTER TABLE public.businesses
+  ADD COLUMN IF NOT EXISTS merged_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.businesses.merged_at IS 'When merge_businesses moved this duplicate''s data onto duplicate_of; NULL while only linked';
+
+-- Link rows that already share a place_id to the oldest one before enforcing uniqueness
+WITH ranked AS (
+  SELECT id,
+         first_value(id) OVER (PARTITION BY google_place_id ORDER BY created_at, id) AS survivor_id
+  FROM public.businesses
+  WHERE google_place_id IS NOT NULL AND duplicate_of IS NULL
+)
+UPDATE public.businesses b
+SET duplicate_of = r.survivor_id
+FROM ranked r
+WHERE b.id = r.id AND r.id <> r.survivor_id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_businesses_canonical_place_id
+  ON public.businesses (google_place_id)
+  WHERE google_place_id IS NOT NULL AND duplicate_of IS NULL;
+
+-- Move everything attached to p_duplicates onto p_survivor and mark the
+-- duplicates as resolved to it. Rows that would collide with what the
+-- survivor already has (same tag, same search job, same person) are dropped.
+-- Returns per-table counts of moved rows.
+CREATE OR REPLACE FUNCTION public.merge_businesses(
+  p_survivor UUID,
+  p_duplicates UUID[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dups UUID[];
+  v_counts JSONB := '{}'::jsonb;
+  v_count INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM businesses WHERE id = p_survivor AND duplicate_of IS NULL) THEN
+    RAISE EXCEPTION 'Survivor % does not exist or is itself a duplicate', p_survivor;
+  END IF;
+
+  SELECT array_agg(DISTINCT d) INTO v_dups
+  FROM unnest(p_duplicates) AS d
+  WHERE d <> p_survivor AND EXISTS (SELECT 1 FROM businesses WHERE id = d);
+
+  IF v_dups IS NULL THEN
+    RETURN jsonb_build_object('survivor_id', p_survivor, 'merged', 0);
+  END IF;
+
+  -- People: skip anyone the survivor already lists under the same name
+  DELETE FROM people p
+  WHERE p.business_id = ANY(v_dups)
+    AND EXISTS (SELECT 1 FROM people s WHERE s.business_id = p_survivor AND lower(s.name) = lower(p.name));
+  UPDATE people SET business_id = p_survivor WHERE business_id = ANY(v_dups);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('people', v_count);
+
+  -- Signals: one per type, so across the merged records keep the most
+  -- recently detected signal of each type and drop the rest
+  DELETE FROM signals g
+  WHERE g.business_id = ANY(v_dups || p_survivor)
+    AND EXISTS (
+      SELECT 1 FROM signals s
+      WHERE s.business_id = ANY(v_dups || p_survivor)
+        AND s.type = g.type
+        AND (s.detected_at, s.id) > (g.detected_at, g.id)
+    );
+  UPDATE signals SET business_id = p_survivor WHERE business_id = ANY(v_dups);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('signals', v_count);
+
+  UPDATE signal_overrides SET business_id = p_survivor WHERE business_id = ANY(v_dups);
+
+  UPDATE notes SET business_id = p_survivor WHERE business_id = ANY(v_dups);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('notes', v_count);
+
+  INSERT INTO business_tags (business_id, tag_id)
+  SELECT p_survivor, tag_id FROM business_tags WHERE business_id = ANY(v_dups)
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  DELETE FROM business_tags WHERE business_id = ANY(v_dups);
+  v_counts := v_counts || jsonb_build_object('tags', v_count);
+
+  UPDATE status_logs SET business_id = p_survivor WHERE business_id = ANY(v_dups);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('status_logs', v_count);
+
+  -- A search job links to a business once; keep the survivor's view where both exist
+  DELETE FROM lead_views d
+  WHERE d.business_id = ANY(v_dups)
+    AND EXISTS (SELECT 1 FROM lead_views s WHERE s.business_id = p_survivor AND s.search_job_id = d.search_job_id);
+  UPDATE lead_views SET business_id = p_survivor WHERE business_id = ANY(v_dups);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('lead_views', v_count);
+
+  UPDATE artifacts SET business_id = p_survivor WHERE business_id = ANY(v_dups);
+  UPDATE consent_records SET lead_id = p_survivor WHERE lead_id = ANY(v_dups);
+  -- Opportunities are 1:1 with a lead; the survivor's wins
+  DELETE FROM opportunities o
+  WHERE o.lead_id = ANY(v_dups) AND EXISTS (SELECT 1 FROM opportunities s WHERE s.lead_id = p_survivor);
+  UPDATE opportunities SET lead_id = p_survivor
+  WHERE id = (SELECT id FROM opportunities WHERE lead_id = ANY(v_dups) ORDER BY created_at LIMIT 1);
+  DELETE FROM opportunities WHERE lead_id = ANY(v_dups);
+  UPDATE events SET entity_id = p_survivor WHERE entity_type = 'business' AND entity_id = ANY(v_dups);
+
+  -- Fill gaps on the survivor from the oldest duplicate. The place_id moves
+  -- over only once the duplicates stop being canonical, so the unique index holds.
+  UPDATE businesses b
+  SET website = COALESCE(b.website, d.website),
+      phone = COALESCE(b.phone, d.phone),
+      phone_normalized = COALESCE(b.phone_normalized, d.phone_normalized),
+      domain = COALESCE(b.domain, d.domain),
+      address_json = COALESCE(b.address_json, d.address_json),
+      lat = COALESCE(b.lat, d.lat),
+      lng = COALESCE(b.lng, d.lng),
+      metadata = COALESCE(b.metadata, d.metadata)
+  FROM (
+    SELECT * FROM businesses WHERE id = ANY(v_dups) ORDER BY created_at LIMIT 1
+  ) d
+  WHERE b.id = p_survivor;
+
+  UPDATE businesses
+  SET duplicate_of = p_survivor,
+      merged_at = CASE WHEN id = ANY(v_dups) THEN now() ELSE merged_at END
+  WHERE id = ANY(v_dups) OR duplicate_of = ANY(v_dups);
+
+  UPDATE businesses b
+  SET google_place_id = (
+    SELECT google_place_id FROM businesses
+    WHERE id = ANY(v_dups) AND google_place_id IS NOT NULL
+    ORDER BY created_at LIMIT 1
+  )
+  WHERE b.id = p_survivor AND b.google_place_id IS NULL;
+
+  INSERT INTO events (type, entity_type, entity_id, payload_json)
+  VALUES ('BusinessesMerged', 'business', p_survivor,
+          jsonb_build_object('duplicates', to_jsonb(v_dups), 'moved', v_counts));
+
+  RETURN jsonb_build_object('survivor_id', p_survivor, 'merged', array_length(v_dups, 1), 'moved', v_counts);
+END;
+$$;
+
+-- Merging rewrites rows across every account, so only the service role (the
+-- admin-gated merge-businesses function) may call it
+REVOKE EXECUTE ON FUNCTION public.merge_businesses(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- Pairs worth reviewing in the merge tool: rows the resolver linked but nobody
+-- merged yet, and canonical rows sharing a phone number or website domain
+-- (chain branches share domains, so the tool re-checks these pairs).
+-- security_invoker keeps the businesses policies in force for the caller.
+CREATE OR REPLACE VIEW public.business_duplicate_candidates
+WITH (security_invoker = true) AS
+SELECT d.duplicate_of AS survivor_id, d.id AS duplicate_id, 'linked'::text AS reason
+FROM public.businesses d
+WHERE d.duplicate_of IS NOT NULL AND d.merged_at IS NULL
+UNION ALL
+SELECT a.id, b.id, 'phone'
+FROM public.businesses a
+JOIN public.businesses b
+  ON b.phone_normalized = a.phone_normalized AND (a.created_at, a.id) < (b.created_at, b.id)
+WHERE a.duplicate_of IS NULL AND b.duplicate_of IS NULL
+UNION ALL
+SELECT a.id, b.id, 'domain'
+FROM public.businesses a
+JOIN public.businesses b
+  ON b.domain = a.domain AND (a.created_at, a.id) < (b.created_at, b.id)
+WHERE a.duplicate_of IS NULL AND b.duplicate_of IS NULL;
+
+COMMENT ON FUNCTION public.merge_businesses(UUID, UUID[]) IS 'Fold duplicate businesses into a survivor; duplicates stay as rows with duplicate_of set';
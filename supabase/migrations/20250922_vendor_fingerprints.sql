@@ -0,0 +1,23 @@
+-- supabase/migrations/20250922_vendor_fingerprints.sql
+-- Custom vendor fingerprints added from the dashboard. Detectors load the
+-- built-in database (lib/vendor-fingerprint-db.ts) and overlay enabled rows
+-- from this table, matched by id, so a row can also correct a built-in.
+
+CREATE TABLE IF NOT EXISTS public.vendor_fingerprints (
+  id TEXT PRIMARY KEY CHECK (id ~ '^[a-z0-9_-]+$'),
+  name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  definition JSONB NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vendor_fingerprints_enabled ON public.vendor_fingerprints (enabled);
+
+-- Read and written only through the vendor-fingerprints edge function
+ALTER TABLE public.vendor_fingerprints ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.vendor_fingerprints IS 'Custom technology fingerprints overlaid on the built-in database; definition holds the VendorFingerprint JSON';
+COMMENT ON COLUMN public.vendor_fingerprints.definition IS 'scriptSrc/html/dom/headers/cookies/meta patterns and confidence, as in lib/vendor-fingerprints.ts';
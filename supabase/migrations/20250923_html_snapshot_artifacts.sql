@@ -0,0 +1,11 @@
+-- supabase/migrations/20250923_html_snapshot_artifacts.sql
+-- The website auditor stores each page it reads as an artifacts row of type
+-- 'html_snapshot' (uri = page URL, metadata_json = gzip+base64 HTML, kept
+-- response headers and a sha-256 content_hash). Unchanged pages reuse the
+-- existing row, looked up by business, URL and hash.
+
+CREATE INDEX IF NOT EXISTS idx_artifacts_html_snapshot_lookup
+  ON public.artifacts (business_id, uri, (metadata_json->>'content_hash'))
+  WHERE type = 'html_snapshot';
+
+COMMENT ON COLUMN public.artifacts.metadata_json IS 'For html_snapshot rows: HtmlSnapshotMetadata from lib/html-snapshots.ts (encoding, content, content_hash, headers, status, fetched_at, page_kind)';
@@ -0,0 +1,111 @@
+-- supabase/migrations/20250924_website_reaudits.sql
+-- Periodic re-audits of the websites we are actively working: businesses in a
+-- saved search's results or in an open opportunity. The reaudit-websites edge
+-- function claims due businesses with claim_website_reaudits, re-runs the
+-- website auditor, refreshes their signals and writes what changed since the
+-- previous audit to events (BookingAdded, ChatbotRemoved, WebsiteWentDown, ...).
+
+ALTER TABLE public.businesses
+  ADD COLUMN IF NOT EXISTS last_audited_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS website_reachable BOOLEAN;
+
+COMMENT ON COLUMN public.businesses.last_audited_at IS 'When the re-audit scheduler last claimed this business';
+COMMENT ON COLUMN public.businesses.website_reachable IS 'Whether the last scheduled audit reached the website; NULL until the first one, which is a baseline and emits no change events';
+
+CREATE INDEX IF NOT EXISTS idx_businesses_last_audited_at ON public.businesses (last_audited_at NULLS FIRST)
+  WHERE website IS NOT NULL AND duplicate_of IS NULL;
+
+-- A business holds one current signal per type: the pipeline and the
+-- re-audits upsert on (business_id, type). Older duplicates from before the
+-- constraint are dropped, keeping the most recently detected row.
+DELETE FROM public.signals s
+USING public.signals newer
+WHERE newer.business_id = s.business_id
+  AND newer.type = s.type
+  AND (newer.detected_at, newer.id) > (s.detected_at, s.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_signals_business_type_unique ON public.signals (business_id, type);
+DROP INDEX IF EXISTS public.idx_signals_business_type;
+
+-- The drawer timeline reads a business's events newest first
+CREATE INDEX IF NOT EXISTS idx_events_entity_created ON public.events (entity_type, entity_id, created_at DESC);
+
+-- Claims up to p_limit watched businesses not audited within p_min_age by
+-- stamping last_audited_at, so overlapping scheduler runs never audit the
+-- same business twice
+CREATE OR REPLACE FUNCTION public.claim_website_reaudits(
+  p_limit INTEGER DEFAULT 20,
+  p_min_age_hours INTEGER DEFAULT 168
+)
+RETURNS TABLE (
+  id UUID,
+  website TEXT,
+  website_reachable BOOLEAN,
+  detected_features JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.businesses b
+  SET last_audited_at = now()
+  WHERE b.id IN (
+    SELECT c.id
+    FROM public.businesses c
+    WHERE c.website IS NOT NULL
+      AND c.duplicate_of IS NULL
+      AND (c.last_audited_at IS NULL OR c.last_audited_at < now() - make_interval(hours => p_min_age_hours))
+      AND (
+        EXISTS (
+          SELECT 1 FROM public.opportunities o
+          WHERE o.lead_id = c.id AND o.stage NOT IN ('Won', 'Lost')
+        )
+        OR EXISTS (
+          SELECT 1
+          FROM public.saved_searches s
+          JOIN public.search_jobs j ON j.id = s.search_job_id AND j.deleted_at IS NULL
+          JOIN public.lead_views lv ON lv.search_job_id = j.id
+          WHERE lv.business_id = c.id
+        )
+      )
+    ORDER BY c.last_audited_at NULLS FIRST
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING b.id, b.website, b.website_reachable, b.detected_features;
+END;
+$$;
+
+-- Bypasses row-level security and stamps last_audited_at, so only the service
+-- role (the reaudit-websites function) may call it; over RPC any client could
+-- otherwise read watched businesses and hold them back from re-audits
+REVOKE EXECUTE ON FUNCTION public.claim_website_reaudits(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Runs the scheduler hourly where pg_cron and pg_net are available and the
+-- project URL and service key are configured as database settings:
+--   ALTER DATABASE postgres SET app.settings.supabase_url = 'https://<ref>.supabase.co';
+--   ALTER DATABASE postgres SET app.settings.service_role_key = '<key>';
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net')
+     AND current_setting('app.settings.supabase_url', true) IS NOT NULL
+     AND current_setting('app.settings.service_role_key', true) IS NOT NULL THEN
+    PERFORM cron.schedule(
+      'reaudit-websites',
+      '15 * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := current_setting('app.settings.supabase_url') || '/functions/v1/reaudit-websites',
+          headers := jsonb_build_object(
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key'),
+            'Content-Type', 'application/json'
+          ),
+          body := '{}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END$$;
@@ -0,0 +1,45 @@
+-- supabase/migrations/20250925_suppression_lists.sql
+-- Account-level suppression lists. Every search drops candidates whose
+-- domain, phone, place_id or name matches one of the searching user's
+-- entries, plus businesses already worked (latest status qualified/ignored,
+-- or in an opportunity). Matching lives in lib/suppression.ts; the fetch and
+-- enrich stages apply it and validate records the counts in
+-- search_jobs.summary_stats (suppressed_count, suppressed_by_reason).
+
+CREATE TABLE IF NOT EXISTS public.suppression_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('domain', 'phone', 'place_id', 'name_pattern')),
+  -- Normalized as in lib/suppression.ts: bare host, last ten phone digits,
+  -- lowercased name with * wildcards
+  value TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual',
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, kind, value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_suppression_entries_user ON public.suppression_entries (user_id, kind);
+
+ALTER TABLE public.suppression_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own suppression entries"
+ON public.suppression_entries
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own suppression entries"
+ON public.suppression_entries
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own suppression entries"
+ON public.suppression_entries
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- The worked-lead check reads a business's latest status
+CREATE INDEX IF NOT EXISTS idx_status_logs_business_changed ON public.status_logs (business_id, changed_at DESC);
+
+COMMENT ON TABLE public.suppression_entries IS 'Businesses a user''s searches never return: customers, CRM imports, manual blocks';
+COMMENT ON COLUMN public.suppression_entries.source IS 'manual, or csv_import for rows added by the suppression-lists import operation';
@@ -0,0 +1,10 @@
+-- supabase/migrations/20250926_lead_view_constraints.sql
+-- Per-lead constraint outcomes. The score task checks every must, exclude and
+-- optional constraint of the job's LeadQuery (lib/constraint-evaluator.ts):
+-- leads failing a must or exclude constraint get no lead view, the rest store
+-- which constraints passed, failed or could not be checked, and validate ranks
+-- on score plus the optional-constraint boost.
+
+ALTER TABLE public.lead_views ADD COLUMN IF NOT EXISTS constraint_results JSONB;
+
+COMMENT ON COLUMN public.lead_views.constraint_results IS 'ConstraintResults: checks (list, key, label, outcome, actual), matched, total, unknown, boost';
@@ -0,0 +1,23 @@
+-- supabase/migrations/20250927_vertical_taxonomy.sql
+-- Admin-edited vertical taxonomy. The built-in verticals live in
+-- lib/verticals.ts; rows here override one by id (relabel it, add synonyms or
+-- Places types, change its default scoring profile) or add a custom vertical
+-- that queries can target. The parser, the search pipeline, scoring and the
+-- dashboard filters all read the merged list (lib/vertical-store.ts).
+
+CREATE TABLE IF NOT EXISTS public.verticals (
+  id TEXT PRIMARY KEY CHECK (id ~ '^[a-z][a-z0-9_]{1,39}$'),
+  label TEXT NOT NULL,
+  definition JSONB NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Read by every user and written only by admins, both through the verticals
+-- edge function
+ALTER TABLE public.verticals ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.verticals IS 'Custom and overridden verticals overlaid on the built-in taxonomy; definition holds the VerticalDefinition JSON';
+COMMENT ON COLUMN public.verticals.definition IS 'label, synonyms, place_types, scoring_profile, tier, industry_modifier and expected_features, as in lib/verticals.ts';
@@ -0,0 +1,17 @@
+-- supabase/migrations/20250928_saved_search_runs.sql
+-- Runs of a saved search. Each search job started from a saved search records
+-- it, so two runs can be compared (lib/search-diff.ts, search-diff edge
+-- function): businesses that are new or gone, score changes, and signal
+-- changes read from the signals each lead view was scored on.
+
+ALTER TABLE public.search_jobs
+  ADD COLUMN IF NOT EXISTS saved_search_id UUID REFERENCES public.saved_searches(id) ON DELETE SET NULL;
+
+-- Runs of one saved search, newest first
+CREATE INDEX IF NOT EXISTS idx_search_jobs_saved_search ON public.search_jobs (saved_search_id, created_at DESC)
+  WHERE saved_search_id IS NOT NULL;
+
+ALTER TABLE public.lead_views ADD COLUMN IF NOT EXISTS signal_snapshot JSONB;
+
+COMMENT ON COLUMN public.search_jobs.saved_search_id IS 'Saved search this job is a run of; saved_searches.search_job_id points at the latest run';
+COMMENT ON COLUMN public.lead_views.signal_snapshot IS 'Signal values (type -> value_json) the lead was scored on, for diffing runs';
@@ -0,0 +1,36 @@
+-- supabase/migrations/20250929_scoring_profiles.sql
+-- Custom scoring profiles. The built-in profiles live in
+-- lib/scoring-service.ts; rows here add profiles with their own weights,
+-- thresholds and industry modifiers. A profile is private to its owner until
+-- it is published, after which every user can pick it for rescoring and
+-- searches can name it in their scoring block (lib/scoring-profile-store.ts).
+
+CREATE TABLE IF NOT EXISTS public.scoring_profiles (
+  id TEXT PRIMARY KEY CHECK (id ~ '^[a-z][a-z0-9_-]{1,59}$'),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  vertical TEXT,
+  weights JSONB NOT NULL,
+  thresholds JSONB NOT NULL,
+  industry_modifiers JSONB,
+  published BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scoring_profiles_owner ON public.scoring_profiles(owner_id);
+CREATE INDEX IF NOT EXISTS idx_scoring_profiles_published ON public.scoring_profiles(published) WHERE published;
+
+-- Written through the scoring-profiles edge function; rescore-leads reads
+-- with the caller's token, so users can see published profiles and their own
+ALTER TABLE public.scoring_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view published and own scoring profiles"
+  ON public.scoring_profiles FOR SELECT
+  USING (published OR owner_id = auth.uid());
+
+COMMENT ON TABLE public.scoring_profiles IS 'Custom scoring profiles added to the built-ins in lib/scoring-service.ts; private to owner_id until published';
+COMMENT ON COLUMN public.scoring_profiles.weights IS 'ICP, Pain, Reachability and ComplianceRisk percentages summing to 100';
+COMMENT ON COLUMN public.scoring_profiles.thresholds IS 'qualified, promising and low_priority score cut-offs';
+COMMENT ON COLUMN public.scoring_profiles.industry_modifiers IS 'Vertical id -> multiplier applied to the total score, overriding the vertical''s own modifier';
@@ -0,0 +1,34 @@
+-- supabase/migrations/20250930_scoring_models.sql
+-- Learned scoring models. The train-scoring-model job fits a logistic model
+-- (lib/scoring-model.ts) on lead outcomes — won/lost opportunities and
+-- qualified/ignored statuses — and stores it here as a candidate with its
+-- holdout metrics. Promoting a candidate makes it the active scorer for the
+-- score task and rescoring; at most one model is active at a time.
+
+CREATE TABLE IF NOT EXISTS public.scoring_models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'candidate' CHECK (status IN ('candidate', 'active', 'retired')),
+  model JSONB NOT NULL,
+  metrics JSONB NOT NULL,
+  trained_by UUID,
+  trained_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  promoted_by UUID,
+  promoted_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scoring_models_single_active
+  ON public.scoring_models(status) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_scoring_models_trained_at ON public.scoring_models(trained_at DESC);
+
+-- Written through the train-scoring-model edge function; rescore-leads
+-- reads the active model with the caller's token
+ALTER TABLE public.scoring_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view scoring models"
+  ON public.scoring_models FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+COMMENT ON TABLE public.scoring_models IS 'Learned scoring models with holdout metrics; the active one replaces the rule-based total';
+COMMENT ON COLUMN public.scoring_models.model IS 'LearnedScoringModel JSON: feature_names, weights, bias and the standardization means/stds';
+COMMENT ON COLUMN public.scoring_models.metrics IS 'Holdout AUC, Brier score, log loss, calibration bins and example counts';
@@ -0,0 +1,9 @@
+-- supabase/migrations/20251001_score_contributions.sql
+-- Per-feature explanation of each lead view's score: one step per rule (or
+-- learned-model feature) with its raw value, weight, signed points and the
+-- signal it was read from (ScoreContribution in lib/scoring-service.ts). The
+-- points sum to the score, so the drawer can draw them as a waterfall.
+
+ALTER TABLE public.lead_views ADD COLUMN IF NOT EXISTS score_contributions JSONB;
+
+COMMENT ON COLUMN public.lead_views.score_contributions IS 'Steps from 0 to score: feature, label, value, weight, points, signal_id, evidence_url';
@@ -0,0 +1,62 @@
+-- supabase/migrations/20251002_lead_score_history.sql
+-- Every scoring event of a lead: the score task of a search (ranked once the
+-- validate task runs) and every re-score. lead_views only keep the latest
+-- score and rank; these rows keep the ones before it, with the profile, model
+-- version and weights that produced them (lib/score-history.ts).
+
+CREATE TABLE IF NOT EXISTS public.lead_score_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_view_id UUID NOT NULL REFERENCES public.lead_views(id) ON DELETE CASCADE,
+  search_job_id UUID NOT NULL REFERENCES public.search_jobs(id) ON DELETE CASCADE,
+  business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  event TEXT NOT NULL CHECK (event IN ('search', 'rescore')),
+  profile TEXT NOT NULL,
+  model_version TEXT NOT NULL,
+  weights_hash TEXT NOT NULL,
+  score INTEGER NOT NULL CHECK (score >= 0 AND score <= 100),
+  rank INTEGER,
+  subscores JSONB NOT NULL,
+  scored_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- A lead's history across runs, and the rows the validate task ranks
+CREATE INDEX IF NOT EXISTS idx_lead_score_history_business ON public.lead_score_history (business_id, scored_at);
+CREATE INDEX IF NOT EXISTS idx_lead_score_history_unranked ON public.lead_score_history (search_job_id) WHERE rank IS NULL;
+
+-- The search pipeline writes with the service role; rescore-leads writes with
+-- the caller's token, for their own search jobs only
+ALTER TABLE public.lead_score_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view score history of their own search jobs"
+  ON public.lead_score_history FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.search_jobs j WHERE j.id = search_job_id AND j.user_id = auth.uid()));
+
+CREATE POLICY "Users can record score history of their own search jobs"
+  ON public.lead_score_history FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM public.search_jobs j WHERE j.id = search_job_id AND j.user_id = auth.uid()));
+
+-- Copies each lead view's rank onto the history rows its search's score tasks
+-- recorded before the validate task ranked them, in one statement. Runs with
+-- the caller's rights: there is no UPDATE policy, so only the service role
+-- changes anything.
+CREATE OR REPLACE FUNCTION public.rank_lead_score_history(p_search_job_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH ranked AS (
+    UPDATE public.lead_score_history h
+    SET rank = v.rank
+    FROM public.lead_views v
+    WHERE v.id = h.lead_view_id
+      AND h.search_job_id = p_search_job_id
+      AND h.rank IS NULL
+      AND v.rank IS NOT NULL
+    RETURNING h.id
+  )
+  SELECT COUNT(*)::INTEGER FROM ranked;
+$$;
+
+COMMENT ON TABLE public.lead_score_history IS 'One row per scoring event of a lead view; lead_views keep only the latest score and rank';
+COMMENT ON COLUMN public.lead_score_history.weights_hash IS 'weightsHash() of the ICP/Pain/Reachability/ComplianceRisk weights used';
+COMMENT ON COLUMN public.lead_score_history.rank IS 'Rank after the event; null until the search''s validate task ranks it';
@@ -0,0 +1,96 @@
+import { test, expect } from '@playwright/test';
+import { AuditState, auditStateFromResult, diffAuditStates } from '../supabase/functions/lib/audit-changes';
+
+// What a website re-audit reports as changed since the previous audit.
+
+function state(features: AuditState['features'], has_website = true): AuditState {
+  return { has_website, features };
+}
+
+test.describe('auditStateFromResult', () => {
+  test('keeps the audited features the result reported, with their vendors', () => {
+    expect(auditStateFromResult({
+      has_website: true,
+      detected_features: {
+        online_booking: { found: true, vendor_detected: 'Calendly' },
+        chatbot: { found: false },
+        ssl_certificate: {},
+      },
+    })).toEqual({
+      has_website: true,
+      features: {
+        online_booking: { found: true, vendor_detected: 'Calendly' },
+        chatbot: { found: false },
+        ssl_certificate: { found: false },
+      },
+    });
+  });
+
+  test('a site that did not respond has no features', () => {
+    expect(auditStateFromResult({ has_website: false })).toEqual({ has_website: false, features: {} });
+  });
+});
+
+test.describe('diffAuditStates', () => {
+  test('the first audit is a baseline', () => {
+    expect(diffAuditStates(null, state({ online_booking: { found: true } }))).toEqual([]);
+  });
+
+  test('reports a booking tool that appeared', () => {
+    const changes = diffAuditStates(
+      state({ online_booking: { found: false } }),
+      state({ online_booking: { found: true, vendor_detected: 'Acuity' } }),
+    );
+    expect(changes).toEqual([{
+      type: 'BookingAdded',
+      feature: 'online_booking',
+      before: { found: false },
+      after: { found: true, vendor_detected: 'Acuity' },
+      summary: 'Online booking (Acuity) added',
+    }]);
+  });
+
+  test('reports a chatbot that went away under the vendor it had', () => {
+    const changes = diffAuditStates(
+      state({ chatbot: { found: true, vendor_detected: 'Intercom' } }),
+      state({ chatbot: { found: false } }),
+    );
+    expect(changes).toMatchObject([{ type: 'ChatbotRemoved', feature: 'chatbot', summary: 'Chatbot (Intercom) removed' }]);
+  });
+
+  test('reports a vendor switch only when both audits named a vendor', () => {
+    const switched = diffAuditStates(
+      state({ payment_processor: { found: true, vendor_detected: 'Square' } }),
+      state({ payment_processor: { found: true, vendor_detected: 'Stripe' } }),
+    );
+    expect(switched).toMatchObject([{ type: 'PaymentProcessorVendorChanged', summary: 'Payment processor switched from Square to Stripe' }]);
+
+    expect(diffAuditStates(
+      state({ payment_processor: { found: true } }),
+      state({ payment_processor: { found: true, vendor_detected: 'Stripe' } }),
+    )).toEqual([]);
+  });
+
+  test('features missing from either audit are not compared', () => {
+    expect(diffAuditStates(state({ ssl_certificate: { found: true } }), state({}))).toEqual([]);
+  });
+
+  test('a site that went down reports only the outage', () => {
+    const changes = diffAuditStates(
+      state({ online_booking: { found: true }, chatbot: { found: true } }),
+      state({}, false),
+    );
+    expect(changes).toEqual([{ type: 'WebsiteWentDown', before: true, after: false, summary: 'Website stopped responding' }]);
+  });
+
+  test('keeps features while the site is down and compares them once it is back', () => {
+    const before = state({ online_booking: { found: true }, chatbot: { found: true } });
+    expect(diffAuditStates(state({}, false), state({}, false))).toEqual([]);
+
+    const changes = diffAuditStates(
+      { ...before, has_website: false },
+      state({ online_booking: { found: true }, chatbot: { found: false } }),
+    );
+    expect(changes.map(change => change.type)).toEqual(['WebsiteCameBack', 'ChatbotRemoved']);
+  });
+});
@@ -0,0 +1,98 @@
+import { test, expect } from '@playwright/test';
+import { constraintFactsFromSignals, evaluateConstraints, OPTIONAL_CONSTRAINT_BOOST } from '../supabase/functions/lib/constraint-evaluator';
+import type { SignalLike } from '../supabase/functions/lib/scoring-service';
+
+// Checks a business's stored signals against a query's constraints, the way
+// the score task does before writing a lead view.
+
+const analyzed: SignalLike = { type: 'website_performance', value_json: { load_time_ms: 900, ssl_enabled: true } };
+
+function evaluate(constraints: Parameters<typeof evaluateConstraints>[0], signals: SignalLike[], business = {}) {
+  return evaluateConstraints(constraints, constraintFactsFromSignals(signals, business));
+}
+
+test('a must constraint that holds passes', () => {
+  const results = evaluate({ must: [{ reviews_count_gt: 50 }] }, [{ type: 'review_count', value_json: 120 }]);
+  expect(results.checks).toMatchObject([{ list: 'must', key: 'reviews_count_gt', outcome: 'pass', actual: 120 }]);
+  expect(results.rejected).toBe(false);
+  expect(results.matched).toBe(1);
+});
+
+test('a business with zero reviews fails "over 50 reviews"', () => {
+  const results = evaluate({ must: [{ reviews_count_gt: 50 }] }, [{ type: 'review_count', value_json: 0 }]);
+  expect(results.checks[0]).toMatchObject({ outcome: 'fail', actual: 0 });
+  expect(results.rejected).toBe(true);
+});
+
+test('a fact nobody has checked is unknown and does not reject', () => {
+  const results = evaluate({ must: [{ years_in_business_gt: 5 }, { has_chatbot: false }] }, []);
+  expect(results.checks.map(check => check.outcome)).toEqual(['unknown', 'unknown']);
+  expect(results.unknown).toBe(2);
+  expect(results.rejected).toBe(false);
+});
+
+test('an analyzed site without an owner contact fails "with owner contact"', () => {
+  const results = evaluate({ must: [{ owner_identified: true }] }, [analyzed]);
+  expect(results.checks[0]).toMatchObject({ outcome: 'fail', actual: false });
+  expect(results.rejected).toBe(true);
+
+  const found = evaluate({ must: [{ owner_identified: true }] }, [analyzed, { type: 'owner_identified', value_json: true }]);
+  expect(found.checks[0].outcome).toBe('pass');
+});
+
+test('owner contact stays unknown until the site is analyzed', () => {
+  const results = evaluate({ must: [{ owner_identified: true }] }, [{ type: 'review_count', value_json: 12 }]);
+  expect(results.checks[0].outcome).toBe('unknown');
+});
+
+test('technologies not detected on an analyzed site count as absent', () => {
+  const results = evaluate({ must: [{ has_online_booking: false }] }, [analyzed]);
+  expect(results.checks[0].outcome).toBe('pass');
+
+  const booked = evaluate({ must: [{ has_online_booking: false }] }, [analyzed, { type: 'has_online_booking', value_json: true }]);
+  expect(booked.rejected).toBe(true);
+});
+
+test('franchise status comes from the business record', () => {
+  const independent = { must: [{ franchise: false }] };
+  expect(evaluate(independent, [], { franchise_bool: true }).rejected).toBe(true);
+  expect(evaluate(independent, [], { franchise_bool: false }).rejected).toBe(false);
+  expect(evaluate(independent, [], {}).checks[0].outcome).toBe('unknown');
+});
+
+test('an exclude constraint rejects businesses that match it', () => {
+  const noWebsite = evaluate({ exclude: [{ no_website: true }] }, [{ type: 'no_website', value_json: true }]);
+  expect(noWebsite.checks[0]).toMatchObject({ list: 'exclude', outcome: 'fail' });
+  expect(noWebsite.rejected).toBe(true);
+
+  const withWebsite = evaluate({ exclude: [{ no_website: true }] }, [], { website: 'https://example.com' });
+  expect(withWebsite.checks[0].outcome).toBe('pass');
+  expect(withWebsite.rejected).toBe(false);
+});
+
+test('ranges include both bounds', () => {
+  const range = { must: [{ employee_count_range: [5, 20] }] };
+  expect(evaluate(range, [{ type: 'employee_count', value_json: 5 }]).checks[0].outcome).toBe('pass');
+  expect(evaluate(range, [{ type: 'employee_count', value_json: 20 }]).checks[0].outcome).toBe('pass');
+  expect(evaluate(range, [{ type: 'employee_count', value_json: 21 }]).checks[0].outcome).toBe('fail');
+});
+
+test('optional constraints boost rank and never reject', () => {
+  const results = evaluate(
+    { optional: [{ rating_gt: 4 }, { reviews_count_gt: 100 }] },
+    [{ type: 'rating', value_json: 4.6 }, { type: 'review_count', value_json: 30 }]
+  );
+  expect(results.checks.map(check => check.outcome)).toEqual(['pass', 'fail']);
+  expect(results.rejected).toBe(false);
+  expect(results.boost).toBe(OPTIONAL_CONSTRAINT_BOOST);
+  expect(results).toMatchObject({ matched: 1, total: 2, unknown: 0 });
+});
+
+test('inclusive thresholds keep the boundary value', () => {
+  const atLeast = { must: [{ rating_gte: 4.5 }, { reviews_count_lte: 50 }] };
+  expect(evaluate(atLeast, [{ type: 'rating', value_json: 4.5 }, { type: 'review_count', value_json: 50 }]).rejected).toBe(false);
+  expect(evaluate(atLeast, [{ type: 'rating', value_json: 4.45 }, { type: 'review_count', value_json: 50 }]).rejected).toBe(true);
+
+  const above = { must: [{ rating_gt: 4.5 }] };
+  expect(evaluate(above, [{ type: 'rating', value_json: 4.5 }]).rejected).toBe(true);
+});
@@ -0,0 +1,166 @@
+import { test, expect } from '@playwright/test';
+import {
+  createDataSourceRegistry,
+  DataSource,
+  DataSourceRegistry,
+  FixtureSource,
+  RecordingSource,
+  SourceHealth,
+  TokenBucket,
+} from '../supabase/functions/lib/data-sources';
+
+// Rate limiting, health tracking and offline fixtures of the data source
+// registry. Nothing here touches the network.
+
+const COLUMBIA = { city: 'Columbia', state: 'SC' };
+
+// A source whose next responses are scripted: true succeeds, false throws
+function scriptedSource(outcomes: boolean[], overrides: Partial<DataSource> = {}): DataSource {
+  return {
+    name: 'scripted',
+    type: 'primary',
+    priority: 1,
+    capabilities: ['search'],
+    rateLimit: { requests: 100, window: 1000 },
+    async fetch() {
+      if (outcomes.shift() === false) throw new Error('vendor returned 503');
+      return { source: 'scripted', confidence: 0.9, data: [] };
+    },
+    async isAvailable() {
+      return true;
+    },
+    ...overrides,
+  };
+}
+
+test.describe('TokenBucket', () => {
+  test('lets a burst up to capacity through, then refills over the window', () => {
+    let now = 0;
+    const bucket = new TokenBucket(3, 1000, () => now);
+
+    expect([bucket.tryTake(), bucket.tryTake(), bucket.tryTake()]).toEqual([true, true, true]);
+    expect(bucket.tryTake()).toBe(false);
+    expect(bucket.waitTime()).toBe(334);
+
+    now = 334;
+    expect(bucket.waitTime()).toBe(0);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+  });
+
+  test('never holds more than its capacity', () => {
+    let now = 0;
+    const bucket = new TokenBucket(2, 1000, () => now);
+    bucket.tryTake();
+    now = 60_000;
+    expect(bucket.available).toBe(2);
+  });
+
+  test('take waits for the next token and reports the wait', async () => {
+    const bucket = new TokenBucket(1, 50);
+    expect(await bucket.take()).toBe(0);
+    const started = Date.now();
+    const waited = await bucket.take();
+    expect(waited).toBeGreaterThan(0);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(waited - 5);
+  });
+});
+
+test.describe('DataSourceRegistry', () => {
+  test('lists and picks sources by capability in priority order', async () => {
+    const registry = new DataSourceRegistry()
+      .register(scriptedSource([], { name: 'yelp', priority: 3, capabilities: ['search', 'reviews'] }))
+      .register(scriptedSource([], { name: 'places', priority: 1, capabilities: ['search'] }))
+      .register(scriptedSource([], { name: 'apollo', type: 'enrichment', priority: 2, capabilities: ['contacts'], isAvailable: async () => false }));
+
+    expect(registry.list({ capability: 'search' }).map(source => source.name)).toEqual(['places', 'yelp']);
+    expect(registry.list({ type: 'enrichment' }).map(source => source.name)).toEqual(['apollo']);
+    expect((await registry.pick('reviews'))?.name).toBe('yelp');
+    expect(await registry.pick('contacts')).toBeUndefined();
+  });
+
+  test('moves a source from healthy to degraded to down and back', async () => {
+    const registry = new DataSourceRegistry().register(scriptedSource([true, false, false, false, true]));
+    const status = async () => (await registry.health())[0].status;
+
+    await registry.call('scripted', COLUMBIA);
+    expect(await status()).toBe('healthy');
+
+    await expect(registry.call('scripted', COLUMBIA)).rejects.toThrow('vendor returned 503');
+    expect(await status()).toBe('degraded');
+
+    await expect(registry.call('scripted', COLUMBIA)).rejects.toThrow();
+    await expect(registry.call('scripted', COLUMBIA)).rejects.toThrow();
+    const [down] = await registry.health();
+    expect(down).toMatchObject({ status: 'down', requests: 4, failures: 3, consecutiveFailures: 3, lastError: 'vendor returned 503' });
+
+    // One success clears the streak; the overall failure rate keeps it degraded
+    await registry.call('scripted', COLUMBIA);
+    const [recovered] = await registry.health();
+    expect(recovered).toMatchObject({ status: 'degraded', consecutiveFailures: 0 });
+  });
+
+  test('reports sources without credentials as unconfigured', async () => {
+    const registry = new DataSourceRegistry().register(scriptedSource([], { isAvailable: async () => false }));
+    const [health] = await registry.health();
+    expect(health).toMatchObject({ status: 'unconfigured', available: false });
+  });
+
+  test('sends a health snapshot after every call', async () => {
+    const reported: SourceHealth[] = [];
+    const registry = new DataSourceRegistry(async health => { reported.push(health); })
+      .register(scriptedSource([true, false]));
+
+    await registry.call('scripted', COLUMBIA);
+    await registry.call('scripted', COLUMBIA).catch(() => undefined);
+    expect(reported.map(health => health.status)).toEqual(['healthy', 'degraded']);
+  });
+
+  test('rejects calls to unknown sources', async () => {
+    await expect(new DataSourceRegistry().call('missing', COLUMBIA)).rejects.toThrow('Unknown data source: missing');
+  });
+});
+
+test.describe('fixtures', () => {
+  const like = { name: 'google_places_text', type: 'primary' as const, priority: 1, capabilities: ['search' as const] };
+
+  test('replays the response whose query matches and returns nothing otherwise', async () => {
+    const source = new FixtureSource(like, [
+      { query: { vertical: 'dentist', city: 'Columbia' }, result: { confidence: 0.95, data: [{ name: 'Congaree Family Dentistry', address: '1200 Main St', ...COLUMBIA }] } },
+    ]);
+
+    const hit = await source.fetch({ ...COLUMBIA, vertical: 'dentist' });
+    expect(hit.source).toBe('google_places_text');
+    expect(hit.data.map(business => business.name)).toEqual(['Congaree Family Dentistry']);
+
+    const miss = await source.fetch({ ...COLUMBIA, vertical: 'roofing' });
+    expect(miss).toEqual({ source: 'google_places_text', confidence: 0, data: [], nextPageToken: null });
+  });
+
+  test('fixture mode pages through the recorded searches offline', async () => {
+    const registry = createDataSourceRegistry({ mode: 'fixtures', env: () => undefined });
+    const [health] = await registry.health();
+    expect(health).toMatchObject({ name: 'google_places_text', isFixture: true, status: 'healthy' });
+
+    const first = await registry.call('google_places_text', { ...COLUMBIA, vertical: 'dentist' });
+    expect(first.data.length).toBeGreaterThan(0);
+    expect(first.nextPageToken).toBe('fixture-dentist-page-2');
+
+    const second = await registry.call('google_places_text', { ...COLUMBIA, vertical: 'dentist', pageToken: first.nextPageToken! });
+    expect(second.data.length).toBeGreaterThan(0);
+    expect(second.nextPageToken).toBeNull();
+  });
+
+  test('live mode registers only sources with credentials', () => {
+    const env = (key: string) => (key === 'YELP_API_KEY' ? 'test-key' : undefined);
+    expect(createDataSourceRegistry({ mode: 'live', env }).list().map(source => source.name)).toEqual(['yelp']);
+  });
+
+  test('a recording replays through FixtureSource', async () => {
+    const recording = new RecordingSource(scriptedSource([true]));
+    const live = await recording.fetch({ ...COLUMBIA, vertical: 'dentist' });
+
+    const replay = new FixtureSource(recording, recording.recorded);
+    expect(await replay.fetch({ ...COLUMBIA, vertical: 'dentist' })).toEqual(live);
+  });
+});
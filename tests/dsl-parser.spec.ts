@@ -0,0 +1,84 @@
+import { test, expect } from '@playwright/test';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { parseLeadPrompt } from '../supabase/functions/lib/dsl-parser';
+import { describeLeadQuery } from '../supabase/functions/lib/dsl-describe';
+import type { LeadQuery } from '../supabase/functions/lib/lead-query';
+import { BUILT_IN_VERTICALS } from '../supabase/functions/lib/verticals';
+
+// Golden corpus for the offline prompt parser. After an intended parser
+// change, regenerate the expectations with
+//   UPDATE_GOLDEN=1 npx playwright test tests/dsl-parser.spec.ts
+// and review the diff of the fixture file.
+
+const GOLDEN_PATH = fileURLToPath(new URL('./fixtures/dsl-parser-golden.json', import.meta.url));
+
+interface GoldenCase {
+  prompt: string;
+  expected: ReturnType<typeof summarize>;
+}
+
+function summarize(prompt: string) {
+  const result = parseLeadPrompt(prompt);
+  return {
+    dsl: result.dsl,
+    spans: result.spans.map(span => ({ text: span.text, kind: span.kind, path: span.path ?? null })),
+    warnings: result.warnings,
+    errors: result.errors,
+    confidence: result.confidence,
+  };
+}
+
+const corpus: GoldenCase[] = JSON.parse(readFileSync(GOLDEN_PATH, 'utf8'));
+
+if (process.env.UPDATE_GOLDEN) {
+  const updated = corpus.map(({ prompt }) => ({ prompt, expected: summarize(prompt) }));
+  writeFileSync(GOLDEN_PATH, `${JSON.stringify(updated, null, 2)}\n`);
+}
+
+for (const { prompt, expected } of corpus) {
+  test(`parses: ${prompt}`, () => {
+    expect(summarize(prompt)).toEqual(expected);
+  });
+}
+
+test('spans point at the words that produced them', () => {
+  for (const { prompt } of corpus) {
+    for (const span of parseLeadPrompt(prompt).spans) {
+      expect(prompt.slice(span.start, span.end)).toBe(span.text);
+    }
+  }
+});
+
+// The writer groups features by polarity, so constraint order may change
+function sortConstraints(dsl: LeadQuery | null) {
+  if (!dsl) return dsl;
+  const sorted = (list?: object[]) => list && [...list].sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+  const { must, optional, exclude } = dsl.constraints;
+  return { ...dsl, constraints: { must: sorted(must), optional: sorted(optional), exclude: sorted(exclude) } };
+}
+
+test('regenerated prompts parse back to the same query', () => {
+  for (const { prompt } of corpus) {
+    const { dsl } = parseLeadPrompt(prompt);
+    if (!dsl) continue;
+    const description = describeLeadQuery(dsl);
+    expect(description.omitted).toEqual([]);
+    expect(sortConstraints(parseLeadPrompt(description.prompt).dsl), description.prompt).toEqual(sortConstraints(dsl));
+  }
+});
+
+test('reads custom verticals from the taxonomy', () => {
+  const verticals = [
+    ...BUILT_IN_VERTICALS,
+    { id: 'pet_grooming', label: 'Pet Grooming', synonyms: ['pet groomer', 'dog groomer'], place_types: ['pet_store'], tier: 'standard' as const },
+  ];
+  const result = parseLeadPrompt('dog groomers and veterinarians or roofers in Denver, CO', { verticals });
+  expect(result.dsl?.vertical).toBe('pet_grooming');
+  expect(result.dsl?.additional_verticals).toEqual(['roofing']);
+
+  const prompt = describeLeadQuery(result.dsl!, verticals).prompt;
+  expect(prompt).toBe('Find 250 pet groomers and roofers in Denver, CO');
+  expect(parseLeadPrompt(prompt, { verticals }).dsl).toEqual(result.dsl);
+  expect(parseLeadPrompt(prompt).dsl?.vertical).toBe('roofing');
+});
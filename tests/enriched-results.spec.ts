@@ -13,6 +13,8 @@ test('enriched results show exactly 3 fake leads', async ({ page }) => {
     await page.locator('input[type="number"]').first().fill('3');
     await page.locator('textarea').first().fill('hvac in atlanta');
     await page.getByRole('button', { name: /find leads/i }).click();
+    // Find Leads shows the cost estimate; the search starts on confirmation
+    await page.getByRole('button', { name: /run search/i }).click();
   }
 
   await expect(page.getByText('Test Business 1')).toBeVisible({ timeout: 30000 });
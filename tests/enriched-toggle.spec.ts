@@ -12,6 +12,8 @@ test('toggle enriched-only and submit query', async ({ page }) => {
   const textarea = page.locator('textarea');
   await textarea.first().fill('dentists in columbia sc with owner identified');
   await page.getByRole('button', { name: /find leads/i }).click();
+  // Find Leads shows the cost estimate; the search starts on confirmation
+  await page.getByRole('button', { name: /run search/i }).click();
 
   await expect(page.getByText('Test Business 1')).toBeVisible({ timeout: 30000 });
 });
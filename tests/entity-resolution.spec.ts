@@ -0,0 +1,109 @@
+import { test, expect } from '@playwright/test';
+import {
+  clusterEntities,
+  compareEntities,
+  identityKeys,
+  isChainBranch,
+  mergeWithProvenance,
+  normalizeDomain,
+  normalizeName,
+  normalizePhone,
+} from '../supabase/functions/lib/entity-resolution';
+
+// Matching and merging of business records from different sources.
+
+test('normalizes the identifiers sources disagree on', () => {
+  expect(normalizePhone('+1 (803) 555-0101')).toBe('8035550101');
+  expect(normalizePhone('555')).toBeNull();
+  expect(normalizeDomain('http://www.SmithDental.com/contact')).toBe('smithdental.com');
+  expect(normalizeDomain('https://facebook.com/smithdental')).toBeNull();
+  expect(normalizeName('The Smith Dental, LLC')).toBe('smith dental');
+  expect(normalizeName("Joe's Bar & Grill")).toBe('joes bar and grill');
+});
+
+test('"Smith Dental LLC" and "Smith Dental" at one address are the same business', () => {
+  const google = identityKeys({ name: 'Smith Dental LLC', phone: '(803) 555-0101', city: 'Columbia', state: 'SC', lat: 34.0007, lng: -81.0348 });
+  const yelp = identityKeys({ name: 'Smith Dental', phone: '803-555-0101', city: 'Columbia', state: 'SC', lat: 34.0008, lng: -81.0349 });
+
+  const result = compareEntities(google, yelp);
+  expect(result.match).toBe(true);
+  expect(result.reasons).toContain('phone');
+  expect(result.name_similarity).toBe(1);
+});
+
+test('the names alone match without coordinates in the same city', () => {
+  const a = identityKeys({ name: 'Smith Dental LLC', city: 'Columbia', state: 'SC' });
+  const b = identityKeys({ name: 'Smith Dental', city: 'Columbia', state: 'SC' });
+  expect(compareEntities(a, b)).toMatchObject({ match: true, reasons: ['name', 'locality'] });
+
+  const elsewhere = identityKeys({ name: 'Smith Dental', city: 'Charleston', state: 'SC' });
+  expect(compareEntities(a, elsewhere).match).toBe(false);
+});
+
+test('two "Main Street Pizza" branches miles apart stay separate', () => {
+  const downtown = identityKeys({
+    name: 'Main Street Pizza', phone: '(803) 555-0110', website: 'mainstreetpizza.com', city: 'Columbia', state: 'SC', lat: 34.0007, lng: -81.0348,
+  });
+  const northeast = identityKeys({
+    name: 'Main Street Pizza', phone: '(803) 555-0199', website: 'https://www.mainstreetpizza.com', city: 'Columbia', state: 'SC', lat: 34.0854, lng: -80.9412,
+  });
+
+  const result = compareEntities(downtown, northeast);
+  expect(result.match).toBe(false);
+  expect(result.reasons).toEqual(['phone_conflict', 'distance']);
+  expect(isChainBranch(downtown, northeast)).toBe(true);
+});
+
+test('a shared website does not merge branches a few blocks apart', () => {
+  const a = identityKeys({ name: 'Main Street Pizza', phone: '(803) 555-0110', website: 'mainstreetpizza.com', lat: 34.0007, lng: -81.0348 });
+  const b = identityKeys({ name: 'Main Street Pizza', phone: '(803) 555-0199', website: 'mainstreetpizza.com', lat: 34.0060, lng: -81.0348 });
+  expect(compareEntities(a, b).match).toBe(false);
+});
+
+test('a shared place id always matches', () => {
+  const a = identityKeys({ place_id: 'ChIJ123', name: 'Smith Dental' });
+  const b = identityKeys({ place_id: 'ChIJ123', name: 'Totally Different' });
+  expect(compareEntities(a, b)).toMatchObject({ match: true, score: 1, reasons: ['place_id'] });
+  expect(isChainBranch(a, b)).toBe(false);
+});
+
+test('clusters records transitively', () => {
+  const records = [
+    { id: 'google', name: 'Smith Dental LLC', phone: '803-555-0101', lat: 34.0007, lng: -81.0348 },
+    { id: 'yelp', name: 'Smith Dental', phone: '(803) 555-0101', website: 'smithdental.com' },
+    { id: 'bing', name: 'Smith Dental', website: 'https://smithdental.com' },
+    { id: 'other', name: 'Jones Orthodontics', phone: '803-555-0444' },
+  ];
+  const clusters = clusterEntities(records, identityKeys).map(cluster => cluster.map(record => record.id));
+  expect(clusters).toEqual([['google', 'yelp', 'bing'], ['other']]);
+});
+
+test('merges each field from the most confident source, newest on ties', () => {
+  const { data, provenance } = mergeWithProvenance([
+    { source: 'yelp', confidence: 0.7, observed_at: '2025-01-02T00:00:00Z', data: { name: 'Smith Dental', phone: '803-555-0101', website: '' } },
+    { source: 'google', confidence: 0.95, observed_at: '2025-01-01T00:00:00Z', data: { name: 'Smith Dental LLC', phone: null, website: 'smithdental.com' } },
+  ]);
+  expect(data).toEqual({ name: 'Smith Dental LLC', phone: '803-555-0101', website: 'smithdental.com' });
+  expect(provenance.name.source).toBe('google');
+  expect(provenance.phone.source).toBe('yelp');
+});
+
+test('kept fields hold their existing value against an equally confident newer record', () => {
+  const existing = {
+    data: { name: 'Smith Dental', google_place_id: 'ChIJ-original' },
+    provenance: {
+      name: { source: 'google_places', confidence: 0.95, observed_at: '2025-01-01T00:00:00Z' },
+      google_place_id: { source: 'google_places', confidence: 0.95, observed_at: '2025-01-01T00:00:00Z' },
+    },
+  };
+  const incoming = {
+    source: 'google_places', confidence: 0.95, observed_at: '2025-02-01T00:00:00Z',
+    data: { name: 'Smith Dental LLC', google_place_id: 'ChIJ-relisted' },
+  };
+
+  const kept = mergeWithProvenance([incoming], existing, { keep: ['google_place_id'] });
+  expect(kept.data).toEqual({ name: 'Smith Dental LLC', google_place_id: 'ChIJ-original' });
+  expect(kept.provenance.google_place_id.observed_at).toBe('2025-01-01T00:00:00Z');
+
+  expect(mergeWithProvenance([incoming], existing).data.google_place_id).toBe('ChIJ-relisted');
+});
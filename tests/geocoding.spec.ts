@@ -0,0 +1,161 @@
+import { test, expect } from '@playwright/test';
+import {
+  circleBias,
+  describeGeo,
+  distanceKm,
+  GazetteerGeocoder,
+  GeocodeQuery,
+  GeocodeResult,
+  GeocoderChain,
+  GeocodingProvider,
+  isInsideRectangle,
+  planSearchAreas,
+  pointInPolygon,
+  resolveGeo,
+} from '../supabase/functions/lib/geocoding';
+import type { LeadQueryGeo } from '../supabase/functions/lib/lead-query';
+
+// Resolving query places to coordinates and planning the areas the Places
+// fetch stage searches. Only the bundled gazetteer is used; nothing here
+// touches the network.
+
+const COLUMBIA_SC = { lat: 34.0007, lng: -81.0348 };
+const gazetteer = new GazetteerGeocoder();
+
+function geo(fields: Partial<LeadQueryGeo>): LeadQueryGeo {
+  return { state: 'SC', radius_km: 25, ...fields } as LeadQueryGeo;
+}
+
+test.describe('GazetteerGeocoder', () => {
+  test('finds a city in the given state, or the largest of that name', async () => {
+    expect(await gazetteer.geocode({ city: 'Columbia', state: 'SC' })).toEqual({
+      kind: 'city', name: 'Columbia', state: 'SC', center: COLUMBIA_SC, county: 'Richland', source: 'gazetteer',
+    });
+    expect((await gazetteer.geocode({ city: 'Columbia', state: 'MO' }))?.county).toBe('Boone');
+    expect(await gazetteer.geocode({ city: 'Columbia', state: 'WY' })).toBeNull();
+  });
+
+  test('finds a county with or without the "County" suffix', async () => {
+    const county = await gazetteer.geocode({ county: 'Richland County', state: 'SC' });
+    expect(county).toMatchObject({ kind: 'county', name: 'Richland', center: COLUMBIA_SC });
+    expect(await gazetteer.geocode({ county: 'Richland', state: 'sc' })).toEqual(county);
+  });
+
+  test('leaves ZIP codes to an online provider', async () => {
+    expect(await gazetteer.geocode({ zip: '29201' })).toBeNull();
+  });
+});
+
+test('the chain skips a failing provider and falls through to the next', async () => {
+  const asked: string[] = [];
+  const provider = (name: string, answer: () => Promise<GeocodeResult | null>): GeocodingProvider => ({
+    name,
+    geocode: async (_query: GeocodeQuery) => {
+      asked.push(name);
+      return answer();
+    },
+  });
+
+  const chain = new GeocoderChain([
+    provider('empty', async () => null),
+    provider('broken', async () => { throw new Error('OVER_QUERY_LIMIT'); }),
+    gazetteer,
+  ]);
+  const warn = console.warn;
+  console.warn = () => undefined;
+  try {
+    expect((await chain.geocode({ city: 'Columbia', state: 'SC' }))?.source).toBe('gazetteer');
+  } finally {
+    console.warn = warn;
+  }
+  expect(asked).toEqual(['empty', 'broken']);
+});
+
+test.describe('resolveGeo', () => {
+  test('fills in the city center and the drive-time start', async () => {
+    const { geo: resolved, warnings } = await resolveGeo(
+      geo({ city: 'Columbia', shape: { type: 'drive_time', minutes: 20 } }),
+      gazetteer,
+    );
+    expect(resolved.center).toEqual(COLUMBIA_SC);
+    expect(resolved.shape).toEqual({ type: 'drive_time', minutes: 20, center: COLUMBIA_SC });
+    expect(warnings).toEqual([]);
+  });
+
+  test('keeps unknown places and explains what it could not resolve', async () => {
+    const { geo: resolved, warnings } = await resolveGeo(
+      geo({
+        city: 'Nowhereville',
+        locations: [{ city: 'Charleston', state: 'SC' }],
+        counties: ['Atlantis'],
+        zip_codes: ['29201', '30301'],
+        shape: { type: 'drive_time', minutes: 15 },
+      }),
+      gazetteer,
+    );
+
+    expect(resolved.city).toBe('Nowhereville');
+    expect(resolved.center).toBeUndefined();
+    expect(resolved.locations?.[0].center).toBeDefined();
+    expect(warnings).toEqual([
+      'Could not locate Nowhereville, SC; searching by name only',
+      'Could not locate Atlantis County, SC; searching by name only',
+      'ZIP 30301 is in GA, not SC',
+      'Drive time needs a known starting point; searching 25 km instead',
+    ]);
+  });
+});
+
+test('measures distances and polygon membership', () => {
+  expect(distanceKm({ lat: 34, lng: -81 }, { lat: 35, lng: -81 })).toBeCloseTo(111.19, 1);
+  expect(distanceKm(COLUMBIA_SC, COLUMBIA_SC)).toBe(0);
+
+  const square = [{ lat: 0, lng: 0 }, { lat: 0, lng: 1 }, { lat: 1, lng: 1 }, { lat: 1, lng: 0 }];
+  expect(pointInPolygon({ lat: 0.5, lng: 0.5 }, square)).toBe(true);
+  expect(pointInPolygon({ lat: 1.5, lng: 0.5 }, square)).toBe(false);
+});
+
+test('caps the bias circle at 50 km', () => {
+  expect(circleBias(COLUMBIA_SC, 80).circle.radius).toBe(50000);
+  expect(circleBias(COLUMBIA_SC, 12.3456).circle.radius).toBe(12346);
+});
+
+test.describe('planSearchAreas', () => {
+  test('searches each city, county and ZIP as its own area', () => {
+    const areas = planSearchAreas(geo({
+      city: 'Columbia',
+      locations: [{ city: 'Charleston', state: 'SC' }],
+      counties: ['Lexington'],
+      zip_codes: ['29201', '28202'],
+    }));
+
+    expect(areas.map(area => area.label)).toEqual(['Columbia, SC', 'Charleston, SC', 'Lexington County, SC', 'ZIP 29201', 'ZIP 28202']);
+    expect(areas[0].locationBias).toEqual({ circle: { center: { latitude: 34.0007, longitude: -81.0348 }, radius: 25000 } });
+    expect(isInsideRectangle({ lat: 34.2, lng: -81.0348 }, areas[0].locationRestriction!)).toBe(true);
+    expect(isInsideRectangle({ lat: 34.3, lng: -81.0348 }, areas[0].locationRestriction!)).toBe(false);
+    expect(areas[4]).toEqual({ label: 'ZIP 28202', city: '28202', state: 'NC' });
+  });
+
+  test('a drawn polygon replaces every other place', () => {
+    const points = [{ lat: 34, lng: -81.1 }, { lat: 34, lng: -81 }, { lat: 34.1, lng: -81 }];
+    const [area, ...rest] = planSearchAreas(geo({ city: 'Columbia', zip_codes: ['29201'], shape: { type: 'polygon', points } }));
+
+    expect(rest).toEqual([]);
+    expect(area.label).toBe('drawn area around Columbia, SC');
+    expect(area.polygon).toEqual(points);
+    expect(area.locationRestriction).toEqual({
+      rectangle: { low: { latitude: 34, longitude: -81.1 }, high: { latitude: 34.1, longitude: -81 } },
+    });
+  });
+
+  test('a drive time becomes a radius around its start', () => {
+    const [area] = planSearchAreas(geo({ city: 'Columbia', shape: { type: 'drive_time', minutes: 30 } }));
+    expect(area.label).toBe('30 min drive of Columbia, SC');
+    expect(area.locationBias?.circle.radius).toBe(25000);
+  });
+
+  test('describes the plan in one line', () => {
+    expect(describeGeo(geo({ city: 'Columbia' }))).toBe('Columbia, SC');
+    expect(describeGeo(geo({ city: 'Columbia', zip_codes: ['29201', '29205'] }))).toBe('Columbia, SC and 2 more areas');
+  });
+});
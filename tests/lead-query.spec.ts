@@ -0,0 +1,106 @@
+import { test, expect } from '@playwright/test';
+import { LEAD_QUERY_VERSION, requireLeadQuery, upgradeLeadQuery } from '../supabase/functions/lib/lead-query';
+
+// Loading stored dsl_json of every older LeadQuery version: what each upgrade
+// step turns it into, and what can't be upgraded.
+
+const geo = { city: 'Austin', state: 'tx', radius_km: 10 };
+
+test.describe('upgrade steps', () => {
+  test('v0: a query saved before the version field loads as v1', () => {
+    const result = upgradeLeadQuery({ vertical: 'dentist', geo, constraints: { must: [{ no_website: true }] } });
+
+    expect(result.success).toBe(true);
+    expect(result.fromVersion).toBe(0);
+    expect(result.dsl).toMatchObject({
+      version: LEAD_QUERY_VERSION,
+      vertical: 'dentist',
+      geo: { city: 'Austin', state: 'TX', radius_km: 10 },
+      constraints: { must: [{ no_website: true }] },
+      scoring: { profile: 'generic' },
+      sort_by: 'score_desc',
+    });
+    expect(result.warnings).toEqual([`Upgraded lead query from version 0 to ${LEAD_QUERY_VERSION}`]);
+  });
+
+  test('v1 to v2: moves the profile under scoring and spells negations as false flags', () => {
+    const result = upgradeLeadQuery({
+      version: 1,
+      vertical: 'Law Firm',
+      geo,
+      lead_profile: 'sales_ready',
+      sort_by: 'relevance',
+      output: { format: 'csv' },
+      constraints: {
+        must: [{ no_chatbot: true }, { not_franchise: true, reviews_count_gt: 10 }, { field: 'rating', value: 4 }],
+        exclude: [{ has_website: true }],
+      },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.dsl).toMatchObject({
+      vertical: 'law_firm',
+      scoring: { profile: 'sales_ready' },
+      sort_by: 'score_desc',
+      output: { contract: 'csv' },
+      constraints: {
+        must: [{ has_chatbot: false }, { franchise: false, reviews_count_gt: 10 }],
+        exclude: [{ no_website: false }],
+      },
+    });
+    expect(result.dsl).not.toHaveProperty('lead_profile');
+    expect(result.dsl!.output).not.toHaveProperty('format');
+    expect(result.warnings).toEqual([
+      'Unknown sort order "relevance", using score_desc',
+      'Dropped 1 unsupported field/value constraint(s) from constraints.must',
+      `Upgraded lead query from version 1 to ${LEAD_QUERY_VERSION}`,
+    ]);
+  });
+
+  test('v1 to v2: scoring_profile is read too, and unknown verticals fall back to generic', () => {
+    const result = upgradeLeadQuery({ version: 1, vertical: 'Plumbers', geo, scoring_profile: 'local_smb' });
+    expect(result.dsl).toMatchObject({ vertical: 'generic', scoring: { profile: 'local_smb' } });
+    expect(result.warnings).toContain('Unknown vertical "Plumbers", using generic');
+  });
+
+  test('v2 to v3: geo keeps its city and state layout', () => {
+    const result = upgradeLeadQuery({ version: 2, vertical: 'hvac', geo, scoring: { profile: 'generic' } });
+    expect(result.success).toBe(true);
+    expect(result.dsl!.geo).toEqual({ city: 'Austin', state: 'TX', radius_km: 10 });
+  });
+
+  test('v3 to v4: built-in verticals carry over as taxonomy ids', () => {
+    const result = upgradeLeadQuery({
+      version: 3,
+      vertical: 'roofing',
+      geo: { state: 'CO', counties: ['Denver County'] },
+    });
+    expect(result.success).toBe(true);
+    expect(result.dsl).toMatchObject({ version: 4, vertical: 'roofing', geo: { counties: ['Denver County'] } });
+    expect(result.dsl).not.toHaveProperty('additional_verticals');
+  });
+});
+
+test('a current query loads without warnings', () => {
+  const result = upgradeLeadQuery({ version: LEAD_QUERY_VERSION, vertical: 'pet_grooming', geo });
+  expect(result).toMatchObject({ success: true, fromVersion: LEAD_QUERY_VERSION, warnings: [] });
+});
+
+test('nulls stored for optional fields count as unset', () => {
+  const dsl = requireLeadQuery({ version: 2, vertical: 'dentist', geo: { ...geo, zip_codes: null }, metadata: null });
+  expect(dsl.geo).not.toHaveProperty('zip_codes');
+  expect(dsl).not.toHaveProperty('metadata');
+});
+
+test.describe('requireLeadQuery', () => {
+  test('rejects a version newer than this build supports', () => {
+    expect(() => requireLeadQuery({ version: LEAD_QUERY_VERSION + 1, vertical: 'dentist', geo }))
+      .toThrow(`Invalid lead query: Lead query version ${LEAD_QUERY_VERSION + 1} is newer than the supported version ${LEAD_QUERY_VERSION}`);
+  });
+
+  test('names the fields an upgraded query still fails on', () => {
+    expect(() => requireLeadQuery({ version: 1, vertical: 'dentist', geo: { state: 'TX' } }))
+      .toThrow('Invalid lead query: geo: geo needs a city, ZIP codes, counties or a polygon');
+    expect(() => requireLeadQuery('dentists in Austin')).toThrow('Lead query must be an object');
+  });
+});
@@ -0,0 +1,67 @@
+import { test, expect } from '@playwright/test';
+import { compareRankings, DEFAULT_TOP_N, RankedLead } from '../supabase/functions/lib/rank-movement';
+
+// How candidate scoring weights would move a search's ranking.
+
+function ranked(...entries: Array<[string, number]>): RankedLead[] {
+  return entries.map(([business_id, score], index) => ({ business_id, name: `Business ${business_id}`, score, rank: index + 1 }));
+}
+
+test('reports each lead in simulated rank order with its deltas', () => {
+  const before = ranked(['a', 90], ['b', 80], ['c', 70]);
+  const after = ranked(['c', 88], ['a', 85], ['b', 80]);
+
+  const { movements } = compareRankings(before, after);
+  expect(movements.map(movement => movement.business_id)).toEqual(['c', 'a', 'b']);
+  expect(movements[0]).toEqual({
+    business_id: 'c',
+    name: 'Business c',
+    score_before: 70,
+    score_after: 88,
+    score_delta: 18,
+    rank_before: 3,
+    rank_after: 1,
+    rank_delta: 2,
+    entered_top: false,
+    dropped_top: false,
+  });
+  expect(movements[1]).toMatchObject({ rank_delta: -1, score_delta: -5 });
+});
+
+test('summarizes moves and entries to and exits from the top N', () => {
+  const before = ranked(['a', 90], ['b', 80], ['c', 70], ['d', 60]);
+  const after = ranked(['a', 92], ['d', 81], ['b', 79], ['c', 70]);
+
+  const { summary, movements } = compareRankings(before, after, 2);
+  expect(summary).toEqual({
+    leads: 4,
+    top_n: 2,
+    entered_top: 1,
+    dropped_top: 1,
+    moved_up: 1,
+    moved_down: 2,
+    unchanged: 1,
+    mean_abs_score_delta: 6,
+  });
+  expect(movements.find(movement => movement.entered_top)?.business_id).toBe('d');
+  expect(movements.find(movement => movement.dropped_top)?.business_id).toBe('b');
+});
+
+test('uses the default top N and rounds the mean score move to a tenth', () => {
+  const before = ranked(['a', 90], ['b', 80], ['c', 70]);
+  const after = ranked(['a', 91], ['b', 80], ['c', 70]);
+
+  const { summary } = compareRankings(before, after);
+  expect(summary.top_n).toBe(DEFAULT_TOP_N);
+  expect(summary.mean_abs_score_delta).toBe(0.3);
+});
+
+test('leaves out leads missing from either ranking', () => {
+  const { summary, movements } = compareRankings(ranked(['a', 90], ['gone', 80]), ranked(['a', 90], ['new', 70]));
+  expect(movements.map(movement => movement.business_id)).toEqual(['a']);
+  expect(summary).toMatchObject({ leads: 1, unchanged: 1 });
+});
+
+test('an empty search has nothing to move', () => {
+  expect(compareRankings([], []).summary).toMatchObject({ leads: 0, mean_abs_score_delta: 0 });
+});
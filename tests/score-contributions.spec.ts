@@ -0,0 +1,91 @@
+import { test, expect } from '@playwright/test';
+import { LearnedScoringModel, learnedContributions, predictProbability } from '../supabase/functions/lib/scoring-model';
+import {
+  BUILT_IN_SCORING_PROFILES,
+  featuresFromSignals,
+  getScoringProfile,
+  ScoreContribution,
+  scoreLead,
+  settleContributions,
+} from '../supabase/functions/lib/scoring-service';
+
+// The per-step breakdown of a score: however a score was reached, its
+// contributions add up to it.
+
+function total(contributions: ScoreContribution[]): number {
+  return contributions.reduce((sum, contribution) => sum + contribution.points, 0);
+}
+
+const leads = {
+  noWebsite: featuresFromSignals([{ type: 'no_website', value_json: true }, { type: 'review_count', value_json: 3 }], { vertical: 'dentist' }),
+  modernSite: featuresFromSignals([
+    { type: 'has_online_booking', value_json: true },
+    { type: 'has_chatbot', value_json: true },
+    { type: 'has_crm', value_json: true },
+    { type: 'ssl_certificate', value_json: true },
+    { type: 'review_count', value_json: 480 },
+    { type: 'rating', value_json: 4.9 },
+  ], { vertical: 'healthcare', website: 'https://clinic.example', phone: '512-555-0100' }),
+  painHeavy: featuresFromSignals([
+    { type: 'has_online_booking', value_json: false },
+    { type: 'has_chatbot', value_json: false },
+    { type: 'ssl_certificate', value_json: false },
+    { type: 'mobile_responsive', value_json: false },
+    { type: 'owner_identified', value_json: true },
+    { type: 'review_count', value_json: 60 },
+  ], { vertical: 'restaurant', website: 'http://diner.example', phone: '512-555-0101', email: 'owner@diner.example' }),
+  unknown: featuresFromSignals([], {}),
+};
+
+test.describe('rule-based scores', () => {
+  for (const profile of BUILT_IN_SCORING_PROFILES) {
+    test(`contributions sum to the score under ${profile.id}`, () => {
+      for (const [lead, features] of Object.entries(leads)) {
+        const result = scoreLead(features, profile);
+        expect(total(result.contributions), lead).toBeCloseTo(result.score, 5);
+      }
+    });
+  }
+
+  test('a weight override and an industry modifier still sum to the score', () => {
+    const result = scoreLead(leads.modernSite, getScoringProfile('sales_ready'), { Pain: 80, ICP: 10 });
+    expect(result.contributions.some(contribution => contribution.feature === 'industry_modifier')).toBe(true);
+    expect(total(result.contributions)).toBeCloseTo(result.score, 5);
+  });
+});
+
+test.describe('learned scores', () => {
+  const model: LearnedScoringModel = {
+    version: 'test',
+    kind: 'logistic',
+    feature_names: ['has_booking', 'review_count', 'has_website'],
+    weights: [-1.4, 0.6, 0.3],
+    bias: 0.2,
+    means: [0.5, 120, 0.8],
+    stds: [0.5, 90, 0.4],
+    trained_at: '2025-09-30T00:00:00Z',
+  };
+
+  for (const features of [
+    { has_booking: false, review_count: 12, has_website: true },
+    { has_booking: true, review_count: 900, has_website: true },
+    { has_booking: true, review_count: 0, has_website: false },
+    {},
+  ]) {
+    test(`contributions sum to the model score for ${JSON.stringify(features)}`, () => {
+      const contributions = learnedContributions(model, features);
+      expect(total(contributions)).toBeCloseTo(Math.round(predictProbability(model, features) * 100), 5);
+    });
+  }
+});
+
+test('settling rounds each step to a tenth and books the remainder as rounding', () => {
+  const settled = settleContributions([
+    { feature: 'base', label: 'Baseline', value: null, weight: 30, points: 12.34 },
+    { feature: 'has_website', label: 'No website', value: false, weight: 35, points: 40.26 },
+  ], 53);
+  expect(settled.map(contribution => contribution.points)).toEqual([12.3, 40.3, 0.4]);
+  expect(settled[2]).toMatchObject({ feature: 'rounding', label: 'Score cap and rounding', weight: 0 });
+
+  expect(settleContributions([{ feature: 'base', label: 'Baseline', value: null, weight: 30, points: 20 }], 20)).toHaveLength(1);
+});
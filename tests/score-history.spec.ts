@@ -0,0 +1,83 @@
+import { test, expect } from '@playwright/test';
+import { historyEntry, scoreSeries, SPARKLINE_POINTS, weightsHash } from '../supabase/functions/lib/score-history';
+import { featuresFromSignals, getScoringProfile, scoreLead } from '../supabase/functions/lib/scoring-service';
+
+// Score history rows written per scoring event and the sparkline series read
+// back from them.
+
+const leadView = { id: 'lead-view-1', search_job_id: 'job-1', business_id: 'business-1' };
+const features = featuresFromSignals([{ type: 'review_count', value_json: 120 }, { type: 'has_online_booking', value_json: false }], { website: 'https://smithdental.com' });
+
+test.describe('weightsHash', () => {
+  test('is a stable eight-digit hex id for a weight set', () => {
+    const hash = weightsHash({ ICP: 30, Pain: 35, Reachability: 30, ComplianceRisk: 5 });
+    expect(hash).toMatch(/^[0-9a-f]{8}$/);
+    expect(weightsHash({ ComplianceRisk: 5, Reachability: 30, Pain: 35, ICP: 30 })).toBe(hash);
+  });
+
+  test('changes with any weight', () => {
+    const base = { ICP: 30, Pain: 35, Reachability: 30, ComplianceRisk: 5 };
+    const hashes = new Set([
+      weightsHash(base),
+      weightsHash({ ...base, ICP: 31 }),
+      weightsHash({ ...base, Pain: 34 }),
+      weightsHash({ ...base, Reachability: 29 }),
+      weightsHash({ ...base, ComplianceRisk: 6 }),
+    ]);
+    expect(hashes.size).toBe(5);
+  });
+});
+
+test.describe('historyEntry', () => {
+  test('records the score with the profile, model and weights it came from', () => {
+    const profile = getScoringProfile('local_smb');
+    const result = scoreLead(features, profile);
+    const entry = historyEntry(leadView, result, 'search');
+
+    expect(entry).toEqual({
+      lead_view_id: 'lead-view-1',
+      search_job_id: 'job-1',
+      business_id: 'business-1',
+      event: 'search',
+      profile: result.scoring_breakdown.profile,
+      model_version: result.model_version,
+      weights_hash: weightsHash(profile.weights),
+      score: result.score,
+      rank: null,
+      subscores: result.subscores,
+      scored_at: result.scored_at,
+    });
+  });
+
+  test('a weight override shows up in the hash', () => {
+    const profile = getScoringProfile('local_smb');
+    const tuned = historyEntry(leadView, scoreLead(features, profile, { Pain: 50 }), 'rescore');
+    expect(tuned.weights_hash).toBe(weightsHash({ ...profile.weights, Pain: 50 }));
+    expect(tuned.weights_hash).not.toBe(weightsHash(profile.weights));
+  });
+
+  test('keeps the rank once the validate task has set one', () => {
+    const result = scoreLead(features);
+    expect(historyEntry({ ...leadView, rank: 4 }, result, 'rescore').rank).toBe(4);
+    expect(historyEntry({ ...leadView, rank: 0 }, result, 'rescore').rank).toBeNull();
+  });
+});
+
+test.describe('scoreSeries', () => {
+  test('groups scores per business, oldest first', () => {
+    expect(scoreSeries([
+      { business_id: 'a', score: 40 },
+      { business_id: 'b', score: 70 },
+      { business_id: 'a', score: 55 },
+    ])).toEqual({ a: [40, 55], b: [70] });
+  });
+
+  test('keeps only the latest points', () => {
+    const entries = Array.from({ length: SPARKLINE_POINTS + 3 }, (_, i) => ({ business_id: 'a', score: i }));
+    const { a } = scoreSeries(entries);
+    expect(a).toHaveLength(SPARKLINE_POINTS);
+    expect(a[0]).toBe(3);
+    expect(a[a.length - 1]).toBe(SPARKLINE_POINTS + 2);
+    expect(scoreSeries(entries, 2)).toEqual({ a: [SPARKLINE_POINTS + 1, SPARKLINE_POINTS + 2] });
+  });
+});
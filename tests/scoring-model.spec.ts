@@ -0,0 +1,115 @@
+import { test, expect } from '@playwright/test';
+import {
+  areaUnderCurve,
+  evaluateModel,
+  learnedContributions,
+  MIN_TRAINING_EXAMPLES,
+  predictProbability,
+  resolveOutcome,
+  splitHoldout,
+  trainLogistic,
+  trainScoringModel,
+  TrainingExample,
+} from '../supabase/functions/lib/scoring-model';
+
+// Training and evaluating the learned lead scoring model on synthetic
+// outcomes: leads without online booking tend to be won.
+
+function examples(count: number, offset = 0): TrainingExample[] {
+  return Array.from({ length: count }, (_, index) => {
+    const i = index + offset;
+    const hasBooking = i % 2 === 0;
+    // One lead in seven goes against the trend
+    const won = hasBooking === (i % 7 === 0);
+    return {
+      business_id: `business-${i}`,
+      features: { has_booking: hasBooking, review_count: (i * 37) % 400, has_website: true },
+      outcome: won ? (i % 3 === 0 ? 'qualified' : 'won') : (i % 3 === 0 ? 'ignored' : 'lost'),
+    };
+  });
+}
+
+test('labels outcomes from the opportunity stage first, then the lead status', () => {
+  expect(resolveOutcome('ignored', 'Won')).toBe('won');
+  expect(resolveOutcome('qualified', 'Lost')).toBe('lost');
+  expect(resolveOutcome('qualified', 'Proposal')).toBe('qualified');
+  expect(resolveOutcome('ignored', null)).toBe('ignored');
+  expect(resolveOutcome('new', null)).toBeNull();
+});
+
+test.describe('splitHoldout', () => {
+  test('puts a business in the same split on every run', () => {
+    const first = splitHoldout(examples(200));
+    const again = splitHoldout([...examples(200)].reverse());
+    expect(new Set(again.holdout.map(example => example.business_id))).toEqual(new Set(first.holdout.map(example => example.business_id)));
+  });
+
+  test('holds out roughly the requested share', () => {
+    const { training, holdout } = splitHoldout(examples(1000), 0.2);
+    expect(training.length + holdout.length).toBe(1000);
+    expect(holdout.length).toBeGreaterThan(150);
+    expect(holdout.length).toBeLessThan(250);
+  });
+});
+
+test.describe('areaUnderCurve', () => {
+  test('is 1 for a perfect ranking, 0 for a reversed one and 0.5 for a coin flip', () => {
+    expect(areaUnderCurve([0, 0, 1, 1], [0.1, 0.2, 0.8, 0.9])).toBe(1);
+    expect(areaUnderCurve([1, 1, 0, 0], [0.1, 0.2, 0.8, 0.9])).toBe(0);
+    expect(areaUnderCurve([0, 1, 0, 1], [0.5, 0.5, 0.5, 0.5])).toBe(0.5);
+  });
+
+  test('counts ties as half and needs both classes', () => {
+    expect(areaUnderCurve([0, 1, 1], [0.3, 0.3, 0.9])).toBe(0.75);
+    expect(areaUnderCurve([1, 1], [0.2, 0.8])).toBe(0.5);
+  });
+});
+
+test('bins predictions to measure calibration', () => {
+  const metrics = evaluateModel([1, 0, 1, 1], [0.95, 0.05, 0.9, 1]);
+  expect(metrics.calibration.map(bin => [bin.lower, bin.count])).toEqual([[0, 1], [0.9, 3]]);
+  expect(metrics.calibration[1].observed_rate).toBe(1);
+  expect(metrics.brier).toBeCloseTo((0.05 ** 2 + 0.05 ** 2 + 0.1 ** 2) / 4, 10);
+  expect(metrics.expected_calibration_error).toBeCloseTo(0.25 * 0.05 + 0.75 * (1 - 2.85 / 3), 10);
+});
+
+test('logistic training learns the direction of a feature', () => {
+  const model = trainLogistic(examples(200), {}, ['has_booking', 'review_count']);
+  expect(model.weights[0]).toBeLessThan(0);
+  expect(predictProbability(model, { has_booking: false })).toBeGreaterThan(0.7);
+  expect(predictProbability(model, { has_booking: true })).toBeLessThan(0.3);
+});
+
+test('a feature without spread gets no weight', () => {
+  const model = trainLogistic(examples(100), {}, ['has_website', 'has_booking']);
+  expect(model.stds[0]).toBe(1);
+  expect(model.weights[0]).toBe(0);
+});
+
+test.describe('trainScoringModel', () => {
+  test('reports holdout metrics for the trained model', () => {
+    const { model, metrics } = trainScoringModel(examples(300), '2025-09-30');
+    expect(model.version).toBe('2025-09-30');
+    expect(metrics.training_examples + metrics.holdout_examples).toBe(300);
+    expect(metrics.positives + metrics.negatives).toBe(300);
+    expect(metrics.auc).toBeGreaterThan(0.8);
+    expect(metrics.brier).toBeLessThan(0.2);
+  });
+
+  test('refuses too few or one-sided examples', () => {
+    expect(() => trainScoringModel(examples(MIN_TRAINING_EXAMPLES - 1), 'v')).toThrow(`Need at least ${MIN_TRAINING_EXAMPLES} labelled leads`);
+    const allWon = examples(60).map(example => ({ ...example, outcome: 'won' as const }));
+    expect(() => trainScoringModel(allWon, 'v')).toThrow('both positive');
+  });
+});
+
+test('learned contributions add up to the model score', () => {
+  const model = trainLogistic(examples(200), {}, ['has_booking', 'review_count']);
+  const features = { has_booking: false, review_count: 12 };
+  const contributions = learnedContributions(model, features);
+  const total = contributions.reduce((sum, contribution) => sum + contribution.points, 0);
+
+  expect(contributions[0].feature).toBe('base');
+  expect(contributions.find(contribution => contribution.feature === 'has_booking')!.points).toBeGreaterThan(0);
+  expect(total).toBeCloseTo(Math.round(predictProbability(model, features) * 100), 5);
+});
@@ -0,0 +1,76 @@
+import { test, expect } from '@playwright/test';
+import { diffRuns, RunLead, signalSnapshot } from '../supabase/functions/lib/search-diff';
+
+// Comparing two runs of the same saved search.
+
+function lead(business_id: string, score: number, rank: number | null, signals: RunLead['signals'] = null): RunLead {
+  return { business_id, name: `Business ${business_id}`, score, rank, signals };
+}
+
+test('snapshots signals by type', () => {
+  expect(signalSnapshot([
+    { type: 'has_online_booking', value_json: false },
+    { type: 'review_count', value_json: 42 },
+    { type: 'owner_identified', value_json: undefined },
+  ])).toEqual({ has_online_booking: false, review_count: 42, owner_identified: null });
+});
+
+test('finds businesses only one run returned', () => {
+  const diff = diffRuns(
+    { job_id: 'run-1', leads: [lead('a', 80, 1), lead('b', 70, 2)] },
+    { job_id: 'run-2', leads: [lead('a', 80, 1), lead('c', 75, 2)] },
+  );
+
+  expect(diff.base_job_id).toBe('run-1');
+  expect(diff.compare_job_id).toBe('run-2');
+  expect(diff.added.map(entry => entry.business_id)).toEqual(['c']);
+  expect(diff.removed.map(entry => entry.business_id)).toEqual(['b']);
+  expect(diff.unchanged).toBe(1);
+});
+
+test('lists score changes biggest first and ignores rounding noise', () => {
+  const diff = diffRuns(
+    { job_id: 'run-1', leads: [lead('a', 80, 1), lead('b', 70, 2), lead('c', 60, 3)] },
+    { job_id: 'run-2', leads: [lead('b', 82, 1), lead('a', 76, 2), lead('c', 60.5, 3)] },
+  );
+
+  expect(diff.score_changes).toEqual([
+    { business_id: 'b', name: 'Business b', before: 70, after: 82, delta: 12, rank_before: 2, rank_after: 1 },
+    { business_id: 'a', name: 'Business a', before: 80, after: 76, delta: -4, rank_before: 1, rank_after: 2 },
+  ]);
+  expect(diff.unchanged).toBe(1);
+});
+
+test('reports signals that appeared, disappeared or changed value', () => {
+  const diff = diffRuns(
+    { job_id: 'run-1', leads: [lead('a', 80, 1, { has_online_booking: false, has_chatbot: true, review_count: 40 })] },
+    { job_id: 'run-2', leads: [lead('a', 80, 1, { has_online_booking: true, review_count: 40, owner_identified: true })] },
+  );
+
+  expect(diff.signal_changes).toEqual([
+    { business_id: 'a', name: 'Business a', type: 'has_chatbot', before: true, after: null },
+    { business_id: 'a', name: 'Business a', type: 'has_online_booking', before: false, after: true },
+    { business_id: 'a', name: 'Business a', type: 'owner_identified', before: null, after: true },
+  ]);
+  expect(diff.score_changes).toEqual([]);
+  expect(diff.unchanged).toBe(0);
+});
+
+test('compares structured signal values by content', () => {
+  const performance = { load_time_ms: 900, ssl_enabled: true };
+  const diff = diffRuns(
+    { job_id: 'run-1', leads: [lead('a', 80, 1, { website_performance: performance })] },
+    { job_id: 'run-2', leads: [lead('a', 80, 1, { website_performance: { ...performance } })] },
+  );
+  expect(diff.signal_changes).toEqual([]);
+  expect(diff.unchanged).toBe(1);
+});
+
+test('lead views without a snapshot are not compared on signals', () => {
+  const diff = diffRuns(
+    { job_id: 'run-1', leads: [lead('a', 80, 1, null)] },
+    { job_id: 'run-2', leads: [lead('a', 80, 1, { has_online_booking: true })] },
+  );
+  expect(diff.signal_changes).toEqual([]);
+  expect(diff.unchanged).toBe(1);
+});
@@ -0,0 +1,100 @@
+import { test, expect } from '@playwright/test';
+import { planSearchAreas, SearchArea } from '../supabase/functions/lib/geocoding';
+import type { LeadQueryGeo } from '../supabase/functions/lib/lead-query';
+import {
+  childTiles,
+  FetchTaskResult,
+  MAX_TILE_DEPTH,
+  resolveTile,
+  ROOT_TILE,
+  summarizeTileCoverage,
+  tileLabel,
+  tileLocation,
+} from '../supabase/functions/lib/search-tiles';
+
+// Splitting a search area into quadrant tiles and rolling fetch results up
+// into tile coverage.
+
+const [columbia] = planSearchAreas({ city: 'Columbia', state: 'SC', radius_km: 25 } as LeadQueryGeo);
+const zipOnly: SearchArea = { label: 'ZIP 29201', city: '29201', state: 'SC' };
+
+test('the root tile covers the whole area', () => {
+  const root = resolveTile(columbia, ROOT_TILE);
+  expect(root).toEqual({ id: 'r', depth: 0, bounds: columbia.locationRestriction });
+  expect(tileLocation(columbia, root)).toEqual({ locationBias: columbia.locationBias, locationRestriction: columbia.locationRestriction });
+});
+
+test('children split their parent into SW, SE, NW and NE quadrants', () => {
+  const root = resolveTile(columbia, ROOT_TILE);
+  const { low, high } = root.bounds!.rectangle;
+  const midLat = (low.latitude + high.latitude) / 2;
+  const midLng = (low.longitude + high.longitude) / 2;
+
+  const [sw, se, nw, ne] = childTiles(root);
+  expect([sw, se, nw, ne].map(tile => tile.id)).toEqual(['r.0', 'r.1', 'r.2', 'r.3']);
+  expect(sw.bounds!.rectangle).toEqual({ low, high: { latitude: midLat, longitude: midLng } });
+  expect(ne.bounds!.rectangle).toEqual({ low: { latitude: midLat, longitude: midLng }, high });
+  expect(se.bounds!.rectangle.low).toEqual({ latitude: low.latitude, longitude: midLng });
+  expect(nw.bounds!.rectangle.high).toEqual({ latitude: high.latitude, longitude: midLng });
+});
+
+test('a tile id alone rebuilds the same tile', () => {
+  const [, , nw] = childTiles(resolveTile(columbia, ROOT_TILE));
+  const [, nwSe] = childTiles(nw);
+  expect(resolveTile(columbia, 'r.2.1')).toEqual(nwSe);
+  expect(nwSe.depth).toBe(2);
+});
+
+test('a child tile biases towards its own center and is restricted to its bounds', () => {
+  const [sw] = childTiles(resolveTile(columbia, ROOT_TILE));
+  const location = tileLocation(columbia, sw);
+  const { low, high } = sw.bounds!.rectangle;
+
+  expect(location.locationRestriction).toEqual(sw.bounds);
+  expect(location.locationBias!.circle.center).toEqual({
+    latitude: (low.latitude + high.latitude) / 2,
+    longitude: (low.longitude + high.longitude) / 2,
+  });
+  expect(location.locationBias!.circle.radius).toBeLessThan(columbia.locationBias!.circle.radius);
+});
+
+test('rejects malformed, too deep and untileable ids', () => {
+  expect(() => resolveTile(columbia, 'x.1')).toThrow('Invalid search tile id: x.1');
+  expect(() => resolveTile(columbia, 'r.4')).toThrow('Invalid search tile id');
+  expect(() => resolveTile(columbia, ['r', ...Array(MAX_TILE_DEPTH + 1).fill('0')].join('.'))).toThrow('Invalid search tile id');
+  expect(() => resolveTile(zipOnly, 'r.0')).toThrow('Search area ZIP 29201 has no bounds to tile');
+});
+
+test('areas without coordinates are searched as one untiled query', () => {
+  const root = resolveTile(zipOnly, ROOT_TILE);
+  expect(root).toEqual({ id: 'r', depth: 0 });
+  expect(childTiles(root)).toEqual([]);
+});
+
+test('labels tiles by their quadrant path', () => {
+  expect(tileLabel('Columbia, SC', 'r')).toBe('Columbia, SC');
+  expect(tileLabel('Columbia, SC', 'r.2.1')).toBe('Columbia, SC NW/SE');
+});
+
+test('rolls fetch pages up into one coverage entry per tile and place type', () => {
+  const page = (tile: string, pageNumber: number, fetched: number, status?: FetchTaskResult['tile_status'], placeType = 'dentist'): FetchTaskResult => ({
+    area: 0, tile, place_type: placeType, page: pageNumber, fetched, ...(status && { tile_status: status }),
+  });
+
+  const coverage = summarizeTileCoverage([
+    page('r', 0, 20), page('r', 1, 20), page('r', 2, 20, 'split'),
+    page('r.0', 0, 12, 'exhausted'),
+    page('r.1', 0, 20),
+    page('r', 0, 7, 'exhausted', 'orthodontist'),
+    { area: 3, tile: 'r', place_type: 'dentist', page: 0, fetched: 5 },
+    'not a fetch result',
+  ], [columbia]);
+
+  expect(coverage.tiles.map(tile => [tile.label, tile.place_type, tile.fetched, tile.status])).toEqual([
+    ['Columbia, SC', 'dentist', 60, 'split'],
+    ['Columbia, SC', 'orthodontist', 7, 'exhausted'],
+    ['Columbia, SC SE', 'dentist', 20, undefined],
+    ['Columbia, SC SW', 'dentist', 12, 'exhausted'],
+  ]);
+  expect(coverage.counts).toEqual({ exhausted: 2, split: 1, capped: 0, stopped: 0, incomplete: 1 });
+});
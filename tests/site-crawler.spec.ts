@@ -0,0 +1,149 @@
+import { test, expect } from '@playwright/test';
+import { classifyPage, crawlSite, extractLinks, parseRobotsTxt } from '../supabase/functions/lib/site-crawler';
+
+// robots.txt handling and the limits the website audit crawl runs under.
+// Sites are served by a stub fetch; nothing here touches the network.
+
+type StubPage = { body?: string; status?: number; type?: string; redirect?: string; delayMs?: number };
+
+// Serves `site` by absolute URL and records every request in `requested`
+function stubFetch(site: Record<string, StubPage>, requested: string[] = []): typeof fetch {
+  return (async (input: string | URL | Request) => {
+    const url = String(input);
+    requested.push(url);
+    const page = site[url];
+    if (page?.delayMs) await new Promise(resolve => setTimeout(resolve, page.delayMs));
+    const response = page
+      ? new Response(page.body ?? '', { status: page.status ?? 200, headers: { 'content-type': page.type ?? 'text/html' } })
+      : new Response('Not found', { status: 404, headers: { 'content-type': 'text/plain' } });
+    Object.defineProperty(response, 'url', { value: page?.redirect ?? url });
+    return response;
+  }) as typeof fetch;
+}
+
+function linksTo(...paths: string[]) {
+  return `<html><body>${paths.map(path => `<a href="${path}">${path.slice(1)}</a>`).join(' ')}</body></html>`;
+}
+
+test.describe('parseRobotsTxt', () => {
+  const robots = parseRobotsTxt([
+    'User-agent: *',
+    'Disallow: /',
+    '',
+    'User-agent: Googlebot',
+    'User-agent: LeadFinder',
+    'Disallow: /admin',
+    'Disallow: /*.php$',
+    'Allow: /admin/public',
+    'Crawl-delay: 2',
+  ].join('\n'));
+
+  test('uses the group naming our agent over the wildcard group', () => {
+    expect(robots.isAllowed('/contact')).toBe(true);
+    expect(robots.isAllowed('/admin/settings')).toBe(false);
+    expect(robots.crawlDelayMs).toBe(2000);
+  });
+
+  test('the longest matching rule wins', () => {
+    expect(robots.isAllowed('/admin/public/hours')).toBe(true);
+  });
+
+  test('supports * and $ wildcards', () => {
+    expect(robots.isAllowed('/book/index.php')).toBe(false);
+    expect(robots.isAllowed('/book/index.php?step=2')).toBe(true);
+  });
+
+  test('Allow wins a tie and comments are ignored', () => {
+    const tie = parseRobotsTxt('User-agent: * # everyone\nDisallow: /team\nAllow: /team');
+    expect(tie.isAllowed('/team')).toBe(true);
+  });
+
+  test('falls back to the wildcard group, and allows everything without one', () => {
+    expect(parseRobotsTxt('User-agent: *\nDisallow: /private').isAllowed('/private/x')).toBe(false);
+    expect(parseRobotsTxt('User-agent: Googlebot\nDisallow: /').isAllowed('/')).toBe(true);
+  });
+});
+
+test('classifies pages by path and link text', () => {
+  expect(classifyPage('/')).toBe('home');
+  expect(classifyPage('/new-patients')).toBe('booking');
+  expect(classifyPage('/p/12', 'Meet our doctors')).toBe('team');
+  expect(classifyPage('/blog')).toBe('other');
+});
+
+test('extracts same-origin page links only', () => {
+  const html = '<a href="/contact#map">Contact</a><a href="https://other.com/x">x</a><a href="/menu.pdf">Menu</a><a href="tel:8035550101">Call</a>';
+  expect(extractLinks(html, 'https://smithdental.com/', 'https://smithdental.com')).toEqual([
+    { url: 'https://smithdental.com/contact', text: 'Contact' },
+  ]);
+});
+
+test.describe('crawlSite', () => {
+  test('only follows seed paths the home page links to, and crawls them first', async () => {
+    const requested: string[] = [];
+    const fetch = stubFetch({
+      'https://smithdental.com/': { body: linksTo('/about', '/contact', '/book/') },
+      'https://smithdental.com/about': { body: '<p>About</p>' },
+      'https://smithdental.com/contact': { body: '<p>Contact</p>' },
+      'https://smithdental.com/book/': { body: '<p>Book</p>' },
+    }, requested);
+
+    const crawl = await crawlSite('https://smithdental.com/', { fetch, seedPaths: ['/schedule', '/about', '/book'] });
+
+    expect(requested).not.toContain('https://smithdental.com/schedule');
+    expect(crawl.pages.map(page => page.path)).toEqual(['/', '/book/', '/about', '/contact']);
+  });
+
+  test('reads robots.txt again for the origin the home page redirects to', async () => {
+    const requested: string[] = [];
+    const fetch = stubFetch({
+      'http://smithdental.com/': { redirect: 'https://www.smithdental.com/', body: linksTo('/contact', '/team') },
+      'https://www.smithdental.com/robots.txt': { body: 'User-agent: *\nDisallow: /team', type: 'text/plain' },
+      'https://www.smithdental.com/contact': { body: '<p>Contact</p>' },
+    }, requested);
+
+    const crawl = await crawlSite('http://smithdental.com/', { fetch });
+
+    expect(requested.slice(0, 3)).toEqual([
+      'http://smithdental.com/robots.txt',
+      'http://smithdental.com/',
+      'https://www.smithdental.com/robots.txt',
+    ]);
+    expect(crawl.origin).toBe('https://www.smithdental.com');
+    expect(crawl.robots_txt_found).toBe(true);
+    expect(crawl.skipped).toEqual([{ url: 'https://www.smithdental.com/team', reason: 'robots' }]);
+    expect(crawl.pages.map(page => page.path)).toEqual(['/', '/contact']);
+  });
+
+  test('stops at the page budget and the depth limit', async () => {
+    const fetch = stubFetch({
+      'https://smithdental.com/': { body: linksTo('/contact', '/services', '/blog') },
+      'https://smithdental.com/contact': { body: linksTo('/contact/directions') },
+      'https://smithdental.com/services': { body: '' },
+    });
+
+    const crawl = await crawlSite('https://smithdental.com/', { fetch, maxPages: 2, maxDepth: 1 });
+
+    expect(crawl.pages.map(page => page.path)).toEqual(['/', '/contact']);
+    expect(crawl.skipped).toEqual([
+      { url: 'https://smithdental.com/contact/directions', reason: 'depth' },
+      { url: 'https://smithdental.com/services', reason: 'budget' },
+      { url: 'https://smithdental.com/blog', reason: 'budget' },
+    ]);
+  });
+
+  test('skips what is still queued once the crawl time runs out', async () => {
+    const fetch = stubFetch({
+      'https://smithdental.com/': { body: linksTo('/contact', '/about'), delayMs: 80 },
+      'https://smithdental.com/contact': { body: '' },
+      'https://smithdental.com/about': { body: '' },
+    });
+
+    const started = Date.now();
+    const crawl = await crawlSite('https://smithdental.com/', { fetch, maxCrawlMs: 50 });
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(crawl.pages.map(page => page.path)).toEqual(['/']);
+    expect(crawl.skipped.map(entry => entry.reason)).toEqual(['time', 'time']);
+  });
+});
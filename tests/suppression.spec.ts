@@ -0,0 +1,106 @@
+import { test, expect } from '@playwright/test';
+import {
+  addToTally,
+  buildSuppressionList,
+  isEmptySuppressionList,
+  matchSuppression,
+  normalizeSuppressionValue,
+  parseSuppressionCsv,
+} from '../supabase/functions/lib/suppression';
+
+// Matching search candidates against an account's suppression list and
+// importing customer lists from CSV.
+
+const list = buildSuppressionList(
+  [
+    { kind: 'domain', value: 'https://www.SmithDental.com/contact' },
+    { kind: 'phone', value: '+1 (803) 555-0101' },
+    { kind: 'place_id', value: 'ChIJ-customer-123' },
+    { kind: 'name_pattern', value: 'Bright Smiles*' },
+  ],
+  ['Aspen Dental'],
+);
+
+test('normalizes entries the way candidates are compared', () => {
+  expect(normalizeSuppressionValue('domain', 'bob@acme.com')).toBe('acme.com');
+  expect(normalizeSuppressionValue('domain', 'not a domain')).toBeNull();
+  expect(normalizeSuppressionValue('phone', '803.555.0101')).toBe('8035550101');
+  expect(normalizeSuppressionValue('phone', '555-0101')).toBeNull();
+  expect(normalizeSuppressionValue('place_id', 'short')).toBeNull();
+  expect(normalizeSuppressionValue('name_pattern', "Joe's Bar & Grill")).toBe('joe s bar and grill');
+  expect(normalizeSuppressionValue('name_pattern', '**')).toBeNull();
+});
+
+test('matches on place id, domain, phone, name pattern and exclusion in that order', () => {
+  expect(matchSuppression(list, { place_id: 'ChIJ-customer-123', website: 'smithdental.com' })).toBe('place_id');
+  expect(matchSuppression(list, { website: 'http://smithdental.com/book', phone: '803-555-0101' })).toBe('domain');
+  expect(matchSuppression(list, { name: 'Smith Dental', phone: '(803) 555-0101' })).toBe('phone');
+  expect(matchSuppression(list, { name: 'Bright Smiles of Columbia' })).toBe('name_pattern');
+  expect(matchSuppression(list, { name: 'Aspen Dental - Harbison' })).toBe('exclusion');
+  expect(matchSuppression(list, { name: 'Congaree Family Dentistry', website: 'congareedental.com', phone: '803-555-0199' })).toBeNull();
+});
+
+test('a domain entry covers its subdomains but not lookalike domains', () => {
+  expect(matchSuppression(list, { website: 'https://columbia.smithdental.com' })).toBe('domain');
+  expect(matchSuppression(list, { website: 'https://notsmithdental.com' })).toBeNull();
+});
+
+test('name patterns match the whole name; exclusions match whole words anywhere', () => {
+  expect(matchSuppression(list, { name: 'The Bright Smiles Studio' })).toBeNull();
+  expect(matchSuppression(list, { name: 'Aspendale Dental' })).toBeNull();
+});
+
+test('an empty list suppresses nothing', () => {
+  const empty = buildSuppressionList([{ kind: 'domain', value: 'nope' }], ['   ']);
+  expect(isEmptySuppressionList(empty)).toBe(true);
+  expect(isEmptySuppressionList(list)).toBe(false);
+  expect(matchSuppression(empty, { name: 'Smith Dental', website: 'smithdental.com' })).toBeNull();
+});
+
+test('tallies suppressed candidates by reason', () => {
+  let tally = { count: 0, by_reason: {} };
+  tally = addToTally(tally, 'domain');
+  tally = addToTally(tally, 'worked', 3);
+  tally = addToTally(tally, 'domain', 0);
+  expect(tally).toEqual({ count: 4, by_reason: { domain: 1, worked: 3 } });
+});
+
+test.describe('parseSuppressionCsv', () => {
+  test('imports recognised columns of a customer export', () => {
+    const csv = [
+      'Company,Website,Main Phone,Notes',
+      '"Smith Dental, LLC",https://www.smithdental.com,(803) 555-0101,"Renewed ""gold"" plan"',
+      'Bright Smiles,brightsmiles.com,,',
+      ',,,just a note',
+    ].join('\r\n');
+
+    const result = parseSuppressionCsv(`\uFEFF${csv}`);
+    expect(result.entries).toEqual([
+      { kind: 'name_pattern', value: 'smith dental llc' },
+      { kind: 'domain', value: 'smithdental.com' },
+      { kind: 'phone', value: '8035550101' },
+      { kind: 'name_pattern', value: 'bright smiles' },
+      { kind: 'domain', value: 'brightsmiles.com' },
+    ]);
+    expect(result.rows).toBe(3);
+    expect(result.skipped).toEqual(['Row 4: no domain, phone, place id or name found']);
+  });
+
+  test('classifies each cell of a headerless list on its own and drops repeats', () => {
+    const result = parseSuppressionCsv('smithdental.com\n803-555-0101\nChIJ-customer-123\nAspen Dental\nSMITHDENTAL.COM\n');
+    expect(result.entries).toEqual([
+      { kind: 'domain', value: 'smithdental.com' },
+      { kind: 'phone', value: '8035550101' },
+      { kind: 'place_id', value: 'ChIJ-customer-123' },
+      { kind: 'name_pattern', value: 'aspen dental' },
+    ]);
+    expect(result.rows).toBe(5);
+    expect(result.skipped).toEqual([]);
+  });
+
+  test('caps the skipped-row messages', () => {
+    const result = parseSuppressionCsv(['Website', ...Array(25).fill('n/a')].join('\n'));
+    expect(result.skipped).toHaveLength(21);
+    expect(result.skipped[20]).toBe('5 more rows skipped');
+  });
+});
@@ -0,0 +1,210 @@
+import { test, expect } from '@playwright/test';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  completeTask,
+  countTasks,
+  enqueueTasks,
+  failTask,
+  hasRunnableTasks,
+  kickWorker,
+  leaseTasks,
+  listTaskResults,
+  SearchJobTask,
+  tallyTasksByType,
+} from '../supabase/functions/lib/task-queue';
+
+// The task queue client against an in-memory stand-in for the
+// search_job_tasks table. The lease/complete/fail SQL functions are scripted:
+// the spec checks what the client sends them and how it reads their answers.
+
+type Row = Record<string, unknown>;
+type Call = { table?: string; fn?: string; op: string; args: unknown[] };
+
+function fakeSupabase(rows: Row[] = [], rpcResults: Record<string, { data?: unknown; error?: { message: string } }> = {}) {
+  const calls: Call[] = [];
+
+  function query(table: string) {
+    const filters: Array<(row: Row) => boolean> = [];
+    let ordered: string | null = null;
+    let counting = false;
+    let columns = '*';
+
+    const builder = {
+      select(selected: string, options?: { count?: string; head?: boolean }) {
+        columns = selected;
+        counting = options?.head === true;
+        return builder;
+      },
+      eq(column: string, value: unknown) {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      in(column: string, values: unknown[]) {
+        filters.push(row => values.includes(row[column]));
+        return builder;
+      },
+      lte(column: string, value: string) {
+        filters.push(row => String(row[column]) <= value);
+        return builder;
+      },
+      order(column: string) {
+        ordered = column;
+        return builder;
+      },
+      upsert(upserted: Row[], options: unknown) {
+        calls.push({ table, op: 'upsert', args: [upserted, options] });
+        return Promise.resolve({ error: rpcResults.upsert?.error ?? null });
+      },
+      then(resolve: (value: unknown) => void) {
+        let matched = rows.filter(row => filters.every(filter => filter(row)));
+        if (ordered) matched = [...matched].sort((a, b) => String(a[ordered!]).localeCompare(String(b[ordered!])));
+        const picked = columns === '*'
+          ? matched
+          : matched.map(row => Object.fromEntries(columns.split(',').map(column => [column.trim(), row[column.trim()]])));
+        resolve(counting ? { count: matched.length, error: null } : { data: picked, error: null });
+      },
+    };
+    return builder;
+  }
+
+  const client = {
+    from: (table: string) => query(table),
+    rpc(fn: string, args: Row) {
+      calls.push({ fn, op: 'rpc', args: [args] });
+      const result = rpcResults[fn] ?? {};
+      return Promise.resolve({ data: result.data ?? null, error: result.error ?? null });
+    },
+  };
+  return { supabase: client as unknown as SupabaseClient, calls };
+}
+
+const task = { id: 'task-1' } as SearchJobTask;
+
+test.describe('enqueueTasks', () => {
+  test('writes one row per task and ignores keys already queued for the job', async () => {
+    const { supabase, calls } = fakeSupabase();
+    const before = Date.now();
+
+    await enqueueTasks(supabase, 'job-1', [
+      { type: 'fetch', dedupe_key: 'fetch:page-1', payload: { query: 'dentist' } },
+      { type: 'fetch', dedupe_key: 'fetch:page-2', max_attempts: 3, delay_seconds: 2 },
+    ]);
+
+    const [{ table, args: [upserted, options] }] = calls;
+    expect(table).toBe('search_job_tasks');
+    expect(options).toEqual({ onConflict: 'search_job_id,dedupe_key', ignoreDuplicates: true });
+
+    const [first, second] = upserted as Row[];
+    expect(first).toEqual({ search_job_id: 'job-1', type: 'fetch', dedupe_key: 'fetch:page-1', payload: { query: 'dentist' } });
+    expect(second).toMatchObject({ dedupe_key: 'fetch:page-2', payload: {}, max_attempts: 3 });
+    expect(Date.parse(second.run_after as string) - before).toBeGreaterThanOrEqual(2000);
+  });
+
+  test('skips the round trip for an empty fan-out', async () => {
+    const { supabase, calls } = fakeSupabase();
+    await enqueueTasks(supabase, 'job-1', []);
+    expect(calls).toEqual([]);
+  });
+
+  test('surfaces database errors', async () => {
+    const { supabase } = fakeSupabase([], { upsert: { error: { message: 'relation does not exist' } } });
+    await expect(enqueueTasks(supabase, 'job-1', [{ type: 'validate', dedupe_key: 'validate' }]))
+      .rejects.toThrow('Failed to enqueue tasks: relation does not exist');
+  });
+});
+
+test.describe('leases', () => {
+  test('leases with the default limit and lease length across all jobs', async () => {
+    const { supabase, calls } = fakeSupabase();
+    expect(await leaseTasks(supabase, 'worker-a')).toEqual([]);
+    expect(calls[0]).toMatchObject({
+      fn: 'lease_search_job_tasks',
+      args: [{ p_worker: 'worker-a', p_limit: 10, p_lease_seconds: 120, p_search_job_id: null }],
+    });
+  });
+
+  test('completing after the lease moved to another worker reports false', async () => {
+    const lost = fakeSupabase([], { complete_search_job_task: { data: false } });
+    expect(await completeTask(lost.supabase, task, 'worker-a', { places: 20 })).toBe(false);
+    expect(lost.calls[0].args).toEqual([{ p_task_id: 'task-1', p_worker: 'worker-a', p_result: { places: 20 } }]);
+
+    const held = fakeSupabase([], { complete_search_job_task: { data: true } });
+    expect(await completeTask(held.supabase, task, 'worker-a')).toBe(true);
+  });
+
+  test('failing returns the status the task moved to and truncates long errors', async () => {
+    const { supabase, calls } = fakeSupabase([], { fail_search_job_task: { data: 'dead' } });
+    expect(await failTask(supabase, task, 'worker-a', 'x'.repeat(5000))).toBe('dead');
+    expect(((calls[0].args[0] as Row).p_error as string).length).toBe(2000);
+  });
+
+  test('lease errors name the operation', async () => {
+    const { supabase } = fakeSupabase([], { lease_search_job_tasks: { error: { message: 'permission denied' } } });
+    await expect(leaseTasks(supabase, 'worker-a')).rejects.toThrow('Failed to lease tasks: permission denied');
+  });
+});
+
+test.describe('progress', () => {
+  const rows: Row[] = [
+    { id: '1', search_job_id: 'job-1', type: 'fetch', status: 'completed', result: { page: 1 }, completed_at: '2025-09-17T10:00:02Z' },
+    { id: '2', search_job_id: 'job-1', type: 'fetch', status: 'completed', result: { page: 0 }, completed_at: '2025-09-17T10:00:01Z' },
+    { id: '3', search_job_id: 'job-1', type: 'enrich', status: 'leased' },
+    { id: '4', search_job_id: 'job-1', type: 'enrich', status: 'dead' },
+    { id: '5', search_job_id: 'job-2', type: 'score', status: 'pending' },
+  ];
+
+  test('tallies one job by type and status', async () => {
+    const { supabase } = fakeSupabase(rows);
+    const tallies = await tallyTasksByType(supabase, 'job-1');
+    expect(tallies.fetch).toEqual({ pending: 0, leased: 0, completed: 2, dead: 0 });
+    expect(tallies.enrich).toEqual({ pending: 0, leased: 1, completed: 0, dead: 1 });
+    expect(tallies.score).toEqual({ pending: 0, leased: 0, completed: 0, dead: 0 });
+
+    expect(await countTasks(supabase, 'job-1', ['enrich'])).toEqual({ pending: 0, leased: 1, completed: 0, dead: 1 });
+  });
+
+  test('lists completed results in completion order', async () => {
+    const { supabase } = fakeSupabase(rows);
+    expect(await listTaskResults(supabase, 'job-1', 'fetch')).toEqual([{ page: 0 }, { page: 1 }]);
+  });
+
+  test('runnable work is pending tasks whose backoff ends within the window', async () => {
+    const inSeconds = (seconds: number) => new Date(Date.now() + seconds * 1000).toISOString();
+    const { supabase } = fakeSupabase([
+      ...rows,
+      { id: '6', search_job_id: 'job-3', type: 'fetch', status: 'pending', run_after: inSeconds(-1) },
+      { id: '7', search_job_id: 'job-4', type: 'fetch', status: 'pending', run_after: inSeconds(600) },
+      { id: '8', search_job_id: 'job-5', type: 'enrich', status: 'leased', run_after: inSeconds(-60) },
+    ]);
+
+    expect(await hasRunnableTasks(supabase, 'job-3')).toBe(true);
+    // A long backoff neither holds a worker nor makes it kick another
+    expect(await hasRunnableTasks(supabase, 'job-4', 50_000)).toBe(false);
+    expect(await hasRunnableTasks(supabase, 'job-4', 900_000)).toBe(true);
+    // Leased by another worker: left to that worker or the cron drain
+    expect(await hasRunnableTasks(supabase, 'job-5', 50_000)).toBe(false);
+  });
+});
+
+test('kickWorker keeps the edge runtime alive until the kick is sent', async () => {
+  const global = globalThis as unknown as { fetch: typeof fetch; EdgeRuntime?: unknown };
+  const originalFetch = global.fetch;
+  const requests: Array<{ url: string; body: unknown }> = [];
+  const waited: Promise<unknown>[] = [];
+
+  global.fetch = (async (url: string, init: RequestInit) => {
+    requests.push({ url, body: JSON.parse(init.body as string) });
+    return new Response('{}');
+  }) as typeof fetch;
+  global.EdgeRuntime = { waitUntil: (promise: Promise<unknown>) => waited.push(promise) };
+
+  try {
+    kickWorker('https://project.supabase.co', 'service-key', 'job-1');
+    expect(waited).toHaveLength(1);
+    await waited[0];
+    expect(requests).toEqual([{ url: 'https://project.supabase.co/functions/v1/search-worker', body: { search_job_id: 'job-1' } }]);
+  } finally {
+    global.fetch = originalFetch;
+    delete global.EdgeRuntime;
+  }
+});
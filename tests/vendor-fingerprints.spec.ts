@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+import { detectVendors, VendorFingerprint } from '../supabase/functions/lib/vendor-fingerprints';
+
+// Vendor detection against the built-in fingerprint database: traces a vendor
+// leaves in script URLs, headers, cookies and meta tags, not bare substrings.
+
+function detectedIds(...args: Parameters<typeof detectVendors>): string[] {
+  return detectVendors(...args).map(match => match.id);
+}
+
+test('square footage is not a payment processor', () => {
+  const html = '<p>Our clinic offers 4,000 square feet of space. Ask about square footage for events.</p>';
+  expect(detectedIds({ html }, undefined, ['payment_processors'])).toEqual([]);
+});
+
+test('matches script src fingerprints', () => {
+  const [square] = detectVendors({ html: '<script src="https://web.squarecdn.com/v1/square.js"></script>' }, undefined, ['payment_processors']);
+  expect(square).toMatchObject({ id: 'square', name: 'Square', category: 'payment_processors', confidence: 0.95 });
+  expect(square.evidence).toEqual([{
+    kind: 'scriptSrc',
+    pattern: 'web\\.squarecdn\\.com',
+    snippet: 'https://web.squarecdn.com/v1/square.js',
+    matched: 'https://web.squarecdn.com/v1/square.js',
+    confidence: 0.95,
+  }]);
+});
+
+test('matches response header fingerprints, ignoring header case', () => {
+  const matches = detectVendors({ html: '<html></html>', headers: { 'X-Sucuri-ID': '11005' } }, undefined, ['security']);
+  expect(matches.map(match => match.id)).toEqual(['sucuri']);
+  expect(matches[0].evidence[0]).toMatchObject({ kind: 'header', snippet: 'x-sucuri-id: 11005' });
+});
+
+test('matches cookie fingerprints from explicit cookies or a Set-Cookie header', () => {
+  expect(detectedIds({ html: '', cookies: { hubspotutk: 'abc123' } }, undefined, ['crm'])).toEqual(['hubspot']);
+  expect(detectedIds({ html: '', headers: { 'set-cookie': 'session=1; Path=/, hubspotutk=abc123; Path=/' } }, undefined, ['crm'])).toEqual(['hubspot']);
+});
+
+test('matches meta fingerprints by name and content', () => {
+  const html = '<head><meta name="generator" content="WordPress 6.4.2"></head>';
+  const [wordpress] = detectVendors({ html }, undefined, ['cms']);
+  expect(wordpress.id).toBe('wordpress');
+  expect(wordpress.evidence).toEqual([expect.objectContaining({ kind: 'meta', snippet: 'generator: WordPress 6.4.2' })]);
+
+  expect(detectedIds({ html: '<meta name="generator" content="Hugo 0.120">' }, undefined, ['cms'])).toEqual([]);
+});
+
+test('independent traces raise confidence, strongest vendor first', () => {
+  const fingerprints: VendorFingerprint[] = [
+    { id: 'weak', name: 'Weak', category: 'chatbot', confidence: 0.5, html: ['weak-widget'] },
+    { id: 'layered', name: 'Layered', category: 'chatbot', confidence: 0.5, html: ['layered-widget'], cookies: { layered_id: '' } },
+  ];
+  const matches = detectVendors({ html: '<div class="weak-widget layered-widget"></div>', cookies: { layered_id: '1' } }, fingerprints);
+  expect(matches.map(match => [match.id, match.confidence])).toEqual([['layered', 0.75], ['weak', 0.5]]);
+});